@@ -42,10 +42,6 @@ describe('APP_CONSTANTS', () => {
 
   it('has INDEXED_DB configuration', () => {
     expect(APP_CONSTANTS.INDEXED_DB.NAME).toBeTruthy()
-    expect(APP_CONSTANTS.INDEXED_DB.VERSION).toBeGreaterThan(0)
-    expect(APP_CONSTANTS.INDEXED_DB.STORES.USERS).toBeTruthy()
-    expect(APP_CONSTANTS.INDEXED_DB.STORES.PENDING_OPERATIONS).toBeTruthy()
-    expect(APP_CONSTANTS.INDEXED_DB.STORES.CACHE_ENTRIES).toBeTruthy()
   })
 
   it('has VALIDATION patterns that compile as RegExp', () => {
@@ -13,6 +13,34 @@ export const APP_CONSTANTS = {
   API: {
     BASE_URL: 'https://reqres.in/api',
     TIMEOUT: 30000,
+    // Client-side rate limit per base URL (token bucket + concurrency cap)
+    RATE_LIMIT: {
+      CAPACITY: 10, // burst size
+      REFILL_PER_SECOND: 5,
+      MAX_CONCURRENT: 6,
+    },
+  },
+
+  // CSRF Configuration (token is issued by the server)
+  CSRF: {
+    SOURCE: 'cookie', // endpoint | cookie | meta
+    ENDPOINT: '/csrf-token', // relative to API.BASE_URL unless absolute
+    COOKIE_NAME: 'XSRF-TOKEN',
+    META_NAME: 'csrf-token',
+  },
+
+  // Authentication endpoints (relative to API.BASE_URL)
+  AUTH: {
+    LOGIN_ENDPOINT: '/auth/login',
+    REFRESH_ENDPOINT: '/auth/refresh',
+    LOGOUT_ENDPOINT: '/auth/logout',
+    REFRESH_LEEWAY: 60000, // refresh 1 minute before the access token expires
+  },
+
+  // Cross-tab coordination (BroadcastChannel + Web Locks)
+  CROSS_TAB: {
+    CHANNEL_NAME: 'arcana-sync',
+    LEADER_LOCK: 'arcana-sync-leader', // held by the tab that runs background sync
   },
 
   // Cache Configuration
@@ -23,6 +51,13 @@ export const APP_CONSTANTS = {
     LRU_MAX_ITEMS: 100,
   },
 
+  // At-rest encryption of IndexedDB entries (AES-GCM, key wiped on logout)
+  ENCRYPTION: {
+    ENABLED: true,
+    // Matched against cache keys, and `${entity}:${entityId}` for queued operations
+    PREFIXES: ['user:', 'users:', 'project:', 'projects:', 'task:', 'tasks:', 'event:', 'events:', 'message:', 'messages:'],
+  },
+
   // Pagination
   PAGINATION: {
     DEFAULT_PAGE_SIZE: 10,
@@ -32,22 +67,20 @@ export const APP_CONSTANTS = {
   // Storage Keys
   STORAGE_KEYS: {
     AUTH_TOKEN: 'arcana_auth_token',
+    REFRESH_TOKEN: 'arcana_refresh_token',
     USER: 'arcana_current_user',
     LANGUAGE: 'arcana_language',
     THEME: 'arcana_theme',
     SIDEBAR_COLLAPSED: 'arcana_sidebar_collapsed',
     RIGHT_PANEL_OPEN: 'arcana_right_panel_open',
+    // ID of the cache encryption key; the key itself stays in IndexedDB
+    CACHE_KEY: 'arcana_cache_key',
   },
 
-  // IndexedDB Configuration
+  // IndexedDB Configuration (schema versions live in data/storage/migrations.ts)
   INDEXED_DB: {
     NAME: 'ArcanaDB',
-    VERSION: 1,
-    STORES: {
-      USERS: 'users',
-      PENDING_OPERATIONS: 'pendingOperations',
-      CACHE_ENTRIES: 'cacheEntries',
-    },
+    KEYS_NAME: 'ArcanaKeys',
   },
 
   // Validation
@@ -66,6 +99,11 @@ export const APP_CONSTANTS = {
     MAX_DELAY: 10000,
   },
 
+  // Offline Sync Configuration
+  SYNC: {
+    CONFLICT_STRATEGY: 'merge', // server-wins | client-wins | merge | ask-user
+  },
+
   // Animation Durations (ms)
   ANIMATION: {
     FAST: 150,
@@ -4,9 +4,19 @@
 
 import { describe, it, expect } from 'vitest'
 import { render, screen } from '@testing-library/react'
-import { DIProvider, useDIContainer, useService, useUserService } from './DIProvider'
+import {
+  DIProvider,
+  useDIContainer,
+  useService,
+  useUserService,
+  useSyncService,
+  useAuthService,
+} from './DIProvider'
 import { DIContainer, ServiceTokens } from './container'
 import type { UserService } from '@/app/domain/services/userService'
+import type { SyncService } from '@/app/domain/services/syncService'
+import type { AuthService } from '@/app/domain/services/authService'
+import { EMPTY } from 'rxjs'
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -25,12 +35,37 @@ function createMockUserService(): UserService {
     isOnline: () => true,
     syncPendingOperations: async () => {},
     clearCache: async () => {},
+    idMappings$: EMPTY,
+    updates$: EMPTY,
   } as unknown as UserService
 }
 
+function createMockSyncService(): SyncService {
+  return {
+    conflicts$: EMPTY,
+    resolveConflict: async () => ({ success: true }),
+    deadLetters$: EMPTY,
+    retryDeadLetter: async () => ({ success: true }),
+    discardDeadLetter: async () => ({ success: true }),
+  }
+}
+
+function createMockAuthService(): AuthService {
+  return {
+    session$: EMPTY,
+    currentSession: null,
+    login: async () => ({ success: false }),
+    logout: async () => ({ success: true }),
+    refresh: async () => ({ success: false }),
+    updateUser: () => {},
+  }
+}
+
 function makeContainer(service?: UserService): DIContainer {
   const c = new DIContainer()
   c.register(ServiceTokens.UserService, service ?? createMockUserService())
+  c.register(ServiceTokens.SyncService, createMockSyncService())
+  c.register(ServiceTokens.AuthService, createMockAuthService())
   return c
 }
 
@@ -53,6 +88,16 @@ function UserServiceConsumer() {
   return <div data-testid="user-service">{svc ? 'has-user-service' : 'none'}</div>
 }
 
+function SyncServiceConsumer() {
+  const svc = useSyncService()
+  return <div data-testid="sync-service">{svc ? 'has-sync-service' : 'none'}</div>
+}
+
+function AuthServiceConsumer() {
+  const svc = useAuthService()
+  return <div data-testid="auth-service">{svc ? 'has-auth-service' : 'none'}</div>
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -94,6 +139,24 @@ describe('DIProvider', () => {
     expect(screen.getByTestId('user-service')).toHaveTextContent('has-user-service')
   })
 
+  it('provides the SyncService via useSyncService convenience hook', () => {
+    render(
+      <DIProvider container={makeContainer()}>
+        <SyncServiceConsumer />
+      </DIProvider>
+    )
+    expect(screen.getByTestId('sync-service')).toHaveTextContent('has-sync-service')
+  })
+
+  it('provides the AuthService via useAuthService convenience hook', () => {
+    render(
+      <DIProvider container={makeContainer()}>
+        <AuthServiceConsumer />
+      </DIProvider>
+    )
+    expect(screen.getByTestId('auth-service')).toHaveTextContent('has-auth-service')
+  })
+
   it('memoizes the same container across renders', () => {
     const container = makeContainer()
     const { rerender } = render(
@@ -69,3 +69,45 @@ export function useService<K extends ServiceToken>(token: K): ServiceMap[K] {
 export function useUserService() {
   return useService(ServiceTokens.UserService)
 }
+
+/**
+ * Resolve the SyncService from the DI container
+ */
+export function useSyncService() {
+  return useService(ServiceTokens.SyncService)
+}
+
+/**
+ * Resolve the AuthService from the DI container
+ */
+export function useAuthService() {
+  return useService(ServiceTokens.AuthService)
+}
+
+/**
+ * Resolve the ProjectService from the DI container
+ */
+export function useProjectService() {
+  return useService(ServiceTokens.ProjectService)
+}
+
+/**
+ * Resolve the TaskService from the DI container
+ */
+export function useTaskService() {
+  return useService(ServiceTokens.TaskService)
+}
+
+/**
+ * Resolve the CalendarEventService from the DI container
+ */
+export function useCalendarEventService() {
+  return useService(ServiceTokens.CalendarEventService)
+}
+
+/**
+ * Resolve the MessageService from the DI container
+ */
+export function useMessageService() {
+  return useService(ServiceTokens.MessageService)
+}
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { DIContainer, ServiceTokens } from './container'
 import type { UserService } from '@/app/domain/services/userService'
+import { EMPTY } from 'rxjs'
 
 // Create a complete mock of UserService
 function createMockUserService(): UserService {
@@ -20,6 +21,8 @@ function createMockUserService(): UserService {
     isOnline: () => true,
     syncPendingOperations: async () => {},
     clearCache: async () => {},
+    idMappings$: EMPTY,
+    updates$: EMPTY,
   } as unknown as UserService
 }
 
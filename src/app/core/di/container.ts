@@ -6,6 +6,12 @@
 // =============================================================================
 
 import type { UserService } from '@/app/domain/services/userService'
+import type { SyncService } from '@/app/domain/services/syncService'
+import type { AuthService } from '@/app/domain/services/authService'
+import type { ProjectService } from '@/app/domain/services/projectService'
+import type { TaskService } from '@/app/domain/services/taskService'
+import type { CalendarEventService } from '@/app/domain/services/calendarEventService'
+import type { MessageService } from '@/app/domain/services/messageService'
 
 // =============================================================================
 // Service Types (Token Keys)
@@ -13,6 +19,12 @@ import type { UserService } from '@/app/domain/services/userService'
 
 export const ServiceTokens = {
   UserService: 'UserService',
+  SyncService: 'SyncService',
+  AuthService: 'AuthService',
+  ProjectService: 'ProjectService',
+  TaskService: 'TaskService',
+  CalendarEventService: 'CalendarEventService',
+  MessageService: 'MessageService',
 } as const
 
 export type ServiceToken = (typeof ServiceTokens)[keyof typeof ServiceTokens]
@@ -23,6 +35,12 @@ export type ServiceToken = (typeof ServiceTokens)[keyof typeof ServiceTokens]
 
 export interface ServiceMap {
   [ServiceTokens.UserService]: UserService
+  [ServiceTokens.SyncService]: SyncService
+  [ServiceTokens.AuthService]: AuthService
+  [ServiceTokens.ProjectService]: ProjectService
+  [ServiceTokens.TaskService]: TaskService
+  [ServiceTokens.CalendarEventService]: CalendarEventService
+  [ServiceTokens.MessageService]: MessageService
 }
 
 // =============================================================================
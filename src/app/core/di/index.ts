@@ -3,5 +3,16 @@
 // =============================================================================
 
 export { DIContainer, container, ServiceTokens, type ServiceMap, type ServiceToken } from './container'
-export { DIProvider, useDIContainer, useService, useUserService } from './DIProvider'
+export {
+  DIProvider,
+  useDIContainer,
+  useService,
+  useUserService,
+  useSyncService,
+  useAuthService,
+  useProjectService,
+  useTaskService,
+  useCalendarEventService,
+  useMessageService,
+} from './DIProvider'
 export { configureServices } from './serviceConfig'
@@ -6,6 +6,7 @@ import { describe, it, expect, vi } from 'vitest'
 import { DIContainer, ServiceTokens } from './container'
 import { configureServices, configureTestServices } from './serviceConfig'
 import type { UserService } from '@/app/domain/services/userService'
+import { EMPTY } from 'rxjs'
 
 // Mock the real userServiceImpl to avoid real HTTP calls in unit tests
 vi.mock('@/app/data/services/impl/userServiceImpl', () => ({
@@ -21,6 +22,60 @@ vi.mock('@/app/data/services/impl/userServiceImpl', () => ({
   },
 }))
 
+vi.mock('@/app/data/services/impl/syncServiceImpl', () => ({
+  syncService: {
+    conflicts$: { subscribe: vi.fn() },
+    resolveConflict: vi.fn(),
+    deadLetters$: { subscribe: vi.fn() },
+    retryDeadLetter: vi.fn(),
+    discardDeadLetter: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/data/services/impl/authServiceImpl', () => ({
+  authService: {
+    session$: { subscribe: vi.fn() },
+    currentSession: null,
+    login: vi.fn(),
+    logout: vi.fn(),
+    refresh: vi.fn(),
+    updateUser: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/data/services/impl/projectServiceImpl', () => ({
+  projectService: {
+    getById: vi.fn(),
+    getList: vi.fn(),
+    archive: vi.fn(),
+    restore: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/data/services/impl/taskServiceImpl', () => ({
+  taskService: {
+    getById: vi.fn(),
+    getList: vi.fn(),
+    transition: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/data/services/impl/calendarEventServiceImpl', () => ({
+  calendarEventService: {
+    getById: vi.fn(),
+    getList: vi.fn(),
+    reschedule: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/data/services/impl/messageServiceImpl', () => ({
+  messageService: {
+    getConversations: vi.fn(),
+    getThread: vi.fn(),
+    send: vi.fn(),
+  },
+}))
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -35,6 +90,8 @@ function makeMockUserService(overrides: Partial<UserService> = {}): UserService
     isOnline: vi.fn().mockReturnValue(true),
     syncPendingOperations: vi.fn(),
     clearCache: vi.fn(),
+    idMappings$: EMPTY,
+    updates$: EMPTY,
     ...overrides,
   } as unknown as UserService
 }
@@ -57,6 +114,48 @@ describe('configureServices', () => {
     const svc = container.resolve(ServiceTokens.UserService)
     expect(typeof svc.isOnline).toBe('function')
   })
+
+  it('registers SyncService in the container', () => {
+    const container = new DIContainer()
+    configureServices(container)
+    const svc = container.resolve(ServiceTokens.SyncService)
+    expect(typeof svc.resolveConflict).toBe('function')
+  })
+
+  it('registers AuthService in the container', () => {
+    const container = new DIContainer()
+    configureServices(container)
+    const svc = container.resolve(ServiceTokens.AuthService)
+    expect(typeof svc.login).toBe('function')
+  })
+
+  it('registers ProjectService in the container', () => {
+    const container = new DIContainer()
+    configureServices(container)
+    const svc = container.resolve(ServiceTokens.ProjectService)
+    expect(typeof svc.archive).toBe('function')
+  })
+
+  it('registers TaskService in the container', () => {
+    const container = new DIContainer()
+    configureServices(container)
+    const svc = container.resolve(ServiceTokens.TaskService)
+    expect(typeof svc.transition).toBe('function')
+  })
+
+  it('registers CalendarEventService in the container', () => {
+    const container = new DIContainer()
+    configureServices(container)
+    const svc = container.resolve(ServiceTokens.CalendarEventService)
+    expect(typeof svc.reschedule).toBe('function')
+  })
+
+  it('registers MessageService in the container', () => {
+    const container = new DIContainer()
+    configureServices(container)
+    const svc = container.resolve(ServiceTokens.MessageService)
+    expect(typeof svc.send).toBe('function')
+  })
 })
 
 describe('configureTestServices', () => {
@@ -7,6 +7,12 @@
 
 import { DIContainer, ServiceTokens } from './container'
 import { userService } from '@/app/data/services/impl/userServiceImpl'
+import { syncService } from '@/app/data/services/impl/syncServiceImpl'
+import { authService } from '@/app/data/services/impl/authServiceImpl'
+import { projectService } from '@/app/data/services/impl/projectServiceImpl'
+import { taskService } from '@/app/data/services/impl/taskServiceImpl'
+import { calendarEventService } from '@/app/data/services/impl/calendarEventServiceImpl'
+import { messageService } from '@/app/data/services/impl/messageServiceImpl'
 
 // =============================================================================
 // Service Registration
@@ -20,9 +26,23 @@ export function configureServices(container: DIContainer): void {
   // Register UserService implementation
   container.register(ServiceTokens.UserService, userService)
 
-  // Future services can be registered here:
-  // container.register(ServiceTokens.ProjectService, projectService)
-  // container.register(ServiceTokens.AuthService, authService)
+  // Register SyncService implementation
+  container.register(ServiceTokens.SyncService, syncService)
+
+  // Register AuthService implementation
+  container.register(ServiceTokens.AuthService, authService)
+
+  // Register ProjectService implementation
+  container.register(ServiceTokens.ProjectService, projectService)
+
+  // Register TaskService implementation
+  container.register(ServiceTokens.TaskService, taskService)
+
+  // Register CalendarEventService implementation
+  container.register(ServiceTokens.CalendarEventService, calendarEventService)
+
+  // Register MessageService implementation
+  container.register(ServiceTokens.MessageService, messageService)
 }
 
 /**
@@ -32,8 +52,20 @@ export function configureTestServices(
   container: DIContainer,
   mocks: Partial<{
     userService: typeof userService
+    syncService: typeof syncService
+    authService: typeof authService
+    projectService: typeof projectService
+    taskService: typeof taskService
+    calendarEventService: typeof calendarEventService
+    messageService: typeof messageService
   }> = {}
 ): void {
   // Use provided mocks or fall back to real implementations
   container.register(ServiceTokens.UserService, mocks.userService ?? userService)
+  container.register(ServiceTokens.SyncService, mocks.syncService ?? syncService)
+  container.register(ServiceTokens.AuthService, mocks.authService ?? authService)
+  container.register(ServiceTokens.ProjectService, mocks.projectService ?? projectService)
+  container.register(ServiceTokens.TaskService, mocks.taskService ?? taskService)
+  container.register(ServiceTokens.CalendarEventService, mocks.calendarEventService ?? calendarEventService)
+  container.register(ServiceTokens.MessageService, mocks.messageService ?? messageService)
 }
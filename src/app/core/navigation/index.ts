@@ -7,12 +7,14 @@ export {
   type RouteParams,
   type RouteDefinition,
   type NavItem,
+  type NavCounts,
   type RoutePath,
   type RouteComponentConfig,
 
   // Constants
   Routes,
   routeDefinitions,
+  RETURN_TO_PARAM,
 
   // Utilities
   buildPath,
@@ -22,6 +24,13 @@ export {
   hasChildren,
   getTopLevelNavItems,
   buildNavigation,
+  formatBadgeCount,
   isRouteActive,
   isChildRouteActive,
+  matchRoute,
+  requiresAuth,
+  buildReturnPath,
+  getReturnTo,
+  canAccessRoute,
+  isRouteAllowed,
 } from './navGraph'
@@ -9,8 +9,15 @@ import {
   hasChildren,
   getTopLevelNavItems,
   buildNavigation,
+  formatBadgeCount,
   isRouteActive,
   isChildRouteActive,
+  matchRoute,
+  requiresAuth,
+  buildReturnPath,
+  getReturnTo,
+  canAccessRoute,
+  isRouteAllowed,
 } from './navGraph'
 
 // =============================================================================
@@ -35,6 +42,13 @@ describe('Routes', () => {
     expect(Routes.PROFILE).toBe('/profile')
   })
 
+  it('should define auth routes', () => {
+    expect(Routes.LOGIN).toBe('/login')
+    expect(Routes.LOGOUT).toBe('/logout')
+    expect(Routes.SESSION_EXPIRED).toBe('/session-expired')
+    expect(Routes.FORBIDDEN).toBe('/forbidden')
+  })
+
   it('should define project sub-routes', () => {
     expect(Routes.PROJECT_NEW).toBe('/projects/new')
     expect(Routes.PROJECT_ARCHIVED).toBe('/projects/archived')
@@ -45,7 +59,9 @@ describe('Routes', () => {
   it('should define task sub-routes', () => {
     expect(Routes.TASKS_RECENT).toBe('/tasks/recent')
     expect(Routes.TASKS_IMPORTANT).toBe('/tasks/important')
+    expect(Routes.TASK_NEW).toBe('/tasks/new')
     expect(Routes.TASK_DETAIL).toBe('/tasks/:id')
+    expect(Routes.TASK_EDIT).toBe('/tasks/:id/edit')
   })
 
   it('should define analytics sub-routes', () => {
@@ -330,14 +346,19 @@ describe('buildNavigation', () => {
     expect(projects?.route).toBeUndefined()
   })
 
-  it('should include badges on applicable items', () => {
-    const nav = buildNavigation()
+  it('should derive the messages badge from the unread count', () => {
+    const nav = buildNavigation(undefined, { unreadMessages: 5 })
     const messages = nav.find((n) => n.id === 'messages')
     expect(messages).toBeDefined()
     expect(messages?.badge).toBe('5')
     expect(messages?.badgeClass).toBe('bg-danger')
   })
 
+  it('should leave the messages badge out without unread messages', () => {
+    const messages = buildNavigation().find((n) => n.id === 'messages')
+    expect(messages?.badge).toBeUndefined()
+  })
+
   it('should set icon on all nav items', () => {
     const nav = buildNavigation()
     for (const item of nav) {
@@ -363,6 +384,104 @@ describe('buildNavigation', () => {
       expect(children[i].order >= children[i - 1].order).toBe(true)
     }
   })
+
+  it('should show every item to Admin', () => {
+    expect(buildNavigation('Admin')).toEqual(buildNavigation())
+  })
+
+  it('should leave out items the role cannot open', () => {
+    const ids = buildNavigation('User').map((n) => n.id)
+    expect(ids).toContain('users')
+    expect(ids).toContain('sync')
+    expect(ids).not.toContain('settings')
+  })
+
+  it('should leave out groups without allowed children', () => {
+    const ids = buildNavigation('Guest').map((n) => n.id)
+    expect(ids).toContain('home')
+    expect(ids).toContain('users')
+    expect(ids).toContain('projects')
+    expect(ids).not.toContain('analytics')
+    expect(ids).not.toContain('sync')
+  })
+})
+
+// =============================================================================
+// Access Control
+// =============================================================================
+
+describe('canAccessRoute', () => {
+  it('should allow routes without restrictions', () => {
+    expect(canAccessRoute(getRouteById('home')!, 'Guest')).toBe(true)
+  })
+
+  it('should check the route permission', () => {
+    const userEdit = getRouteById('user-edit')!
+    expect(canAccessRoute(userEdit, 'User')).toBe(true)
+    expect(canAccessRoute(userEdit, 'Guest')).toBe(false)
+    expect(canAccessRoute(userEdit, null)).toBe(false)
+  })
+
+  it('should check the route roles', () => {
+    const route = { id: 'admin', path: '/admin', labelKey: 'admin', roles: ['Admin' as const] }
+    expect(canAccessRoute(route, 'Admin')).toBe(true)
+    expect(canAccessRoute(route, 'User')).toBe(false)
+    expect(canAccessRoute(route, undefined)).toBe(false)
+  })
+})
+
+describe('isRouteAllowed', () => {
+  it('should resolve the route from a concrete path', () => {
+    expect(isRouteAllowed('/users/42/edit', 'User')).toBe(true)
+    expect(isRouteAllowed('/users/42/edit', 'Guest')).toBe(false)
+    expect(isRouteAllowed('/settings', 'User')).toBe(false)
+  })
+
+  it('should prefer static project routes over the detail pattern', () => {
+    expect(isRouteAllowed('/projects/archived', 'Guest')).toBe(true)
+    expect(isRouteAllowed('/projects/new', 'Guest')).toBe(false)
+    expect(isRouteAllowed('/projects/7/edit', 'User')).toBe(true)
+  })
+
+  it('should let Guests read tasks but not create them', () => {
+    expect(isRouteAllowed('/tasks/important', 'Guest')).toBe(true)
+    expect(isRouteAllowed('/tasks/3', 'Guest')).toBe(true)
+    expect(isRouteAllowed('/tasks/new', 'Guest')).toBe(false)
+    expect(isRouteAllowed('/tasks/3/edit', 'User')).toBe(true)
+  })
+
+  it('should guard messages with message:read', () => {
+    expect(getRouteById('messages')?.permission).toBe('message:read')
+    expect(isRouteAllowed('/messages/1~2', 'Guest')).toBe(true)
+  })
+
+  it('should guard the calendar with event:read', () => {
+    expect(getRouteById('calendar')?.permission).toBe('event:read')
+    expect(isRouteAllowed('/calendar', 'Guest')).toBe(true)
+  })
+
+  it('should allow unknown paths', () => {
+    expect(isRouteAllowed('/unknown', 'Guest')).toBe(true)
+  })
+})
+
+// =============================================================================
+// formatBadgeCount
+// =============================================================================
+
+describe('formatBadgeCount', () => {
+  it('should show no badge for zero', () => {
+    expect(formatBadgeCount(0)).toBeUndefined()
+  })
+
+  it('should show counts up to 99 in full', () => {
+    expect(formatBadgeCount(7)).toBe('7')
+    expect(formatBadgeCount(99)).toBe('99')
+  })
+
+  it('should cap larger counts', () => {
+    expect(formatBadgeCount(100)).toBe('99+')
+  })
 })
 
 // =============================================================================
@@ -436,3 +555,81 @@ describe('isChildRouteActive', () => {
     expect(isChildRouteActive('/analytics/performance', 'analytics')).toBe(true)
   })
 })
+
+// =============================================================================
+// matchRoute
+// =============================================================================
+
+describe('matchRoute', () => {
+  it('should match static paths', () => {
+    expect(matchRoute('/home')?.id).toBe('home')
+    expect(matchRoute('/login')?.id).toBe('login')
+  })
+
+  it('should prefer static segments over params', () => {
+    expect(matchRoute('/users/new')?.id).toBe('user-new')
+  })
+
+  it('should match parameterized paths', () => {
+    expect(matchRoute('/users/42')?.id).toBe('user-detail')
+    expect(matchRoute('/users/42/edit')?.id).toBe('user-edit')
+  })
+
+  it('should fall back to the closest parent route', () => {
+    expect(matchRoute('/messages/5')?.id).toBe('messages')
+  })
+
+  it('should return undefined for unknown paths', () => {
+    expect(matchRoute('/unknown')).toBeUndefined()
+  })
+})
+
+// =============================================================================
+// requiresAuth
+// =============================================================================
+
+describe('requiresAuth', () => {
+  it('should require auth by default', () => {
+    expect(requiresAuth('/home')).toBe(true)
+    expect(requiresAuth('/users/42')).toBe(true)
+    expect(requiresAuth('/unknown')).toBe(true)
+  })
+
+  it('should not require auth for auth pages', () => {
+    expect(requiresAuth('/login')).toBe(false)
+    expect(requiresAuth('/logout')).toBe(false)
+    expect(requiresAuth('/session-expired')).toBe(false)
+  })
+})
+
+// =============================================================================
+// Return Path
+// =============================================================================
+
+describe('buildReturnPath', () => {
+  it('should encode the return path', () => {
+    expect(buildReturnPath(Routes.LOGIN, '/users/1?tab=2')).toBe('/login?returnTo=%2Fusers%2F1%3Ftab%3D2')
+  })
+})
+
+describe('getReturnTo', () => {
+  it('should read the return path', () => {
+    expect(getReturnTo('?returnTo=%2Fusers%2F1%3Ftab%3D2')).toBe('/users/1?tab=2')
+  })
+
+  it('should fall back without a return path', () => {
+    expect(getReturnTo('')).toBe('/home')
+    expect(getReturnTo('', '/users')).toBe('/users')
+  })
+
+  it('should reject other origins', () => {
+    expect(getReturnTo('?returnTo=https://evil.example')).toBe('/home')
+    expect(getReturnTo('?returnTo=//evil.example')).toBe('/home')
+    expect(getReturnTo('?returnTo=/%5Cevil.example')).toBe('/home')
+  })
+
+  it('should not return to auth pages', () => {
+    expect(getReturnTo('?returnTo=%2Flogout')).toBe('/home')
+    expect(getReturnTo('?returnTo=%2Flogin%3FreturnTo%3D%2Fhome')).toBe('/home')
+  })
+})
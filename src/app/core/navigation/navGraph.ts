@@ -6,6 +6,8 @@
 // =============================================================================
 
 import type { ComponentType, LazyExoticComponent } from 'react'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import { hasPermission, type Permission } from '@/app/domain/entities/permission.model'
 
 // =============================================================================
 // Route Types
@@ -15,6 +17,14 @@ export interface RouteParams {
   [key: string]: string
 }
 
+/**
+ * Live counts that route badges are derived from
+ */
+export interface NavCounts {
+  /** Messages to the signed-in user not read yet */
+  unreadMessages: number
+}
+
 export interface RouteDefinition {
   /** Unique route identifier */
   id: string
@@ -24,16 +34,18 @@ export interface RouteDefinition {
   labelKey: string
   /** Bootstrap icon class */
   icon?: string
-  /** Whether route requires authentication */
+  /** Whether route requires authentication (default: true) */
   requiresAuth?: boolean
-  /** Required roles for access */
-  roles?: string[]
+  /** Roles allowed to open the route (default: any) */
+  roles?: UserRole[]
+  /** Permission needed to open the route */
+  permission?: Permission
   /** Parent route ID for nested routes */
   parentId?: string
   /** Whether this is an index route */
   isIndex?: boolean
-  /** Badge text */
-  badge?: string
+  /** Badge text, or a function deriving it from live counts (no badge when undefined) */
+  badge?: string | ((counts: NavCounts) => string | undefined)
   /** Badge CSS class */
   badgeClass?: string
   /** Whether route should appear in navigation */
@@ -61,6 +73,12 @@ export const Routes = {
   // Root
   ROOT: '/',
 
+  // Auth
+  LOGIN: '/login',
+  LOGOUT: '/logout',
+  SESSION_EXPIRED: '/session-expired',
+  FORBIDDEN: '/forbidden',
+
   // Home
   HOME: '/home',
 
@@ -81,7 +99,9 @@ export const Routes = {
   TASKS: '/tasks',
   TASKS_RECENT: '/tasks/recent',
   TASKS_IMPORTANT: '/tasks/important',
+  TASK_NEW: '/tasks/new',
   TASK_DETAIL: '/tasks/:id',
+  TASK_EDIT: '/tasks/:id/edit',
 
   // Calendar
   CALENDAR: '/calendar',
@@ -102,6 +122,10 @@ export const Routes = {
   // Settings
   SETTINGS: '/settings',
 
+  // Sync
+  SYNC_CONFLICTS: '/sync/conflicts',
+  SYNC_FAILED: '/sync/failed',
+
   // Profile
   PROFILE: '/profile',
 } as const
@@ -129,6 +153,7 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.USERS,
     labelKey: 'nav.users',
     icon: 'bi bi-people',
+    permission: 'user:read',
     showInNav: true,
     order: 2,
   },
@@ -137,6 +162,7 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.USER_NEW,
     labelKey: 'user.form.create.title',
     parentId: 'users',
+    permission: 'user:create',
     showInNav: false,
   },
   {
@@ -144,6 +170,7 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.USER_DETAIL,
     labelKey: 'user.detail.title',
     parentId: 'users',
+    permission: 'user:read',
     showInNav: false,
   },
   {
@@ -151,6 +178,7 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.USER_EDIT,
     labelKey: 'user.form.edit.title',
     parentId: 'users',
+    permission: 'user:update',
     showInNav: false,
   },
 
@@ -160,6 +188,7 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.PROJECTS,
     labelKey: 'nav.projects',
     icon: 'bi bi-folder',
+    permission: 'project:read',
     showInNav: true,
     order: 3,
   },
@@ -169,6 +198,7 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.projects.all',
     icon: 'bi bi-folder2',
     parentId: 'projects',
+    permission: 'project:read',
     showInNav: true,
     order: 1,
   },
@@ -178,6 +208,7 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.projects.create',
     icon: 'bi bi-folder-plus',
     parentId: 'projects',
+    permission: 'project:create',
     showInNav: true,
     order: 2,
   },
@@ -187,9 +218,26 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.projects.archived',
     icon: 'bi bi-archive',
     parentId: 'projects',
+    permission: 'project:read',
     showInNav: true,
     order: 3,
   },
+  {
+    id: 'project-detail',
+    path: Routes.PROJECT_DETAIL,
+    labelKey: 'project.detail.title',
+    parentId: 'projects',
+    permission: 'project:read',
+    showInNav: false,
+  },
+  {
+    id: 'project-edit',
+    path: Routes.PROJECT_EDIT,
+    labelKey: 'project.form.edit.title',
+    parentId: 'projects',
+    permission: 'project:update',
+    showInNav: false,
+  },
 
   // Tasks (with children)
   {
@@ -197,6 +245,7 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.TASKS,
     labelKey: 'nav.tasks',
     icon: 'bi bi-list-check',
+    permission: 'task:read',
     showInNav: true,
     order: 4,
   },
@@ -206,6 +255,7 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.tasks.my',
     icon: 'bi bi-person-check',
     parentId: 'tasks',
+    permission: 'task:read',
     showInNav: true,
     order: 1,
   },
@@ -215,6 +265,7 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.tasks.recent',
     icon: 'bi bi-clock-history',
     parentId: 'tasks',
+    permission: 'task:read',
     showInNav: true,
     order: 2,
   },
@@ -224,9 +275,34 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.tasks.important',
     icon: 'bi bi-star',
     parentId: 'tasks',
+    permission: 'task:read',
     showInNav: true,
     order: 3,
   },
+  {
+    id: 'task-new',
+    path: Routes.TASK_NEW,
+    labelKey: 'task.form.create.title',
+    parentId: 'tasks',
+    permission: 'task:create',
+    showInNav: false,
+  },
+  {
+    id: 'task-detail',
+    path: Routes.TASK_DETAIL,
+    labelKey: 'task.detail.title',
+    parentId: 'tasks',
+    permission: 'task:read',
+    showInNav: false,
+  },
+  {
+    id: 'task-edit',
+    path: Routes.TASK_EDIT,
+    labelKey: 'task.form.edit.title',
+    parentId: 'tasks',
+    permission: 'task:update',
+    showInNav: false,
+  },
 
   // Calendar
   {
@@ -234,6 +310,7 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.CALENDAR,
     labelKey: 'nav.calendar',
     icon: 'bi bi-calendar',
+    permission: 'event:read',
     showInNav: true,
     order: 5,
   },
@@ -244,7 +321,8 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.MESSAGES,
     labelKey: 'nav.messages',
     icon: 'bi bi-chat-dots',
-    badge: '5',
+    permission: 'message:read',
+    badge: ({ unreadMessages }) => formatBadgeCount(unreadMessages),
     badgeClass: 'bg-danger',
     showInNav: true,
     order: 6,
@@ -266,6 +344,7 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.ANALYTICS,
     labelKey: 'nav.analytics',
     icon: 'bi bi-bar-chart',
+    permission: 'analytics:read',
     showInNav: true,
     order: 8,
   },
@@ -275,6 +354,7 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.analytics.overview',
     icon: 'bi bi-graph-up',
     parentId: 'analytics',
+    permission: 'analytics:read',
     showInNav: true,
     order: 1,
   },
@@ -284,6 +364,7 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.analytics.reports',
     icon: 'bi bi-file-bar-graph',
     parentId: 'analytics',
+    permission: 'analytics:read',
     showInNav: true,
     order: 2,
   },
@@ -293,6 +374,7 @@ export const routeDefinitions: RouteDefinition[] = [
     labelKey: 'nav.analytics.performance',
     icon: 'bi bi-speedometer2',
     parentId: 'analytics',
+    permission: 'analytics:read',
     showInNav: true,
     order: 3,
   },
@@ -303,10 +385,42 @@ export const routeDefinitions: RouteDefinition[] = [
     path: Routes.SETTINGS,
     labelKey: 'nav.settings',
     icon: 'bi bi-gear',
+    permission: 'settings:manage',
     showInNav: true,
     order: 9,
   },
 
+  // Sync (with children)
+  {
+    id: 'sync',
+    path: Routes.SYNC_CONFLICTS,
+    labelKey: 'nav.sync',
+    icon: 'bi bi-arrow-repeat',
+    permission: 'sync:manage',
+    showInNav: true,
+    order: 10,
+  },
+  {
+    id: 'sync-conflicts',
+    path: Routes.SYNC_CONFLICTS,
+    labelKey: 'nav.sync.conflicts',
+    icon: 'bi bi-arrow-left-right',
+    parentId: 'sync',
+    permission: 'sync:manage',
+    showInNav: true,
+    order: 1,
+  },
+  {
+    id: 'sync-failed',
+    path: Routes.SYNC_FAILED,
+    labelKey: 'nav.sync.failed',
+    icon: 'bi bi-exclamation-octagon',
+    parentId: 'sync',
+    permission: 'sync:manage',
+    showInNav: true,
+    order: 2,
+  },
+
   // Profile (not in main nav)
   {
     id: 'profile',
@@ -315,8 +429,44 @@ export const routeDefinitions: RouteDefinition[] = [
     icon: 'bi bi-person',
     showInNav: false,
   },
+
+  // Forbidden (403)
+  {
+    id: 'forbidden',
+    path: Routes.FORBIDDEN,
+    labelKey: 'auth.forbidden.title',
+    showInNav: false,
+  },
+
+  // Auth (public)
+  {
+    id: 'login',
+    path: Routes.LOGIN,
+    labelKey: 'auth.login.title',
+    requiresAuth: false,
+    showInNav: false,
+  },
+  {
+    id: 'logout',
+    path: Routes.LOGOUT,
+    labelKey: 'nav.logout',
+    requiresAuth: false,
+    showInNav: false,
+  },
+  {
+    id: 'session-expired',
+    path: Routes.SESSION_EXPIRED,
+    labelKey: 'auth.session.expired.title',
+    requiresAuth: false,
+    showInNav: false,
+  },
 ]
 
+/**
+ * Query parameter carrying the page to return to after login
+ */
+export const RETURN_TO_PARAM = 'returnTo'
+
 // =============================================================================
 // Route Utilities
 // =============================================================================
@@ -374,14 +524,53 @@ export function getTopLevelNavItems(): RouteDefinition[] {
     .sort((a, b) => (a.order || 0) - (b.order || 0))
 }
 
+/**
+ * Check if a role may open a route
+ */
+export function canAccessRoute(route: RouteDefinition, role: UserRole | null | undefined): boolean {
+  if (route.roles && !(role && route.roles.includes(role))) return false
+  if (route.permission && !hasPermission(role, route.permission)) return false
+  return true
+}
+
+/**
+ * Check if a role may open a concrete path (unknown paths are allowed)
+ */
+export function isRouteAllowed(pathname: string, role: UserRole | null | undefined): boolean {
+  const route = matchRoute(pathname)
+  return !route || canAccessRoute(route, role)
+}
+
+/** Largest count a badge shows in full */
+const MAX_BADGE_COUNT = 99
+
+/**
+ * Badge text of a count: nothing for zero, `99+` past the maximum
+ */
+export function formatBadgeCount(count: number): string | undefined {
+  if (count <= 0) return undefined
+  return count > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : String(count)
+}
+
+const NO_COUNTS: NavCounts = { unreadMessages: 0 }
+
+function resolveBadge(route: RouteDefinition, counts: NavCounts): string | undefined {
+  return typeof route.badge === 'function' ? route.badge(counts) : route.badge
+}
+
 /**
  * Build navigation structure from route definitions
+ * When a role is given, routes it cannot open are left out, as are groups
+ * with no remaining children. Badges are derived from `counts`.
  */
-export function buildNavigation(): NavItem[] {
-  const topLevel = getTopLevelNavItems()
+export function buildNavigation(role?: UserRole, counts: NavCounts = NO_COUNTS): NavItem[] {
+  const allowed = (route: RouteDefinition) => role === undefined || canAccessRoute(route, role)
+  const topLevel = getTopLevelNavItems().filter(allowed)
 
-  return topLevel.map((route) => {
-    const children = getChildRoutes(route.id)
+  return topLevel.flatMap((route) => {
+    const allChildren = getChildRoutes(route.id)
+    const children = allChildren.filter(allowed)
+    if (allChildren.length > 0 && children.length === 0) return []
 
     const navItem: NavItem = {
       id: route.id,
@@ -396,17 +585,17 @@ export function buildNavigation(): NavItem[] {
         labelKey: child.labelKey,
         icon: child.icon || 'bi bi-circle',
         route: child.path,
-        badge: child.badge,
+        badge: resolveBadge(child, counts),
         badgeClass: child.badgeClass,
         order: child.order || 0,
       }))
     } else {
       navItem.route = route.path
-      navItem.badge = route.badge
+      navItem.badge = resolveBadge(route, counts)
       navItem.badgeClass = route.badgeClass
     }
 
-    return navItem
+    return [navItem]
   })
 }
 
@@ -427,6 +616,54 @@ export function isRouteActive(currentPath: string, routePath: string): boolean {
   return false
 }
 
+/**
+ * Find the route definition for a concrete path
+ * Static patterns win over parameterized ones; unmatched paths fall back to
+ * the closest parent route (e.g. '/messages/5' -> '/messages')
+ */
+export function matchRoute(pathname: string): RouteDefinition | undefined {
+  const paramCount = (path: string) => (path.match(/:\w+/g) ?? []).length
+
+  const exact = routeDefinitions
+    .filter((route) => new RegExp(`^${route.path.replace(/:\w+/g, '[^/]+')}/?$`).test(pathname))
+    .sort((a, b) => paramCount(a.path) - paramCount(b.path))
+  if (exact.length > 0) return exact[0]
+
+  return routeDefinitions
+    .filter((route) => !route.path.includes(':') && route.path !== Routes.ROOT && isRouteActive(pathname, route.path))
+    .sort((a, b) => b.path.length - a.path.length)[0]
+}
+
+/**
+ * Whether a path needs a signed-in user (unknown paths do)
+ */
+export function requiresAuth(pathname: string): boolean {
+  return matchRoute(pathname)?.requiresAuth ?? true
+}
+
+/**
+ * Build a link to an auth page that returns to `returnTo` afterwards
+ * @example buildReturnPath(Routes.LOGIN, '/users/1') => '/login?returnTo=%2Fusers%2F1'
+ */
+export function buildReturnPath(path: string, returnTo: string): string {
+  return `${path}?${new URLSearchParams({ [RETURN_TO_PARAM]: returnTo })}`
+}
+
+/**
+ * Read the return path from a query string
+ * Only same-origin paths that need auth are accepted, so the param cannot be
+ * used as an open redirect or to bounce back to an auth page
+ */
+export function getReturnTo(search: string, fallback: string = Routes.HOME): string {
+  const returnTo = new URLSearchParams(search).get(RETURN_TO_PARAM)
+
+  if (!returnTo?.startsWith('/') || returnTo.startsWith('//') || returnTo.startsWith('/\\')) {
+    return fallback
+  }
+
+  return requiresAuth(returnTo.split(/[?#]/)[0]) ? returnTo : fallback
+}
+
 /**
  * Check if any child route is active
  */
@@ -2,118 +2,118 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor, act } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { AuthProvider, useAuth } from './AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createMockAuthService, createTestContainer } from '@/test/mocks/authService'
 
 // Test component that uses the auth context
-function TestComponent() {
-  const { currentUser, isAuthenticated, login, logout, updateUser } = useAuth()
+function TestComponent({ onLoginError }: Readonly<{ onLoginError?: (error: Error) => void }>) {
+  const { currentUser, isAuthenticated, token, login, logout, updateUser } = useAuth()
 
   return (
     <div>
       <div data-testid="authenticated">{isAuthenticated ? 'yes' : 'no'}</div>
       <div data-testid="user-email">{currentUser?.email || 'none'}</div>
       <div data-testid="user-name">{currentUser ? `${currentUser.firstName} ${currentUser.lastName}` : 'none'}</div>
-      <button onClick={() => login('test@example.com', 'password')}>Login</button>
+      <div data-testid="token">{token || 'none'}</div>
+      <button onClick={() => login('test@example.com', 'password').catch(onLoginError)}>Login</button>
       <button onClick={logout}>Logout</button>
       <button onClick={() => updateUser({ firstName: 'Updated' })}>Update</button>
     </div>
   )
 }
 
+function renderWithAuth(mock = createMockAuthService(), ui = <TestComponent />) {
+  render(
+    <DIProvider container={createTestContainer(mock.service)}>
+      <AuthProvider>{ui}</AuthProvider>
+    </DIProvider>
+  )
+  return mock
+}
+
 describe('AuthProvider', () => {
   beforeEach(() => {
     vi.clearAllMocks()
-    localStorage.getItem = vi.fn().mockReturnValue(null)
-    localStorage.setItem = vi.fn()
-    localStorage.removeItem = vi.fn()
   })
 
-  it('should provide default authenticated user (demo mode)', () => {
-    render(
-      <AuthProvider>
-        <TestComponent />
-      </AuthProvider>
-    )
+  it('should provide the current session from AuthService', () => {
+    renderWithAuth()
 
-    // Default demo user should be logged in
     expect(screen.getByTestId('authenticated')).toHaveTextContent('yes')
     expect(screen.getByTestId('user-email')).toHaveTextContent('admin@arcana.io')
+    expect(screen.getByTestId('token')).toHaveTextContent('test-access-token')
   })
 
-  it('should provide login function', async () => {
-    const user = userEvent.setup()
+  it('should start signed out without a session', () => {
+    renderWithAuth(createMockAuthService(null))
 
-    render(
-      <AuthProvider>
-        <TestComponent />
-      </AuthProvider>
-    )
+    expect(screen.getByTestId('authenticated')).toHaveTextContent('no')
+    expect(screen.getByTestId('user-email')).toHaveTextContent('none')
+  })
+
+  it('should log in through AuthService', async () => {
+    const user = userEvent.setup()
+    const { service } = renderWithAuth(createMockAuthService(null))
 
     await act(async () => {
       await user.click(screen.getByText('Login'))
     })
 
+    expect(service.login).toHaveBeenCalledWith({ email: 'test@example.com', password: 'password' })
     await waitFor(() => {
       expect(screen.getByTestId('authenticated')).toHaveTextContent('yes')
     })
   })
 
-  it('should provide logout function', async () => {
+  it('should reject login with the service error', async () => {
     const user = userEvent.setup()
+    const onLoginError = vi.fn()
+    const mock = createMockAuthService(null)
+    mock.service.login.mockResolvedValueOnce({ success: false, error: 'Invalid credentials' } as never)
+
+    renderWithAuth(mock, <TestComponent onLoginError={onLoginError} />)
+
+    await act(async () => {
+      await user.click(screen.getByText('Login'))
+    })
 
-    render(
-      <AuthProvider>
-        <TestComponent />
-      </AuthProvider>
-    )
+    expect(onLoginError).toHaveBeenCalledWith(new Error('Invalid credentials'))
+    expect(screen.getByTestId('authenticated')).toHaveTextContent('no')
+  })
+
+  it('should log out through AuthService', async () => {
+    const user = userEvent.setup()
+    const { service } = renderWithAuth()
 
     await act(async () => {
       await user.click(screen.getByText('Logout'))
     })
 
+    expect(service.logout).toHaveBeenCalled()
     expect(screen.getByTestId('authenticated')).toHaveTextContent('no')
     expect(screen.getByTestId('user-email')).toHaveTextContent('none')
-    expect(localStorage.removeItem).toHaveBeenCalled()
   })
 
   it('should provide updateUser function', async () => {
     const user = userEvent.setup()
-
-    render(
-      <AuthProvider>
-        <TestComponent />
-      </AuthProvider>
-    )
+    const { service } = renderWithAuth()
 
     await act(async () => {
       await user.click(screen.getByText('Update'))
     })
 
+    expect(service.updateUser).toHaveBeenCalledWith({ firstName: 'Updated' })
     expect(screen.getByTestId('user-name')).toHaveTextContent('Updated')
   })
 
-  it('should load stored auth from localStorage', () => {
-    const storedUser = {
-      id: '2',
-      email: 'stored@example.com',
-      firstName: 'Stored',
-      lastName: 'User',
-      role: 'User',
-      status: 'online',
-    }
-
-    localStorage.getItem = vi.fn((key) => {
-      if (key === 'arcana_auth_token') return 'stored-token'
-      if (key === 'arcana_current_user') return JSON.stringify(storedUser)
-      return null
-    })
+  it('should sign out when the session ends elsewhere', () => {
+    const { session } = renderWithAuth()
 
-    render(
-      <AuthProvider>
-        <TestComponent />
-      </AuthProvider>
-    )
+    act(() => {
+      session.next(null)
+    })
 
-    expect(screen.getByTestId('user-email')).toHaveTextContent('stored@example.com')
+    expect(screen.getByTestId('authenticated')).toHaveTextContent('no')
   })
 
   it('should throw error when useAuth is used outside provider', () => {
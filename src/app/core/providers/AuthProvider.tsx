@@ -1,73 +1,29 @@
 import { createContext, useContext, useState, useCallback, useEffect, useMemo, type ReactNode } from 'react'
-import { APP_CONSTANTS } from '@core/constants/app.constants'
+import { useAuthService } from '@core/di/DIProvider'
+import type { AuthSession, AuthUser } from '@/app/domain/entities/auth.model'
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export interface CurrentUser {
-  id: string
-  email: string
-  firstName: string
-  lastName: string
-  avatar?: string
-  role: 'Admin' | 'User' | 'Guest'
-  status: 'online' | 'away' | 'busy' | 'offline'
-}
+export type CurrentUser = AuthUser
 
 interface AuthContextType {
   currentUser: CurrentUser | null
   isAuthenticated: boolean
   token: string | null
+  /** Rejects with the service error when the credentials are refused */
   login: (email: string, password: string) => Promise<void>
   logout: () => void
   updateUser: (user: Partial<CurrentUser>) => void
 }
 
-// =============================================================================
-// Mock User Data
-// =============================================================================
-
-const MOCK_USER: CurrentUser = {
-  id: '1',
-  email: 'admin@arcana.io',
-  firstName: 'John',
-  lastName: 'Doe',
-  avatar: 'https://i.pravatar.cc/150?img=8',
-  role: 'Admin',
-  status: 'online',
-}
-
-const MOCK_TOKEN = 'mock-jwt-token-12345'
-
 // =============================================================================
 // Context
 // =============================================================================
 
 const AuthContext = createContext<AuthContextType | null>(null)
 
-// =============================================================================
-// Helper Functions
-// =============================================================================
-
-function loadStoredAuth(): { user: CurrentUser | null; token: string | null } {
-  try {
-    const storedToken = localStorage.getItem(APP_CONSTANTS.STORAGE_KEYS.AUTH_TOKEN)
-    const storedUser = localStorage.getItem(APP_CONSTANTS.STORAGE_KEYS.USER)
-
-    if (storedToken && storedUser) {
-      return {
-        token: storedToken,
-        user: JSON.parse(storedUser),
-      }
-    }
-  } catch (error) {
-    console.error('Failed to load stored auth:', error)
-  }
-
-  return { user: null, token: null }
-}
-
 // =============================================================================
 // Provider Component
 // =============================================================================
@@ -77,46 +33,33 @@ interface AuthProviderProps {
 }
 
 export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
-  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(() => {
-    const { user } = loadStoredAuth()
-    return user || MOCK_USER // Auto-login for demo
-  })
+  const authService = useAuthService()
+  const [session, setSession] = useState<AuthSession | null>(() => authService.currentSession)
 
-  const [token, setToken] = useState<string | null>(() => {
-    const { token } = loadStoredAuth()
-    return token || MOCK_TOKEN // Auto-login for demo
-  })
+  // Follow login, logout, refresh and session expiry
+  useEffect(() => {
+    const subscription = authService.session$.subscribe(setSession)
+    return () => subscription.unsubscribe()
+  }, [authService])
 
+  const currentUser = session?.user ?? null
+  const token = session?.tokens.accessToken ?? null
   const isAuthenticated = !!currentUser && !!token
 
-  // Persist auth state
-  useEffect(() => {
-    if (currentUser && token) {
-      localStorage.setItem(APP_CONSTANTS.STORAGE_KEYS.AUTH_TOKEN, token)
-      localStorage.setItem(APP_CONSTANTS.STORAGE_KEYS.USER, JSON.stringify(currentUser))
-    } else {
-      localStorage.removeItem(APP_CONSTANTS.STORAGE_KEYS.AUTH_TOKEN)
-      localStorage.removeItem(APP_CONSTANTS.STORAGE_KEYS.USER)
+  const login = useCallback(async (email: string, password: string): Promise<void> => {
+    const result = await authService.login({ email, password })
+    if (!result.success) {
+      throw new Error(result.error ?? 'Login failed')
     }
-  }, [currentUser, token])
-
-  const login = useCallback(async (/* email, password */): Promise<void> => {
-    // Mock login - in production, this would call an auth API
-    await new Promise(resolve => setTimeout(resolve, 500))
-    setCurrentUser(MOCK_USER)
-    setToken(MOCK_TOKEN)
-  }, [])
+  }, [authService])
 
   const logout = useCallback(() => {
-    setCurrentUser(null)
-    setToken(null)
-    localStorage.removeItem(APP_CONSTANTS.STORAGE_KEYS.AUTH_TOKEN)
-    localStorage.removeItem(APP_CONSTANTS.STORAGE_KEYS.USER)
-  }, [])
+    void authService.logout()
+  }, [authService])
 
   const updateUser = useCallback((updates: Partial<CurrentUser>) => {
-    setCurrentUser(prev => prev ? { ...prev, ...updates } : null)
-  }, [])
+    authService.updateUser(updates)
+  }, [authService])
 
   const value: AuthContextType = useMemo(() => ({
     currentUser,
@@ -154,6 +154,202 @@ translations.set('en', {
   'user.delete.message': 'Are you sure you want to delete {{name}}?',
   'user.delete.description': 'This action cannot be undone.',
 
+  // Projects
+  'project.list.title': 'All Projects',
+  'project.list.subtitle': 'Track and manage your projects',
+  'project.list.create': 'Create Project',
+  'project.list.search.placeholder': 'Search by name or description...',
+  'project.list.showing': 'Showing {{start}} to {{end}} of {{total}} projects',
+  'project.list.members': '{{count}} members',
+  'project.list.no.results': 'No projects found',
+  'project.list.empty.message': 'Get started by creating your first project',
+  'project.list.empty.search': 'No projects match your search criteria',
+  'project.archived.title': 'Archived Projects',
+  'project.archived.subtitle': 'Projects moved out of the active list',
+  'project.archived.empty.message': 'Archived projects will appear here',
+  'project.archived.badge': 'Archived',
+  'project.status.planning': 'Planning',
+  'project.status.active': 'Active',
+  'project.status.on-hold': 'On Hold',
+  'project.status.completed': 'Completed',
+  'project.action.archive': 'Archive',
+  'project.action.restore': 'Restore',
+  'project.archive.message': 'Archive {{name}}? It will move to the archived projects.',
+  'project.delete.message': 'Are you sure you want to delete {{name}}?',
+
+  // Project Detail
+  'project.detail.title': 'Project Details',
+  'project.detail.subtitle': 'View project information',
+  'project.detail.loading': 'Loading project details...',
+  'project.detail.project.id': 'Project ID',
+  'project.detail.owner': 'Owner',
+  'project.detail.members': 'Members',
+  'project.detail.no.members': 'No other members',
+  'project.detail.no.description': 'No description',
+  'project.detail.created.at': 'Created At',
+  'project.detail.updated.at': 'Updated At',
+  'project.detail.back.to.list': 'Back to List',
+  'project.detail.edit.project': 'Edit Project',
+  'project.detail.deleting': 'Deleting...',
+  'project.detail.information': 'Project Information',
+  'project.detail.information.description': 'Archiving a project hides it from the main list without deleting it. Archived projects can be restored at any time.',
+
+  // Project Form
+  'project.form.create.title': 'Create Project',
+  'project.form.edit.title': 'Edit Project',
+  'project.form.create.subtitle': 'Fill in the form to create a new project',
+  'project.form.edit.subtitle': 'Update project information',
+  'project.form.loading': 'Loading project data...',
+  'project.form.field.name': 'Name',
+  'project.form.field.description': 'Description',
+  'project.form.field.owner': 'Owner',
+  'project.form.field.status': 'Status',
+  'project.form.field.members': 'Members',
+  'project.form.placeholder.name': 'Enter project name',
+  'project.form.placeholder.description': 'What is this project about?',
+  'project.form.placeholder.owner': 'Select an owner',
+  'project.form.optional': 'Optional',
+  'project.form.no.users': 'No users available',
+  'project.form.button.saving': 'Saving...',
+  'project.form.button.create': 'Create Project',
+  'project.form.button.update': 'Update Project',
+  'project.form.help.title': 'Field Requirements',
+  'project.form.help.name.length': 'Project names must be 3 to 80 characters',
+  'project.form.help.owner.required': 'Every project needs an owner',
+  'project.form.help.members': 'Members are optional and can be changed later',
+
+  // Tasks
+  'task.list.my.title': 'My Tasks',
+  'task.list.my.subtitle': 'Tasks assigned to you',
+  'task.list.my.empty': 'Nothing is assigned to you right now',
+  'task.list.recent.title': 'Recent Tasks',
+  'task.list.recent.subtitle': 'Tasks changed most recently',
+  'task.list.recent.empty': 'Get started by creating your first task',
+  'task.list.important.title': 'Important Tasks',
+  'task.list.important.subtitle': 'High priority tasks across all projects',
+  'task.list.important.empty': 'No high priority tasks',
+  'task.list.create': 'Create Task',
+  'task.list.search.placeholder': 'Search by title or description...',
+  'task.list.showing': 'Showing {{start}} to {{end}} of {{total}} tasks',
+  'task.list.no.results': 'No tasks found',
+  'task.list.empty.search': 'No tasks match your search criteria',
+  'task.list.no.due.date': 'No due date',
+  'task.status.todo': 'To Do',
+  'task.status.in-progress': 'In Progress',
+  'task.status.review': 'In Review',
+  'task.status.done': 'Done',
+  'task.priority.low': 'Low',
+  'task.priority.normal': 'Normal',
+  'task.priority.high': 'High',
+  'task.move.todo': 'Back to To Do',
+  'task.move.in-progress': 'Start Work',
+  'task.move.review': 'Send to Review',
+  'task.move.done': 'Mark Done',
+  'task.overdue': 'Overdue',
+  'task.delete.message': 'Are you sure you want to delete {{title}}?',
+
+  // Task Detail
+  'task.detail.title': 'Task Details',
+  'task.detail.subtitle': 'View task information',
+  'task.detail.loading': 'Loading task details...',
+  'task.detail.task.id': 'Task ID',
+  'task.detail.assignee': 'Assignee',
+  'task.detail.unassigned': 'Unassigned',
+  'task.detail.project': 'Project',
+  'task.detail.no.project': 'No project',
+  'task.detail.due.date': 'Due Date',
+  'task.detail.no.due.date': 'No due date',
+  'task.detail.no.description': 'No description',
+  'task.detail.created.at': 'Created At',
+  'task.detail.updated.at': 'Updated At',
+  'task.detail.back.to.list': 'Back to List',
+  'task.detail.edit.task': 'Edit Task',
+  'task.detail.deleting': 'Deleting...',
+  'task.detail.information': 'Task Workflow',
+  'task.detail.information.description': 'Tasks move from To Do to In Progress, then to Review and Done. A task in review can go back for more work, and a finished task can be reopened for review.',
+
+  // Task Form
+  'task.form.create.title': 'Create Task',
+  'task.form.edit.title': 'Edit Task',
+  'task.form.create.subtitle': 'Fill in the form to create a new task',
+  'task.form.edit.subtitle': 'Update task information',
+  'task.form.loading': 'Loading task data...',
+  'task.form.field.title': 'Title',
+  'task.form.field.description': 'Description',
+  'task.form.field.status': 'Status',
+  'task.form.field.priority': 'Priority',
+  'task.form.field.due.date': 'Due Date',
+  'task.form.field.assignee': 'Assignee',
+  'task.form.field.project': 'Project',
+  'task.form.placeholder.title': 'Enter task title',
+  'task.form.placeholder.description': 'What needs to be done?',
+  'task.form.placeholder.assignee': 'Unassigned',
+  'task.form.placeholder.project': 'No project',
+  'task.form.optional': 'Optional',
+  'task.form.button.saving': 'Saving...',
+  'task.form.button.create': 'Create Task',
+  'task.form.button.update': 'Update Task',
+  'task.form.help.title': 'Field Requirements',
+  'task.form.help.title.length': 'Task titles must be 3 to 120 characters',
+  'task.form.help.workflow': 'An existing task moves one workflow step at a time',
+  'task.form.help.links': 'Assignee, project and due date are optional',
+
+  // Calendar
+  'calendar.title': 'Calendar',
+  'calendar.subtitle': 'Events and task due dates',
+  'calendar.today': 'Today',
+  'calendar.previous': 'Previous',
+  'calendar.next': 'Next',
+  'calendar.view.month': 'Month',
+  'calendar.view.week': 'Week',
+  'calendar.view.day': 'Day',
+  'calendar.new.event': 'New Event',
+  'calendar.import': 'Import .ics',
+  'calendar.importing': 'Importing...',
+  'calendar.export': 'Export .ics',
+  'calendar.all.day': 'All day',
+  'calendar.task.due': 'Task due',
+  'calendar.drag.hint': 'Drag an event or task to another day to reschedule it',
+  'calendar.delete.message': 'Are you sure you want to delete {{title}}?',
+  'calendar.editor.create.title': 'New Event',
+  'calendar.editor.edit.title': 'Edit Event',
+  'calendar.editor.field.title': 'Title',
+  'calendar.editor.field.description': 'Description',
+  'calendar.editor.field.location': 'Location',
+  'calendar.editor.field.start': 'Start',
+  'calendar.editor.field.end': 'End',
+  'calendar.editor.field.all.day': 'All-day event',
+  'calendar.editor.placeholder.title': 'Enter event title',
+  'calendar.editor.button.saving': 'Saving...',
+
+  // Messages
+  'message.list.title': 'Messages',
+  'message.list.subtitle': 'Conversations with your team',
+  'message.list.search.placeholder': 'Search conversations...',
+  'message.list.no.results': 'No conversations found',
+  'message.list.empty.message': 'Start a conversation with someone on your team',
+  'message.list.empty.search': 'No conversations match your search criteria',
+  'message.list.unread': '{{count}} unread',
+  'message.list.you': 'You',
+  'message.new.title': 'New Conversation',
+  'message.new.placeholder': 'Choose a recipient',
+  'message.new.start': 'Start',
+  'message.outbox.title': 'Outbox',
+  'message.outbox.subtitle': 'Messages waiting to be delivered; retry any that could not be sent',
+  'message.outbox.to': 'To {{name}}',
+  'message.outbox.retry': 'Retry',
+  'message.status.sending': 'Sending',
+  'message.status.failed': 'Not sent',
+  'message.status.sent': 'Sent',
+  'message.status.read': 'Read',
+  'message.offline': 'You are offline. Messages you send now are delivered when the connection returns.',
+  'message.thread.back': 'Back to Messages',
+  'message.thread.loading': 'Loading conversation...',
+  'message.thread.empty': 'No messages yet. Say hello!',
+  'message.thread.placeholder': 'Write a message...',
+  'message.thread.send': 'Send',
+  'message.thread.sending': 'Sending...',
+
   // Error Messages
   'error.network': 'Unable to connect to the server. Please check your internet connection.',
   'error.validation': 'Please check your input and try again.',
@@ -164,6 +360,46 @@ translations.set('en', {
   'error.server': 'Server error occurred. Please try again later.',
   'error.unknown': 'An unexpected error occurred. Please try again.',
 
+  // Sync Conflicts
+  'sync.conflicts.title': 'Sync Conflicts',
+  'sync.conflicts.subtitle': 'Offline changes that clash with newer data on the server',
+  'sync.conflicts.empty': 'No conflicts - all offline changes are in sync',
+  'sync.conflicts.detected': 'Detected {{date}}',
+  'sync.conflicts.field': 'Field',
+  'sync.conflicts.local': 'Your change',
+  'sync.conflicts.server': 'Server',
+  'sync.conflicts.keep.server': 'Keep server version',
+  'sync.conflicts.keep.local': 'Keep my changes',
+  'sync.conflicts.apply': 'Apply selection',
+
+  // Failed Sync Operations (dead letters)
+  'sync.failed.title': 'Failed Sync Operations',
+  'sync.failed.subtitle': 'Offline changes the server rejected or that ran out of retries',
+  'sync.failed.empty': 'No failed operations',
+  'sync.failed.queued': 'Queued {{date}}',
+  'sync.failed.attempts': '{{count}} attempts',
+  'sync.failed.payload': 'Payload (JSON)',
+  'sync.failed.retry': 'Retry',
+  'sync.failed.discard': 'Discard',
+  'sync.failed.discard.confirm': 'Discard this change? Local data will be restored from the server.',
+
+  // Authentication
+  'auth.login.title': 'Sign In',
+  'auth.login.subtitle': 'Sign in to continue to {{app}}',
+  'auth.login.field.email': 'Email',
+  'auth.login.field.password': 'Password',
+  'auth.login.placeholder.email': 'you@example.com',
+  'auth.login.placeholder.password': 'Enter your password',
+  'auth.login.button': 'Sign In',
+  'auth.login.button.signing.in': 'Signing in...',
+  'auth.logout.signing.out': 'Signing out...',
+  'auth.session.expired.title': 'Session Expired',
+  'auth.session.expired.message': 'Your session has ended. Sign in again to pick up where you left off.',
+  'auth.session.expired.button': 'Sign In Again',
+  'auth.forbidden.title': 'Access Denied',
+  'auth.forbidden.message': "Your role doesn't allow access to this page.",
+  'auth.forbidden.button': 'Back to Dashboard',
+
   // Dashboard
   'dashboard.title': 'Dashboard',
   'dashboard.subtitle': 'Welcome to your dashboard',
@@ -204,6 +440,9 @@ translations.set('en', {
   'nav.analytics.reports': 'Reports',
   'nav.analytics.performance': 'Performance',
   'nav.settings': 'Settings',
+  'nav.sync': 'Sync',
+  'nav.sync.conflicts': 'Conflicts',
+  'nav.sync.failed': 'Failed Operations',
   'nav.profile': 'View Profile',
   'nav.logout': 'Logout',
   'nav.my.profile': 'My Profile',
@@ -226,6 +465,7 @@ translations.set('en', {
   'panel.mark.all.read': 'Mark All Read',
   'panel.no.activity': 'No recent activity',
   'panel.no.notifications': 'No notifications',
+  'panel.view.all.messages': 'View All Messages',
   'panel.push.notifications': 'Push Notifications',
   'panel.email.notifications': 'Email Notifications',
   'panel.dark.mode': 'Dark Mode',
@@ -242,6 +482,12 @@ translations.set('en', {
   'table.name': 'Name',
   'table.email': 'Email',
   'table.actions': 'Actions',
+  'table.status': 'Status',
+  'table.members': 'Members',
+  'table.updated': 'Updated',
+  'table.title': 'Title',
+  'table.priority': 'Priority',
+  'table.due': 'Due',
 })
 
 // Chinese (Simplified) translations
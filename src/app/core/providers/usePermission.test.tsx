@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { AuthProvider } from './AuthProvider'
+import { usePermission } from './usePermission'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+
+function renderPermission(permission: Parameters<typeof usePermission>[0], mock = createMockAuthService()) {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <DIProvider container={createTestContainer(mock.service)}>
+      <AuthProvider>{children}</AuthProvider>
+    </DIProvider>
+  )
+  return { ...renderHook(() => usePermission(permission), { wrapper }), session: mock.session }
+}
+
+describe('usePermission', () => {
+  it('should grant permissions of the current role', () => {
+    const { result } = renderPermission('user:delete')
+
+    expect(result.current).toBe(true)
+  })
+
+  it('should follow role changes', () => {
+    const { result, session } = renderPermission('user:delete')
+
+    act(() => {
+      session.next({ ...session.value!, user: { ...TEST_USER, role: 'User' } })
+    })
+
+    expect(result.current).toBe(false)
+  })
+
+  it('should deny everything when signed out', () => {
+    const { result } = renderPermission('user:read', createMockAuthService(null))
+
+    expect(result.current).toBe(false)
+  })
+})
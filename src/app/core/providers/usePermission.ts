@@ -0,0 +1,10 @@
+import { useAuth } from './AuthProvider'
+import { hasPermission, type Permission } from '@/app/domain/entities/permission.model'
+
+/**
+ * Check if the signed-in user's role grants a permission
+ */
+export function usePermission(permission: Permission): boolean {
+  const { currentUser } = useAuth()
+  return hasPermission(currentUser?.role, permission)
+}
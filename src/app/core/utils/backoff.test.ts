@@ -0,0 +1,45 @@
+// =============================================================================
+// Backoff Tests
+// =============================================================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { computeBackoffDelay } from './backoff'
+
+describe('computeBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('doubles the delay with each attempt', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+
+    expect(computeBackoffDelay(1)).toBe(1000)
+    expect(computeBackoffDelay(2)).toBe(2000)
+    expect(computeBackoffDelay(3)).toBe(4000)
+  })
+
+  it('caps the delay at MAX_DELAY', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+
+    expect(computeBackoffDelay(10)).toBe(10000)
+  })
+
+  it('keeps at least half of the delay when jitter is minimal', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+
+    expect(computeBackoffDelay(1)).toBe(500)
+    expect(computeBackoffDelay(3)).toBe(2000)
+  })
+
+  it('spreads delays between half and the full exponential delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+
+    expect(computeBackoffDelay(2)).toBe(1500)
+  })
+
+  it('accepts custom bounds', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+
+    expect(computeBackoffDelay(3, { initialDelay: 100, maxDelay: 300 })).toBe(300)
+  })
+})
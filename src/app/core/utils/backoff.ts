@@ -0,0 +1,32 @@
+// =============================================================================
+// Backoff - Retry Delay Calculation
+// =============================================================================
+// Exponential backoff with jitter, bounded by APP_CONSTANTS.RETRY.
+// =============================================================================
+
+import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+
+/**
+ * Backoff options (defaults from APP_CONSTANTS.RETRY)
+ */
+export interface BackoffOptions {
+  initialDelay?: number
+  maxDelay?: number
+}
+
+/**
+ * Delay before retry attempt `attempt` (1-based)
+ * Uses "equal jitter": half of the exponential delay is fixed and half is
+ * random, so clients that failed together do not retry in lockstep
+ */
+export function computeBackoffDelay(attempt: number, options: BackoffOptions = {}): number {
+  const {
+    initialDelay = APP_CONSTANTS.RETRY.INITIAL_DELAY,
+    maxDelay = APP_CONSTANTS.RETRY.MAX_DELAY,
+  } = options
+
+  const exponential = Math.min(maxDelay, initialDelay * 2 ** Math.max(0, attempt - 1))
+  const half = exponential / 2
+
+  return Math.round(half + Math.random() * half)
+}
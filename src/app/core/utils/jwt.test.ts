@@ -0,0 +1,46 @@
+// =============================================================================
+// JWT Tests
+// =============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { decodeJwt, getJwtExpiry } from './jwt'
+
+function makeJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`
+}
+
+describe('decodeJwt', () => {
+  it('decodes the payload claims', () => {
+    expect(decodeJwt(makeJwt({ sub: '1', role: 'Admin' }))).toEqual({ sub: '1', role: 'Admin' })
+  })
+
+  it('decodes base64url payloads with unicode', () => {
+    const token = makeJwt({ name: 'x' }).replace(
+      /\.[^.]+\./,
+      `.${btoa(String.fromCharCode(...new TextEncoder().encode('{"name":"Zoë"}'))).replace(/=+$/, '')}.`
+    )
+
+    expect(decodeJwt(token)).toEqual({ name: 'Zoë' })
+  })
+
+  it('returns null for opaque tokens', () => {
+    expect(decodeJwt('QpwL5tke4Pnpja7X4')).toBeNull()
+  })
+
+  it('returns null for a malformed payload', () => {
+    expect(decodeJwt('header.not-json.signature')).toBeNull()
+  })
+})
+
+describe('getJwtExpiry', () => {
+  it('converts the exp claim to milliseconds', () => {
+    expect(getJwtExpiry(makeJwt({ exp: 1700000000 }))).toBe(1700000000000)
+  })
+
+  it('returns null without an exp claim', () => {
+    expect(getJwtExpiry(makeJwt({ sub: '1' }))).toBeNull()
+    expect(getJwtExpiry('opaque')).toBeNull()
+  })
+})
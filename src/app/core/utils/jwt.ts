@@ -0,0 +1,33 @@
+// =============================================================================
+// JWT - Token Claim Decoding
+// =============================================================================
+// Reads claims from a JWT payload without verifying the signature. Only used
+// to schedule refreshes - the server remains the authority on validity.
+// =============================================================================
+
+/**
+ * Decode the payload of a JWT, null if the token is not a JWT
+ */
+export function decodeJwt(token: string): Record<string, unknown> | null {
+  const payload = token.split('.')[1]
+  if (!payload) return null
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/')
+    const json = decodeURIComponent(
+      Array.from(atob(base64), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    )
+    const claims: unknown = JSON.parse(json)
+    return claims && typeof claims === 'object' ? (claims as Record<string, unknown>) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Expiry of a JWT (epoch ms) from its `exp` claim, null if absent
+ */
+export function getJwtExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp
+  return typeof exp === 'number' ? exp * 1000 : null
+}
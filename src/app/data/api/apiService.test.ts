@@ -2,14 +2,17 @@
 // API Service Tests
 // =============================================================================
 
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { AxiosHeaders } from 'axios'
+import { AppError } from '@/app/domain/entities/app-error.model'
+import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
 
 // ---------------------------------------------------------------------------
 // Use vi.hoisted() so mock variables are available in vi.mock() factories
 // ---------------------------------------------------------------------------
 const { mockClient } = vi.hoisted(() => {
   const mockClient = {
+    request: vi.fn(),
     get: vi.fn(),
     post: vi.fn(),
     put: vi.fn(),
@@ -37,6 +40,7 @@ vi.mock('@/app/domain/services/networkStatusService', () => ({
 vi.mock('./interceptors/csrfInterceptor', () => ({
   csrfInterceptor: vi.fn((config: unknown) => config),
   clearCsrfToken: vi.fn(),
+  handleCsrfError: vi.fn(),
 }))
 
 vi.mock('axios', () => ({
@@ -58,12 +62,21 @@ function fakeResponse<T>(data: T, status = 200) {
 
 // Import AFTER mocks
 import { apiService } from './apiService'
+import { rateLimiter } from './rateLimiter'
+import { handleCsrfError } from './interceptors/csrfInterceptor'
+
+// Capture the response error handler registered at construction time (before clearAllMocks)
+const responseErrorHandler = mockClient.interceptors.response.use.mock.calls[0][1] as (
+  error: unknown
+) => Promise<never>
 
 describe('ApiService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mockClient.defaults.headers.common = {}
     mockClient.defaults.baseURL = ''
+    apiService.resetDedupeStats()
+    rateLimiter.reset()
   })
 
   // ==========================================================================
@@ -98,6 +111,94 @@ describe('ApiService', () => {
     })
   })
 
+  // ==========================================================================
+  // GET deduplication
+  // ==========================================================================
+  describe('get deduplication', () => {
+    // Resolve the GET manually so calls overlap
+    function deferredGet() {
+      let resolve!: (value: ReturnType<typeof fakeResponse>) => void
+      let reject!: (reason: unknown) => void
+      mockClient.get.mockReturnValue(
+        new Promise((res, rej) => {
+          resolve = res
+          reject = rej
+        })
+      )
+      return { resolve, reject }
+    }
+
+    it('shares one request between identical concurrent GETs', async () => {
+      const { resolve } = deferredGet()
+
+      const first = apiService.get('/users/1')
+      const second = apiService.get('/users/1')
+      resolve(fakeResponse({ id: 1 }))
+
+      const [a, b] = await Promise.all([first, second])
+
+      expect(mockClient.get).toHaveBeenCalledTimes(1)
+      expect(a).toBe(b)
+      expect(apiService.dedupeStats).toEqual({ sent: 1, deduplicated: 1, inFlight: 0 })
+    })
+
+    it('treats params in any key order as the same request', async () => {
+      const { resolve } = deferredGet()
+
+      const first = apiService.get('/users', { params: { page: 1, per_page: 10 } })
+      const second = apiService.get('/users', { params: { per_page: 10, page: 1 } })
+      resolve(fakeResponse([]))
+      await Promise.all([first, second])
+
+      expect(mockClient.get).toHaveBeenCalledTimes(1)
+    })
+
+    it('sends separate requests for different params', async () => {
+      mockClient.get.mockResolvedValue(fakeResponse([]))
+
+      await Promise.all([
+        apiService.get('/users', { params: { page: 1 } }),
+        apiService.get('/users', { params: { page: 2 } }),
+      ])
+
+      expect(mockClient.get).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not share requests when dedupe is disabled', async () => {
+      mockClient.get.mockResolvedValue(fakeResponse({}))
+
+      await Promise.all([
+        apiService.get('/users/1', { dedupe: false }),
+        apiService.get('/users/1', { dedupe: false }),
+      ])
+
+      expect(mockClient.get).toHaveBeenCalledTimes(2)
+      expect(mockClient.get).toHaveBeenCalledWith('/users/1', {})
+      expect(apiService.dedupeStats.deduplicated).toBe(0)
+    })
+
+    it('sends a new request once the previous one settled', async () => {
+      mockClient.get.mockResolvedValue(fakeResponse({}))
+
+      await apiService.get('/users/1')
+      await apiService.get('/users/1')
+
+      expect(mockClient.get).toHaveBeenCalledTimes(2)
+    })
+
+    it('rejects every caller when the shared request fails and then clears it', async () => {
+      const { reject } = deferredGet()
+
+      const first = apiService.get('/users/1')
+      const second = apiService.get('/users/1')
+      reject(new Error('Timeout'))
+
+      await expect(first).rejects.toThrow('Timeout')
+      await expect(second).rejects.toThrow('Timeout')
+      expect(apiService.dedupeStats.inFlight).toBe(0)
+    })
+  })
+
   // ==========================================================================
   // POST
   // ==========================================================================
@@ -240,6 +341,358 @@ describe('ApiService', () => {
   // ==========================================================================
   // Interceptor registration
   // ==========================================================================
+  describe('rate limiting', () => {
+    it('sends requests that skip the rate limiter at once', async () => {
+      rateLimiter.configure({ maxConcurrent: 1 })
+      let finishFirst: () => void = () => {}
+      mockClient.get.mockReturnValueOnce(new Promise((resolve) => (finishFirst = () => resolve(fakeResponse({})))))
+      mockClient.post.mockResolvedValue(fakeResponse({ ok: true }))
+
+      const first = apiService.get('/users')
+      const refresh = await apiService.post('/auth/refresh', {}, { skipRateLimit: true })
+
+      expect(refresh.data).toEqual({ ok: true })
+      expect(mockClient.post).toHaveBeenCalledWith('/auth/refresh', {}, {})
+      finishFirst()
+      await first
+    })
+
+    it('does not pass ApiService options to axios', async () => {
+      mockClient.post.mockResolvedValue(fakeResponse({}))
+
+      await apiService.post('/users', {}, { priority: 'background', timeout: 5000 })
+
+      expect(mockClient.post).toHaveBeenCalledWith('/users', {}, { timeout: 5000 })
+    })
+
+    it('sends the idempotency key as a header on state-changing requests', async () => {
+      mockClient.put.mockResolvedValue(fakeResponse({}))
+      mockClient.delete.mockResolvedValue(fakeResponse({}))
+
+      await apiService.put('/users/1', {}, { idempotencyKey: 'key-1', headers: { 'X-Trace': '1' } })
+      await apiService.delete('/users/1', { idempotencyKey: 'key-2' })
+
+      expect(mockClient.put).toHaveBeenCalledWith('/users/1', {}, { headers: { 'X-Trace': '1', 'Idempotency-Key': 'key-1' } })
+      expect(mockClient.delete).toHaveBeenCalledWith('/users/1', { headers: { 'Idempotency-Key': 'key-2' } })
+    })
+
+    it('does not send an idempotency key on GET', async () => {
+      mockClient.get.mockResolvedValue(fakeResponse({}))
+
+      await apiService.get('/users/1', { idempotencyKey: 'key-1' })
+
+      expect(mockClient.get).toHaveBeenCalledWith('/users/1', {})
+    })
+
+    it('maps 429 responses to a rate limit error with the Retry-After delay', async () => {
+      const error = await responseErrorHandler({
+        response: { status: 429, data: {}, headers: { 'retry-after': '2' } },
+        config: {},
+      }).catch((e: unknown) => e)
+
+      expect(error).toMatchObject({ code: 'ERR_RATE_LIMITED', details: { retryAfter: 2000 } })
+    })
+
+    it('retries a rate-limited request instead of failing it', async () => {
+      mockClient.get
+        .mockRejectedValueOnce(AppError.rateLimited('Too many requests', 0))
+        .mockResolvedValueOnce(fakeResponse({ id: 1 }))
+
+      const result = await apiService.get('/users/1')
+
+      expect(result.data).toEqual({ id: 1 })
+      expect(mockClient.get).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  // ==========================================================================
+  // Automatic retry
+  // ==========================================================================
+  describe('automatic retry', () => {
+    const serverError = (config: Record<string, unknown>) => ({
+      response: { status: 503, data: {}, headers: {} },
+      config: { headers: {}, ...config },
+    })
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout'] })
+      vi.spyOn(Math, 'random').mockReturnValue(1)
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('retries a transient GET failure after the backoff delay', async () => {
+      mockClient.request.mockResolvedValue(fakeResponse({ id: 1 }))
+
+      const result = responseErrorHandler(serverError({ method: 'get', url: '/users/1' }))
+      await vi.advanceTimersByTimeAsync(999)
+      expect(mockClient.request).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(1)
+
+      await expect(result).resolves.toMatchObject({ data: { id: 1 } })
+      expect(mockClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'get', url: '/users/1', attempt: 2 })
+      )
+    })
+
+    it('emits retry attempts on errors$', async () => {
+      mockClient.request.mockResolvedValue(fakeResponse({}))
+      const events: unknown[] = []
+      const sub = apiService.errors$.subscribe((event) => events.push(event.retry))
+
+      const result = responseErrorHandler(serverError({ method: 'put', url: '/users/1' }))
+      await vi.runAllTimersAsync()
+      await result
+
+      expect(events).toEqual([{ attempt: 2, maxAttempts: 3, delay: 1000 }])
+      sub.unsubscribe()
+    })
+
+    it('surfaces the error once the attempts are exhausted', async () => {
+      const events: unknown[] = []
+      const sub = apiService.errors$.subscribe((event) => events.push(event.retry))
+
+      await expect(
+        responseErrorHandler(serverError({ method: 'get', url: '/users/1', attempt: 3 }))
+      ).rejects.toMatchObject({ code: 'ERR_SERVER' })
+      expect(mockClient.request).not.toHaveBeenCalled()
+      expect(events).toEqual([undefined])
+      sub.unsubscribe()
+    })
+
+    it('does not retry a POST without an idempotency key', async () => {
+      await expect(responseErrorHandler(serverError({ method: 'post', url: '/users' }))).rejects.toMatchObject({
+        code: 'ERR_SERVER',
+      })
+      expect(mockClient.request).not.toHaveBeenCalled()
+    })
+
+    it('retries a POST that carries an idempotency key', async () => {
+      mockClient.request.mockResolvedValue(fakeResponse({}))
+
+      const result = responseErrorHandler(
+        serverError({ method: 'post', url: '/users', headers: { 'Idempotency-Key': 'abc' } })
+      )
+      await vi.runAllTimersAsync()
+      await result
+
+      expect(mockClient.request).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not retry non-retryable errors', async () => {
+      await expect(
+        responseErrorHandler({ response: { status: 404, data: {}, headers: {} }, config: { method: 'get', headers: {} } })
+      ).rejects.toMatchObject({ code: 'ERR_NOT_FOUND' })
+      expect(mockClient.request).not.toHaveBeenCalled()
+    })
+
+    it('retries timeouts (no response)', async () => {
+      mockClient.request.mockResolvedValue(fakeResponse({}))
+
+      const result = responseErrorHandler({ request: {}, config: { method: 'get', url: '/slow', headers: {} } })
+      await vi.runAllTimersAsync()
+      await result
+
+      expect(mockClient.request).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('CSRF retry', () => {
+    const forbidden = (code: string, config: Record<string, unknown> = {}) => ({
+      response: { status: 403, data: { code, message: 'Forbidden' }, headers: {} },
+      config: { method: 'post', url: '/users', headers: {}, ...config },
+    })
+
+    it('refreshes the token and replays the request once', async () => {
+      vi.mocked(handleCsrfError).mockResolvedValue(true)
+      mockClient.request.mockResolvedValue(fakeResponse({ id: 1 }))
+      const events: unknown[] = []
+      const sub = apiService.errors$.subscribe((event) => events.push(event))
+
+      await expect(responseErrorHandler(forbidden('CSRF_TOKEN_INVALID'))).resolves.toMatchObject({
+        data: { id: 1 },
+      })
+
+      expect(handleCsrfError).toHaveBeenCalledWith(403, 'CSRF_TOKEN_INVALID')
+      expect(mockClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'post', url: '/users', csrfRetried: true })
+      )
+      expect(events).toEqual([])
+      sub.unsubscribe()
+    })
+
+    it('does not replay a request that was already replayed', async () => {
+      await expect(
+        responseErrorHandler(forbidden('CSRF_TOKEN_INVALID', { csrfRetried: true }))
+      ).rejects.toMatchObject({ code: 'ERR_FORBIDDEN' })
+
+      expect(handleCsrfError).not.toHaveBeenCalled()
+      expect(mockClient.request).not.toHaveBeenCalled()
+    })
+
+    it('surfaces other 403 errors', async () => {
+      vi.mocked(handleCsrfError).mockResolvedValue(false)
+
+      await expect(responseErrorHandler(forbidden('FORBIDDEN'))).rejects.toMatchObject({
+        code: 'ERR_FORBIDDEN',
+      })
+      expect(mockClient.request).not.toHaveBeenCalled()
+    })
+
+    it('surfaces the 403 when the token cannot be refreshed', async () => {
+      vi.mocked(handleCsrfError).mockRejectedValue(new Error('No CSRF token available from cookie'))
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      await expect(responseErrorHandler(forbidden('CSRF_TOKEN_INVALID'))).rejects.toMatchObject({
+        code: 'ERR_FORBIDDEN',
+      })
+      expect(mockClient.request).not.toHaveBeenCalled()
+      warn.mockRestore()
+    })
+  })
+
+  describe('session refresh', () => {
+    const unauthorized = (config: Record<string, unknown> = {}) => ({
+      response: { status: 401, data: {}, headers: {} },
+      config: { method: 'get', url: '/users', headers: { Authorization: 'Bearer old-token' }, ...config },
+    })
+
+    beforeEach(() => {
+      vi.mocked(localStorage.getItem).mockReturnValue('old-token')
+    })
+
+    afterEach(() => {
+      apiService.registerTokenRefresher(null)
+    })
+
+    it('refreshes the session and replays the request', async () => {
+      const refresher = vi.fn().mockResolvedValue(undefined)
+      apiService.registerTokenRefresher(refresher)
+      mockClient.request.mockResolvedValue(fakeResponse({ id: 1 }))
+
+      await expect(responseErrorHandler(unauthorized())).resolves.toMatchObject({ data: { id: 1 } })
+
+      expect(refresher).toHaveBeenCalledTimes(1)
+      expect(mockClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: '/users', authRetried: true })
+      )
+    })
+
+    it('queues concurrent 401s behind a single refresh', async () => {
+      let finishRefresh: () => void = () => {}
+      const refresher = vi.fn(() => new Promise<void>((resolve) => (finishRefresh = resolve)))
+      apiService.registerTokenRefresher(refresher)
+      mockClient.request.mockResolvedValue(fakeResponse({}))
+
+      const first = responseErrorHandler(unauthorized({ url: '/users/1' }))
+      const second = responseErrorHandler(unauthorized({ url: '/users/2' }))
+      await Promise.resolve()
+      expect(mockClient.request).not.toHaveBeenCalled()
+
+      finishRefresh()
+      await Promise.all([first, second])
+
+      expect(refresher).toHaveBeenCalledTimes(1)
+      expect(mockClient.request).toHaveBeenCalledTimes(2)
+    })
+
+    it('replays without refreshing when the token was already replaced', async () => {
+      const refresher = vi.fn().mockResolvedValue(undefined)
+      apiService.registerTokenRefresher(refresher)
+      vi.mocked(localStorage.getItem).mockReturnValue('new-token')
+      mockClient.request.mockResolvedValue(fakeResponse({}))
+
+      await responseErrorHandler(unauthorized())
+
+      expect(refresher).not.toHaveBeenCalled()
+      expect(mockClient.request).toHaveBeenCalledTimes(1)
+    })
+
+    it('ends the session when the refresh fails', async () => {
+      apiService.registerTokenRefresher(vi.fn().mockRejectedValue(AppError.authentication('Session expired')))
+      const onUnauthorized = vi.fn()
+      globalThis.addEventListener('auth:unauthorized', onUnauthorized)
+
+      await expect(responseErrorHandler(unauthorized())).rejects.toMatchObject({ code: 'ERR_AUTH' })
+
+      expect(mockClient.request).not.toHaveBeenCalled()
+      expect(localStorage.removeItem).toHaveBeenCalledWith('arcana_refresh_token')
+      expect(onUnauthorized).toHaveBeenCalledTimes(1)
+      globalThis.removeEventListener('auth:unauthorized', onUnauthorized)
+    })
+
+    it('keeps the session when the refresh cannot reach the server', async () => {
+      apiService.registerTokenRefresher(vi.fn().mockRejectedValue(AppError.network('Server not responding')))
+      const onUnauthorized = vi.fn()
+      globalThis.addEventListener('auth:unauthorized', onUnauthorized)
+
+      await expect(responseErrorHandler(unauthorized())).rejects.toMatchObject({ code: 'ERR_NETWORK' })
+
+      expect(mockClient.request).not.toHaveBeenCalled()
+      expect(localStorage.removeItem).not.toHaveBeenCalled()
+      expect(onUnauthorized).not.toHaveBeenCalled()
+      globalThis.removeEventListener('auth:unauthorized', onUnauthorized)
+    })
+
+    it('recovers more concurrent 401s than the rate limiter has slots', async () => {
+      const count = APP_CONSTANTS.API.RATE_LIMIT.MAX_CONCURRENT + 2
+      rateLimiter.configure({ capacity: count * 2 })
+      // Every request is answered with a 401 once all of them hold a slot
+      mockClient.get.mockImplementation(async (url: string) => {
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        return responseErrorHandler(unauthorized({ url }))
+      })
+      mockClient.request.mockImplementation(async (config: { url: string }) => fakeResponse({ url: config.url }))
+      mockClient.post.mockResolvedValue(fakeResponse({}))
+      const refresher = vi.fn(async () => {
+        await apiService.post('/auth/refresh', {}, { skipAuthRefresh: true, skipRateLimit: true })
+        vi.mocked(localStorage.getItem).mockReturnValue('new-token')
+      })
+      apiService.registerTokenRefresher(refresher)
+
+      const results = await Promise.all(
+        Array.from({ length: count }, (_, i) => apiService.get<{ url: string }>(`/users/${i}`))
+      )
+
+      expect(results.map((result) => result.data.url)).toEqual(Array.from({ length: count }, (_, i) => `/users/${i}`))
+      expect(refresher).toHaveBeenCalledTimes(1)
+      expect(mockClient.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not refresh a request that was already replayed', async () => {
+      const refresher = vi.fn()
+      apiService.registerTokenRefresher(refresher)
+
+      await expect(responseErrorHandler(unauthorized({ authRetried: true }))).rejects.toMatchObject({
+        code: 'ERR_AUTH',
+      })
+      expect(refresher).not.toHaveBeenCalled()
+    })
+
+    it('surfaces 401s from login and refresh calls without ending the session', async () => {
+      const refresher = vi.fn()
+      apiService.registerTokenRefresher(refresher)
+      const onUnauthorized = vi.fn()
+      globalThis.addEventListener('auth:unauthorized', onUnauthorized)
+
+      await expect(
+        responseErrorHandler(unauthorized({ method: 'post', url: '/auth/login', skipAuthRefresh: true }))
+      ).rejects.toMatchObject({ code: 'ERR_AUTH' })
+
+      expect(refresher).not.toHaveBeenCalled()
+      expect(onUnauthorized).not.toHaveBeenCalled()
+      globalThis.removeEventListener('auth:unauthorized', onUnauthorized)
+    })
+
+    it('rejects refreshSession without a registered refresher', async () => {
+      await expect(apiService.refreshSession()).rejects.toMatchObject({ code: 'ERR_AUTH' })
+    })
+  })
+
   describe('interceptor setup', () => {
     it('request interceptors use function is a mock', () => {
       // Interceptors are registered during construction (before clearAllMocks),
@@ -2,12 +2,20 @@
 // API Service
 // =============================================================================
 
-import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosError, type InternalAxiosRequestConfig } from 'axios'
+import axios, {
+  type AxiosInstance,
+  type AxiosRequestConfig,
+  type AxiosResponse,
+  type AxiosError,
+  type InternalAxiosRequestConfig,
+} from 'axios'
 import { Subject } from 'rxjs'
 import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+import { computeBackoffDelay } from '@/app/core/utils/backoff'
 import { AppError, ErrorCategory } from '@/app/domain/entities/app-error.model'
 import { networkStatusService } from '@/app/domain/services/networkStatusService'
-import { csrfInterceptor, clearCsrfToken } from './interceptors/csrfInterceptor'
+import { csrfInterceptor, clearCsrfToken, handleCsrfError } from './interceptors/csrfInterceptor'
+import { rateLimiter, parseRetryAfter, type RequestPriority } from './rateLimiter'
 
 /**
  * API Response wrapper
@@ -18,15 +26,80 @@ export interface ApiResponse<T> {
   headers: Record<string, string>
 }
 
+/**
+ * Request config accepted by ApiService
+ */
+export interface ApiRequestConfig extends AxiosRequestConfig {
+  /** Share an identical in-flight GET instead of sending another (default: true) */
+  dedupe?: boolean
+  /** Queue priority - background sync yields to user requests (default: 'user') */
+  priority?: RequestPriority
+  /** Sent as the Idempotency-Key header on POST/PUT/PATCH/DELETE */
+  idempotencyKey?: string
+  /** Surface a 401 as-is instead of refreshing the session (login/refresh calls) */
+  skipAuthRefresh?: boolean
+  /**
+   * Send at once instead of through the rate limiter (the session refresh:
+   * requests waiting on it hold their slots, so it could never get one)
+   */
+  skipRateLimit?: boolean
+}
+
+/**
+ * Refreshes the access token after a 401
+ * Rejects when the session cannot be refreshed
+ */
+export type TokenRefresher = () => Promise<void>
+
+/**
+ * GET deduplication statistics
+ */
+export interface DedupeStats {
+  /** GET requests sent to the server */
+  sent: number
+  /** GET calls served by an identical in-flight request */
+  deduplicated: number
+  /** Requests currently in flight */
+  inFlight: number
+}
+
+/**
+ * Automatic retry scheduled for a failed request
+ */
+export interface ApiRetryInfo {
+  /** Attempt about to be made (2 = first retry) */
+  attempt: number
+  maxAttempts: number
+  /** Delay before the attempt (ms) */
+  delay: number
+}
+
 /**
  * API Error event
+ * Events with `retry` set are transient - the request is being retried
  */
 export interface ApiErrorEvent {
   error: AppError
   config: AxiosRequestConfig
   timestamp: Date
+  retry?: ApiRetryInfo
+}
+
+/**
+ * Axios config carrying the attempt number and replay flags across retries
+ */
+type RetryableRequestConfig = InternalAxiosRequestConfig & {
+  attempt?: number
+  csrfRetried?: boolean
+  authRetried?: boolean
+  skipAuthRefresh?: boolean
 }
 
+/**
+ * Methods that are safe to repeat; others need an Idempotency-Key header
+ */
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete'])
+
 /**
  * Request interceptor for adding auth token
  */
@@ -50,6 +123,63 @@ const requestIdInterceptor = (config: InternalAxiosRequestConfig): InternalAxios
   return config
 }
 
+/**
+ * Serialize a value with sorted object keys so equal params give equal keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'undefined'
+}
+
+/**
+ * In-flight key for a request: method + URL + params
+ */
+function requestKey(method: string, url: string, config?: AxiosRequestConfig): string {
+  return `${method.toUpperCase()} ${url} ${stableStringify(config?.params ?? null)}`
+}
+
+/**
+ * Whether a request may be sent again without side effects
+ */
+function isIdempotent(config: AxiosRequestConfig): boolean {
+  if (IDEMPOTENT_METHODS.has((config.method ?? 'get').toLowerCase())) {
+    return true
+  }
+
+  const headers = (config.headers ?? {}) as Record<string, unknown>
+  return Object.keys(headers).some((name) => name.toLowerCase() === 'idempotency-key' && Boolean(headers[name]))
+}
+
+/**
+ * How a request goes through the rate limiter
+ */
+interface LimitOptions {
+  priority: RequestPriority
+  skipRateLimit: boolean
+}
+
+/**
+ * Split ApiService options from the config passed to axios
+ * The idempotency key becomes a header on state-changing requests
+ */
+function splitConfig(config?: ApiRequestConfig, method = 'get') {
+  const { dedupe = true, priority = 'user', idempotencyKey, skipRateLimit = false, ...rest } = config ?? {}
+
+  if (idempotencyKey && method !== 'get') {
+    rest.headers = { ...rest.headers, 'Idempotency-Key': idempotencyKey } as AxiosRequestConfig['headers']
+  }
+
+  return { dedupe, limit: { priority, skipRateLimit }, axiosConfig: config ? rest : undefined }
+}
+
 /**
  * API Service class
  * Centralized HTTP client with interceptors and error handling
@@ -58,6 +188,15 @@ class ApiService {
   private readonly client: AxiosInstance
   private readonly errorSubject = new Subject<ApiErrorEvent>()
 
+  // In-flight GETs shared by identical concurrent calls
+  private readonly inFlight = new Map<string, Promise<ApiResponse<unknown>>>()
+  private sentCount = 0
+  private dedupedCount = 0
+
+  // Session refresh shared by every request that got a 401 while it runs
+  private tokenRefresher: TokenRefresher | null = null
+  private refreshPromise: Promise<void> | null = null
+
   constructor() {
     this.client = axios.create({
       baseURL: APP_CONSTANTS.API.BASE_URL,
@@ -99,8 +238,60 @@ class ApiService {
 
   /**
    * Handle API errors
+   * A rejected CSRF token or expired session is refreshed and the request
+   * replayed once; transient failures of idempotent requests are retried with backoff
+   */
+  private handleError(error: AxiosError): Promise<AxiosResponse> {
+    const config = error.config as RetryableRequestConfig | undefined
+
+    if (config && !config.csrfRetried && error.response?.status === 403) {
+      return this.retryWithFreshCsrfToken(config, error)
+    }
+
+    if (
+      config &&
+      this.tokenRefresher &&
+      !config.authRetried &&
+      !config.skipAuthRefresh &&
+      error.response?.status === 401
+    ) {
+      return this.retryWithRefreshedSession(config, error)
+    }
+
+    return this.failRequest(error, config)
+  }
+
+  /**
+   * Report a failed request, then retry it or reject
+   */
+  private failRequest(error: AxiosError, config: RetryableRequestConfig | undefined): Promise<AxiosResponse> {
+    const appError = this.toAppError(error)
+    const retry = config ? this.getRetryInfo(appError, config) : null
+
+    // Emit error event
+    this.errorSubject.next({
+      error: appError,
+      config: config || {},
+      timestamp: new Date(),
+      ...(retry ? { retry } : {}),
+    })
+
+    if (config && retry) {
+      return this.retryRequest(config, retry)
+    }
+
+    // Handle 401 - Unauthorized (login and refresh calls report their own 401s)
+    if (error.response?.status === 401 && !config?.skipAuthRefresh) {
+      this.handleUnauthorized()
+    }
+
+    return Promise.reject(appError)
+  }
+
+  /**
+   * Convert an axios error to an AppError
    */
-  private handleError(error: AxiosError): Promise<never> {
+  private toAppError(error: AxiosError): AppError {
     let appError: AppError
 
     if (error.response) {
@@ -108,7 +299,10 @@ class ApiService {
       const status = error.response.status
       const message = (error.response.data as { message?: string })?.message
 
-      appError = AppError.fromHttpStatus(status, message)
+      appError =
+        status === 429
+          ? AppError.rateLimited(message, parseRetryAfter(error.response.headers?.['retry-after'] as string | undefined))
+          : AppError.fromHttpStatus(status, message)
     } else if (error.request) {
       // Request was made but no response received
       appError = AppError.network('Server not responding', error)
@@ -119,19 +313,87 @@ class ApiService {
       })
     }
 
-    // Emit error event
-    this.errorSubject.next({
-      error: appError,
-      config: error.config || {},
-      timestamp: new Date(),
-    })
+    return appError
+  }
 
-    // Handle 401 - Unauthorized
-    if (error.response?.status === 401) {
-      this.handleUnauthorized()
+  /**
+   * Decide whether a failed request gets another attempt
+   * Rate-limited requests are left to the rate limiter
+   */
+  private getRetryInfo(error: AppError, config: RetryableRequestConfig): ApiRetryInfo | null {
+    if (!error.isRetryable() || error.code === 'ERR_RATE_LIMITED' || !isIdempotent(config)) {
+      return null
     }
 
-    return Promise.reject(appError)
+    const attempt = (config.attempt ?? 1) + 1
+    const maxAttempts = APP_CONSTANTS.RETRY.MAX_ATTEMPTS
+    if (attempt > maxAttempts) {
+      return null
+    }
+
+    return { attempt, maxAttempts, delay: computeBackoffDelay(attempt - 1) }
+  }
+
+  /**
+   * Replay a request rejected with 403 CSRF_TOKEN_INVALID using a fresh token
+   * Other 403s, and failures to refresh the token, surface the original error
+   */
+  private async retryWithFreshCsrfToken(
+    config: RetryableRequestConfig,
+    error: AxiosError
+  ): Promise<AxiosResponse> {
+    const code = (error.response?.data as { code?: string } | undefined)?.code
+    let refreshed = false
+
+    try {
+      refreshed = await handleCsrfError(error.response!.status, code)
+    } catch (refreshError) {
+      console.warn('Failed to refresh CSRF token:', refreshError)
+    }
+
+    if (!refreshed) {
+      return this.failRequest(error, config)
+    }
+
+    // The CSRF interceptor attaches the new token to the replay
+    return this.client.request({ ...config, csrfRetried: true } as RetryableRequestConfig)
+  }
+
+  /**
+   * Replay a request rejected with 401 once the session has been refreshed
+   * Concurrent 401s wait for the same refresh. If the server rejects it the
+   * session is ended; if it cannot be reached the refresh error is surfaced
+   * and the session kept for another attempt
+   */
+  private async retryWithRefreshedSession(
+    config: RetryableRequestConfig,
+    error: AxiosError
+  ): Promise<AxiosResponse> {
+    const sentToken = (config.headers as Record<string, unknown> | undefined)?.Authorization
+    const currentToken = localStorage.getItem(APP_CONSTANTS.STORAGE_KEYS.AUTH_TOKEN)
+
+    // Skip the refresh if the token was already replaced since this request was sent
+    if (!currentToken || sentToken === `Bearer ${currentToken}`) {
+      try {
+        await this.refreshSession()
+      } catch (refreshError) {
+        if (refreshError instanceof AppError && refreshError.isRetryable()) {
+          throw refreshError
+        }
+        return this.failRequest(error, config)
+      }
+    }
+
+    // The auth interceptor attaches the new token to the replay
+    return this.client.request({ ...config, authRetried: true } as RetryableRequestConfig)
+  }
+
+  /**
+   * Send a request again after the backoff delay
+   */
+  private async retryRequest(config: RetryableRequestConfig, retry: ApiRetryInfo): Promise<AxiosResponse> {
+    await new Promise((resolve) => setTimeout(resolve, retry.delay))
+    return this.client.request({ ...config, attempt: retry.attempt } as RetryableRequestConfig)
   }
 
   /**
@@ -139,6 +401,7 @@ class ApiService {
    */
   private handleUnauthorized(): void {
     localStorage.removeItem(APP_CONSTANTS.STORAGE_KEYS.AUTH_TOKEN)
+    localStorage.removeItem(APP_CONSTANTS.STORAGE_KEYS.REFRESH_TOKEN)
     localStorage.removeItem(APP_CONSTANTS.STORAGE_KEYS.USER)
 
     // Clear CSRF token on logout
@@ -148,6 +411,27 @@ class ApiService {
     globalThis.dispatchEvent(new CustomEvent('auth:unauthorized'))
   }
 
+  /**
+   * Register the function that refreshes the session after a 401
+   */
+  registerTokenRefresher(refresher: TokenRefresher | null): void {
+    this.tokenRefresher = refresher
+  }
+
+  /**
+   * Refresh the session, sharing a refresh that is already running
+   */
+  refreshSession(): Promise<void> {
+    if (!this.tokenRefresher) {
+      return Promise.reject(AppError.authentication('No session to refresh'))
+    }
+
+    this.refreshPromise ??= this.tokenRefresher().finally(() => {
+      this.refreshPromise = null
+    })
+    return this.refreshPromise
+  }
+
   /**
    * Observable for error events
    */
@@ -157,45 +441,82 @@ class ApiService {
 
   /**
    * GET request
+   * Identical concurrent GETs (same URL and params) share one in-flight request
+   * unless `dedupe: false` is passed
    */
-  async get<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.get<T>(url, config)
-    return {
-      data: response.data,
-      status: response.status,
-      headers: response.headers as Record<string, string>,
+  get<T>(url: string, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const { dedupe, limit, axiosConfig } = splitConfig(config)
+
+    if (!dedupe) {
+      return this.sendGet<T>(url, axiosConfig, limit)
     }
+
+    const key = requestKey('get', url, axiosConfig)
+    const pending = this.inFlight.get(key)
+    if (pending) {
+      this.dedupedCount++
+      return pending as Promise<ApiResponse<T>>
+    }
+
+    const request = this.sendGet<T>(url, axiosConfig, limit).finally(() => {
+      this.inFlight.delete(key)
+    })
+    this.inFlight.set(key, request)
+    return request
+  }
+
+  /**
+   * Send a GET request to the server
+   */
+  private sendGet<T>(url: string, config: AxiosRequestConfig | undefined, limit: LimitOptions): Promise<ApiResponse<T>> {
+    this.sentCount++
+    return this.send(url, config, limit, () => this.client.get<T>(url, config))
   }
 
   /**
    * POST request
    */
-  async post<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.post<T>(url, data, config)
-    return {
-      data: response.data,
-      status: response.status,
-      headers: response.headers as Record<string, string>,
-    }
+  post<T>(url: string, data?: unknown, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const { limit, axiosConfig } = splitConfig(config, 'post')
+    return this.send(url, axiosConfig, limit, () => this.client.post<T>(url, data, axiosConfig))
   }
 
   /**
    * PUT request
    */
-  async put<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.put<T>(url, data, config)
-    return {
-      data: response.data,
-      status: response.status,
-      headers: response.headers as Record<string, string>,
-    }
+  put<T>(url: string, data?: unknown, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const { limit, axiosConfig } = splitConfig(config, 'put')
+    return this.send(url, axiosConfig, limit, () => this.client.put<T>(url, data, axiosConfig))
   }
 
   /**
    * PATCH request
    */
-  async patch<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.patch<T>(url, data, config)
+  patch<T>(url: string, data?: unknown, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const { limit, axiosConfig } = splitConfig(config, 'patch')
+    return this.send(url, axiosConfig, limit, () => this.client.patch<T>(url, data, axiosConfig))
+  }
+
+  /**
+   * DELETE request
+   */
+  delete<T>(url: string, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const { limit, axiosConfig } = splitConfig(config, 'delete')
+    return this.send(url, axiosConfig, limit, () => this.client.delete<T>(url, axiosConfig))
+  }
+
+  /**
+   * Send a request through the rate limiter and wrap the response
+   */
+  private async send<T>(
+    url: string,
+    config: AxiosRequestConfig | undefined,
+    { priority, skipRateLimit }: LimitOptions,
+    request: () => Promise<AxiosResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const response = skipRateLimit
+      ? await request()
+      : await rateLimiter.schedule({ baseURL: config?.baseURL ?? this.client.defaults.baseURL, url, priority }, request)
     return {
       data: response.data,
       status: response.status,
@@ -204,17 +525,24 @@ class ApiService {
   }
 
   /**
-   * DELETE request
+   * Get GET deduplication statistics
    */
-  async delete<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.delete<T>(url, config)
+  get dedupeStats(): DedupeStats {
     return {
-      data: response.data,
-      status: response.status,
-      headers: response.headers as Record<string, string>,
+      sent: this.sentCount,
+      deduplicated: this.dedupedCount,
+      inFlight: this.inFlight.size,
     }
   }
 
+  /**
+   * Reset GET deduplication statistics
+   */
+  resetDedupeStats(): void {
+    this.sentCount = 0
+    this.dedupedCount = 0
+  }
+
   /**
    * Get axios instance for advanced usage
    */
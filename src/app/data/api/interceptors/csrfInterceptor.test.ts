@@ -6,21 +6,6 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { InternalAxiosRequestConfig, AxiosHeaders } from 'axios'
 import { csrfInterceptor, csrfTokenService, clearCsrfToken, handleCsrfError } from './csrfInterceptor'
 
-// Mock crypto.getRandomValues
-const mockGetRandomValues = vi.fn((array: Uint8Array) => {
-  for (let i = 0; i < array.length; i++) {
-    array[i] = Math.floor(Math.random() * 256)
-  }
-  return array
-})
-
-Object.defineProperty(globalThis, 'crypto', {
-  value: {
-    getRandomValues: mockGetRandomValues,
-  },
-  writable: true,
-})
-
 // Mock sessionStorage
 const mockSessionStorage: Record<string, string> = {}
 const sessionStorageMock = {
@@ -41,6 +26,13 @@ Object.defineProperty(globalThis, 'sessionStorage', {
   writable: true,
 })
 
+// Helper to set the server-issued XSRF-TOKEN cookie
+function setCsrfCookie(value: string | null) {
+  document.cookie = value === null
+    ? 'XSRF-TOKEN=; expires=Thu, 01 Jan 1970 00:00:00 GMT'
+    : `XSRF-TOKEN=${value}`
+}
+
 // Helper to create mock config
 function createMockConfig(
   method: string,
@@ -62,7 +54,8 @@ describe('csrfInterceptor', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     sessionStorageMock.clear()
-    clearCsrfToken()
+    csrfTokenService.configure({ source: 'cookie' })
+    setCsrfCookie('cookie-token')
   })
 
   afterEach(() => {
@@ -97,9 +90,7 @@ describe('csrfInterceptor', () => {
       const config = createMockConfig('POST')
       const result = await csrfInterceptor(config)
 
-      expect(result.headers['X-CSRF-Token']).toBeDefined()
-      expect(typeof result.headers['X-CSRF-Token']).toBe('string')
-      expect((result.headers['X-CSRF-Token'] as string).length).toBe(64) // 32 bytes = 64 hex chars
+      expect(result.headers['X-CSRF-Token']).toBe('cookie-token')
     })
 
     it('adds CSRF token for PUT requests', async () => {
@@ -176,26 +167,92 @@ describe('csrfInterceptor', () => {
       expect(result.headers['X-CSRF-Token']).toBeUndefined()
     })
   })
+
+  describe('Missing Token', () => {
+    it('sends the request without a token when none is available', async () => {
+      setCsrfCookie(null)
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const result = await csrfInterceptor(createMockConfig('POST'))
+
+      expect(result.headers['X-CSRF-Token']).toBeUndefined()
+      expect(warn).toHaveBeenCalledWith('Failed to get CSRF token:', expect.any(Error))
+      warn.mockRestore()
+    })
+  })
 })
 
 describe('csrfTokenService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     sessionStorageMock.clear()
-    clearCsrfToken()
+    csrfTokenService.configure({ source: 'cookie' })
+    setCsrfCookie('cookie-token')
   })
 
-  describe('Token Generation', () => {
-    it('generates a 64 character hex token', async () => {
-      const token = await csrfTokenService.getToken()
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    document.head.innerHTML = ''
+  })
+
+  describe('Token Sources', () => {
+    it('reads the token from the configured cookie', async () => {
+      setCsrfCookie('abc%20123')
+
+      await expect(csrfTokenService.getToken()).resolves.toBe('abc 123')
+    })
+
+    it('reads the token from a meta tag', async () => {
+      document.head.innerHTML = '<meta name="csrf-token" content="meta-token">'
+      csrfTokenService.configure({ source: 'meta' })
+
+      await expect(csrfTokenService.getToken()).resolves.toBe('meta-token')
+    })
+
+    it('fetches the token from the endpoint with credentials', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ token: 'endpoint-token' }), { status: 200 })
+      )
+      vi.stubGlobal('fetch', fetchMock)
+      csrfTokenService.configure({ source: 'endpoint', endpoint: '/csrf' })
+
+      await expect(csrfTokenService.getToken()).resolves.toBe('endpoint-token')
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://reqres.in/api/csrf',
+        expect.objectContaining({ credentials: 'include' })
+      )
+    })
+
+    it('prefers the X-CSRF-Token response header from the endpoint', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(new Response(null, { status: 204, headers: { 'X-CSRF-Token': 'header-token' } }))
+      )
+      csrfTokenService.configure({ source: 'endpoint', endpoint: 'https://auth.example.com/csrf' })
 
-      expect(token).toMatch(/^[0-9a-f]{64}$/)
+      await expect(csrfTokenService.getToken()).resolves.toBe('header-token')
     })
 
-    it('uses crypto.getRandomValues for secure generation', async () => {
+    it('rejects when the endpoint fails', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 500 })))
+      csrfTokenService.configure({ source: 'endpoint' })
+
+      await expect(csrfTokenService.getToken()).rejects.toThrow('status 500')
+    })
+
+    it('rejects when the source has no token', async () => {
+      setCsrfCookie(null)
+
+      await expect(csrfTokenService.getToken()).rejects.toThrow('No CSRF token available from cookie')
+    })
+
+    it('drops the cached token when reconfigured', async () => {
       await csrfTokenService.getToken()
+      document.head.innerHTML = '<meta name="csrf-token" content="meta-token">'
+
+      csrfTokenService.configure({ source: 'meta' })
 
-      expect(mockGetRandomValues).toHaveBeenCalled()
+      await expect(csrfTokenService.getToken()).resolves.toBe('meta-token')
     })
   })
 
@@ -234,9 +291,10 @@ describe('csrfTokenService', () => {
       expect(sessionStorageMock.removeItem).toHaveBeenCalledWith('arcana_csrf_token')
     })
 
-    it('generates new token after clearing', async () => {
+    it('reads a fresh token after clearing', async () => {
       const token1 = await csrfTokenService.getToken()
       clearCsrfToken()
+      setCsrfCookie('rotated-token')
       const token2 = await csrfTokenService.getToken()
 
       expect(token1).not.toBe(token2)
@@ -244,8 +302,9 @@ describe('csrfTokenService', () => {
   })
 
   describe('Force Refresh', () => {
-    it('generates new token on force refresh', async () => {
+    it('re-reads the token on force refresh', async () => {
       const token1 = await csrfTokenService.getToken()
+      setCsrfCookie('rotated-token')
       const token2 = await csrfTokenService.forceRefresh()
 
       expect(token1).not.toBe(token2)
@@ -253,8 +312,12 @@ describe('csrfTokenService', () => {
   })
 
   describe('Concurrent Requests', () => {
-    it('handles concurrent token requests without duplicate generation', async () => {
-      clearCsrfToken()
+    it('handles concurrent token requests with a single fetch', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ token: 'endpoint-token' }), { status: 200 })
+      )
+      vi.stubGlobal('fetch', fetchMock)
+      csrfTokenService.configure({ source: 'endpoint' })
 
       // Make multiple concurrent requests
       const promises = [
@@ -268,17 +331,20 @@ describe('csrfTokenService', () => {
       // All should get the same token
       expect(tokens[0]).toBe(tokens[1])
       expect(tokens[1]).toBe(tokens[2])
+      expect(fetchMock).toHaveBeenCalledTimes(1)
     })
   })
 })
 
 describe('handleCsrfError', () => {
   beforeEach(() => {
-    clearCsrfToken()
+    csrfTokenService.configure({ source: 'cookie' })
+    setCsrfCookie('cookie-token')
   })
 
   it('returns true and refreshes token for CSRF_TOKEN_INVALID error', async () => {
     const token1 = await csrfTokenService.getToken()
+    setCsrfCookie('rotated-token')
     const shouldRetry = await handleCsrfError(403, 'CSRF_TOKEN_INVALID')
 
     expect(shouldRetry).toBe(true)
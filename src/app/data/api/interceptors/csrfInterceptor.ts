@@ -2,7 +2,9 @@
 // CSRF Interceptor
 // =============================================================================
 // Implements CSRF (Cross-Site Request Forgery) protection for API requests.
-// Uses double-submit cookie pattern with token refresh capability.
+// Uses double-submit cookie pattern with token refresh capability. The token
+// is issued by the server - fetched from an endpoint or read from a cookie or
+// meta tag - never generated in the browser.
 // =============================================================================
 
 import type { InternalAxiosRequestConfig } from 'axios'
@@ -14,6 +16,29 @@ import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
 const CSRF_TOKEN_KEY = 'arcana_csrf_token'
 const CSRF_HEADER_NAME = 'X-CSRF-Token'
 
+/**
+ * Where the server-issued CSRF token is read from
+ */
+export type CsrfTokenSource = 'endpoint' | 'cookie' | 'meta'
+
+/**
+ * CSRF token source configuration
+ */
+export interface CsrfTokenOptions {
+  source: CsrfTokenSource
+  /** Endpoint returning `{ token }` or an X-CSRF-Token header (relative to API base URL unless absolute) */
+  endpoint: string
+  cookieName: string
+  metaName: string
+}
+
+const DEFAULT_OPTIONS: CsrfTokenOptions = {
+  source: APP_CONSTANTS.CSRF.SOURCE as CsrfTokenSource,
+  endpoint: APP_CONSTANTS.CSRF.ENDPOINT,
+  cookieName: APP_CONSTANTS.CSRF.COOKIE_NAME,
+  metaName: APP_CONSTANTS.CSRF.META_NAME,
+}
+
 /**
  * CSRF Token service
  * Manages CSRF token lifecycle
@@ -22,6 +47,7 @@ class CsrfTokenService {
   private token: string | null = null
   private tokenExpiry: number | null = null
   private tokenRefreshPromise: Promise<string> | null = null
+  private options: CsrfTokenOptions = { ...DEFAULT_OPTIONS }
 
   /**
    * Token validity duration (30 minutes)
@@ -49,7 +75,7 @@ class CsrfTokenService {
         }
       }
     } catch {
-      // Ignore errors, will generate new token
+      // Ignore errors, will fetch new token
     }
   }
 
@@ -70,13 +96,12 @@ class CsrfTokenService {
   }
 
   /**
-   * Generate a new CSRF token
-   * Uses crypto API for secure random token generation
+   * Configure where the token comes from
+   * Drops the current token so the next request uses the new source
    */
-  private generateToken(): string {
-    const array = new Uint8Array(32)
-    crypto.getRandomValues(array)
-    return Array.from(array, (byte) => byte.toString(16).padStart(2, '0')).join('')
+  configure(options: Partial<CsrfTokenOptions>): void {
+    this.options = { ...this.options, ...options }
+    this.clearToken()
   }
 
   /**
@@ -88,7 +113,7 @@ class CsrfTokenService {
 
   /**
    * Get current CSRF token
-   * Generates new token if expired or not present
+   * Fetches a new token if expired or not present
    */
   async getToken(): Promise<string> {
     // Return existing valid token
@@ -96,12 +121,12 @@ class CsrfTokenService {
       return this.token!
     }
 
-    // Prevent concurrent token generation
+    // Prevent concurrent token refreshes
     if (this.tokenRefreshPromise) {
       return this.tokenRefreshPromise
     }
 
-    // Generate new token
+    // Fetch new token
     this.tokenRefreshPromise = this.refreshToken()
 
     try {
@@ -112,10 +137,15 @@ class CsrfTokenService {
   }
 
   /**
-   * Refresh CSRF token
+   * Refresh CSRF token from the configured source
    */
   private async refreshToken(): Promise<string> {
-    this.token = this.generateToken()
+    const token = await this.readToken()
+    if (!token) {
+      throw new Error(`No CSRF token available from ${this.options.source}`)
+    }
+
+    this.token = token
     this.tokenExpiry = Date.now() + this.TOKEN_TTL
 
     this.saveToken()
@@ -123,6 +153,45 @@ class CsrfTokenService {
     return this.token
   }
 
+  /**
+   * Read the server-issued token from the configured source
+   */
+  private async readToken(): Promise<string | null> {
+    switch (this.options.source) {
+      case 'endpoint':
+        return this.fetchToken()
+      case 'cookie':
+        return readCookie(this.options.cookieName)
+      case 'meta':
+        return (
+          document.querySelector<HTMLMetaElement>(`meta[name="${this.options.metaName}"]`)?.content || null
+        )
+    }
+  }
+
+  /**
+   * Fetch the token from the CSRF endpoint
+   * Uses fetch directly - going through ApiService would re-enter this interceptor
+   */
+  private async fetchToken(): Promise<string | null> {
+    const { endpoint } = this.options
+    const url = /^https?:\/\//.test(endpoint) ? endpoint : `${APP_CONSTANTS.API.BASE_URL}${endpoint}`
+
+    const response = await fetch(url, {
+      credentials: 'include',
+      headers: { Accept: 'application/json' },
+    })
+    if (!response.ok) {
+      throw new Error(`CSRF token request failed with status ${response.status}`)
+    }
+
+    const headerToken = response.headers.get(CSRF_HEADER_NAME)
+    if (headerToken) return headerToken
+
+    const body = (await response.json().catch(() => null)) as { token?: string } | null
+    return body?.token || null
+  }
+
   /**
    * Clear CSRF token (on logout)
    */
@@ -142,6 +211,15 @@ class CsrfTokenService {
   }
 }
 
+/**
+ * Read a cookie value by name
+ */
+function readCookie(name: string): string | null {
+  const prefix = `${name}=`
+  const cookie = document.cookie.split('; ').find((part) => part.startsWith(prefix))
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null
+}
+
 // Singleton instance
 export const csrfTokenService = new CsrfTokenService()
 
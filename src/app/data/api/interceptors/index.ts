@@ -1 +1,2 @@
 export { csrfInterceptor, csrfTokenService, clearCsrfToken, handleCsrfError } from './csrfInterceptor'
+export type { CsrfTokenSource, CsrfTokenOptions } from './csrfInterceptor'
@@ -0,0 +1,193 @@
+// =============================================================================
+// Rate Limiter Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { AppError } from '@/app/domain/entities/app-error.model'
+import { rateLimiter, parseRetryAfter } from './rateLimiter'
+
+// Request that resolves when the test says so
+function deferred<T = string>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((res) => {
+    resolve = res
+  })
+  return { promise, resolve }
+}
+
+describe('rateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    rateLimiter.reset()
+  })
+
+  afterEach(() => {
+    rateLimiter.reset()
+    vi.useRealTimers()
+  })
+
+  // ==========================================================================
+  // Token bucket
+  // ==========================================================================
+  describe('token bucket', () => {
+    it('allows a burst up to capacity, then waits for refill', async () => {
+      rateLimiter.configure({ route: '/users', capacity: 2, refillPerSecond: 1, maxConcurrent: 10 })
+      const send = vi.fn().mockResolvedValue('ok')
+
+      const requests = [1, 2, 3].map(() => rateLimiter.schedule({ url: '/users' }, send))
+      await Promise.resolve()
+
+      expect(send).toHaveBeenCalledTimes(2)
+
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(send).toHaveBeenCalledTimes(3)
+      await expect(Promise.all(requests)).resolves.toEqual(['ok', 'ok', 'ok'])
+    })
+
+    it('uses separate buckets per base URL', async () => {
+      rateLimiter.configure({ baseURL: 'https://a.test', capacity: 1, refillPerSecond: 1 })
+      const send = vi.fn().mockResolvedValue('ok')
+
+      void rateLimiter.schedule({ baseURL: 'https://a.test', url: '/x' }, send)
+      void rateLimiter.schedule({ baseURL: 'https://a.test', url: '/x' }, send)
+      void rateLimiter.schedule({ baseURL: 'https://b.test', url: '/x' }, send)
+      await Promise.resolve()
+
+      expect(send).toHaveBeenCalledTimes(2)
+      expect(rateLimiter.stats.queued).toBe(1)
+    })
+
+    it('matches route patterns with params and wildcards', async () => {
+      rateLimiter.configure({ route: '/users/:id', capacity: 1, refillPerSecond: 1 })
+      const send = vi.fn().mockResolvedValue('ok')
+
+      void rateLimiter.schedule({ url: '/users/1?include=roles' }, send)
+      void rateLimiter.schedule({ url: '/users/2' }, send)
+      void rateLimiter.schedule({ url: '/users' }, send)
+      await Promise.resolve()
+
+      // /users/:id allows one request; /users falls back to the default bucket
+      expect(send).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  // ==========================================================================
+  // Concurrency and priority
+  // ==========================================================================
+  describe('concurrency', () => {
+    it('caps the number of requests in flight', async () => {
+      rateLimiter.configure({ route: '*', maxConcurrent: 1 })
+      const first = deferred()
+      const send = vi.fn().mockReturnValueOnce(first.promise).mockResolvedValue('second')
+
+      const a = rateLimiter.schedule({ url: '/a' }, send)
+      const b = rateLimiter.schedule({ url: '/b' }, send)
+
+      expect(send).toHaveBeenCalledTimes(1)
+      expect(rateLimiter.stats).toMatchObject({ active: 1, queued: 1 })
+
+      first.resolve('first')
+      await expect(a).resolves.toBe('first')
+      await expect(b).resolves.toBe('second')
+      expect(send).toHaveBeenCalledTimes(2)
+    })
+
+    it('serves user requests before queued background requests', async () => {
+      rateLimiter.configure({ route: '*', maxConcurrent: 1 })
+      const blocker = deferred()
+      const order: string[] = []
+      const track = (name: string) => () => {
+        order.push(name)
+        return Promise.resolve(name)
+      }
+
+      const first = rateLimiter.schedule({ url: '/blocker' }, () => blocker.promise)
+      const sync = rateLimiter.schedule({ url: '/sync', priority: 'background' }, track('sync'))
+      const user = rateLimiter.schedule({ url: '/user', priority: 'user' }, track('user'))
+
+      blocker.resolve('done')
+      await Promise.all([first, sync, user])
+
+      expect(order).toEqual(['user', 'sync'])
+    })
+  })
+
+  // ==========================================================================
+  // 429 handling
+  // ==========================================================================
+  describe('429 handling', () => {
+    it('pauses the bucket for Retry-After and retries the request', async () => {
+      const send = vi
+        .fn()
+        .mockRejectedValueOnce(AppError.rateLimited('Too many requests', 3000))
+        .mockResolvedValue('ok')
+
+      const request = rateLimiter.schedule({ url: '/users' }, send)
+      await vi.advanceTimersByTimeAsync(2999)
+
+      expect(send).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(1)
+
+      await expect(request).resolves.toBe('ok')
+      expect(send).toHaveBeenCalledTimes(2)
+      expect(rateLimiter.stats.throttled).toBe(1)
+    })
+
+    it('holds other requests on the paused bucket', async () => {
+      const send = vi.fn().mockRejectedValueOnce(AppError.rateLimited('Too many requests', 1000)).mockResolvedValue('ok')
+      const other = vi.fn().mockResolvedValue('other')
+
+      void rateLimiter.schedule({ url: '/a' }, send)
+      await vi.advanceTimersByTimeAsync(0)
+      void rateLimiter.schedule({ url: '/b' }, other)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(other).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(other).toHaveBeenCalled()
+    })
+
+    it('surfaces the error after the maximum attempts', async () => {
+      const send = vi.fn().mockRejectedValue(AppError.rateLimited('Too many requests', 0))
+
+      const request = rateLimiter.schedule({ url: '/users' }, send)
+      const assertion = expect(request).rejects.toThrow('Too many requests')
+      await vi.runAllTimersAsync()
+
+      await assertion
+      expect(send).toHaveBeenCalledTimes(3)
+    })
+
+    it('does not retry other errors', async () => {
+      const send = vi.fn().mockRejectedValue(AppError.server())
+
+      await expect(rateLimiter.schedule({ url: '/users' }, send)).rejects.toThrow('Internal server error')
+      expect(send).toHaveBeenCalledTimes(1)
+    })
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('parses delta seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000)
+  })
+
+  it('parses an HTTP date', () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT')).toBe(10000)
+
+    vi.useRealTimers()
+  })
+
+  it('returns null for missing or invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeNull()
+    expect(parseRetryAfter('soon')).toBeNull()
+  })
+})
@@ -0,0 +1,346 @@
+// =============================================================================
+// Rate Limiter
+// =============================================================================
+// Client-side throttling for ApiService. Every request goes through a token
+// bucket and a max-concurrency queue, chosen by route pattern or base URL.
+// User-initiated requests are served before background sync, and a 429 with
+// Retry-After pauses the bucket and retries instead of failing the request.
+// =============================================================================
+
+import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+import { computeBackoffDelay } from '@/app/core/utils/backoff'
+import { AppError } from '@/app/domain/entities/app-error.model'
+
+/**
+ * Request priority - user actions go before background sync
+ */
+export type RequestPriority = 'user' | 'background'
+
+/**
+ * Limits for a bucket
+ */
+export interface RateLimitOptions {
+  /** Burst size (max tokens) */
+  capacity: number
+  /** Tokens added per second */
+  refillPerSecond: number
+  /** Max requests in flight */
+  maxConcurrent: number
+}
+
+/**
+ * Limits for requests matching a base URL and/or route pattern
+ * Route strings support `:param` and `*` wildcards (e.g. `/users/:id`)
+ */
+export interface RateLimitRule extends Partial<RateLimitOptions> {
+  baseURL?: string
+  route?: string | RegExp
+}
+
+/**
+ * Request to schedule
+ */
+export interface RateLimitTarget {
+  baseURL?: string
+  url: string
+  priority?: RequestPriority
+}
+
+/**
+ * Rate limiter statistics
+ */
+export interface RateLimitStats {
+  queued: number
+  active: number
+  /** 429 responses absorbed by pausing and retrying */
+  throttled: number
+}
+
+const DEFAULT_OPTIONS: RateLimitOptions = {
+  capacity: APP_CONSTANTS.API.RATE_LIMIT.CAPACITY,
+  refillPerSecond: APP_CONSTANTS.API.RATE_LIMIT.REFILL_PER_SECOND,
+  maxConcurrent: APP_CONSTANTS.API.RATE_LIMIT.MAX_CONCURRENT,
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  user: 0,
+  background: 1,
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Convert a route pattern to a RegExp matched against the request path
+ */
+function toRouteRegExp(route: string | RegExp): RegExp {
+  if (route instanceof RegExp) return route
+
+  const pattern = route
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/:\w+/g, '[^/]+'))
+    .join('.*')
+  return new RegExp(`^${pattern}$`)
+}
+
+// =============================================================================
+// Bucket
+// =============================================================================
+
+interface QueuedRequest {
+  priority: RequestPriority
+  seq: number
+  start: () => void
+}
+
+/**
+ * Token bucket with a priority queue and a concurrency cap
+ */
+class Bucket {
+  private tokens: number
+  private lastRefill = Date.now()
+  private pausedUntil = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private readonly queue: QueuedRequest[] = []
+  private readonly options: RateLimitOptions
+  active = 0
+
+  constructor(options: RateLimitOptions) {
+    this.options = options
+    this.tokens = options.capacity
+  }
+
+  get queued(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Queue a request, keeping user requests ahead of background ones
+   */
+  enqueue(entry: QueuedRequest): void {
+    const rank = PRIORITY_RANK[entry.priority]
+    const index = this.queue.findIndex(
+      (queued) =>
+        PRIORITY_RANK[queued.priority] > rank ||
+        (PRIORITY_RANK[queued.priority] === rank && queued.seq > entry.seq)
+    )
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, entry)
+    this.pump()
+  }
+
+  /**
+   * A request finished - free its slot
+   */
+  release(): void {
+    this.active--
+    this.pump()
+  }
+
+  /**
+   * Stop sending until the server allows it again
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+  }
+
+  /**
+   * Start queued requests while tokens and slots are available
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+
+    while (this.queue.length > 0 && this.active < this.options.maxConcurrent) {
+      const wait = this.waitTime()
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null
+          this.pump()
+        }, wait)
+        return
+      }
+
+      this.tokens--
+      this.active++
+      this.queue.shift()!.start()
+    }
+  }
+
+  /**
+   * Time (ms) until the next request may start
+   */
+  private waitTime(): number {
+    const now = Date.now()
+    if (this.pausedUntil > now) {
+      return this.pausedUntil - now
+    }
+
+    const elapsed = (now - this.lastRefill) / 1000
+    this.tokens = Math.min(this.options.capacity, this.tokens + elapsed * this.options.refillPerSecond)
+    this.lastRefill = now
+
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.options.refillPerSecond) * 1000)
+  }
+
+  /**
+   * Cancel the pending pump timer
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+// =============================================================================
+// Rate Limiter
+// =============================================================================
+
+interface RuleEntry {
+  rule: RateLimitRule
+  route: RegExp | null
+  bucket: Bucket
+}
+
+/**
+ * Rate Limiter
+ * Schedules requests through the bucket that matches them
+ */
+class RateLimiter {
+  private rules: RuleEntry[] = []
+  private readonly baseBuckets = new Map<string, Bucket>()
+  private seq = 0
+  private throttled = 0
+
+  /**
+   * Configure limits for a base URL and/or route pattern
+   * Route rules win over base URL rules; later rules do not override earlier ones
+   */
+  configure(rule: RateLimitRule): void {
+    const entry: RuleEntry = {
+      rule,
+      route: rule.route ? toRouteRegExp(rule.route) : null,
+      bucket: new Bucket({ ...DEFAULT_OPTIONS, ...rule }),
+    }
+
+    // Keep route rules ahead of base-URL-only rules
+    this.rules = entry.route
+      ? [...this.rules.filter((r) => r.route), entry, ...this.rules.filter((r) => !r.route)]
+      : [...this.rules, entry]
+  }
+
+  /**
+   * Run a request when its bucket allows it
+   * 429 responses pause the bucket and re-queue the request
+   */
+  schedule<T>(target: RateLimitTarget, send: () => Promise<T>): Promise<T> {
+    const bucket = this.bucketFor(target)
+    const priority = target.priority ?? 'user'
+    const seq = this.seq++
+
+    return new Promise<T>((resolve, reject) => {
+      const attempt = (count: number) => {
+        bucket.enqueue({
+          priority,
+          seq,
+          start: () => {
+            // Separate handlers so a failure in one path cannot release the slot twice
+            send().then(
+              (result) => {
+                resolve(result)
+                bucket.release()
+              },
+              (error: unknown) => {
+                const delay = this.retryDelay(error, count)
+                if (delay === null) {
+                  reject(error as Error)
+                  bucket.release()
+                  return
+                }
+
+                this.throttled++
+                bucket.pause(delay)
+                bucket.release()
+                attempt(count + 1)
+              }
+            )
+          },
+        })
+      }
+
+      attempt(1)
+    })
+  }
+
+  /**
+   * Delay before retrying a rate-limited request, null to surface the error
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (!(error instanceof AppError) || error.code !== 'ERR_RATE_LIMITED') return null
+    if (attempt >= APP_CONSTANTS.RETRY.MAX_ATTEMPTS) return null
+
+    const retryAfter = error.details?.retryAfter
+    return typeof retryAfter === 'number' ? retryAfter : computeBackoffDelay(attempt)
+  }
+
+  /**
+   * Find the bucket for a request: route rule, base URL rule, then per-base-URL default
+   */
+  private bucketFor({ baseURL = '', url }: RateLimitTarget): Bucket {
+    const path = url.split('?')[0]
+
+    const match = this.rules.find(
+      ({ rule, route }) =>
+        (!rule.baseURL || rule.baseURL === baseURL) && (!route || route.test(path))
+    )
+    if (match) return match.bucket
+
+    let bucket = this.baseBuckets.get(baseURL)
+    if (!bucket) {
+      bucket = new Bucket(DEFAULT_OPTIONS)
+      this.baseBuckets.set(baseURL, bucket)
+    }
+    return bucket
+  }
+
+  /**
+   * Get limiter statistics
+   */
+  get stats(): RateLimitStats {
+    const buckets = [...this.rules.map((r) => r.bucket), ...this.baseBuckets.values()]
+    return {
+      queued: buckets.reduce((sum, bucket) => sum + bucket.queued, 0),
+      active: buckets.reduce((sum, bucket) => sum + bucket.active, 0),
+      throttled: this.throttled,
+    }
+  }
+
+  /**
+   * Remove all rules and reset buckets
+   */
+  reset(): void {
+    this.rules.forEach((r) => r.bucket.dispose())
+    this.baseBuckets.forEach((bucket) => bucket.dispose())
+    this.rules = []
+    this.baseBuckets.clear()
+    this.throttled = 0
+  }
+}
+
+// Export singleton instance
+export const rateLimiter = new RateLimiter()
@@ -4,14 +4,36 @@
 
 // API
 export { apiService } from './api/apiService'
-export type { ApiResponse, ApiErrorEvent } from './api/apiService'
+export type {
+  ApiResponse,
+  ApiErrorEvent,
+  ApiRetryInfo,
+  ApiRequestConfig,
+  DedupeStats,
+  TokenRefresher,
+} from './api/apiService'
+export { rateLimiter, parseRetryAfter } from './api/rateLimiter'
+export type { RequestPriority, RateLimitOptions, RateLimitRule, RateLimitStats } from './api/rateLimiter'
 
 // Mappers
 export { userMapper } from './mappers/userMapper'
 export type { UserApiDto, PaginatedApiResponse } from './mappers/userMapper'
+export { authMapper } from './mappers/authMapper'
+export type { AuthApiResponse, AuthUserApiDto } from './mappers/authMapper'
 
 // Repositories
-export { userRepository } from './repositories/userRepository'
+export { Repository } from './repositories/repository'
+export type {
+  EntityApiDto,
+  EntityCacheKeys,
+  EntityConfig,
+  EntityMapper,
+  EntityOf,
+  EntityTtl,
+  EntityValidator,
+  SortFieldOf,
+} from './repositories/repository'
+export { userRepository, USER_ENTITY_CONFIG } from './repositories/userRepository'
 
 // Storage
 export { memoryCacheService, MemoryCacheService } from './storage/memoryCacheService'
@@ -21,4 +43,7 @@ export type { CachedItem, PendingOperation, SyncMetadata } from './storage/index
 
 // Sync
 export { offlineSyncService, SyncStatus } from './sync/offlineSyncService'
-export type { SyncEvent, SyncStats } from './sync/offlineSyncService'
+export type { SyncEvent, SyncStats, SyncHandler } from './sync/offlineSyncService'
+export { idMappingService } from './sync/idMappingService'
+export { conflictResolver } from './sync/conflictResolver'
+export type { ConflictResolverFn } from './sync/conflictResolver'
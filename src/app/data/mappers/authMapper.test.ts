@@ -0,0 +1,71 @@
+// =============================================================================
+// Auth Mapper Tests
+// =============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { authMapper, type AuthUserApiDto } from './authMapper'
+import type { AuthSession } from '@/app/domain/entities/auth.model'
+
+const userDto: AuthUserApiDto = {
+  id: 7,
+  email: 'jane@example.com',
+  first_name: 'Jane',
+  last_name: 'Roe',
+  avatar: 'https://example.com/jane.png',
+  role: 'admin',
+}
+
+// exp: 1700000000
+const JWT = 'eyJhbGciOiJIUzI1NiJ9.eyJleHAiOjE3MDAwMDAwMDB9.signature'
+
+describe('authMapper', () => {
+  describe('toUser', () => {
+    it('converts API DTO to domain model', () => {
+      expect(authMapper.toUser(userDto)).toEqual({
+        id: '7',
+        email: 'jane@example.com',
+        firstName: 'Jane',
+        lastName: 'Roe',
+        avatar: 'https://example.com/jane.png',
+        role: 'Admin',
+        status: 'online',
+      })
+    })
+
+    it('defaults unknown or missing roles to User', () => {
+      expect(authMapper.toUser({ ...userDto, role: 'superuser' }).role).toBe('User')
+      expect(authMapper.toUser({ ...userDto, role: undefined }).role).toBe('User')
+    })
+  })
+
+  describe('toSession', () => {
+    it('maps tokens and reads the expiry from the JWT', () => {
+      const session = authMapper.toSession({ access_token: JWT, refresh_token: 'refresh-1', user: userDto })
+
+      expect(session.tokens).toEqual({
+        accessToken: JWT,
+        refreshToken: 'refresh-1',
+        expiresAt: 1700000000000,
+      })
+      expect(session.user.email).toBe('jane@example.com')
+    })
+
+    it('keeps the previous user and refresh token when the response omits them', () => {
+      const previous: AuthSession = {
+        user: authMapper.toUser(userDto),
+        tokens: { accessToken: 'old', refreshToken: 'refresh-1', expiresAt: null },
+      }
+
+      const session = authMapper.toSession({ access_token: 'opaque' }, previous)
+
+      expect(session).toEqual({
+        user: previous.user,
+        tokens: { accessToken: 'opaque', refreshToken: 'refresh-1', expiresAt: null },
+      })
+    })
+
+    it('throws when there is no user to attach', () => {
+      expect(() => authMapper.toSession({ access_token: JWT })).toThrow('Auth response did not include a user')
+    })
+  })
+})
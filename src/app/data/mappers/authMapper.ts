@@ -0,0 +1,73 @@
+// =============================================================================
+// Auth Mapper - DTO <-> Domain Model Conversion
+// =============================================================================
+
+import type { AuthSession, AuthUser, UserRole } from '@/app/domain/entities/auth.model'
+import { getJwtExpiry } from '@/app/core/utils/jwt'
+
+/**
+ * Signed-in user DTO from the auth API
+ */
+export interface AuthUserApiDto {
+  id: number | string
+  email: string
+  first_name: string
+  last_name: string
+  avatar?: string
+  role?: string
+}
+
+/**
+ * Login / refresh response from the auth API
+ * Refresh responses may omit the user and the refresh token
+ */
+export interface AuthApiResponse {
+  access_token: string
+  refresh_token?: string
+  user?: AuthUserApiDto
+}
+
+const ROLES: readonly UserRole[] = ['Admin', 'User', 'Guest']
+
+/**
+ * Auth Mapper
+ * Converts auth API responses to sessions
+ */
+export const authMapper = {
+  /**
+   * Map API user DTO to Domain Model
+   * Unknown roles fall back to 'User'
+   */
+  toUser(dto: AuthUserApiDto): AuthUser {
+    const role = ROLES.find((r) => r.toLowerCase() === dto.role?.toLowerCase()) ?? 'User'
+    return {
+      id: String(dto.id),
+      email: dto.email,
+      firstName: dto.first_name,
+      lastName: dto.last_name,
+      avatar: dto.avatar,
+      role,
+      status: 'online',
+    }
+  },
+
+  /**
+   * Map a login or refresh response to a session
+   * Values missing from a refresh response are kept from the previous session
+   */
+  toSession(response: AuthApiResponse, previous?: AuthSession | null): AuthSession {
+    const user = response.user ? this.toUser(response.user) : previous?.user
+    if (!user) {
+      throw new Error('Auth response did not include a user')
+    }
+
+    return {
+      user,
+      tokens: {
+        accessToken: response.access_token,
+        refreshToken: response.refresh_token ?? previous?.tokens.refreshToken ?? null,
+        expiresAt: getJwtExpiry(response.access_token),
+      },
+    }
+  },
+}
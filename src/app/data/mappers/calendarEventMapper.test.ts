@@ -0,0 +1,102 @@
+// =============================================================================
+// Calendar Event Mapper Tests
+// =============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { calendarEventMapper, type CalendarEventApiDto } from './calendarEventMapper'
+import type { CalendarEvent } from '@/app/domain/entities/calendar-event.model'
+
+const EVENT: CalendarEvent = {
+  id: '4',
+  title: 'Sprint review',
+  description: 'Demo the calendar',
+  location: 'Room 4',
+  start: new Date('2024-02-01T14:00:00Z'),
+  end: new Date('2024-02-01T15:00:00Z'),
+  allDay: false,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-02T00:00:00Z'),
+}
+
+describe('calendarEventMapper', () => {
+  describe('toDomain', () => {
+    it('converts API DTO to domain model', () => {
+      const dto: CalendarEventApiDto = {
+        id: 4,
+        title: 'Sprint review',
+        description: 'Demo the calendar',
+        location: 'Room 4',
+        starts_at: '2024-02-01T14:00:00Z',
+        ends_at: '2024-02-01T15:00:00Z',
+        all_day: false,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-02T00:00:00Z',
+      }
+
+      expect(calendarEventMapper.toDomain(dto)).toEqual(EVENT)
+    })
+
+    it('fills in defaults and ends an event without an end at its start', () => {
+      const result = calendarEventMapper.toDomain({ id: 5, title: 'Deploy', starts_at: '2024-02-02T09:00:00Z' })
+
+      expect(result).toMatchObject({ description: '', location: '', allDay: false })
+      expect(result.end).toEqual(result.start)
+      expect(result.createdAt).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('toCreateApiDto', () => {
+    it('converts to snake_case with defaults', () => {
+      expect(calendarEventMapper.toCreateApiDto({ title: 'Deploy', start: EVENT.start, end: EVENT.end })).toEqual({
+        title: 'Deploy',
+        description: '',
+        location: '',
+        starts_at: '2024-02-01T14:00:00.000Z',
+        ends_at: '2024-02-01T15:00:00.000Z',
+        all_day: false,
+      })
+    })
+  })
+
+  describe('toUpdateApiDto', () => {
+    it('includes only provided fields', () => {
+      expect(calendarEventMapper.toUpdateApiDto({ start: EVENT.start, allDay: true })).toEqual({
+        starts_at: '2024-02-01T14:00:00.000Z',
+        all_day: true,
+      })
+    })
+  })
+
+  describe('createOffline', () => {
+    it('creates an event with an offline ID', () => {
+      const result = calendarEventMapper.createOffline({ title: 'Deploy', start: EVENT.start, end: EVENT.end })
+
+      expect(result.id).toMatch(/^offline_/)
+      expect(result).toMatchObject({ title: 'Deploy', start: EVENT.start, end: EVENT.end, allDay: false })
+    })
+  })
+
+  describe('applyUpdate', () => {
+    it('updates only specified fields and bumps updatedAt', () => {
+      const start = new Date('2024-02-03T14:00:00Z')
+      const end = new Date('2024-02-03T15:00:00Z')
+      const result = calendarEventMapper.applyUpdate(EVENT, { start, end })
+
+      expect(result).toMatchObject({ title: 'Sprint review', start, end })
+      expect(result.updatedAt.getTime()).toBeGreaterThan(EVENT.updatedAt.getTime())
+    })
+  })
+
+  describe('toUpdateDto', () => {
+    it('snapshots the editable fields', () => {
+      expect(calendarEventMapper.toUpdateDto(EVENT)).toEqual({
+        title: 'Sprint review',
+        description: 'Demo the calendar',
+        location: 'Room 4',
+        start: EVENT.start,
+        end: EVENT.end,
+        allDay: false,
+      })
+    })
+  })
+})
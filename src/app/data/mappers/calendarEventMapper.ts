@@ -0,0 +1,129 @@
+// =============================================================================
+// Calendar Event Mapper - DTO <-> Domain Model Conversion
+// =============================================================================
+
+import type {
+  CalendarEvent,
+  CreateCalendarEventDto,
+  UpdateCalendarEventDto,
+} from '@/app/domain/entities/calendar-event.model'
+import { OFFLINE_ID_PREFIX } from '@/app/domain/entities/id-mapping.model'
+
+/**
+ * Calendar event DTO from API (snake_case from backend)
+ */
+export interface CalendarEventApiDto {
+  id: number | string
+  title: string
+  description?: string | null
+  location?: string | null
+  starts_at: string
+  ends_at?: string | null
+  all_day?: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+/**
+ * Calendar Event Mapper
+ * Converts between API DTOs and domain models
+ */
+export const calendarEventMapper = {
+  /**
+   * Map API DTO to Domain Model
+   * An event without an end ends when it starts
+   */
+  toDomain(dto: CalendarEventApiDto): CalendarEvent {
+    const now = new Date()
+    const start = new Date(dto.starts_at)
+    return {
+      id: String(dto.id),
+      title: dto.title,
+      description: dto.description ?? '',
+      location: dto.location ?? '',
+      start,
+      end: dto.ends_at ? new Date(dto.ends_at) : start,
+      allDay: dto.all_day ?? false,
+      createdAt: dto.created_at ? new Date(dto.created_at) : now,
+      updatedAt: dto.updated_at ? new Date(dto.updated_at) : now,
+    }
+  },
+
+  /**
+   * Map CreateCalendarEventDto to API format
+   */
+  toCreateApiDto(dto: CreateCalendarEventDto): Record<string, unknown> {
+    return {
+      title: dto.title,
+      description: dto.description ?? '',
+      location: dto.location ?? '',
+      starts_at: dto.start.toISOString(),
+      ends_at: dto.end.toISOString(),
+      all_day: dto.allDay ?? false,
+    }
+  },
+
+  /**
+   * Map UpdateCalendarEventDto to API format
+   */
+  toUpdateApiDto(dto: UpdateCalendarEventDto): Record<string, unknown> {
+    const apiDto: Record<string, unknown> = {}
+
+    if (dto.title !== undefined) apiDto.title = dto.title
+    if (dto.description !== undefined) apiDto.description = dto.description
+    if (dto.location !== undefined) apiDto.location = dto.location
+    if (dto.start !== undefined) apiDto.starts_at = dto.start.toISOString()
+    if (dto.end !== undefined) apiDto.ends_at = dto.end.toISOString()
+    if (dto.allDay !== undefined) apiDto.all_day = dto.allDay
+
+    return apiDto
+  },
+
+  /**
+   * Create an event for offline creation
+   */
+  createOffline(dto: CreateCalendarEventDto): CalendarEvent {
+    const now = new Date()
+    return {
+      id: `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`,
+      title: dto.title,
+      description: dto.description ?? '',
+      location: dto.location ?? '',
+      start: dto.start,
+      end: dto.end,
+      allDay: dto.allDay ?? false,
+      createdAt: now,
+      updatedAt: now,
+    }
+  },
+
+  /**
+   * Apply update to existing event
+   */
+  applyUpdate(event: CalendarEvent, dto: UpdateCalendarEventDto): CalendarEvent {
+    return {
+      ...event,
+      title: dto.title ?? event.title,
+      description: dto.description ?? event.description,
+      location: dto.location ?? event.location,
+      start: dto.start ?? event.start,
+      end: dto.end ?? event.end,
+      allDay: dto.allDay ?? event.allDay,
+      updatedAt: new Date(),
+    }
+  },
+
+  /**
+   * Snapshot the editable fields of an event
+   */
+  toUpdateDto(event: CalendarEvent): UpdateCalendarEventDto {
+    return {
+      title: event.title,
+      description: event.description,
+      location: event.location,
+      start: event.start,
+      end: event.end,
+      allDay: event.allDay,
+    }
+  },
+}
@@ -0,0 +1,168 @@
+// =============================================================================
+// iCalendar Mapper Tests
+// =============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { icalendarMapper } from './icalendarMapper'
+import type { CalendarEvent } from '@/app/domain/entities/calendar-event.model'
+
+function ics(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n')
+}
+
+const EVENT: CalendarEvent = {
+  id: '4',
+  title: 'Review, then ship; maybe',
+  description: 'Line one\nLine two',
+  location: '',
+  start: new Date('2024-02-01T14:00:00Z'),
+  end: new Date('2024-02-01T15:30:00Z'),
+  allDay: false,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-02T00:00:00Z'),
+}
+
+describe('icalendarMapper', () => {
+  describe('parse', () => {
+    it('reads UTC date-times and unescapes text', () => {
+      const result = icalendarMapper.parse(
+        ics([
+          'SUMMARY:Review\\, then ship\\; maybe',
+          'DESCRIPTION:Line one\\nLine two',
+          'LOCATION:Room 4',
+          'DTSTART:20240201T140000Z',
+          'DTEND:20240201T153000Z',
+        ])
+      )
+
+      expect(result.skipped).toBe(0)
+      expect(result.events).toEqual([
+        {
+          title: 'Review, then ship; maybe',
+          description: 'Line one\nLine two',
+          location: 'Room 4',
+          start: new Date('2024-02-01T14:00:00Z'),
+          end: new Date('2024-02-01T15:30:00Z'),
+          allDay: false,
+        },
+      ])
+    })
+
+    it('reads all-day dates and floating or zoned times as local', () => {
+      const result = icalendarMapper.parse(
+        ics(
+          ['SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20240205', 'DTEND;VALUE=DATE:20240207'],
+          ['SUMMARY:Standup', 'DTSTART;TZID="Europe/Berlin":20240205T091500', 'DURATION:PT15M']
+        )
+      )
+
+      expect(result.events[0]).toMatchObject({
+        start: new Date(2024, 1, 5),
+        end: new Date(2024, 1, 7),
+        allDay: true,
+      })
+      expect(result.events[1]).toMatchObject({
+        start: new Date(2024, 1, 5, 9, 15),
+        end: new Date(2024, 1, 5, 9, 30),
+        allDay: false,
+      })
+    })
+
+    it('defaults the end to one day for dates and the start for date-times', () => {
+      const result = icalendarMapper.parse(
+        ics(['SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20241225'], ['SUMMARY:Deploy', 'DTSTART:20240201T090000Z'])
+      )
+
+      expect(result.events[0].end).toEqual(new Date(2024, 11, 26))
+      expect(result.events[1].end).toEqual(new Date('2024-02-01T09:00:00Z'))
+    })
+
+    it('unfolds continuation lines and ignores nested alarms', () => {
+      const result = icalendarMapper.parse(
+        ics([
+          'SUMMARY:A very long',
+          '  title',
+          'DTSTART:20240201T090000Z',
+          'BEGIN:VALARM',
+          'DESCRIPTION:Reminder',
+          'END:VALARM',
+        ])
+      )
+
+      expect(result.events[0]).toMatchObject({ title: 'A very long title', description: '' })
+    })
+
+    it('skips events without a title or a readable start', () => {
+      const result = icalendarMapper.parse(
+        ics(
+          ['DTSTART:20240201T090000Z'],
+          ['SUMMARY:Someday', 'DTSTART:soon'],
+          ['SUMMARY:Kept', 'DTSTART:20240201T090000Z']
+        )
+      )
+
+      expect(result.events.map((event) => event.title)).toEqual(['Kept'])
+      expect(result.skipped).toBe(2)
+    })
+  })
+
+  describe('serialize', () => {
+    it('writes timed events in UTC with escaped text', () => {
+      const text = icalendarMapper.serialize([EVENT], new Date('2024-03-01T08:00:00Z'))
+
+      expect(text.split('\r\n')).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Arcana//Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'BEGIN:VEVENT',
+        'UID:4@arcana',
+        'DTSTAMP:20240301T080000Z',
+        'DTSTART:20240201T140000Z',
+        'DTEND:20240201T153000Z',
+        'SUMMARY:Review\\, then ship\\; maybe',
+        'DESCRIPTION:Line one\\nLine two',
+        'LAST-MODIFIED:20240102T000000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        '',
+      ])
+    })
+
+    it('writes all-day events as local dates', () => {
+      const text = icalendarMapper.serialize([
+        { ...EVENT, allDay: true, start: new Date(2024, 1, 5), end: new Date(2024, 1, 7) },
+      ])
+
+      expect(text).toContain('DTSTART;VALUE=DATE:20240205\r\n')
+      expect(text).toContain('DTEND;VALUE=DATE:20240207\r\n')
+    })
+
+    it('folds long lines without splitting characters', () => {
+      const title = '日程'.repeat(40)
+      const text = icalendarMapper.serialize([{ ...EVENT, title }])
+      const lines = text.split('\r\n')
+
+      expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true)
+      expect(icalendarMapper.parse(text).events[0].title).toBe(title)
+    })
+
+    it('round-trips through parse', () => {
+      const [event] = icalendarMapper.parse(icalendarMapper.serialize([EVENT])).events
+
+      expect(event).toEqual({
+        title: EVENT.title,
+        description: EVENT.description,
+        location: '',
+        start: EVENT.start,
+        end: EVENT.end,
+        allDay: false,
+      })
+    })
+  })
+})
@@ -0,0 +1,274 @@
+// =============================================================================
+// iCalendar Mapper - .ics (RFC 5545) <-> Domain Model Conversion
+// =============================================================================
+// Covers the VEVENT subset calendars exchange in practice: SUMMARY,
+// DESCRIPTION, LOCATION, DTSTART, DTEND and DURATION. Times with a TZID are
+// read as local time; recurrence rules and alarms are ignored.
+// =============================================================================
+
+import type { CalendarEvent, CreateCalendarEventDto } from '@/app/domain/entities/calendar-event.model'
+
+const PRODUCT_ID = '-//Arcana//Calendar//EN'
+const UID_DOMAIN = 'arcana'
+/** Content lines are folded at 75 octets */
+const MAX_LINE_OCTETS = 75
+
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+interface ParsedDate {
+  date: Date
+  allDay: boolean
+}
+
+/**
+ * Events read from an .ics file, and the VEVENTs that could not be used
+ */
+export interface ICalendarParseResult {
+  events: CreateCalendarEventDto[]
+  skipped: number
+}
+
+/**
+ * Split a content line into name, parameters and value.
+ * Parameter values may be quoted and contain ':' or ';'.
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let quoted = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const eq = param.indexOf('=')
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '')
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function parseDate(line: ContentLine): ParsedDate | null {
+  const value = line.value.trim()
+
+  const date = DATE_PATTERN.exec(value)
+  if (date) {
+    const [, year, month, day] = date.map(Number)
+    return { date: new Date(year, month - 1, day), allDay: true }
+  }
+
+  const dateTime = DATE_TIME_PATTERN.exec(value)
+  if (dateTime && line.params.VALUE !== 'DATE') {
+    const [year, month, day, hours, minutes, seconds] = dateTime.slice(1, 7).map(Number)
+    const parsed =
+      dateTime[7] === 'Z'
+        ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+        : new Date(year, month - 1, day, hours, minutes, seconds)
+    return { date: parsed, allDay: false }
+  }
+
+  return null
+}
+
+/**
+ * Length of a DURATION value in milliseconds (days and weeks as wall-clock days)
+ */
+function parseDuration(value: string): number | null {
+  const match = DURATION_PATTERN.exec(value.trim())
+  if (!match) return null
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const totalDays = Number(weeks ?? 0) * 7 + Number(days ?? 0)
+  const ms =
+    totalDays * 24 * HOUR_MS +
+    Number(hours ?? 0) * HOUR_MS +
+    Number(minutes ?? 0) * MINUTE_MS +
+    Number(seconds ?? 0) * 1000
+  return sign === '-' ? -ms : ms
+}
+
+function addDuration(start: Date, ms: number, allDay: boolean): Date {
+  if (!allDay || ms % (24 * HOUR_MS) !== 0) {
+    return new Date(start.getTime() + ms)
+  }
+  // Whole days stay on local midnight across daylight-saving changes
+  const end = new Date(start)
+  end.setDate(end.getDate() + ms / (24 * HOUR_MS))
+  return end
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function toEvent(lines: ContentLine[]): CreateCalendarEventDto | null {
+  const find = (name: string) => lines.find((line) => line.name === name)
+
+  const title = unescapeText(find('SUMMARY')?.value ?? '').trim()
+  const dtStart = find('DTSTART')
+  const start = dtStart && parseDate(dtStart)
+  if (!title || !start) return null
+
+  let end: Date
+  const dtEnd = find('DTEND')
+  const duration = find('DURATION')
+  if (dtEnd) {
+    const parsed = parseDate(dtEnd)
+    if (!parsed) return null
+    end = parsed.date
+  } else if (duration) {
+    const ms = parseDuration(duration.value)
+    if (ms === null) return null
+    end = addDuration(start.date, ms, start.allDay)
+  } else {
+    // RFC 5545 3.6.1: a date lasts one day, a date-time ends when it starts
+    end = addDuration(start.date, start.allDay ? 24 * HOUR_MS : 0, start.allDay)
+  }
+  if (end.getTime() < start.date.getTime()) return null
+
+  const description = find('DESCRIPTION')
+  const location = find('LOCATION')
+  return {
+    title,
+    description: description ? unescapeText(description.value) : '',
+    location: location ? unescapeText(location.value) : '',
+    start: start.date,
+    end,
+    allDay: start.allDay,
+  }
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+function formatDate(date: Date): string {
+  return `${pad(date.getFullYear(), 4)}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+}
+
+function formatUtc(date: Date): string {
+  return (
+    `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  )
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continuation lines
+ * starting with a space. Never splits a character.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let chunk = ''
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      chunks.push(chunk)
+      chunk = ''
+      octets = 0
+    }
+    chunk += char
+    octets += size
+  }
+  chunks.push(chunk)
+  return chunks.join('\r\n ')
+}
+
+/**
+ * iCalendar Mapper
+ * Converts between .ics text and calendar events
+ */
+export const icalendarMapper = {
+  /**
+   * Read the VEVENTs of an .ics file.
+   * Events without a title or with unreadable dates are counted as skipped.
+   */
+  parse(text: string): ICalendarParseResult {
+    const lines = text
+      .replace(/\r?\n[ \t]/g, '')
+      .split(/\r?\n/)
+      .map(parseContentLine)
+      .filter((line): line is ContentLine => line !== null)
+
+    const events: CreateCalendarEventDto[] = []
+    let skipped = 0
+    let current: ContentLine[] | null = null
+    // Depth of components nested inside the current VEVENT (VALARM)
+    let nested = 0
+
+    for (const line of lines) {
+      const value = line.value.trim().toUpperCase()
+      if (line.name === 'BEGIN' && value === 'VEVENT') {
+        current = []
+        nested = 0
+      } else if (line.name === 'END' && value === 'VEVENT' && current) {
+        const event = toEvent(current)
+        if (event) events.push(event)
+        else skipped++
+        current = null
+      } else if (current && line.name === 'BEGIN') {
+        nested++
+      } else if (current && line.name === 'END') {
+        nested--
+      } else if (current && nested === 0) {
+        current.push(line)
+      }
+    }
+
+    return { events, skipped }
+  },
+
+  /**
+   * Write events as an .ics file. All-day events use local dates, timed
+   * events UTC date-times.
+   */
+  serialize(events: CalendarEvent[], now = new Date()): string {
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN']
+
+    for (const event of events) {
+      lines.push('BEGIN:VEVENT', `UID:${event.id}@${UID_DOMAIN}`, `DTSTAMP:${formatUtc(now)}`)
+      if (event.allDay) {
+        lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(event.end)}`)
+      } else {
+        lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`)
+      }
+      lines.push(`SUMMARY:${escapeText(event.title)}`)
+      if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+      if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+      lines.push(`LAST-MODIFIED:${formatUtc(event.updatedAt)}`, 'END:VEVENT')
+    }
+
+    lines.push('END:VCALENDAR')
+    return lines.map(foldLine).join('\r\n') + '\r\n'
+  },
+}
@@ -0,0 +1,111 @@
+// =============================================================================
+// Message Mapper Tests
+// =============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { messageMapper, type MessageApiDto } from './messageMapper'
+import type { Message } from '@/app/domain/entities/message.model'
+
+const MESSAGE: Message = {
+  id: '7',
+  conversationId: '1~2',
+  senderId: '2',
+  senderName: 'Jane Smith',
+  recipientId: '1',
+  recipientName: 'John Doe',
+  body: 'Lunch at noon?',
+  readAt: new Date('2024-03-01T12:05:00Z'),
+  createdAt: new Date('2024-03-01T12:00:00Z'),
+  updatedAt: new Date('2024-03-01T12:05:00Z'),
+}
+
+describe('messageMapper', () => {
+  describe('toDomain', () => {
+    it('converts API DTO to domain model', () => {
+      const dto: MessageApiDto = {
+        id: 7,
+        conversation_id: '1~2',
+        sender_id: 2,
+        sender_name: 'Jane Smith',
+        recipient_id: 1,
+        recipient_name: 'John Doe',
+        body: 'Lunch at noon?',
+        read_at: '2024-03-01T12:05:00Z',
+        created_at: '2024-03-01T12:00:00Z',
+        updated_at: '2024-03-01T12:05:00Z',
+      }
+
+      expect(messageMapper.toDomain(dto)).toEqual(MESSAGE)
+    })
+
+    it('derives the conversation and leaves a message without read_at unread', () => {
+      const result = messageMapper.toDomain({ id: 8, sender_id: 2, recipient_id: 1, body: 'Hi' })
+
+      expect(result).toMatchObject({ conversationId: '1~2', senderName: '', recipientName: '', readAt: null })
+      expect(result.createdAt).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('toCreateApiDto', () => {
+    it('converts to snake_case with the conversation and a trimmed body', () => {
+      expect(
+        messageMapper.toCreateApiDto({
+          senderId: '1',
+          senderName: 'John Doe',
+          recipientId: '2',
+          recipientName: 'Jane Smith',
+          body: '  See you there  ',
+        })
+      ).toEqual({
+        conversation_id: '1~2',
+        sender_id: '1',
+        sender_name: 'John Doe',
+        recipient_id: '2',
+        recipient_name: 'Jane Smith',
+        body: 'See you there',
+      })
+    })
+  })
+
+  describe('toUpdateApiDto', () => {
+    it('includes only provided fields', () => {
+      expect(messageMapper.toUpdateApiDto({})).toEqual({})
+      expect(messageMapper.toUpdateApiDto({ readAt: MESSAGE.readAt })).toEqual({ read_at: '2024-03-01T12:05:00.000Z' })
+      expect(messageMapper.toUpdateApiDto({ readAt: null })).toEqual({ read_at: null })
+    })
+  })
+
+  describe('createOffline', () => {
+    it('creates an unread message with an offline ID', () => {
+      const result = messageMapper.createOffline({
+        senderId: '1',
+        senderName: 'John Doe',
+        recipientId: '2',
+        recipientName: 'Jane Smith',
+        body: 'On my way',
+      })
+
+      expect(result.id).toMatch(/^offline_/)
+      expect(result).toMatchObject({ conversationId: '1~2', senderId: '1', body: 'On my way', readAt: null })
+    })
+  })
+
+  describe('applyUpdate', () => {
+    it('marks a message unread and bumps updatedAt', () => {
+      const result = messageMapper.applyUpdate(MESSAGE, { readAt: null })
+
+      expect(result).toMatchObject({ body: 'Lunch at noon?', readAt: null })
+      expect(result.updatedAt.getTime()).toBeGreaterThan(MESSAGE.updatedAt.getTime())
+    })
+
+    it('keeps the read state when not given', () => {
+      expect(messageMapper.applyUpdate(MESSAGE, {}).readAt).toEqual(MESSAGE.readAt)
+    })
+  })
+
+  describe('toUpdateDto', () => {
+    it('snapshots the editable fields', () => {
+      expect(messageMapper.toUpdateDto(MESSAGE)).toEqual({ readAt: MESSAGE.readAt })
+    })
+  })
+})
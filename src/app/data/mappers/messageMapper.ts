@@ -0,0 +1,119 @@
+// =============================================================================
+// Message Mapper - DTO <-> Domain Model Conversion
+// =============================================================================
+
+import {
+  conversationIdOf,
+  type Message,
+  type CreateMessageDto,
+  type UpdateMessageDto,
+} from '@/app/domain/entities/message.model'
+import { OFFLINE_ID_PREFIX } from '@/app/domain/entities/id-mapping.model'
+
+/**
+ * Message DTO from API (snake_case from backend)
+ */
+export interface MessageApiDto {
+  id: number | string
+  conversation_id?: string | null
+  sender_id: number | string
+  sender_name?: string | null
+  recipient_id: number | string
+  recipient_name?: string | null
+  body: string
+  read_at?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+/**
+ * Message Mapper
+ * Converts between API DTOs and domain models
+ */
+export const messageMapper = {
+  /**
+   * Map API DTO to Domain Model
+   * A message without a conversation belongs to its sender and recipient's
+   */
+  toDomain(dto: MessageApiDto): Message {
+    const now = new Date()
+    const senderId = String(dto.sender_id)
+    const recipientId = String(dto.recipient_id)
+    return {
+      id: String(dto.id),
+      conversationId: dto.conversation_id ?? conversationIdOf(senderId, recipientId),
+      senderId,
+      senderName: dto.sender_name ?? '',
+      recipientId,
+      recipientName: dto.recipient_name ?? '',
+      body: dto.body,
+      readAt: dto.read_at ? new Date(dto.read_at) : null,
+      createdAt: dto.created_at ? new Date(dto.created_at) : now,
+      updatedAt: dto.updated_at ? new Date(dto.updated_at) : now,
+    }
+  },
+
+  /**
+   * Map CreateMessageDto to API format
+   */
+  toCreateApiDto(dto: CreateMessageDto): Record<string, unknown> {
+    return {
+      conversation_id: conversationIdOf(dto.senderId, dto.recipientId),
+      sender_id: dto.senderId,
+      sender_name: dto.senderName,
+      recipient_id: dto.recipientId,
+      recipient_name: dto.recipientName,
+      body: dto.body.trim(),
+    }
+  },
+
+  /**
+   * Map UpdateMessageDto to API format
+   */
+  toUpdateApiDto(dto: UpdateMessageDto): Record<string, unknown> {
+    const apiDto: Record<string, unknown> = {}
+
+    if (dto.readAt !== undefined) apiDto.read_at = dto.readAt?.toISOString() ?? null
+
+    return apiDto
+  },
+
+  /**
+   * Create a message for offline sending
+   */
+  createOffline(dto: CreateMessageDto): Message {
+    const now = new Date()
+    return {
+      id: `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`,
+      conversationId: conversationIdOf(dto.senderId, dto.recipientId),
+      senderId: dto.senderId,
+      senderName: dto.senderName,
+      recipientId: dto.recipientId,
+      recipientName: dto.recipientName,
+      body: dto.body.trim(),
+      readAt: null,
+      createdAt: now,
+      updatedAt: now,
+    }
+  },
+
+  /**
+   * Apply update to existing message
+   */
+  applyUpdate(message: Message, dto: UpdateMessageDto): Message {
+    return {
+      ...message,
+      readAt: dto.readAt !== undefined ? dto.readAt : message.readAt,
+      updatedAt: new Date(),
+    }
+  },
+
+  /**
+   * Snapshot the editable fields of a message
+   */
+  toUpdateDto(message: Message): UpdateMessageDto {
+    return {
+      readAt: message.readAt,
+    }
+  },
+}
@@ -0,0 +1,103 @@
+// =============================================================================
+// Project Mapper Tests
+// =============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { projectMapper, type ProjectApiDto } from './projectMapper'
+import type { Project } from '@/app/domain/entities/project.model'
+
+const PROJECT: Project = {
+  id: '7',
+  name: 'Apollo',
+  description: 'Moon landing',
+  ownerId: '1',
+  memberIds: ['2', '3'],
+  status: 'active',
+  archived: false,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-02T00:00:00Z'),
+}
+
+describe('projectMapper', () => {
+  describe('toDomain', () => {
+    it('converts API DTO to domain model', () => {
+      const dto: ProjectApiDto = {
+        id: 7,
+        name: 'Apollo',
+        description: 'Moon landing',
+        owner_id: 1,
+        member_ids: [2, 3],
+        status: 'active',
+        archived: false,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-02T00:00:00Z',
+      }
+
+      expect(projectMapper.toDomain(dto)).toEqual(PROJECT)
+    })
+
+    it('fills in defaults for missing fields', () => {
+      const result = projectMapper.toDomain({ id: 8, name: 'Gemini', owner_id: '1' })
+
+      expect(result).toMatchObject({
+        description: '',
+        memberIds: [],
+        status: 'planning',
+        archived: false,
+      })
+      expect(result.createdAt).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('toCreateApiDto', () => {
+    it('converts to snake_case with defaults', () => {
+      expect(projectMapper.toCreateApiDto({ name: 'Gemini', ownerId: '1' })).toEqual({
+        name: 'Gemini',
+        description: '',
+        owner_id: '1',
+        member_ids: [],
+        status: 'planning',
+      })
+    })
+  })
+
+  describe('toUpdateApiDto', () => {
+    it('includes only provided fields', () => {
+      expect(projectMapper.toUpdateApiDto({ archived: true, memberIds: ['4'] })).toEqual({
+        archived: true,
+        member_ids: ['4'],
+      })
+    })
+  })
+
+  describe('createOffline', () => {
+    it('creates an active, unarchived project with an offline ID', () => {
+      const result = projectMapper.createOffline({ name: 'Gemini', ownerId: '1', memberIds: ['2'] })
+
+      expect(result.id).toMatch(/^offline_/)
+      expect(result).toMatchObject({ name: 'Gemini', ownerId: '1', memberIds: ['2'], archived: false })
+    })
+  })
+
+  describe('applyUpdate', () => {
+    it('updates only specified fields and bumps updatedAt', () => {
+      const result = projectMapper.applyUpdate(PROJECT, { archived: true })
+
+      expect(result).toMatchObject({ name: 'Apollo', memberIds: ['2', '3'], archived: true })
+      expect(result.updatedAt.getTime()).toBeGreaterThan(PROJECT.updatedAt.getTime())
+    })
+  })
+
+  describe('toUpdateDto', () => {
+    it('snapshots the editable fields', () => {
+      expect(projectMapper.toUpdateDto(PROJECT)).toEqual({
+        name: 'Apollo',
+        description: 'Moon landing',
+        ownerId: '1',
+        memberIds: ['2', '3'],
+        status: 'active',
+        archived: false,
+      })
+    })
+  })
+})
@@ -0,0 +1,127 @@
+// =============================================================================
+// Project Mapper - DTO <-> Domain Model Conversion
+// =============================================================================
+
+import {
+  ProjectStatus,
+  type Project,
+  type CreateProjectDto,
+  type UpdateProjectDto,
+} from '@/app/domain/entities/project.model'
+import { OFFLINE_ID_PREFIX } from '@/app/domain/entities/id-mapping.model'
+
+/**
+ * Project DTO from API (snake_case from backend)
+ */
+export interface ProjectApiDto {
+  id: number | string
+  name: string
+  description?: string | null
+  owner_id: number | string
+  member_ids?: (number | string)[]
+  status?: ProjectStatus
+  archived?: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+/**
+ * Project Mapper
+ * Converts between API DTOs and domain models
+ */
+export const projectMapper = {
+  /**
+   * Map API DTO to Domain Model
+   */
+  toDomain(dto: ProjectApiDto): Project {
+    const now = new Date()
+    return {
+      id: String(dto.id),
+      name: dto.name,
+      description: dto.description ?? '',
+      ownerId: String(dto.owner_id),
+      memberIds: (dto.member_ids ?? []).map(String),
+      status: dto.status ?? ProjectStatus.PLANNING,
+      archived: dto.archived ?? false,
+      createdAt: dto.created_at ? new Date(dto.created_at) : now,
+      updatedAt: dto.updated_at ? new Date(dto.updated_at) : now,
+    }
+  },
+
+  /**
+   * Map CreateProjectDto to API format
+   */
+  toCreateApiDto(dto: CreateProjectDto): Record<string, unknown> {
+    return {
+      name: dto.name,
+      description: dto.description ?? '',
+      owner_id: dto.ownerId,
+      member_ids: dto.memberIds ?? [],
+      status: dto.status ?? ProjectStatus.PLANNING,
+    }
+  },
+
+  /**
+   * Map UpdateProjectDto to API format
+   */
+  toUpdateApiDto(dto: UpdateProjectDto): Record<string, unknown> {
+    const apiDto: Record<string, unknown> = {}
+
+    if (dto.name !== undefined) apiDto.name = dto.name
+    if (dto.description !== undefined) apiDto.description = dto.description
+    if (dto.ownerId !== undefined) apiDto.owner_id = dto.ownerId
+    if (dto.memberIds !== undefined) apiDto.member_ids = dto.memberIds
+    if (dto.status !== undefined) apiDto.status = dto.status
+    if (dto.archived !== undefined) apiDto.archived = dto.archived
+
+    return apiDto
+  },
+
+  /**
+   * Create a project for offline creation
+   */
+  createOffline(dto: CreateProjectDto): Project {
+    const now = new Date()
+    return {
+      id: `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`,
+      name: dto.name,
+      description: dto.description ?? '',
+      ownerId: dto.ownerId,
+      memberIds: dto.memberIds ?? [],
+      status: dto.status ?? ProjectStatus.PLANNING,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    }
+  },
+
+  /**
+   * Apply update to existing project
+   */
+  applyUpdate(project: Project, dto: UpdateProjectDto): Project {
+    return {
+      ...project,
+      name: dto.name ?? project.name,
+      description: dto.description ?? project.description,
+      ownerId: dto.ownerId ?? project.ownerId,
+      memberIds: dto.memberIds ?? project.memberIds,
+      status: dto.status ?? project.status,
+      archived: dto.archived ?? project.archived,
+      updatedAt: new Date(),
+    }
+  },
+
+  /**
+   * Snapshot the editable fields of a project
+   */
+  toUpdateDto(project: Project): UpdateProjectDto {
+    return {
+      name: project.name,
+      description: project.description,
+      ownerId: project.ownerId,
+      memberIds: project.memberIds,
+      status: project.status,
+      archived: project.archived,
+    }
+  },
+}
@@ -0,0 +1,121 @@
+// =============================================================================
+// Task Mapper Tests
+// =============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { taskMapper, type TaskApiDto } from './taskMapper'
+import type { Task } from '@/app/domain/entities/task.model'
+
+const TASK: Task = {
+  id: '12',
+  title: 'Write release notes',
+  description: 'Cover the offline changes',
+  status: 'in-progress',
+  priority: 'high',
+  dueDate: new Date('2024-02-01T00:00:00Z'),
+  assigneeId: '1',
+  projectId: '7',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-02T00:00:00Z'),
+}
+
+describe('taskMapper', () => {
+  describe('toDomain', () => {
+    it('converts API DTO to domain model', () => {
+      const dto: TaskApiDto = {
+        id: 12,
+        title: 'Write release notes',
+        description: 'Cover the offline changes',
+        status: 'in-progress',
+        priority: 'high',
+        due_date: '2024-02-01T00:00:00Z',
+        assignee_id: 1,
+        project_id: 7,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-02T00:00:00Z',
+      }
+
+      expect(taskMapper.toDomain(dto)).toEqual(TASK)
+    })
+
+    it('fills in defaults for missing fields', () => {
+      const result = taskMapper.toDomain({ id: 13, title: 'Triage bugs', assignee_id: null })
+
+      expect(result).toMatchObject({
+        description: '',
+        status: 'todo',
+        priority: 'normal',
+        dueDate: null,
+        assigneeId: null,
+        projectId: null,
+      })
+      expect(result.createdAt).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('toCreateApiDto', () => {
+    it('converts to snake_case with defaults', () => {
+      expect(taskMapper.toCreateApiDto({ title: 'Triage bugs' })).toEqual({
+        title: 'Triage bugs',
+        description: '',
+        status: 'todo',
+        priority: 'normal',
+        due_date: null,
+        assignee_id: null,
+        project_id: null,
+      })
+    })
+  })
+
+  describe('toUpdateApiDto', () => {
+    it('includes only provided fields and keeps nulls', () => {
+      expect(taskMapper.toUpdateApiDto({ status: 'review', assigneeId: null })).toEqual({
+        status: 'review',
+        assignee_id: null,
+      })
+      expect(taskMapper.toUpdateApiDto({ dueDate: new Date('2024-03-01T00:00:00Z') })).toEqual({
+        due_date: '2024-03-01T00:00:00.000Z',
+      })
+    })
+  })
+
+  describe('createOffline', () => {
+    it('creates a to-do task with an offline ID', () => {
+      const result = taskMapper.createOffline({ title: 'Triage bugs', assigneeId: '2' })
+
+      expect(result.id).toMatch(/^offline_/)
+      expect(result).toMatchObject({ title: 'Triage bugs', status: 'todo', assigneeId: '2', projectId: null })
+    })
+  })
+
+  describe('applyUpdate', () => {
+    it('updates only specified fields and bumps updatedAt', () => {
+      const result = taskMapper.applyUpdate(TASK, { status: 'review' })
+
+      expect(result).toMatchObject({ title: 'Write release notes', status: 'review', assigneeId: '1' })
+      expect(result.updatedAt.getTime()).toBeGreaterThan(TASK.updatedAt.getTime())
+    })
+
+    it('clears fields set to null', () => {
+      const result = taskMapper.applyUpdate(TASK, { dueDate: null, assigneeId: null })
+
+      expect(result.dueDate).toBeNull()
+      expect(result.assigneeId).toBeNull()
+      expect(result.projectId).toBe('7')
+    })
+  })
+
+  describe('toUpdateDto', () => {
+    it('snapshots the editable fields', () => {
+      expect(taskMapper.toUpdateDto(TASK)).toEqual({
+        title: 'Write release notes',
+        description: 'Cover the offline changes',
+        status: 'in-progress',
+        priority: 'high',
+        dueDate: TASK.dueDate,
+        assigneeId: '1',
+        projectId: '7',
+      })
+    })
+  })
+})
@@ -0,0 +1,145 @@
+// =============================================================================
+// Task Mapper - DTO <-> Domain Model Conversion
+// =============================================================================
+
+import {
+  TaskStatus,
+  TaskPriority,
+  type Task,
+  type CreateTaskDto,
+  type UpdateTaskDto,
+} from '@/app/domain/entities/task.model'
+import { OFFLINE_ID_PREFIX } from '@/app/domain/entities/id-mapping.model'
+
+/**
+ * Task DTO from API (snake_case from backend)
+ */
+export interface TaskApiDto {
+  id: number | string
+  title: string
+  description?: string | null
+  status?: TaskStatus
+  priority?: TaskPriority
+  due_date?: string | null
+  assignee_id?: number | string | null
+  project_id?: number | string | null
+  created_at?: string
+  updated_at?: string
+}
+
+function optionalId(id: number | string | null | undefined): string | null {
+  return id === null || id === undefined || id === '' ? null : String(id)
+}
+
+function toApiDate(date: Date | null | undefined): string | null {
+  return date ? date.toISOString() : null
+}
+
+/**
+ * Task Mapper
+ * Converts between API DTOs and domain models
+ */
+export const taskMapper = {
+  /**
+   * Map API DTO to Domain Model
+   */
+  toDomain(dto: TaskApiDto): Task {
+    const now = new Date()
+    return {
+      id: String(dto.id),
+      title: dto.title,
+      description: dto.description ?? '',
+      status: dto.status ?? TaskStatus.TODO,
+      priority: dto.priority ?? TaskPriority.NORMAL,
+      dueDate: dto.due_date ? new Date(dto.due_date) : null,
+      assigneeId: optionalId(dto.assignee_id),
+      projectId: optionalId(dto.project_id),
+      createdAt: dto.created_at ? new Date(dto.created_at) : now,
+      updatedAt: dto.updated_at ? new Date(dto.updated_at) : now,
+    }
+  },
+
+  /**
+   * Map CreateTaskDto to API format
+   */
+  toCreateApiDto(dto: CreateTaskDto): Record<string, unknown> {
+    return {
+      title: dto.title,
+      description: dto.description ?? '',
+      status: dto.status ?? TaskStatus.TODO,
+      priority: dto.priority ?? TaskPriority.NORMAL,
+      due_date: toApiDate(dto.dueDate),
+      assignee_id: dto.assigneeId ?? null,
+      project_id: dto.projectId ?? null,
+    }
+  },
+
+  /**
+   * Map UpdateTaskDto to API format
+   * Null clears the due date, assignee or project
+   */
+  toUpdateApiDto(dto: UpdateTaskDto): Record<string, unknown> {
+    const apiDto: Record<string, unknown> = {}
+
+    if (dto.title !== undefined) apiDto.title = dto.title
+    if (dto.description !== undefined) apiDto.description = dto.description
+    if (dto.status !== undefined) apiDto.status = dto.status
+    if (dto.priority !== undefined) apiDto.priority = dto.priority
+    if (dto.dueDate !== undefined) apiDto.due_date = toApiDate(dto.dueDate)
+    if (dto.assigneeId !== undefined) apiDto.assignee_id = dto.assigneeId
+    if (dto.projectId !== undefined) apiDto.project_id = dto.projectId
+
+    return apiDto
+  },
+
+  /**
+   * Create a task for offline creation
+   */
+  createOffline(dto: CreateTaskDto): Task {
+    const now = new Date()
+    return {
+      id: `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`,
+      title: dto.title,
+      description: dto.description ?? '',
+      status: dto.status ?? TaskStatus.TODO,
+      priority: dto.priority ?? TaskPriority.NORMAL,
+      dueDate: dto.dueDate ?? null,
+      assigneeId: dto.assigneeId ?? null,
+      projectId: dto.projectId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    }
+  },
+
+  /**
+   * Apply update to existing task
+   */
+  applyUpdate(task: Task, dto: UpdateTaskDto): Task {
+    return {
+      ...task,
+      title: dto.title ?? task.title,
+      description: dto.description ?? task.description,
+      status: dto.status ?? task.status,
+      priority: dto.priority ?? task.priority,
+      dueDate: dto.dueDate !== undefined ? dto.dueDate : task.dueDate,
+      assigneeId: dto.assigneeId !== undefined ? dto.assigneeId : task.assigneeId,
+      projectId: dto.projectId !== undefined ? dto.projectId : task.projectId,
+      updatedAt: new Date(),
+    }
+  },
+
+  /**
+   * Snapshot the editable fields of a task
+   */
+  toUpdateDto(task: Task): UpdateTaskDto {
+    return {
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate,
+      assigneeId: task.assigneeId,
+      projectId: task.projectId,
+    }
+  },
+}
@@ -246,7 +246,7 @@ describe('userMapper', () => {
     })
   })
 
-  describe('createOfflineUser', () => {
+  describe('createOffline', () => {
     it('creates user with offline_ prefix id', () => {
       const dto: CreateUserDto = {
         email: 'offline@example.com',
@@ -254,7 +254,7 @@ describe('userMapper', () => {
         lastName: 'User',
       }
 
-      const result = userMapper.createOfflineUser(dto)
+      const result = userMapper.createOffline(dto)
 
       expect(result.id).toMatch(/^offline_/)
       expect(result.email).toBe('offline@example.com')
@@ -271,7 +271,7 @@ describe('userMapper', () => {
         lastName: 'User',
       }
 
-      const result = userMapper.createOfflineUser(dto)
+      const result = userMapper.createOffline(dto)
       const after = new Date()
 
       expect(result.createdAt.getTime()).toBeGreaterThanOrEqual(before.getTime())
@@ -359,6 +359,27 @@ describe('userMapper', () => {
     })
   })
 
+  describe('toUpdateDto', () => {
+    it('snapshots only the editable fields', () => {
+      const user: User = {
+        id: '1',
+        email: 'john@example.com',
+        firstName: 'John',
+        lastName: 'Doe',
+        avatar: 'https://example.com/avatar.jpg',
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-02'),
+      }
+
+      expect(userMapper.toUpdateDto(user)).toEqual({
+        email: 'john@example.com',
+        firstName: 'John',
+        lastName: 'Doe',
+        avatar: 'https://example.com/avatar.jpg',
+      })
+    })
+  })
+
   describe('isOfflineUser', () => {
     it('returns true for offline users', () => {
       const user: User = {
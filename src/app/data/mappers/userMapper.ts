@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { User, CreateUserDto, UpdateUserDto, PaginatedResponse } from '@/app/domain/entities/user.model'
+import { OFFLINE_ID_PREFIX, isOfflineId } from '@/app/domain/entities/id-mapping.model'
 
 /**
  * User DTO from API (snake_case from backend)
@@ -114,10 +115,10 @@ export const userMapper = {
   /**
    * Create a mock user for offline creation
    */
-  createOfflineUser(dto: CreateUserDto): User {
+  createOffline(dto: CreateUserDto): User {
     const now = new Date()
     return {
-      id: `offline_${crypto.randomUUID()}`,
+      id: `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`,
       email: dto.email,
       firstName: dto.firstName,
       lastName: dto.lastName,
@@ -141,11 +142,23 @@ export const userMapper = {
     }
   },
 
+  /**
+   * Snapshot the editable fields of a user
+   */
+  toUpdateDto(user: User): UpdateUserDto {
+    return {
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      avatar: user.avatar,
+    }
+  },
+
   /**
    * Check if user was created offline
    */
   isOfflineUser(user: User): boolean {
-    return user.id.startsWith('offline_')
+    return isOfflineId(user.id)
   },
 
   /**
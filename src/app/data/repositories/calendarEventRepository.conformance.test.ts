@@ -0,0 +1,65 @@
+// =============================================================================
+// Calendar Event Repository Conformance Tests
+// =============================================================================
+
+import { vi } from 'vitest'
+import type { SyncHandler } from '../sync/offlineSyncService'
+
+const { mockApi, syncHandlers, network } = vi.hoisted(() => ({
+  mockApi: { get: vi.fn(), post: vi.fn(), put: vi.fn(), delete: vi.fn() },
+  syncHandlers: new Map<string, SyncHandler>(),
+  network: { online: true },
+}))
+
+vi.mock('../api/apiService', () => ({ apiService: mockApi }))
+
+vi.mock('../sync/offlineSyncService', () => ({
+  offlineSyncService: {
+    registerHandler: (entity: string, handler: SyncHandler) => syncHandlers.set(entity, handler),
+    sync: vi.fn(),
+    notifyQueueChanged: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => network.online,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+import { describeRepositoryConformance } from '@/test/conformance/repositoryConformance'
+import { calendarEventRepository, CALENDAR_EVENT_ENTITY_CONFIG } from './calendarEventRepository'
+
+describeRepositoryConformance('CalendarEventRepository', () => ({
+  repository: calendarEventRepository,
+  config: CALENDAR_EVENT_ENTITY_CONFIG,
+  api: mockApi,
+  syncHandlers,
+  setOnline: (online) => {
+    network.online = online
+  },
+  apiDto: (id, overrides) => ({
+    id,
+    title: `Event ${id}`,
+    description: 'Conformance fixture',
+    location: 'Room 4',
+    starts_at: '2024-02-01T14:00:00.000Z',
+    ends_at: '2024-02-01T15:00:00.000Z',
+    all_day: false,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }),
+  createDto: {
+    title: 'Sprint review',
+    start: new Date('2024-02-02T14:00:00.000Z'),
+    end: new Date('2024-02-02T15:00:00.000Z'),
+  },
+  updateDto: { location: 'Room 7' },
+  invalidCreateDto: {
+    title: '',
+    start: new Date('2024-02-02T14:00:00.000Z'),
+    end: new Date('2024-02-02T15:00:00.000Z'),
+  },
+}))
@@ -0,0 +1,71 @@
+// =============================================================================
+// Calendar Event Repository - 4-Layer Caching Architecture
+// =============================================================================
+// Same offline-first stack as users (see repository.ts), configured for calendar
+// events.
+// =============================================================================
+
+import { map } from 'rxjs/operators'
+
+import type {
+  CreateCalendarEventDto,
+  UpdateCalendarEventDto,
+  CalendarEventListParams,
+  CalendarEventSortField,
+} from '@/app/domain/entities/calendar-event.model'
+import type { CalendarEventChange } from '@/app/domain/services/calendarEventService'
+import { calendarEventValidator } from '@/app/domain/validators/calendarEventValidator'
+import { calendarEventMapper, type CalendarEventApiDto } from '../mappers/calendarEventMapper'
+import { Repository, type EntityConfig } from './repository'
+
+/**
+ * Calendar event entity configuration
+ */
+export const CALENDAR_EVENT_ENTITY_CONFIG: EntityConfig<
+  'events',
+  CalendarEventApiDto,
+  CreateCalendarEventDto,
+  UpdateCalendarEventDto,
+  CalendarEventSortField
+> = {
+  entity: 'event',
+  label: 'Event',
+  endpoint: '/events',
+  table: 'events',
+  searchFields: ['title', 'description', 'location'],
+  mapper: calendarEventMapper,
+  validator: calendarEventValidator,
+}
+
+/**
+ * Calendar Event Repository
+ * Implements offline-first 4-layer caching strategy
+ */
+class CalendarEventRepository extends Repository<
+  'events',
+  CalendarEventApiDto,
+  CreateCalendarEventDto,
+  UpdateCalendarEventDto,
+  CalendarEventSortField
+> {
+  constructor() {
+    super(CALENDAR_EVENT_ENTITY_CONFIG)
+  }
+
+  /**
+   * Observable for event updates (including changes made in other tabs)
+   */
+  get updates$() {
+    return this.changes$.pipe(
+      map(
+        (change): CalendarEventChange =>
+          change.type === 'list'
+            ? { ...change, params: change.params as CalendarEventListParams }
+            : { type: change.type, event: change.entity }
+      )
+    )
+  }
+}
+
+// Export singleton instance
+export const calendarEventRepository = new CalendarEventRepository()
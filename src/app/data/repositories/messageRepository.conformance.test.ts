@@ -0,0 +1,133 @@
+// =============================================================================
+// Message Repository Conformance Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SyncHandler } from '../sync/offlineSyncService'
+
+const { mockApi, syncHandlers, network } = vi.hoisted(() => ({
+  mockApi: { get: vi.fn(), post: vi.fn(), put: vi.fn(), delete: vi.fn() },
+  syncHandlers: new Map<string, SyncHandler>(),
+  network: { online: true },
+}))
+
+vi.mock('../api/apiService', () => ({ apiService: mockApi }))
+
+vi.mock('../sync/offlineSyncService', () => ({
+  offlineSyncService: {
+    registerHandler: (entity: string, handler: SyncHandler) => syncHandlers.set(entity, handler),
+    sync: vi.fn(),
+    notifyQueueChanged: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => network.online,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+import { describeRepositoryConformance } from '@/test/conformance/repositoryConformance'
+import { memoryCacheService } from '../storage/memoryCacheService'
+import { lruCacheService } from '../storage/lruCacheService'
+import { indexedDbService } from '../storage/indexedDbService'
+import { idMappingService } from '../sync/idMappingService'
+import { messageRepository, MESSAGE_ENTITY_CONFIG } from './messageRepository'
+
+const CREATE_DTO = {
+  senderId: '1',
+  senderName: 'John Doe',
+  recipientId: '2',
+  recipientName: 'Jane Smith',
+  body: 'Lunch at noon?',
+}
+
+describeRepositoryConformance('MessageRepository', () => ({
+  repository: messageRepository,
+  config: MESSAGE_ENTITY_CONFIG,
+  api: mockApi,
+  syncHandlers,
+  setOnline: (online) => {
+    network.online = online
+  },
+  apiDto: (id, overrides) => ({
+    id,
+    conversation_id: '1~2',
+    sender_id: 2,
+    sender_name: 'Jane Smith',
+    recipient_id: 1,
+    recipient_name: 'John Doe',
+    body: `Message ${id}`,
+    read_at: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }),
+  createDto: CREATE_DTO,
+  updateDto: { readAt: new Date('2024-01-02T00:00:00.000Z') },
+  invalidCreateDto: { ...CREATE_DTO, body: '' },
+}))
+
+describe('MessageRepository outbox', () => {
+  beforeEach(async () => {
+    network.online = true
+    Object.values(mockApi).forEach((mock) => mock.mockReset())
+
+    const storage = new Map<string, string>()
+    vi.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null)
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => void storage.set(key, value))
+
+    memoryCacheService.clear()
+    lruCacheService.clear()
+    idMappingService.clear()
+    await indexedDbService.clearAll()
+  })
+
+  it('holds messages sent offline, oldest first', async () => {
+    network.online = false
+    let uuid = 0
+    vi.spyOn(crypto, 'randomUUID').mockImplementation(() => `${++uuid}-0-0-0-0`)
+    const first = await messageRepository.create(CREATE_DTO)
+    const second = await messageRepository.create({ ...CREATE_DTO, body: 'Or one?' })
+
+    const outbox = await messageRepository.getOutbox()
+
+    expect(outbox.map((entry) => entry.message.id)).toEqual([first.id, second.id])
+    expect(outbox[1].message.body).toBe('Or one?')
+    expect(outbox.map((entry) => entry.status)).toEqual(['sending', 'sending'])
+  })
+
+  it('keeps messages being delivered and those the sync queue gave up on', async () => {
+    network.online = false
+    let uuid = 0
+    vi.spyOn(crypto, 'randomUUID').mockImplementation(() => `${++uuid}-0-0-0-0`)
+    await messageRepository.create(CREATE_DTO)
+    await messageRepository.create({ ...CREATE_DTO, body: 'Or one?' })
+    // The sync queue picked up the first and gave up on the second
+    const undelivered = indexedDbService.getUndeliveredOperationsByEntity.bind(indexedDbService)
+    vi.spyOn(indexedDbService, 'getUndeliveredOperationsByEntity').mockImplementationOnce(async (entity) => {
+      const [sending, failed] = await undelivered(entity)
+      return [
+        { ...sending, status: 'processing' },
+        { ...failed, status: 'failed', error: 'Recipient not found' },
+      ]
+    })
+
+    const outbox = await messageRepository.getOutbox()
+
+    expect(outbox.map(({ message, status, error }) => ({ body: message.body, status, error }))).toEqual([
+      { body: 'Lunch at noon?', status: 'sending', error: null },
+      { body: 'Or one?', status: 'failed', error: 'Recipient not found' },
+    ])
+  })
+
+  it('is empty when every message was sent online', async () => {
+    mockApi.post.mockResolvedValue({
+      data: { id: 9, sender_id: 1, recipient_id: 2, body: 'Lunch at noon?' },
+    })
+    await messageRepository.create(CREATE_DTO)
+
+    expect(await messageRepository.getOutbox()).toEqual([])
+  })
+})
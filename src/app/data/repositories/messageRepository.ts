@@ -0,0 +1,102 @@
+// =============================================================================
+// Message Repository - 4-Layer Caching Architecture
+// =============================================================================
+// Same offline-first stack as users (see repository.ts), configured for
+// messages. A message sent offline stays in the sync queue (the outbox) under
+// its offline ID until the offline sync service delivers it.
+// =============================================================================
+
+import { map } from 'rxjs/operators'
+
+import {
+  MessageStatus,
+  type OutboxMessage,
+  type CreateMessageDto,
+  type UpdateMessageDto,
+  type MessageListParams,
+  type MessageSortField,
+} from '@/app/domain/entities/message.model'
+import type { MessageChange } from '@/app/domain/services/messageService'
+import { messageValidator } from '@/app/domain/validators/messageValidator'
+import { messageMapper, type MessageApiDto } from '../mappers/messageMapper'
+import { indexedDbService } from '../storage/indexedDbService'
+import { Repository, type EntityConfig } from './repository'
+
+/**
+ * Message entity configuration
+ */
+export const MESSAGE_ENTITY_CONFIG: EntityConfig<
+  'messages',
+  MessageApiDto,
+  CreateMessageDto,
+  UpdateMessageDto,
+  MessageSortField
+> = {
+  entity: 'message',
+  label: 'Message',
+  endpoint: '/messages',
+  table: 'messages',
+  searchFields: ['body', 'senderName', 'recipientName'],
+  mapper: messageMapper,
+  validator: messageValidator,
+}
+
+/**
+ * Message Repository
+ * Implements offline-first 4-layer caching strategy
+ */
+class MessageRepository extends Repository<
+  'messages',
+  MessageApiDto,
+  CreateMessageDto,
+  UpdateMessageDto,
+  MessageSortField
+> {
+  constructor() {
+    super(MESSAGE_ENTITY_CONFIG)
+  }
+
+  /**
+   * Messages whose create has not been delivered, oldest first
+   * Queued and in-flight creates are sending; dead-lettered ones have failed
+   */
+  async getOutbox(): Promise<OutboxMessage[]> {
+    const operations = await indexedDbService.getUndeliveredOperationsByEntity(this.config.entity)
+    const queued = operations
+      .filter((op) => op.type === 'create')
+      .sort((a, b) => a.timestamp - b.timestamp)
+
+    const outbox = await Promise.all(
+      queued.map(async (op): Promise<OutboxMessage | null> => {
+        const message = await this.getById(op.entityId, { policy: 'cache-only' })
+        if (!message) return null
+
+        const failed = op.status === 'failed'
+        return {
+          message,
+          status: failed ? MessageStatus.FAILED : MessageStatus.SENDING,
+          operationId: op.id!,
+          error: failed ? (op.error ?? null) : null,
+        }
+      })
+    )
+    return outbox.filter((entry): entry is OutboxMessage => entry !== null)
+  }
+
+  /**
+   * Observable for message updates (including changes made in other tabs)
+   */
+  get updates$() {
+    return this.changes$.pipe(
+      map(
+        (change): MessageChange =>
+          change.type === 'list'
+            ? { ...change, params: change.params as MessageListParams }
+            : { type: change.type, message: change.entity }
+      )
+    )
+  }
+}
+
+// Export singleton instance
+export const messageRepository = new MessageRepository()
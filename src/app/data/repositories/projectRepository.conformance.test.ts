@@ -0,0 +1,58 @@
+// =============================================================================
+// Project Repository Conformance Tests
+// =============================================================================
+
+import { vi } from 'vitest'
+import type { SyncHandler } from '../sync/offlineSyncService'
+
+const { mockApi, syncHandlers, network } = vi.hoisted(() => ({
+  mockApi: { get: vi.fn(), post: vi.fn(), put: vi.fn(), delete: vi.fn() },
+  syncHandlers: new Map<string, SyncHandler>(),
+  network: { online: true },
+}))
+
+vi.mock('../api/apiService', () => ({ apiService: mockApi }))
+
+vi.mock('../sync/offlineSyncService', () => ({
+  offlineSyncService: {
+    registerHandler: (entity: string, handler: SyncHandler) => syncHandlers.set(entity, handler),
+    sync: vi.fn(),
+    notifyQueueChanged: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => network.online,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+import { describeRepositoryConformance } from '@/test/conformance/repositoryConformance'
+import { ProjectStatus } from '@/app/domain/entities/project.model'
+import { projectRepository, PROJECT_ENTITY_CONFIG } from './projectRepository'
+
+describeRepositoryConformance('ProjectRepository', () => ({
+  repository: projectRepository,
+  config: PROJECT_ENTITY_CONFIG,
+  api: mockApi,
+  syncHandlers,
+  setOnline: (online) => {
+    network.online = online
+  },
+  apiDto: (id, overrides) => ({
+    id,
+    name: `Project ${id}`,
+    description: 'Conformance fixture',
+    owner_id: 1,
+    member_ids: [2],
+    status: ProjectStatus.ACTIVE,
+    archived: false,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }),
+  createDto: { name: 'Apollo', ownerId: '1', memberIds: ['2'] },
+  updateDto: { archived: true },
+  invalidCreateDto: { name: '', ownerId: '1' },
+}))
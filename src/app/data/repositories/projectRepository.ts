@@ -0,0 +1,70 @@
+// =============================================================================
+// Project Repository - 4-Layer Caching Architecture
+// =============================================================================
+// Same offline-first stack as users (see repository.ts), configured for projects.
+// =============================================================================
+
+import { map } from 'rxjs/operators'
+
+import type {
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectListParams,
+  ProjectSortField,
+} from '@/app/domain/entities/project.model'
+import type { ProjectChange } from '@/app/domain/services/projectService'
+import { projectValidator } from '@/app/domain/validators/projectValidator'
+import { projectMapper, type ProjectApiDto } from '../mappers/projectMapper'
+import { Repository, type EntityConfig } from './repository'
+
+/**
+ * Project entity configuration
+ */
+export const PROJECT_ENTITY_CONFIG: EntityConfig<
+  'projects',
+  ProjectApiDto,
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectSortField
+> = {
+  entity: 'project',
+  label: 'Project',
+  endpoint: '/projects',
+  table: 'projects',
+  searchFields: ['name', 'description'],
+  mapper: projectMapper,
+  validator: projectValidator,
+}
+
+/**
+ * Project Repository
+ * Implements offline-first 4-layer caching strategy
+ */
+class ProjectRepository extends Repository<
+  'projects',
+  ProjectApiDto,
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectSortField
+> {
+  constructor() {
+    super(PROJECT_ENTITY_CONFIG)
+  }
+
+  /**
+   * Observable for project updates (including changes made in other tabs)
+   */
+  get updates$() {
+    return this.changes$.pipe(
+      map(
+        (change): ProjectChange =>
+          change.type === 'list'
+            ? { ...change, params: change.params as ProjectListParams }
+            : { type: change.type, project: change.entity }
+      )
+    )
+  }
+}
+
+// Export singleton instance
+export const projectRepository = new ProjectRepository()
@@ -0,0 +1,975 @@
+// =============================================================================
+// Repository - Generic Offline-First Repository
+// =============================================================================
+// The 4-layer cache, read policies, offline queue and sync handlers for one
+// entity, configured by an EntityConfig:
+// Layer 1: Memory Cache (instant, session-only)
+// Layer 2: LRU Cache with TTL (fast, session-only)
+// Layer 3: IndexedDB (persistent, survives restarts)
+// Layer 4: API (network, source of truth)
+// =============================================================================
+
+import { signal, computed } from '@preact/signals-react'
+import { Subject } from 'rxjs'
+import { filter } from 'rxjs/operators'
+
+import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+import type { DateBounds, ListFilter, ListParams, ListRange, PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { EntityChange } from '@/app/domain/entities/entity-change.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import { AppError, ErrorCategory } from '@/app/domain/entities/app-error.model'
+import { isOfflineId } from '@/app/domain/entities/id-mapping.model'
+import { networkStatusService } from '@/app/domain/services/networkStatusService'
+import { memoryCacheService } from '../storage/memoryCacheService'
+import { lruCacheService } from '../storage/lruCacheService'
+import {
+  indexedDbService,
+  type EntityTableName,
+  type EntityTables,
+  type PendingOperation,
+} from '../storage/indexedDbService'
+import { apiService, type ApiRequestConfig } from '../api/apiService'
+import { offlineSyncService } from '../sync/offlineSyncService'
+import { idMappingService } from '../sync/idMappingService'
+import { crossTabService } from '../sync/crossTabService'
+import { cacheInvalidationService } from '../sync/cacheInvalidationService'
+import type { PaginatedApiResponse } from '../mappers/userMapper'
+
+// =============================================================================
+// Entity Configuration
+// =============================================================================
+
+/**
+ * Entity stored in a normalized table
+ */
+export type EntityOf<K extends EntityTableName> = EntityTables[K]
+
+/**
+ * Fields an entity list can be sorted by (indexed in its table)
+ */
+export type SortFieldOf<K extends EntityTableName> = keyof EntityOf<K> & string
+
+/**
+ * API representation of an entity
+ * `updated_at` is the version checked before an offline update is replayed
+ */
+export interface EntityApiDto {
+  id: number | string
+  updated_at?: string
+}
+
+/**
+ * Converts between API DTOs and domain models
+ */
+export interface EntityMapper<T, TApi, TCreate, TUpdate> {
+  toDomain(dto: TApi): T
+  toCreateApiDto(dto: TCreate): Record<string, unknown>
+  toUpdateApiDto(dto: TUpdate): Record<string, unknown>
+  /** Entity with a temporary offline ID, for a create made offline */
+  createOffline(dto: TCreate): T
+  applyUpdate(entity: T, dto: TUpdate): T
+  /** Snapshot of the editable fields (conflict base and versions) */
+  toUpdateDto(entity: T): TUpdate
+}
+
+/**
+ * Validates DTOs before they are sent or queued
+ */
+export interface EntityValidator<TCreate, TUpdate, TErrors = unknown> {
+  validateCreate(dto: TCreate): TErrors
+  validateUpdate(dto: TUpdate): TErrors
+  hasErrors(errors: TErrors): boolean
+  getFirstError(errors: TErrors): string | null
+}
+
+/**
+ * Cache keys of an entity and of its list pages
+ */
+export interface EntityCacheKeys<TParams> {
+  item(id: string): string
+  list(params: TParams, search?: string): string
+}
+
+/**
+ * Cache lifetimes (ms)
+ */
+export interface EntityTtl {
+  /** Entity in the LRU layer */
+  item: number
+  /** Entity in IndexedDB */
+  persistent: number
+  /** List page in the LRU layer and IndexedDB */
+  list: number
+}
+
+/**
+ * Everything a repository needs to know about its entity
+ */
+export interface EntityConfig<
+  K extends EntityTableName,
+  TApi extends EntityApiDto,
+  TCreate,
+  TUpdate,
+  TSort extends SortFieldOf<K> = SortFieldOf<K>,
+> {
+  /** Entity name of queued operations, sync handlers and cross-tab messages */
+  entity: string
+  /** Name used in error messages */
+  label: string
+  /** Collection endpoint; an entity lives at `${endpoint}/${id}` */
+  endpoint: string
+  /** Normalized IndexedDB table backing offline lists */
+  table: K
+  /** Fields matched by an offline search */
+  searchFields: readonly SortFieldOf<K>[]
+  mapper: EntityMapper<EntityOf<K>, TApi, TCreate, TUpdate>
+  validator?: EntityValidator<TCreate, TUpdate>
+  /** Defaults to `${entity}:${id}` and `${table}:list:...` */
+  cacheKeys?: EntityCacheKeys<ListParams<TSort>>
+  /** Defaults to APP_CONSTANTS.CACHE */
+  ttl?: Partial<EntityTtl>
+}
+
+/**
+ * Filter conditions that are set, in a stable order
+ */
+function filterEntries(filter: ListFilter | undefined): [string, string | number | boolean][] {
+  return Object.entries(filter ?? {})
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+}
+
+/**
+ * Date bounds that are set, in a stable order, as `field_from` / `field_to`
+ * ISO timestamps
+ */
+function rangeEntries(range: ListRange | undefined): [string, string][] {
+  return Object.entries(range ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([field, bounds]) => {
+      const entries: [string, string][] = []
+      if (bounds?.from) entries.push([`${field}_from`, bounds.from.toISOString()])
+      if (bounds?.to) entries.push([`${field}_to`, bounds.to.toISOString()])
+      return entries
+    })
+}
+
+/**
+ * Default cache keys: `user:42`, `users:list:1:10:search:lastName:asc:archived=true`
+ */
+function defaultCacheKeys<TParams extends ListParams>(entity: string, table: string): EntityCacheKeys<TParams> {
+  return {
+    item: (id) => `${entity}:${id}`,
+    list: (params, search) =>
+      `${table}:list:${params.page}:${params.pageSize}:${search || ''}` +
+      (params.sortBy ? `:${params.sortBy}:${params.sortOrder ?? 'asc'}` : '') +
+      [...filterEntries(params.filter), ...rangeEntries(params.range)]
+        .map(([field, value]) => `:${field}=${value}`)
+        .join(''),
+  }
+}
+
+/**
+ * Request options for replaying a queued operation
+ * Queues behind user-initiated requests and sends the operation's idempotency
+ * key, so a replay of a request that already reached the server is not applied twice
+ */
+function syncRequest(op: PendingOperation): ApiRequestConfig {
+  return { priority: 'background', idempotencyKey: op.idempotencyKey }
+}
+
+/**
+ * Repository state
+ */
+interface RepositoryState {
+  loading: boolean
+  error: string | null
+  lastSync: Date | null
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+/**
+ * Offline-first repository for one entity
+ * Cache tags: every entry carries the table name; an entity also carries
+ * `${entity}:${id}`, and a list page carries `${table}:list`, the tag of
+ * every entity on it and `${table}:search:${search}`
+ */
+export class Repository<
+  K extends EntityTableName,
+  TApi extends EntityApiDto,
+  TCreate,
+  TUpdate,
+  TSort extends SortFieldOf<K> = SortFieldOf<K>,
+> {
+  protected readonly config: EntityConfig<K, TApi, TCreate, TUpdate, TSort>
+  private readonly keys: EntityCacheKeys<ListParams<TSort>>
+  private readonly ttl: EntityTtl
+
+  // Reactive state
+  private readonly state = signal<RepositoryState>({
+    loading: false,
+    error: null,
+    lastSync: null,
+  })
+
+  private readonly changes = new Subject<EntityChange<EntityOf<K>, ListParams<TSort>>>()
+
+  // Background refreshes in flight, by cache key
+  private readonly revalidating = new Set<string>()
+
+  // Computed values
+  readonly loading = computed(() => this.state.value.loading)
+  readonly error = computed(() => this.state.value.error)
+  readonly lastSync = computed(() => this.state.value.lastSync)
+
+  constructor(config: EntityConfig<K, TApi, TCreate, TUpdate, TSort>) {
+    this.config = config
+    this.keys = config.cacheKeys ?? defaultCacheKeys(config.entity, config.table)
+    this.ttl = {
+      item: APP_CONSTANTS.CACHE.DEFAULT_TTL,
+      persistent: APP_CONSTANTS.CACHE.LONG_TTL,
+      list: APP_CONSTANTS.CACHE.LIST_TTL,
+      ...config.ttl,
+    }
+
+    // Register sync handlers - the offline sync service owns the queue drain
+    offlineSyncService.registerHandler(config.entity, {
+      create: (op) => this.syncCreate(op),
+      update: (op) => this.syncUpdate(op),
+      delete: (op) => this.syncDelete(op),
+      acceptServer: (conflict) => this.refreshFromServer(conflict.entityId),
+      discard: (op) => this.discardOperation(op),
+    })
+
+    // Another tab changed an entity - drop this tab's in-memory copies and notify views
+    crossTabService
+      .on('entity:changed')
+      .pipe(filter((message) => message.entity === config.entity))
+      .subscribe(({ change, data }) => {
+        const entity = data as EntityOf<K>
+        const tags = [this.itemTag(entity.id), this.listsTag]
+        memoryCacheService.invalidateTags(tags)
+        lruCacheService.invalidateTags(tags)
+        this.changes.next({ type: change, entity })
+      })
+  }
+
+  // ==========================================================================
+  // CRUD Operations
+  // ==========================================================================
+
+  /**
+   * Get an entity by ID under a read policy (4-layer lookup)
+   */
+  async getById(entityId: string, { policy = 'cache-first' }: ReadOptions = {}): Promise<EntityOf<K> | null> {
+    const id = await idMappingService.resolve(entityId)
+
+    if (policy === 'network-first') {
+      return (await this.fetchEntity(id)) ?? (await this.readCachedEntity(id))
+    }
+
+    const cached = await this.readCachedEntity(id)
+    if (cached) {
+      if (policy === 'stale-while-revalidate') {
+        this.revalidate(this.keys.item(id), async () => {
+          const entity = await this.requestEntity(id, { priority: 'background' })
+          this.changes.next({ type: 'update', entity })
+        })
+      }
+      return cached
+    }
+
+    return policy === 'cache-only' ? null : this.fetchEntity(id)
+  }
+
+  /**
+   * Get a paginated list under a read policy
+   * Lists missing from the caches are answered from the entity table offline
+   */
+  async getList(
+    params: ListParams<TSort>,
+    search?: string,
+    { policy = 'cache-first' }: ReadOptions = {}
+  ): Promise<PaginatedResponse<EntityOf<K>>> {
+    const cacheKey = this.keys.list(params, search)
+
+    if (policy === 'network-first') {
+      return (
+        (await this.fetchList(params, search)) ??
+        (await this.readCachedList(params, search)) ??
+        this.getOfflineList(params, search)
+      )
+    }
+
+    const cached = await this.readCachedList(params, search)
+    if (cached) {
+      if (policy === 'stale-while-revalidate') {
+        this.revalidate(cacheKey, async () => {
+          const list = await this.requestList(params, search, { priority: 'background' })
+          this.changes.next({ type: 'list', params, search, list })
+        })
+      }
+      return cached
+    }
+
+    if (policy === 'cache-only') {
+      return this.getOfflineList(params, search)
+    }
+
+    return (await this.fetchList(params, search)) ?? this.getOfflineList(params, search)
+  }
+
+  /**
+   * Create an entity
+   */
+  async create(dto: TCreate): Promise<EntityOf<K>> {
+    this.validate(this.config.validator?.validateCreate(dto))
+
+    if (!networkStatusService.isCurrentlyOnline()) {
+      return this.createOffline(dto)
+    }
+
+    try {
+      this.setLoading(true)
+
+      const response = await apiService.post<TApi>(this.config.endpoint, this.config.mapper.toCreateApiDto(dto))
+      const entity = this.config.mapper.toDomain(response.data)
+
+      // Cache and notify
+      await this.cacheEntity(entity)
+      await this.invalidateListCache()
+      this.notifyChange('create', entity)
+
+      return entity
+    } catch (error) {
+      // Fall back to offline creation
+      if ((error as Error).message.includes('network')) {
+        return this.createOffline(dto)
+      }
+      throw error
+    } finally {
+      this.setLoading(false)
+    }
+  }
+
+  /**
+   * Update an existing entity
+   */
+  async update(entityId: string, dto: TUpdate): Promise<EntityOf<K>> {
+    this.validate(this.config.validator?.validateUpdate(dto))
+
+    const existing = await this.getById(entityId)
+    if (!existing) {
+      throw new Error(`${this.config.label} not found`)
+    }
+    const id = existing.id
+
+    if (!networkStatusService.isCurrentlyOnline()) {
+      return this.updateOffline(existing, dto)
+    }
+
+    try {
+      this.setLoading(true)
+
+      const response = await apiService.put<TApi>(
+        `${this.config.endpoint}/${id}`,
+        this.config.mapper.toUpdateApiDto(dto)
+      )
+      const entity = this.config.mapper.toDomain(response.data)
+
+      // Update cache and notify
+      await this.cacheEntity(entity)
+      await this.invalidateListCache()
+      this.notifyChange('update', entity)
+
+      return entity
+    } catch (error) {
+      // Fall back to offline update
+      if ((error as Error).message.includes('network')) {
+        return this.updateOffline(existing, dto)
+      }
+      throw error
+    } finally {
+      this.setLoading(false)
+    }
+  }
+
+  /**
+   * Delete an entity
+   */
+  async delete(entityId: string): Promise<void> {
+    const existing = await this.getById(entityId)
+    if (!existing) {
+      throw new Error(`${this.config.label} not found`)
+    }
+    const id = existing.id
+
+    if (!networkStatusService.isCurrentlyOnline()) {
+      await this.deleteOffline(existing)
+      return
+    }
+
+    try {
+      this.setLoading(true)
+
+      await apiService.delete(`${this.config.endpoint}/${id}`)
+
+      // Remove from cache
+      await this.removeFromCache(id)
+      await this.invalidateListCache()
+      this.notifyChange('delete', existing)
+    } catch (error) {
+      // Fall back to offline deletion
+      if ((error as Error).message.includes('network')) {
+        await this.deleteOffline(existing)
+        return
+      }
+      throw error
+    } finally {
+      this.setLoading(false)
+    }
+  }
+
+  /**
+   * Reject a DTO the validator finds errors in
+   */
+  private validate(errors: unknown): void {
+    const { validator } = this.config
+    if (!validator || errors === undefined || !validator.hasErrors(errors)) return
+
+    throw AppError.validation(validator.getFirstError(errors) ?? `Invalid ${this.config.label}`, {
+      entity: this.config.entity,
+      errors,
+    })
+  }
+
+  // ==========================================================================
+  // Reads
+  // ==========================================================================
+
+  /**
+   * Look an entity up in the memory, LRU and IndexedDB layers
+   */
+  private async readCachedEntity(id: string): Promise<EntityOf<K> | null> {
+    const cacheKey = this.keys.item(id)
+    const tags = this.entityTags(id)
+
+    // Layer 1: Memory Cache
+    const memoryResult = memoryCacheService.get<EntityOf<K>>(cacheKey)
+    if (memoryResult) {
+      console.log('[Cache L1] Memory hit:', cacheKey)
+      return memoryResult
+    }
+
+    // Layer 2: LRU Cache
+    const lruResult = lruCacheService.get<EntityOf<K>>(cacheKey)
+    if (lruResult) {
+      console.log('[Cache L2] LRU hit:', cacheKey)
+      memoryCacheService.set(cacheKey, lruResult, tags)
+      return lruResult
+    }
+
+    // Layer 3: IndexedDB
+    const indexedDbResult = await indexedDbService.getCache<EntityOf<K>>(cacheKey)
+    if (indexedDbResult) {
+      console.log('[Cache L3] IndexedDB hit:', cacheKey)
+      lruCacheService.set(cacheKey, indexedDbResult, undefined, tags)
+      memoryCacheService.set(cacheKey, indexedDbResult, tags)
+      return indexedDbResult
+    }
+
+    return null
+  }
+
+  /**
+   * Layer 4: fetch an entity from the API
+   * Returns null offline or when the request fails
+   */
+  private async fetchEntity(id: string): Promise<EntityOf<K> | null> {
+    if (!networkStatusService.isCurrentlyOnline()) {
+      console.log('[Cache] Offline - no data available')
+      return null
+    }
+
+    try {
+      console.log('[Cache L4] API fetch:', this.keys.item(id))
+      this.setLoading(true)
+      return await this.requestEntity(id)
+    } catch (error) {
+      this.setError((error as Error).message)
+      return null
+    } finally {
+      this.setLoading(false)
+    }
+  }
+
+  /**
+   * Request an entity and populate all cache layers
+   */
+  private async requestEntity(id: string, config?: ApiRequestConfig): Promise<EntityOf<K>> {
+    const response = await apiService.get<TApi>(`${this.config.endpoint}/${id}`, config)
+    const entity = this.config.mapper.toDomain(response.data)
+
+    await this.cacheEntity(entity)
+
+    return entity
+  }
+
+  /**
+   * Look a list page up in the LRU and IndexedDB layers (lists skip memory)
+   */
+  private async readCachedList(
+    params: ListParams<TSort>,
+    search?: string
+  ): Promise<PaginatedResponse<EntityOf<K>> | null> {
+    const cacheKey = this.keys.list(params, search)
+
+    const cachedResult = lruCacheService.get<PaginatedResponse<EntityOf<K>>>(cacheKey)
+    if (cachedResult) {
+      console.log('[Cache L2] List hit:', cacheKey)
+      return cachedResult
+    }
+
+    const indexedDbResult = await indexedDbService.getCache<PaginatedResponse<EntityOf<K>>>(cacheKey)
+    if (indexedDbResult) {
+      console.log('[Cache L3] List hit:', cacheKey)
+      lruCacheService.set(cacheKey, indexedDbResult, undefined, this.listTags(indexedDbResult, search))
+      return indexedDbResult
+    }
+
+    return null
+  }
+
+  /**
+   * Fetch a list page from the API
+   * Returns null offline or when the request fails
+   */
+  private async fetchList(
+    params: ListParams<TSort>,
+    search?: string
+  ): Promise<PaginatedResponse<EntityOf<K>> | null> {
+    if (!networkStatusService.isCurrentlyOnline()) {
+      return null
+    }
+
+    try {
+      this.setLoading(true)
+      return await this.requestList(params, search)
+    } catch (error) {
+      this.setError((error as Error).message)
+      return null
+    } finally {
+      this.setLoading(false)
+    }
+  }
+
+  /**
+   * Request a list page and cache it along with its entities
+   */
+  private async requestList(
+    params: ListParams<TSort>,
+    search?: string,
+    config?: ApiRequestConfig
+  ): Promise<PaginatedResponse<EntityOf<K>>> {
+    const queryParams = new URLSearchParams({
+      page: params.page.toString(),
+      per_page: params.pageSize.toString(),
+    })
+
+    if (search) {
+      queryParams.append('search', search)
+    }
+
+    if (params.sortBy) {
+      queryParams.append('sort_by', params.sortBy)
+      queryParams.append('sort_order', params.sortOrder ?? 'asc')
+    }
+
+    for (const [field, value] of [...filterEntries(params.filter), ...rangeEntries(params.range)]) {
+      queryParams.append(field, String(value))
+    }
+
+    const response = await apiService.get<PaginatedApiResponse<TApi>>(
+      `${this.config.endpoint}?${queryParams.toString()}`,
+      config
+    )
+
+    const result: PaginatedResponse<EntityOf<K>> = {
+      data: response.data.data.map((dto) => this.config.mapper.toDomain(dto)),
+      page: response.data.page,
+      pageSize: response.data.per_page,
+      total: response.data.total,
+      totalPages: response.data.total_pages,
+    }
+
+    // Cache the result
+    const cacheKey = this.keys.list(params, search)
+    const tags = this.listTags(result, search)
+    lruCacheService.set(cacheKey, result, this.ttl.list, tags)
+    await indexedDbService.setCache(cacheKey, result, this.ttl.list, tags)
+
+    // Cache individual entities
+    for (const entity of result.data) {
+      await this.cacheEntity(entity)
+    }
+
+    this.state.value = { ...this.state.value, lastSync: new Date() }
+
+    return result
+  }
+
+  /**
+   * Refresh a cached value in the background (stale-while-revalidate)
+   * One refresh per key at a time; skipped offline, failures keep the cached value
+   */
+  private revalidate(cacheKey: string, refresh: () => Promise<void>): void {
+    if (this.revalidating.has(cacheKey) || !networkStatusService.isCurrentlyOnline()) return
+
+    this.revalidating.add(cacheKey)
+    refresh()
+      .catch((error: unknown) => {
+        console.warn('[Cache] Background refresh failed:', cacheKey, error)
+      })
+      .finally(() => {
+        this.revalidating.delete(cacheKey)
+      })
+  }
+
+  // ==========================================================================
+  // Offline Operations
+  // ==========================================================================
+
+  /**
+   * Create an entity offline
+   */
+  private async createOffline(dto: TCreate): Promise<EntityOf<K>> {
+    const entity = this.config.mapper.createOffline(dto)
+
+    // Cache the offline entity; cached lists no longer match, so offline lists
+    // are answered from the entity table
+    await this.cacheEntity(entity)
+    await this.invalidateListCache()
+
+    // Queue for sync
+    await indexedDbService.addPendingOperation({
+      type: 'create',
+      entity: this.config.entity,
+      entityId: entity.id,
+      payload: dto,
+      maxRetries: 3,
+    })
+    await offlineSyncService.notifyQueueChanged()
+
+    this.notifyChange('create', entity)
+
+    return entity
+  }
+
+  /**
+   * Update an entity offline
+   */
+  private async updateOffline(existing: EntityOf<K>, dto: TUpdate): Promise<EntityOf<K>> {
+    const updated = this.config.mapper.applyUpdate(existing, dto)
+
+    // Update cache
+    await this.cacheEntity(updated)
+    await this.invalidateListCache()
+
+    // Queue for sync, recording the version the change is based on. An entity
+    // whose create has not synced yet has no server version to conflict with
+    await indexedDbService.addPendingOperation({
+      type: 'update',
+      entity: this.config.entity,
+      entityId: existing.id,
+      payload: dto,
+      maxRetries: 3,
+      ...(!isOfflineId(existing.id) && {
+        baseVersion: existing.updatedAt.toISOString(),
+        base: { ...(this.config.mapper.toUpdateDto(existing) as Record<string, unknown>) },
+      }),
+    })
+    await offlineSyncService.notifyQueueChanged()
+
+    this.notifyChange('update', updated)
+
+    return updated
+  }
+
+  /**
+   * Delete an entity offline
+   */
+  private async deleteOffline(existing: EntityOf<K>): Promise<void> {
+    // Remove from cache
+    await this.removeFromCache(existing.id)
+    await this.invalidateListCache()
+
+    // Queue for sync
+    await indexedDbService.addPendingOperation({
+      type: 'delete',
+      entity: this.config.entity,
+      entityId: existing.id,
+      payload: null,
+      maxRetries: 3,
+    })
+    await offlineSyncService.notifyQueueChanged()
+
+    this.notifyChange('delete', existing)
+  }
+
+  /**
+   * Get a list page from the normalized entity table
+   */
+  private async getOfflineList(params: ListParams<TSort>, search?: string): Promise<PaginatedResponse<EntityOf<K>>> {
+    const { items, total } = await indexedDbService.queryEntities(this.config.table, {
+      search,
+      searchFields: this.config.searchFields,
+      where: params.filter as Partial<Record<SortFieldOf<K>, unknown>> | undefined,
+      range: params.range as Partial<Record<SortFieldOf<K>, DateBounds>> | undefined,
+      sortBy: params.sortBy,
+      sortOrder: params.sortOrder,
+      offset: (params.page - 1) * params.pageSize,
+      limit: params.pageSize,
+    })
+
+    return {
+      data: items,
+      page: params.page,
+      pageSize: params.pageSize,
+      total,
+      totalPages: Math.ceil(total / params.pageSize),
+    }
+  }
+
+  // ==========================================================================
+  // Sync Operations
+  // ==========================================================================
+
+  /**
+   * Sync pending operations when online
+   * Delegates to the offline sync service, which drains the shared queue
+   */
+  async syncPendingOperations(): Promise<void> {
+    await offlineSyncService.sync()
+  }
+
+  private async syncCreate(op: PendingOperation): Promise<void> {
+    const dto = op.payload as TCreate
+    const response = await apiService.post<TApi>(
+      this.config.endpoint,
+      this.config.mapper.toCreateApiDto(dto),
+      syncRequest(op)
+    )
+    const entity = this.config.mapper.toDomain(response.data)
+
+    // Remove offline entity and cache real entity
+    await this.removeFromCache(op.entityId)
+    await this.cacheEntity(entity)
+    await this.invalidateListCache()
+
+    // Point queued operations and open views at the server ID
+    await idMappingService.reconcile(this.config.entity, op.entityId, entity.id)
+  }
+
+  private async syncUpdate(op: PendingOperation): Promise<void> {
+    const dto = op.payload as TUpdate
+    const url = `${this.config.endpoint}/${op.entityId}`
+
+    // Optimistic concurrency: the server must still be at the version the change was based on
+    if (op.baseVersion) {
+      const current = await apiService.get<TApi>(url, syncRequest(op))
+      const serverVersion = current.data.updated_at
+      if (serverVersion && new Date(serverVersion).getTime() !== new Date(op.baseVersion).getTime()) {
+        throw this.conflictError(op, current.data)
+      }
+    }
+
+    try {
+      const response = await apiService.put<TApi>(url, this.config.mapper.toUpdateApiDto(dto), syncRequest(op))
+      const entity = this.config.mapper.toDomain(response.data)
+      await this.cacheEntity(entity)
+      this.notifyChange('update', entity)
+    } catch (error) {
+      // 409 from the server - attach both versions so a strategy can resolve it
+      if (error instanceof AppError && error.category === ErrorCategory.CONFLICT && !error.details) {
+        const current = await apiService.get<TApi>(url, syncRequest(op))
+        throw this.conflictError(op, current.data)
+      }
+      throw error
+    }
+  }
+
+  private async syncDelete(op: PendingOperation): Promise<void> {
+    await apiService.delete(`${this.config.endpoint}/${op.entityId}`, syncRequest(op))
+  }
+
+  /**
+   * Roll back the local effect of a failed operation the user discarded
+   * A never-synced create only exists locally; anything else reloads the server
+   * copy, or is removed when the server no longer has it. Other reload failures
+   * leave the local copy for the next read to replace
+   */
+  private async discardOperation(op: PendingOperation): Promise<void> {
+    if (op.type === 'create') {
+      await this.removeLocalCopy(op.entityId)
+      return
+    }
+
+    try {
+      await this.refreshFromServer(op.entityId)
+    } catch (error) {
+      if (error instanceof AppError && error.category === ErrorCategory.NOT_FOUND) {
+        await this.removeLocalCopy(op.entityId)
+        return
+      }
+      console.warn(`[Sync] Could not reload ${this.config.entity} ${op.entityId} after discarding:`, error)
+    }
+  }
+
+  /**
+   * Drop an entity from every cache layer and tell views it is gone
+   */
+  private async removeLocalCopy(id: string): Promise<void> {
+    const entity = await indexedDbService.getCache<EntityOf<K>>(this.keys.item(id))
+    await this.removeFromCache(id)
+    await this.invalidateListCache()
+    if (entity) {
+      this.notifyChange('delete', entity)
+    }
+  }
+
+  /**
+   * Reload an entity after its offline change was dropped in favor of the server
+   */
+  private async refreshFromServer(id: string): Promise<void> {
+    const entity = await this.requestEntity(id)
+
+    await this.invalidateListCache()
+    this.notifyChange('update', entity)
+  }
+
+  /**
+   * Build a conflict error carrying the local change and the server version
+   */
+  private conflictError(op: PendingOperation, serverDto: TApi): AppError {
+    const server = this.config.mapper.toDomain(serverDto)
+
+    return AppError.conflict(`${this.config.label} was modified on the server`, {
+      entity: this.config.entity,
+      entityId: op.entityId,
+      baseVersion: op.baseVersion ?? null,
+      serverVersion: serverDto.updated_at ?? null,
+      base: op.base ?? null,
+      local: { ...(op.payload as TUpdate) },
+      server: { ...this.config.mapper.toUpdateDto(server) },
+    })
+  }
+
+  // ==========================================================================
+  // Cache Management
+  // ==========================================================================
+
+  private get listsTag(): string {
+    return `${this.config.table}:list`
+  }
+
+  private itemTag(id: string): string {
+    return `${this.config.entity}:${id}`
+  }
+
+  private entityTags(id: string): string[] {
+    return [this.config.table, this.itemTag(id)]
+  }
+
+  private listTags(list: PaginatedResponse<EntityOf<K>>, search?: string): string[] {
+    return [
+      this.config.table,
+      this.listsTag,
+      ...list.data.map((entity) => this.itemTag(entity.id)),
+      ...(search ? [`${this.config.table}:search:${search}`] : []),
+    ]
+  }
+
+  /**
+   * Cache an entity in all layers and in its table
+   */
+  private async cacheEntity(entity: EntityOf<K>): Promise<void> {
+    const cacheKey = this.keys.item(entity.id)
+    const tags = this.entityTags(entity.id)
+
+    memoryCacheService.set(cacheKey, entity, tags)
+    lruCacheService.set(cacheKey, entity, this.ttl.item, tags)
+    await indexedDbService.setCache(cacheKey, entity, this.ttl.persistent, tags)
+    await indexedDbService.putEntities(this.config.table, [entity])
+  }
+
+  /**
+   * Remove an entity, and every list page holding it, from all cache layers
+   */
+  private async removeFromCache(id: string): Promise<void> {
+    await cacheInvalidationService.invalidateTags([this.itemTag(id)])
+    await indexedDbService.deleteEntity(this.config.table, id)
+  }
+
+  /**
+   * Invalidate every list page in all layers and tabs
+   */
+  private async invalidateListCache(): Promise<void> {
+    await cacheInvalidationService.invalidateTags([this.listsTag])
+  }
+
+  /**
+   * Clear every cached entry of this entity in every tab
+   */
+  async clearCache(): Promise<void> {
+    await cacheInvalidationService.invalidateTags([this.config.table])
+    await indexedDbService.clearEntities(this.config.table)
+  }
+
+  // ==========================================================================
+  // State Management
+  // ==========================================================================
+
+  private setLoading(loading: boolean): void {
+    this.state.value = { ...this.state.value, loading }
+  }
+
+  private setError(error: string | null): void {
+    this.state.value = { ...this.state.value, error }
+  }
+
+  /**
+   * Report a change to this tab's views and to the other tabs
+   */
+  private notifyChange(type: 'create' | 'update' | 'delete', entity: EntityOf<K>): void {
+    this.changes.next({ type, entity })
+    crossTabService.publish({ type: 'entity:changed', entity: this.config.entity, change: type, data: entity })
+  }
+
+  /**
+   * Observable for entity changes (including changes made in other tabs)
+   */
+  get changes$() {
+    return this.changes.asObservable()
+  }
+
+  /**
+   * Observable for offline IDs replaced by server IDs
+   */
+  get idMappings$() {
+    return idMappingService.mappings$.pipe(filter((mapping) => mapping.entity === this.config.entity))
+  }
+
+  /**
+   * Get cache statistics
+   */
+  async getCacheStats() {
+    return {
+      memory: memoryCacheService.stats,
+      lru: lruCacheService.stats,
+      indexedDb: await indexedDbService.getStats(),
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// =============================================================================
+// Task Repository Conformance Tests
+// =============================================================================
+
+import { vi } from 'vitest'
+import type { SyncHandler } from '../sync/offlineSyncService'
+
+const { mockApi, syncHandlers, network } = vi.hoisted(() => ({
+  mockApi: { get: vi.fn(), post: vi.fn(), put: vi.fn(), delete: vi.fn() },
+  syncHandlers: new Map<string, SyncHandler>(),
+  network: { online: true },
+}))
+
+vi.mock('../api/apiService', () => ({ apiService: mockApi }))
+
+vi.mock('../sync/offlineSyncService', () => ({
+  offlineSyncService: {
+    registerHandler: (entity: string, handler: SyncHandler) => syncHandlers.set(entity, handler),
+    sync: vi.fn(),
+    notifyQueueChanged: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => network.online,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+import { describeRepositoryConformance } from '@/test/conformance/repositoryConformance'
+import { TaskStatus, TaskPriority } from '@/app/domain/entities/task.model'
+import { taskRepository, TASK_ENTITY_CONFIG } from './taskRepository'
+
+describeRepositoryConformance('TaskRepository', () => ({
+  repository: taskRepository,
+  config: TASK_ENTITY_CONFIG,
+  api: mockApi,
+  syncHandlers,
+  setOnline: (online) => {
+    network.online = online
+  },
+  apiDto: (id, overrides) => ({
+    id,
+    title: `Task ${id}`,
+    description: 'Conformance fixture',
+    status: TaskStatus.TODO,
+    priority: TaskPriority.HIGH,
+    due_date: '2024-02-01T00:00:00.000Z',
+    assignee_id: 1,
+    project_id: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }),
+  createDto: { title: 'Triage bugs', assigneeId: '1' },
+  updateDto: { status: TaskStatus.IN_PROGRESS },
+  invalidCreateDto: { title: '' },
+}))
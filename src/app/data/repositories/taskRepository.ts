@@ -0,0 +1,70 @@
+// =============================================================================
+// Task Repository - 4-Layer Caching Architecture
+// =============================================================================
+// Same offline-first stack as users (see repository.ts), configured for tasks.
+// =============================================================================
+
+import { map } from 'rxjs/operators'
+
+import type {
+  CreateTaskDto,
+  UpdateTaskDto,
+  TaskListParams,
+  TaskSortField,
+} from '@/app/domain/entities/task.model'
+import type { TaskChange } from '@/app/domain/services/taskService'
+import { taskValidator } from '@/app/domain/validators/taskValidator'
+import { taskMapper, type TaskApiDto } from '../mappers/taskMapper'
+import { Repository, type EntityConfig } from './repository'
+
+/**
+ * Task entity configuration
+ */
+export const TASK_ENTITY_CONFIG: EntityConfig<
+  'tasks',
+  TaskApiDto,
+  CreateTaskDto,
+  UpdateTaskDto,
+  TaskSortField
+> = {
+  entity: 'task',
+  label: 'Task',
+  endpoint: '/tasks',
+  table: 'tasks',
+  searchFields: ['title', 'description'],
+  mapper: taskMapper,
+  validator: taskValidator,
+}
+
+/**
+ * Task Repository
+ * Implements offline-first 4-layer caching strategy
+ */
+class TaskRepository extends Repository<
+  'tasks',
+  TaskApiDto,
+  CreateTaskDto,
+  UpdateTaskDto,
+  TaskSortField
+> {
+  constructor() {
+    super(TASK_ENTITY_CONFIG)
+  }
+
+  /**
+   * Observable for task updates (including changes made in other tabs)
+   */
+  get updates$() {
+    return this.changes$.pipe(
+      map(
+        (change): TaskChange =>
+          change.type === 'list'
+            ? { ...change, params: change.params as TaskListParams }
+            : { type: change.type, task: change.entity }
+      )
+    )
+  }
+}
+
+// Export singleton instance
+export const taskRepository = new TaskRepository()
@@ -0,0 +1,54 @@
+// =============================================================================
+// User Repository Conformance Tests
+// =============================================================================
+
+import { vi } from 'vitest'
+import type { SyncHandler } from '../sync/offlineSyncService'
+
+const { mockApi, syncHandlers, network } = vi.hoisted(() => ({
+  mockApi: { get: vi.fn(), post: vi.fn(), put: vi.fn(), delete: vi.fn() },
+  syncHandlers: new Map<string, SyncHandler>(),
+  network: { online: true },
+}))
+
+vi.mock('../api/apiService', () => ({ apiService: mockApi }))
+
+vi.mock('../sync/offlineSyncService', () => ({
+  offlineSyncService: {
+    registerHandler: (entity: string, handler: SyncHandler) => syncHandlers.set(entity, handler),
+    sync: vi.fn(),
+    notifyQueueChanged: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => network.online,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+import { describeRepositoryConformance } from '@/test/conformance/repositoryConformance'
+import { userRepository, USER_ENTITY_CONFIG } from './userRepository'
+
+describeRepositoryConformance('UserRepository', () => ({
+  repository: userRepository,
+  config: USER_ENTITY_CONFIG,
+  api: mockApi,
+  syncHandlers,
+  setOnline: (online) => {
+    network.online = online
+  },
+  apiDto: (id, overrides) => ({
+    id,
+    email: `user${id}@example.com`,
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }),
+  createDto: { email: 'grace@example.com', firstName: 'Grace', lastName: 'Hopper' },
+  updateDto: { firstName: 'Augusta' },
+  invalidCreateDto: { email: 'not-an-email', firstName: 'Grace', lastName: 'Hopper' },
+}))
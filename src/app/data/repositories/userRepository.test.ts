@@ -5,39 +5,47 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import type { User, CreateUserDto, UpdateUserDto } from '@/app/domain/entities/user.model'
 import type { UserApiDto, PaginatedApiResponse } from '../mappers/userMapper'
+import type { SyncConflict } from '@/app/domain/entities/sync-conflict.model'
+import type { UserChange } from '@/app/domain/services/userService'
+import { AppError, ErrorCategory } from '@/app/domain/entities/app-error.model'
 
 // ---------------------------------------------------------------------------
 // vi.hoisted() — declare all mocks that vi.mock() factories reference
 // ---------------------------------------------------------------------------
 const {
-  mockMemoryGet, mockMemorySet, mockMemoryDelete, mockMemoryClearByPrefix, mockMemoryStats,
-  mockLruGet, mockLruSet, mockLruDelete, mockLruClearByPrefix, mockLruStats,
-  mockIdbGetCache, mockIdbSetCache, mockIdbDeleteCache, mockIdbClearCacheByPrefix,
+  mockMemoryGet, mockMemorySet, mockMemoryInvalidateTags, mockMemoryStats,
+  mockLruGet, mockLruSet, mockLruInvalidateTags, mockLruStats,
+  mockIdbGetCache, mockIdbSetCache,
   mockIdbAddPendingOp, mockIdbGetPendingByEntity, mockIdbUpdatePendingOp, mockIdbDeletePendingOp, mockIdbGetStats,
+  mockIdbPutEntities, mockIdbDeleteEntity, mockIdbQueryEntities, mockIdbClearEntities,
   mockApiGet, mockApiPost, mockApiPut, mockApiDelete,
   mockIsCurrentlyOnline,
+  mockSyncRegisterHandler, mockSyncSync, mockSyncNotifyQueueChanged,
+  mockReconcile, mockResolveId,
+  mockCrossTabPublish,
+  mockInvalidateTags,
 } = vi.hoisted(() => ({
   mockMemoryGet: vi.fn().mockReturnValue(null),
   mockMemorySet: vi.fn(),
-  mockMemoryDelete: vi.fn(),
-  mockMemoryClearByPrefix: vi.fn(),
+  mockMemoryInvalidateTags: vi.fn(),
   mockMemoryStats: { size: 0, maxSize: 100, hits: 0, misses: 0, hitRate: 0 },
 
   mockLruGet: vi.fn().mockReturnValue(null),
   mockLruSet: vi.fn(),
-  mockLruDelete: vi.fn(),
-  mockLruClearByPrefix: vi.fn(),
+  mockLruInvalidateTags: vi.fn(),
   mockLruStats: { size: 0, maxSize: 500, hits: 0, misses: 0, evictions: 0, hitRate: 0 },
 
   mockIdbGetCache: vi.fn().mockResolvedValue(null),
   mockIdbSetCache: vi.fn().mockResolvedValue(undefined),
-  mockIdbDeleteCache: vi.fn().mockResolvedValue(undefined),
-  mockIdbClearCacheByPrefix: vi.fn().mockResolvedValue(undefined),
   mockIdbAddPendingOp: vi.fn().mockResolvedValue(1),
   mockIdbGetPendingByEntity: vi.fn().mockResolvedValue([]),
   mockIdbUpdatePendingOp: vi.fn().mockResolvedValue(undefined),
   mockIdbDeletePendingOp: vi.fn().mockResolvedValue(undefined),
   mockIdbGetStats: vi.fn().mockResolvedValue({ cacheCount: 0, pendingCount: 0, cacheSize: 0 }),
+  mockIdbPutEntities: vi.fn().mockResolvedValue(undefined),
+  mockIdbDeleteEntity: vi.fn().mockResolvedValue(undefined),
+  mockIdbQueryEntities: vi.fn().mockResolvedValue({ items: [], total: 0 }),
+  mockIdbClearEntities: vi.fn().mockResolvedValue(undefined),
 
   mockApiGet: vi.fn(),
   mockApiPost: vi.fn(),
@@ -45,14 +53,24 @@ const {
   mockApiDelete: vi.fn(),
 
   mockIsCurrentlyOnline: vi.fn().mockReturnValue(true),
+
+  mockSyncRegisterHandler: vi.fn(),
+  mockSyncSync: vi.fn().mockResolvedValue(undefined),
+  mockSyncNotifyQueueChanged: vi.fn().mockResolvedValue(undefined),
+
+  mockReconcile: vi.fn().mockResolvedValue(undefined),
+  mockResolveId: vi.fn((id: string) => Promise.resolve(id)),
+
+  mockCrossTabPublish: vi.fn(),
+
+  mockInvalidateTags: vi.fn().mockResolvedValue(undefined),
 }))
 
 vi.mock('../storage/memoryCacheService', () => ({
   memoryCacheService: {
     get: (...args: unknown[]) => mockMemoryGet(...args),
     set: (...args: unknown[]) => mockMemorySet(...args),
-    delete: (...args: unknown[]) => mockMemoryDelete(...args),
-    clearByPrefix: (...args: unknown[]) => mockMemoryClearByPrefix(...args),
+    invalidateTags: (...args: unknown[]) => mockMemoryInvalidateTags(...args),
     stats: mockMemoryStats,
   },
 }))
@@ -61,8 +79,7 @@ vi.mock('../storage/lruCacheService', () => ({
   lruCacheService: {
     get: (...args: unknown[]) => mockLruGet(...args),
     set: (...args: unknown[]) => mockLruSet(...args),
-    delete: (...args: unknown[]) => mockLruDelete(...args),
-    clearByPrefix: (...args: unknown[]) => mockLruClearByPrefix(...args),
+    invalidateTags: (...args: unknown[]) => mockLruInvalidateTags(...args),
     stats: mockLruStats,
   },
 }))
@@ -71,13 +88,21 @@ vi.mock('../storage/indexedDbService', () => ({
   indexedDbService: {
     getCache: (...args: unknown[]) => mockIdbGetCache(...args),
     setCache: (...args: unknown[]) => mockIdbSetCache(...args),
-    deleteCache: (...args: unknown[]) => mockIdbDeleteCache(...args),
-    clearCacheByPrefix: (...args: unknown[]) => mockIdbClearCacheByPrefix(...args),
     addPendingOperation: (...args: unknown[]) => mockIdbAddPendingOp(...args),
     getPendingOperationsByEntity: (...args: unknown[]) => mockIdbGetPendingByEntity(...args),
     updatePendingOperation: (...args: unknown[]) => mockIdbUpdatePendingOp(...args),
     deletePendingOperation: (...args: unknown[]) => mockIdbDeletePendingOp(...args),
     getStats: (...args: unknown[]) => mockIdbGetStats(...args),
+    putEntities: (...args: unknown[]) => mockIdbPutEntities(...args),
+    deleteEntity: (...args: unknown[]) => mockIdbDeleteEntity(...args),
+    queryEntities: (...args: unknown[]) => mockIdbQueryEntities(...args),
+    clearEntities: (...args: unknown[]) => mockIdbClearEntities(...args),
+  },
+}))
+
+vi.mock('../sync/cacheInvalidationService', () => ({
+  cacheInvalidationService: {
+    invalidateTags: (...args: unknown[]) => mockInvalidateTags(...args),
   },
 }))
 
@@ -90,6 +115,37 @@ vi.mock('../api/apiService', () => ({
   },
 }))
 
+vi.mock('../sync/offlineSyncService', () => ({
+  offlineSyncService: {
+    registerHandler: (...args: unknown[]) => mockSyncRegisterHandler(...args),
+    sync: (...args: unknown[]) => mockSyncSync(...args),
+    notifyQueueChanged: () => mockSyncNotifyQueueChanged(),
+  },
+}))
+
+vi.mock('../sync/idMappingService', () => ({
+  idMappingService: {
+    reconcile: (...args: unknown[]) => mockReconcile(...args),
+    resolve: (...args: unknown[]) => mockResolveId(...(args as [string])),
+    mappings$: { pipe: () => ({ subscribe: vi.fn() }) },
+  },
+}))
+
+// Messages from other tabs are pushed through crossTabMessages
+vi.mock('../sync/crossTabService', async () => {
+  const { Subject } = await import('rxjs')
+  const { filter } = await import('rxjs/operators')
+  const crossTabMessages = new Subject<{ type: string }>()
+
+  return {
+    crossTabMessages,
+    crossTabService: {
+      publish: (...args: unknown[]) => mockCrossTabPublish(...args),
+      on: (type: string) => crossTabMessages.pipe(filter((message) => message.type === type)),
+    },
+  }
+})
+
 vi.mock('@/app/domain/services/networkStatusService', () => ({
   networkStatusService: {
     isCurrentlyOnline: () => mockIsCurrentlyOnline(),
@@ -104,6 +160,18 @@ vi.stubGlobal('crypto', {
 
 // Import after mocks
 import { userRepository } from './userRepository'
+import type { PendingOperation } from '../storage/indexedDbService'
+import type { CrossTabMessage } from '../sync/crossTabService'
+import * as crossTabModule from '../sync/crossTabService'
+
+const { crossTabMessages } = crossTabModule as unknown as { crossTabMessages: { next: (message: CrossTabMessage) => void } }
+
+// Capture the sync handlers registered at construction time (before clearAllMocks)
+type SyncHandlers = Record<'create' | 'update' | 'delete', (op: PendingOperation) => Promise<void>> & {
+  acceptServer: (conflict: SyncConflict) => Promise<void>
+  discard: (op: PendingOperation) => Promise<void>
+}
+const [registeredEntity, syncHandlers] = mockSyncRegisterHandler.mock.calls[0] as [string, SyncHandlers]
 
 // ---------------------------------------------------------------------------
 // Test helpers
@@ -130,6 +198,13 @@ const mockApiUser: UserApiDto = {
   updated_at: '2025-06-15T10:00:00.000Z',
 }
 
+const mockList = { data: [mockUser], page: 1, pageSize: 10, total: 1, totalPages: 1 }
+
+/** Let background refreshes settle */
+function flushPromises() {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
 describe('UserRepository', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -137,12 +212,25 @@ describe('UserRepository', () => {
     mockMemoryGet.mockReturnValue(null)
     mockLruGet.mockReturnValue(null)
     mockIdbGetCache.mockResolvedValue(null)
+    mockIdbQueryEntities.mockResolvedValue({ items: [], total: 0 })
+    mockResolveId.mockImplementation((id: string) => Promise.resolve(id))
   })
 
   // ==========================================================================
   // getById - 4-layer cache
   // ==========================================================================
   describe('getById', () => {
+    it('resolves reconciled offline IDs before looking up caches', async () => {
+      mockResolveId.mockResolvedValue('1')
+      mockMemoryGet.mockReturnValue(mockUser)
+
+      const result = await userRepository.getById('offline_abc')
+
+      expect(result).toEqual(mockUser)
+      expect(mockResolveId).toHaveBeenCalledWith('offline_abc')
+      expect(mockMemoryGet).toHaveBeenCalledWith('user:1')
+    })
+
     it('returns from memory cache (L1) if found', async () => {
       mockMemoryGet.mockReturnValue(mockUser)
 
@@ -160,7 +248,7 @@ describe('UserRepository', () => {
       const result = await userRepository.getById('1')
 
       expect(result).toEqual(mockUser)
-      expect(mockMemorySet).toHaveBeenCalledWith('user:1', mockUser)
+      expect(mockMemorySet).toHaveBeenCalledWith('user:1', mockUser, ['users', 'user:1'])
       expect(mockIdbGetCache).not.toHaveBeenCalled()
       expect(mockApiGet).not.toHaveBeenCalled()
     })
@@ -171,8 +259,8 @@ describe('UserRepository', () => {
       const result = await userRepository.getById('1')
 
       expect(result).toEqual(mockUser)
-      expect(mockLruSet).toHaveBeenCalledWith('user:1', mockUser)
-      expect(mockMemorySet).toHaveBeenCalledWith('user:1', mockUser)
+      expect(mockLruSet).toHaveBeenCalledWith('user:1', mockUser, undefined, ['users', 'user:1'])
+      expect(mockMemorySet).toHaveBeenCalledWith('user:1', mockUser, ['users', 'user:1'])
     })
 
     it('fetches from API (L4) when not in any cache', async () => {
@@ -182,7 +270,7 @@ describe('UserRepository', () => {
 
       expect(result).toBeDefined()
       expect(result!.email).toBe('john@example.com')
-      expect(mockApiGet).toHaveBeenCalledWith('/users/1')
+      expect(mockApiGet).toHaveBeenCalledWith('/users/1', undefined)
     })
 
     it('caches API result in all layers', async () => {
@@ -263,6 +351,7 @@ describe('UserRepository', () => {
 
       expect(result.data).toHaveLength(1)
       expect(result.data[0].email).toBe('john@example.com')
+      expect(mockIdbPutEntities).toHaveBeenCalledWith('users', [result.data[0]])
     })
 
     it('appends search parameter when provided', async () => {
@@ -277,33 +366,80 @@ describe('UserRepository', () => {
 
       await userRepository.getList({ page: 1, pageSize: 10 }, 'john')
 
-      expect(mockApiGet).toHaveBeenCalledWith(expect.stringContaining('search=john'))
+      expect(mockApiGet).toHaveBeenCalledWith(expect.stringContaining('search=john'), undefined)
+    })
+
+    it('appends sort parameters and keys the cache by sort', async () => {
+      const apiResponse: PaginatedApiResponse<UserApiDto> = {
+        data: [],
+        page: 1,
+        per_page: 10,
+        total: 0,
+        total_pages: 0,
+      }
+      mockApiGet.mockResolvedValue({ data: apiResponse, status: 200, headers: {} })
+
+      await userRepository.getList({ page: 1, pageSize: 10, sortBy: 'lastName', sortOrder: 'desc' })
+
+      expect(mockApiGet).toHaveBeenCalledWith(expect.stringContaining('sort_by=lastName&sort_order=desc'), undefined)
+      expect(mockLruGet).toHaveBeenCalledWith('users:list:1:10::lastName:desc')
+    })
+
+    it('appends date bounds and keys the cache by them', async () => {
+      const apiResponse: PaginatedApiResponse<UserApiDto> = {
+        data: [],
+        page: 1,
+        per_page: 10,
+        total: 0,
+        total_pages: 0,
+      }
+      mockApiGet.mockResolvedValue({ data: apiResponse, status: 200, headers: {} })
+      const from = new Date('2025-01-01T00:00:00Z')
+      const to = new Date('2025-02-01T00:00:00Z')
+
+      await userRepository.getList({ page: 1, pageSize: 10, range: { createdAt: { from, to }, updatedAt: undefined } })
+
+      expect(mockApiGet).toHaveBeenCalledWith(
+        expect.stringContaining('createdAt_from=2025-01-01T00%3A00%3A00.000Z&createdAt_to=2025-02-01T00%3A00%3A00.000Z'),
+        undefined
+      )
+      expect(mockLruGet).toHaveBeenCalledWith(
+        'users:list:1:10::createdAt_from=2025-01-01T00:00:00.000Z:createdAt_to=2025-02-01T00:00:00.000Z'
+      )
     })
 
     it('falls back to offline list when API fails', async () => {
       mockApiGet.mockRejectedValue(new Error('Network Error'))
-      mockIdbGetCache.mockImplementation((key: string) => {
-        if (key === 'users:all') return Promise.resolve([mockUser])
-        return Promise.resolve(null)
-      })
+      mockIdbQueryEntities.mockResolvedValue({ items: [mockUser], total: 1 })
 
       const result = await userRepository.getList({ page: 1, pageSize: 10 })
 
-      expect(result).toBeDefined()
-      expect(result.data).toBeDefined()
+      expect(result.data).toEqual([mockUser])
+      expect(result.total).toBe(1)
     })
 
-    it('returns offline list when offline', async () => {
+    it('queries the users table when offline', async () => {
       mockIsCurrentlyOnline.mockReturnValue(false)
-      mockIdbGetCache.mockImplementation((key: string) => {
-        if (key === 'users:all') return Promise.resolve([mockUser])
-        return Promise.resolve(null)
-      })
+      mockIdbQueryEntities.mockResolvedValue({ items: [mockUser], total: 23 })
 
-      const result = await userRepository.getList({ page: 1, pageSize: 10 })
+      const range = { createdAt: { from: new Date('2025-01-01T00:00:00Z') } }
+
+      const result = await userRepository.getList(
+        { page: 3, pageSize: 10, sortBy: 'createdAt', sortOrder: 'desc', range },
+        'jo'
+      )
 
-      expect(result).toBeDefined()
       expect(mockApiGet).not.toHaveBeenCalled()
+      expect(mockIdbQueryEntities).toHaveBeenCalledWith('users', {
+        search: 'jo',
+        searchFields: ['firstName', 'lastName', 'email'],
+        range,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+        offset: 20,
+        limit: 10,
+      })
+      expect(result).toEqual({ data: [mockUser], page: 3, pageSize: 10, total: 23, totalPages: 3 })
     })
   })
 
@@ -358,6 +494,7 @@ describe('UserRepository', () => {
         type: 'create',
         entity: 'user',
       }))
+      expect(mockSyncNotifyQueueChanged).toHaveBeenCalled()
     })
 
     it('falls back to offline creation on network error', async () => {
@@ -420,6 +557,35 @@ describe('UserRepository', () => {
       }))
     })
 
+    it('records the version and fields the offline change is based on', async () => {
+      mockIsCurrentlyOnline.mockReturnValue(false)
+      mockMemoryGet.mockReturnValue(mockUser)
+
+      await userRepository.update('1', updateDto)
+
+      expect(mockIdbAddPendingOp).toHaveBeenCalledWith(expect.objectContaining({
+        baseVersion: now.toISOString(),
+        base: {
+          email: 'john@example.com',
+          firstName: 'John',
+          lastName: 'Doe',
+          avatar: 'https://example.com/avatar.png',
+        },
+      }))
+    })
+
+    it('records no base version for a user whose create has not synced', async () => {
+      mockIsCurrentlyOnline.mockReturnValue(false)
+      mockMemoryGet.mockReturnValue({ ...mockUser, id: 'offline_123' })
+
+      await userRepository.update('offline_123', updateDto)
+
+      const op = mockIdbAddPendingOp.mock.calls[0][0]
+      expect(op).toMatchObject({ type: 'update', entityId: 'offline_123' })
+      expect(op).not.toHaveProperty('baseVersion')
+      expect(op).not.toHaveProperty('base')
+    })
+
     it('falls back to offline update on network error', async () => {
       mockMemoryGet.mockReturnValue(mockUser)
       mockApiPut.mockRejectedValue(new Error('network failure'))
@@ -441,9 +607,9 @@ describe('UserRepository', () => {
       await userRepository.delete('1')
 
       expect(mockApiDelete).toHaveBeenCalledWith('/users/1')
-      expect(mockMemoryDelete).toHaveBeenCalledWith('user:1')
-      expect(mockLruDelete).toHaveBeenCalledWith('user:1')
-      expect(mockIdbDeleteCache).toHaveBeenCalledWith('user:1')
+      expect(mockInvalidateTags).toHaveBeenCalledWith(['user:1'])
+      expect(mockInvalidateTags).toHaveBeenCalledWith(['users:list'])
+      expect(mockIdbDeleteEntity).toHaveBeenCalledWith('users', '1')
     })
 
     it('throws when user not found', async () => {
@@ -485,127 +651,432 @@ describe('UserRepository', () => {
   })
 
   // ==========================================================================
-  // syncPendingOperations
+  // Sync handlers (registered with offlineSyncService)
   // ==========================================================================
-  describe('syncPendingOperations', () => {
-    it('does nothing when offline', async () => {
-      mockIsCurrentlyOnline.mockReturnValue(false)
-
-      await userRepository.syncPendingOperations()
-
-      expect(mockIdbGetPendingByEntity).not.toHaveBeenCalled()
+  describe('sync handlers', () => {
+    it('registers create/update/delete handlers for the user entity', () => {
+      expect(registeredEntity).toBe('user')
+      expect(typeof syncHandlers.create).toBe('function')
+      expect(typeof syncHandlers.update).toBe('function')
+      expect(typeof syncHandlers.delete).toBe('function')
     })
 
-    it('processes create operations', async () => {
-      const ops = [{
+    it('create handler posts the queued dto and swaps the offline user', async () => {
+      const op: PendingOperation = {
         id: 1,
-        type: 'create' as const,
+        type: 'create',
         entity: 'user',
         entityId: 'offline_123',
         payload: { email: 'a@b.com', firstName: 'A', lastName: 'B' },
         timestamp: Date.now(),
         retries: 0,
         maxRetries: 3,
-        status: 'pending' as const,
-      }]
-      mockIdbGetPendingByEntity.mockResolvedValue(ops)
-
+        status: 'processing',
+        idempotencyKey: 'key-1',
+      }
       const newApiUser: UserApiDto = { id: 100, email: 'a@b.com', first_name: 'A', last_name: 'B' }
       mockApiPost.mockResolvedValue({ data: newApiUser, status: 201, headers: {} })
 
-      await userRepository.syncPendingOperations()
+      await syncHandlers.create(op)
 
-      expect(mockApiPost).toHaveBeenCalledWith('/users', expect.any(Object))
-      expect(mockIdbDeletePendingOp).toHaveBeenCalledWith(1)
+      // Replays carry the operation's idempotency key so the server can drop duplicates
+      expect(mockApiPost).toHaveBeenCalledWith('/users', expect.any(Object), {
+        priority: 'background',
+        idempotencyKey: 'key-1',
+      })
+      expect(mockInvalidateTags).toHaveBeenCalledWith(['user:offline_123'])
+      expect(mockIdbSetCache).toHaveBeenCalledWith('user:100', expect.any(Object), expect.any(Number), ['users', 'user:100'])
+      expect(mockReconcile).toHaveBeenCalledWith('user', 'offline_123', '100')
     })
 
-    it('processes update operations', async () => {
-      const ops = [{
+    it('update handler puts the queued dto', async () => {
+      const op: PendingOperation = {
         id: 2,
-        type: 'update' as const,
+        type: 'update',
         entity: 'user',
         entityId: '1',
         payload: { firstName: 'Updated' },
         timestamp: Date.now(),
         retries: 0,
         maxRetries: 3,
-        status: 'pending' as const,
-      }]
-      mockIdbGetPendingByEntity.mockResolvedValue(ops)
-
+        status: 'processing',
+      }
       const updatedApiUser: UserApiDto = { id: 1, email: 'john@example.com', first_name: 'Updated', last_name: 'Doe' }
       mockApiPut.mockResolvedValue({ data: updatedApiUser, status: 200, headers: {} })
 
-      await userRepository.syncPendingOperations()
+      await syncHandlers.update(op)
+
+      expect(mockApiPut).toHaveBeenCalledWith('/users/1', expect.any(Object), { priority: 'background' })
+    })
+
+    it('update handler raises a conflict when the server moved past the base version', async () => {
+      const op: PendingOperation = {
+        id: 2,
+        type: 'update',
+        entity: 'user',
+        entityId: '1',
+        payload: { firstName: 'Updated' },
+        timestamp: Date.now(),
+        retries: 0,
+        maxRetries: 3,
+        status: 'processing',
+        baseVersion: '2025-06-15T10:00:00.000Z',
+        base: { firstName: 'John', lastName: 'Doe' },
+      }
+      mockApiGet.mockResolvedValue({
+        data: { ...mockApiUser, last_name: 'Smith', updated_at: '2025-06-16T10:00:00.000Z' },
+        status: 200,
+        headers: {},
+      })
+
+      const error = await syncHandlers.update(op).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(AppError)
+      expect((error as AppError).category).toBe(ErrorCategory.CONFLICT)
+      expect((error as AppError).details).toMatchObject({
+        entity: 'user',
+        entityId: '1',
+        baseVersion: '2025-06-15T10:00:00.000Z',
+        serverVersion: '2025-06-16T10:00:00.000Z',
+        local: { firstName: 'Updated' },
+        server: expect.objectContaining({ lastName: 'Smith' }),
+      })
+      expect(mockApiPut).not.toHaveBeenCalled()
+    })
+
+    it('update handler puts when the server is still at the base version', async () => {
+      const op: PendingOperation = {
+        id: 2,
+        type: 'update',
+        entity: 'user',
+        entityId: '1',
+        payload: { firstName: 'Updated' },
+        timestamp: Date.now(),
+        retries: 0,
+        maxRetries: 3,
+        status: 'processing',
+        baseVersion: '2025-06-15T10:00:00.000Z',
+      }
+      mockApiGet.mockResolvedValue({
+        data: { ...mockApiUser, updated_at: '2025-06-15T10:00:00Z' },
+        status: 200,
+        headers: {},
+      })
+      mockApiPut.mockResolvedValue({ data: mockApiUser, status: 200, headers: {} })
+
+      await syncHandlers.update(op)
+
+      expect(mockApiPut).toHaveBeenCalledWith('/users/1', expect.any(Object), { priority: 'background' })
+    })
+
+    it('update handler turns a 409 into a conflict carrying the server version', async () => {
+      const op: PendingOperation = {
+        id: 2,
+        type: 'update',
+        entity: 'user',
+        entityId: '1',
+        payload: { firstName: 'Updated' },
+        timestamp: Date.now(),
+        retries: 0,
+        maxRetries: 3,
+        status: 'processing',
+      }
+      mockApiPut.mockRejectedValue(AppError.conflict('Resource conflict'))
+      mockApiGet.mockResolvedValue({
+        data: { ...mockApiUser, updated_at: '2025-06-16T10:00:00.000Z' },
+        status: 200,
+        headers: {},
+      })
+
+      const error = await syncHandlers.update(op).catch((e: unknown) => e)
+
+      expect((error as AppError).details).toMatchObject({
+        baseVersion: null,
+        serverVersion: '2025-06-16T10:00:00.000Z',
+        base: null,
+      })
+    })
+
+    it('acceptServer reloads the user from the server', async () => {
+      mockApiGet.mockResolvedValue({ data: mockApiUser, status: 200, headers: {} })
+
+      await syncHandlers.acceptServer({ entityId: '1' } as SyncConflict)
+
+      expect(mockApiGet).toHaveBeenCalledWith('/users/1', undefined)
+      expect(mockIdbSetCache).toHaveBeenCalledWith('user:1', expect.any(Object), expect.any(Number), ['users', 'user:1'])
+    })
+
+    it('discard removes a never-synced offline user', async () => {
+      mockIdbGetCache.mockResolvedValue({ ...mockUser, id: 'offline_1' })
+      const op: PendingOperation = {
+        id: 5,
+        type: 'create',
+        entity: 'user',
+        entityId: 'offline_1',
+        payload: {},
+        timestamp: Date.now(),
+        retries: 3,
+        maxRetries: 3,
+        status: 'failed',
+      }
+
+      await syncHandlers.discard(op)
+
+      expect(mockInvalidateTags).toHaveBeenCalledWith(['user:offline_1'])
+      expect(mockApiGet).not.toHaveBeenCalled()
+    })
+
+    it('discard reloads the server copy for a failed update', async () => {
+      mockApiGet.mockResolvedValue({ data: mockApiUser, status: 200, headers: {} })
+      const op: PendingOperation = {
+        id: 6,
+        type: 'update',
+        entity: 'user',
+        entityId: '1',
+        payload: { firstName: 'Local' },
+        timestamp: Date.now(),
+        retries: 3,
+        maxRetries: 3,
+        status: 'failed',
+      }
+
+      await syncHandlers.discard(op)
 
-      expect(mockApiPut).toHaveBeenCalledWith('/users/1', expect.any(Object))
-      expect(mockIdbDeletePendingOp).toHaveBeenCalledWith(2)
+      expect(mockApiGet).toHaveBeenCalledWith('/users/1', undefined)
+      expect(mockIdbSetCache).toHaveBeenCalledWith('user:1', expect.any(Object), expect.any(Number), ['users', 'user:1'])
     })
 
-    it('processes delete operations', async () => {
-      const ops = [{
+    it('discard removes an entity the server no longer has', async () => {
+      mockApiGet.mockRejectedValue(AppError.notFound('User'))
+      mockIdbGetCache.mockResolvedValue(mockUser)
+      const op: PendingOperation = {
+        id: 7,
+        type: 'update',
+        entity: 'user',
+        entityId: '1',
+        payload: { firstName: 'Local' },
+        timestamp: Date.now(),
+        retries: 0,
+        maxRetries: 3,
+        status: 'failed',
+      }
+
+      await syncHandlers.discard(op)
+
+      expect(mockIdbDeleteEntity).toHaveBeenCalledWith('users', '1')
+      expect(mockInvalidateTags).toHaveBeenCalledWith(['user:1'])
+    })
+
+    it('discard keeps the local copy when the server cannot be reached', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      mockApiGet.mockRejectedValue(AppError.network('Server not responding'))
+      const op: PendingOperation = {
+        id: 8,
+        type: 'delete',
+        entity: 'user',
+        entityId: '1',
+        payload: null,
+        timestamp: Date.now(),
+        retries: 0,
+        maxRetries: 3,
+        status: 'failed',
+      }
+
+      await expect(syncHandlers.discard(op)).resolves.toBeUndefined()
+
+      expect(mockIdbDeleteEntity).not.toHaveBeenCalled()
+    })
+
+    it('delete handler deletes the entity', async () => {
+      const op: PendingOperation = {
         id: 3,
-        type: 'delete' as const,
+        type: 'delete',
         entity: 'user',
         entityId: '1',
         payload: null,
         timestamp: Date.now(),
         retries: 0,
         maxRetries: 3,
-        status: 'pending' as const,
-      }]
-      mockIdbGetPendingByEntity.mockResolvedValue(ops)
+        status: 'processing',
+      }
       mockApiDelete.mockResolvedValue({ data: null, status: 204, headers: {} })
 
-      await userRepository.syncPendingOperations()
+      await syncHandlers.delete(op)
 
-      expect(mockApiDelete).toHaveBeenCalledWith('/users/1')
-      expect(mockIdbDeletePendingOp).toHaveBeenCalledWith(3)
+      expect(mockApiDelete).toHaveBeenCalledWith('/users/1', { priority: 'background' })
     })
 
-    it('marks operation as failed after max retries', async () => {
-      const ops = [{
+    it('propagates handler errors so the sync service can schedule retries', async () => {
+      const op: PendingOperation = {
         id: 4,
-        type: 'create' as const,
+        type: 'create',
         entity: 'user',
         entityId: 'offline_x',
         payload: { email: 'a@b.com', firstName: 'A', lastName: 'B' },
         timestamp: Date.now(),
-        retries: 2,
+        retries: 0,
         maxRetries: 3,
-        status: 'pending' as const,
-      }]
-      mockIdbGetPendingByEntity.mockResolvedValue(ops)
+        status: 'processing',
+      }
       mockApiPost.mockRejectedValue(new Error('API Down'))
 
+      await expect(syncHandlers.create(op)).rejects.toThrow('API Down')
+    })
+  })
+
+  // ==========================================================================
+  // syncPendingOperations
+  // ==========================================================================
+  describe('syncPendingOperations', () => {
+    it('delegates to the offline sync service', async () => {
       await userRepository.syncPendingOperations()
 
-      expect(mockIdbUpdatePendingOp).toHaveBeenCalledWith(4, expect.objectContaining({
-        status: 'failed',
-      }))
+      expect(mockSyncSync).toHaveBeenCalledTimes(1)
     })
 
-    it('retries when retries not exhausted', async () => {
-      const ops = [{
-        id: 5,
-        type: 'create' as const,
-        entity: 'user',
-        entityId: 'offline_y',
-        payload: { email: 'a@b.com', firstName: 'A', lastName: 'B' },
-        timestamp: Date.now(),
-        retries: 0,
-        maxRetries: 3,
-        status: 'pending' as const,
-      }]
-      mockIdbGetPendingByEntity.mockResolvedValue(ops)
-      mockApiPost.mockRejectedValue(new Error('Temporary'))
-
+    it('does not drain the queue itself', async () => {
       await userRepository.syncPendingOperations()
 
-      expect(mockIdbUpdatePendingOp).toHaveBeenCalledWith(5, expect.objectContaining({
-        status: 'pending',
-        retries: 1,
-      }))
+      expect(mockIdbGetPendingByEntity).not.toHaveBeenCalled()
+      expect(mockIdbUpdatePendingOp).not.toHaveBeenCalled()
+      expect(mockIdbDeletePendingOp).not.toHaveBeenCalled()
+    })
+  })
+
+  // ==========================================================================
+  // Read policies
+  // ==========================================================================
+  describe('read policies', () => {
+    it('stale-while-revalidate returns the cached user and pushes the refreshed one', async () => {
+      mockMemoryGet.mockReturnValue(mockUser)
+      mockApiGet.mockResolvedValue({ data: { ...mockApiUser, first_name: 'Johnny' }, status: 200, headers: {} })
+      const changes: UserChange[] = []
+      const subscription = userRepository.updates$.subscribe((change) => changes.push(change))
+
+      const result = await userRepository.getById('1', { policy: 'stale-while-revalidate' })
+      await flushPromises()
+      subscription.unsubscribe()
+
+      expect(result).toBe(mockUser)
+      expect(mockApiGet).toHaveBeenCalledWith('/users/1', { priority: 'background' })
+      expect(changes).toEqual([{ type: 'update', user: expect.objectContaining({ firstName: 'Johnny' }) }])
+      expect(mockCrossTabPublish).not.toHaveBeenCalled()
+    })
+
+    it('stale-while-revalidate runs one background refresh per key', async () => {
+      mockMemoryGet.mockReturnValue(mockUser)
+      mockApiGet.mockResolvedValue({ data: mockApiUser, status: 200, headers: {} })
+
+      await userRepository.getById('1', { policy: 'stale-while-revalidate' })
+      await userRepository.getById('1', { policy: 'stale-while-revalidate' })
+      await flushPromises()
+
+      expect(mockApiGet).toHaveBeenCalledTimes(1)
+    })
+
+    it('stale-while-revalidate keeps the cached user when the refresh fails', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      mockMemoryGet.mockReturnValue(mockUser)
+      mockApiGet.mockRejectedValue(new Error('Network Error'))
+
+      const result = await userRepository.getById('1', { policy: 'stale-while-revalidate' })
+      await flushPromises()
+
+      expect(result).toBe(mockUser)
+      expect(warnSpy).toHaveBeenCalled()
+      warnSpy.mockRestore()
+    })
+
+    it('stale-while-revalidate does not refresh offline', async () => {
+      mockIsCurrentlyOnline.mockReturnValue(false)
+      mockMemoryGet.mockReturnValue(mockUser)
+
+      await userRepository.getById('1', { policy: 'stale-while-revalidate' })
+      await flushPromises()
+
+      expect(mockApiGet).not.toHaveBeenCalled()
+    })
+
+    it('network-first fetches even when the user is cached', async () => {
+      mockMemoryGet.mockReturnValue(mockUser)
+      mockApiGet.mockResolvedValue({ data: { ...mockApiUser, first_name: 'Johnny' }, status: 200, headers: {} })
+
+      const result = await userRepository.getById('1', { policy: 'network-first' })
+
+      expect(result?.firstName).toBe('Johnny')
+    })
+
+    it('network-first falls back to the cache when the request fails', async () => {
+      mockMemoryGet.mockReturnValue(mockUser)
+      mockApiGet.mockRejectedValue(new Error('Network Error'))
+
+      const result = await userRepository.getById('1', { policy: 'network-first' })
+
+      expect(result).toBe(mockUser)
+    })
+
+    it('cache-only never calls the API', async () => {
+      const result = await userRepository.getById('1', { policy: 'cache-only' })
+
+      expect(result).toBeNull()
+      expect(mockApiGet).not.toHaveBeenCalled()
+    })
+
+    it('stale-while-revalidate pushes a refreshed list page', async () => {
+      mockLruGet.mockReturnValue(mockList)
+      mockApiGet.mockResolvedValue({
+        data: { data: [mockApiUser], page: 1, per_page: 10, total: 5, total_pages: 1 },
+        status: 200,
+        headers: {},
+      })
+      const changes: UserChange[] = []
+      const subscription = userRepository.updates$.subscribe((change) => changes.push(change))
+
+      const result = await userRepository.getList({ page: 1, pageSize: 10 }, 'jo', { policy: 'stale-while-revalidate' })
+      await flushPromises()
+      subscription.unsubscribe()
+
+      expect(result).toBe(mockList)
+      expect(changes).toEqual([
+        {
+          type: 'list',
+          params: { page: 1, pageSize: 10 },
+          search: 'jo',
+          list: expect.objectContaining({ total: 5 }),
+        },
+      ])
+      expect(mockLruSet).toHaveBeenCalledWith('users:list:1:10:jo', expect.objectContaining({ total: 5 }), 60000, [
+        'users',
+        'users:list',
+        'user:1',
+        'users:search:jo',
+      ])
+    })
+
+    it('network-first falls back to the cached list, then the users table', async () => {
+      mockApiGet.mockRejectedValue(new Error('Network Error'))
+      mockLruGet.mockReturnValue(mockList)
+
+      expect(await userRepository.getList({ page: 1, pageSize: 10 }, undefined, { policy: 'network-first' })).toBe(
+        mockList
+      )
+
+      mockLruGet.mockReturnValue(null)
+      mockIdbQueryEntities.mockResolvedValue({ items: [mockUser], total: 1 })
+
+      const result = await userRepository.getList({ page: 1, pageSize: 10 }, undefined, { policy: 'network-first' })
+
+      expect(result.data).toEqual([mockUser])
+      expect(mockIdbQueryEntities).toHaveBeenCalled()
+    })
+
+    it('cache-only answers a list miss from the users table', async () => {
+      mockIdbQueryEntities.mockResolvedValue({ items: [mockUser], total: 1 })
+
+      const result = await userRepository.getList({ page: 1, pageSize: 10 }, undefined, { policy: 'cache-only' })
+
+      expect(result.total).toBe(1)
+      expect(mockApiGet).not.toHaveBeenCalled()
     })
   })
 
@@ -613,12 +1084,11 @@ describe('UserRepository', () => {
   // clearCache
   // ==========================================================================
   describe('clearCache', () => {
-    it('clears all cache layers', async () => {
+    it('clears all cache layers in every tab', async () => {
       await userRepository.clearCache()
 
-      expect(mockMemoryClearByPrefix).toHaveBeenCalledWith('user')
-      expect(mockLruClearByPrefix).toHaveBeenCalledWith('user')
-      expect(mockIdbClearCacheByPrefix).toHaveBeenCalledWith('user')
+      expect(mockInvalidateTags).toHaveBeenCalledWith(['users'])
+      expect(mockIdbClearEntities).toHaveBeenCalledWith('users')
     })
   })
 
@@ -666,4 +1136,47 @@ describe('UserRepository', () => {
       expect(typeof userRepository.updates$.subscribe).toBe('function')
     })
   })
+
+  // ==========================================================================
+  // Cross-tab
+  // ==========================================================================
+  describe('cross-tab', () => {
+    it('publishes changes to other tabs', async () => {
+      mockApiPost.mockResolvedValue({ data: mockApiUser, status: 201, headers: {} })
+
+      const user = await userRepository.create({ email: 'john@example.com', firstName: 'John', lastName: 'Doe' })
+
+      expect(mockCrossTabPublish).toHaveBeenCalledWith({
+        type: 'entity:changed',
+        entity: 'user',
+        change: 'create',
+        data: user,
+      })
+      expect(mockInvalidateTags).toHaveBeenCalledWith(['users:list'])
+    })
+
+    it('evicts in-memory copies and re-emits changes from other tabs', () => {
+      const updates: unknown[] = []
+      const sub = userRepository.updates$.subscribe((update) => updates.push(update))
+
+      crossTabMessages.next({ type: 'entity:changed', entity: 'user', change: 'update', data: mockUser })
+
+      expect(mockMemoryInvalidateTags).toHaveBeenCalledWith(['user:1', 'users:list'])
+      expect(mockLruInvalidateTags).toHaveBeenCalledWith(['user:1', 'users:list'])
+      expect(updates).toEqual([{ type: 'update', user: mockUser }])
+      expect(mockCrossTabPublish).not.toHaveBeenCalled()
+      sub.unsubscribe()
+    })
+
+    it('ignores changes to other entities', () => {
+      const updates: unknown[] = []
+      const sub = userRepository.updates$.subscribe((update) => updates.push(update))
+
+      crossTabMessages.next({ type: 'entity:changed', entity: 'project', change: 'delete', data: { id: '1' } })
+
+      expect(mockMemoryInvalidateTags).not.toHaveBeenCalled()
+      expect(updates).toEqual([])
+      sub.unsubscribe()
+    })
+  })
 })
@@ -0,0 +1,421 @@
+// =============================================================================
+// Auth Service Implementation Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { AppError } from '@/app/domain/entities/app-error.model'
+import type { AuthSession } from '@/app/domain/entities/auth.model'
+
+// ---------------------------------------------------------------------------
+// Use vi.hoisted() so mock variables are available in vi.mock() factories
+// ---------------------------------------------------------------------------
+const { mockApiService, mockClearCsrfToken, mockClearEntities, mockWipeCacheKey } = vi.hoisted(() => ({
+  mockApiService: {
+    post: vi.fn(),
+    refreshSession: vi.fn(),
+    registerTokenRefresher: vi.fn(),
+  },
+  mockClearCsrfToken: vi.fn(),
+  mockClearEntities: vi.fn().mockResolvedValue(undefined),
+  mockWipeCacheKey: vi.fn().mockResolvedValue(undefined),
+}))
+
+// Cross-tab bus: messages from other tabs and this tab's leadership
+const { crossTabMessages, crossTabLeader, mockCrossTabPublish } = await vi.hoisted(async () => {
+  const { Subject, BehaviorSubject } = await import('rxjs')
+  return {
+    crossTabMessages: new Subject<{ type: string }>(),
+    crossTabLeader: new BehaviorSubject(true),
+    mockCrossTabPublish: vi.fn(),
+  }
+})
+
+vi.mock('@/app/data/sync/crossTabService', async () => {
+  const { filter } = await import('rxjs/operators')
+  return {
+    crossTabService: {
+      publish: (...args: unknown[]) => mockCrossTabPublish(...args),
+      on: (type: string) => crossTabMessages.pipe(filter((message) => message.type === type)),
+      get isLeader() {
+        return crossTabLeader.value
+      },
+      isLeader$: crossTabLeader.asObservable(),
+    },
+  }
+})
+
+vi.mock('@/app/data/api/apiService', () => ({
+  apiService: mockApiService,
+}))
+
+vi.mock('@/app/data/api/interceptors/csrfInterceptor', () => ({
+  clearCsrfToken: mockClearCsrfToken,
+}))
+
+vi.mock('@/app/data/storage/indexedDbService', () => ({
+  indexedDbService: {
+    clearEntities: (...args: unknown[]) => mockClearEntities(...args),
+  },
+}))
+
+vi.mock('@/app/data/storage/cacheEncryptionService', () => ({
+  cacheEncryptionService: {
+    wipe: () => mockWipeCacheKey(),
+  },
+}))
+
+// Import AFTER mocks
+import { authService } from './impl/authServiceImpl'
+
+// Capture the refresher registered at construction time (before clearAllMocks)
+const tokenRefresher = mockApiService.registerTokenRefresher.mock.calls[0][0] as () => Promise<void>
+
+const NOW = new Date('2025-01-01T00:00:00Z').getTime()
+
+function makeJwt(expiresInMs: number): string {
+  const payload = btoa(JSON.stringify({ exp: Math.floor((NOW + expiresInMs) / 1000) }))
+  return `header.${payload.replace(/=+$/, '')}.signature`
+}
+
+const userDto = {
+  id: 1,
+  email: 'admin@arcana.io',
+  first_name: 'John',
+  last_name: 'Doe',
+  role: 'Admin',
+}
+
+function loginResponse(accessToken = makeJwt(10 * 60 * 1000), refreshToken = 'refresh-1') {
+  return { data: { access_token: accessToken, refresh_token: refreshToken, user: userDto } }
+}
+
+async function signIn(accessToken?: string) {
+  mockApiService.post.mockResolvedValueOnce(loginResponse(accessToken))
+  await authService.login({ email: 'admin@arcana.io', password: 'secret' })
+  vi.clearAllMocks()
+}
+
+describe('AuthServiceImpl', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+    vi.setSystemTime(NOW)
+    mockApiService.post.mockResolvedValue({ data: {} })
+    mockApiService.refreshSession.mockImplementation(() => tokenRefresher())
+    await authService.logout()
+    vi.clearAllMocks()
+    mockApiService.refreshSession.mockImplementation(() => tokenRefresher())
+  })
+
+  afterEach(() => {
+    crossTabLeader.next(true)
+    vi.useRealTimers()
+  })
+
+  // ==========================================================================
+  // Login
+  // ==========================================================================
+  describe('login', () => {
+    it('posts the credentials and starts a session', async () => {
+      const accessToken = makeJwt(10 * 60 * 1000)
+      mockApiService.post.mockResolvedValueOnce(loginResponse(accessToken))
+      const sessions: Array<AuthSession | null> = []
+      const sub = authService.session$.subscribe((session) => sessions.push(session))
+
+      const result = await authService.login({ email: 'admin@arcana.io', password: 'secret' })
+
+      expect(mockApiService.post).toHaveBeenCalledWith(
+        '/auth/login',
+        { email: 'admin@arcana.io', password: 'secret' },
+        { skipAuthRefresh: true }
+      )
+      expect(result.success).toBe(true)
+      expect(result.data?.user).toMatchObject({ email: 'admin@arcana.io', role: 'Admin' })
+      expect(result.data?.tokens).toEqual({
+        accessToken,
+        refreshToken: 'refresh-1',
+        expiresAt: NOW + 10 * 60 * 1000,
+      })
+      expect(sessions).toEqual([null, result.data])
+      sub.unsubscribe()
+    })
+
+    it('persists the tokens and user', async () => {
+      mockApiService.post.mockResolvedValueOnce(loginResponse('access-1'))
+
+      await authService.login({ email: 'admin@arcana.io', password: 'secret' })
+
+      expect(localStorage.setItem).toHaveBeenCalledWith('arcana_auth_token', 'access-1')
+      expect(localStorage.setItem).toHaveBeenCalledWith('arcana_refresh_token', 'refresh-1')
+      expect(localStorage.setItem).toHaveBeenCalledWith('arcana_current_user', expect.stringContaining('admin@arcana.io'))
+      expect(mockClearCsrfToken).toHaveBeenCalled()
+    })
+
+    it('returns the error when the credentials are refused', async () => {
+      mockApiService.post.mockRejectedValueOnce(AppError.authentication('Invalid email or password'))
+
+      const result = await authService.login({ email: 'admin@arcana.io', password: 'wrong' })
+
+      expect(result).toEqual({ success: false, error: 'Invalid email or password' })
+      expect(authService.currentSession).toBeNull()
+    })
+  })
+
+  // ==========================================================================
+  // Refresh
+  // ==========================================================================
+  describe('refresh', () => {
+    it('refreshes ahead of the JWT expiry', async () => {
+      await signIn(makeJwt(10 * 60 * 1000))
+      mockApiService.post.mockResolvedValue({ data: { access_token: 'access-2' } })
+
+      await vi.advanceTimersByTimeAsync(9 * 60 * 1000 - 1)
+      expect(mockApiService.post).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(1)
+      expect(mockApiService.post).toHaveBeenCalledWith(
+        '/auth/refresh',
+        { refresh_token: 'refresh-1' },
+        { skipAuthRefresh: true, skipRateLimit: true }
+      )
+      expect(authService.currentSession?.tokens.accessToken).toBe('access-2')
+    })
+
+    it('does not schedule a refresh for tokens without exp', async () => {
+      await signIn('opaque-token')
+
+      await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000)
+
+      expect(mockApiService.post).not.toHaveBeenCalled()
+    })
+
+    it('rotates the tokens and keeps the user', async () => {
+      await signIn('opaque-token')
+      const user = authService.currentSession!.user
+      mockApiService.post.mockResolvedValueOnce({ data: { access_token: 'access-2', refresh_token: 'refresh-2' } })
+
+      const result = await authService.refresh()
+
+      expect(mockApiService.refreshSession).toHaveBeenCalled()
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({
+        user,
+        tokens: { accessToken: 'access-2', refreshToken: 'refresh-2', expiresAt: null },
+      })
+      expect(localStorage.setItem).toHaveBeenCalledWith('arcana_refresh_token', 'refresh-2')
+    })
+
+    it('ends the session when the refresh token is rejected', async () => {
+      await signIn('opaque-token')
+      mockApiService.post.mockRejectedValueOnce(AppError.authentication('Refresh token revoked'))
+
+      const result = await authService.refresh()
+
+      expect(result).toEqual({ success: false, error: 'Refresh token revoked' })
+      expect(authService.currentSession).toBeNull()
+      expect(localStorage.removeItem).toHaveBeenCalledWith('arcana_auth_token')
+      await vi.advanceTimersByTimeAsync(0)
+      expect(mockWipeCacheKey).toHaveBeenCalledTimes(1)
+      expect(mockClearEntities).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the session when the refresh fails on the network', async () => {
+      await signIn('opaque-token')
+      mockApiService.post.mockRejectedValueOnce(AppError.network('Server not responding'))
+
+      const result = await authService.refresh()
+
+      expect(result.success).toBe(false)
+      expect(authService.currentSession).not.toBeNull()
+      expect(mockWipeCacheKey).not.toHaveBeenCalled()
+    })
+
+    it('rejects without a session to refresh', async () => {
+      await expect(tokenRefresher()).rejects.toMatchObject({ code: 'ERR_AUTH' })
+      expect(mockApiService.post).not.toHaveBeenCalled()
+    })
+  })
+
+  // ==========================================================================
+  // Logout
+  // ==========================================================================
+  describe('logout', () => {
+    it('revokes the refresh token and ends the session', async () => {
+      await signIn('opaque-token')
+
+      const result = await authService.logout()
+
+      expect(mockApiService.post).toHaveBeenCalledWith(
+        '/auth/logout',
+        { refresh_token: 'refresh-1' },
+        { skipAuthRefresh: true }
+      )
+      expect(result.success).toBe(true)
+      expect(authService.currentSession).toBeNull()
+      expect(localStorage.removeItem).toHaveBeenCalledWith('arcana_refresh_token')
+      expect(mockClearCsrfToken).toHaveBeenCalled()
+    })
+
+    it('wipes the cache encryption key', async () => {
+      await signIn('opaque-token')
+
+      await authService.logout()
+
+      expect(mockWipeCacheKey).toHaveBeenCalledTimes(1)
+    })
+
+    it('empties the offline entity tables', async () => {
+      await signIn('opaque-token')
+      mockClearEntities.mockRejectedValueOnce(new Error('IndexedDB unavailable'))
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const result = await authService.logout()
+
+      expect(mockClearEntities).toHaveBeenCalledWith()
+      expect(result.success).toBe(true)
+      warnSpy.mockRestore()
+    })
+
+    it('ends the local session even if the server cannot be reached', async () => {
+      await signIn('opaque-token')
+      mockApiService.post.mockRejectedValueOnce(AppError.network('Server not responding'))
+
+      const result = await authService.logout()
+
+      expect(result).toEqual({ success: false, error: 'Server not responding' })
+      expect(authService.currentSession).toBeNull()
+    })
+
+    it('cancels the scheduled refresh', async () => {
+      await signIn(makeJwt(10 * 60 * 1000))
+      await authService.logout()
+      vi.clearAllMocks()
+
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000)
+
+      expect(mockApiService.post).not.toHaveBeenCalled()
+    })
+
+    it('ends the session when ApiService reports auth:unauthorized', async () => {
+      await signIn('opaque-token')
+
+      globalThis.dispatchEvent(new CustomEvent('auth:unauthorized'))
+
+      expect(authService.currentSession).toBeNull()
+    })
+
+    it('drops the offline data when the session expires', async () => {
+      await signIn('opaque-token')
+
+      globalThis.dispatchEvent(new CustomEvent('auth:unauthorized'))
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(mockWipeCacheKey).toHaveBeenCalledTimes(1)
+      expect(mockClearEntities).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  // ==========================================================================
+  // Profile
+  // ==========================================================================
+  describe('updateUser', () => {
+    it('updates and persists the signed-in user', async () => {
+      await signIn('opaque-token')
+
+      authService.updateUser({ status: 'busy' })
+
+      expect(authService.currentSession?.user.status).toBe('busy')
+      expect(localStorage.setItem).toHaveBeenCalledWith('arcana_current_user', expect.stringContaining('"busy"'))
+    })
+
+    it('ignores updates when signed out', () => {
+      authService.updateUser({ status: 'busy' })
+
+      expect(authService.currentSession).toBeNull()
+      expect(localStorage.setItem).not.toHaveBeenCalled()
+    })
+  })
+
+  // ==========================================================================
+  // Cross-tab
+  // ==========================================================================
+  describe('cross-tab', () => {
+    const storedSession = (accessToken: string) => {
+      const stored: Record<string, string> = {
+        arcana_auth_token: accessToken,
+        arcana_refresh_token: 'refresh-other-tab',
+        arcana_current_user: JSON.stringify({ id: '2', email: 'other@example.com', role: 'User' }),
+      }
+      vi.mocked(localStorage.getItem).mockImplementation((key) => stored[key] ?? null)
+    }
+
+    it('tells the other tabs about sign-in and sign-out', async () => {
+      await signIn('opaque-token')
+      await authService.logout()
+
+      expect(mockCrossTabPublish).toHaveBeenCalledWith({ type: 'auth:changed' })
+    })
+
+    it('adopts a session started in another tab', () => {
+      storedSession('other-tab-token')
+
+      crossTabMessages.next({ type: 'auth:changed' })
+
+      expect(authService.currentSession).toEqual({
+        user: { id: '2', email: 'other@example.com', role: 'User' },
+        tokens: { accessToken: 'other-tab-token', refreshToken: 'refresh-other-tab', expiresAt: null },
+      })
+      expect(mockCrossTabPublish).not.toHaveBeenCalled()
+    })
+
+    it('signs out when another tab signed out, without echoing it back', async () => {
+      await signIn('opaque-token')
+
+      crossTabMessages.next({ type: 'auth:changed' })
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(authService.currentSession).toBeNull()
+      expect(mockCrossTabPublish).not.toHaveBeenCalled()
+      expect(mockWipeCacheKey).toHaveBeenCalledTimes(1)
+      expect(mockClearEntities).toHaveBeenCalledTimes(1)
+    })
+
+    it('leaves the proactive refresh to the leader tab', async () => {
+      crossTabLeader.next(false)
+      await signIn(makeJwt(10 * 60 * 1000))
+      mockApiService.post.mockResolvedValue({ data: { access_token: 'access-2' } })
+
+      await vi.advanceTimersByTimeAsync(9 * 60 * 1000)
+      expect(mockApiService.post).not.toHaveBeenCalled()
+
+      crossTabLeader.next(true)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(mockApiService.post).toHaveBeenCalledWith(
+        '/auth/refresh',
+        { refresh_token: 'refresh-1' },
+        { skipAuthRefresh: true, skipRateLimit: true }
+      )
+    })
+  })
+
+  // ==========================================================================
+  // Restore
+  // ==========================================================================
+  describe('restore', () => {
+    it('restores the persisted session on startup', async () => {
+      const stored: Record<string, string> = {
+        arcana_auth_token: 'stored-token',
+        arcana_refresh_token: 'stored-refresh',
+        arcana_current_user: JSON.stringify({ id: '2', email: 'stored@example.com', role: 'User' }),
+      }
+      vi.mocked(localStorage.getItem).mockImplementation((key) => stored[key] ?? null)
+
+      vi.resetModules()
+      const { authService: restored } = await import('./impl/authServiceImpl')
+
+      expect(restored.currentSession).toEqual({
+        user: { id: '2', email: 'stored@example.com', role: 'User' },
+        tokens: { accessToken: 'stored-token', refreshToken: 'stored-refresh', expiresAt: null },
+      })
+    })
+  })
+})
@@ -0,0 +1,158 @@
+// =============================================================================
+// Calendar Event Service Implementation Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { CalendarEvent } from '@/app/domain/entities/calendar-event.model'
+
+// ---------------------------------------------------------------------------
+// Mock dependencies
+// ---------------------------------------------------------------------------
+
+const mockRepoGetById = vi.fn()
+const mockRepoGetList = vi.fn()
+const mockRepoCreate = vi.fn()
+const mockRepoUpdate = vi.fn()
+const mockRepoDelete = vi.fn()
+const mockRepoClearCache = vi.fn().mockResolvedValue(undefined)
+
+vi.mock('@/app/data/repositories/calendarEventRepository', () => ({
+  calendarEventRepository: {
+    getById: (...args: unknown[]) => mockRepoGetById(...args),
+    getList: (...args: unknown[]) => mockRepoGetList(...args),
+    create: (...args: unknown[]) => mockRepoCreate(...args),
+    update: (...args: unknown[]) => mockRepoUpdate(...args),
+    delete: (...args: unknown[]) => mockRepoDelete(...args),
+    clearCache: (...args: unknown[]) => mockRepoClearCache(...args),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => true,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+// Import after mocks
+import { calendarEventService } from './impl/calendarEventServiceImpl'
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+const now = new Date('2025-06-15T10:00:00Z')
+
+const mockEvent: CalendarEvent = {
+  id: '4',
+  title: 'Sprint review',
+  description: '',
+  location: 'Room 4',
+  start: new Date('2025-06-20T14:00:00Z'),
+  end: new Date('2025-06-20T15:30:00Z'),
+  allDay: false,
+  createdAt: now,
+  updatedAt: now,
+}
+
+function pageOf(data: CalendarEvent[], page: number, totalPages: number) {
+  return { data, page, pageSize: 100, total: data.length, totalPages }
+}
+
+describe('CalendarEventServiceImpl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getById', () => {
+    it('reports a missing event', async () => {
+      mockRepoGetById.mockResolvedValue(null)
+
+      const result = await calendarEventService.getById('404')
+
+      expect(result).toEqual({ success: false, error: 'Event not found' })
+    })
+  })
+
+  describe('reschedule', () => {
+    it('moves the event and keeps its duration', async () => {
+      mockRepoGetById.mockResolvedValue(mockEvent)
+      mockRepoUpdate.mockImplementation(async (_id, dto) => ({ ...mockEvent, ...dto }))
+
+      const result = await calendarEventService.reschedule('4', new Date('2025-06-22T09:00:00Z'))
+
+      expect(result.success).toBe(true)
+      expect(mockRepoUpdate).toHaveBeenCalledWith('4', {
+        start: new Date('2025-06-22T09:00:00Z'),
+        end: new Date('2025-06-22T10:30:00Z'),
+      })
+    })
+
+    it('reports a missing event', async () => {
+      mockRepoGetById.mockResolvedValue(null)
+
+      const result = await calendarEventService.reschedule('404', now)
+
+      expect(result).toEqual({ success: false, error: 'Event not found' })
+      expect(mockRepoUpdate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('importICalendar', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'SUMMARY:Standup',
+      'DTSTART:20250620T090000Z',
+      'DTEND:20250620T091500Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Retro',
+      'DTSTART:20250620T160000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20250620T170000Z',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n')
+
+    it('creates each event and counts the ones it could not use', async () => {
+      mockRepoCreate.mockResolvedValueOnce(mockEvent).mockRejectedValueOnce(new Error('Validation failed'))
+
+      const result = await calendarEventService.importICalendar(ics)
+
+      expect(result).toEqual({ success: true, data: { imported: 1, skipped: 2 } })
+      expect(mockRepoCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Standup', start: new Date('2025-06-20T09:00:00Z') })
+      )
+    })
+
+    it('rejects files without events', async () => {
+      const result = await calendarEventService.importICalendar('not a calendar')
+
+      expect(result).toEqual({ success: false, error: 'No events found in the file' })
+    })
+  })
+
+  describe('exportICalendar', () => {
+    it('reads every page and serializes the events', async () => {
+      mockRepoGetList
+        .mockResolvedValueOnce(pageOf([mockEvent], 1, 2))
+        .mockResolvedValueOnce(pageOf([{ ...mockEvent, id: '5', title: 'Retro' }], 2, 2))
+
+      const result = await calendarEventService.exportICalendar()
+
+      expect(mockRepoGetList).toHaveBeenCalledTimes(2)
+      expect(mockRepoGetList).toHaveBeenLastCalledWith({ page: 2, pageSize: 100, sortBy: 'start', sortOrder: 'asc' })
+      expect(result.data).toContain('UID:4@arcana')
+      expect(result.data).toContain('SUMMARY:Retro')
+    })
+
+    it('returns the repository error', async () => {
+      mockRepoGetList.mockRejectedValue(new Error('Network error'))
+
+      const result = await calendarEventService.exportICalendar()
+
+      expect(result).toEqual({ success: false, error: 'Network error' })
+    })
+  })
+})
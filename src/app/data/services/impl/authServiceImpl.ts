@@ -0,0 +1,337 @@
+// =============================================================================
+// Auth Service Implementation - Data Layer
+// =============================================================================
+// Implements the AuthService interface against the auth API.
+// Persists the session, refreshes the access token before its JWT `exp` and
+// lets ApiService refresh it after a 401.
+// Sign-ins and sign-outs are mirrored across tabs; only the leader tab runs
+// the proactive refresh so tabs do not race on a rotating refresh token.
+// =============================================================================
+
+import { BehaviorSubject } from 'rxjs'
+import type { AuthService } from '@/app/domain/services/authService'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type { AuthSession, AuthUser, LoginCredentials } from '@/app/domain/entities/auth.model'
+import { AppError } from '@/app/domain/entities/app-error.model'
+import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+import { getJwtExpiry } from '@/app/core/utils/jwt'
+import { apiService } from '@/app/data/api/apiService'
+import { clearCsrfToken } from '@/app/data/api/interceptors/csrfInterceptor'
+import { authMapper, type AuthApiResponse } from '@/app/data/mappers/authMapper'
+import { crossTabService } from '@/app/data/sync/crossTabService'
+import { cacheEncryptionService } from '@/app/data/storage/cacheEncryptionService'
+import { indexedDbService } from '@/app/data/storage/indexedDbService'
+
+const { STORAGE_KEYS, AUTH } = APP_CONSTANTS
+
+/**
+ * Longest delay setTimeout supports (~24.8 days)
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+/**
+ * Restore the persisted session, null if there is none
+ */
+function loadSession(): AuthSession | null {
+  try {
+    const accessToken = localStorage.getItem(STORAGE_KEYS.AUTH_TOKEN)
+    const storedUser = localStorage.getItem(STORAGE_KEYS.USER)
+
+    if (accessToken && storedUser) {
+      return {
+        user: JSON.parse(storedUser) as AuthUser,
+        tokens: {
+          accessToken,
+          refreshToken: localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
+          expiresAt: getJwtExpiry(accessToken),
+        },
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load stored auth:', error)
+  }
+
+  return null
+}
+
+/**
+ * Persist the session; the auth interceptor reads the access token from storage
+ */
+function saveSession({ user, tokens }: AuthSession): void {
+  localStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, tokens.accessToken)
+  localStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(user))
+
+  if (tokens.refreshToken) {
+    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, tokens.refreshToken)
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN)
+  }
+}
+
+/**
+ * Remove the persisted session
+ */
+function removeSession(): void {
+  localStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN)
+  localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN)
+  localStorage.removeItem(STORAGE_KEYS.USER)
+}
+
+/**
+ * Auth Service Implementation
+ * Bridges the domain layer with the auth API
+ */
+class AuthServiceImpl implements AuthService {
+  private readonly sessionSubject = new BehaviorSubject<AuthSession | null>(loadSession())
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor() {
+    // 401s are replayed after a single shared refresh
+    apiService.registerTokenRefresher(() => this.refreshTokens())
+
+    // ApiService gave up on the session
+    globalThis.addEventListener('auth:unauthorized', () => void this.endSession())
+
+    // Another tab signed in, refreshed or signed out
+    crossTabService.on('auth:changed').subscribe(() => this.syncFromStorage())
+
+    // The leader tab owns the proactive refresh
+    crossTabService.isLeader$.subscribe(() => this.scheduleRefresh())
+  }
+
+  /**
+   * Observable of the current session (null when signed out)
+   */
+  get session$() {
+    return this.sessionSubject.asObservable()
+  }
+
+  /**
+   * Current session snapshot
+   */
+  get currentSession(): AuthSession | null {
+    return this.sessionSubject.value
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  async login({ email, password }: LoginCredentials): Promise<ServiceResult<AuthSession>> {
+    try {
+      const response = await apiService.post<AuthApiResponse>(
+        AUTH.LOGIN_ENDPOINT,
+        { email, password },
+        { skipAuthRefresh: true }
+      )
+      const session = authMapper.toSession(response.data)
+
+      // The CSRF token belongs to the previous session
+      clearCsrfToken()
+      this.startSession(session)
+
+      return {
+        success: true,
+        data: session,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Sign out and revoke the refresh token
+   * The local session and its offline data are dropped even if the server cannot be reached
+   */
+  async logout(): Promise<ServiceResult<void>> {
+    const session = this.currentSession
+
+    try {
+      if (session) {
+        await apiService.post(
+          AUTH.LOGOUT_ENDPOINT,
+          { refresh_token: session.tokens.refreshToken },
+          { skipAuthRefresh: true }
+        )
+      }
+
+      return {
+        success: true,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    } finally {
+      await this.endSession()
+    }
+  }
+
+  /**
+   * Exchange the refresh token for new tokens
+   * Shares a refresh already started by ApiService
+   */
+  async refresh(): Promise<ServiceResult<AuthSession>> {
+    try {
+      await apiService.refreshSession()
+
+      return {
+        success: true,
+        data: this.currentSession!,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Update the signed-in user's profile locally
+   */
+  updateUser(updates: Partial<AuthUser>): void {
+    const session = this.currentSession
+    if (!session) return
+
+    const updated = { ...session, user: { ...session.user, ...updates } }
+    saveSession(updated)
+    this.sessionSubject.next(updated)
+  }
+
+  /**
+   * Call the refresh endpoint and store the rotated tokens
+   * Network failures keep the session for another attempt; a rejected refresh token ends it
+   */
+  private async refreshTokens(): Promise<void> {
+    const session = this.currentSession
+    if (!session?.tokens.refreshToken) {
+      void this.endSession()
+      throw AppError.authentication('Session expired')
+    }
+
+    try {
+      const response = await apiService.post<AuthApiResponse>(
+        AUTH.REFRESH_ENDPOINT,
+        { refresh_token: session.tokens.refreshToken },
+        // Requests waiting on the refresh hold their rate limiter slots
+        { skipAuthRefresh: true, skipRateLimit: true }
+      )
+      this.startSession(authMapper.toSession(response.data, session))
+    } catch (error) {
+      if (!(error instanceof AppError && error.isRetryable())) {
+        void this.endSession()
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Store and publish a new session
+   */
+  private startSession(session: AuthSession): void {
+    saveSession(session)
+    this.sessionSubject.next(session)
+    this.scheduleRefresh()
+    crossTabService.publish({ type: 'auth:changed' })
+  }
+
+  /**
+   * Drop the session and the offline data it could read
+   * @param broadcast - Tell the other tabs; false when mirroring another tab
+   */
+  private async endSession(broadcast = true): Promise<void> {
+    this.clearRefreshTimer()
+    removeSession()
+    clearCsrfToken()
+
+    if (this.currentSession) {
+      this.sessionSubject.next(null)
+    }
+
+    if (broadcast) {
+      crossTabService.publish({ type: 'auth:changed' })
+    }
+
+    await this.clearLocalData()
+  }
+
+  /**
+   * Wipe the cache key so encrypted IndexedDB entries can no longer be read,
+   * and empty the unencrypted entity tables
+   */
+  private async clearLocalData(): Promise<void> {
+    await cacheEncryptionService.wipe().catch((error: unknown) => {
+      console.warn('[Auth] Failed to delete the cache key:', error)
+    })
+    await indexedDbService.clearEntities().catch((error: unknown) => {
+      console.warn('[Auth] Failed to clear offline entities:', error)
+    })
+  }
+
+  /**
+   * Adopt the session another tab persisted
+   */
+  private syncFromStorage(): void {
+    const session = loadSession()
+    if (!session) {
+      void this.endSession(false)
+      return
+    }
+
+    this.sessionSubject.next(session)
+    this.scheduleRefresh()
+  }
+
+  /**
+   * Refresh REFRESH_LEEWAY before the access token expires
+   * Follower tabs pick up the leader's rotated tokens instead
+   */
+  private scheduleRefresh(): void {
+    this.clearRefreshTimer()
+    if (!crossTabService.isLeader) return
+
+    const tokens = this.currentSession?.tokens
+    if (!tokens?.expiresAt || !tokens.refreshToken) return
+
+    const refreshAt = tokens.expiresAt - AUTH.REFRESH_LEEWAY
+    const delay = Math.max(0, refreshAt - Date.now())
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null
+
+      // Far-off expiries are reached in several timer hops
+      if (Date.now() < refreshAt) {
+        this.scheduleRefresh()
+      } else {
+        void this.refresh()
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY))
+  }
+
+  /**
+   * Cancel the scheduled refresh
+   */
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer)
+      this.refreshTimer = null
+    }
+  }
+
+  /**
+   * Format error message
+   */
+  private formatError(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    return 'An unknown error occurred'
+  }
+}
+
+// Export singleton instance
+export const authService: AuthService = new AuthServiceImpl()
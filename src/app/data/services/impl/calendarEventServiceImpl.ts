@@ -0,0 +1,252 @@
+// =============================================================================
+// Calendar Event Service Implementation - Data Layer
+// =============================================================================
+// Implements the CalendarEventService interface using the
+// CalendarEventRepository.
+// Handles business logic and error transformation.
+// =============================================================================
+
+import type { CalendarEventService } from '@/app/domain/services/calendarEventService'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type {
+  CalendarEvent,
+  CreateCalendarEventDto,
+  UpdateCalendarEventDto,
+  CalendarEventListParams,
+  CalendarImportResult,
+} from '@/app/domain/entities/calendar-event.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import { calendarEventRepository } from '@/app/data/repositories/calendarEventRepository'
+import { icalendarMapper } from '@/app/data/mappers/icalendarMapper'
+import { networkStatusService } from '@/app/domain/services/networkStatusService'
+
+/** Page size used to read every event for an export */
+const EXPORT_PAGE_SIZE = 100
+
+/**
+ * Calendar Event Service Implementation
+ * Bridges the domain layer with the data layer
+ */
+class CalendarEventServiceImpl implements CalendarEventService {
+  /**
+   * Get a single event by ID
+   */
+  async getById(id: string, options?: ReadOptions): Promise<ServiceResult<CalendarEvent>> {
+    try {
+      const event = await calendarEventRepository.getById(id, options)
+
+      if (!event) {
+        return {
+          success: false,
+          error: 'Event not found',
+        }
+      }
+
+      return {
+        success: true,
+        data: event,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Get paginated list of events
+   */
+  async getList(
+    params: CalendarEventListParams,
+    search?: string,
+    options?: ReadOptions
+  ): Promise<ServiceResult<PaginatedResponse<CalendarEvent>>> {
+    try {
+      const result = await calendarEventRepository.getList(params, search, options)
+
+      return {
+        success: true,
+        data: result,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Create a new event
+   */
+  async create(dto: CreateCalendarEventDto): Promise<ServiceResult<CalendarEvent>> {
+    try {
+      const event = await calendarEventRepository.create(dto)
+
+      return {
+        success: true,
+        data: event,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Update an existing event
+   */
+  async update(id: string, dto: UpdateCalendarEventDto): Promise<ServiceResult<CalendarEvent>> {
+    try {
+      const event = await calendarEventRepository.update(id, dto)
+
+      return {
+        success: true,
+        data: event,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Move an event to a new start, keeping its duration
+   */
+  async reschedule(id: string, start: Date): Promise<ServiceResult<CalendarEvent>> {
+    const current = await this.getById(id)
+    if (!current.success || !current.data) {
+      return current
+    }
+
+    const duration = current.data.end.getTime() - current.data.start.getTime()
+    return this.update(id, { start, end: new Date(start.getTime() + duration) })
+  }
+
+  /**
+   * Delete an event
+   */
+  async delete(id: string): Promise<ServiceResult<void>> {
+    try {
+      await calendarEventRepository.delete(id)
+
+      return {
+        success: true,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Create the events of an iCalendar (.ics) file.
+   * Events the repository rejects are counted as skipped.
+   */
+  async importICalendar(text: string): Promise<ServiceResult<CalendarImportResult>> {
+    const { events, skipped } = icalendarMapper.parse(text)
+    const result: CalendarImportResult = { imported: 0, skipped }
+
+    for (const dto of events) {
+      try {
+        await calendarEventRepository.create(dto)
+        result.imported++
+      } catch {
+        result.skipped++
+      }
+    }
+
+    if (events.length === 0 && skipped === 0) {
+      return {
+        success: false,
+        error: 'No events found in the file',
+      }
+    }
+
+    return {
+      success: true,
+      data: result,
+    }
+  }
+
+  /**
+   * All events as an iCalendar (.ics) file
+   */
+  async exportICalendar(): Promise<ServiceResult<string>> {
+    try {
+      const events: CalendarEvent[] = []
+      let page = 1
+      let totalPages = 1
+      do {
+        const result = await calendarEventRepository.getList({
+          page,
+          pageSize: EXPORT_PAGE_SIZE,
+          sortBy: 'start',
+          sortOrder: 'asc',
+        })
+        events.push(...result.data)
+        totalPages = result.totalPages
+        page++
+      } while (page <= totalPages)
+
+      return {
+        success: true,
+        data: icalendarMapper.serialize(events),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Check if the service is online
+   */
+  isOnline(): boolean {
+    return networkStatusService.isCurrentlyOnline()
+  }
+
+  /**
+   * Clear all cached data
+   */
+  async clearCache(): Promise<void> {
+    await calendarEventRepository.clearCache()
+  }
+
+  /**
+   * Observable for offline-created events whose temporary ID was replaced by a server ID
+   */
+  get idMappings$() {
+    return calendarEventRepository.idMappings$
+  }
+
+  /**
+   * Observable for event changes, including those made in other tabs
+   */
+  get updates$() {
+    return calendarEventRepository.updates$
+  }
+
+  /**
+   * Format error message
+   */
+  private formatError(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    return 'An unknown error occurred'
+  }
+}
+
+// Export singleton instance
+export const calendarEventService: CalendarEventService = new CalendarEventServiceImpl()
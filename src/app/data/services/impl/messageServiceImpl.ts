@@ -0,0 +1,289 @@
+// =============================================================================
+// Message Service Implementation - Data Layer
+// =============================================================================
+// Implements the MessageService interface using the MessageRepository.
+// Handles business logic and error transformation.
+// =============================================================================
+
+import type { MessageService } from '@/app/domain/services/messageService'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type {
+  Message,
+  CreateMessageDto,
+  Conversation,
+  OutboxMessage,
+  MessageFilter,
+} from '@/app/domain/entities/message.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import { isOfflineId } from '@/app/domain/entities/id-mapping.model'
+import { messageRepository } from '@/app/data/repositories/messageRepository'
+import { networkStatusService } from '@/app/domain/services/networkStatusService'
+
+/** Page size used to read every message of a conversation or inbox */
+const READ_ALL_PAGE_SIZE = 100
+
+/** Number of messages marked read at the same time */
+const MARK_READ_BATCH_SIZE = 10
+
+/**
+ * Group messages into a user's conversations, most recent first
+ */
+function toConversations(messages: Message[], userId: string): Conversation[] {
+  const conversations = new Map<string, Conversation>()
+
+  for (const message of messages) {
+    const incoming = message.recipientId === userId
+    if (!incoming && message.senderId !== userId) continue
+
+    const unread = incoming && !message.readAt ? 1 : 0
+    const existing = conversations.get(message.conversationId)
+    if (!existing) {
+      conversations.set(message.conversationId, {
+        id: message.conversationId,
+        participantId: incoming ? message.senderId : message.recipientId,
+        participantName: incoming ? message.senderName : message.recipientName,
+        lastMessage: message,
+        unreadCount: unread,
+      })
+    } else {
+      existing.unreadCount += unread
+      if (message.createdAt.getTime() > existing.lastMessage.createdAt.getTime()) {
+        existing.lastMessage = message
+      }
+    }
+  }
+
+  return [...conversations.values()].sort(
+    (a, b) => b.lastMessage.createdAt.getTime() - a.lastMessage.createdAt.getTime()
+  )
+}
+
+/**
+ * Add outbox messages a list read from the server does not know yet
+ */
+function withOutbox(messages: Message[], outbox: OutboxMessage[]): Message[] {
+  const ids = new Set(messages.map((message) => message.id))
+  return [...messages, ...outbox.map((entry) => entry.message).filter((message) => !ids.has(message.id))]
+}
+
+/**
+ * Message Service Implementation
+ * Bridges the domain layer with the data layer
+ */
+class MessageServiceImpl implements MessageService {
+  /**
+   * Get a user's conversations, most recent first, with their unread counts
+   * Only the messages the user sent or received are read
+   */
+  async getConversations(userId: string, options?: ReadOptions): Promise<ServiceResult<Conversation[]>> {
+    try {
+      const [sent, received, outbox] = await Promise.all([
+        this.readAll({ senderId: userId }, options),
+        this.readAll({ recipientId: userId }, options),
+        messageRepository.getOutbox(),
+      ])
+      const messages = withOutbox([...sent, ...received], outbox)
+
+      return {
+        success: true,
+        data: toConversations(messages, userId),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Get the messages of a conversation, oldest first
+   * Messages still waiting in the outbox are included
+   */
+  async getThread(conversationId: string, options?: ReadOptions): Promise<ServiceResult<Message[]>> {
+    try {
+      const outbox = (await messageRepository.getOutbox()).filter(
+        (entry) => entry.message.conversationId === conversationId
+      )
+      const messages = withOutbox(await this.readAll({ conversationId }, options), outbox)
+
+      return {
+        success: true,
+        data: messages.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Get messages composed offline that have not been delivered yet
+   * Messages the sync queue gave up on are included as failed
+   */
+  async getOutbox(): Promise<ServiceResult<OutboxMessage[]>> {
+    try {
+      return {
+        success: true,
+        data: await messageRepository.getOutbox(),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Send a message
+   * Offline, it is queued and delivered by the sync queue once back online
+   */
+  async send(dto: CreateMessageDto): Promise<ServiceResult<Message>> {
+    try {
+      const message = await messageRepository.create(dto)
+
+      return {
+        success: true,
+        data: message,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Mark the messages a user received in a conversation as read
+   */
+  async markRead(conversationId: string, userId: string): Promise<ServiceResult<number>> {
+    try {
+      const messages = await this.readAll({ conversationId })
+
+      return {
+        success: true,
+        data: await this.markMessagesRead(messages, userId),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Mark every message a user received as read
+   */
+  async markAllRead(userId: string): Promise<ServiceResult<number>> {
+    try {
+      const messages = await this.readAll({ recipientId: userId })
+
+      return {
+        success: true,
+        data: await this.markMessagesRead(messages, userId),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Delete a message
+   */
+  async delete(id: string): Promise<ServiceResult<void>> {
+    try {
+      await messageRepository.delete(id)
+
+      return {
+        success: true,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Check if the service is online
+   */
+  isOnline(): boolean {
+    return networkStatusService.isCurrentlyOnline()
+  }
+
+  /**
+   * Clear all cached data
+   */
+  async clearCache(): Promise<void> {
+    await messageRepository.clearCache()
+  }
+
+  /**
+   * Observable for queued messages whose temporary ID was replaced by a server ID
+   */
+  get idMappings$() {
+    return messageRepository.idMappings$
+  }
+
+  /**
+   * Observable for message changes, including those made in other tabs
+   */
+  get updates$() {
+    return messageRepository.updates$
+  }
+
+  /**
+   * Read every page of messages matching a filter
+   */
+  private async readAll(filter: MessageFilter, options?: ReadOptions): Promise<Message[]> {
+    const messages: Message[] = []
+    for (let page = 1; ; page++) {
+      const result = await messageRepository.getList(
+        { page, pageSize: READ_ALL_PAGE_SIZE, sortBy: 'createdAt', sortOrder: 'asc', filter },
+        undefined,
+        options
+      )
+      messages.push(...result.data)
+      if (page >= result.totalPages) return messages
+    }
+  }
+
+  /**
+   * Mark the unread messages sent to a user as read, a batch at a time
+   * Queued messages were sent by this user, so they are never marked
+   */
+  private async markMessagesRead(messages: Message[], userId: string): Promise<number> {
+    const readAt = new Date()
+    const unread = messages.filter(
+      (message) => message.recipientId === userId && !message.readAt && !isOfflineId(message.id)
+    )
+
+    for (let start = 0; start < unread.length; start += MARK_READ_BATCH_SIZE) {
+      const batch = unread.slice(start, start + MARK_READ_BATCH_SIZE)
+      await Promise.all(batch.map((message) => messageRepository.update(message.id, { readAt })))
+    }
+    return unread.length
+  }
+
+  /**
+   * Format error message
+   */
+  private formatError(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    return 'An unknown error occurred'
+  }
+}
+
+// Export singleton instance
+export const messageService: MessageService = new MessageServiceImpl()
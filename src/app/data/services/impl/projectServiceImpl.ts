@@ -0,0 +1,185 @@
+// =============================================================================
+// Project Service Implementation - Data Layer
+// =============================================================================
+// Implements the ProjectService interface using the ProjectRepository.
+// Handles business logic and error transformation.
+// =============================================================================
+
+import type { ProjectService } from '@/app/domain/services/projectService'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type {
+  Project,
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectListParams,
+} from '@/app/domain/entities/project.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import { projectRepository } from '@/app/data/repositories/projectRepository'
+import { networkStatusService } from '@/app/domain/services/networkStatusService'
+
+/**
+ * Project Service Implementation
+ * Bridges the domain layer with the data layer
+ */
+class ProjectServiceImpl implements ProjectService {
+  /**
+   * Get a single project by ID
+   */
+  async getById(id: string, options?: ReadOptions): Promise<ServiceResult<Project>> {
+    try {
+      const project = await projectRepository.getById(id, options)
+
+      if (!project) {
+        return {
+          success: false,
+          error: 'Project not found',
+        }
+      }
+
+      return {
+        success: true,
+        data: project,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Get paginated list of projects
+   */
+  async getList(
+    params: ProjectListParams,
+    search?: string,
+    options?: ReadOptions
+  ): Promise<ServiceResult<PaginatedResponse<Project>>> {
+    try {
+      const result = await projectRepository.getList(params, search, options)
+
+      return {
+        success: true,
+        data: result,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Create a new project
+   */
+  async create(dto: CreateProjectDto): Promise<ServiceResult<Project>> {
+    try {
+      const project = await projectRepository.create(dto)
+
+      return {
+        success: true,
+        data: project,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Update an existing project
+   */
+  async update(id: string, dto: UpdateProjectDto): Promise<ServiceResult<Project>> {
+    try {
+      const project = await projectRepository.update(id, dto)
+
+      return {
+        success: true,
+        data: project,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Move a project to the archive
+   */
+  archive(id: string): Promise<ServiceResult<Project>> {
+    return this.update(id, { archived: true })
+  }
+
+  /**
+   * Bring an archived project back
+   */
+  restore(id: string): Promise<ServiceResult<Project>> {
+    return this.update(id, { archived: false })
+  }
+
+  /**
+   * Delete a project
+   */
+  async delete(id: string): Promise<ServiceResult<void>> {
+    try {
+      await projectRepository.delete(id)
+
+      return {
+        success: true,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Check if the service is online
+   */
+  isOnline(): boolean {
+    return networkStatusService.isCurrentlyOnline()
+  }
+
+  /**
+   * Clear all cached data
+   */
+  async clearCache(): Promise<void> {
+    await projectRepository.clearCache()
+  }
+
+  /**
+   * Observable for offline-created projects whose temporary ID was replaced by a server ID
+   */
+  get idMappings$() {
+    return projectRepository.idMappings$
+  }
+
+  /**
+   * Observable for project changes, including those made in other tabs
+   */
+  get updates$() {
+    return projectRepository.updates$
+  }
+
+  /**
+   * Format error message
+   */
+  private formatError(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    return 'An unknown error occurred'
+  }
+}
+
+// Export singleton instance
+export const projectService: ProjectService = new ProjectServiceImpl()
@@ -0,0 +1,102 @@
+// =============================================================================
+// Sync Service Implementation - Data Layer
+// =============================================================================
+// Implements the SyncService interface using the OfflineSyncService.
+// Handles error transformation for the presentation layer.
+// =============================================================================
+
+import { map } from 'rxjs/operators'
+import type { SyncService } from '@/app/domain/services/syncService'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type { ConflictResolution } from '@/app/domain/entities/sync-conflict.model'
+import type { DeadLetter } from '@/app/domain/entities/dead-letter.model'
+import { offlineSyncService } from '@/app/data/sync/offlineSyncService'
+import type { PendingOperation } from '@/app/data/storage/indexedDbService'
+
+/**
+ * Map a failed queue entry to the domain model
+ */
+function toDeadLetter(op: PendingOperation): DeadLetter {
+  return {
+    operationId: op.id!,
+    type: op.type,
+    entity: op.entity,
+    entityId: op.entityId,
+    payload: op.payload,
+    error: op.error ?? null,
+    attempts: op.retries,
+    queuedAt: new Date(op.timestamp),
+  }
+}
+
+/**
+ * Sync Service Implementation
+ * Bridges the domain layer with the offline sync queue
+ */
+class SyncServiceImpl implements SyncService {
+  /**
+   * Observable of offline changes waiting for a conflict decision
+   */
+  get conflicts$() {
+    return offlineSyncService.conflicts$
+  }
+
+  /**
+   * Observable of offline changes that failed permanently
+   */
+  get deadLetters$() {
+    return offlineSyncService.deadLetters$.pipe(map((ops) => ops.map(toDeadLetter)))
+  }
+
+  /**
+   * Resolve a parked conflict and resume syncing
+   */
+  async resolveConflict(operationId: number, resolution: ConflictResolution): Promise<ServiceResult<void>> {
+    return this.run(() => offlineSyncService.resolveConflict(operationId, resolution))
+  }
+
+  /**
+   * Re-queue a failed change, optionally with an edited payload
+   */
+  async retryDeadLetter(operationId: number, payload?: unknown): Promise<ServiceResult<void>> {
+    return this.run(() => offlineSyncService.retryDeadLetter(operationId, payload))
+  }
+
+  /**
+   * Drop a failed change and roll back its local effect
+   */
+  async discardDeadLetter(operationId: number): Promise<ServiceResult<void>> {
+    return this.run(() => offlineSyncService.discardDeadLetter(operationId))
+  }
+
+  /**
+   * Run a queue command and wrap the outcome in a ServiceResult
+   */
+  private async run(command: () => Promise<void>): Promise<ServiceResult<void>> {
+    try {
+      await command()
+
+      return {
+        success: true,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Format error message
+   */
+  private formatError(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    return 'An unknown error occurred'
+  }
+}
+
+// Export singleton instance
+export const syncService: SyncService = new SyncServiceImpl()
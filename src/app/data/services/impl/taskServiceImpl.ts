@@ -0,0 +1,193 @@
+// =============================================================================
+// Task Service Implementation - Data Layer
+// =============================================================================
+// Implements the TaskService interface using the TaskRepository.
+// Handles business logic and error transformation.
+// =============================================================================
+
+import type { TaskService } from '@/app/domain/services/taskService'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type {
+  Task,
+  TaskStatus,
+  CreateTaskDto,
+  UpdateTaskDto,
+  TaskListParams,
+} from '@/app/domain/entities/task.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import { taskRepository } from '@/app/data/repositories/taskRepository'
+import { taskValidator } from '@/app/domain/validators/taskValidator'
+import { networkStatusService } from '@/app/domain/services/networkStatusService'
+
+/**
+ * Task Service Implementation
+ * Bridges the domain layer with the data layer
+ */
+class TaskServiceImpl implements TaskService {
+  /**
+   * Get a single task by ID
+   */
+  async getById(id: string, options?: ReadOptions): Promise<ServiceResult<Task>> {
+    try {
+      const task = await taskRepository.getById(id, options)
+
+      if (!task) {
+        return {
+          success: false,
+          error: 'Task not found',
+        }
+      }
+
+      return {
+        success: true,
+        data: task,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Get paginated list of tasks
+   */
+  async getList(
+    params: TaskListParams,
+    search?: string,
+    options?: ReadOptions
+  ): Promise<ServiceResult<PaginatedResponse<Task>>> {
+    try {
+      const result = await taskRepository.getList(params, search, options)
+
+      return {
+        success: true,
+        data: result,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Create a new task
+   */
+  async create(dto: CreateTaskDto): Promise<ServiceResult<Task>> {
+    try {
+      const task = await taskRepository.create(dto)
+
+      return {
+        success: true,
+        data: task,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Update an existing task
+   */
+  async update(id: string, dto: UpdateTaskDto): Promise<ServiceResult<Task>> {
+    try {
+      const task = await taskRepository.update(id, dto)
+
+      return {
+        success: true,
+        data: task,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Move a task along the workflow (todo → in-progress → review → done)
+   */
+  async transition(id: string, status: TaskStatus): Promise<ServiceResult<Task>> {
+    const current = await this.getById(id)
+    if (!current.success || !current.data) {
+      return current
+    }
+
+    const error = taskValidator.validateTransition(current.data.status, status)
+    if (error) {
+      return {
+        success: false,
+        error,
+      }
+    }
+
+    return this.update(id, { status })
+  }
+
+  /**
+   * Delete a task
+   */
+  async delete(id: string): Promise<ServiceResult<void>> {
+    try {
+      await taskRepository.delete(id)
+
+      return {
+        success: true,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error),
+      }
+    }
+  }
+
+  /**
+   * Check if the service is online
+   */
+  isOnline(): boolean {
+    return networkStatusService.isCurrentlyOnline()
+  }
+
+  /**
+   * Clear all cached data
+   */
+  async clearCache(): Promise<void> {
+    await taskRepository.clearCache()
+  }
+
+  /**
+   * Observable for offline-created tasks whose temporary ID was replaced by a server ID
+   */
+  get idMappings$() {
+    return taskRepository.idMappings$
+  }
+
+  /**
+   * Observable for task changes, including those made in other tabs
+   */
+  get updates$() {
+    return taskRepository.updates$
+  }
+
+  /**
+   * Format error message
+   */
+  private formatError(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    return 'An unknown error occurred'
+  }
+}
+
+// Export singleton instance
+export const taskService: TaskService = new TaskServiceImpl()
@@ -11,8 +11,9 @@ import type {
   CreateUserDto,
   UpdateUserDto,
   PaginatedResponse,
-  PaginationParams,
+  UserListParams,
 } from '@/app/domain/entities/user.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
 import { userRepository } from '@/app/data/repositories/userRepository'
 import { networkStatusService } from '@/app/domain/services/networkStatusService'
 
@@ -24,9 +25,9 @@ class UserServiceImpl implements UserService {
   /**
    * Get a single user by ID
    */
-  async getById(id: string): Promise<ServiceResult<User>> {
+  async getById(id: string, options?: ReadOptions): Promise<ServiceResult<User>> {
     try {
-      const user = await userRepository.getById(id)
+      const user = await userRepository.getById(id, options)
 
       if (!user) {
         return {
@@ -51,11 +52,12 @@ class UserServiceImpl implements UserService {
    * Get paginated list of users
    */
   async getList(
-    params: PaginationParams,
-    search?: string
+    params: UserListParams,
+    search?: string,
+    options?: ReadOptions
   ): Promise<ServiceResult<PaginatedResponse<User>>> {
     try {
-      const result = await userRepository.getList(params, search)
+      const result = await userRepository.getList(params, search, options)
 
       return {
         success: true,
@@ -146,6 +148,20 @@ class UserServiceImpl implements UserService {
     await userRepository.clearCache()
   }
 
+  /**
+   * Observable for offline-created users whose temporary ID was replaced by a server ID
+   */
+  get idMappings$() {
+    return userRepository.idMappings$
+  }
+
+  /**
+   * Observable for user changes, including those made in other tabs
+   */
+  get updates$() {
+    return userRepository.updates$
+  }
+
   /**
    * Format error message
    */
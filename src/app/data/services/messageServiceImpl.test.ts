@@ -0,0 +1,261 @@
+// =============================================================================
+// Message Service Implementation Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Message } from '@/app/domain/entities/message.model'
+
+// ---------------------------------------------------------------------------
+// Mock dependencies
+// ---------------------------------------------------------------------------
+
+const mockRepoGetList = vi.fn()
+const mockRepoGetOutbox = vi.fn()
+const mockRepoCreate = vi.fn()
+const mockRepoUpdate = vi.fn()
+const mockRepoDelete = vi.fn()
+const mockRepoClearCache = vi.fn().mockResolvedValue(undefined)
+
+vi.mock('@/app/data/repositories/messageRepository', () => ({
+  messageRepository: {
+    getList: (...args: unknown[]) => mockRepoGetList(...args),
+    getOutbox: (...args: unknown[]) => mockRepoGetOutbox(...args),
+    create: (...args: unknown[]) => mockRepoCreate(...args),
+    update: (...args: unknown[]) => mockRepoUpdate(...args),
+    delete: (...args: unknown[]) => mockRepoDelete(...args),
+    clearCache: (...args: unknown[]) => mockRepoClearCache(...args),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => true,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+// Import after mocks
+import { messageService } from './impl/messageServiceImpl'
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function message(id: string, minute: number, overrides: Partial<Message> = {}): Message {
+  const createdAt = new Date(Date.UTC(2025, 5, 15, 10, minute))
+  return {
+    id,
+    conversationId: '1~2',
+    senderId: '2',
+    senderName: 'Jane Smith',
+    recipientId: '1',
+    recipientName: 'John Doe',
+    body: `Message ${id}`,
+    readAt: null,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  }
+}
+
+function outboxOf(...messages: Message[]) {
+  return messages.map((m, i) => ({ message: m, status: 'sending', operationId: i + 1, error: null }))
+}
+
+function pageOf(data: Message[], page = 1, totalPages = 1) {
+  return { data, page, pageSize: 100, total: data.length, totalPages }
+}
+
+const fromJane = message('1', 1)
+const toJane = message('2', 2, { senderId: '1', senderName: 'John Doe', recipientId: '2', recipientName: 'Jane Smith' })
+const fromBob = message('3', 3, { conversationId: '1~3', senderId: '3', senderName: 'Bob Lee' })
+const queued = message('offline_a', 9, {
+  conversationId: '1~3',
+  senderId: '1',
+  senderName: 'John Doe',
+  recipientId: '3',
+  recipientName: 'Bob Lee',
+})
+
+describe('MessageServiceImpl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockRepoGetOutbox.mockResolvedValue([])
+  })
+
+  describe('getConversations', () => {
+    it('groups messages by conversation, most recent first, with unread counts', async () => {
+      mockRepoGetList.mockImplementation(async ({ filter }) =>
+        pageOf(filter.senderId ? [toJane] : [fromJane, fromBob])
+      )
+
+      const result = await messageService.getConversations('1')
+
+      expect(result.data).toEqual([
+        { id: '1~3', participantId: '3', participantName: 'Bob Lee', lastMessage: fromBob, unreadCount: 1 },
+        { id: '1~2', participantId: '2', participantName: 'Jane Smith', lastMessage: toJane, unreadCount: 1 },
+      ])
+    })
+
+    it('reads only the messages the user sent or received', async () => {
+      mockRepoGetList.mockResolvedValue(pageOf([]))
+
+      await messageService.getConversations('1', { policy: 'network-first' })
+
+      expect(mockRepoGetList).toHaveBeenCalledTimes(2)
+      expect(mockRepoGetList).toHaveBeenCalledWith(
+        { page: 1, pageSize: 100, sortBy: 'createdAt', sortOrder: 'asc', filter: { senderId: '1' } },
+        undefined,
+        { policy: 'network-first' }
+      )
+      expect(mockRepoGetList).toHaveBeenCalledWith(
+        { page: 1, pageSize: 100, sortBy: 'createdAt', sortOrder: 'asc', filter: { recipientId: '1' } },
+        undefined,
+        { policy: 'network-first' }
+      )
+    })
+
+    it('includes queued messages and reads every page', async () => {
+      mockRepoGetList.mockImplementation(async ({ page, filter }) =>
+        filter.senderId ? pageOf([]) : pageOf(page === 1 ? [fromJane] : [fromBob], page, 2)
+      )
+      mockRepoGetOutbox.mockResolvedValue(outboxOf(queued))
+
+      const result = await messageService.getConversations('1')
+
+      expect(mockRepoGetList).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 2, filter: { recipientId: '1' } }),
+        undefined,
+        undefined
+      )
+      expect(result.data?.[0]).toMatchObject({ id: '1~3', lastMessage: queued, unreadCount: 1 })
+    })
+
+    it('returns the repository error', async () => {
+      mockRepoGetList.mockRejectedValue(new Error('Network error'))
+
+      const result = await messageService.getConversations('1')
+
+      expect(result).toEqual({ success: false, error: 'Network error' })
+    })
+  })
+
+  describe('getThread', () => {
+    it('returns the conversation oldest first with its queued messages', async () => {
+      const queuedToJane = { ...queued, conversationId: '1~2', createdAt: new Date('2025-06-15T10:00:30Z') }
+      mockRepoGetList.mockResolvedValue(pageOf([fromJane, toJane]))
+      mockRepoGetOutbox.mockResolvedValue(outboxOf(queuedToJane, queued))
+
+      const result = await messageService.getThread('1~2')
+
+      expect(mockRepoGetList).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { conversationId: '1~2' } }),
+        undefined,
+        undefined
+      )
+      expect(result.data?.map((m) => m.id)).toEqual(['offline_a', '1', '2'])
+    })
+
+    it('does not repeat a queued message the list already holds', async () => {
+      mockRepoGetList.mockResolvedValue(pageOf([queued]))
+      mockRepoGetOutbox.mockResolvedValue(outboxOf(queued))
+
+      const result = await messageService.getThread('1~3')
+
+      expect(result.data).toEqual([queued])
+    })
+  })
+
+  describe('send', () => {
+    it('creates the message', async () => {
+      mockRepoCreate.mockResolvedValue(queued)
+      const dto = { senderId: '1', senderName: 'John Doe', recipientId: '3', recipientName: 'Bob Lee', body: 'Hi' }
+
+      const result = await messageService.send(dto)
+
+      expect(result).toEqual({ success: true, data: queued })
+      expect(mockRepoCreate).toHaveBeenCalledWith(dto)
+    })
+
+    it('returns validation errors', async () => {
+      mockRepoCreate.mockRejectedValue(new Error('Message cannot be empty'))
+
+      const result = await messageService.send({
+        senderId: '1',
+        senderName: 'John Doe',
+        recipientId: '3',
+        recipientName: 'Bob Lee',
+        body: '',
+      })
+
+      expect(result).toEqual({ success: false, error: 'Message cannot be empty' })
+    })
+  })
+
+  describe('markRead', () => {
+    it('marks only unread messages the user received', async () => {
+      mockRepoGetList.mockResolvedValue(
+        pageOf([fromJane, toJane, message('4', 4, { readAt: new Date('2025-06-15T11:00:00Z') })])
+      )
+
+      const result = await messageService.markRead('1~2', '1')
+
+      expect(result).toEqual({ success: true, data: 1 })
+      expect(mockRepoUpdate).toHaveBeenCalledTimes(1)
+      expect(mockRepoUpdate).toHaveBeenCalledWith('1', { readAt: expect.any(Date) })
+    })
+  })
+
+  describe('markAllRead', () => {
+    it('marks the unread messages of every conversation', async () => {
+      mockRepoGetList.mockResolvedValue(pageOf([fromJane, fromBob]))
+
+      const result = await messageService.markAllRead('1')
+
+      expect(mockRepoGetList).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { recipientId: '1' } }),
+        undefined,
+        undefined
+      )
+      expect(result).toEqual({ success: true, data: 2 })
+      expect(mockRepoUpdate).toHaveBeenCalledWith('3', { readAt: expect.any(Date) })
+    })
+
+    it('marks ten messages at a time', async () => {
+      const unread = Array.from({ length: 25 }, (_, i) => message(String(i + 10), i))
+      mockRepoGetList.mockResolvedValue(pageOf(unread))
+      let inFlight = 0
+      let mostInFlight = 0
+      mockRepoUpdate.mockImplementation(async () => {
+        mostInFlight = Math.max(mostInFlight, ++inFlight)
+        await Promise.resolve()
+        inFlight--
+      })
+
+      const result = await messageService.markAllRead('1')
+
+      expect(result).toEqual({ success: true, data: 25 })
+      expect(mockRepoUpdate).toHaveBeenCalledTimes(25)
+      expect(mostInFlight).toBe(10)
+    })
+
+    it('returns the repository error', async () => {
+      mockRepoGetList.mockResolvedValue(pageOf([fromJane]))
+      mockRepoUpdate.mockRejectedValue(new Error('Message not found'))
+
+      const result = await messageService.markAllRead('1')
+
+      expect(result).toEqual({ success: false, error: 'Message not found' })
+    })
+  })
+
+  describe('getOutbox', () => {
+    it('returns the queued messages', async () => {
+      mockRepoGetOutbox.mockResolvedValue(outboxOf(queued))
+
+      const result = await messageService.getOutbox()
+
+      expect(result).toEqual({ success: true, data: outboxOf(queued) })
+    })
+  })
+})
@@ -0,0 +1,139 @@
+// =============================================================================
+// Project Service Implementation Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Project } from '@/app/domain/entities/project.model'
+
+// ---------------------------------------------------------------------------
+// Mock dependencies
+// ---------------------------------------------------------------------------
+
+const mockRepoGetById = vi.fn()
+const mockRepoGetList = vi.fn()
+const mockRepoCreate = vi.fn()
+const mockRepoUpdate = vi.fn()
+const mockRepoDelete = vi.fn()
+const mockRepoClearCache = vi.fn().mockResolvedValue(undefined)
+
+vi.mock('@/app/data/repositories/projectRepository', () => ({
+  projectRepository: {
+    getById: (...args: unknown[]) => mockRepoGetById(...args),
+    getList: (...args: unknown[]) => mockRepoGetList(...args),
+    create: (...args: unknown[]) => mockRepoCreate(...args),
+    update: (...args: unknown[]) => mockRepoUpdate(...args),
+    delete: (...args: unknown[]) => mockRepoDelete(...args),
+    clearCache: (...args: unknown[]) => mockRepoClearCache(...args),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => true,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+// Import after mocks
+import { projectService } from './impl/projectServiceImpl'
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+const now = new Date('2025-06-15T10:00:00Z')
+
+const mockProject: Project = {
+  id: '7',
+  name: 'Apollo',
+  description: 'Moon landing',
+  ownerId: '1',
+  memberIds: ['2'],
+  status: 'active',
+  archived: false,
+  createdAt: now,
+  updatedAt: now,
+}
+
+describe('ProjectServiceImpl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getById', () => {
+    it('returns the project from the repository', async () => {
+      mockRepoGetById.mockResolvedValue(mockProject)
+
+      const result = await projectService.getById('7', { policy: 'network-first' })
+
+      expect(result).toEqual({ success: true, data: mockProject })
+      expect(mockRepoGetById).toHaveBeenCalledWith('7', { policy: 'network-first' })
+    })
+
+    it('reports a missing project', async () => {
+      mockRepoGetById.mockResolvedValue(null)
+
+      const result = await projectService.getById('404')
+
+      expect(result).toEqual({ success: false, error: 'Project not found' })
+    })
+  })
+
+  describe('getList', () => {
+    it('passes filters through to the repository', async () => {
+      const page = { data: [mockProject], page: 1, pageSize: 6, total: 1, totalPages: 1 }
+      mockRepoGetList.mockResolvedValue(page)
+      const params = { page: 1, pageSize: 6, filter: { archived: false } }
+
+      const result = await projectService.getList(params, 'apo')
+
+      expect(result).toEqual({ success: true, data: page })
+      expect(mockRepoGetList).toHaveBeenCalledWith(params, 'apo', undefined)
+    })
+  })
+
+  describe('archive and restore', () => {
+    it('archives by updating the archived flag', async () => {
+      mockRepoUpdate.mockResolvedValue({ ...mockProject, archived: true })
+
+      const result = await projectService.archive('7')
+
+      expect(result.data?.archived).toBe(true)
+      expect(mockRepoUpdate).toHaveBeenCalledWith('7', { archived: true })
+    })
+
+    it('restores by clearing the archived flag', async () => {
+      mockRepoUpdate.mockResolvedValue(mockProject)
+
+      await projectService.restore('7')
+
+      expect(mockRepoUpdate).toHaveBeenCalledWith('7', { archived: false })
+    })
+
+    it('returns the repository error', async () => {
+      mockRepoUpdate.mockRejectedValue(new Error('Project not found'))
+
+      const result = await projectService.archive('404')
+
+      expect(result).toEqual({ success: false, error: 'Project not found' })
+    })
+  })
+
+  describe('delete', () => {
+    it('deletes through the repository', async () => {
+      mockRepoDelete.mockResolvedValue(undefined)
+
+      const result = await projectService.delete('7')
+
+      expect(result).toEqual({ success: true })
+      expect(mockRepoDelete).toHaveBeenCalledWith('7')
+    })
+
+    it('formats non-Error failures', async () => {
+      mockRepoDelete.mockRejectedValue('boom')
+
+      const result = await projectService.delete('7')
+
+      expect(result).toEqual({ success: false, error: 'An unknown error occurred' })
+    })
+  })
+})
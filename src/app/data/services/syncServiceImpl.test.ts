@@ -0,0 +1,115 @@
+// =============================================================================
+// Sync Service Implementation Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BehaviorSubject, firstValueFrom } from 'rxjs'
+import type { PendingOperation } from '@/app/data/storage/indexedDbService'
+
+// ---------------------------------------------------------------------------
+// Mock dependencies
+// ---------------------------------------------------------------------------
+
+const { mockResolveConflict, mockRetryDeadLetter, mockDiscardDeadLetter, mockConflicts$ } = vi.hoisted(() => ({
+  mockResolveConflict: vi.fn().mockResolvedValue(undefined),
+  mockRetryDeadLetter: vi.fn().mockResolvedValue(undefined),
+  mockDiscardDeadLetter: vi.fn().mockResolvedValue(undefined),
+  mockConflicts$: { subscribe: vi.fn() },
+}))
+
+vi.mock('@/app/data/sync/offlineSyncService', () => ({
+  offlineSyncService: {
+    resolveConflict: (...args: unknown[]) => mockResolveConflict(...args),
+    retryDeadLetter: (...args: unknown[]) => mockRetryDeadLetter(...args),
+    discardDeadLetter: (...args: unknown[]) => mockDiscardDeadLetter(...args),
+    conflicts$: mockConflicts$,
+    get deadLetters$() {
+      return failedOperations$
+    },
+  },
+}))
+
+const failedOperations$ = new BehaviorSubject<PendingOperation[]>([])
+
+// Import after mocks
+import { syncService } from './impl/syncServiceImpl'
+
+describe('SyncServiceImpl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('exposes the sync queue conflicts', () => {
+    expect(syncService.conflicts$).toBe(mockConflicts$)
+  })
+
+  it('resolves a conflict through the sync queue', async () => {
+    const result = await syncService.resolveConflict(3, { type: 'server' })
+
+    expect(result.success).toBe(true)
+    expect(mockResolveConflict).toHaveBeenCalledWith(3, { type: 'server' })
+  })
+
+  it('returns the error message when resolution fails', async () => {
+    mockResolveConflict.mockRejectedValueOnce(new Error('No conflict for operation: 3'))
+
+    const result = await syncService.resolveConflict(3, { type: 'defer' })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('No conflict for operation: 3')
+  })
+
+  it('returns a generic message for non-Error rejections', async () => {
+    mockResolveConflict.mockRejectedValueOnce('boom')
+
+    const result = await syncService.resolveConflict(3, { type: 'server' })
+
+    expect(result.error).toBe('An unknown error occurred')
+  })
+
+  it('maps failed queue entries to dead letters', async () => {
+    failedOperations$.next([
+      {
+        id: 9,
+        type: 'create',
+        entity: 'user',
+        entityId: 'offline_1',
+        payload: { email: 'bad' },
+        timestamp: 1700000000000,
+        retries: 3,
+        maxRetries: 3,
+        status: 'failed',
+        error: 'Invalid email',
+      },
+    ])
+
+    const [deadLetter] = await firstValueFrom(syncService.deadLetters$)
+
+    expect(deadLetter).toEqual({
+      operationId: 9,
+      type: 'create',
+      entity: 'user',
+      entityId: 'offline_1',
+      payload: { email: 'bad' },
+      error: 'Invalid email',
+      attempts: 3,
+      queuedAt: new Date(1700000000000),
+    })
+  })
+
+  it('retries a dead letter with the edited payload', async () => {
+    const result = await syncService.retryDeadLetter(9, { email: 'good@example.com' })
+
+    expect(result.success).toBe(true)
+    expect(mockRetryDeadLetter).toHaveBeenCalledWith(9, { email: 'good@example.com' })
+  })
+
+  it('returns the error message when discarding fails', async () => {
+    mockDiscardDeadLetter.mockRejectedValueOnce(new Error('No failed operation: 9'))
+
+    const result = await syncService.discardDeadLetter(9)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('No failed operation: 9')
+  })
+})
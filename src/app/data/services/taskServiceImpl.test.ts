@@ -0,0 +1,151 @@
+// =============================================================================
+// Task Service Implementation Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Task } from '@/app/domain/entities/task.model'
+
+// ---------------------------------------------------------------------------
+// Mock dependencies
+// ---------------------------------------------------------------------------
+
+const mockRepoGetById = vi.fn()
+const mockRepoGetList = vi.fn()
+const mockRepoCreate = vi.fn()
+const mockRepoUpdate = vi.fn()
+const mockRepoDelete = vi.fn()
+const mockRepoClearCache = vi.fn().mockResolvedValue(undefined)
+
+vi.mock('@/app/data/repositories/taskRepository', () => ({
+  taskRepository: {
+    getById: (...args: unknown[]) => mockRepoGetById(...args),
+    getList: (...args: unknown[]) => mockRepoGetList(...args),
+    create: (...args: unknown[]) => mockRepoCreate(...args),
+    update: (...args: unknown[]) => mockRepoUpdate(...args),
+    delete: (...args: unknown[]) => mockRepoDelete(...args),
+    clearCache: (...args: unknown[]) => mockRepoClearCache(...args),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => true,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+// Import after mocks
+import { taskService } from './impl/taskServiceImpl'
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+const now = new Date('2025-06-15T10:00:00Z')
+
+const mockTask: Task = {
+  id: '7',
+  title: 'Write release notes',
+  description: 'Cover the offline changes',
+  status: 'in-progress',
+  priority: 'high',
+  dueDate: null,
+  assigneeId: '1',
+  projectId: null,
+  createdAt: now,
+  updatedAt: now,
+}
+
+describe('TaskServiceImpl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getById', () => {
+    it('returns the task from the repository', async () => {
+      mockRepoGetById.mockResolvedValue(mockTask)
+
+      const result = await taskService.getById('7', { policy: 'network-first' })
+
+      expect(result).toEqual({ success: true, data: mockTask })
+      expect(mockRepoGetById).toHaveBeenCalledWith('7', { policy: 'network-first' })
+    })
+
+    it('reports a missing task', async () => {
+      mockRepoGetById.mockResolvedValue(null)
+
+      const result = await taskService.getById('404')
+
+      expect(result).toEqual({ success: false, error: 'Task not found' })
+    })
+  })
+
+  describe('getList', () => {
+    it('passes filters through to the repository', async () => {
+      const page = { data: [mockTask], page: 1, pageSize: 6, total: 1, totalPages: 1 }
+      mockRepoGetList.mockResolvedValue(page)
+      const params = { page: 1, pageSize: 6, filter: { assigneeId: '1' } }
+
+      const result = await taskService.getList(params, 'notes')
+
+      expect(result).toEqual({ success: true, data: page })
+      expect(mockRepoGetList).toHaveBeenCalledWith(params, 'notes', undefined)
+    })
+  })
+
+  describe('transition', () => {
+    it('moves the task one step along the workflow', async () => {
+      mockRepoGetById.mockResolvedValue(mockTask)
+      mockRepoUpdate.mockResolvedValue({ ...mockTask, status: 'review' })
+
+      const result = await taskService.transition('7', 'review')
+
+      expect(result.data?.status).toBe('review')
+      expect(mockRepoUpdate).toHaveBeenCalledWith('7', { status: 'review' })
+    })
+
+    it('refuses steps the workflow does not allow', async () => {
+      mockRepoGetById.mockResolvedValue(mockTask)
+
+      const result = await taskService.transition('7', 'done')
+
+      expect(result).toEqual({ success: false, error: 'A task cannot move from in-progress to done' })
+      expect(mockRepoUpdate).not.toHaveBeenCalled()
+    })
+
+    it('reports a missing task', async () => {
+      mockRepoGetById.mockResolvedValue(null)
+
+      const result = await taskService.transition('404', 'review')
+
+      expect(result).toEqual({ success: false, error: 'Task not found' })
+    })
+
+    it('returns the repository error', async () => {
+      mockRepoGetById.mockResolvedValue(mockTask)
+      mockRepoUpdate.mockRejectedValue(new Error('Validation failed'))
+
+      const result = await taskService.transition('7', 'todo')
+
+      expect(result).toEqual({ success: false, error: 'Validation failed' })
+    })
+  })
+
+  describe('delete', () => {
+    it('deletes through the repository', async () => {
+      mockRepoDelete.mockResolvedValue(undefined)
+
+      const result = await taskService.delete('7')
+
+      expect(result).toEqual({ success: true })
+      expect(mockRepoDelete).toHaveBeenCalledWith('7')
+    })
+
+    it('formats non-Error failures', async () => {
+      mockRepoDelete.mockRejectedValue('boom')
+
+      const result = await taskService.delete('7')
+
+      expect(result).toEqual({ success: false, error: 'An unknown error occurred' })
+    })
+  })
+})
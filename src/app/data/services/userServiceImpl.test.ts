@@ -135,7 +135,7 @@ describe('UserServiceImpl', () => {
 
       await userService.getList({ page: 1, pageSize: 10 }, 'john')
 
-      expect(mockRepoGetList).toHaveBeenCalledWith({ page: 1, pageSize: 10 }, 'john')
+      expect(mockRepoGetList).toHaveBeenCalledWith({ page: 1, pageSize: 10 }, 'john', undefined)
     })
 
     it('returns failure on error', async () => {
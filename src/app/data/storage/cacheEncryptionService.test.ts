@@ -0,0 +1,107 @@
+// =============================================================================
+// Cache Encryption Service Tests
+// =============================================================================
+
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { CacheEncryptionService, type CacheKeyStore, type StoredCacheKey } from './cacheEncryptionService'
+
+// Backs the localStorage mock with a real map for the key ID
+const storage = new Map<string, string>()
+
+/**
+ * Key store shared by the instances (tabs) of a test
+ */
+function createKeyStore() {
+  let stored: StoredCacheKey | undefined
+  const keyStore: CacheKeyStore = {
+    get: async () => stored,
+    add: async (entry) => (stored ??= entry),
+    delete: async () => {
+      stored = undefined
+    },
+  }
+  return { keyStore, current: () => stored }
+}
+
+describe('CacheEncryptionService', () => {
+  let service: CacheEncryptionService
+  let keys: ReturnType<typeof createKeyStore>
+
+  beforeEach(() => {
+    storage.clear()
+    vi.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null)
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => storage.set(key, value))
+    vi.mocked(localStorage.removeItem).mockImplementation((key) => storage.delete(key))
+    keys = createKeyStore()
+    service = new CacheEncryptionService(['user:', 'users:'], keys.keyStore)
+  })
+
+  it('round-trips values, including dates', async () => {
+    const user = { id: '1', email: 'john@example.com', createdAt: new Date('2025-01-01T00:00:00Z'), tags: ['a'] }
+
+    const sealed = await service.encrypt(user)
+    const opened = await service.decrypt<typeof user>(sealed)
+
+    expect(opened).toEqual(user)
+    expect(opened.createdAt).toBeInstanceOf(Date)
+  })
+
+  it('does not store the plaintext', async () => {
+    const sealed = await service.encrypt({ email: 'john@example.com' })
+
+    expect(new TextDecoder().decode(sealed.data)).not.toContain('john@example.com')
+    expect(sealed.iv).toHaveLength(12)
+  })
+
+  it('uses a fresh nonce for every value', async () => {
+    const first = await service.encrypt('same')
+    const second = await service.encrypt('same')
+
+    expect(first.iv).not.toEqual(second.iv)
+  })
+
+  it('creates one non-extractable session key and shares it with other instances (tabs)', async () => {
+    const sealed = await service.encrypt('shared')
+
+    const stored = keys.current()!
+    expect(stored.key.extractable).toBe(false)
+    await expect(crypto.subtle.exportKey('raw', stored.key)).rejects.toThrow()
+    expect(storage.get('arcana_cache_key')).toBe(stored.id)
+    await expect(new CacheEncryptionService([], keys.keyStore).decrypt(sealed)).resolves.toBe('shared')
+  })
+
+  it('cannot open values sealed before a wipe', async () => {
+    const sealed = await service.encrypt('secret')
+
+    await service.wipe()
+
+    expect(keys.current()).toBeUndefined()
+    expect(storage.has('arcana_cache_key')).toBe(false)
+    await expect(service.decrypt(sealed)).rejects.toThrow()
+  })
+
+  it('picks up a key replaced by another tab', async () => {
+    const other = new CacheEncryptionService([], keys.keyStore)
+    await service.encrypt('warm up')
+
+    await other.wipe()
+    const sealed = await other.encrypt('new session')
+
+    await expect(service.decrypt(sealed)).resolves.toBe('new session')
+  })
+
+  it('keeps the session key in IndexedDB by default', async () => {
+    const sealed = await new CacheEncryptionService().encrypt('persisted')
+
+    await expect(new CacheEncryptionService().decrypt(sealed)).resolves.toBe('persisted')
+    expect(storage.get('arcana_cache_key')).toMatch(/^[0-9a-f]{32}$/)
+  })
+
+  it('selects entries by key prefix', () => {
+    expect(service.shouldEncrypt('user:1')).toBe(true)
+    expect(service.shouldEncrypt('users:list:1:10:')).toBe(true)
+    expect(service.shouldEncrypt('settings:theme')).toBe(false)
+    expect(new CacheEncryptionService([]).shouldEncrypt('user:1')).toBe(false)
+  })
+})
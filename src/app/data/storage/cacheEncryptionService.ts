@@ -0,0 +1,224 @@
+// =============================================================================
+// Cache Encryption Service
+// =============================================================================
+// Encrypts IndexedDB entries at rest with AES-GCM (WebCrypto).
+// The key is a random, non-extractable CryptoKey kept in its own IndexedDB
+// store: scripts can use it but never read it. Deleting it on logout leaves
+// everything sealed with it unreadable.
+// =============================================================================
+
+import Dexie, { type Table } from 'dexie'
+import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+
+const { ENCRYPTION, INDEXED_DB, STORAGE_KEYS } = APP_CONSTANTS
+
+/**
+ * AES-GCM ciphertext as stored in IndexedDB
+ */
+export interface EncryptedValue {
+  iv: Uint8Array<ArrayBuffer>
+  data: ArrayBuffer
+}
+
+/**
+ * The session key and the ID tabs use to tell keys apart
+ */
+export interface StoredCacheKey {
+  id: string
+  key: CryptoKey
+}
+
+/**
+ * Where the session key is kept, shared by all tabs
+ */
+export interface CacheKeyStore {
+  get(): Promise<StoredCacheKey | undefined>
+  /** Store a key unless one is already there; resolves to the stored key */
+  add(entry: StoredCacheKey): Promise<StoredCacheKey>
+  delete(): Promise<void>
+}
+
+/**
+ * Bytes of the AES-GCM nonce and of a key ID
+ */
+const IV_LENGTH = 12
+const KEY_ID_LENGTH = 16
+
+/**
+ * Row of the key store holding the session key
+ */
+const KEY_NAME = 'cache'
+
+/**
+ * Key store backed by a database of its own, so the key is never part of
+ * ArcanaDB exports or migrations
+ */
+class IndexedDbCacheKeyStore implements CacheKeyStore {
+  private readonly keys: Table<StoredCacheKey & { name: string }, string>
+
+  constructor() {
+    const db = new Dexie(INDEXED_DB.KEYS_NAME)
+    db.version(1).stores({ keys: 'name' })
+    this.keys = db.table('keys')
+  }
+
+  async get(): Promise<StoredCacheKey | undefined> {
+    return this.keys.get(KEY_NAME)
+  }
+
+  async add(entry: StoredCacheKey): Promise<StoredCacheKey> {
+    return this.keys.db.transaction('rw', this.keys, async () => {
+      const existing = await this.keys.get(KEY_NAME)
+      if (existing) return existing
+
+      await this.keys.put({ name: KEY_NAME, ...entry })
+      return entry
+    })
+  }
+
+  async delete(): Promise<void> {
+    await this.keys.delete(KEY_NAME)
+  }
+}
+
+/**
+ * Random hex ID for a new key
+ */
+function createKeyId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(KEY_ID_LENGTH)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')
+}
+
+/**
+ * JSON that keeps Date values (entities carry createdAt/updatedAt)
+ */
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, replaced: unknown) {
+    const raw = this[key]
+    return raw instanceof Date ? { $date: raw.toISOString() } : replaced
+  })
+}
+
+function deserialize<T>(json: string): T {
+  return JSON.parse(json, (_key, value: unknown) => {
+    if (value && typeof value === 'object' && '$date' in value && Object.keys(value).length === 1) {
+      return new Date((value as { $date: string }).$date)
+    }
+    return value
+  }) as T
+}
+
+/**
+ * Cache Encryption Service
+ * Which entries are sealed is decided by key prefix (ENCRYPTION.PREFIXES)
+ */
+export class CacheEncryptionService {
+  private readonly prefixes: readonly string[]
+  private readonly keyStore: CacheKeyStore
+
+  // Key loaded for the key ID currently in storage
+  private loaded: { id: string | null; key: Promise<CryptoKey> } | null = null
+
+  constructor(
+    prefixes: readonly string[] = ENCRYPTION.ENABLED ? ENCRYPTION.PREFIXES : [],
+    keyStore: CacheKeyStore = new IndexedDbCacheKeyStore()
+  ) {
+    this.prefixes = prefixes
+    this.keyStore = keyStore
+  }
+
+  /**
+   * Whether WebCrypto is available (secure contexts only)
+   */
+  get isSupported(): boolean {
+    return globalThis.crypto?.subtle !== undefined
+  }
+
+  /**
+   * Whether entries under this key are stored encrypted
+   */
+  shouldEncrypt(key: string): boolean {
+    return this.isSupported && this.prefixes.some((prefix) => key.startsWith(prefix))
+  }
+
+  /**
+   * Seal a structured-cloneable value
+   */
+  async encrypt(value: unknown): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getKey(),
+      new TextEncoder().encode(serialize(value))
+    )
+
+    return { iv, data }
+  }
+
+  /**
+   * Open a sealed value
+   * Rejects if it was sealed with a key that has since been wiped
+   */
+  async decrypt<T>({ iv, data }: EncryptedValue): Promise<T> {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, await this.getKey(), data)
+    return deserialize<T>(new TextDecoder().decode(plain))
+  }
+
+  /**
+   * Delete the session key; sealed entries can no longer be opened
+   */
+  async wipe(): Promise<void> {
+    this.loaded = null
+    try {
+      await this.keyStore.delete()
+    } finally {
+      // Other tabs reload the key once its ID is gone
+      localStorage.removeItem(STORAGE_KEYS.CACHE_KEY)
+    }
+  }
+
+  /**
+   * Session key, created on first use
+   * The key is shared by all tabs; a key replaced by another tab is picked up
+   * through the key ID in localStorage (the ID reveals nothing about the key)
+   */
+  private getKey(): Promise<CryptoKey> {
+    const id = localStorage.getItem(STORAGE_KEYS.CACHE_KEY)
+
+    if (!this.loaded || this.loaded.id !== id) {
+      const key = this.loadKey()
+      const loaded = { id, key: key.then((entry) => entry.key) }
+      this.loaded = loaded
+
+      key.then(
+        (entry) => {
+          if (this.loaded === loaded) loaded.id = entry.id
+        },
+        () => {
+          // Retry on the next use
+          if (this.loaded === loaded) this.loaded = null
+        }
+      )
+    }
+    return this.loaded.key
+  }
+
+  /**
+   * Stored key, or a new non-extractable AES-GCM key if there is none
+   */
+  private async loadKey(): Promise<StoredCacheKey> {
+    let entry = await this.keyStore.get()
+
+    if (!entry) {
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+      entry = await this.keyStore.add({ id: createKeyId(), key })
+    }
+
+    localStorage.setItem(STORAGE_KEYS.CACHE_KEY, entry.id)
+    return entry
+  }
+}
+
+// Export singleton instance
+export const cacheEncryptionService = new CacheEncryptionService()
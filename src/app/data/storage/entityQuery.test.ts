@@ -0,0 +1,189 @@
+// =============================================================================
+// Entity Query Tests
+// =============================================================================
+// Queries run against a real Dexie table in fake-indexeddb.
+// =============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import Dexie, { type Table } from 'dexie'
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb'
+import type { User } from '@/app/domain/entities/user.model'
+import { queryTable, type RowCodec } from './entityQuery'
+
+function user(id: string, firstName: string, lastName: string, day: number): User {
+  return {
+    id,
+    email: `${firstName.toLowerCase()}@example.com`,
+    firstName,
+    lastName,
+    createdAt: new Date(2024, 0, day),
+    updatedAt: new Date(2024, 1, day),
+  }
+}
+
+const USERS = [
+  user('1', 'Ada', 'Lovelace', 3),
+  user('2', 'Alan', 'Turing', 1),
+  user('3', 'Grace', 'Hopper', 4),
+  user('4', 'Edsger', 'Dijkstra', 2),
+  user('5', 'Barbara', 'Liskov', 5),
+]
+
+const SEARCH_FIELDS = ['firstName', 'lastName', 'email'] as const
+
+describe('queryTable', () => {
+  let db: Dexie
+  let users: Table<User>
+
+  beforeEach(async () => {
+    db = new Dexie('EntityQueryTest', { indexedDB: new IDBFactory(), IDBKeyRange })
+    db.version(1).stores({ users: 'id, email, lastName, createdAt, updatedAt' })
+    users = db.table('users')
+    await users.bulkPut(USERS)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  it('returns rows in primary key order by default', async () => {
+    const page = await queryTable(users, { offset: 0, limit: 10 })
+
+    expect(page.items.map((row) => row.id)).toEqual(['1', '2', '3', '4', '5'])
+    expect(page.total).toBe(5)
+  })
+
+  it('sorts by an indexed field', async () => {
+    const page = await queryTable(users, { sortBy: 'lastName', offset: 0, limit: 10 })
+
+    expect(page.items.map((row) => row.lastName)).toEqual(['Dijkstra', 'Hopper', 'Liskov', 'Lovelace', 'Turing'])
+  })
+
+  it('sorts descending by date', async () => {
+    const page = await queryTable(users, { sortBy: 'createdAt', sortOrder: 'desc', offset: 0, limit: 10 })
+
+    expect(page.items.map((row) => row.id)).toEqual(['5', '3', '1', '4', '2'])
+  })
+
+  it('paginates with the total of all rows', async () => {
+    const page = await queryTable(users, { sortBy: 'lastName', offset: 2, limit: 2 })
+
+    expect(page.items.map((row) => row.lastName)).toEqual(['Liskov', 'Lovelace'])
+    expect(page.total).toBe(5)
+  })
+
+  it('keeps only rows matching every where condition', async () => {
+    const page = await queryTable(users, {
+      where: { lastName: 'Hopper', firstName: 'Grace', email: undefined },
+      offset: 0,
+      limit: 10,
+    })
+
+    expect(page.items.map((row) => row.id)).toEqual(['3'])
+    expect(page.total).toBe(1)
+  })
+
+  it('keeps only rows whose dates fall within the bounds', async () => {
+    const page = await queryTable(users, {
+      range: { createdAt: { from: new Date(2024, 0, 2), to: new Date(2024, 0, 4) }, updatedAt: undefined },
+      sortBy: 'createdAt',
+      offset: 0,
+      limit: 10,
+    })
+
+    // From is inclusive, to is exclusive
+    expect(page.items.map((row) => row.id)).toEqual(['4', '1'])
+    expect(page.total).toBe(2)
+  })
+
+  it('searches case-insensitively across the search fields', async () => {
+    const page = await queryTable(users, { search: 'LI', searchFields: SEARCH_FIELDS, offset: 0, limit: 10 })
+
+    expect(page.items.map((row) => row.lastName)).toEqual(['Liskov'])
+    expect(page.total).toBe(1)
+  })
+
+  it('counts only matches when searching a sorted page', async () => {
+    const page = await queryTable(users, {
+      search: 'ra',
+      searchFields: SEARCH_FIELDS,
+      sortBy: 'lastName',
+      offset: 1,
+      limit: 2,
+    })
+
+    // Dijkstra, Grace Hopper and Barbara Liskov match
+    expect(page.total).toBe(3)
+    expect(page.items.map((row) => row.lastName)).toEqual(['Hopper', 'Liskov'])
+  })
+
+  it('ignores a blank search', async () => {
+    const page = await queryTable(users, { search: '  ', searchFields: SEARCH_FIELDS, offset: 0, limit: 10 })
+
+    expect(page.total).toBe(5)
+  })
+
+  it('returns an empty page past the end', async () => {
+    const page = await queryTable(users, { offset: 10, limit: 5 })
+
+    expect(page.items).toEqual([])
+    expect(page.total).toBe(5)
+  })
+
+  describe('with sealed fields', () => {
+    type Row = Pick<User, 'id' | 'createdAt' | 'updatedAt'> & { sealed: Omit<User, 'id' | 'createdAt' | 'updatedAt'> }
+    let rows: Table<Row>
+    let opened: number
+
+    // Names and emails are "sealed": only readable once a row is opened
+    const codec: RowCodec<Row, User> = {
+      plainFields: ['id', 'createdAt', 'updatedAt'],
+      open: async (page) => {
+        opened += page.length
+        return page.map(({ sealed, ...plain }) => ({ ...plain, ...sealed }))
+      },
+    }
+
+    beforeEach(async () => {
+      db.close()
+      db = new Dexie('EntityQuerySealedTest', { indexedDB: new IDBFactory(), IDBKeyRange })
+      db.version(1).stores({ users: 'id, createdAt, updatedAt' })
+      rows = db.table('users')
+      await rows.bulkPut(USERS.map(({ id, createdAt, updatedAt, ...sealed }) => ({ id, createdAt, updatedAt, sealed })))
+      opened = 0
+    })
+
+    it('opens only the requested page when the index answers the query', async () => {
+      const page = await queryTable(rows, { sortBy: 'createdAt', sortOrder: 'desc', offset: 1, limit: 2 }, codec)
+
+      expect(page.items.map((row) => row.lastName)).toEqual(['Hopper', 'Lovelace'])
+      expect(page.total).toBe(5)
+      expect(opened).toBe(2)
+    })
+
+    it('sorts by a sealed field in memory', async () => {
+      const page = await queryTable(rows, { sortBy: 'lastName', sortOrder: 'desc', offset: 0, limit: 2 }, codec)
+
+      expect(page.items.map((row) => row.lastName)).toEqual(['Turing', 'Lovelace'])
+      expect(page.total).toBe(5)
+    })
+
+    it('applies date bounds to plain fields on the cursor', async () => {
+      const page = await queryTable(rows, { range: { createdAt: { to: new Date(2024, 0, 3) } }, offset: 0, limit: 10 }, codec)
+
+      expect(page.items.map((row) => row.id)).toEqual(['2', '4'])
+      expect(opened).toBe(2)
+    })
+
+    it('searches and filters sealed fields with totals of the matches', async () => {
+      const page = await queryTable(
+        rows,
+        { search: 'ra', searchFields: SEARCH_FIELDS, where: { firstName: 'Grace' }, offset: 0, limit: 10 },
+        codec
+      )
+
+      expect(page.items.map((row) => row.id)).toEqual(['3'])
+      expect(page.total).toBe(1)
+    })
+  })
+})
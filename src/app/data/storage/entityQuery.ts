@@ -0,0 +1,145 @@
+// =============================================================================
+// Entity Query - Offline Search, Sort and Pagination
+// =============================================================================
+// Runs list queries against a normalized IndexedDB table, so offline lists
+// page through every stored entity with correct totals.
+// =============================================================================
+
+import type { Table } from 'dexie'
+import type { DateBounds, SortOrder } from '@/app/domain/entities/pagination.model'
+
+/**
+ * Query against an entity table
+ */
+export interface EntityQuery<T> {
+  /** Case-insensitive text matched anywhere in one of searchFields */
+  search?: string
+  searchFields?: readonly (keyof T & string)[]
+  /** Field values a row must equal; undefined values are ignored */
+  where?: Partial<Record<keyof T & string, unknown>>
+  /** Dates a row's field must fall within; rows without a date are left out */
+  range?: Partial<Record<keyof T & string, DateBounds>>
+  /** Indexed field to sort by; primary key order when omitted */
+  sortBy?: keyof T & string
+  sortOrder?: SortOrder
+  offset: number
+  limit: number
+}
+
+/**
+ * One page of query results with the total number of matches
+ */
+export interface EntityPage<T> {
+  items: T[]
+  total: number
+}
+
+/**
+ * How entities are stored in a table whose rows are partly sealed
+ */
+export interface RowCodec<R, T> {
+  /** Fields stored in clear on every row; the rest are known only once opened */
+  plainFields: readonly string[]
+  /** Open rows into entities; rows that cannot be opened are left out */
+  open(rows: R[]): Promise<T[]>
+}
+
+/**
+ * A field and the test its value must pass
+ */
+type Condition = [string, (value: unknown) => boolean]
+
+function withinBounds(value: unknown, from?: Date, to?: Date): boolean {
+  if (value === null || value === undefined) return false
+  const time = new Date(value as string | number | Date).getTime()
+  return (!from || time >= from.getTime()) && (!to || time < to.getTime())
+}
+
+/**
+ * Sort key of a field value, in IndexedDB order (dates by time)
+ */
+function sortKey(value: unknown): string | number {
+  if (value instanceof Date) return value.getTime()
+  return typeof value === 'number' ? value : String(value ?? '')
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const left = sortKey(a)
+  const right = sortKey(b)
+  if (left < right) return -1
+  return left > right ? 1 : 0
+}
+
+/**
+ * Run a query on a Dexie table
+ * Sorting walks the index; search, `where` and `range` are filters on the same
+ * cursor, so the total counts matches rather than rows. With a codec, only
+ * plain fields are read from the cursor: a query on sealed fields opens
+ * every candidate row and finishes in memory
+ */
+export async function queryTable<T>(table: Table<T>, query: EntityQuery<T>): Promise<EntityPage<T>>
+export async function queryTable<R, T>(
+  table: Table<R>,
+  query: EntityQuery<T>,
+  codec: RowCodec<R, T>
+): Promise<EntityPage<T>>
+export async function queryTable<R, T>(
+  table: Table<R>,
+  query: EntityQuery<T>,
+  codec?: RowCodec<R, T>
+): Promise<EntityPage<T>> {
+  const isPlain = (field: string) => !codec || codec.plainFields.includes(field)
+  const open = async (rows: R[]): Promise<T[]> => (codec ? codec.open(rows) : (rows as unknown as T[]))
+  const plainSort = !query.sortBy || isPlain(query.sortBy)
+
+  let collection = query.sortBy && plainSort ? table.orderBy(query.sortBy) : table.toCollection()
+
+  if (query.sortOrder === 'desc' && plainSort) {
+    collection = collection.reverse()
+  }
+
+  const text = query.search?.trim().toLowerCase()
+  const fields = text ? (query.searchFields ?? []) : []
+  const matchesSearch = (row: T) => fields.some((field) => String(row[field] ?? '').toLowerCase().includes(text ?? ''))
+  const plainSearch = fields.every(isPlain)
+  if (fields.length > 0 && plainSearch) {
+    collection = collection.filter((row) => matchesSearch(row as unknown as T))
+  }
+
+  const equalities = Object.entries(query.where ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]): Condition => [field, (actual) => actual === value])
+  const bounds = Object.entries(query.range ?? {})
+    .filter((entry): entry is [string, DateBounds] => entry[1] !== undefined)
+    .map(([field, { from, to }]): Condition => [field, (actual) => withinBounds(actual, from, to)])
+  const conditions = [...equalities, ...bounds]
+  const matches = (row: T, subset: Condition[]) =>
+    subset.every(([field, test]) => test(row[field as keyof T]))
+  const plainConditions = conditions.filter(([field]) => isPlain(field))
+  const sealedConditions = conditions.filter(([field]) => !isPlain(field))
+  if (plainConditions.length > 0) {
+    collection = collection.filter((row) => matches(row as unknown as T, plainConditions))
+  }
+
+  // Everything answered by the cursor: open only the requested page
+  if (plainSort && plainSearch && sealedConditions.length === 0) {
+    const total = await collection.count()
+    const rows = await collection.offset(query.offset).limit(query.limit).toArray()
+    return { items: await open(rows), total }
+  }
+
+  let items = await open(await collection.toArray())
+  if (fields.length > 0 && !plainSearch) {
+    items = items.filter(matchesSearch)
+  }
+  if (sealedConditions.length > 0) {
+    items = items.filter((row) => matches(row, sealedConditions))
+  }
+  if (!plainSort) {
+    const direction = query.sortOrder === 'desc' ? -1 : 1
+    const sortBy = query.sortBy!
+    items.sort((a, b) => direction * compareValues(a[sortBy], b[sortBy]))
+  }
+
+  return { items: items.slice(query.offset, query.offset + query.limit), total: items.length }
+}
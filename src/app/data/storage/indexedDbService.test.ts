@@ -11,15 +11,42 @@ import { type CachedItem, type PendingOperation, type SyncMetadata } from './ind
 // ---------------------------------------------------------------------------
 vi.mock('dexie', () => {
   class FakeDexie {
+    static waitFor<T>(value: T) {
+      return Promise.resolve(value)
+    }
     version() {
-      return { stores: vi.fn() }
+      const version = { stores: vi.fn(() => version), upgrade: vi.fn(() => version) }
+      return version
     }
     open = vi.fn().mockResolvedValue(undefined)
   }
   return { default: FakeDexie }
 })
 
-import { IndexedDbService } from './indexedDbService'
+// Fake sealing: entries under 'secret:' are wrapped instead of encrypted
+const { mockEncryption } = vi.hoisted(() => ({
+  mockEncryption: {
+    shouldEncrypt: vi.fn((key: string) => key.startsWith('secret:')),
+    encrypt: vi.fn(async (value: unknown) => ({ sealed: value })),
+    decrypt: vi.fn(async (value: { sealed: unknown }) => value.sealed),
+  },
+}))
+
+vi.mock('./cacheEncryptionService', () => ({
+  cacheEncryptionService: mockEncryption,
+}))
+
+// Query semantics are covered against fake-indexeddb in entityQuery.test.ts
+const { mockQueryTable } = vi.hoisted(() => ({
+  mockQueryTable: vi.fn(),
+}))
+
+vi.mock('./entityQuery', () => ({
+  queryTable: (...args: unknown[]) => mockQueryTable(...args),
+}))
+
+import { ENTITY_INDEXES, IndexedDbService, type EntityRow } from './indexedDbService'
+import type { RowCodec } from './entityQuery'
 
 // Create mock tables
 function createMockTables() {
@@ -33,6 +60,11 @@ function createMockTables() {
       filter: vi.fn().mockReturnValue({
         primaryKeys: vi.fn().mockResolvedValue([]),
       }),
+      where: vi.fn().mockReturnValue({
+        anyOf: vi.fn().mockReturnValue({
+          primaryKeys: vi.fn().mockResolvedValue([]),
+        }),
+      }),
       toArray: vi.fn().mockResolvedValue([]),
       bulkDelete: vi.fn().mockResolvedValue(undefined),
     },
@@ -64,6 +96,29 @@ function createMockTables() {
       clear: vi.fn().mockResolvedValue(undefined),
       toArray: vi.fn().mockResolvedValue([]),
     },
+    idMappings: {
+      get: vi.fn().mockResolvedValue(undefined),
+      put: vi.fn().mockResolvedValue(undefined),
+      clear: vi.fn().mockResolvedValue(undefined),
+      toArray: vi.fn().mockResolvedValue([]),
+    },
+    users: {
+      bulkPut: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+      clear: vi.fn().mockResolvedValue(undefined),
+    },
+    projects: {
+      clear: vi.fn().mockResolvedValue(undefined),
+    },
+    tasks: {
+      clear: vi.fn().mockResolvedValue(undefined),
+    },
+    events: {
+      clear: vi.fn().mockResolvedValue(undefined),
+    },
+    messages: {
+      clear: vi.fn().mockResolvedValue(undefined),
+    },
   }
 }
 
@@ -78,6 +133,13 @@ function createServiceWithMocks(): { service: IndexedDbService; tables: MockTabl
   db.cache = tables.cache
   db.pendingOperations = tables.pendingOperations
   db.syncMetadata = tables.syncMetadata
+  db.idMappings = tables.idMappings
+  db.users = tables.users
+  db.projects = tables.projects
+  db.tasks = tables.tasks
+  db.events = tables.events
+  db.messages = tables.messages
+  db.transaction = (_mode: string, _table: unknown, scope: () => Promise<unknown>) => scope()
 
   return { service, tables }
 }
@@ -151,6 +213,22 @@ describe('IndexedDbService', () => {
       expect(result).toBeNull()
       expect(tables.cache.delete).toHaveBeenCalledWith('expired')
     })
+
+    it('returns null and deletes entry written with another value version', async () => {
+      const item: CachedItem = {
+        key: 'stale-shape',
+        value: { legacy: true },
+        timestamp: Date.now(),
+        expiresAt: Date.now() + 60000,
+        version: 0,
+      }
+      tables.cache.get.mockResolvedValue(item)
+
+      const result = await service.getCache('stale-shape')
+
+      expect(result).toBeNull()
+      expect(tables.cache.delete).toHaveBeenCalledWith('stale-shape')
+    })
   })
 
   describe('setCache', () => {
@@ -166,6 +244,12 @@ describe('IndexedDbService', () => {
       )
     })
 
+    it('stores invalidation tags', async () => {
+      await service.setCache('users:list:1', [], 5000, ['users:list', 'user:1'])
+
+      expect(tables.cache.put).toHaveBeenCalledWith(expect.objectContaining({ tags: ['users:list', 'user:1'] }))
+    })
+
     it('sets expiresAt based on TTL', async () => {
       const before = Date.now()
       await service.setCache('ttl-key', 'val', 10000)
@@ -196,6 +280,22 @@ describe('IndexedDbService', () => {
     })
   })
 
+  describe('invalidateTags', () => {
+    it('deletes every entry carrying one of the tags once', async () => {
+      const anyOf = vi.fn().mockReturnValue({
+        primaryKeys: vi.fn().mockResolvedValue(['users:list:1', 'user:1', 'users:list:1']),
+      })
+      tables.cache.where.mockReturnValue({ anyOf })
+
+      const deleted = await service.invalidateTags(['users:list', 'user:1'])
+
+      expect(tables.cache.where).toHaveBeenCalledWith('tags')
+      expect(anyOf).toHaveBeenCalledWith(['users:list', 'user:1'])
+      expect(tables.cache.bulkDelete).toHaveBeenCalledWith(['users:list:1', 'user:1'])
+      expect(deleted).toBe(2)
+    })
+  })
+
   describe('clearAllCache', () => {
     it('clears the entire cache table', async () => {
       await service.clearAllCache()
@@ -226,6 +326,27 @@ describe('IndexedDbService', () => {
   // Pending Operations
   // ==========================================================================
   describe('addPendingOperation', () => {
+    const queuedOp = (overrides: Partial<PendingOperation>): PendingOperation => ({
+      id: 7,
+      type: 'update',
+      entity: 'user',
+      entityId: 'u1',
+      payload: { firstName: 'A' },
+      timestamp: 100,
+      retries: 0,
+      maxRetries: 3,
+      status: 'pending',
+      ...overrides,
+    })
+
+    const mockQueued = (ops: PendingOperation[]) => {
+      const and = vi.fn().mockReturnValue({ toArray: vi.fn().mockResolvedValue(ops) })
+      tables.pendingOperations.where.mockReturnValue({
+        equals: vi.fn().mockReturnValue({ and }),
+      } as unknown as ReturnType<typeof tables.pendingOperations.where>)
+      return and
+    }
+
     it('adds operation with default status and retries', async () => {
       tables.pendingOperations.add.mockResolvedValue(42)
 
@@ -248,6 +369,121 @@ describe('IndexedDbService', () => {
         })
       )
     })
+
+    it('assigns a unique idempotency key to each new operation', async () => {
+      vi.spyOn(crypto, 'randomUUID')
+        .mockReturnValueOnce('key-1' as ReturnType<typeof crypto.randomUUID>)
+        .mockReturnValueOnce('key-2' as ReturnType<typeof crypto.randomUUID>)
+
+      await service.addPendingOperation({ type: 'create', entity: 'user', entityId: 'u1', payload: {}, maxRetries: 3 })
+      await service.addPendingOperation({ type: 'create', entity: 'user', entityId: 'u2', payload: {}, maxRetries: 3 })
+
+      const [[first], [second]] = tables.pendingOperations.add.mock.calls as [[PendingOperation], [PendingOperation]]
+      expect(first.idempotencyKey).toBe('key-1')
+      expect(second.idempotencyKey).toBe('key-2')
+    })
+
+    it('keeps the queued idempotency key when coalescing', async () => {
+      mockQueued([queuedOp({ idempotencyKey: 'key-1' })])
+
+      await service.addPendingOperation({ type: 'update', entity: 'user', entityId: 'u1', payload: { lastName: 'C' }, maxRetries: 3 })
+
+      expect(tables.pendingOperations.update).toHaveBeenCalledWith(7, expect.not.objectContaining({ idempotencyKey: expect.anything() }))
+    })
+
+    it('only coalesces with pending operations for the same entity', async () => {
+      const and = mockQueued([])
+
+      await service.addPendingOperation({ type: 'update', entity: 'user', entityId: 'u1', payload: {}, maxRetries: 3 })
+
+      expect(tables.pendingOperations.where).toHaveBeenCalledWith('entityId')
+      const predicate = and.mock.calls[0][0] as (op: PendingOperation) => boolean
+      expect(predicate(queuedOp({}))).toBe(true)
+      expect(predicate(queuedOp({ entity: 'project' }))).toBe(false)
+      expect(predicate(queuedOp({ status: 'processing' }))).toBe(false)
+    })
+
+    it('merges update + update into one update', async () => {
+      mockQueued([queuedOp({ payload: { firstName: 'A', lastName: 'B' } })])
+
+      const id = await service.addPendingOperation({
+        type: 'update',
+        entity: 'user',
+        entityId: 'u1',
+        payload: { firstName: 'C' },
+        maxRetries: 3,
+      })
+
+      expect(id).toBe(7)
+      expect(tables.pendingOperations.update).toHaveBeenCalledWith(7, {
+        payload: { firstName: 'C', lastName: 'B' },
+      })
+      expect(tables.pendingOperations.add).not.toHaveBeenCalled()
+    })
+
+    it('merges create + update into one create', async () => {
+      mockQueued([queuedOp({ type: 'create', payload: { email: 'a@b.com', firstName: 'A' } })])
+
+      const id = await service.addPendingOperation({
+        type: 'update',
+        entity: 'user',
+        entityId: 'u1',
+        payload: { firstName: 'C' },
+        maxRetries: 3,
+      })
+
+      expect(id).toBe(7)
+      expect(tables.pendingOperations.update).toHaveBeenCalledWith(7, {
+        payload: { email: 'a@b.com', firstName: 'C' },
+      })
+    })
+
+    it('replaces a queued update with a delete', async () => {
+      mockQueued([queuedOp({})])
+
+      const id = await service.addPendingOperation({
+        type: 'delete',
+        entity: 'user',
+        entityId: 'u1',
+        payload: null,
+        maxRetries: 3,
+      })
+
+      expect(id).toBe(7)
+      expect(tables.pendingOperations.update).toHaveBeenCalledWith(7, { type: 'delete', payload: null })
+    })
+
+    it('cancels out create + delete', async () => {
+      mockQueued([queuedOp({ type: 'create' })])
+
+      const id = await service.addPendingOperation({
+        type: 'delete',
+        entity: 'user',
+        entityId: 'u1',
+        payload: null,
+        maxRetries: 3,
+      })
+
+      expect(id).toBeNull()
+      expect(tables.pendingOperations.delete).toHaveBeenCalledWith(7)
+      expect(tables.pendingOperations.add).not.toHaveBeenCalled()
+    })
+
+    it('queues a new operation when the queued one cannot be merged', async () => {
+      mockQueued([queuedOp({ type: 'delete', payload: null })])
+      tables.pendingOperations.add.mockResolvedValue(8)
+
+      const id = await service.addPendingOperation({
+        type: 'create',
+        entity: 'user',
+        entityId: 'u1',
+        payload: { email: 'a@b.com' },
+        maxRetries: 3,
+      })
+
+      expect(id).toBe(8)
+      expect(tables.pendingOperations.update).not.toHaveBeenCalled()
+    })
   })
 
   describe('getPendingOperations', () => {
@@ -290,6 +526,24 @@ describe('IndexedDbService', () => {
     })
   })
 
+  describe('getUndeliveredOperationsByEntity', () => {
+    it('returns queued, in-flight and dead-lettered operations but not conflicts', async () => {
+      const op = (id: number, status: PendingOperation['status']): PendingOperation => ({
+        id, type: 'create', entity: 'message', entityId: `m${id}`, payload: null, timestamp: 100, retries: 0, maxRetries: 3, status,
+      })
+      const ops = [op(1, 'pending'), op(2, 'processing'), op(3, 'failed'), op(4, 'conflict')]
+      const and = vi.fn((predicate: (op: PendingOperation) => boolean) => ({
+        toArray: vi.fn().mockResolvedValue(ops.filter(predicate)),
+      }))
+      tables.pendingOperations.where.mockReturnValue({ equals: vi.fn().mockReturnValue({ and }) })
+
+      const result = await service.getUndeliveredOperationsByEntity('message')
+
+      expect(tables.pendingOperations.where).toHaveBeenCalledWith('entity')
+      expect(result.map((o) => o.status)).toEqual(['pending', 'processing', 'failed'])
+    })
+  })
+
   describe('updatePendingOperation', () => {
     it('updates operation by id', async () => {
       await service.updatePendingOperation(42, { status: 'processing' })
@@ -306,6 +560,41 @@ describe('IndexedDbService', () => {
     })
   })
 
+  describe('requeueProcessingOperations', () => {
+    it('puts operations left processing back in the queue', async () => {
+      const modify = vi.fn().mockResolvedValue(3)
+      const equals = vi.fn().mockReturnValue({ modify })
+      tables.pendingOperations.where.mockReturnValue({ equals })
+
+      const count = await service.requeueProcessingOperations()
+
+      expect(count).toBe(3)
+      expect(tables.pendingOperations.where).toHaveBeenCalledWith('status')
+      expect(equals).toHaveBeenCalledWith('processing')
+      expect(modify).toHaveBeenCalledWith({ status: 'pending' })
+    })
+  })
+
+  describe('remapPendingOperations', () => {
+    it('rewrites the entity ID of matching operations', async () => {
+      const modify = vi.fn().mockResolvedValue(2)
+      const and = vi.fn().mockReturnValue({ modify })
+      const equals = vi.fn().mockReturnValue({ and })
+      tables.pendingOperations.where.mockReturnValue({ equals })
+
+      const count = await service.remapPendingOperations('user', 'offline_1', '42')
+
+      expect(count).toBe(2)
+      expect(tables.pendingOperations.where).toHaveBeenCalledWith('entityId')
+      expect(equals).toHaveBeenCalledWith('offline_1')
+      expect(modify).toHaveBeenCalledWith({ entityId: '42' })
+
+      const predicate = and.mock.calls[0][0] as (op: Partial<PendingOperation>) => boolean
+      expect(predicate({ entity: 'user' })).toBe(true)
+      expect(predicate({ entity: 'project' })).toBe(false)
+    })
+  })
+
   describe('cleanupOldOperations', () => {
     it('deletes old non-pending operations', async () => {
       tables.pendingOperations.filter.mockReturnValue({
@@ -323,6 +612,47 @@ describe('IndexedDbService', () => {
 
       expect(count).toBe(0)
     })
+
+    it('keeps operations parked on a conflict', async () => {
+      await service.cleanupOldOperations(0)
+
+      const predicate = tables.pendingOperations.filter.mock.calls[0][0] as (op: PendingOperation) => boolean
+      const old = { id: 1, type: 'update', entity: 'user', entityId: 'u1', payload: null, timestamp: 0, retries: 0, maxRetries: 3 } as const
+      expect(predicate({ ...old, status: 'failed' })).toBe(true)
+      expect(predicate({ ...old, status: 'conflict' })).toBe(false)
+      expect(predicate({ ...old, status: 'pending' })).toBe(false)
+    })
+  })
+
+  describe('getFailedOperations', () => {
+    it('returns operations with failed status sorted by timestamp', async () => {
+      const ops: PendingOperation[] = [
+        { id: 4, type: 'create', entity: 'user', entityId: 'u2', payload: {}, timestamp: 100, retries: 3, maxRetries: 3, status: 'failed', error: 'Server error' },
+      ]
+      const equals = vi.fn().mockReturnValue({ sortBy: vi.fn().mockResolvedValue(ops) })
+      tables.pendingOperations.where.mockReturnValue({ equals } as unknown as ReturnType<typeof tables.pendingOperations.where>)
+
+      const result = await service.getFailedOperations()
+
+      expect(result).toEqual(ops)
+      expect(equals).toHaveBeenCalledWith('failed')
+    })
+  })
+
+  describe('getConflictedOperations', () => {
+    it('returns operations with conflict status sorted by timestamp', async () => {
+      const ops: PendingOperation[] = [
+        { id: 3, type: 'update', entity: 'user', entityId: 'u1', payload: {}, timestamp: 100, retries: 0, maxRetries: 3, status: 'conflict' },
+      ]
+      const equals = vi.fn().mockReturnValue({ sortBy: vi.fn().mockResolvedValue(ops) })
+      tables.pendingOperations.where.mockReturnValue({ equals } as unknown as ReturnType<typeof tables.pendingOperations.where>)
+
+      const result = await service.getConflictedOperations()
+
+      expect(result).toEqual(ops)
+      expect(tables.pendingOperations.where).toHaveBeenCalledWith('status')
+      expect(equals).toHaveBeenCalledWith('conflict')
+    })
   })
 
   describe('getPendingCount', () => {
@@ -380,6 +710,120 @@ describe('IndexedDbService', () => {
     })
   })
 
+  // ==========================================================================
+  // ID Mappings
+  // ==========================================================================
+  describe('getIdMapping', () => {
+    it('returns mapping when found', async () => {
+      const mapping = { entity: 'user', tempId: 'offline_1', serverId: '42', timestamp: 1000 }
+      tables.idMappings.get.mockResolvedValue(mapping)
+
+      const result = await service.getIdMapping('offline_1')
+
+      expect(result).toEqual(mapping)
+      expect(tables.idMappings.get).toHaveBeenCalledWith('offline_1')
+    })
+
+    it('returns null when not found', async () => {
+      const result = await service.getIdMapping('offline_missing')
+
+      expect(result).toBeNull()
+    })
+  })
+
+  describe('saveIdMapping', () => {
+    it('stores the mapping', async () => {
+      const mapping = { entity: 'user', tempId: 'offline_1', serverId: '42', timestamp: 1000 }
+
+      await service.saveIdMapping(mapping)
+
+      expect(tables.idMappings.put).toHaveBeenCalledWith(mapping)
+    })
+  })
+
+  // ==========================================================================
+  // Entity Tables
+  // ==========================================================================
+  describe('entity tables', () => {
+    const user = {
+      id: '1',
+      email: 'john@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    it('stores entities in their table', async () => {
+      await service.putEntities('users', [user])
+
+      expect(tables.users.bulkPut).toHaveBeenCalledWith([user])
+    })
+
+    it('keeps only the index keys of sealed tables in clear', async () => {
+      mockEncryption.shouldEncrypt.mockReturnValueOnce(true)
+
+      await service.putEntities('users', [user])
+
+      expect(tables.users.bulkPut).toHaveBeenCalledWith([
+        {
+          id: '1',
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+          sealed: { sealed: { email: 'john@example.com', firstName: 'John', lastName: 'Doe' } },
+        },
+      ])
+    })
+
+    it('deletes an entity by id', async () => {
+      await service.deleteEntity('users', '1')
+
+      expect(tables.users.delete).toHaveBeenCalledWith('1')
+    })
+
+    it('runs queries on the table', async () => {
+      mockQueryTable.mockResolvedValue({ items: [user], total: 1 })
+      const query = { search: 'jo', searchFields: ['email'] as const, offset: 0, limit: 10 }
+
+      const page = await service.queryEntities('users', query)
+
+      expect(mockQueryTable).toHaveBeenCalledWith(
+        tables.users,
+        query,
+        expect.objectContaining({ plainFields: ENTITY_INDEXES.users })
+      )
+      expect(page).toEqual({ items: [user], total: 1 })
+    })
+
+    it('opens sealed rows and leaves out those sealed with a wiped key', async () => {
+      mockQueryTable.mockResolvedValue({ items: [], total: 0 })
+      await service.queryEntities('users', { offset: 0, limit: 10 })
+      const codec = mockQueryTable.mock.calls[0][2] as RowCodec<EntityRow, typeof user>
+      mockEncryption.decrypt.mockRejectedValueOnce(new Error('wiped'))
+
+      const opened = await codec.open([
+        { id: '2', sealed: { sealed: { email: 'old@example.com' } } as never },
+        { id: '1', createdAt: user.createdAt, sealed: { sealed: { email: 'john@example.com' } } as never },
+        { id: '3', email: 'plain@example.com' },
+      ])
+
+      expect(opened).toEqual([
+        { id: '1', createdAt: user.createdAt, email: 'john@example.com' },
+        { id: '3', email: 'plain@example.com' },
+      ])
+    })
+
+    it('clears every entity table when none is named', async () => {
+      await service.clearEntities()
+
+      expect(tables.users.clear).toHaveBeenCalled()
+      expect(tables.projects.clear).toHaveBeenCalled()
+      expect(tables.tasks.clear).toHaveBeenCalled()
+      expect(tables.events.clear).toHaveBeenCalled()
+      expect(tables.messages.clear).toHaveBeenCalled()
+    })
+  })
+
   // ==========================================================================
   // Utility
   // ==========================================================================
@@ -398,6 +842,128 @@ describe('IndexedDbService', () => {
     })
   })
 
+  // ==========================================================================
+  // Encryption at rest
+  // ==========================================================================
+  describe('encryption', () => {
+    const sealedOp = (overrides: Partial<PendingOperation> = {}): PendingOperation => ({
+      id: 9,
+      type: 'update',
+      entity: 'secret',
+      entityId: 's1',
+      payload: { sealed: { note: 'A' } },
+      encrypted: true,
+      timestamp: 100,
+      retries: 0,
+      maxRetries: 3,
+      status: 'pending',
+      ...overrides,
+    })
+
+    const mockSorted = (ops: PendingOperation[]) => {
+      tables.pendingOperations.where.mockReturnValue({
+        equals: vi.fn().mockReturnValue({ sortBy: vi.fn().mockResolvedValue(ops) }),
+      } as unknown as ReturnType<typeof tables.pendingOperations.where>)
+    }
+
+    it('seals cache values under an encrypted prefix', async () => {
+      await service.setCache('secret:1', { email: 'john@example.com' })
+
+      expect(tables.cache.put).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'secret:1', value: { sealed: { email: 'john@example.com' } }, encrypted: true })
+      )
+    })
+
+    it('opens sealed cache values on read', async () => {
+      tables.cache.get.mockResolvedValue({
+        key: 'secret:1',
+        value: { sealed: { email: 'john@example.com' } },
+        timestamp: Date.now(),
+        expiresAt: Date.now() + 60000,
+        version: 1,
+        encrypted: true,
+      })
+
+      await expect(service.getCache('secret:1')).resolves.toEqual({ email: 'john@example.com' })
+    })
+
+    it('drops cache entries sealed with a wiped key', async () => {
+      tables.cache.get.mockResolvedValue({
+        key: 'secret:1',
+        value: {},
+        timestamp: Date.now(),
+        expiresAt: Date.now() + 60000,
+        version: 1,
+        encrypted: true,
+      })
+      mockEncryption.decrypt.mockRejectedValueOnce(new Error('OperationError'))
+
+      await expect(service.getCache('secret:1')).resolves.toBeNull()
+      expect(tables.cache.delete).toHaveBeenCalledWith('secret:1')
+    })
+
+    it('seals queued payloads by entity and ID', async () => {
+      tables.pendingOperations.where.mockReturnValue({
+        equals: vi.fn().mockReturnValue({ and: vi.fn().mockReturnValue({ toArray: vi.fn().mockResolvedValue([]) }) }),
+      } as unknown as ReturnType<typeof tables.pendingOperations.where>)
+
+      await service.addPendingOperation({ type: 'create', entity: 'secret', entityId: 's1', payload: { note: 'A' }, maxRetries: 3 })
+
+      expect(mockEncryption.shouldEncrypt).toHaveBeenCalledWith('secret:s1')
+      expect(tables.pendingOperations.add).toHaveBeenCalledWith(
+        expect.objectContaining({ payload: { sealed: { note: 'A' } }, encrypted: true })
+      )
+    })
+
+    it('merges into a sealed queued payload', async () => {
+      tables.pendingOperations.where.mockReturnValue({
+        equals: vi.fn().mockReturnValue({
+          and: vi.fn().mockReturnValue({ toArray: vi.fn().mockResolvedValue([sealedOp()]) }),
+        }),
+      } as unknown as ReturnType<typeof tables.pendingOperations.where>)
+
+      await service.addPendingOperation({ type: 'update', entity: 'secret', entityId: 's1', payload: { tag: 'B' }, maxRetries: 3 })
+
+      expect(tables.pendingOperations.update).toHaveBeenCalledWith(9, {
+        payload: { sealed: { note: 'A', tag: 'B' } },
+        encrypted: true,
+      })
+    })
+
+    it('opens queued payloads on read', async () => {
+      mockSorted([sealedOp()])
+
+      const [op] = await service.getPendingOperations()
+
+      expect(op.payload).toEqual({ note: 'A' })
+      expect(op).not.toHaveProperty('encrypted')
+    })
+
+    it('moves operations sealed with a wiped key to the dead-letter queue', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      mockSorted([sealedOp()])
+      mockEncryption.decrypt.mockRejectedValueOnce(new Error('OperationError'))
+
+      await expect(service.getPendingOperations()).resolves.toEqual([])
+      expect(tables.pendingOperations.update).toHaveBeenCalledWith(9, {
+        status: 'failed',
+        error: 'Payload could not be decrypted',
+      })
+    })
+
+    it('seals payloads written by updates', async () => {
+      tables.pendingOperations.get.mockResolvedValue(sealedOp())
+
+      await service.updatePendingOperation(9, { status: 'pending', payload: { note: 'C' } })
+
+      expect(tables.pendingOperations.update).toHaveBeenCalledWith(9, {
+        status: 'pending',
+        payload: { sealed: { note: 'C' } },
+        encrypted: true,
+      })
+    })
+  })
+
   describe('exportData', () => {
     it('exports all tables', async () => {
       tables.cache.toArray.mockResolvedValue([{ key: 'k1' }])
@@ -409,6 +975,7 @@ describe('IndexedDbService', () => {
       expect(data.cache).toEqual([{ key: 'k1' }])
       expect(data.pendingOperations).toEqual([{ id: 1 }])
       expect(data.syncMetadata).toEqual([{ key: 'users' }])
+      expect(data.idMappings).toEqual([])
     })
   })
 
@@ -419,6 +986,8 @@ describe('IndexedDbService', () => {
       expect(tables.cache.clear).toHaveBeenCalled()
       expect(tables.pendingOperations.clear).toHaveBeenCalled()
       expect(tables.syncMetadata.clear).toHaveBeenCalled()
+      expect(tables.idMappings.clear).toHaveBeenCalled()
+      expect(tables.users.clear).toHaveBeenCalled()
     })
   })
 
@@ -1,10 +1,26 @@
 // =============================================================================
 // IndexedDB Service - Layer 3 (Persistent)
 // =============================================================================
+// Entries whose key matches ENCRYPTION.PREFIXES are sealed with the session
+// key on write and opened on read, so callers always see plain values. Rows of
+// the entity tables keep only their index keys in clear.
+// =============================================================================
 
 import Dexie, { type Table } from 'dexie'
 import { signal } from '@preact/signals-react'
 import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import type { User } from '@/app/domain/entities/user.model'
+import type { Project } from '@/app/domain/entities/project.model'
+import type { Task } from '@/app/domain/entities/task.model'
+import type { CalendarEvent } from '@/app/domain/entities/calendar-event.model'
+import type { Message } from '@/app/domain/entities/message.model'
+import type { SyncConflict } from '@/app/domain/entities/sync-conflict.model'
+import { cacheEncryptionService, type EncryptedValue } from './cacheEncryptionService'
+import { applyMigrations, cacheValueVersion } from './migrations'
+import { queryTable, type EntityPage, type EntityQuery, type RowCodec } from './entityQuery'
+
+const { INDEXED_DB } = APP_CONSTANTS
 
 /**
  * Cached item structure for IndexedDB
@@ -14,7 +30,12 @@ export interface CachedItem<T = unknown> {
   value: T
   timestamp: number
   expiresAt: number
+  /** Shape version of the value (CACHE_VALUE_VERSIONS); other versions are misses */
   version: number
+  /** value is an EncryptedValue sealed with the session key */
+  encrypted?: boolean
+  /** Invalidation tags (multi-entry index) */
+  tags?: string[]
 }
 
 /**
@@ -29,8 +50,20 @@ export interface PendingOperation {
   timestamp: number
   retries: number
   maxRetries: number
-  status: 'pending' | 'processing' | 'failed'
+  status: 'pending' | 'processing' | 'failed' | 'conflict'
   error?: string
+  /** Stable key sent as Idempotency-Key on every attempt, assigned when enqueued */
+  idempotencyKey?: string
+  /** Earliest time (ms) the next attempt may run, set by retry backoff */
+  nextAttemptAt?: number
+  /** Entity version (updatedAt) the change was based on */
+  baseVersion?: string | null
+  /** Snapshot of the editable fields the change was based on */
+  base?: Record<string, unknown>
+  /** Conflict waiting for a user decision (status 'conflict') */
+  conflict?: SyncConflict
+  /** payload is an EncryptedValue sealed with the session key */
+  encrypted?: boolean
 }
 
 /**
@@ -43,29 +76,115 @@ export interface SyncMetadata {
 }
 
 /**
- * Database schema version
+ * Normalized entity tables and their row types
  */
-const DB_VERSION = 1
+export interface EntityTables {
+  users: User
+  projects: Project
+  tasks: Task
+  events: CalendarEvent
+  messages: Message
+}
+
+export type EntityTableName = keyof EntityTables
+
+const ENTITY_TABLES: readonly EntityTableName[] = ['users', 'projects', 'tasks', 'events', 'messages']
+
+/**
+ * Fields kept in clear in each entity table: the keys it is indexed by
+ * (migrations.ts), none of them personal data or free text
+ */
+export const ENTITY_INDEXES: Readonly<Record<EntityTableName, readonly string[]>> = {
+  users: ['id', 'createdAt', 'updatedAt'],
+  projects: ['id', 'status', 'ownerId', 'createdAt', 'updatedAt'],
+  tasks: ['id', 'status', 'priority', 'assigneeId', 'projectId', 'createdAt', 'updatedAt'],
+  events: ['id', 'start', 'end', 'createdAt', 'updatedAt'],
+  messages: ['id', 'conversationId', 'senderId', 'recipientId', 'createdAt', 'updatedAt'],
+}
+
+/**
+ * Entity as stored in its table: index keys in clear, every other field
+ * sealed with the session key (stored whole without WebCrypto)
+ */
+export type EntityRow = Record<string, unknown> & {
+  id: string
+  sealed?: EncryptedValue
+}
 
 /**
  * Arcana Database using Dexie.js
+ * The schema is declared by the migration registry (migrations.ts)
  */
 class ArcanaDB extends Dexie {
   cache!: Table<CachedItem>
   pendingOperations!: Table<PendingOperation>
   syncMetadata!: Table<SyncMetadata>
+  idMappings!: Table<IdMapping>
+  users!: Table<EntityRow>
+  projects!: Table<EntityRow>
+  tasks!: Table<EntityRow>
+  events!: Table<EntityRow>
+  messages!: Table<EntityRow>
 
   constructor() {
-    super('ArcanaDB')
+    super(INDEXED_DB.NAME)
+    applyMigrations(this)
+  }
+}
 
-    this.version(DB_VERSION).stores({
-      cache: 'key, timestamp, expiresAt',
-      pendingOperations: '++id, entity, entityId, status, timestamp',
-      syncMetadata: 'key, lastSync',
-    })
+/**
+ * Error recorded on queued operations sealed with a wiped key
+ */
+const UNREADABLE_PAYLOAD = 'Payload could not be decrypted'
+
+/**
+ * Key that decides whether an operation's payload is encrypted
+ */
+function operationKey(op: Pick<PendingOperation, 'entity' | 'entityId'>): string {
+  return `${op.entity}:${op.entityId}`
+}
+
+/**
+ * Copy of an operation carrying a decrypted payload
+ */
+function withPayload(op: PendingOperation, payload: unknown): PendingOperation {
+  const opened = { ...op, payload }
+  delete opened.encrypted
+  return opened
+}
+
+/**
+ * Merge an incoming operation into one already queued for the same entity
+ * Returns the changes to apply to the queued row, null if the two cancel
+ * out, or undefined if they cannot be merged
+ */
+function coalesceOperations(
+  queued: PendingOperation,
+  incoming: Pick<PendingOperation, 'type' | 'payload'>
+): Partial<PendingOperation> | null | undefined {
+  switch (`${queued.type}+${incoming.type}`) {
+    case 'create+update':
+    case 'update+update':
+      return { payload: mergePayloads(queued.payload, incoming.payload) }
+    case 'update+delete':
+      return { type: 'delete', payload: incoming.payload }
+    case 'create+delete':
+      return null
+    default:
+      return undefined
   }
 }
 
+/**
+ * Shallow-merge two operation payloads (later fields win)
+ */
+function mergePayloads(base: unknown, patch: unknown): unknown {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+  return isObject(base) && isObject(patch) ? { ...base, ...patch } : patch
+}
+
 /**
  * IndexedDB Service
  * Layer 3: Persistent storage using Dexie.js (IndexedDB wrapper)
@@ -125,27 +244,46 @@ class IndexedDbService {
 
     if (!item) return null
 
-    // Check expiration
-    if (Date.now() > item.expiresAt) {
+    // Check expiration and value shape
+    if (Date.now() > item.expiresAt || item.version !== cacheValueVersion(key)) {
       await this.db.cache.delete(key)
       return null
     }
 
-    return item.value as T
+    if (!item.encrypted) return item.value as T
+
+    try {
+      return await cacheEncryptionService.decrypt<T>(item.value as EncryptedValue)
+    } catch {
+      // Sealed with a key wiped on logout
+      await this.db.cache.delete(key)
+      return null
+    }
   }
 
   /**
-   * Set cached item
+   * Set cached item, optionally tagged for invalidation
    */
-  async setCache<T>(key: string, value: T, ttl: number = APP_CONSTANTS.CACHE.DEFAULT_TTL): Promise<void> {
+  async setCache<T>(
+    key: string,
+    value: T,
+    ttl: number = APP_CONSTANTS.CACHE.DEFAULT_TTL,
+    tags?: readonly string[]
+  ): Promise<void> {
     await this.ensureReady()
 
-    const item: CachedItem<T> = {
+    const item: CachedItem = {
       key,
       value,
       timestamp: Date.now(),
       expiresAt: Date.now() + ttl,
-      version: 1,
+      version: cacheValueVersion(key),
+      ...(tags && { tags: [...tags] }),
+    }
+
+    if (cacheEncryptionService.shouldEncrypt(key)) {
+      item.value = await cacheEncryptionService.encrypt(value)
+      item.encrypted = true
     }
 
     await this.db.cache.put(item)
@@ -172,6 +310,20 @@ class IndexedDbService {
     await this.db.cache.bulkDelete(keys)
   }
 
+  /**
+   * Delete every cached item carrying one of the tags
+   * Returns the number of items deleted
+   */
+  async invalidateTags(tags: readonly string[]): Promise<number> {
+    await this.ensureReady()
+
+    const keys = await this.db.cache.where('tags').anyOf([...tags]).primaryKeys()
+    const unique = [...new Set(keys)]
+
+    await this.db.cache.bulkDelete(unique)
+    return unique.length
+  }
+
   /**
    * Clear all cache
    */
@@ -199,18 +351,54 @@ class IndexedDbService {
 
   /**
    * Add pending operation
+   * Coalesces with an operation already queued for the same entity/entityId:
+   * - update + update -> one update with the merged payload
+   * - create + update -> one create with the merged payload
+   * - update + delete -> one delete
+   * - create + delete -> both dropped (the server never saw the entity)
+   * Merged operations keep the queued row's idempotency key, so a replay of a
+   * request that already reached the server is recognized
+   * Returns the id of the queued row, or null if the operation cancelled out
    */
-  async addPendingOperation(operation: Omit<PendingOperation, 'id' | 'timestamp' | 'retries' | 'status'>): Promise<number> {
+  async addPendingOperation(
+    operation: Omit<PendingOperation, 'id' | 'timestamp' | 'retries' | 'status' | 'idempotencyKey'>
+  ): Promise<number | null> {
     await this.ensureReady()
 
-    const op: PendingOperation = {
-      ...operation,
-      timestamp: Date.now(),
-      retries: 0,
-      status: 'pending',
-    }
+    return await this.db.transaction('rw', this.db.pendingOperations, async () => {
+      const queued = await this.db.pendingOperations
+        .where('entityId')
+        .equals(operation.entityId)
+        .and((op) => op.entity === operation.entity && op.status === 'pending')
+        .toArray()
+
+      // WebCrypto is not IndexedDB; Dexie.waitFor keeps the transaction open
+      const last = queued[queued.length - 1]
+      const existing = last ? await Dexie.waitFor(this.openOperation(last)) : undefined
+      const coalesced = existing ? coalesceOperations(existing, operation) : undefined
+
+      if (existing?.id !== undefined && coalesced === null) {
+        await this.db.pendingOperations.delete(existing.id)
+        return null
+      }
 
-    return await this.db.pendingOperations.add(op)
+      if (existing?.id !== undefined && coalesced) {
+        const sealed = await Dexie.waitFor(this.sealPayload(existing, coalesced.payload))
+        await this.db.pendingOperations.update(existing.id, { ...coalesced, ...sealed })
+        return existing.id
+      }
+
+      const op: PendingOperation = {
+        ...operation,
+        ...(await Dexie.waitFor(this.sealPayload(operation, operation.payload))),
+        timestamp: Date.now(),
+        retries: 0,
+        status: 'pending',
+        idempotencyKey: crypto.randomUUID(),
+      }
+
+      return await this.db.pendingOperations.add(op)
+    })
   }
 
   /**
@@ -219,10 +407,12 @@ class IndexedDbService {
   async getPendingOperations(): Promise<PendingOperation[]> {
     await this.ensureReady()
 
-    return await this.db.pendingOperations
+    const operations = await this.db.pendingOperations
       .where('status')
       .equals('pending')
       .sortBy('timestamp')
+
+    return this.openOperations(operations, 'pending')
   }
 
   /**
@@ -231,11 +421,57 @@ class IndexedDbService {
   async getPendingOperationsByEntity(entity: string): Promise<PendingOperation[]> {
     await this.ensureReady()
 
-    return await this.db.pendingOperations
+    const operations = await this.db.pendingOperations
       .where('entity')
       .equals(entity)
       .and((op) => op.status === 'pending')
       .toArray()
+
+    return this.openOperations(operations, 'pending')
+  }
+
+  /**
+   * Get an entity's operations not delivered yet: queued, being sent, or
+   * dead-lettered
+   */
+  async getUndeliveredOperationsByEntity(entity: string): Promise<PendingOperation[]> {
+    await this.ensureReady()
+
+    const operations = await this.db.pendingOperations
+      .where('entity')
+      .equals(entity)
+      .and((op) => op.status !== 'conflict')
+      .toArray()
+
+    return this.openOperations(operations, 'pending', 'processing', 'failed')
+  }
+
+  /**
+   * Get operations that exhausted their retries (dead letters)
+   */
+  async getFailedOperations(): Promise<PendingOperation[]> {
+    await this.ensureReady()
+
+    const operations = await this.db.pendingOperations
+      .where('status')
+      .equals('failed')
+      .sortBy('timestamp')
+
+    return this.openOperations(operations, 'failed')
+  }
+
+  /**
+   * Get operations parked on a sync conflict
+   */
+  async getConflictedOperations(): Promise<PendingOperation[]> {
+    await this.ensureReady()
+
+    const operations = await this.db.pendingOperations
+      .where('status')
+      .equals('conflict')
+      .sortBy('timestamp')
+
+    return this.openOperations(operations, 'conflict')
   }
 
   /**
@@ -243,6 +479,14 @@ class IndexedDbService {
    */
   async updatePendingOperation(id: number, updates: Partial<PendingOperation>): Promise<void> {
     await this.ensureReady()
+
+    if ('payload' in updates) {
+      const op = await this.db.pendingOperations.get(id)
+      if (op) {
+        updates = { ...updates, ...(await this.sealPayload(op, updates.payload)) }
+      }
+    }
+
     await this.db.pendingOperations.update(id, updates)
   }
 
@@ -254,15 +498,41 @@ class IndexedDbService {
     await this.db.pendingOperations.delete(id)
   }
 
+  /**
+   * Rewrite the entity ID of queued operations (e.g. offline ID -> server ID)
+   * Returns the number of operations rewritten
+   */
+  async remapPendingOperations(entity: string, fromId: string, toId: string): Promise<number> {
+    await this.ensureReady()
+
+    return await this.db.pendingOperations
+      .where('entityId')
+      .equals(fromId)
+      .and((op) => op.entity === entity)
+      .modify({ entityId: toId })
+  }
+
+  /**
+   * Put operations left 'processing' back in the queue (e.g. the tab that was
+   * syncing them closed or reloaded mid-sync)
+   * Returns the number of operations re-queued
+   */
+  async requeueProcessingOperations(): Promise<number> {
+    await this.ensureReady()
+
+    return await this.db.pendingOperations.where('status').equals('processing').modify({ status: 'pending' })
+  }
+
   /**
    * Clear completed/failed operations older than specified time
+   * Operations parked on a conflict are kept until the user resolves them
    */
   async cleanupOldOperations(maxAge: number = 86400000): Promise<number> {
     await this.ensureReady()
 
     const cutoff = Date.now() - maxAge
     const old = await this.db.pendingOperations
-      .filter((op) => op.timestamp < cutoff && op.status !== 'pending')
+      .filter((op) => op.timestamp < cutoff && op.status !== 'pending' && op.status !== 'conflict')
       .primaryKeys()
 
     await this.db.pendingOperations.bulkDelete(old as number[])
@@ -277,6 +547,54 @@ class IndexedDbService {
     return await this.db.pendingOperations.where('status').equals('pending').count()
   }
 
+  /**
+   * Encrypt a payload if the operation's key is configured for encryption
+   */
+  private async sealPayload(
+    op: Pick<PendingOperation, 'entity' | 'entityId'>,
+    payload: unknown
+  ): Promise<Pick<PendingOperation, 'payload' | 'encrypted'>> {
+    if (!cacheEncryptionService.shouldEncrypt(operationKey(op))) {
+      return { payload }
+    }
+    return { payload: await cacheEncryptionService.encrypt(payload), encrypted: true }
+  }
+
+  /**
+   * Decrypt an operation's payload
+   */
+  private async openOperation(op: PendingOperation): Promise<PendingOperation> {
+    if (!op.encrypted) return op
+
+    return withPayload(op, await cacheEncryptionService.decrypt(op.payload as EncryptedValue))
+  }
+
+  /**
+   * Decrypt operations read with the given statuses
+   * Operations sealed with a wiped key cannot be replayed; they are moved to
+   * the dead-letter queue with a null payload so the user can discard them
+   */
+  private async openOperations(
+    operations: PendingOperation[],
+    ...statuses: PendingOperation['status'][]
+  ): Promise<PendingOperation[]> {
+    const opened = await Promise.all(
+      operations.map(async (op) => {
+        try {
+          return await this.openOperation(op)
+        } catch {
+          console.warn(`[IndexedDB] Cannot decrypt queued operation ${op.id}`)
+          if (op.status !== 'failed') {
+            await this.db.pendingOperations.update(op.id!, { status: 'failed', error: UNREADABLE_PAYLOAD })
+          }
+          return { ...withPayload(op, null), status: 'failed' as const, error: UNREADABLE_PAYLOAD }
+        }
+      })
+    )
+
+    return opened.filter((op) => statuses.includes(op.status))
+  }
+
   // ==========================================================================
   // Sync Metadata
   // ==========================================================================
@@ -305,6 +623,111 @@ class IndexedDbService {
     await this.db.syncMetadata.put(metadata)
   }
 
+  // ==========================================================================
+  // ID Mappings (Offline ID Reconciliation)
+  // ==========================================================================
+
+  /**
+   * Get the server ID mapping for a temporary offline ID
+   */
+  async getIdMapping(tempId: string): Promise<IdMapping | null> {
+    await this.ensureReady()
+    const mapping = await this.db.idMappings.get(tempId)
+    return mapping ?? null
+  }
+
+  /**
+   * Save a temporary offline ID to server ID mapping
+   */
+  async saveIdMapping(mapping: IdMapping): Promise<void> {
+    await this.ensureReady()
+    await this.db.idMappings.put(mapping)
+  }
+
+  // ==========================================================================
+  // Entity Tables (Offline Queries)
+  // ==========================================================================
+
+  /**
+   * Store entities in a normalized table
+   */
+  async putEntities<K extends EntityTableName>(table: K, entities: EntityTables[K][]): Promise<void> {
+    await this.ensureReady()
+    const rows = await Promise.all(entities.map((entity) => this.sealEntity(table, entity)))
+    await this.db[table].bulkPut(rows)
+  }
+
+  /**
+   * Remove an entity from a normalized table
+   */
+  async deleteEntity(table: EntityTableName, id: string): Promise<void> {
+    await this.ensureReady()
+    await this.db[table].delete(id)
+  }
+
+  /**
+   * Search, sort and page a normalized table
+   */
+  async queryEntities<K extends EntityTableName>(
+    table: K,
+    query: EntityQuery<EntityTables[K]>
+  ): Promise<EntityPage<EntityTables[K]>> {
+    await this.ensureReady()
+
+    const codec: RowCodec<EntityRow, EntityTables[K]> = {
+      plainFields: ENTITY_INDEXES[table],
+      open: (rows) => this.openEntities<K>(rows),
+    }
+    return queryTable(this.db[table], query, codec)
+  }
+
+  /**
+   * Empty one normalized table, or all of them
+   * Their index keys are stored in clear, so they are cleared when the
+   * session ends
+   */
+  async clearEntities(table?: EntityTableName): Promise<void> {
+    await this.ensureReady()
+    await Promise.all((table ? [table] : ENTITY_TABLES).map((name) => this.db[name].clear()))
+  }
+
+  /**
+   * Split an entity into its index keys and a sealed rest
+   */
+  private async sealEntity(table: EntityTableName, entity: object): Promise<EntityRow> {
+    const row = entity as EntityRow
+    if (!cacheEncryptionService.shouldEncrypt(`${table}:`)) return row
+
+    const indexes = ENTITY_INDEXES[table]
+    const plain = Object.entries(row).filter(([field]) => indexes.includes(field))
+    const rest = Object.entries(row).filter(([field]) => !indexes.includes(field))
+
+    return {
+      ...(Object.fromEntries(plain) as EntityRow),
+      sealed: await cacheEncryptionService.encrypt(Object.fromEntries(rest)),
+    }
+  }
+
+  /**
+   * Rebuild entities from their rows
+   * Rows sealed with a wiped key are left out
+   */
+  private async openEntities<K extends EntityTableName>(rows: EntityRow[]): Promise<EntityTables[K][]> {
+    const opened = await Promise.all(
+      rows.map(async ({ sealed, ...plain }) => {
+        if (!sealed) return plain
+
+        try {
+          return { ...plain, ...(await cacheEncryptionService.decrypt<Record<string, unknown>>(sealed)) }
+        } catch {
+          return null
+        }
+      })
+    )
+
+    return opened.filter((entity) => entity !== null) as unknown as EntityTables[K][]
+  }
+
   // ==========================================================================
   // Utility
   // ==========================================================================
@@ -343,6 +766,7 @@ class IndexedDbService {
     cache: CachedItem[]
     pendingOperations: PendingOperation[]
     syncMetadata: SyncMetadata[]
+    idMappings: IdMapping[]
   }> {
     await this.ensureReady()
 
@@ -350,6 +774,7 @@ class IndexedDbService {
       cache: await this.db.cache.toArray(),
       pendingOperations: await this.db.pendingOperations.toArray(),
       syncMetadata: await this.db.syncMetadata.toArray(),
+      idMappings: await this.db.idMappings.toArray(),
     }
   }
 
@@ -362,6 +787,8 @@ class IndexedDbService {
       this.db.cache.clear(),
       this.db.pendingOperations.clear(),
       this.db.syncMetadata.clear(),
+      this.db.idMappings.clear(),
+      ...ENTITY_TABLES.map((table) => this.db[table].clear()),
     ])
   }
 }
@@ -182,6 +182,19 @@ describe('LRUCacheService', () => {
     })
   })
 
+  describe('invalidateTags', () => {
+    it('removes entries carrying any of the tags', () => {
+      cacheService.set('users:list:1', [], undefined, ['users:list', 'search:jo'])
+      cacheService.set('users:list:2', [], undefined, ['users:list'])
+      cacheService.set('user:1', { id: 1 }, undefined, ['user:1'])
+
+      expect(cacheService.invalidateTags(['search:jo', 'user:1'])).toBe(2)
+
+      expect(cacheService.keys()).toEqual(['users:list:2'])
+      expect(cacheService.size).toBe(1)
+    })
+  })
+
   describe('has', () => {
     it('returns true for existing key', () => {
       cacheService.set('key', 'value')
@@ -12,6 +12,8 @@ interface LRUCacheEntry<T> {
   value: T
   expiresAt: number
   createdAt: number
+  /** Invalidation tags (see invalidateTags) */
+  tags?: readonly string[]
 }
 
 /**
@@ -83,14 +85,15 @@ class LRUCacheService {
   }
 
   /**
-   * Set item in cache with optional TTL
+   * Set item in cache with optional TTL and invalidation tags
    */
-  set<T>(key: string, value: T, ttl?: number): void {
+  set<T>(key: string, value: T, ttl?: number, tags?: readonly string[]): void {
     const expiresAt = Date.now() + (ttl ?? this.defaultTTL)
     const entry: LRUCacheEntry<T> = {
       value,
       expiresAt,
       createdAt: Date.now(),
+      tags,
     }
 
     // Update existing
@@ -147,6 +150,21 @@ class LRUCacheService {
     }
   }
 
+  /**
+   * Delete every item carrying one of the tags
+   * Returns the number of items deleted
+   */
+  invalidateTags(tags: readonly string[]): number {
+    let deleted = 0
+    for (const [key, node] of this.cache.entries()) {
+      if (node.entry.tags?.some((tag) => tags.includes(tag))) {
+        this.delete(key)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
   /**
    * Clear entire cache
    */
@@ -110,6 +110,27 @@ describe('MemoryCacheService', () => {
     })
   })
 
+  describe('invalidateTags', () => {
+    it('removes entries carrying any of the tags', () => {
+      cacheService.set('users:list:1', [], ['users:list', 'user:1'])
+      cacheService.set('users:list:2', [], ['users:list', 'user:2'])
+      cacheService.set('user:1', { id: 1 }, ['user:1'])
+      cacheService.set('user:2', { id: 2 }, ['user:2'])
+      cacheService.set('untagged', 'value')
+
+      expect(cacheService.invalidateTags(['user:1'])).toBe(2)
+
+      expect(cacheService.keys().sort()).toEqual(['untagged', 'user:2', 'users:list:2'])
+    })
+
+    it('returns 0 when no entry carries the tags', () => {
+      cacheService.set('key1', 'value1', ['a'])
+
+      expect(cacheService.invalidateTags(['b'])).toBe(0)
+      expect(cacheService.get('key1')).toBe('value1')
+    })
+  })
+
   describe('has', () => {
     it('returns true for existing key', () => {
       cacheService.set('key', 'value')
@@ -12,6 +12,8 @@ interface CacheEntry<T> {
   timestamp: number
   accessCount: number
   lastAccessed: number
+  /** Invalidation tags (see invalidateTags) */
+  tags?: readonly string[]
 }
 
 /**
@@ -50,9 +52,9 @@ class MemoryCacheService {
   }
 
   /**
-   * Set item in cache
+   * Set item in cache, optionally tagged for invalidation
    */
-  set<T>(key: string, value: T): void {
+  set<T>(key: string, value: T, tags?: readonly string[]): void {
     // Evict if at max size
     if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
       this.evictLeastUsed()
@@ -63,6 +65,7 @@ class MemoryCacheService {
       timestamp: Date.now(),
       accessCount: 1,
       lastAccessed: Date.now(),
+      tags,
     }
 
     this.cache.set(key, entry)
@@ -93,6 +96,21 @@ class MemoryCacheService {
     }
   }
 
+  /**
+   * Delete every item carrying one of the tags
+   * Returns the number of items deleted
+   */
+  invalidateTags(tags: readonly string[]): number {
+    let deleted = 0
+    for (const [key, entry] of this.cache.entries()) {
+      if (entry.tags?.some((tag) => tags.includes(tag))) {
+        this.cache.delete(key)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
   /**
    * Clear entire cache
    */
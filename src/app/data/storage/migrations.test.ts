@@ -0,0 +1,165 @@
+// =============================================================================
+// ArcanaDB Migrations Tests
+// =============================================================================
+// Runs the registry against fake-indexeddb: a database created by an older
+// version is reopened with the full registry and must come out upgraded.
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import Dexie from 'dexie'
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb'
+import { MIGRATIONS, applyMigrations, cacheValueVersion, latestVersion, type Migration } from './migrations'
+import { ENTITY_INDEXES } from './indexedDbService'
+
+const DB_NAME = 'ArcanaDB-test'
+
+describe('ArcanaDB migrations', () => {
+  let indexedDB: IDBFactory
+
+  // A fresh in-memory IndexedDB per test
+  beforeEach(() => {
+    indexedDB = new IDBFactory()
+  })
+
+  function openDb(migrations: readonly Migration[]): Promise<Dexie> {
+    const db = new Dexie(DB_NAME, { indexedDB, IDBKeyRange })
+    applyMigrations(db, migrations)
+    return db.open()
+  }
+
+  async function seedV1(): Promise<void> {
+    const db = await openDb(MIGRATIONS.filter((migration) => migration.version === 1))
+    await db.table('cache').bulkPut([
+      { key: 'user:1', value: { id: '1' }, timestamp: 1, expiresAt: Date.now() + 60000, version: 1 },
+      { key: 'settings:theme', value: 'dark', timestamp: 1, expiresAt: Date.now() + 60000, version: 1 },
+    ])
+    await db.table('pendingOperations').add({
+      type: 'create',
+      entity: 'user',
+      entityId: 'offline_1',
+      payload: { email: 'new@example.com' },
+      timestamp: 1,
+      retries: 0,
+      maxRetries: 3,
+      status: 'pending',
+    })
+    db.close()
+  }
+
+  it('creates the latest schema on a new database', async () => {
+    const db = await openDb(MIGRATIONS)
+
+    expect(db.verno).toBe(latestVersion())
+    expect(db.tables.map((table) => table.name).sort()).toEqual([
+      'cache',
+      'events',
+      'idMappings',
+      'messages',
+      'pendingOperations',
+      'projects',
+      'syncMetadata',
+      'tasks',
+      'users',
+    ])
+    db.close()
+  })
+
+  it('upgrades a v1 database and keeps its data', async () => {
+    await seedV1()
+
+    const db = await openDb(MIGRATIONS)
+
+    expect(db.verno).toBe(latestVersion())
+    // User entries written before the tag index (v5) are dropped
+    expect(await db.table('cache').toCollection().primaryKeys()).toEqual(['settings:theme'])
+    await db.table('idMappings').put({ tempId: 'offline_1', entity: 'user', serverId: '42', timestamp: 1 })
+    expect(await db.table('idMappings').where('serverId').equals('42').count()).toBe(1)
+    db.close()
+  })
+
+  it('gives operations queued before v3 an idempotency key', async () => {
+    await seedV1()
+
+    const db = await openDb(MIGRATIONS)
+    const [op] = await db.table('pendingOperations').toArray()
+
+    expect(op.idempotencyKey).toBe('test-uuid-1234-5678-9012')
+    expect(op.payload).toEqual({ email: 'new@example.com' })
+    db.close()
+  })
+
+  it('indexes entity tables by the keys stored in clear only', async () => {
+    const db = await openDb(MIGRATIONS)
+
+    for (const [table, fields] of Object.entries(ENTITY_INDEXES)) {
+      const { primKey, indexes } = db.table(table).schema
+      expect([primKey.name, ...indexes.map((index) => index.name)].sort()).toEqual([...fields].sort())
+    }
+    db.close()
+  })
+
+  it('empties entity tables written in clear before v10', async () => {
+    const v9 = await openDb(MIGRATIONS.filter((migration) => migration.version <= 9))
+    await v9.table('users').put({ id: '1', email: 'john@example.com', lastName: 'Doe' })
+    await v9.table('messages').put({ id: '1', conversationId: '1~2', body: 'Lunch at noon?' })
+    v9.close()
+
+    const db = await openDb(MIGRATIONS)
+
+    expect(await db.table('users').count()).toBe(0)
+    expect(await db.table('messages').count()).toBe(0)
+    db.close()
+  })
+
+  it('drops cached values whose shape changed and runs data transforms', async () => {
+    await seedV1()
+    const next: Migration = {
+      version: latestVersion() + 1,
+      description: 'Users gain a display name',
+      invalidateCache: ['user:'],
+      upgrade: (tx) =>
+        tx
+          .table('pendingOperations')
+          .toCollection()
+          .modify((op: { payload: Record<string, unknown> }) => {
+            op.payload = { ...op.payload, displayName: null }
+          }),
+    }
+
+    const db = await openDb([...MIGRATIONS, next])
+
+    expect(await db.table('cache').toCollection().primaryKeys()).toEqual(['settings:theme'])
+    const [op] = await db.table('pendingOperations').toArray()
+    expect(op.payload).toEqual({ email: 'new@example.com', displayName: null })
+    db.close()
+  })
+
+  it('deletes stores removed by a migration', async () => {
+    await seedV1()
+
+    const db = await openDb([
+      ...MIGRATIONS,
+      { version: latestVersion() + 1, description: 'Drop sync metadata', stores: { syncMetadata: null } },
+    ])
+
+    expect(db.tables.map((table) => table.name)).not.toContain('syncMetadata')
+    db.close()
+  })
+
+  it('lists versions in ascending order without gaps', () => {
+    expect(MIGRATIONS.map((migration) => migration.version)).toEqual(
+      Array.from({ length: MIGRATIONS.length }, (_, index) => index + 1)
+    )
+  })
+})
+
+describe('cacheValueVersion', () => {
+  it('uses the version registered for the key prefix', () => {
+    expect(cacheValueVersion('user:1')).toBe(1)
+    expect(cacheValueVersion('users:list:1:10:')).toBe(1)
+  })
+
+  it('defaults to 1 for unregistered keys', () => {
+    expect(cacheValueVersion('settings:theme')).toBe(1)
+  })
+})
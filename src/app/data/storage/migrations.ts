@@ -0,0 +1,173 @@
+// =============================================================================
+// ArcanaDB Migrations
+// =============================================================================
+// Versioned schema of ArcanaDB. Each migration declares the store changes for
+// its version and, optionally, a transform for rows written by earlier
+// versions. Dexie runs every migration newer than the database on open.
+// Append new versions; never edit one that has shipped.
+// =============================================================================
+
+import type Dexie from 'dexie'
+import type { Transaction } from 'dexie'
+
+/**
+ * One schema version of ArcanaDB
+ */
+export interface Migration {
+  version: number
+  description: string
+  /** Store changes for this version (Dexie schema syntax); null deletes a store */
+  stores?: Record<string, string | null>
+  /** Cache key prefixes whose stored values changed shape; their rows are dropped */
+  invalidateCache?: readonly string[]
+  /** Transform rows written by earlier versions */
+  upgrade?: (tx: Transaction) => Promise<unknown>
+}
+
+/**
+ * Shape version of cached values, by cache key prefix
+ * Bump a prefix when its value type changes; entries written with another
+ * version are treated as cache misses
+ */
+export const CACHE_VALUE_VERSIONS: Readonly<Record<string, number>> = {
+  'user:': 1,
+  'users:': 1,
+  'project:': 1,
+  'projects:': 1,
+  'task:': 1,
+  'tasks:': 1,
+  'event:': 1,
+  'events:': 1,
+  'message:': 1,
+  'messages:': 1,
+}
+
+/**
+ * Migration registry, oldest first
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'Cache, offline queue and sync metadata',
+    stores: {
+      cache: 'key, timestamp, expiresAt',
+      pendingOperations: '++id, entity, entityId, status, timestamp',
+      syncMetadata: 'key, lastSync',
+    },
+  },
+  {
+    version: 2,
+    description: 'Offline ID reconciliation',
+    stores: {
+      idMappings: 'tempId, entity, serverId',
+    },
+  },
+  {
+    version: 3,
+    description: 'Idempotency keys for queued operations',
+    upgrade: (tx) =>
+      tx
+        .table('pendingOperations')
+        .toCollection()
+        .modify((op: { idempotencyKey?: string }) => {
+          op.idempotencyKey ??= crypto.randomUUID()
+        }),
+  },
+  {
+    version: 4,
+    description: 'Normalized users table for offline queries',
+    stores: {
+      users: 'id, email, lastName, createdAt, updatedAt',
+    },
+  },
+  {
+    version: 5,
+    description: 'Tag index for cache invalidation',
+    stores: {
+      cache: 'key, timestamp, expiresAt, *tags',
+    },
+    // Written without tags, so tag invalidation would never reach them
+    invalidateCache: ['user:', 'users:'],
+  },
+  {
+    version: 6,
+    description: 'Normalized projects table for offline queries',
+    stores: {
+      projects: 'id, name, status, ownerId, createdAt, updatedAt',
+    },
+  },
+  {
+    version: 7,
+    description: 'Normalized tasks table for offline queries',
+    stores: {
+      tasks: 'id, title, status, priority, assigneeId, projectId, createdAt, updatedAt',
+    },
+  },
+  {
+    version: 8,
+    description: 'Normalized calendar events table for offline queries',
+    stores: {
+      events: 'id, title, start, end, createdAt, updatedAt',
+    },
+  },
+  {
+    version: 9,
+    description: 'Normalized messages table for offline queries',
+    stores: {
+      messages: 'id, conversationId, senderId, recipientId, createdAt, updatedAt',
+    },
+  },
+  {
+    version: 10,
+    description: 'Entity tables indexed by non-sensitive keys only, other fields sealed',
+    stores: {
+      users: 'id, createdAt, updatedAt',
+      projects: 'id, status, ownerId, createdAt, updatedAt',
+      tasks: 'id, status, priority, assigneeId, projectId, createdAt, updatedAt',
+      events: 'id, start, end, createdAt, updatedAt',
+    },
+    // Rows were written in clear; repositories refill them sealed
+    upgrade: (tx) =>
+      Promise.all(['users', 'projects', 'tasks', 'events', 'messages'].map((table) => tx.table(table).clear())),
+  },
+]
+
+/**
+ * Latest schema version in a registry
+ */
+export function latestVersion(migrations: readonly Migration[] = MIGRATIONS): number {
+  return Math.max(...migrations.map((migration) => migration.version))
+}
+
+/**
+ * Shape version for a cache key (longest matching prefix, 1 by default)
+ */
+export function cacheValueVersion(key: string): number {
+  const prefix = Object.keys(CACHE_VALUE_VERSIONS)
+    .filter((candidate) => key.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return prefix ? CACHE_VALUE_VERSIONS[prefix] : 1
+}
+
+/**
+ * Declare every migration on a Dexie instance (call before open)
+ */
+export function applyMigrations(db: Dexie, migrations: readonly Migration[] = MIGRATIONS): void {
+  for (const migration of migrations) {
+    const version = db.version(migration.version).stores(migration.stores ?? {})
+
+    if (migration.invalidateCache || migration.upgrade) {
+      version.upgrade(async (tx) => {
+        const prefixes = migration.invalidateCache ?? []
+        if (prefixes.length > 0) {
+          await tx
+            .table('cache')
+            .filter((item: { key: string }) => prefixes.some((prefix) => item.key.startsWith(prefix)))
+            .delete()
+        }
+        await migration.upgrade?.(tx)
+      })
+    }
+  }
+}
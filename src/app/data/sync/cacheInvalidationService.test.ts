@@ -0,0 +1,165 @@
+// =============================================================================
+// Cache Invalidation Service Tests
+// =============================================================================
+// Runs against the real memory, LRU and IndexedDB layers (fake-indexeddb):
+// a user mutation must leave no stale list page in any of them.
+// =============================================================================
+
+import 'fake-indexeddb/auto'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockApiGet, mockApiPost, mockApiPut, mockApiDelete } = vi.hoisted(() => ({
+  mockApiGet: vi.fn(),
+  mockApiPost: vi.fn(),
+  mockApiPut: vi.fn(),
+  mockApiDelete: vi.fn(),
+}))
+
+vi.mock('../api/apiService', () => ({
+  apiService: {
+    get: (...args: unknown[]) => mockApiGet(...args),
+    post: (...args: unknown[]) => mockApiPost(...args),
+    put: (...args: unknown[]) => mockApiPut(...args),
+    delete: (...args: unknown[]) => mockApiDelete(...args),
+  },
+}))
+
+vi.mock('./offlineSyncService', () => ({
+  offlineSyncService: {
+    registerHandler: vi.fn(),
+    sync: vi.fn(),
+    notifyQueueChanged: vi.fn(),
+  },
+}))
+
+vi.mock('@/app/domain/services/networkStatusService', () => ({
+  networkStatusService: {
+    isCurrentlyOnline: () => true,
+    onChange$: { subscribe: vi.fn() },
+  },
+}))
+
+import { memoryCacheService } from '../storage/memoryCacheService'
+import { lruCacheService } from '../storage/lruCacheService'
+import { indexedDbService } from '../storage/indexedDbService'
+import { userRepository } from '../repositories/userRepository'
+import { cacheInvalidationService } from './cacheInvalidationService'
+
+const FIRST_PAGE = 'users:list:1:10:'
+const SEARCH_PAGE = 'users:list:1:10:ada'
+
+function userDto(id: number, firstName: string) {
+  return {
+    id,
+    email: `${firstName.toLowerCase()}@example.com`,
+    first_name: firstName,
+    last_name: 'Test',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  }
+}
+
+function page(...users: ReturnType<typeof userDto>[]) {
+  return { data: { data: users, page: 1, per_page: 10, total: users.length, total_pages: 1 } }
+}
+
+/**
+ * Whether a key is still cached in each layer
+ */
+async function cachedIn(key: string) {
+  return {
+    memory: memoryCacheService.has(key),
+    lru: lruCacheService.has(key),
+    indexedDb: (await indexedDbService.getCache(key)) !== null,
+  }
+}
+
+const NOWHERE = { memory: false, lru: false, indexedDb: false }
+const EVERYWHERE = { memory: true, lru: true, indexedDb: true }
+
+describe('CacheInvalidationService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+
+    // Keep the cache encryption secret between reads
+    const storage = new Map<string, string>()
+    vi.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null)
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => void storage.set(key, value))
+
+    memoryCacheService.clear()
+    lruCacheService.clear()
+    await indexedDbService.clearAll()
+  })
+
+  describe('invalidateTags', () => {
+    it('removes tagged entries from every layer and keeps the rest', async () => {
+      memoryCacheService.set('a', 1, ['red'])
+      lruCacheService.set('a', 1, undefined, ['red'])
+      await indexedDbService.setCache('a', 1, 60000, ['red'])
+      memoryCacheService.set('b', 2, ['blue'])
+      lruCacheService.set('b', 2, undefined, ['blue'])
+      await indexedDbService.setCache('b', 2, 60000, ['blue'])
+
+      await cacheInvalidationService.invalidateTags(['red'])
+
+      expect(await cachedIn('a')).toEqual(NOWHERE)
+      expect(await cachedIn('b')).toEqual(EVERYWHERE)
+    })
+
+    it('does nothing without tags', async () => {
+      memoryCacheService.set('a', 1, ['red'])
+
+      await cacheInvalidationService.invalidateTags([])
+
+      expect(memoryCacheService.has('a')).toBe(true)
+    })
+  })
+
+  describe('user mutations', () => {
+    beforeEach(async () => {
+      mockApiGet.mockImplementation((url: string) =>
+        Promise.resolve(
+          url.includes('search=ada') ? page(userDto(1, 'Ada')) : page(userDto(1, 'Ada'), userDto(2, 'Alan'))
+        )
+      )
+
+      await userRepository.getList({ page: 1, pageSize: 10 }, undefined, { policy: 'network-first' })
+      await userRepository.getList({ page: 1, pageSize: 10 }, 'ada', { policy: 'network-first' })
+
+      // List pages skip the memory layer
+      expect(await cachedIn(FIRST_PAGE)).toEqual({ ...EVERYWHERE, memory: false })
+      expect(await cachedIn(SEARCH_PAGE)).toEqual({ ...EVERYWHERE, memory: false })
+    })
+
+    it('drops every list page when a user is created', async () => {
+      mockApiPost.mockResolvedValue({ data: userDto(3, 'Grace') })
+
+      await userRepository.create({ email: 'grace@example.com', firstName: 'Grace', lastName: 'Test' })
+
+      expect(await cachedIn(FIRST_PAGE)).toEqual(NOWHERE)
+      expect(await cachedIn(SEARCH_PAGE)).toEqual(NOWHERE)
+      expect(await cachedIn('user:1')).toEqual(EVERYWHERE)
+    })
+
+    it('drops every list page when a user is updated', async () => {
+      mockApiPut.mockResolvedValue({ data: userDto(2, 'Alonzo') })
+
+      await userRepository.update('2', { firstName: 'Alonzo' })
+
+      expect(await cachedIn(FIRST_PAGE)).toEqual(NOWHERE)
+      expect(await cachedIn(SEARCH_PAGE)).toEqual(NOWHERE)
+      expect(await indexedDbService.getCache('user:2')).toMatchObject({ firstName: 'Alonzo' })
+    })
+
+    it('drops the user and every list page when a user is deleted', async () => {
+      mockApiDelete.mockResolvedValue({ data: null })
+
+      await userRepository.delete('1')
+
+      expect(await cachedIn('user:1')).toEqual(NOWHERE)
+      expect(await cachedIn(FIRST_PAGE)).toEqual(NOWHERE)
+      expect(await cachedIn(SEARCH_PAGE)).toEqual(NOWHERE)
+      expect(await cachedIn('user:2')).toEqual(EVERYWHERE)
+    })
+  })
+})
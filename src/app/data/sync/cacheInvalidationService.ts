@@ -0,0 +1,31 @@
+// =============================================================================
+// Cache Invalidation Service
+// =============================================================================
+// Tag-based invalidation across the memory, LRU and IndexedDB layers.
+// Every cache write carries tags (e.g. `user:42`, `users:list`, `search:abc`);
+// invalidating a tag removes every entry carrying it from all three layers,
+// in this tab and in the others.
+// =============================================================================
+
+import { indexedDbService } from '../storage/indexedDbService'
+import { crossTabService } from './crossTabService'
+
+/**
+ * Cache Invalidation Service
+ */
+class CacheInvalidationService {
+  /**
+   * Drop every cache entry carrying one of the tags
+   * The memory and LRU layers are per tab, so the other tabs are told to
+   * evict too; IndexedDB is shared and cleared once
+   */
+  async invalidateTags(tags: readonly string[]): Promise<void> {
+    if (tags.length === 0) return
+
+    crossTabService.invalidateCache({ tags: [...tags] })
+    await indexedDbService.invalidateTags(tags)
+  }
+}
+
+// Export singleton instance
+export const cacheInvalidationService = new CacheInvalidationService()
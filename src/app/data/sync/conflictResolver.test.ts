@@ -0,0 +1,85 @@
+// =============================================================================
+// Conflict Resolver Tests
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ConflictStrategy, type SyncConflict } from '@/app/domain/entities/sync-conflict.model'
+import { conflictResolver } from './conflictResolver'
+
+const makeConflict = (overrides: Partial<SyncConflict> = {}): SyncConflict => ({
+  operationId: 1,
+  entity: 'user',
+  entityId: '42',
+  baseVersion: '2025-01-01T00:00:00.000Z',
+  serverVersion: '2025-01-02T00:00:00.000Z',
+  base: { firstName: 'John', lastName: 'Doe' },
+  local: { firstName: 'Johnny' },
+  server: { firstName: 'John', lastName: 'Smith' },
+  detectedAt: new Date(),
+  ...overrides,
+})
+
+describe('ConflictResolver', () => {
+  beforeEach(() => {
+    conflictResolver.reset()
+  })
+
+  it('uses the field-level merge strategy by default', () => {
+    expect(conflictResolver.resolve(makeConflict())).toEqual({
+      type: 'client',
+      payload: { firstName: 'Johnny' },
+    })
+  })
+
+  it('merge defers to the user when both sides changed a field', () => {
+    const conflict = makeConflict({ server: { firstName: 'Jon', lastName: 'Doe' } })
+
+    expect(conflictResolver.resolve(conflict)).toEqual({ type: 'defer' })
+  })
+
+  it('merge keeps the server when it already has the local values', () => {
+    const conflict = makeConflict({ server: { firstName: 'Johnny', lastName: 'Smith' } })
+
+    expect(conflictResolver.resolve(conflict)).toEqual({ type: 'server' })
+  })
+
+  it('applies server-wins', () => {
+    conflictResolver.setStrategy('user', ConflictStrategy.SERVER_WINS)
+
+    expect(conflictResolver.resolve(makeConflict())).toEqual({ type: 'server' })
+  })
+
+  it('applies client-wins with the full local change', () => {
+    conflictResolver.setStrategy('user', ConflictStrategy.CLIENT_WINS)
+
+    expect(conflictResolver.resolve(makeConflict())).toEqual({
+      type: 'client',
+      payload: { firstName: 'Johnny' },
+    })
+  })
+
+  it('applies ask-user', () => {
+    conflictResolver.setStrategy('user', ConflictStrategy.ASK_USER)
+
+    expect(conflictResolver.resolve(makeConflict())).toEqual({ type: 'defer' })
+  })
+
+  it('accepts a custom resolver function', () => {
+    conflictResolver.setStrategy('user', (conflict) => ({
+      type: 'client',
+      payload: { ...conflict.local, lastName: 'Custom' },
+    }))
+
+    expect(conflictResolver.resolve(makeConflict())).toEqual({
+      type: 'client',
+      payload: { firstName: 'Johnny', lastName: 'Custom' },
+    })
+  })
+
+  it('uses the default strategy for entities without their own', () => {
+    conflictResolver.setStrategy('user', ConflictStrategy.SERVER_WINS)
+    conflictResolver.setDefaultStrategy(ConflictStrategy.ASK_USER)
+
+    expect(conflictResolver.resolve(makeConflict({ entity: 'project' }))).toEqual({ type: 'defer' })
+  })
+})
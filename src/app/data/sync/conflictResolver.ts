@@ -0,0 +1,80 @@
+// =============================================================================
+// Conflict Resolver
+// =============================================================================
+// Applies a resolution strategy when a queued offline change conflicts with
+// the server. Strategies are configured per entity and can be replaced with
+// custom resolver functions.
+// =============================================================================
+
+import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+import {
+  ConflictStrategy,
+  mergeConflict,
+  type ConflictResolution,
+  type SyncConflict,
+} from '@/app/domain/entities/sync-conflict.model'
+
+/**
+ * Resolver function - decides what happens to a conflicting change
+ */
+export type ConflictResolverFn = (conflict: SyncConflict) => ConflictResolution
+
+/**
+ * Built-in strategies
+ */
+const strategies: Record<ConflictStrategy, ConflictResolverFn> = {
+  [ConflictStrategy.SERVER_WINS]: () => ({ type: 'server' }),
+
+  [ConflictStrategy.CLIENT_WINS]: (conflict) => ({ type: 'client', payload: conflict.local }),
+
+  // Merge non-overlapping field changes, ask the user when both sides edited a field
+  [ConflictStrategy.MERGE]: (conflict) => {
+    const merged = mergeConflict(conflict)
+    if (!merged) return { type: 'defer' }
+    return Object.keys(merged).length > 0 ? { type: 'client', payload: merged } : { type: 'server' }
+  },
+
+  [ConflictStrategy.ASK_USER]: () => ({ type: 'defer' }),
+}
+
+/**
+ * Conflict Resolver
+ * Maps entities to resolution strategies
+ */
+class ConflictResolver {
+  private readonly resolvers = new Map<string, ConflictResolverFn>()
+  private defaultStrategy: ConflictStrategy = APP_CONSTANTS.SYNC.CONFLICT_STRATEGY
+
+  /**
+   * Set the strategy for an entity (built-in name or custom resolver)
+   */
+  setStrategy(entity: string, strategy: ConflictStrategy | ConflictResolverFn): void {
+    this.resolvers.set(entity, typeof strategy === 'function' ? strategy : strategies[strategy])
+  }
+
+  /**
+   * Set the strategy used for entities without their own
+   */
+  setDefaultStrategy(strategy: ConflictStrategy): void {
+    this.defaultStrategy = strategy
+  }
+
+  /**
+   * Decide how to resolve a conflict
+   */
+  resolve(conflict: SyncConflict): ConflictResolution {
+    const resolver = this.resolvers.get(conflict.entity) ?? strategies[this.defaultStrategy]
+    return resolver(conflict)
+  }
+
+  /**
+   * Reset all entity strategies to the default
+   */
+  reset(): void {
+    this.resolvers.clear()
+    this.defaultStrategy = APP_CONSTANTS.SYNC.CONFLICT_STRATEGY
+  }
+}
+
+// Export singleton instance
+export const conflictResolver = new ConflictResolver()
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// ---------------------------------------------------------------------------
+// Fake BroadcastChannel and Web Locks, installed before the module loads
+// ---------------------------------------------------------------------------
+const { FakeBroadcastChannel, FakeLockManager } = vi.hoisted(() => {
+  class FakeBroadcastChannel {
+    static readonly channels = new Map<string, Set<FakeBroadcastChannel>>()
+    readonly name: string
+    onmessage: ((event: MessageEvent) => void) | null = null
+
+    constructor(name: string) {
+      this.name = name
+      const peers = FakeBroadcastChannel.channels.get(name) ?? new Set()
+      peers.add(this)
+      FakeBroadcastChannel.channels.set(name, peers)
+    }
+
+    // Delivered to every other channel with the same name, never to the sender
+    postMessage(data: unknown): void {
+      for (const peer of FakeBroadcastChannel.channels.get(this.name) ?? []) {
+        if (peer !== this) peer.onmessage?.({ data: structuredClone(data) } as MessageEvent)
+      }
+    }
+
+    close(): void {
+      FakeBroadcastChannel.channels.get(this.name)?.delete(this)
+    }
+  }
+
+  interface LockRequest {
+    callback: () => Promise<void>
+    resolve: () => void
+    reject: (error: unknown) => void
+  }
+
+  // Single exclusive lock, granted in request order
+  class FakeLockManager {
+    private readonly waiting: LockRequest[] = []
+    private held = false
+
+    request(_name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>): Promise<void> {
+      return new Promise((resolve, reject) => {
+        const request = { callback, resolve, reject }
+        options.signal?.addEventListener('abort', () => {
+          const index = this.waiting.indexOf(request)
+          if (index >= 0) {
+            this.waiting.splice(index, 1)
+            reject(new DOMException('Aborted', 'AbortError'))
+          }
+        })
+        this.waiting.push(request)
+        this.grant()
+      })
+    }
+
+    private grant(): void {
+      if (this.held) return
+      const next = this.waiting.shift()
+      if (!next) return
+      this.held = true
+      void next.callback().then(() => {
+        this.held = false
+        next.resolve()
+        this.grant()
+      })
+    }
+  }
+
+  globalThis.BroadcastChannel = FakeBroadcastChannel as unknown as typeof BroadcastChannel
+  Object.defineProperty(navigator, 'locks', { value: new FakeLockManager(), configurable: true })
+
+  return { FakeBroadcastChannel, FakeLockManager }
+})
+
+import { CrossTabService } from './crossTabService'
+import { memoryCacheService } from '../storage/memoryCacheService'
+import { lruCacheService } from '../storage/lruCacheService'
+
+/** Let lock grants settle */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('CrossTabService', () => {
+  const tabs: CrossTabService[] = []
+  const openTab = () => {
+    const tab = new CrossTabService('test-channel', 'test-lock')
+    tabs.push(tab)
+    return tab
+  }
+
+  beforeEach(() => {
+    Object.defineProperty(navigator, 'locks', { value: new FakeLockManager(), configurable: true })
+    memoryCacheService.clear()
+    lruCacheService.clear()
+  })
+
+  afterEach(() => {
+    tabs.splice(0).forEach((tab) => tab.destroy())
+  })
+
+  // ==========================================================================
+  // Messaging
+  // ==========================================================================
+  describe('messaging', () => {
+    it('delivers messages to other tabs only', () => {
+      const tabA = openTab()
+      const tabB = openTab()
+      const receivedA = vi.fn()
+      const receivedB = vi.fn()
+      tabA.messages$.subscribe(receivedA)
+      tabB.messages$.subscribe(receivedB)
+
+      tabA.publish({ type: 'auth:changed' })
+
+      expect(receivedA).not.toHaveBeenCalled()
+      expect(receivedB).toHaveBeenCalledWith({ type: 'auth:changed' })
+    })
+
+    it('filters messages by type', () => {
+      const tabA = openTab()
+      const tabB = openTab()
+      const queueChanges = vi.fn()
+      tabB.on('sync:queue-changed').subscribe(queueChanges)
+
+      tabA.publish({ type: 'auth:changed' })
+      tabA.publish({ type: 'sync:queue-changed' })
+
+      expect(queueChanges).toHaveBeenCalledTimes(1)
+      expect(queueChanges).toHaveBeenCalledWith({ type: 'sync:queue-changed' })
+    })
+
+    it('stops receiving after destroy', () => {
+      const tabA = openTab()
+      const tabB = openTab()
+      const received = vi.fn()
+      tabB.messages$.subscribe(received)
+
+      tabB.destroy()
+      tabA.publish({ type: 'auth:changed' })
+
+      expect(received).not.toHaveBeenCalled()
+    })
+
+    it('works as a single tab without BroadcastChannel', () => {
+      const original = globalThis.BroadcastChannel
+      globalThis.BroadcastChannel = undefined as unknown as typeof BroadcastChannel
+      try {
+        const tab = openTab()
+        expect(() => tab.publish({ type: 'auth:changed' })).not.toThrow()
+      } finally {
+        globalThis.BroadcastChannel = original
+      }
+    })
+  })
+
+  // ==========================================================================
+  // Cache invalidation
+  // ==========================================================================
+  describe('invalidateCache', () => {
+    it('evicts the in-memory layers of every tab', () => {
+      const tabA = openTab()
+      openTab()
+      memoryCacheService.set('user:1', { id: '1' })
+      lruCacheService.set('user:1', { id: '1' })
+      memoryCacheService.set('users:list:1', [])
+      lruCacheService.set('users:list:1', [])
+      memoryCacheService.set('user:2', { id: '2' })
+      const published = vi.spyOn(FakeBroadcastChannel.prototype, 'postMessage')
+
+      tabA.invalidateCache({ keys: ['user:1'], prefixes: ['users:list'] })
+
+      expect(memoryCacheService.has('user:1')).toBe(false)
+      expect(lruCacheService.get('user:1')).toBeNull()
+      expect(memoryCacheService.has('users:list:1')).toBe(false)
+      expect(lruCacheService.get('users:list:1')).toBeNull()
+      expect(memoryCacheService.has('user:2')).toBe(true)
+      expect(published).toHaveBeenCalledWith({
+        type: 'cache:invalidated',
+        keys: ['user:1'],
+        prefixes: ['users:list'],
+      })
+      published.mockRestore()
+    })
+
+    it('evicts entries invalidated by another tab', () => {
+      const tabA = openTab()
+      openTab()
+      memoryCacheService.set('user:1', { id: '1' })
+
+      tabA.publish({ type: 'cache:invalidated', keys: ['user:1'] })
+
+      expect(memoryCacheService.has('user:1')).toBe(false)
+    })
+
+    it('evicts tagged entries in every tab', () => {
+      const tabA = openTab()
+      openTab()
+      memoryCacheService.set('users:list:1', [], ['users:list'])
+      lruCacheService.set('users:list:1', [], undefined, ['users:list'])
+      memoryCacheService.set('user:1', { id: '1' }, ['user:1'])
+
+      tabA.publish({ type: 'cache:invalidated', tags: ['users:list'] })
+
+      expect(memoryCacheService.has('users:list:1')).toBe(false)
+      expect(lruCacheService.get('users:list:1')).toBeNull()
+      expect(memoryCacheService.has('user:1')).toBe(true)
+    })
+  })
+
+  // ==========================================================================
+  // Leader election
+  // ==========================================================================
+  describe('leader election', () => {
+    it('elects exactly one leader', async () => {
+      const tabA = openTab()
+      const tabB = openTab()
+      await flush()
+
+      expect(tabA.isLeader).toBe(true)
+      expect(tabB.isLeader).toBe(false)
+    })
+
+    it('hands leadership to the next tab when the leader closes', async () => {
+      const tabA = openTab()
+      const tabB = openTab()
+      const leadership = vi.fn()
+      tabB.isLeader$.subscribe(leadership)
+      await flush()
+
+      tabA.destroy()
+      await flush()
+
+      expect(tabA.isLeader).toBe(false)
+      expect(tabB.isLeader).toBe(true)
+      expect(leadership.mock.calls).toEqual([[false], [true]])
+    })
+
+    it('leaves the queue when destroyed before being elected', async () => {
+      const tabA = openTab()
+      const tabB = openTab()
+      const tabC = openTab()
+      await flush()
+
+      tabB.destroy()
+      tabA.destroy()
+      await flush()
+
+      expect(tabB.isLeader).toBe(false)
+      expect(tabC.isLeader).toBe(true)
+    })
+
+    it('leads on its own without Web Locks', () => {
+      const locks = Object.getOwnPropertyDescriptor(navigator, 'locks')!
+      Reflect.deleteProperty(navigator, 'locks')
+      try {
+        expect(openTab().isLeader).toBe(true)
+      } finally {
+        Object.defineProperty(navigator, 'locks', locks)
+      }
+    })
+  })
+})
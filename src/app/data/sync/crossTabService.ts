@@ -0,0 +1,168 @@
+// =============================================================================
+// Cross-Tab Service
+// =============================================================================
+// Message bus between tabs of the app over BroadcastChannel.
+// Carries auth changes, entity changes, cache invalidations and sync-queue
+// changes, and elects one leader tab (Web Locks) to run background work.
+// =============================================================================
+
+import { BehaviorSubject, Subject, type Observable } from 'rxjs'
+import { filter } from 'rxjs/operators'
+
+import { APP_CONSTANTS } from '@/app/core/constants/app.constants'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { memoryCacheService } from '../storage/memoryCacheService'
+import { lruCacheService } from '../storage/lruCacheService'
+
+const { CROSS_TAB } = APP_CONSTANTS
+
+/**
+ * In-memory cache entries to drop
+ */
+export interface CacheInvalidation {
+  keys?: string[]
+  prefixes?: string[]
+  tags?: string[]
+}
+
+/**
+ * Message exchanged between tabs
+ */
+export type CrossTabMessage =
+  | { type: 'auth:changed' }
+  | { type: 'entity:changed'; entity: string; change: 'create' | 'update' | 'delete'; data: unknown }
+  | ({ type: 'cache:invalidated' } & CacheInvalidation)
+  | { type: 'sync:queue-changed' }
+  | { type: 'id:mapped'; mapping: IdMapping }
+
+export type CrossTabMessageType = CrossTabMessage['type']
+
+/**
+ * Cross-Tab Service
+ * Without BroadcastChannel the tab runs alone; without Web Locks it is its own leader
+ */
+export class CrossTabService {
+  private readonly channel: BroadcastChannel | null
+  private readonly messagesSubject = new Subject<CrossTabMessage>()
+  private readonly leaderSubject = new BehaviorSubject<boolean>(false)
+  private readonly election = new AbortController()
+  private releaseLeadership: (() => void) | null = null
+
+  constructor(channelName: string = CROSS_TAB.CHANNEL_NAME, lockName: string = CROSS_TAB.LEADER_LOCK) {
+    this.channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(channelName)
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<CrossTabMessage>) => this.messagesSubject.next(event.data)
+    }
+
+    // Other tabs changed data this tab may hold in memory
+    this.on('cache:invalidated').subscribe((invalidation) => this.evict(invalidation))
+
+    this.electLeader(lockName)
+  }
+
+  /**
+   * Send a message to the other tabs
+   */
+  publish(message: CrossTabMessage): void {
+    try {
+      this.channel?.postMessage(message)
+    } catch (error) {
+      console.warn('[CrossTab] Failed to publish message:', message.type, error)
+    }
+  }
+
+  /**
+   * Observable for messages of one type from other tabs
+   */
+  on<T extends CrossTabMessageType>(type: T): Observable<Extract<CrossTabMessage, { type: T }>> {
+    return this.messagesSubject.pipe(
+      filter((message): message is Extract<CrossTabMessage, { type: T }> => message.type === type)
+    )
+  }
+
+  /**
+   * Drop entries from the memory and LRU caches of every tab
+   * IndexedDB is shared between tabs and is not touched
+   */
+  invalidateCache(invalidation: CacheInvalidation): void {
+    this.evict(invalidation)
+    this.publish({ type: 'cache:invalidated', ...invalidation })
+  }
+
+  /**
+   * Whether this tab runs background work
+   */
+  get isLeader(): boolean {
+    return this.leaderSubject.value
+  }
+
+  /**
+   * Observable for leadership changes (replays the current value)
+   */
+  get isLeader$() {
+    return this.leaderSubject.asObservable()
+  }
+
+  /**
+   * Observable for all messages from other tabs
+   */
+  get messages$() {
+    return this.messagesSubject.asObservable()
+  }
+
+  /**
+   * Close the channel and hand leadership to another tab
+   */
+  destroy(): void {
+    this.channel?.close()
+    this.election.abort()
+    this.releaseLeadership?.()
+    this.releaseLeadership = null
+    this.leaderSubject.next(false)
+  }
+
+  /**
+   * Drop entries from this tab's in-memory cache layers
+   */
+  private evict({ keys = [], prefixes = [], tags = [] }: CacheInvalidation): void {
+    for (const key of keys) {
+      memoryCacheService.delete(key)
+      lruCacheService.delete(key)
+    }
+    for (const prefix of prefixes) {
+      memoryCacheService.clearByPrefix(prefix)
+      lruCacheService.clearByPrefix(prefix)
+    }
+    if (tags.length > 0) {
+      memoryCacheService.invalidateTags(tags)
+      lruCacheService.invalidateTags(tags)
+    }
+  }
+
+  /**
+   * Queue for the leader lock; the lock is held until the tab closes or
+   * destroy() is called, then the next tab in line takes over
+   */
+  private electLeader(lockName: string): void {
+    if (!('locks' in navigator)) {
+      this.leaderSubject.next(true)
+      return
+    }
+
+    navigator.locks
+      .request(lockName, { signal: this.election.signal }, () => {
+        this.leaderSubject.next(true)
+        return new Promise<void>((resolve) => {
+          this.releaseLeadership = resolve
+        })
+      })
+      .catch((error: unknown) => {
+        if (this.election.signal.aborted) return
+        console.warn('[CrossTab] Leader election failed, running as leader:', error)
+        this.leaderSubject.next(true)
+      })
+  }
+}
+
+// Export singleton instance
+export const crossTabService = new CrossTabService()
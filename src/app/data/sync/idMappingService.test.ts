@@ -0,0 +1,144 @@
+// =============================================================================
+// ID Mapping Service Tests
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+
+const { mockGetIdMapping, mockSaveIdMapping, mockRemapPendingOperations } = vi.hoisted(() => ({
+  mockGetIdMapping: vi.fn().mockResolvedValue(null),
+  mockSaveIdMapping: vi.fn().mockResolvedValue(undefined),
+  mockRemapPendingOperations: vi.fn().mockResolvedValue(0),
+}))
+
+vi.mock('../storage/indexedDbService', () => ({
+  indexedDbService: {
+    getIdMapping: (...args: unknown[]) => mockGetIdMapping(...args),
+    saveIdMapping: (...args: unknown[]) => mockSaveIdMapping(...args),
+    remapPendingOperations: (...args: unknown[]) => mockRemapPendingOperations(...args),
+  },
+}))
+
+const { crossTabMessages, mockCrossTabPublish } = await vi.hoisted(async () => {
+  const { Subject } = await import('rxjs')
+  return {
+    crossTabMessages: new Subject<{ type: string; mapping?: IdMapping }>(),
+    mockCrossTabPublish: vi.fn(),
+  }
+})
+
+vi.mock('./crossTabService', async () => {
+  const { filter } = await import('rxjs/operators')
+  return {
+    crossTabService: {
+      publish: (...args: unknown[]) => mockCrossTabPublish(...args),
+      on: (type: string) => crossTabMessages.pipe(filter((message) => message.type === type)),
+    },
+  }
+})
+
+import { idMappingService } from './idMappingService'
+
+describe('IdMappingService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    mockGetIdMapping.mockResolvedValue(null)
+    idMappingService.clear()
+  })
+
+  describe('reconcile', () => {
+    it('persists the mapping and rewrites queued operations', async () => {
+      mockRemapPendingOperations.mockResolvedValue(2)
+
+      await idMappingService.reconcile('user', 'offline_1', '42')
+
+      expect(mockSaveIdMapping).toHaveBeenCalledWith(
+        expect.objectContaining({ entity: 'user', tempId: 'offline_1', serverId: '42' })
+      )
+      expect(mockRemapPendingOperations).toHaveBeenCalledWith('user', 'offline_1', '42')
+    })
+
+    it('emits the mapping on mappings$', async () => {
+      const events: IdMapping[] = []
+      const sub = idMappingService.mappings$.subscribe((m) => events.push(m))
+
+      await idMappingService.reconcile('user', 'offline_1', '42')
+
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({ entity: 'user', tempId: 'offline_1', serverId: '42' })
+      sub.unsubscribe()
+    })
+
+    it('does nothing when the IDs are identical', async () => {
+      await idMappingService.reconcile('user', '42', '42')
+
+      expect(mockSaveIdMapping).not.toHaveBeenCalled()
+      expect(mockRemapPendingOperations).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolve', () => {
+    it('returns non-offline IDs unchanged without a lookup', async () => {
+      const id = await idMappingService.resolve('42')
+
+      expect(id).toBe('42')
+      expect(mockGetIdMapping).not.toHaveBeenCalled()
+    })
+
+    it('resolves from memory after reconcile', async () => {
+      await idMappingService.reconcile('user', 'offline_1', '42')
+
+      const id = await idMappingService.resolve('offline_1')
+
+      expect(id).toBe('42')
+      expect(mockGetIdMapping).not.toHaveBeenCalled()
+    })
+
+    it('falls back to the persisted mapping', async () => {
+      mockGetIdMapping.mockResolvedValue({
+        entity: 'user',
+        tempId: 'offline_2',
+        serverId: '77',
+        timestamp: 1000,
+      })
+
+      const id = await idMappingService.resolve('offline_2')
+
+      expect(id).toBe('77')
+      expect(mockGetIdMapping).toHaveBeenCalledWith('offline_2')
+    })
+
+    it('returns the offline ID when no mapping exists', async () => {
+      const id = await idMappingService.resolve('offline_unknown')
+
+      expect(id).toBe('offline_unknown')
+    })
+  })
+
+  describe('cross-tab', () => {
+    const mapping: IdMapping = { entity: 'user', tempId: 'offline_3', serverId: '88', timestamp: 1000 }
+
+    it('shares reconciled mappings with other tabs', async () => {
+      await idMappingService.reconcile('user', 'offline_1', '42')
+
+      expect(mockCrossTabPublish).toHaveBeenCalledWith({
+        type: 'id:mapped',
+        mapping: expect.objectContaining({ tempId: 'offline_1', serverId: '42' }),
+      })
+    })
+
+    it('adopts mappings reconciled in another tab', async () => {
+      const events: IdMapping[] = []
+      const sub = idMappingService.mappings$.subscribe((m) => events.push(m))
+
+      crossTabMessages.next({ type: 'id:mapped', mapping })
+
+      expect(events).toEqual([mapping])
+      expect(await idMappingService.resolve('offline_3')).toBe('88')
+      expect(mockGetIdMapping).not.toHaveBeenCalled()
+      expect(mockRemapPendingOperations).not.toHaveBeenCalled()
+      sub.unsubscribe()
+    })
+  })
+})
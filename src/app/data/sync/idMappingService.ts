@@ -0,0 +1,92 @@
+// =============================================================================
+// ID Mapping Service
+// =============================================================================
+// Reconciles temporary offline IDs with the IDs assigned by the server.
+// Once an offline create is acknowledged, queued operations are rewritten
+// and subscribers (repositories, viewmodels) are notified of the new ID.
+// Mappings are shared with the other tabs, whose viewmodels may show the
+// offline entity too.
+// =============================================================================
+
+import { Subject } from 'rxjs'
+
+import { isOfflineId, type IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { indexedDbService } from '../storage/indexedDbService'
+import { crossTabService } from './crossTabService'
+
+/**
+ * ID Mapping Service
+ * Maintains the temp-ID -> server-ID mapping for offline-created entities
+ */
+class IdMappingService {
+  // In-memory lookup (tempId -> serverId)
+  private readonly mappings = new Map<string, string>()
+
+  // Mapping events
+  private readonly mappingSubject = new Subject<IdMapping>()
+
+  constructor() {
+    // Another tab reconciled the ID; the queue is already rewritten
+    crossTabService.on('id:mapped').subscribe(({ mapping }) => {
+      this.mappings.set(mapping.tempId, mapping.serverId)
+      this.mappingSubject.next(mapping)
+    })
+  }
+
+  /**
+   * Record a temp-ID -> server-ID mapping and rewrite queued operations
+   */
+  async reconcile(entity: string, tempId: string, serverId: string): Promise<void> {
+    if (tempId === serverId) return
+
+    const mapping: IdMapping = {
+      entity,
+      tempId,
+      serverId,
+      timestamp: Date.now(),
+    }
+
+    this.mappings.set(tempId, serverId)
+    await indexedDbService.saveIdMapping(mapping)
+
+    const rewritten = await indexedDbService.remapPendingOperations(entity, tempId, serverId)
+    console.log(`[IdMapping] ${tempId} -> ${serverId} (${rewritten} queued operations rewritten)`)
+
+    this.mappingSubject.next(mapping)
+    crossTabService.publish({ type: 'id:mapped', mapping })
+  }
+
+  /**
+   * Resolve an ID to its server ID
+   * Returns the ID unchanged if it is not a reconciled offline ID
+   */
+  async resolve(id: string): Promise<string> {
+    if (!isOfflineId(id)) return id
+
+    const cached = this.mappings.get(id)
+    if (cached) return cached
+
+    const mapping = await indexedDbService.getIdMapping(id)
+    if (!mapping) return id
+
+    this.mappings.set(id, mapping.serverId)
+    return mapping.serverId
+  }
+
+  /**
+   * Observable for ID mapping events
+   */
+  get mappings$() {
+    return this.mappingSubject.asObservable()
+  }
+
+  /**
+   * Clear in-memory mappings
+   */
+  clear(): void {
+    this.mappings.clear()
+  }
+}
+
+// Export singleton instance
+export const idMappingService = new IdMappingService()
@@ -2,8 +2,10 @@
 // Offline Sync Service Tests
 // =============================================================================
 
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { PendingOperation } from '../storage/indexedDbService'
+import type { SyncConflict } from '@/app/domain/entities/sync-conflict.model'
+import { AppError } from '@/app/domain/entities/app-error.model'
 
 // ---------------------------------------------------------------------------
 // Use vi.hoisted() for all mock functions referenced in vi.mock() factories
@@ -16,6 +18,11 @@ const {
   mockCleanupOldOperations,
   mockIsCurrentlyOnline,
   mockNetworkSubscribe,
+  mockResolveId,
+  mockGetConflictedOperations,
+  mockGetFailedOperations,
+  mockResolveConflictStrategy,
+  mockRequeueProcessingOperations,
 } = vi.hoisted(() => ({
   mockGetPendingOperations: vi.fn().mockResolvedValue([]),
   mockGetPendingCount: vi.fn().mockResolvedValue(0),
@@ -24,8 +31,23 @@ const {
   mockCleanupOldOperations: vi.fn().mockResolvedValue(0),
   mockIsCurrentlyOnline: vi.fn().mockReturnValue(true),
   mockNetworkSubscribe: vi.fn().mockReturnValue({ unsubscribe: vi.fn() }),
+  mockResolveId: vi.fn((id: string) => Promise.resolve(id)),
+  mockGetConflictedOperations: vi.fn().mockResolvedValue([]),
+  mockGetFailedOperations: vi.fn().mockResolvedValue([]),
+  mockResolveConflictStrategy: vi.fn(),
+  mockRequeueProcessingOperations: vi.fn().mockResolvedValue(0),
 }))
 
+// Cross-tab bus: messages from other tabs and this tab's leadership
+const { crossTabMessages, crossTabLeader, mockCrossTabPublish } = await vi.hoisted(async () => {
+  const { Subject, BehaviorSubject } = await import('rxjs')
+  return {
+    crossTabMessages: new Subject<{ type: string }>(),
+    crossTabLeader: new BehaviorSubject(true),
+    mockCrossTabPublish: vi.fn(),
+  }
+})
+
 vi.mock('../storage/indexedDbService', () => ({
   indexedDbService: {
     getPendingOperations: (...args: unknown[]) => mockGetPendingOperations(...args),
@@ -33,9 +55,38 @@ vi.mock('../storage/indexedDbService', () => ({
     updatePendingOperation: (...args: unknown[]) => mockUpdatePendingOperation(...args),
     deletePendingOperation: (...args: unknown[]) => mockDeletePendingOperation(...args),
     cleanupOldOperations: (...args: unknown[]) => mockCleanupOldOperations(...args),
+    getConflictedOperations: (...args: unknown[]) => mockGetConflictedOperations(...args),
+    getFailedOperations: (...args: unknown[]) => mockGetFailedOperations(...args),
+    requeueProcessingOperations: (...args: unknown[]) => mockRequeueProcessingOperations(...args),
+  },
+}))
+
+vi.mock('./conflictResolver', () => ({
+  conflictResolver: {
+    resolve: (...args: unknown[]) => mockResolveConflictStrategy(...args),
+  },
+}))
+
+vi.mock('./idMappingService', () => ({
+  idMappingService: {
+    resolve: (...args: unknown[]) => mockResolveId(...(args as [string])),
   },
 }))
 
+vi.mock('./crossTabService', async () => {
+  const { filter } = await import('rxjs/operators')
+  return {
+    crossTabService: {
+      publish: (...args: unknown[]) => mockCrossTabPublish(...args),
+      on: (type: string) => crossTabMessages.pipe(filter((message) => message.type === type)),
+      get isLeader() {
+        return crossTabLeader.value
+      },
+      isLeader$: crossTabLeader.asObservable(),
+    },
+  }
+})
+
 vi.mock('@/app/domain/services/networkStatusService', () => ({
   networkStatusService: {
     isCurrentlyOnline: () => mockIsCurrentlyOnline(),
@@ -67,10 +118,21 @@ describe('OfflineSyncService', () => {
     mockIsCurrentlyOnline.mockReturnValue(true)
     mockGetPendingOperations.mockResolvedValue([])
     mockGetPendingCount.mockResolvedValue(0)
+    mockResolveId.mockImplementation((id: string) => Promise.resolve(id))
+    mockGetFailedOperations.mockResolvedValue([])
+    // Backed-off retries are scheduled with setTimeout
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
     // Reset the service state
     offlineSyncService.resetStats()
   })
 
+  afterEach(() => {
+    // Cancel any scheduled retry
+    offlineSyncService.destroy()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
   // ==========================================================================
   // SyncStatus constants
   // ==========================================================================
@@ -181,6 +243,37 @@ describe('OfflineSyncService', () => {
       expect(mockDelete).toHaveBeenCalledWith(ops[0])
     })
 
+    it('resolves reconciled offline IDs before calling update/delete handlers', async () => {
+      const ops: PendingOperation[] = [
+        {
+          id: 5,
+          type: 'update',
+          entity: 'user',
+          entityId: 'offline_1',
+          payload: { name: 'Updated' },
+          timestamp: Date.now(),
+          retries: 0,
+          maxRetries: 3,
+          status: 'pending',
+        },
+      ]
+      mockGetPendingOperations.mockResolvedValue(ops)
+      mockResolveId.mockResolvedValue('42')
+
+      const mockUpdate = vi.fn().mockResolvedValue(undefined)
+      offlineSyncService.registerHandler('user', {
+        create: vi.fn(),
+        update: mockUpdate,
+        delete: vi.fn(),
+      })
+
+      await offlineSyncService.sync()
+
+      expect(mockResolveId).toHaveBeenCalledWith('offline_1')
+      expect(mockUpdate).toHaveBeenCalledWith({ ...ops[0], entityId: '42' })
+      expect(mockDeletePendingOperation).toHaveBeenCalledWith(5)
+    })
+
     it('skips operations with no registered handler', async () => {
       const ops: PendingOperation[] = [
         {
@@ -219,7 +312,7 @@ describe('OfflineSyncService', () => {
       mockGetPendingOperations.mockResolvedValue(ops)
 
       offlineSyncService.registerHandler('user', {
-        create: vi.fn().mockRejectedValue(new Error('API Error')),
+        create: vi.fn().mockRejectedValue(AppError.network('API Error')),
         update: vi.fn(),
         delete: vi.fn(),
       })
@@ -233,6 +326,105 @@ describe('OfflineSyncService', () => {
       }))
     })
 
+    it('retries a retryable failure with jittered backoff', async () => {
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+      vi.spyOn(Math, 'random').mockReturnValue(1)
+      const ops: PendingOperation[] = [
+        {
+          id: 6,
+          type: 'create',
+          entity: 'user',
+          entityId: 'u1',
+          payload: null,
+          timestamp: Date.now(),
+          retries: 1,
+          maxRetries: 3,
+          status: 'pending',
+        },
+      ]
+      mockGetPendingOperations.mockResolvedValue(ops)
+
+      offlineSyncService.registerHandler('user', {
+        create: vi.fn().mockRejectedValue(AppError.server('Service unavailable')),
+        update: vi.fn(),
+        delete: vi.fn(),
+      })
+
+      await offlineSyncService.sync()
+
+      // Second attempt: INITIAL_DELAY * 2
+      expect(mockUpdatePendingOperation).toHaveBeenCalledWith(6, {
+        status: 'pending',
+        retries: 2,
+        nextAttemptAt: Date.now() + 2000,
+      })
+    })
+
+    it('moves a non-retryable failure straight to the dead-letter queue', async () => {
+      const op: PendingOperation = {
+        id: 7,
+        type: 'create',
+        entity: 'user',
+        entityId: 'u1',
+        payload: { email: 'bad' },
+        timestamp: Date.now(),
+        retries: 0,
+        maxRetries: 3,
+        status: 'pending',
+      }
+      mockGetPendingOperations.mockResolvedValue([op])
+      mockGetFailedOperations.mockResolvedValue([{ ...op, status: 'failed', retries: 1, error: 'Invalid email' }])
+
+      offlineSyncService.registerHandler('user', {
+        create: vi.fn().mockRejectedValue(AppError.validation('Invalid email')),
+        update: vi.fn(),
+        delete: vi.fn(),
+      })
+
+      let deadLetters: PendingOperation[] = []
+      const sub = offlineSyncService.deadLetters$.subscribe((ops) => (deadLetters = ops))
+
+      await offlineSyncService.sync()
+
+      expect(mockUpdatePendingOperation).toHaveBeenCalledWith(7, {
+        status: 'failed',
+        retries: 1,
+        error: 'Invalid email',
+      })
+      expect(deadLetters).toHaveLength(1)
+      expect(offlineSyncService.getStats().failedCount).toBe(1)
+
+      sub.unsubscribe()
+    })
+
+    it('skips operations still backing off and retries them when due', async () => {
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+      const create = vi.fn().mockResolvedValue(undefined)
+      offlineSyncService.registerHandler('user', { create, update: vi.fn(), delete: vi.fn() })
+      mockGetPendingOperations.mockResolvedValue([
+        {
+          id: 8,
+          type: 'create',
+          entity: 'user',
+          entityId: 'u1',
+          payload: null,
+          timestamp: Date.now(),
+          retries: 1,
+          maxRetries: 3,
+          status: 'pending',
+          nextAttemptAt: Date.now() + 5000,
+        },
+      ])
+
+      await offlineSyncService.sync()
+
+      expect(create).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(5000)
+
+      expect(create).toHaveBeenCalledTimes(1)
+    })
+
     it('retries operation when retries not exhausted', async () => {
       const ops: PendingOperation[] = [
         {
@@ -250,7 +442,7 @@ describe('OfflineSyncService', () => {
       mockGetPendingOperations.mockResolvedValue(ops)
 
       offlineSyncService.registerHandler('user', {
-        create: vi.fn().mockRejectedValue(new Error('Temporary Error')),
+        create: vi.fn().mockRejectedValue(AppError.network('Temporary Error')),
         update: vi.fn(),
         delete: vi.fn(),
       })
@@ -374,3 +566,389 @@ describe('OfflineSyncService', () => {
     })
   })
 })
+
+// =============================================================================
+// Conflict handling
+// =============================================================================
+
+describe('OfflineSyncService conflicts', () => {
+  const updateOp: PendingOperation = {
+    id: 11,
+    type: 'update',
+    entity: 'user',
+    entityId: '42',
+    payload: { firstName: 'Johnny' },
+    timestamp: Date.now(),
+    retries: 0,
+    maxRetries: 3,
+    status: 'pending',
+  }
+
+  const conflictDetails = {
+    entity: 'user',
+    entityId: '42',
+    baseVersion: '2025-01-01T00:00:00.000Z',
+    serverVersion: '2025-01-02T00:00:00.000Z',
+    base: { firstName: 'John', lastName: 'Doe' },
+    local: { firstName: 'Johnny' },
+    server: { firstName: 'John', lastName: 'Smith' },
+  }
+
+  const mockAcceptServer = vi.fn().mockResolvedValue(undefined)
+
+  const registerConflictingHandler = () => {
+    offlineSyncService.registerHandler('user', {
+      create: vi.fn(),
+      update: vi.fn().mockRejectedValue(AppError.conflict('User was modified on the server', conflictDetails)),
+      delete: vi.fn(),
+      acceptServer: mockAcceptServer,
+    })
+  }
+
+  const latestConflicts = () => {
+    let conflicts: SyncConflict[] = []
+    offlineSyncService.conflicts$.subscribe((c) => (conflicts = c)).unsubscribe()
+    return conflicts
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockIsCurrentlyOnline.mockReturnValue(true)
+    mockGetPendingOperations.mockResolvedValue([updateOp])
+    mockGetPendingCount.mockResolvedValue(0)
+    mockResolveId.mockImplementation((id: string) => Promise.resolve(id))
+    offlineSyncService.resetStats()
+    registerConflictingHandler()
+  })
+
+  it('passes the conflict with both versions to the resolver', async () => {
+    mockResolveConflictStrategy.mockReturnValue({ type: 'server' })
+
+    await offlineSyncService.sync()
+
+    expect(mockResolveConflictStrategy).toHaveBeenCalledWith(
+      expect.objectContaining({ ...conflictDetails, operationId: 11 })
+    )
+  })
+
+  it('does not count a conflict as a failed attempt', async () => {
+    mockResolveConflictStrategy.mockReturnValue({ type: 'server' })
+
+    await offlineSyncService.sync()
+
+    expect(mockUpdatePendingOperation).not.toHaveBeenCalledWith(11, expect.objectContaining({ retries: 1 }))
+    expect(offlineSyncService.getStats().failedCount).toBe(0)
+  })
+
+  it('server-wins drops the operation and refreshes local state', async () => {
+    mockResolveConflictStrategy.mockReturnValue({ type: 'server' })
+
+    await offlineSyncService.sync()
+
+    expect(mockAcceptServer).toHaveBeenCalledWith(expect.objectContaining({ operationId: 11 }))
+    expect(mockDeletePendingOperation).toHaveBeenCalledWith(11)
+  })
+
+  it('server-wins drops the operation even if the server copy cannot be reloaded', async () => {
+    mockResolveConflictStrategy.mockReturnValue({ type: 'server' })
+    mockAcceptServer.mockRejectedValueOnce(AppError.network('Server not responding'))
+    mockGetPendingOperations.mockResolvedValueOnce([updateOp, { ...updateOp, id: 12 }])
+
+    await offlineSyncService.sync()
+
+    expect(mockDeletePendingOperation).toHaveBeenCalledWith(11)
+    expect(mockAcceptServer).toHaveBeenCalledTimes(2)
+    expect(offlineSyncService.currentStatus.value).toBe(SyncStatus.SUCCESS)
+  })
+
+  it('re-queues the operation when the resolution cannot be applied', async () => {
+    mockResolveConflictStrategy.mockReturnValue({ type: 'defer' })
+    // Marked 'processing', then parking the conflict fails
+    mockUpdatePendingOperation.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('QuotaExceededError'))
+
+    await offlineSyncService.sync()
+
+    expect(mockUpdatePendingOperation).toHaveBeenLastCalledWith(11, { status: 'pending' })
+    expect(offlineSyncService.currentStatus.value).toBe(SyncStatus.SUCCESS)
+  })
+
+  it('client-wins re-bases the operation on the server version', async () => {
+    mockResolveConflictStrategy.mockReturnValue({ type: 'client', payload: { firstName: 'Johnny' } })
+
+    await offlineSyncService.sync()
+
+    expect(mockUpdatePendingOperation).toHaveBeenCalledWith(11, {
+      status: 'pending',
+      payload: { firstName: 'Johnny' },
+      baseVersion: '2025-01-02T00:00:00.000Z',
+      base: { firstName: 'John', lastName: 'Smith' },
+      conflict: undefined,
+    })
+    expect(mockDeletePendingOperation).not.toHaveBeenCalled()
+  })
+
+  it('ask-user parks the operation and publishes the conflict', async () => {
+    mockResolveConflictStrategy.mockReturnValue({ type: 'defer' })
+    const events: string[] = []
+    const sub = offlineSyncService.events$.subscribe((e) => events.push(e.type))
+
+    await offlineSyncService.sync()
+
+    expect(mockUpdatePendingOperation).toHaveBeenCalledWith(11, {
+      status: 'conflict',
+      conflict: expect.objectContaining({ operationId: 11 }),
+    })
+    expect(latestConflicts()).toHaveLength(1)
+    expect(events).toContain('conflict')
+    sub.unsubscribe()
+  })
+
+  it('resolves a parked conflict on user request', async () => {
+    mockResolveConflictStrategy.mockReturnValue({ type: 'defer' })
+    await offlineSyncService.sync()
+    mockGetPendingOperations.mockResolvedValue([])
+
+    await offlineSyncService.resolveConflict(11, { type: 'server' })
+
+    expect(mockAcceptServer).toHaveBeenCalled()
+    expect(mockDeletePendingOperation).toHaveBeenCalledWith(11)
+    expect(latestConflicts()).toHaveLength(0)
+  })
+
+  it('throws when resolving an unknown conflict', async () => {
+    await expect(offlineSyncService.resolveConflict(999, { type: 'server' })).rejects.toThrow(
+      'No conflict for operation: 999'
+    )
+  })
+
+  it('treats a conflict error without details as a regular failure', async () => {
+    offlineSyncService.registerHandler('user', {
+      create: vi.fn(),
+      update: vi.fn().mockRejectedValue(AppError.conflict('Resource conflict')),
+      delete: vi.fn(),
+    })
+
+    await offlineSyncService.sync()
+
+    expect(mockResolveConflictStrategy).not.toHaveBeenCalled()
+    expect(mockUpdatePendingOperation).toHaveBeenCalledWith(11, {
+      status: 'failed',
+      retries: 1,
+      error: 'Resource conflict',
+    })
+  })
+})
+
+// =============================================================================
+// Dead letters
+// =============================================================================
+
+describe('OfflineSyncService dead letters', () => {
+  const failedOp: PendingOperation = {
+    id: 21,
+    type: 'update',
+    entity: 'user',
+    entityId: '42',
+    payload: { email: 'bad' },
+    timestamp: Date.now(),
+    retries: 3,
+    maxRetries: 3,
+    status: 'failed',
+    error: 'Invalid email',
+  }
+
+  const mockDiscard = vi.fn().mockResolvedValue(undefined)
+
+  const latestDeadLetters = () => {
+    let deadLetters: PendingOperation[] = []
+    offlineSyncService.deadLetters$.subscribe((ops) => (deadLetters = ops)).unsubscribe()
+    return deadLetters
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockIsCurrentlyOnline.mockReturnValue(true)
+    mockGetPendingOperations.mockResolvedValue([])
+    mockGetPendingCount.mockResolvedValue(0)
+    mockGetFailedOperations.mockResolvedValue([failedOp])
+    offlineSyncService.registerHandler('user', {
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      discard: mockDiscard,
+    })
+    // Reload dead letters from the queue
+    await offlineSyncService.clearFailed()
+  })
+
+  it('publishes failed operations', () => {
+    expect(latestDeadLetters()).toEqual([failedOp])
+  })
+
+  it('re-queues a dead letter with an edited payload', async () => {
+    await offlineSyncService.retryDeadLetter(21, { email: 'good@example.com' })
+
+    expect(mockUpdatePendingOperation).toHaveBeenCalledWith(21, {
+      status: 'pending',
+      retries: 0,
+      error: undefined,
+      nextAttemptAt: undefined,
+      payload: { email: 'good@example.com' },
+    })
+    expect(latestDeadLetters()).toHaveLength(0)
+  })
+
+  it('keeps the payload when retrying without edits', async () => {
+    await offlineSyncService.retryDeadLetter(21)
+
+    expect(mockUpdatePendingOperation).toHaveBeenCalledWith(21, expect.not.objectContaining({ payload: expect.anything() }))
+  })
+
+  it('discards a dead letter and lets the handler roll back', async () => {
+    await offlineSyncService.discardDeadLetter(21)
+
+    expect(mockDiscard).toHaveBeenCalledWith(failedOp)
+    expect(mockDeletePendingOperation).toHaveBeenCalledWith(21)
+    expect(latestDeadLetters()).toHaveLength(0)
+  })
+
+  it('discards a dead letter even if the handler cannot roll back', async () => {
+    mockDiscard.mockRejectedValueOnce(new Error('Network Error'))
+
+    await offlineSyncService.discardDeadLetter(21)
+
+    expect(mockDeletePendingOperation).toHaveBeenCalledWith(21)
+    expect(latestDeadLetters()).toHaveLength(0)
+  })
+
+  it('throws for an unknown dead letter', async () => {
+    await expect(offlineSyncService.discardDeadLetter(999)).rejects.toThrow('No failed operation: 999')
+  })
+})
+
+describe('OfflineSyncService cross-tab', () => {
+  let service: typeof offlineSyncService
+
+  const op: PendingOperation = {
+    id: 31,
+    type: 'delete',
+    entity: 'user',
+    entityId: '7',
+    payload: null,
+    timestamp: Date.now(),
+    retries: 0,
+    maxRetries: 3,
+    status: 'pending',
+  }
+
+  // A fresh instance, as the shared one is destroyed after each test above
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    mockIsCurrentlyOnline.mockReturnValue(true)
+    mockGetPendingOperations.mockResolvedValue([])
+    mockGetPendingCount.mockResolvedValue(0)
+    mockGetFailedOperations.mockResolvedValue([])
+    crossTabLeader.next(false)
+    vi.resetModules()
+    service = (await import('./offlineSyncService')).offlineSyncService
+    service.registerHandler('user', { create: vi.fn(), update: vi.fn(), delete: vi.fn() })
+    await vi.waitFor(() => expect(mockGetFailedOperations).toHaveBeenCalled())
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    service.destroy()
+    crossTabLeader.next(true)
+    vi.restoreAllMocks()
+  })
+
+  const networkChange = (isOnline: boolean) => {
+    const onChange = mockNetworkSubscribe.mock.calls.at(-1)?.[0] ?? vi.fn()
+    onChange({ isOnline })
+  }
+
+  it('leaves the reconnect sync to the leader tab', async () => {
+    networkChange(true)
+    await vi.waitFor(() => expect(service.currentStatus.value).toBe(SyncStatus.IDLE))
+
+    expect(mockGetPendingOperations).not.toHaveBeenCalled()
+  })
+
+  it('takes over the queue when it becomes the leader', async () => {
+    crossTabLeader.next(true)
+
+    await vi.waitFor(() => expect(mockGetPendingOperations).toHaveBeenCalled())
+  })
+
+  it('re-queues operations the previous leader left in flight before syncing', async () => {
+    mockRequeueProcessingOperations.mockResolvedValue(1)
+    mockGetPendingOperations.mockResolvedValue([op])
+
+    crossTabLeader.next(true)
+
+    await vi.waitFor(() => expect(mockDeletePendingOperation).toHaveBeenCalledWith(31))
+    expect(mockRequeueProcessingOperations.mock.invocationCallOrder[0]).toBeLessThan(
+      mockGetPendingOperations.mock.invocationCallOrder[0]
+    )
+  })
+
+  it('re-queues interrupted operations on startup only in the leader tab', async () => {
+    expect(mockRequeueProcessingOperations).not.toHaveBeenCalled()
+    service.destroy()
+
+    crossTabLeader.next(true)
+    vi.resetModules()
+    service = (await import('./offlineSyncService')).offlineSyncService
+
+    await vi.waitFor(() => expect(mockGetFailedOperations).toHaveBeenCalled())
+    expect(mockRequeueProcessingOperations.mock.invocationCallOrder[0]).toBeLessThan(
+      mockGetPendingCount.mock.invocationCallOrder[0]
+    )
+  })
+
+  it('reloads the queue state when another tab changes it', async () => {
+    mockGetPendingCount.mockResolvedValue(2)
+
+    crossTabMessages.next({ type: 'sync:queue-changed' })
+
+    await vi.waitFor(() => expect(service.getStats().pendingCount).toBe(2))
+    expect(mockGetConflictedOperations).toHaveBeenCalled()
+    expect(mockGetFailedOperations).toHaveBeenCalled()
+    expect(mockGetPendingOperations).not.toHaveBeenCalled()
+  })
+
+  it('flushes operations queued by another tab on the leader', async () => {
+    crossTabLeader.next(true)
+    await vi.waitFor(() => expect(service.currentStatus.value).toBe(SyncStatus.SUCCESS))
+    vi.clearAllMocks()
+    mockGetPendingCount.mockResolvedValue(1)
+    mockGetPendingOperations.mockResolvedValue([op])
+
+    crossTabMessages.next({ type: 'sync:queue-changed' })
+
+    await vi.waitFor(() => expect(mockDeletePendingOperation).toHaveBeenCalledWith(31))
+  })
+
+  it('tells the other tabs once operations were synced', async () => {
+    await service.sync()
+    expect(mockCrossTabPublish).not.toHaveBeenCalled()
+
+    mockGetPendingOperations.mockResolvedValue([op])
+    await service.sync()
+    expect(mockCrossTabPublish).toHaveBeenCalledWith({ type: 'sync:queue-changed' })
+  })
+
+  it('tells the other tabs when this tab queued an operation', async () => {
+    mockGetPendingCount.mockResolvedValue(1)
+
+    await service.notifyQueueChanged()
+
+    expect(service.hasPending.value).toBe(true)
+    expect(mockCrossTabPublish).toHaveBeenCalledWith({ type: 'sync:queue-changed' })
+  })
+})
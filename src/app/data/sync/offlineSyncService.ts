@@ -1,13 +1,23 @@
 // =============================================================================
 // Offline Sync Service
 // =============================================================================
+// Replays the offline queue shared by all tabs. Only the leader tab syncs on
+// its own; the other tabs keep their counts, conflicts and dead letters in
+// step through the cross-tab bus.
+// =============================================================================
 
 import { signal, computed } from '@preact/signals-react'
-import { Subject, interval, type Subscription } from 'rxjs'
-import { filter } from 'rxjs/operators'
+import { Subject, BehaviorSubject, interval, type Subscription } from 'rxjs'
+import { filter, skip } from 'rxjs/operators'
 
+import { computeBackoffDelay } from '@/app/core/utils/backoff'
+import { AppError, ErrorCategory } from '@/app/domain/entities/app-error.model'
+import type { SyncConflict, ConflictResolution } from '@/app/domain/entities/sync-conflict.model'
 import { networkStatusService, type NetworkInfo } from '@/app/domain/services/networkStatusService'
 import { indexedDbService, type PendingOperation } from '../storage/indexedDbService'
+import { idMappingService } from './idMappingService'
+import { conflictResolver } from './conflictResolver'
+import { crossTabService } from './crossTabService'
 
 /**
  * Sync status
@@ -25,12 +35,34 @@ export type SyncStatus = (typeof SyncStatus)[keyof typeof SyncStatus]
  * Sync event
  */
 export interface SyncEvent {
-  type: 'start' | 'complete' | 'error' | 'operation_synced' | 'operation_failed'
+  type:
+    | 'start'
+    | 'complete'
+    | 'error'
+    | 'operation_synced'
+    | 'operation_failed'
+    | 'conflict'
+    | 'conflict_resolved'
+    | 'retry_scheduled'
   operation?: PendingOperation
+  conflict?: SyncConflict
   error?: Error
   timestamp: Date
 }
 
+/**
+ * Sync handlers for an entity type
+ */
+export interface SyncHandler {
+  create: (op: PendingOperation) => Promise<void>
+  update: (op: PendingOperation) => Promise<void>
+  delete: (op: PendingOperation) => Promise<void>
+  /** Refresh local state after a conflicting change was dropped in favor of the server */
+  acceptServer?: (conflict: SyncConflict) => Promise<void>
+  /** Roll back local state after a failed operation was discarded */
+  discard?: (op: PendingOperation) => Promise<void>
+}
+
 /**
  * Sync statistics
  */
@@ -56,15 +88,18 @@ class OfflineSyncService {
   // Event subject
   private readonly syncEvents = new Subject<SyncEvent>()
 
+  // Conflicts waiting for a user decision
+  private readonly conflictsSubject = new BehaviorSubject<SyncConflict[]>([])
+
+  // Operations that exhausted their retries or failed permanently
+  private readonly deadLettersSubject = new BehaviorSubject<PendingOperation[]>([])
+
+  // Timer for the next backed-off retry
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private retryAt: number | null = null
+
   // Sync handlers by entity type
-  private readonly handlers = new Map<
-    string,
-    {
-      create: (op: PendingOperation) => Promise<void>
-      update: (op: PendingOperation) => Promise<void>
-      delete: (op: PendingOperation) => Promise<void>
-    }
-  >()
+  private readonly handlers = new Map<string, SyncHandler>()
 
   // Subscriptions
   private subscriptions: Subscription[] = []
@@ -84,7 +119,7 @@ class OfflineSyncService {
   private initialize(): void {
     // Listen for network status changes
     const networkSub = networkStatusService.onChange$.subscribe((info: NetworkInfo) => {
-      if (info.isOnline) {
+      if (info.isOnline && crossTabService.isLeader) {
         console.log('[Sync] Network online - starting sync')
         void this.sync()
       }
@@ -93,28 +128,71 @@ class OfflineSyncService {
 
     // Periodic sync check (every 30 seconds when online)
     const periodicSub = interval(30000)
-      .pipe(filter(() => networkStatusService.isCurrentlyOnline() && this.hasPending.value))
+      .pipe(
+        filter(
+          () => crossTabService.isLeader && networkStatusService.isCurrentlyOnline() && this.hasPending.value
+        )
+      )
       .subscribe(() => {
         console.log('[Sync] Periodic sync check')
         void this.sync()
       })
     this.subscriptions.push(periodicSub)
 
-    // Update pending count on init
-    void this.updatePendingCount()
+    // Take over the queue when the leader tab closes
+    const leaderSub = crossTabService.isLeader$
+      .pipe(
+        skip(1),
+        filter((isLeader) => isLeader)
+      )
+      .subscribe(() => {
+        console.log('[Sync] Became leader tab - starting sync')
+        void this.requeueInterrupted().then(() => this.sync())
+      })
+    this.subscriptions.push(leaderSub)
+
+    // Another tab queued, synced or resolved operations
+    const queueSub = crossTabService.on('sync:queue-changed').subscribe(() => {
+      void this.handleRemoteQueueChange()
+    })
+    this.subscriptions.push(queueSub)
+
+    // Update pending count and restore parked conflicts and dead letters on init
+    void this.restoreQueue()
   }
 
   /**
-   * Register sync handler for an entity type
+   * Load the queue state on init
+   * The leader first re-queues operations a closed tab left in flight
    */
-  registerHandler(
-    entity: string,
-    handlers: {
-      create: (op: PendingOperation) => Promise<void>
-      update: (op: PendingOperation) => Promise<void>
-      delete: (op: PendingOperation) => Promise<void>
+  private async restoreQueue(): Promise<void> {
+    if (crossTabService.isLeader) {
+      await this.requeueInterrupted()
     }
-  ): void {
+    await Promise.all([this.updatePendingCount(), this.loadConflicts(), this.loadDeadLetters()])
+  }
+
+  /**
+   * Re-queue operations left 'processing' by a tab that stopped mid-sync
+   * Skipped while this tab is syncing, as its own operations are in flight
+   */
+  private async requeueInterrupted(): Promise<void> {
+    if (this.status.value === SyncStatus.SYNCING) return
+
+    try {
+      const requeued = await indexedDbService.requeueProcessingOperations()
+      if (requeued > 0) {
+        console.log(`[Sync] Re-queued ${requeued} interrupted operations`)
+      }
+    } catch (error) {
+      console.error('[Sync] Failed to re-queue interrupted operations:', error)
+    }
+  }
+
+  /**
+   * Register sync handler for an entity type
+   */
+  registerHandler(entity: string, handlers: SyncHandler): void {
     this.handlers.set(entity, handlers)
   }
 
@@ -122,6 +200,8 @@ class OfflineSyncService {
    * Start synchronization
    */
   async sync(): Promise<void> {
+    let processed = 0
+
     if (this.status.value === SyncStatus.SYNCING) {
       console.log('[Sync] Already syncing, skipping')
       return
@@ -136,12 +216,17 @@ class OfflineSyncService {
       this.status.value = SyncStatus.SYNCING
       this.emitEvent({ type: 'start', timestamp: new Date() })
 
-      const operations = await indexedDbService.getPendingOperations()
+      // Operations still backing off wait for their retry timer
+      const now = Date.now()
+      const operations = (await indexedDbService.getPendingOperations()).filter(
+        (op) => (op.nextAttemptAt ?? 0) <= now
+      )
       console.log(`[Sync] Found ${operations.length} pending operations`)
 
       for (const op of operations) {
         await this.syncOperation(op)
       }
+      processed = operations.length
 
       this.status.value = SyncStatus.SUCCESS
       this.lastSyncTime.value = new Date()
@@ -152,6 +237,12 @@ class OfflineSyncService {
       this.emitEvent({ type: 'error', error: error as Error, timestamp: new Date() })
     } finally {
       await this.updatePendingCount()
+      await this.scheduleNextRetry()
+
+      // Idle passes stay quiet so two leaders (no Web Locks) cannot ping-pong
+      if (processed > 0) {
+        this.publishQueueChange()
+      }
     }
   }
 
@@ -176,10 +267,10 @@ class OfflineSyncService {
           await handler.create(op)
           break
         case 'update':
-          await handler.update(op)
+          await handler.update(await this.resolveEntityId(op))
           break
         case 'delete':
-          await handler.delete(op)
+          await handler.delete(await this.resolveEntityId(op))
           break
       }
 
@@ -193,17 +284,46 @@ class OfflineSyncService {
         timestamp: new Date(),
       })
     } catch (error) {
+      if (error instanceof AppError && error.category === ErrorCategory.CONFLICT && error.details) {
+        try {
+          await this.handleConflict(op, error.details)
+        } catch (resolveError) {
+          // Leave the operation for the next pass instead of stranding it in 'processing'
+          console.error('[Sync] Failed to resolve conflict:', op, resolveError)
+          await indexedDbService.updatePendingOperation(op.id!, { status: 'pending' })
+        }
+        return
+      }
+
       console.error(`[Sync] Operation failed:`, op, error)
 
       const retries = op.retries + 1
-      if (retries >= op.maxRetries) {
-        // Mark as failed
+      const retryable = error instanceof AppError && error.isRetryable()
+
+      if (retryable && retries < op.maxRetries) {
+        // Retry later with exponential backoff
+        const nextAttemptAt = Date.now() + computeBackoffDelay(retries)
+        await indexedDbService.updatePendingOperation(op.id!, {
+          status: 'pending',
+          retries,
+          nextAttemptAt,
+        })
+
+        this.emitEvent({
+          type: 'retry_scheduled',
+          operation: { ...op, retries, nextAttemptAt },
+          error: error as Error,
+          timestamp: new Date(),
+        })
+      } else {
+        // Move to the dead-letter queue
         await indexedDbService.updatePendingOperation(op.id!, {
           status: 'failed',
           retries,
           error: (error as Error).message,
         })
         this.failedCount.value++
+        await this.loadDeadLetters()
 
         this.emitEvent({
           type: 'operation_failed',
@@ -211,16 +331,241 @@ class OfflineSyncService {
           error: error as Error,
           timestamp: new Date(),
         })
-      } else {
-        // Retry later
-        await indexedDbService.updatePendingOperation(op.id!, {
+      }
+    }
+  }
+
+  /**
+   * Arm the retry timer for the earliest backed-off operation
+   */
+  private async scheduleNextRetry(): Promise<void> {
+    const operations = await indexedDbService.getPendingOperations()
+    const times = operations
+      .filter((op) => op.nextAttemptAt !== undefined && this.handlers.has(op.entity))
+      .map((op) => op.nextAttemptAt!)
+
+    if (times.length === 0) return
+
+    const at = Math.min(...times)
+    if (this.retryTimer && this.retryAt !== null && this.retryAt <= at) return
+
+    this.clearRetryTimer()
+    this.retryAt = at
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.retryAt = null
+      void this.sync()
+    }, Math.max(0, at - Date.now()))
+  }
+
+  /**
+   * Cancel the pending retry timer
+   */
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+    }
+    this.retryTimer = null
+    this.retryAt = null
+  }
+
+  /**
+   * Apply the configured strategy to a conflicting operation
+   */
+  private async handleConflict(op: PendingOperation, details: Record<string, unknown>): Promise<void> {
+    const conflict: SyncConflict = {
+      ...(details as Omit<SyncConflict, 'operationId' | 'detectedAt'>),
+      operationId: op.id!,
+      detectedAt: new Date(),
+    }
+
+    console.warn(`[Sync] Conflict on ${conflict.entity}:${conflict.entityId}`)
+    await this.applyResolution(conflict, conflictResolver.resolve(conflict))
+  }
+
+  /**
+   * Apply a conflict resolution to the queued operation
+   */
+  private async applyResolution(conflict: SyncConflict, resolution: ConflictResolution): Promise<void> {
+    switch (resolution.type) {
+      case 'server':
+        // Drop the change first: reloading the server copy is best effort
+        await indexedDbService.deletePendingOperation(conflict.operationId)
+        try {
+          await this.handlers.get(conflict.entity)?.acceptServer?.(conflict)
+        } catch (error) {
+          console.warn(`[Sync] Failed to reload ${conflict.entity}:${conflict.entityId} from the server:`, error)
+        }
+        break
+
+      case 'client': {
+        // Re-base the change on the server version so the next attempt passes the version check
+        const fields = Object.keys({ ...conflict.base, ...conflict.local })
+        await indexedDbService.updatePendingOperation(conflict.operationId, {
           status: 'pending',
-          retries,
+          payload: resolution.payload,
+          baseVersion: conflict.serverVersion,
+          base: Object.fromEntries(fields.map((field) => [field, conflict.server[field]])),
+          conflict: undefined,
         })
+        break
       }
+
+      case 'defer':
+        await indexedDbService.updatePendingOperation(conflict.operationId, {
+          status: 'conflict',
+          conflict,
+        })
+        this.setConflicts([...this.withoutConflict(conflict.operationId), conflict])
+        this.emitEvent({ type: 'conflict', conflict, timestamp: new Date() })
+        return
+    }
+
+    this.setConflicts(this.withoutConflict(conflict.operationId))
+    this.emitEvent({ type: 'conflict_resolved', conflict, timestamp: new Date() })
+  }
+
+  /**
+   * Resolve a conflict that was parked for the user
+   */
+  async resolveConflict(operationId: number, resolution: ConflictResolution): Promise<void> {
+    const conflict = this.conflictsSubject.value.find((c) => c.operationId === operationId)
+    if (!conflict) {
+      throw new Error(`No conflict for operation: ${operationId}`)
+    }
+
+    await this.applyResolution(conflict, resolution)
+    await this.updatePendingCount()
+    this.publishQueueChange()
+
+    if (resolution.type === 'client') {
+      void this.sync()
     }
   }
 
+  /**
+   * Re-queue a dead-lettered operation, optionally with an edited payload
+   */
+  async retryDeadLetter(operationId: number, payload?: unknown): Promise<void> {
+    const op = this.findDeadLetter(operationId)
+
+    await indexedDbService.updatePendingOperation(operationId, {
+      status: 'pending',
+      retries: 0,
+      error: undefined,
+      nextAttemptAt: undefined,
+      ...(payload === undefined ? {} : { payload }),
+    })
+    this.failedCount.value = Math.max(0, this.failedCount.value - 1)
+
+    this.deadLettersSubject.next(this.withoutDeadLetter(op.id!))
+    await this.updatePendingCount()
+    this.publishQueueChange()
+    void this.sync()
+  }
+
+  /**
+   * Drop a dead-lettered operation and let its handler roll back local state
+   * The operation is dropped even if the rollback fails
+   */
+  async discardDeadLetter(operationId: number): Promise<void> {
+    const op = this.findDeadLetter(operationId)
+
+    try {
+      await this.handlers.get(op.entity)?.discard?.(op)
+    } catch (error) {
+      console.warn(`[Sync] Failed to roll back discarded operation ${operationId}:`, error)
+    }
+    await indexedDbService.deletePendingOperation(operationId)
+    this.failedCount.value = Math.max(0, this.failedCount.value - 1)
+
+    this.deadLettersSubject.next(this.withoutDeadLetter(op.id!))
+    this.publishQueueChange()
+  }
+
+  /**
+   * Look up a dead letter or throw
+   */
+  private findDeadLetter(operationId: number): PendingOperation {
+    const op = this.deadLettersSubject.value.find((o) => o.id === operationId)
+    if (!op) {
+      throw new Error(`No failed operation: ${operationId}`)
+    }
+    return op
+  }
+
+  /**
+   * Current dead letters minus the given operation
+   */
+  private withoutDeadLetter(operationId: number): PendingOperation[] {
+    return this.deadLettersSubject.value.filter((op) => op.id !== operationId)
+  }
+
+  /**
+   * Restore dead letters persisted in the queue
+   */
+  private async loadDeadLetters(): Promise<void> {
+    this.deadLettersSubject.next(await indexedDbService.getFailedOperations())
+  }
+
+  /**
+   * Restore conflicts persisted in the queue
+   */
+  private async loadConflicts(): Promise<void> {
+    const operations = await indexedDbService.getConflictedOperations()
+    this.setConflicts(operations.flatMap((op) => (op.conflict ? [op.conflict] : [])))
+  }
+
+  /**
+   * Current conflicts minus the given operation
+   */
+  private withoutConflict(operationId: number): SyncConflict[] {
+    return this.conflictsSubject.value.filter((c) => c.operationId !== operationId)
+  }
+
+  /**
+   * Publish the conflict list
+   */
+  private setConflicts(conflicts: SyncConflict[]): void {
+    this.conflictsSubject.next(conflicts)
+  }
+
+  /**
+   * Resolve an offline entity ID that was reconciled earlier in this sync pass
+   * (operations are read before the create that assigns the server ID runs)
+   */
+  private async resolveEntityId(op: PendingOperation): Promise<PendingOperation> {
+    const entityId = await idMappingService.resolve(op.entityId)
+    return entityId === op.entityId ? op : { ...op, entityId }
+  }
+
+  /**
+   * Refresh the queue state after another tab changed the queue
+   * The leader flushes operations queued by follower tabs
+   */
+  private async handleRemoteQueueChange(): Promise<void> {
+    await Promise.all([this.updatePendingCount(), this.loadConflicts(), this.loadDeadLetters()])
+
+    if (crossTabService.isLeader && this.hasPending.value) {
+      void this.sync()
+    }
+  }
+
+  /**
+   * Tell the other tabs the queue changed
+   */
+  private publishQueueChange(): void {
+    crossTabService.publish({ type: 'sync:queue-changed' })
+  }
+
+  /**
+   * Refresh the pending count after queueing an operation and tell the other tabs
+   */
+  async notifyQueueChanged(): Promise<void> {
+    await this.updatePendingCount()
+    this.publishQueueChange()
+  }
+
   /**
    * Update pending count
    */
@@ -254,6 +599,20 @@ class OfflineSyncService {
     return this.syncEvents.asObservable()
   }
 
+  /**
+   * Observable for conflicts waiting for a user decision
+   */
+  get conflicts$() {
+    return this.conflictsSubject.asObservable()
+  }
+
+  /**
+   * Observable for operations that failed permanently
+   */
+  get deadLetters$() {
+    return this.deadLettersSubject.asObservable()
+  }
+
   /**
    * Force sync immediately
    */
@@ -267,6 +626,8 @@ class OfflineSyncService {
   async clearFailed(): Promise<void> {
     await indexedDbService.cleanupOldOperations(0) // Clear all non-pending
     this.failedCount.value = 0
+    await this.loadDeadLetters()
+    this.publishQueueChange()
   }
 
   /**
@@ -284,6 +645,7 @@ class OfflineSyncService {
   destroy(): void {
     this.subscriptions.forEach((sub) => sub.unsubscribe())
     this.subscriptions = []
+    this.clearRetryTimer()
   }
 }
 
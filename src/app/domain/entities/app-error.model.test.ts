@@ -156,6 +156,16 @@ describe('AppError', () => {
     })
   })
 
+  describe('rateLimited', () => {
+    it('creates a retryable rate limit error carrying the server delay', () => {
+      const error = AppError.rateLimited('Slow down', 2000)
+
+      expect(error.code).toBe('ERR_RATE_LIMITED')
+      expect(error.details).toEqual({ retryAfter: 2000 })
+      expect(error.isRetryable()).toBe(true)
+    })
+  })
+
   // ==========================================================================
   // fromHttpStatus
   // ==========================================================================
@@ -196,6 +206,11 @@ describe('AppError', () => {
       expect(error.category).toBe(ErrorCategory.CONFLICT)
     })
 
+    it('maps 429 to rate limit error', () => {
+      const error = AppError.fromHttpStatus(429)
+      expect(error.code).toBe('ERR_RATE_LIMITED')
+    })
+
     it('maps 500 to server error', () => {
       const error = AppError.fromHttpStatus(500)
       expect(error.category).toBe(ErrorCategory.SERVER)
@@ -145,6 +145,18 @@ export class AppError extends Error {
     })
   }
 
+  /**
+   * Create a rate limit error (HTTP 429)
+   * @param retryAfter Delay in ms requested by the server, if any
+   */
+  static rateLimited(message: string = 'Too many requests', retryAfter: number | null = null): AppError {
+    return new AppError(message, ErrorCategory.SERVER, {
+      severity: ErrorSeverity.WARNING,
+      code: 'ERR_RATE_LIMITED',
+      details: { retryAfter },
+    })
+  }
+
   /**
    * Create from HTTP status code
    */
@@ -160,6 +172,8 @@ export class AppError extends Error {
         return AppError.notFound(message ?? 'Resource')
       case 409:
         return AppError.conflict(message ?? 'Resource conflict')
+      case 429:
+        return AppError.rateLimited(message)
       case 500:
       case 502:
       case 503:
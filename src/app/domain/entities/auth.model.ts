@@ -0,0 +1,52 @@
+// =============================================================================
+// Auth Domain Model
+// =============================================================================
+
+/**
+ * Role assigned to the signed-in user
+ */
+export type UserRole = 'Admin' | 'User' | 'Guest'
+
+/**
+ * Presence shown next to the signed-in user
+ */
+export type PresenceStatus = 'online' | 'away' | 'busy' | 'offline'
+
+/**
+ * Signed-in user
+ */
+export interface AuthUser {
+  id: string
+  email: string
+  firstName: string
+  lastName: string
+  avatar?: string
+  role: UserRole
+  status: PresenceStatus
+}
+
+/**
+ * Tokens issued at login and rotated on refresh
+ */
+export interface AuthTokens {
+  accessToken: string
+  refreshToken: string | null
+  /** Access token expiry (epoch ms) from the JWT `exp` claim, null if unknown */
+  expiresAt: number | null
+}
+
+/**
+ * Authenticated session
+ */
+export interface AuthSession {
+  user: AuthUser
+  tokens: AuthTokens
+}
+
+/**
+ * Password login credentials
+ */
+export interface LoginCredentials {
+  email: string
+  password: string
+}
@@ -0,0 +1,77 @@
+// =============================================================================
+// Calendar Event Domain Model
+// =============================================================================
+
+import type { ListParams } from './pagination.model'
+
+/**
+ * Calendar Event Domain Model
+ * An all-day event runs from local midnight of its first day to local
+ * midnight after its last day
+ */
+export interface CalendarEvent {
+  id: string
+  title: string
+  description: string
+  location: string
+  start: Date
+  end: Date
+  allDay: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * DTO for creating a new event
+ */
+export interface CreateCalendarEventDto {
+  title: string
+  description?: string
+  location?: string
+  start: Date
+  end: Date
+  allDay?: boolean
+}
+
+/**
+ * DTO for updating an existing event
+ */
+export interface UpdateCalendarEventDto {
+  title?: string
+  description?: string
+  location?: string
+  start?: Date
+  end?: Date
+  allDay?: boolean
+}
+
+/**
+ * Validation errors for event fields
+ */
+export interface CalendarEventValidationErrors {
+  title?: string | null
+  description?: string | null
+  location?: string | null
+  start?: string | null
+  end?: string | null
+}
+
+/**
+ * Outcome of an iCalendar import
+ */
+export interface CalendarImportResult {
+  /** Events created (queued when offline) */
+  imported: number
+  /** VEVENTs without a usable title or dates */
+  skipped: number
+}
+
+/**
+ * Event fields a list can be sorted by (indexed for offline queries)
+ */
+export type CalendarEventSortField = 'title' | 'start' | 'end' | 'createdAt' | 'updatedAt'
+
+/**
+ * Events list params
+ */
+export type CalendarEventListParams = ListParams<CalendarEventSortField>
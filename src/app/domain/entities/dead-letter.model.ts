@@ -0,0 +1,18 @@
+// =============================================================================
+// Dead Letter Domain Model
+// =============================================================================
+
+/**
+ * Offline operation that exhausted its retries or failed permanently
+ */
+export interface DeadLetter {
+  operationId: number
+  type: 'create' | 'update' | 'delete'
+  entity: string
+  entityId: string
+  payload: unknown
+  /** Last error reported by the server or handler */
+  error: string | null
+  attempts: number
+  queuedAt: Date
+}
@@ -0,0 +1,13 @@
+// =============================================================================
+// Entity Change Model
+// =============================================================================
+
+import type { PaginatedResponse } from './pagination.model'
+
+/**
+ * Change to an entity, made in this tab or in another one, or a list page
+ * refreshed in the background
+ */
+export type EntityChange<T, TParams> =
+  | { type: 'create' | 'update' | 'delete'; entity: T }
+  | { type: 'list'; params: TParams; search?: string; list: PaginatedResponse<T> }
@@ -0,0 +1,26 @@
+// =============================================================================
+// ID Mapping Model
+// =============================================================================
+
+/**
+ * Prefix for entity IDs assigned on the client while offline
+ */
+export const OFFLINE_ID_PREFIX = 'offline_'
+
+/**
+ * Mapping from a temporary offline ID to the ID assigned by the server
+ * Recorded once an offline create has been acknowledged
+ */
+export interface IdMapping {
+  entity: string
+  tempId: string
+  serverId: string
+  timestamp: number
+}
+
+/**
+ * Check if an ID was assigned on the client while offline
+ */
+export function isOfflineId(id: string): boolean {
+  return id.startsWith(OFFLINE_ID_PREFIX)
+}
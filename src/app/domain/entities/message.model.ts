@@ -0,0 +1,141 @@
+// =============================================================================
+// Message Domain Model
+// =============================================================================
+
+import type { ListParams } from './pagination.model'
+import { isOfflineId } from './id-mapping.model'
+
+/**
+ * Delivery status of a message
+ * - sending: composed offline, waiting in the outbox for the sync queue
+ * - failed: the sync queue gave up delivering it; the user can retry it
+ * - sent: delivered to the server
+ * - read: opened by the recipient
+ */
+export const MessageStatus = {
+  SENDING: 'sending',
+  FAILED: 'failed',
+  SENT: 'sent',
+  READ: 'read',
+} as const
+
+export type MessageStatus = (typeof MessageStatus)[keyof typeof MessageStatus]
+
+/**
+ * Message Domain Model
+ * Names are copied onto the message so conversations read offline
+ */
+export interface Message {
+  id: string
+  /** Conversation between sender and recipient (see conversationIdOf) */
+  conversationId: string
+  senderId: string
+  senderName: string
+  recipientId: string
+  recipientName: string
+  body: string
+  /** When the recipient read the message; unread when null */
+  readAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * DTO for sending a new message
+ */
+export interface CreateMessageDto {
+  senderId: string
+  senderName: string
+  recipientId: string
+  recipientName: string
+  body: string
+}
+
+/**
+ * DTO for updating an existing message (only its read state changes)
+ */
+export interface UpdateMessageDto {
+  readAt?: Date | null
+}
+
+/**
+ * Validation errors for message fields
+ */
+export interface MessageValidationErrors {
+  recipientId?: string | null
+  body?: string | null
+  readAt?: string | null
+}
+
+/**
+ * A message in the outbox, still waiting to be delivered
+ */
+export interface OutboxMessage {
+  message: Message
+  status: typeof MessageStatus.SENDING | typeof MessageStatus.FAILED
+  /** Sync queue operation delivering the message (to retry it once failed) */
+  operationId: number
+  /** Why the last delivery failed; null while sending */
+  error: string | null
+}
+
+/**
+ * Two users' conversation, summarized from its messages
+ */
+export interface Conversation {
+  id: string
+  /** The other user in the conversation */
+  participantId: string
+  participantName: string
+  lastMessage: Message
+  /** Messages to the signed-in user not read yet */
+  unreadCount: number
+}
+
+/**
+ * Message fields a list can be sorted by (indexed for offline queries)
+ */
+export type MessageSortField = 'createdAt' | 'updatedAt'
+
+/**
+ * Message fields a list can be filtered by
+ */
+export type MessageFilter = {
+  conversationId?: string
+  senderId?: string
+  recipientId?: string
+}
+
+/**
+ * Messages list params
+ */
+export type MessageListParams = ListParams<MessageSortField, MessageFilter>
+
+/** Separates the two user IDs of a conversation ID (URL-safe) */
+const CONVERSATION_ID_SEPARATOR = '~'
+
+/**
+ * Conversation ID of two users, the same whoever writes first
+ */
+export function conversationIdOf(userId: string, otherUserId: string): string {
+  return [userId, otherUserId].sort().join(CONVERSATION_ID_SEPARATOR)
+}
+
+/**
+ * The other user of a conversation, or null when the user is not in it
+ */
+export function conversationParticipant(conversationId: string, userId: string): string | null {
+  const users = conversationId.split(CONVERSATION_ID_SEPARATOR)
+  if (users.length !== 2 || !users.includes(userId)) return null
+  return users[0] === userId ? users[1] : users[0]
+}
+
+/**
+ * Delivery status of a message
+ * A message keeps its offline ID until the sync queue delivers it; only the
+ * outbox tells a failed delivery apart (see OutboxMessage)
+ */
+export function messageStatus(message: Message): MessageStatus {
+  if (isOfflineId(message.id)) return MessageStatus.SENDING
+  return message.readAt ? MessageStatus.READ : MessageStatus.SENT
+}
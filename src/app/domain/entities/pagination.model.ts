@@ -0,0 +1,56 @@
+// =============================================================================
+// Pagination Model
+// =============================================================================
+
+/**
+ * Paginated response
+ */
+export interface PaginatedResponse<T> {
+  data: T[]
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+/**
+ * Pagination params
+ */
+export interface PaginationParams {
+  page: number
+  pageSize: number
+}
+
+/**
+ * Sort direction
+ */
+export type SortOrder = 'asc' | 'desc'
+
+/**
+ * Equality filter on entity fields (undefined fields are not filtered)
+ */
+export type ListFilter = Record<string, string | number | boolean | undefined>
+
+/**
+ * Bounds on a date field: `from` inclusive, `to` exclusive; a missing bound is open
+ */
+export interface DateBounds {
+  from?: Date
+  to?: Date
+}
+
+/**
+ * Date bounds on entity fields (undefined fields are not filtered)
+ */
+export type ListRange = Record<string, DateBounds | undefined>
+
+/**
+ * List params for an entity sortable by TSortField and filtered by TFilter
+ */
+export interface ListParams<TSortField extends string = string, TFilter extends ListFilter = ListFilter>
+  extends PaginationParams {
+  sortBy?: TSortField
+  sortOrder?: SortOrder
+  filter?: TFilter
+  range?: ListRange
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { ROLE_PERMISSIONS, hasPermission } from './permission.model'
+
+describe('permission.model', () => {
+  describe('ROLE_PERMISSIONS', () => {
+    it('should grant Admin every permission', () => {
+      const all = new Set(Object.values(ROLE_PERMISSIONS).flat())
+      expect(new Set(ROLE_PERMISSIONS.Admin)).toEqual(all)
+    })
+
+    it('should give Guest a subset of User', () => {
+      for (const permission of ROLE_PERMISSIONS.Guest) {
+        expect(ROLE_PERMISSIONS.User).toContain(permission)
+      }
+    })
+  })
+
+  describe('hasPermission', () => {
+    it('should allow only Admin to delete users', () => {
+      expect(hasPermission('Admin', 'user:delete')).toBe(true)
+      expect(hasPermission('User', 'user:delete')).toBe(false)
+      expect(hasPermission('Guest', 'user:delete')).toBe(false)
+    })
+
+    it('should let Guest read but not write', () => {
+      expect(hasPermission('Guest', 'user:read')).toBe(true)
+      expect(hasPermission('Guest', 'user:create')).toBe(false)
+      expect(hasPermission('Guest', 'user:update')).toBe(false)
+    })
+
+    it('should grant nothing without a role', () => {
+      expect(hasPermission(null, 'user:read')).toBe(false)
+      expect(hasPermission(undefined, 'user:read')).toBe(false)
+    })
+  })
+})
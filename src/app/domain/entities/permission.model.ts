@@ -0,0 +1,91 @@
+// =============================================================================
+// Permission Domain Model
+// =============================================================================
+
+import type { UserRole } from './auth.model'
+
+/**
+ * Action a role may perform, as `resource:action`
+ */
+export type Permission =
+  | 'user:read'
+  | 'user:create'
+  | 'user:update'
+  | 'user:delete'
+  | 'project:read'
+  | 'project:create'
+  | 'project:update'
+  | 'project:delete'
+  | 'task:read'
+  | 'task:create'
+  | 'task:update'
+  | 'task:delete'
+  | 'event:read'
+  | 'event:create'
+  | 'event:update'
+  | 'event:delete'
+  | 'message:read'
+  | 'message:create'
+  | 'message:update'
+  | 'message:delete'
+  | 'analytics:read'
+  | 'settings:manage'
+  | 'sync:manage'
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<UserRole, readonly Permission[]>> = {
+  Admin: [
+    'user:read',
+    'user:create',
+    'user:update',
+    'user:delete',
+    'project:read',
+    'project:create',
+    'project:update',
+    'project:delete',
+    'task:read',
+    'task:create',
+    'task:update',
+    'task:delete',
+    'event:read',
+    'event:create',
+    'event:update',
+    'event:delete',
+    'message:read',
+    'message:create',
+    'message:update',
+    'message:delete',
+    'analytics:read',
+    'settings:manage',
+    'sync:manage',
+  ],
+  User: [
+    'user:read',
+    'user:create',
+    'user:update',
+    'project:read',
+    'project:create',
+    'project:update',
+    'task:read',
+    'task:create',
+    'task:update',
+    'event:read',
+    'event:create',
+    'event:update',
+    'message:read',
+    'message:create',
+    'message:update',
+    'analytics:read',
+    'sync:manage',
+  ],
+  Guest: ['user:read', 'project:read', 'task:read', 'event:read', 'message:read'],
+}
+
+/**
+ * Check if a role grants a permission (no role grants nothing)
+ */
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
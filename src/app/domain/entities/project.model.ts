@@ -0,0 +1,87 @@
+// =============================================================================
+// Project Domain Model
+// =============================================================================
+
+import type { ListParams } from './pagination.model'
+
+/**
+ * Project lifecycle status
+ */
+export const ProjectStatus = {
+  PLANNING: 'planning',
+  ACTIVE: 'active',
+  ON_HOLD: 'on-hold',
+  COMPLETED: 'completed',
+} as const
+
+export type ProjectStatus = (typeof ProjectStatus)[keyof typeof ProjectStatus]
+
+/**
+ * Project Domain Model
+ * Archived projects keep their status and drop out of the main list
+ */
+export interface Project {
+  id: string
+  name: string
+  description: string
+  /** User ID of the owner */
+  ownerId: string
+  /** User IDs of the members (the owner is not repeated here) */
+  memberIds: string[]
+  status: ProjectStatus
+  archived: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * DTO for creating a new project
+ */
+export interface CreateProjectDto {
+  name: string
+  description?: string
+  ownerId: string
+  memberIds?: string[]
+  status?: ProjectStatus
+}
+
+/**
+ * DTO for updating an existing project
+ */
+export interface UpdateProjectDto {
+  name?: string
+  description?: string
+  ownerId?: string
+  memberIds?: string[]
+  status?: ProjectStatus
+  archived?: boolean
+}
+
+/**
+ * Validation errors for project fields
+ */
+export interface ProjectValidationErrors {
+  name?: string | null
+  description?: string | null
+  ownerId?: string | null
+  status?: string | null
+}
+
+/**
+ * Project fields a list can be sorted by (indexed for offline queries)
+ */
+export type ProjectSortField = 'name' | 'status' | 'createdAt' | 'updatedAt'
+
+/**
+ * Project fields a list can be filtered by
+ */
+export type ProjectFilter = {
+  archived?: boolean
+  status?: ProjectStatus
+  ownerId?: string
+}
+
+/**
+ * Projects list params
+ */
+export type ProjectListParams = ListParams<ProjectSortField, ProjectFilter>
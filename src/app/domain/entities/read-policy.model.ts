@@ -0,0 +1,20 @@
+// =============================================================================
+// Read Policy Domain Model
+// =============================================================================
+
+/**
+ * How a read balances the cache layers against the network
+ * - cache-first: cached value if there is one, otherwise the network
+ * - network-first: the network, falling back to the cache when it fails
+ * - stale-while-revalidate: cached value at once, refreshed in the background
+ * - cache-only: never touches the network
+ */
+export type ReadPolicy = 'cache-first' | 'network-first' | 'stale-while-revalidate' | 'cache-only'
+
+/**
+ * Per-call read options
+ */
+export interface ReadOptions {
+  /** Defaults to cache-first */
+  policy?: ReadPolicy
+}
@@ -0,0 +1,88 @@
+// =============================================================================
+// Sync Conflict Model Tests
+// =============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { diffConflict, mergeConflict, type SyncConflict } from './sync-conflict.model'
+
+const makeConflict = (overrides: Partial<SyncConflict> = {}): SyncConflict => ({
+  operationId: 1,
+  entity: 'user',
+  entityId: '42',
+  baseVersion: '2025-01-01T00:00:00.000Z',
+  serverVersion: '2025-01-02T00:00:00.000Z',
+  base: { firstName: 'John', lastName: 'Doe', email: 'john@example.com' },
+  local: { firstName: 'Johnny' },
+  server: { firstName: 'John', lastName: 'Smith', email: 'john@example.com' },
+  detectedAt: new Date(),
+  ...overrides,
+})
+
+describe('diffConflict', () => {
+  it('flags fields changed on each side', () => {
+    const diffs = diffConflict(makeConflict())
+
+    const firstName = diffs.find((d) => d.field === 'firstName')!
+    expect(firstName).toMatchObject({
+      local: 'Johnny',
+      server: 'John',
+      changedLocally: true,
+      changedOnServer: false,
+      conflicting: false,
+    })
+
+    const lastName = diffs.find((d) => d.field === 'lastName')!
+    expect(lastName).toMatchObject({
+      local: 'Doe',
+      server: 'Smith',
+      changedLocally: false,
+      changedOnServer: true,
+      conflicting: false,
+    })
+  })
+
+  it('marks a field changed on both sides as conflicting', () => {
+    const diffs = diffConflict(
+      makeConflict({ server: { firstName: 'Jon', lastName: 'Doe', email: 'john@example.com' } })
+    )
+
+    expect(diffs.find((d) => d.field === 'firstName')?.conflicting).toBe(true)
+  })
+
+  it('does not flag identical changes on both sides', () => {
+    const diffs = diffConflict(
+      makeConflict({ server: { firstName: 'Johnny', lastName: 'Doe', email: 'john@example.com' } })
+    )
+
+    expect(diffs.some((d) => d.conflicting)).toBe(false)
+  })
+
+  it('treats every differing local field as conflicting without a base snapshot', () => {
+    const diffs = diffConflict(makeConflict({ base: null }))
+
+    expect(diffs).toHaveLength(1)
+    expect(diffs[0]).toMatchObject({ field: 'firstName', conflicting: true })
+  })
+})
+
+describe('mergeConflict', () => {
+  it('keeps local edits to fields the server did not change', () => {
+    expect(mergeConflict(makeConflict())).toEqual({ firstName: 'Johnny' })
+  })
+
+  it('returns null when the same field changed on both sides', () => {
+    const merged = mergeConflict(
+      makeConflict({ server: { firstName: 'Jon', lastName: 'Doe', email: 'john@example.com' } })
+    )
+
+    expect(merged).toBeNull()
+  })
+
+  it('returns an empty payload when the server already has the local values', () => {
+    const merged = mergeConflict(
+      makeConflict({ server: { firstName: 'Johnny', lastName: 'Smith', email: 'john@example.com' } })
+    )
+
+    expect(merged).toEqual({})
+  })
+})
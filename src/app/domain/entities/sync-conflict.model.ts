@@ -0,0 +1,111 @@
+// =============================================================================
+// Sync Conflict Domain Model
+// =============================================================================
+
+/**
+ * Strategies for resolving a conflict between an offline change and the server
+ */
+export const ConflictStrategy = {
+  SERVER_WINS: 'server-wins',
+  CLIENT_WINS: 'client-wins',
+  MERGE: 'merge',
+  ASK_USER: 'ask-user',
+} as const
+
+export type ConflictStrategy = (typeof ConflictStrategy)[keyof typeof ConflictStrategy]
+
+/**
+ * Conflict between a queued offline change and the current server state
+ */
+export interface SyncConflict {
+  /** Pending operation that raised the conflict */
+  operationId: number
+  entity: string
+  entityId: string
+  /** Version (updatedAt) the offline change was based on */
+  baseVersion: string | null
+  /** Version (updatedAt) currently on the server */
+  serverVersion: string | null
+  /** Snapshot of the editable fields when the change was queued */
+  base: Record<string, unknown> | null
+  /** Queued offline changes */
+  local: Record<string, unknown>
+  /** Current server state */
+  server: Record<string, unknown>
+  detectedAt: Date
+}
+
+/**
+ * Outcome of applying a strategy to a conflict
+ * - server: drop the offline change and keep the server state
+ * - client: re-send the given changes on top of the server version
+ * - defer: park the operation until the user decides
+ */
+export type ConflictResolution =
+  | { type: 'server' }
+  | { type: 'client'; payload: Record<string, unknown> }
+  | { type: 'defer' }
+
+/**
+ * Field-by-field comparison of a conflict
+ */
+export interface FieldDiff {
+  field: string
+  base: unknown
+  local: unknown
+  server: unknown
+  changedLocally: boolean
+  changedOnServer: boolean
+  /** Both sides changed the field to different values */
+  conflicting: boolean
+}
+
+/**
+ * Compare two field values (handles dates and nested values)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Build a field-by-field diff of a conflict
+ * Without a base snapshot every locally edited field that differs from the
+ * server is treated as conflicting
+ */
+export function diffConflict(conflict: SyncConflict): FieldDiff[] {
+  const { base, local, server } = conflict
+  const fields = new Set([...Object.keys(base ?? {}), ...Object.keys(local)])
+
+  return [...fields].map((field) => {
+    const hasLocal = field in local
+    const localValue = hasLocal ? local[field] : base?.[field]
+    const changedLocally = hasLocal && (base ? !isSameValue(local[field], base[field]) : true)
+    const changedOnServer = base ? !isSameValue(server[field], base[field]) : true
+
+    return {
+      field,
+      base: base?.[field],
+      local: localValue,
+      server: server[field],
+      changedLocally,
+      changedOnServer,
+      conflicting: changedLocally && changedOnServer && !isSameValue(localValue, server[field]),
+    }
+  })
+}
+
+/**
+ * Field-level merge: keep the server's changes and re-apply local edits to the
+ * fields the server did not touch
+ * Returns null when both sides changed the same field (needs a decision)
+ */
+export function mergeConflict(conflict: SyncConflict): Record<string, unknown> | null {
+  const diffs = diffConflict(conflict)
+  if (diffs.some((diff) => diff.conflicting)) return null
+
+  return Object.fromEntries(
+    diffs
+      .filter((diff) => diff.changedLocally && !isSameValue(diff.local, diff.server))
+      .map((diff) => [diff.field, diff.local])
+  )
+}
@@ -0,0 +1,131 @@
+// =============================================================================
+// Task Domain Model
+// =============================================================================
+
+import type { ListParams } from './pagination.model'
+
+/**
+ * Task workflow status
+ */
+export const TaskStatus = {
+  TODO: 'todo',
+  IN_PROGRESS: 'in-progress',
+  REVIEW: 'review',
+  DONE: 'done',
+} as const
+
+export type TaskStatus = (typeof TaskStatus)[keyof typeof TaskStatus]
+
+/**
+ * Workflow order: todo → in-progress → review → done
+ */
+export const TASK_WORKFLOW: readonly TaskStatus[] = [
+  TaskStatus.TODO,
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.REVIEW,
+  TaskStatus.DONE,
+]
+
+/**
+ * Statuses a task may move to from each status
+ * One step forward, or one step back (review sends work back, done reopens)
+ */
+export const TASK_TRANSITIONS: Readonly<Record<TaskStatus, readonly TaskStatus[]>> = {
+  [TaskStatus.TODO]: [TaskStatus.IN_PROGRESS],
+  [TaskStatus.IN_PROGRESS]: [TaskStatus.REVIEW, TaskStatus.TODO],
+  [TaskStatus.REVIEW]: [TaskStatus.DONE, TaskStatus.IN_PROGRESS],
+  [TaskStatus.DONE]: [TaskStatus.REVIEW],
+}
+
+/**
+ * Check if a task may move from one status to another
+ */
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Task priority (high priority tasks make up the Important view)
+ */
+export const TaskPriority = {
+  LOW: 'low',
+  NORMAL: 'normal',
+  HIGH: 'high',
+} as const
+
+export type TaskPriority = (typeof TaskPriority)[keyof typeof TaskPriority]
+
+/**
+ * Task Domain Model
+ */
+export interface Task {
+  id: string
+  title: string
+  description: string
+  status: TaskStatus
+  priority: TaskPriority
+  dueDate: Date | null
+  /** User ID of the assignee; unassigned when null */
+  assigneeId: string | null
+  /** Project the task belongs to, if any */
+  projectId: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * DTO for creating a new task
+ */
+export interface CreateTaskDto {
+  title: string
+  description?: string
+  status?: TaskStatus
+  priority?: TaskPriority
+  dueDate?: Date | null
+  assigneeId?: string | null
+  projectId?: string | null
+}
+
+/**
+ * DTO for updating an existing task
+ */
+export interface UpdateTaskDto {
+  title?: string
+  description?: string
+  status?: TaskStatus
+  priority?: TaskPriority
+  dueDate?: Date | null
+  assigneeId?: string | null
+  projectId?: string | null
+}
+
+/**
+ * Validation errors for task fields
+ */
+export interface TaskValidationErrors {
+  title?: string | null
+  description?: string | null
+  status?: string | null
+  priority?: string | null
+  dueDate?: string | null
+}
+
+/**
+ * Task fields a list can be sorted by (indexed for offline queries)
+ */
+export type TaskSortField = 'title' | 'status' | 'priority' | 'createdAt' | 'updatedAt'
+
+/**
+ * Task fields a list can be filtered by
+ */
+export type TaskFilter = {
+  status?: TaskStatus
+  priority?: TaskPriority
+  assigneeId?: string
+  projectId?: string
+}
+
+/**
+ * Tasks list params
+ */
+export type TaskListParams = ListParams<TaskSortField, TaskFilter>
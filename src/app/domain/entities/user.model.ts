@@ -2,6 +2,10 @@
 // User Domain Model
 // =============================================================================
 
+import type { ListParams } from './pagination.model'
+
+export type { PaginatedResponse, PaginationParams, SortOrder } from './pagination.model'
+
 /**
  * User Domain Model
  * Represents a user entity in the system
@@ -47,20 +51,11 @@ export interface UserValidationErrors {
 }
 
 /**
- * Paginated response
+ * User fields a list can be sorted by (indexed for offline queries)
  */
-export interface PaginatedResponse<T> {
-  data: T[]
-  page: number
-  pageSize: number
-  total: number
-  totalPages: number
-}
+export type UserSortField = 'email' | 'lastName' | 'createdAt' | 'updatedAt'
 
 /**
- * Pagination params
+ * Users list params
  */
-export interface PaginationParams {
-  page: number
-  pageSize: number
-}
+export type UserListParams = ListParams<UserSortField>
@@ -8,9 +8,99 @@ export type {
   CreateUserDto,
   UpdateUserDto,
   UserValidationErrors,
+  UserSortField,
+  UserListParams,
+} from './entities/user.model'
+
+export type {
+  Project,
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectValidationErrors,
+  ProjectSortField,
+  ProjectFilter,
+  ProjectListParams,
+} from './entities/project.model'
+export { ProjectStatus } from './entities/project.model'
+
+export type {
+  Task,
+  CreateTaskDto,
+  UpdateTaskDto,
+  TaskValidationErrors,
+  TaskSortField,
+  TaskFilter,
+  TaskListParams,
+} from './entities/task.model'
+export {
+  TaskStatus,
+  TaskPriority,
+  TASK_WORKFLOW,
+  TASK_TRANSITIONS,
+  canTransition,
+} from './entities/task.model'
+
+export type {
+  CalendarEvent,
+  CreateCalendarEventDto,
+  UpdateCalendarEventDto,
+  CalendarEventValidationErrors,
+  CalendarImportResult,
+  CalendarEventSortField,
+  CalendarEventListParams,
+} from './entities/calendar-event.model'
+
+export type {
+  Message,
+  CreateMessageDto,
+  UpdateMessageDto,
+  MessageValidationErrors,
+  Conversation,
+  OutboxMessage,
+  MessageSortField,
+  MessageFilter,
+  MessageListParams,
+} from './entities/message.model'
+export {
+  MessageStatus,
+  conversationIdOf,
+  conversationParticipant,
+  messageStatus,
+} from './entities/message.model'
+
+export type {
   PaginatedResponse,
   PaginationParams,
-} from './entities/user.model'
+  SortOrder,
+  ListFilter,
+  DateBounds,
+  ListRange,
+  ListParams,
+} from './entities/pagination.model'
+
+export type { EntityChange } from './entities/entity-change.model'
+
+export type { ReadPolicy, ReadOptions } from './entities/read-policy.model'
+
+export type { IdMapping } from './entities/id-mapping.model'
+export { OFFLINE_ID_PREFIX, isOfflineId } from './entities/id-mapping.model'
+
+export type { SyncConflict, ConflictResolution, FieldDiff } from './entities/sync-conflict.model'
+export { ConflictStrategy, diffConflict, mergeConflict } from './entities/sync-conflict.model'
+
+export type { DeadLetter } from './entities/dead-letter.model'
+
+export type {
+  AuthUser,
+  AuthTokens,
+  AuthSession,
+  LoginCredentials,
+  UserRole,
+  PresenceStatus,
+} from './entities/auth.model'
+
+export type { Permission } from './entities/permission.model'
+export { ROLE_PERMISSIONS, hasPermission } from './entities/permission.model'
 
 export {
   AppError,
@@ -20,6 +110,10 @@ export {
 
 // Validators
 export { userValidator, isValidUser } from './validators/userValidator'
+export { projectValidator } from './validators/projectValidator'
+export { taskValidator } from './validators/taskValidator'
+export { calendarEventValidator } from './validators/calendarEventValidator'
+export { messageValidator } from './validators/messageValidator'
 
 // Services
 export { sanitizationService } from './services/sanitizationService'
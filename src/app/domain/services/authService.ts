@@ -0,0 +1,46 @@
+// =============================================================================
+// Auth Service Interface - Domain Layer
+// =============================================================================
+// Defines the contract for signing in and keeping the session alive.
+// Implementation details are hidden from the presentation layer.
+// =============================================================================
+
+import type { Observable } from 'rxjs'
+import type { AuthSession, AuthUser, LoginCredentials } from '@/app/domain/entities/auth.model'
+import type { ServiceResult } from './userService'
+
+/**
+ * Auth Service Interface
+ * Abstracts login, logout and token refresh for the presentation layer
+ */
+export interface AuthService {
+  /**
+   * Observable of the current session (null when signed out)
+   */
+  readonly session$: Observable<AuthSession | null>
+
+  /**
+   * Current session snapshot
+   */
+  readonly currentSession: AuthSession | null
+
+  /**
+   * Sign in with email and password
+   */
+  login(credentials: LoginCredentials): Promise<ServiceResult<AuthSession>>
+
+  /**
+   * Sign out and revoke the refresh token
+   */
+  logout(): Promise<ServiceResult<void>>
+
+  /**
+   * Exchange the refresh token for new tokens
+   */
+  refresh(): Promise<ServiceResult<AuthSession>>
+
+  /**
+   * Update the signed-in user's profile locally
+   */
+  updateUser(updates: Partial<AuthUser>): void
+}
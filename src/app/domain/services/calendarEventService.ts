@@ -0,0 +1,97 @@
+// =============================================================================
+// Calendar Event Service Interface - Domain Layer
+// =============================================================================
+// Defines the contract for calendar event business operations.
+// Implementation details are hidden from the presentation layer.
+// =============================================================================
+
+import type { Observable } from 'rxjs'
+import type {
+  CalendarEvent,
+  CreateCalendarEventDto,
+  UpdateCalendarEventDto,
+  CalendarEventListParams,
+  CalendarImportResult,
+} from '@/app/domain/entities/calendar-event.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import type { ServiceResult } from './userService'
+
+/**
+ * An event created, updated or deleted in this tab or another one, or a list
+ * page refreshed in the background (stale-while-revalidate)
+ */
+export type CalendarEventChange =
+  | { type: 'create' | 'update' | 'delete'; event: CalendarEvent }
+  | { type: 'list'; params: CalendarEventListParams; search?: string; list: PaginatedResponse<CalendarEvent> }
+
+/**
+ * Calendar Event Service Interface
+ * Abstracts all calendar event business logic
+ */
+export interface CalendarEventService {
+  /**
+   * Get a single event by ID
+   */
+  getById(id: string, options?: ReadOptions): Promise<ServiceResult<CalendarEvent>>
+
+  /**
+   * Get paginated list of events
+   */
+  getList(
+    params: CalendarEventListParams,
+    search?: string,
+    options?: ReadOptions
+  ): Promise<ServiceResult<PaginatedResponse<CalendarEvent>>>
+
+  /**
+   * Create a new event
+   */
+  create(dto: CreateCalendarEventDto): Promise<ServiceResult<CalendarEvent>>
+
+  /**
+   * Update an existing event
+   */
+  update(id: string, dto: UpdateCalendarEventDto): Promise<ServiceResult<CalendarEvent>>
+
+  /**
+   * Move an event to a new start, keeping its duration
+   */
+  reschedule(id: string, start: Date): Promise<ServiceResult<CalendarEvent>>
+
+  /**
+   * Delete an event
+   */
+  delete(id: string): Promise<ServiceResult<void>>
+
+  /**
+   * Create the events of an iCalendar (.ics) file
+   */
+  importICalendar(text: string): Promise<ServiceResult<CalendarImportResult>>
+
+  /**
+   * All events as an iCalendar (.ics) file
+   */
+  exportICalendar(): Promise<ServiceResult<string>>
+
+  /**
+   * Check if the service is online
+   */
+  isOnline(): boolean
+
+  /**
+   * Clear all cached data
+   */
+  clearCache(): Promise<void>
+
+  /**
+   * Observable for offline-created events whose temporary ID was replaced by a server ID
+   */
+  readonly idMappings$: Observable<IdMapping>
+
+  /**
+   * Observable for event changes, including those made in other tabs
+   */
+  readonly updates$: Observable<CalendarEventChange>
+}
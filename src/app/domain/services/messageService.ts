@@ -0,0 +1,94 @@
+// =============================================================================
+// Message Service Interface - Domain Layer
+// =============================================================================
+// Defines the contract for messaging between users.
+// Implementation details are hidden from the presentation layer.
+// =============================================================================
+
+import type { Observable } from 'rxjs'
+import type {
+  Message,
+  CreateMessageDto,
+  Conversation,
+  OutboxMessage,
+  MessageListParams,
+} from '@/app/domain/entities/message.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import type { ServiceResult } from './userService'
+
+/**
+ * A message sent, read or deleted in this tab or another one, or a list
+ * page refreshed in the background (stale-while-revalidate)
+ */
+export type MessageChange =
+  | { type: 'create' | 'update' | 'delete'; message: Message }
+  | { type: 'list'; params: MessageListParams; search?: string; list: PaginatedResponse<Message> }
+
+/**
+ * Message Service Interface
+ * Abstracts all messaging business logic
+ */
+export interface MessageService {
+  /**
+   * Get a user's conversations, most recent first, with their unread counts
+   */
+  getConversations(userId: string, options?: ReadOptions): Promise<ServiceResult<Conversation[]>>
+
+  /**
+   * Get the messages of a conversation, oldest first
+   * Messages still waiting in the outbox are included
+   */
+  getThread(conversationId: string, options?: ReadOptions): Promise<ServiceResult<Message[]>>
+
+  /**
+   * Get messages composed offline that have not been delivered yet
+   * Messages the sync queue gave up on are included as failed; retry them
+   * through the sync service's dead letters
+   */
+  getOutbox(): Promise<ServiceResult<OutboxMessage[]>>
+
+  /**
+   * Send a message
+   * Offline, it is queued and delivered by the sync queue once back online
+   */
+  send(dto: CreateMessageDto): Promise<ServiceResult<Message>>
+
+  /**
+   * Mark the messages a user received in a conversation as read
+   * Resolves to the number of messages marked
+   */
+  markRead(conversationId: string, userId: string): Promise<ServiceResult<number>>
+
+  /**
+   * Mark every message a user received as read
+   * Resolves to the number of messages marked
+   */
+  markAllRead(userId: string): Promise<ServiceResult<number>>
+
+  /**
+   * Delete a message
+   */
+  delete(id: string): Promise<ServiceResult<void>>
+
+  /**
+   * Check if the service is online
+   */
+  isOnline(): boolean
+
+  /**
+   * Clear all cached data
+   */
+  clearCache(): Promise<void>
+
+  /**
+   * Observable for queued messages whose temporary ID was replaced by a server ID
+   */
+  readonly idMappings$: Observable<IdMapping>
+
+  /**
+   * Observable for message changes, including those made in other tabs
+   */
+  readonly updates$: Observable<MessageChange>
+}
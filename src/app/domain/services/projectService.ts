@@ -0,0 +1,91 @@
+// =============================================================================
+// Project Service Interface - Domain Layer
+// =============================================================================
+// Defines the contract for project-related business operations.
+// Implementation details are hidden from the presentation layer.
+// =============================================================================
+
+import type { Observable } from 'rxjs'
+import type {
+  Project,
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectListParams,
+} from '@/app/domain/entities/project.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import type { ServiceResult } from './userService'
+
+/**
+ * A project created, updated or deleted in this tab or another one, or a list
+ * page refreshed in the background (stale-while-revalidate)
+ */
+export type ProjectChange =
+  | { type: 'create' | 'update' | 'delete'; project: Project }
+  | { type: 'list'; params: ProjectListParams; search?: string; list: PaginatedResponse<Project> }
+
+/**
+ * Project Service Interface
+ * Abstracts all project-related business logic
+ */
+export interface ProjectService {
+  /**
+   * Get a single project by ID
+   */
+  getById(id: string, options?: ReadOptions): Promise<ServiceResult<Project>>
+
+  /**
+   * Get paginated list of projects
+   */
+  getList(
+    params: ProjectListParams,
+    search?: string,
+    options?: ReadOptions
+  ): Promise<ServiceResult<PaginatedResponse<Project>>>
+
+  /**
+   * Create a new project
+   */
+  create(dto: CreateProjectDto): Promise<ServiceResult<Project>>
+
+  /**
+   * Update an existing project
+   */
+  update(id: string, dto: UpdateProjectDto): Promise<ServiceResult<Project>>
+
+  /**
+   * Move a project to the archive
+   */
+  archive(id: string): Promise<ServiceResult<Project>>
+
+  /**
+   * Bring an archived project back
+   */
+  restore(id: string): Promise<ServiceResult<Project>>
+
+  /**
+   * Delete a project
+   */
+  delete(id: string): Promise<ServiceResult<void>>
+
+  /**
+   * Check if the service is online
+   */
+  isOnline(): boolean
+
+  /**
+   * Clear all cached data
+   */
+  clearCache(): Promise<void>
+
+  /**
+   * Observable for offline-created projects whose temporary ID was replaced by a server ID
+   */
+  readonly idMappings$: Observable<IdMapping>
+
+  /**
+   * Observable for project changes, including those made in other tabs
+   */
+  readonly updates$: Observable<ProjectChange>
+}
@@ -0,0 +1,42 @@
+// =============================================================================
+// Sync Service Interface - Domain Layer
+// =============================================================================
+// Defines the contract for inspecting and resolving offline sync state.
+// Implementation details are hidden from the presentation layer.
+// =============================================================================
+
+import type { Observable } from 'rxjs'
+import type { SyncConflict, ConflictResolution } from '@/app/domain/entities/sync-conflict.model'
+import type { DeadLetter } from '@/app/domain/entities/dead-letter.model'
+import type { ServiceResult } from './userService'
+
+/**
+ * Sync Service Interface
+ * Abstracts the offline sync queue for the presentation layer
+ */
+export interface SyncService {
+  /**
+   * Observable of offline changes waiting for a conflict decision
+   */
+  readonly conflicts$: Observable<SyncConflict[]>
+
+  /**
+   * Resolve a parked conflict and resume syncing
+   */
+  resolveConflict(operationId: number, resolution: ConflictResolution): Promise<ServiceResult<void>>
+
+  /**
+   * Observable of offline changes that failed permanently
+   */
+  readonly deadLetters$: Observable<DeadLetter[]>
+
+  /**
+   * Re-queue a failed change, optionally with an edited payload
+   */
+  retryDeadLetter(operationId: number, payload?: unknown): Promise<ServiceResult<void>>
+
+  /**
+   * Drop a failed change and roll back its local effect
+   */
+  discardDeadLetter(operationId: number): Promise<ServiceResult<void>>
+}
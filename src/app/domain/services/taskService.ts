@@ -0,0 +1,88 @@
+// =============================================================================
+// Task Service Interface - Domain Layer
+// =============================================================================
+// Defines the contract for task-related business operations.
+// Implementation details are hidden from the presentation layer.
+// =============================================================================
+
+import type { Observable } from 'rxjs'
+import type {
+  Task,
+  TaskStatus,
+  CreateTaskDto,
+  UpdateTaskDto,
+  TaskListParams,
+} from '@/app/domain/entities/task.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
+import type { ServiceResult } from './userService'
+
+/**
+ * A task created, updated or deleted in this tab or another one, or a list
+ * page refreshed in the background (stale-while-revalidate)
+ */
+export type TaskChange =
+  | { type: 'create' | 'update' | 'delete'; task: Task }
+  | { type: 'list'; params: TaskListParams; search?: string; list: PaginatedResponse<Task> }
+
+/**
+ * Task Service Interface
+ * Abstracts all task-related business logic
+ */
+export interface TaskService {
+  /**
+   * Get a single task by ID
+   */
+  getById(id: string, options?: ReadOptions): Promise<ServiceResult<Task>>
+
+  /**
+   * Get paginated list of tasks
+   */
+  getList(
+    params: TaskListParams,
+    search?: string,
+    options?: ReadOptions
+  ): Promise<ServiceResult<PaginatedResponse<Task>>>
+
+  /**
+   * Create a new task
+   */
+  create(dto: CreateTaskDto): Promise<ServiceResult<Task>>
+
+  /**
+   * Update an existing task
+   */
+  update(id: string, dto: UpdateTaskDto): Promise<ServiceResult<Task>>
+
+  /**
+   * Move a task along the workflow (todo → in-progress → review → done)
+   * Fails without saving when the workflow does not allow the step
+   */
+  transition(id: string, status: TaskStatus): Promise<ServiceResult<Task>>
+
+  /**
+   * Delete a task
+   */
+  delete(id: string): Promise<ServiceResult<void>>
+
+  /**
+   * Check if the service is online
+   */
+  isOnline(): boolean
+
+  /**
+   * Clear all cached data
+   */
+  clearCache(): Promise<void>
+
+  /**
+   * Observable for offline-created tasks whose temporary ID was replaced by a server ID
+   */
+  readonly idMappings$: Observable<IdMapping>
+
+  /**
+   * Observable for task changes, including those made in other tabs
+   */
+  readonly updates$: Observable<TaskChange>
+}
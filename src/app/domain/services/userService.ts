@@ -5,13 +5,16 @@
 // Implementation details are hidden from the presentation layer.
 // =============================================================================
 
+import type { Observable } from 'rxjs'
 import type {
   User,
   CreateUserDto,
   UpdateUserDto,
   PaginatedResponse,
-  PaginationParams,
+  UserListParams,
 } from '@/app/domain/entities/user.model'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import type { ReadOptions } from '@/app/domain/entities/read-policy.model'
 
 /**
  * Result wrapper for service operations
@@ -23,6 +26,14 @@ export interface ServiceResult<T> {
   error?: string
 }
 
+/**
+ * A user created, updated or deleted in this tab or another one, or a list
+ * page refreshed in the background (stale-while-revalidate)
+ */
+export type UserChange =
+  | { type: 'create' | 'update' | 'delete'; user: User }
+  | { type: 'list'; params: UserListParams; search?: string; list: PaginatedResponse<User> }
+
 /**
  * User Service Interface
  * Abstracts all user-related business logic
@@ -31,12 +42,16 @@ export interface UserService {
   /**
    * Get a single user by ID
    */
-  getById(id: string): Promise<ServiceResult<User>>
+  getById(id: string, options?: ReadOptions): Promise<ServiceResult<User>>
 
   /**
    * Get paginated list of users
    */
-  getList(params: PaginationParams, search?: string): Promise<ServiceResult<PaginatedResponse<User>>>
+  getList(
+    params: UserListParams,
+    search?: string,
+    options?: ReadOptions
+  ): Promise<ServiceResult<PaginatedResponse<User>>>
 
   /**
    * Create a new user
@@ -67,4 +82,14 @@ export interface UserService {
    * Clear all cached data
    */
   clearCache(): Promise<void>
+
+  /**
+   * Observable for offline-created users whose temporary ID was replaced by a server ID
+   */
+  readonly idMappings$: Observable<IdMapping>
+
+  /**
+   * Observable for user changes, including those made in other tabs
+   */
+  readonly updates$: Observable<UserChange>
 }
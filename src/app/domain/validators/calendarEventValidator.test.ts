@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { calendarEventValidator } from './calendarEventValidator'
+
+describe('calendarEventValidator', () => {
+  describe('validateTitle', () => {
+    it('should return error for empty value', () => {
+      expect(calendarEventValidator.validateTitle('')).toBe('Event title is required')
+      expect(calendarEventValidator.validateTitle('   ')).toBe('Event title is required')
+    })
+
+    it('should return error for too long value', () => {
+      expect(calendarEventValidator.validateTitle('A'.repeat(121))).toBe('Event title must be less than 120 characters')
+    })
+
+    it('should accept short titles', () => {
+      expect(calendarEventValidator.validateTitle('1:1')).toBeNull()
+    })
+  })
+
+  describe('validateStart', () => {
+    it('should require a start', () => {
+      expect(calendarEventValidator.validateStart(null)).toBe('Start is required')
+    })
+
+    it('should reject invalid dates', () => {
+      expect(calendarEventValidator.validateStart('soon')).toBe('Please enter a valid start')
+    })
+
+    it('should accept dates and form values', () => {
+      expect(calendarEventValidator.validateStart(new Date('2025-06-30T09:00:00'))).toBeNull()
+      expect(calendarEventValidator.validateStart('2025-06-30T09:00')).toBeNull()
+    })
+  })
+
+  describe('validateEnd', () => {
+    it('should require a valid end', () => {
+      expect(calendarEventValidator.validateEnd(undefined)).toBe('End is required')
+      expect(calendarEventValidator.validateEnd('later')).toBe('Please enter a valid end')
+    })
+
+    it('should reject an end before the start', () => {
+      expect(
+        calendarEventValidator.validateEnd(new Date('2025-06-30T08:00:00'), new Date('2025-06-30T09:00:00'))
+      ).toBe('End must not be before the start')
+    })
+
+    it('should accept an end equal to the start', () => {
+      const at = new Date('2025-06-30T09:00:00')
+      expect(calendarEventValidator.validateEnd(at, at)).toBeNull()
+    })
+  })
+
+  describe('validateCreate', () => {
+    it('should return no errors for a valid event', () => {
+      const errors = calendarEventValidator.validateCreate({
+        title: 'Standup',
+        start: new Date('2025-06-30T09:00:00'),
+        end: new Date('2025-06-30T09:15:00'),
+      })
+
+      expect(calendarEventValidator.hasErrors(errors)).toBe(false)
+    })
+
+    it('should report the first error', () => {
+      const errors = calendarEventValidator.validateCreate({
+        title: '',
+        start: new Date('2025-06-30T09:00:00'),
+        end: new Date('2025-06-30T08:00:00'),
+      })
+
+      expect(calendarEventValidator.getFirstError(errors)).toBe('Event title is required')
+      expect(errors.end).toBe('End must not be before the start')
+    })
+  })
+
+  describe('validateUpdate', () => {
+    it('should only validate the fields being changed', () => {
+      const errors = calendarEventValidator.validateUpdate({ location: 'Room 4' })
+
+      expect(errors).toEqual({ location: null })
+    })
+
+    it('should check the order of a moved start and end', () => {
+      const errors = calendarEventValidator.validateUpdate({
+        start: new Date('2025-07-01T10:00:00'),
+        end: new Date('2025-07-01T09:00:00'),
+      })
+
+      expect(errors.end).toBe('End must not be before the start')
+    })
+  })
+})
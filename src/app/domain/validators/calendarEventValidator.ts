@@ -0,0 +1,139 @@
+// =============================================================================
+// Calendar Event Validator
+// =============================================================================
+
+import type {
+  CreateCalendarEventDto,
+  UpdateCalendarEventDto,
+  CalendarEventValidationErrors,
+} from '../entities/calendar-event.model'
+
+const TITLE_MAX_LENGTH = 120
+const DESCRIPTION_MAX_LENGTH = 1000
+const LOCATION_MAX_LENGTH = 200
+
+function isValidDate(value: Date | string): boolean {
+  const date = value instanceof Date ? value : new Date(value)
+  return !Number.isNaN(date.getTime())
+}
+
+/**
+ * Calendar event field validation
+ */
+export const calendarEventValidator = {
+  /**
+   * Validate event title
+   */
+  validateTitle(value: string | undefined | null): string | null {
+    if (!value || value.trim().length === 0) {
+      return 'Event title is required'
+    }
+    if (value.trim().length > TITLE_MAX_LENGTH) {
+      return `Event title must be less than ${TITLE_MAX_LENGTH} characters`
+    }
+    return null
+  },
+
+  /**
+   * Validate description
+   */
+  validateDescription(value: string | undefined | null): string | null {
+    if (value && value.length > DESCRIPTION_MAX_LENGTH) {
+      return `Description must be less than ${DESCRIPTION_MAX_LENGTH} characters`
+    }
+    return null
+  },
+
+  /**
+   * Validate location
+   */
+  validateLocation(value: string | undefined | null): string | null {
+    if (value && value.length > LOCATION_MAX_LENGTH) {
+      return `Location must be less than ${LOCATION_MAX_LENGTH} characters`
+    }
+    return null
+  },
+
+  /**
+   * Validate start (a Date, or a form value such as `2025-06-30T09:00`)
+   */
+  validateStart(value: Date | string | undefined | null): string | null {
+    if (!value) {
+      return 'Start is required'
+    }
+    if (!isValidDate(value)) {
+      return 'Please enter a valid start'
+    }
+    return null
+  },
+
+  /**
+   * Validate end, and that it does not come before the start
+   */
+  validateEnd(value: Date | string | undefined | null, start?: Date | string | null): string | null {
+    if (!value) {
+      return 'End is required'
+    }
+    if (!isValidDate(value)) {
+      return 'Please enter a valid end'
+    }
+    if (start && isValidDate(start) && new Date(value).getTime() < new Date(start).getTime()) {
+      return 'End must not be before the start'
+    }
+    return null
+  },
+
+  /**
+   * Validate entire event for creation
+   */
+  validateCreate(dto: CreateCalendarEventDto): CalendarEventValidationErrors {
+    return {
+      title: this.validateTitle(dto.title),
+      description: this.validateDescription(dto.description),
+      location: this.validateLocation(dto.location),
+      start: this.validateStart(dto.start),
+      end: this.validateEnd(dto.end, dto.start),
+    }
+  },
+
+  /**
+   * Validate entire event for update
+   * The order of start and end is checked when both change together
+   */
+  validateUpdate(dto: UpdateCalendarEventDto): CalendarEventValidationErrors {
+    const errors: CalendarEventValidationErrors = {}
+
+    if (dto.title !== undefined) {
+      errors.title = this.validateTitle(dto.title)
+    }
+    if (dto.description !== undefined) {
+      errors.description = this.validateDescription(dto.description)
+    }
+    if (dto.location !== undefined) {
+      errors.location = this.validateLocation(dto.location)
+    }
+    if (dto.start !== undefined) {
+      errors.start = this.validateStart(dto.start)
+    }
+    if (dto.end !== undefined) {
+      errors.end = this.validateEnd(dto.end, dto.start)
+    }
+
+    return errors
+  },
+
+  /**
+   * Check if validation errors object has any errors
+   */
+  hasErrors(errors: CalendarEventValidationErrors): boolean {
+    return Object.values(errors).some((error) => error !== null && error !== undefined)
+  },
+
+  /**
+   * Get first error message from validation errors
+   */
+  getFirstError(errors: CalendarEventValidationErrors): string | null {
+    const firstError = Object.values(errors).find((error) => error !== null && error !== undefined)
+    return firstError ?? null
+  },
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { messageValidator } from './messageValidator'
+
+describe('messageValidator', () => {
+  describe('validateBody', () => {
+    it('should return error for empty value', () => {
+      expect(messageValidator.validateBody('')).toBe('Message cannot be empty')
+      expect(messageValidator.validateBody(null)).toBe('Message cannot be empty')
+      expect(messageValidator.validateBody('   ')).toBe('Message cannot be empty')
+    })
+
+    it('should return error for too long value', () => {
+      expect(messageValidator.validateBody('A'.repeat(2001))).toBe('Message must be less than 2000 characters')
+    })
+
+    it('should accept short messages', () => {
+      expect(messageValidator.validateBody('ok')).toBeNull()
+    })
+  })
+
+  describe('validateRecipient', () => {
+    it('should require a recipient', () => {
+      expect(messageValidator.validateRecipient('')).toBe('Recipient is required')
+      expect(messageValidator.validateRecipient(undefined)).toBe('Recipient is required')
+    })
+
+    it('should reject the sender as recipient', () => {
+      expect(messageValidator.validateRecipient('1', '1')).toBe('You cannot send a message to yourself')
+    })
+
+    it('should accept another user', () => {
+      expect(messageValidator.validateRecipient('2', '1')).toBeNull()
+    })
+  })
+
+  describe('validateCreate', () => {
+    it('should report every invalid field', () => {
+      const errors = messageValidator.validateCreate({
+        senderId: '1',
+        senderName: 'John Doe',
+        recipientId: '',
+        recipientName: '',
+        body: '',
+      })
+
+      expect(errors.recipientId).toBe('Recipient is required')
+      expect(errors.body).toBe('Message cannot be empty')
+      expect(messageValidator.hasErrors(errors)).toBe(true)
+      expect(messageValidator.getFirstError(errors)).toBe('Recipient is required')
+    })
+
+    it('should pass a valid message', () => {
+      const errors = messageValidator.validateCreate({
+        senderId: '1',
+        senderName: 'John Doe',
+        recipientId: '2',
+        recipientName: 'Jane Smith',
+        body: 'Lunch at noon?',
+      })
+
+      expect(messageValidator.hasErrors(errors)).toBe(false)
+      expect(messageValidator.getFirstError(errors)).toBeNull()
+    })
+  })
+
+  describe('validateUpdate', () => {
+    it('should accept marking a message read or unread', () => {
+      expect(messageValidator.hasErrors(messageValidator.validateUpdate({ readAt: new Date() }))).toBe(false)
+      expect(messageValidator.hasErrors(messageValidator.validateUpdate({ readAt: null }))).toBe(false)
+    })
+
+    it('should reject an invalid read time', () => {
+      expect(messageValidator.validateUpdate({ readAt: new Date('not a date') }).readAt).toBe('Read time is invalid')
+    })
+  })
+})
@@ -0,0 +1,81 @@
+// =============================================================================
+// Message Validator
+// =============================================================================
+
+import type {
+  CreateMessageDto,
+  UpdateMessageDto,
+  MessageValidationErrors,
+} from '../entities/message.model'
+
+const BODY_MAX_LENGTH = 2000
+
+/**
+ * Message field validation
+ */
+export const messageValidator = {
+  /**
+   * Validate message body
+   */
+  validateBody(value: string | undefined | null): string | null {
+    if (!value || value.trim().length === 0) {
+      return 'Message cannot be empty'
+    }
+    if (value.trim().length > BODY_MAX_LENGTH) {
+      return `Message must be less than ${BODY_MAX_LENGTH} characters`
+    }
+    return null
+  },
+
+  /**
+   * Validate recipient (someone other than the sender)
+   */
+  validateRecipient(recipientId: string | undefined | null, senderId?: string | null): string | null {
+    if (!recipientId) {
+      return 'Recipient is required'
+    }
+    if (recipientId === senderId) {
+      return 'You cannot send a message to yourself'
+    }
+    return null
+  },
+
+  /**
+   * Validate entire message for sending
+   */
+  validateCreate(dto: CreateMessageDto): MessageValidationErrors {
+    return {
+      recipientId: this.validateRecipient(dto.recipientId, dto.senderId),
+      body: this.validateBody(dto.body),
+    }
+  },
+
+  /**
+   * Validate entire message for update
+   * Only the read state changes
+   */
+  validateUpdate(dto: UpdateMessageDto): MessageValidationErrors {
+    const errors: MessageValidationErrors = {}
+
+    if (dto.readAt && Number.isNaN(dto.readAt.getTime())) {
+      errors.readAt = 'Read time is invalid'
+    }
+
+    return errors
+  },
+
+  /**
+   * Check if validation errors object has any errors
+   */
+  hasErrors(errors: MessageValidationErrors): boolean {
+    return Object.values(errors).some((error) => error !== null && error !== undefined)
+  },
+
+  /**
+   * Get first error message from validation errors
+   */
+  getFirstError(errors: MessageValidationErrors): string | null {
+    const firstError = Object.values(errors).find((error) => error !== null && error !== undefined)
+    return firstError ?? null
+  },
+}
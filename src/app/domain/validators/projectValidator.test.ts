@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { projectValidator } from './projectValidator'
+
+describe('projectValidator', () => {
+  describe('validateName', () => {
+    it('should return error for empty value', () => {
+      expect(projectValidator.validateName('')).toBe('Project name is required')
+      expect(projectValidator.validateName(null)).toBe('Project name is required')
+      expect(projectValidator.validateName('   ')).toBe('Project name is required')
+    })
+
+    it('should return error for too short or too long value', () => {
+      expect(projectValidator.validateName('AB')).toBe('Project name must be at least 3 characters')
+      expect(projectValidator.validateName('A'.repeat(81))).toBe('Project name must be less than 80 characters')
+    })
+
+    it('should return null for valid name', () => {
+      expect(projectValidator.validateName('Website Redesign 2.0')).toBeNull()
+    })
+  })
+
+  describe('validateDescription', () => {
+    it('should allow an empty description', () => {
+      expect(projectValidator.validateDescription(undefined)).toBeNull()
+      expect(projectValidator.validateDescription('')).toBeNull()
+    })
+
+    it('should return error for too long description', () => {
+      expect(projectValidator.validateDescription('A'.repeat(1001))).toBe(
+        'Description must be less than 1000 characters'
+      )
+    })
+  })
+
+  describe('validateOwnerId', () => {
+    it('should require an owner', () => {
+      expect(projectValidator.validateOwnerId('')).toBe('Project owner is required')
+      expect(projectValidator.validateOwnerId('1')).toBeNull()
+    })
+  })
+
+  describe('validateStatus', () => {
+    it('should accept known statuses and no status', () => {
+      expect(projectValidator.validateStatus('active')).toBeNull()
+      expect(projectValidator.validateStatus('on-hold')).toBeNull()
+      expect(projectValidator.validateStatus(undefined)).toBeNull()
+    })
+
+    it('should reject unknown statuses', () => {
+      expect(projectValidator.validateStatus('paused')).toBe('Please choose a valid status')
+    })
+  })
+
+  describe('validateCreate', () => {
+    it('should validate every field', () => {
+      const errors = projectValidator.validateCreate({ name: '', ownerId: '' })
+
+      expect(errors.name).toBe('Project name is required')
+      expect(errors.ownerId).toBe('Project owner is required')
+      expect(projectValidator.hasErrors(errors)).toBe(true)
+      expect(projectValidator.getFirstError(errors)).toBe('Project name is required')
+    })
+
+    it('should pass a valid project', () => {
+      const errors = projectValidator.validateCreate({ name: 'Apollo', ownerId: '1', status: 'planning' })
+
+      expect(projectValidator.hasErrors(errors)).toBe(false)
+      expect(projectValidator.getFirstError(errors)).toBeNull()
+    })
+  })
+
+  describe('validateUpdate', () => {
+    it('should only validate provided fields', () => {
+      expect(projectValidator.validateUpdate({ archived: true })).toEqual({})
+      expect(projectValidator.validateUpdate({ name: 'AB' })).toEqual({
+        name: 'Project name must be at least 3 characters',
+      })
+    })
+  })
+
+  describe('validateField', () => {
+    it('should dispatch to the field validator', () => {
+      expect(projectValidator.validateField('name', '')).toBe('Project name is required')
+      expect(projectValidator.validateField('ownerId', '')).toBe('Project owner is required')
+      expect(projectValidator.validateField('status', 'done')).toBe('Please choose a valid status')
+      expect(projectValidator.validateField('description', 'ok')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,134 @@
+// =============================================================================
+// Project Validator
+// =============================================================================
+
+import {
+  ProjectStatus,
+  type CreateProjectDto,
+  type UpdateProjectDto,
+  type ProjectValidationErrors,
+} from '../entities/project.model'
+
+const NAME_MIN_LENGTH = 3
+const NAME_MAX_LENGTH = 80
+const DESCRIPTION_MAX_LENGTH = 1000
+
+const STATUSES: readonly string[] = Object.values(ProjectStatus)
+
+/**
+ * Project field validation
+ */
+export const projectValidator = {
+  /**
+   * Validate project name
+   */
+  validateName(value: string | undefined | null): string | null {
+    if (!value || value.trim().length === 0) {
+      return 'Project name is required'
+    }
+    if (value.trim().length < NAME_MIN_LENGTH) {
+      return `Project name must be at least ${NAME_MIN_LENGTH} characters`
+    }
+    if (value.trim().length > NAME_MAX_LENGTH) {
+      return `Project name must be less than ${NAME_MAX_LENGTH} characters`
+    }
+    return null
+  },
+
+  /**
+   * Validate description
+   */
+  validateDescription(value: string | undefined | null): string | null {
+    if (value && value.length > DESCRIPTION_MAX_LENGTH) {
+      return `Description must be less than ${DESCRIPTION_MAX_LENGTH} characters`
+    }
+    return null
+  },
+
+  /**
+   * Validate owner
+   */
+  validateOwnerId(value: string | undefined | null): string | null {
+    if (!value || value.trim().length === 0) {
+      return 'Project owner is required'
+    }
+    return null
+  },
+
+  /**
+   * Validate status
+   */
+  validateStatus(value: string | undefined | null): string | null {
+    if (value && !STATUSES.includes(value)) {
+      return 'Please choose a valid status'
+    }
+    return null
+  },
+
+  /**
+   * Validate entire project for creation
+   */
+  validateCreate(dto: CreateProjectDto): ProjectValidationErrors {
+    return {
+      name: this.validateName(dto.name),
+      description: this.validateDescription(dto.description),
+      ownerId: this.validateOwnerId(dto.ownerId),
+      status: this.validateStatus(dto.status),
+    }
+  },
+
+  /**
+   * Validate entire project for update
+   */
+  validateUpdate(dto: UpdateProjectDto): ProjectValidationErrors {
+    const errors: ProjectValidationErrors = {}
+
+    if (dto.name !== undefined) {
+      errors.name = this.validateName(dto.name)
+    }
+    if (dto.description !== undefined) {
+      errors.description = this.validateDescription(dto.description)
+    }
+    if (dto.ownerId !== undefined) {
+      errors.ownerId = this.validateOwnerId(dto.ownerId)
+    }
+    if (dto.status !== undefined) {
+      errors.status = this.validateStatus(dto.status)
+    }
+
+    return errors
+  },
+
+  /**
+   * Check if validation errors object has any errors
+   */
+  hasErrors(errors: ProjectValidationErrors): boolean {
+    return Object.values(errors).some((error) => error !== null && error !== undefined)
+  },
+
+  /**
+   * Get first error message from validation errors
+   */
+  getFirstError(errors: ProjectValidationErrors): string | null {
+    const firstError = Object.values(errors).find((error) => error !== null && error !== undefined)
+    return firstError ?? null
+  },
+
+  /**
+   * Validate a single field by name
+   */
+  validateField(fieldName: keyof ProjectValidationErrors, value: string | undefined | null): string | null {
+    switch (fieldName) {
+      case 'name':
+        return this.validateName(value)
+      case 'description':
+        return this.validateDescription(value)
+      case 'ownerId':
+        return this.validateOwnerId(value)
+      case 'status':
+        return this.validateStatus(value)
+      default:
+        return null
+    }
+  },
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { taskValidator } from './taskValidator'
+
+describe('taskValidator', () => {
+  describe('validateTitle', () => {
+    it('should return error for empty value', () => {
+      expect(taskValidator.validateTitle('')).toBe('Task title is required')
+      expect(taskValidator.validateTitle(null)).toBe('Task title is required')
+      expect(taskValidator.validateTitle('   ')).toBe('Task title is required')
+    })
+
+    it('should return error for too short or too long value', () => {
+      expect(taskValidator.validateTitle('AB')).toBe('Task title must be at least 3 characters')
+      expect(taskValidator.validateTitle('A'.repeat(121))).toBe('Task title must be less than 120 characters')
+    })
+
+    it('should return null for valid title', () => {
+      expect(taskValidator.validateTitle('Write release notes')).toBeNull()
+    })
+  })
+
+  describe('validatePriority', () => {
+    it('should accept known priorities and no priority', () => {
+      expect(taskValidator.validatePriority('high')).toBeNull()
+      expect(taskValidator.validatePriority(undefined)).toBeNull()
+    })
+
+    it('should reject unknown priorities', () => {
+      expect(taskValidator.validatePriority('urgent')).toBe('Please choose a valid priority')
+    })
+  })
+
+  describe('validateDueDate', () => {
+    it('should allow no due date', () => {
+      expect(taskValidator.validateDueDate(null)).toBeNull()
+      expect(taskValidator.validateDueDate('')).toBeNull()
+    })
+
+    it('should accept dates and date strings', () => {
+      expect(taskValidator.validateDueDate(new Date('2025-06-30'))).toBeNull()
+      expect(taskValidator.validateDueDate('2025-06-30')).toBeNull()
+    })
+
+    it('should reject invalid dates', () => {
+      expect(taskValidator.validateDueDate('not a date')).toBe('Please enter a valid due date')
+    })
+  })
+
+  describe('validateTransition', () => {
+    it('should allow one step forward or back', () => {
+      expect(taskValidator.validateTransition('todo', 'in-progress')).toBeNull()
+      expect(taskValidator.validateTransition('review', 'in-progress')).toBeNull()
+      expect(taskValidator.validateTransition('done', 'review')).toBeNull()
+    })
+
+    it('should allow keeping the same status', () => {
+      expect(taskValidator.validateTransition('review', 'review')).toBeNull()
+    })
+
+    it('should reject skipping steps', () => {
+      expect(taskValidator.validateTransition('todo', 'done')).toBe('A task cannot move from todo to done')
+      expect(taskValidator.validateTransition('done', 'todo')).toBe('A task cannot move from done to todo')
+    })
+  })
+
+  describe('validateCreate', () => {
+    it('should validate every field', () => {
+      const errors = taskValidator.validateCreate({ title: '', dueDate: new Date('invalid') })
+
+      expect(errors.title).toBe('Task title is required')
+      expect(errors.dueDate).toBe('Please enter a valid due date')
+      expect(taskValidator.hasErrors(errors)).toBe(true)
+      expect(taskValidator.getFirstError(errors)).toBe('Task title is required')
+    })
+
+    it('should pass a valid task', () => {
+      const errors = taskValidator.validateCreate({ title: 'Ship it', priority: 'high', assigneeId: '1' })
+
+      expect(taskValidator.hasErrors(errors)).toBe(false)
+      expect(taskValidator.getFirstError(errors)).toBeNull()
+    })
+  })
+
+  describe('validateUpdate', () => {
+    it('should only validate provided fields', () => {
+      expect(taskValidator.validateUpdate({ assigneeId: null })).toEqual({})
+      expect(taskValidator.validateUpdate({ title: 'AB' })).toEqual({
+        title: 'Task title must be at least 3 characters',
+      })
+    })
+  })
+
+  describe('validateField', () => {
+    it('should dispatch to the field validator', () => {
+      expect(taskValidator.validateField('title', '')).toBe('Task title is required')
+      expect(taskValidator.validateField('status', 'blocked')).toBe('Please choose a valid status')
+      expect(taskValidator.validateField('priority', 'normal')).toBeNull()
+      expect(taskValidator.validateField('dueDate', '2025-13-45')).toBe('Please enter a valid due date')
+    })
+  })
+})
@@ -0,0 +1,165 @@
+// =============================================================================
+// Task Validator
+// =============================================================================
+
+import {
+  TaskStatus,
+  TaskPriority,
+  canTransition,
+  type CreateTaskDto,
+  type UpdateTaskDto,
+  type TaskValidationErrors,
+} from '../entities/task.model'
+
+const TITLE_MIN_LENGTH = 3
+const TITLE_MAX_LENGTH = 120
+const DESCRIPTION_MAX_LENGTH = 1000
+
+const STATUSES: readonly string[] = Object.values(TaskStatus)
+const PRIORITIES: readonly string[] = Object.values(TaskPriority)
+
+/**
+ * Task field validation
+ */
+export const taskValidator = {
+  /**
+   * Validate task title
+   */
+  validateTitle(value: string | undefined | null): string | null {
+    if (!value || value.trim().length === 0) {
+      return 'Task title is required'
+    }
+    if (value.trim().length < TITLE_MIN_LENGTH) {
+      return `Task title must be at least ${TITLE_MIN_LENGTH} characters`
+    }
+    if (value.trim().length > TITLE_MAX_LENGTH) {
+      return `Task title must be less than ${TITLE_MAX_LENGTH} characters`
+    }
+    return null
+  },
+
+  /**
+   * Validate description
+   */
+  validateDescription(value: string | undefined | null): string | null {
+    if (value && value.length > DESCRIPTION_MAX_LENGTH) {
+      return `Description must be less than ${DESCRIPTION_MAX_LENGTH} characters`
+    }
+    return null
+  },
+
+  /**
+   * Validate status
+   */
+  validateStatus(value: string | undefined | null): string | null {
+    if (value && !STATUSES.includes(value)) {
+      return 'Please choose a valid status'
+    }
+    return null
+  },
+
+  /**
+   * Validate priority
+   */
+  validatePriority(value: string | undefined | null): string | null {
+    if (value && !PRIORITIES.includes(value)) {
+      return 'Please choose a valid priority'
+    }
+    return null
+  },
+
+  /**
+   * Validate due date (a Date, or a form value such as `2025-06-30`)
+   */
+  validateDueDate(value: Date | string | undefined | null): string | null {
+    if (!value) return null
+    const date = value instanceof Date ? value : new Date(value)
+    if (Number.isNaN(date.getTime())) {
+      return 'Please enter a valid due date'
+    }
+    return null
+  },
+
+  /**
+   * Validate a status change against the workflow
+   */
+  validateTransition(from: TaskStatus, to: TaskStatus): string | null {
+    if (from === to || canTransition(from, to)) {
+      return null
+    }
+    return `A task cannot move from ${from} to ${to}`
+  },
+
+  /**
+   * Validate entire task for creation
+   */
+  validateCreate(dto: CreateTaskDto): TaskValidationErrors {
+    return {
+      title: this.validateTitle(dto.title),
+      description: this.validateDescription(dto.description),
+      status: this.validateStatus(dto.status),
+      priority: this.validatePriority(dto.priority),
+      dueDate: this.validateDueDate(dto.dueDate),
+    }
+  },
+
+  /**
+   * Validate entire task for update
+   */
+  validateUpdate(dto: UpdateTaskDto): TaskValidationErrors {
+    const errors: TaskValidationErrors = {}
+
+    if (dto.title !== undefined) {
+      errors.title = this.validateTitle(dto.title)
+    }
+    if (dto.description !== undefined) {
+      errors.description = this.validateDescription(dto.description)
+    }
+    if (dto.status !== undefined) {
+      errors.status = this.validateStatus(dto.status)
+    }
+    if (dto.priority !== undefined) {
+      errors.priority = this.validatePriority(dto.priority)
+    }
+    if (dto.dueDate !== undefined) {
+      errors.dueDate = this.validateDueDate(dto.dueDate)
+    }
+
+    return errors
+  },
+
+  /**
+   * Check if validation errors object has any errors
+   */
+  hasErrors(errors: TaskValidationErrors): boolean {
+    return Object.values(errors).some((error) => error !== null && error !== undefined)
+  },
+
+  /**
+   * Get first error message from validation errors
+   */
+  getFirstError(errors: TaskValidationErrors): string | null {
+    const firstError = Object.values(errors).find((error) => error !== null && error !== undefined)
+    return firstError ?? null
+  },
+
+  /**
+   * Validate a single field by name
+   */
+  validateField(fieldName: keyof TaskValidationErrors, value: string | undefined | null): string | null {
+    switch (fieldName) {
+      case 'title':
+        return this.validateTitle(value)
+      case 'description':
+        return this.validateDescription(value)
+      case 'status':
+        return this.validateStatus(value)
+      case 'priority':
+        return this.validatePriority(value)
+      case 'dueDate':
+        return this.validateDueDate(value)
+      default:
+        return null
+    }
+  },
+}
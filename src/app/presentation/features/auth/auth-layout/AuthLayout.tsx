@@ -0,0 +1,36 @@
+// =============================================================================
+// Auth Layout
+// =============================================================================
+// Centered card shared by the sign-in, sign-out and session-expired pages,
+// which render outside the main layout.
+// =============================================================================
+
+import type { ReactNode } from 'react'
+import { APP_CONSTANTS } from '@core/constants/app.constants'
+import './AuthLayout.scss'
+
+interface AuthLayoutProps {
+  title?: string
+  subtitle?: string
+  children: ReactNode
+}
+
+export function AuthLayout({ title, subtitle, children }: Readonly<AuthLayoutProps>) {
+  return (
+    <div className="auth-page">
+      <div className="auth-card card">
+        <div className="card-body">
+          <div className="auth-brand">
+            <i className="bi bi-hexagon-fill text-primary me-2"></i>
+            <span>{APP_CONSTANTS.APP_NAME}</span>
+          </div>
+
+          {title && <h2 className="auth-title">{title}</h2>}
+          {subtitle && <p className="text-muted text-center mb-4">{subtitle}</p>}
+
+          {children}
+        </div>
+      </div>
+    </div>
+  )
+}
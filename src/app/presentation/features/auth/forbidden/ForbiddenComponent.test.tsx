@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { ForbiddenComponent } from './ForbiddenComponent'
+
+describe('ForbiddenComponent', () => {
+  it('should explain the page is off limits and link home', () => {
+    render(
+      <MemoryRouter>
+        <I18nProvider>
+          <ForbiddenComponent />
+        </I18nProvider>
+      </MemoryRouter>
+    )
+
+    expect(screen.getByRole('heading', { name: 'Access Denied' })).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: /back to dashboard/i })).toHaveAttribute('href', '/home')
+  })
+})
@@ -0,0 +1,29 @@
+// =============================================================================
+// Forbidden Component
+// =============================================================================
+// 403 page for deep links to routes the signed-in role cannot open.
+// =============================================================================
+
+import { Link } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { Routes } from '@core/navigation'
+
+export function ForbiddenComponent() {
+  const { t } = useI18n()
+
+  return (
+    <div className="container-fluid py-4">
+      <div className="card">
+        <div className="card-body text-center py-5">
+          <i className="bi bi-shield-lock text-danger" style={{ fontSize: '4rem', opacity: 0.75 }}></i>
+          <h2 className="mt-3">{t('auth.forbidden.title')}</h2>
+          <p className="text-muted">{t('auth.forbidden.message')}</p>
+          <Link to={Routes.HOME} className="btn btn-primary">
+            <i className="bi bi-house-door me-2"></i>
+            {t('auth.forbidden.button')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import { LoginComponent } from './LoginComponent'
+import type { LoginOutput } from '../viewmodels/loginViewModel'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+const mockUseLoginViewModel = vi.fn()
+
+const defaultOutput: LoginOutput = {
+  email: '',
+  password: '',
+  errors: {},
+  submitError: null,
+  isSubmitting: false,
+  isValid: false,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/loginViewModel', () => ({
+  useLoginViewModel: (returnTo: string) => {
+    mockUseLoginViewModel(returnTo)
+    return { output: currentOutput, dispatch: mockDispatch }
+  },
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderLogin(route = '/login', user = createMockAuthService(null)) {
+  return render(
+    <MemoryRouter initialEntries={[route]}>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(user.service)}>
+          <AuthProvider>
+            <Routes>
+              <Route path="/login" element={<LoginComponent />} />
+              <Route path="*" element={<div>Returned</div>} />
+            </Routes>
+          </AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </MemoryRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('LoginComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+  })
+
+  it('should render the sign-in form', () => {
+    renderLogin()
+
+    expect(screen.getByRole('heading', { name: 'Sign In' })).toBeInTheDocument()
+    expect(screen.getByLabelText('Email')).toBeInTheDocument()
+    expect(screen.getByLabelText('Password')).toBeInTheDocument()
+  })
+
+  it('should pass a safe returnTo to the ViewModel', () => {
+    renderLogin('/login?returnTo=%2Fusers%2F1')
+    expect(mockUseLoginViewModel).toHaveBeenLastCalledWith('/users/1')
+
+    renderLogin('/login?returnTo=https%3A%2F%2Fevil.example')
+    expect(mockUseLoginViewModel).toHaveBeenLastCalledWith('/home')
+  })
+
+  it('should dispatch SET_FIELD on input change', async () => {
+    const user = userEvent.setup()
+    renderLogin()
+
+    await act(async () => {
+      await user.type(screen.getByLabelText('Email'), 'a')
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_FIELD', field: 'email', value: 'a' })
+  })
+
+  it('should dispatch SUBMIT on form submit', async () => {
+    const user = userEvent.setup()
+    renderLogin()
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /sign in/i }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SUBMIT' })
+  })
+
+  it('should show field and submit errors', () => {
+    currentOutput = {
+      ...defaultOutput,
+      errors: { email: 'Email is required' },
+      submitError: 'Invalid email or password',
+    }
+    renderLogin()
+
+    expect(screen.getByText('Email is required')).toBeInTheDocument()
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid email or password')
+  })
+
+  it('should disable the form while signing in', () => {
+    currentOutput = { ...defaultOutput, isSubmitting: true }
+    renderLogin()
+
+    expect(screen.getByLabelText('Email')).toBeDisabled()
+    expect(screen.getByText('Signing in...')).toBeInTheDocument()
+  })
+
+  it('should send signed-in users to the return page', () => {
+    renderLogin('/login?returnTo=%2Fusers', createMockAuthService())
+
+    expect(screen.getByText('Returned')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,120 @@
+// =============================================================================
+// Login Component
+// =============================================================================
+// Sign-in form driven by LoginViewModel. Signed-in users are sent straight on
+// to the `returnTo` page.
+// =============================================================================
+
+import { Navigate, useLocation } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { useAuth } from '@core/providers/AuthProvider'
+import { getReturnTo } from '@core/navigation'
+import { APP_CONSTANTS } from '@core/constants/app.constants'
+import { AuthLayout } from '../auth-layout/AuthLayout'
+import { useLoginViewModel, type LoginField } from '../viewmodels/loginViewModel'
+
+export function LoginComponent() {
+  const { t } = useI18n()
+  const { search } = useLocation()
+  const { isAuthenticated } = useAuth()
+  const returnTo = getReturnTo(search)
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useLoginViewModel(returnTo)
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target
+    void dispatch({ type: 'SET_FIELD', field: name as LoginField, value })
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    void dispatch({ type: 'SUBMIT' })
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  if (isAuthenticated) {
+    return <Navigate to={returnTo} replace />
+  }
+
+  return (
+    <AuthLayout
+      title={t('auth.login.title')}
+      subtitle={t('auth.login.subtitle', { app: APP_CONSTANTS.APP_NAME })}
+    >
+      {/* API Error Alert */}
+      {output.submitError && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.submitError}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} noValidate>
+        {/* Email */}
+        <div className="mb-3">
+          <label htmlFor="email" className="form-label">
+            {t('auth.login.field.email')}
+          </label>
+          <input
+            type="email"
+            id="email"
+            name="email"
+            autoComplete="username"
+            className={`form-control ${output.errors.email ? 'is-invalid' : ''}`}
+            placeholder={t('auth.login.placeholder.email')}
+            value={output.email}
+            onChange={handleChange}
+            disabled={output.isSubmitting}
+          />
+          {output.errors.email && <div className="invalid-feedback">{output.errors.email}</div>}
+        </div>
+
+        {/* Password */}
+        <div className="mb-4">
+          <label htmlFor="password" className="form-label">
+            {t('auth.login.field.password')}
+          </label>
+          <input
+            type="password"
+            id="password"
+            name="password"
+            autoComplete="current-password"
+            className={`form-control ${output.errors.password ? 'is-invalid' : ''}`}
+            placeholder={t('auth.login.placeholder.password')}
+            value={output.password}
+            onChange={handleChange}
+            disabled={output.isSubmitting}
+          />
+          {output.errors.password && <div className="invalid-feedback">{output.errors.password}</div>}
+        </div>
+
+        <button type="submit" className="btn btn-primary w-100" disabled={output.isSubmitting}>
+          {output.isSubmitting ? (
+            <>
+              <span className="spinner-border spinner-border-sm me-2"></span>
+              {t('auth.login.button.signing.in')}
+            </>
+          ) : (
+            <>
+              <i className="bi bi-box-arrow-in-right me-2"></i>
+              {t('auth.login.button')}
+            </>
+          )}
+        </button>
+      </form>
+    </AuthLayout>
+  )
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import { LogoutComponent } from './LogoutComponent'
+
+function renderLogout(mock = createMockAuthService()) {
+  render(
+    <MemoryRouter initialEntries={['/logout']}>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(mock.service)}>
+          <Routes>
+            <Route path="/logout" element={<LogoutComponent />} />
+            <Route path="/login" element={<div>Login page</div>} />
+          </Routes>
+        </DIProvider>
+      </I18nProvider>
+    </MemoryRouter>
+  )
+  return mock
+}
+
+describe('LogoutComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should sign out and open the login page', async () => {
+    const { service } = renderLogout()
+
+    expect(screen.getByText('Signing out...')).toBeInTheDocument()
+    expect(await screen.findByText('Login page')).toBeInTheDocument()
+    expect(service.logout).toHaveBeenCalledTimes(1)
+  })
+
+  it('should open the login page even if the server logout fails', async () => {
+    const mock = createMockAuthService()
+    mock.service.logout.mockResolvedValueOnce({ success: false, error: 'Server not responding' } as never)
+
+    renderLogout(mock)
+
+    expect(await screen.findByText('Login page')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,44 @@
+// =============================================================================
+// Logout Component
+// =============================================================================
+// Ends the session on mount, then opens the sign-in page.
+// =============================================================================
+
+import { useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { useAuthService } from '@core/di/DIProvider'
+import { Routes } from '@core/navigation'
+import { AuthLayout } from '../auth-layout/AuthLayout'
+
+export function LogoutComponent() {
+  const { t } = useI18n()
+  const navigate = useNavigate()
+  const authService = useAuthService()
+
+  useEffect(() => {
+    let cancelled = false
+
+    // The local session ends even when the server cannot be reached
+    void authService.logout().then(() => {
+      if (!cancelled) {
+        navigate(Routes.LOGIN, { replace: true })
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [authService, navigate])
+
+  return (
+    <AuthLayout>
+      <output className="d-block text-center py-3">
+        <div className="spinner-border text-primary">
+          <span className="visually-hidden">{t('common.loading')}</span>
+        </div>
+        <p className="mt-3 mb-0 text-muted">{t('auth.logout.signing.out')}</p>
+      </output>
+    </AuthLayout>
+  )
+}
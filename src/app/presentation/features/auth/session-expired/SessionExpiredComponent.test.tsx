@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { SessionExpiredComponent } from './SessionExpiredComponent'
+
+function renderSessionExpired(route: string) {
+  render(
+    <MemoryRouter initialEntries={[route]}>
+      <I18nProvider>
+        <SessionExpiredComponent />
+      </I18nProvider>
+    </MemoryRouter>
+  )
+}
+
+describe('SessionExpiredComponent', () => {
+  it('should explain that the session ended', () => {
+    renderSessionExpired('/session-expired')
+
+    expect(screen.getByRole('heading', { name: 'Session Expired' })).toBeInTheDocument()
+  })
+
+  it('should link to login with the return path', () => {
+    renderSessionExpired('/session-expired?returnTo=%2Fusers%2F1')
+
+    expect(screen.getByRole('link', { name: /sign in again/i })).toHaveAttribute(
+      'href',
+      '/login?returnTo=%2Fusers%2F1'
+    )
+  })
+
+  it('should return home without a return path', () => {
+    renderSessionExpired('/session-expired')
+
+    expect(screen.getByRole('link', { name: /sign in again/i })).toHaveAttribute(
+      'href',
+      '/login?returnTo=%2Fhome'
+    )
+  })
+})
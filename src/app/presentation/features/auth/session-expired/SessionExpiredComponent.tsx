@@ -0,0 +1,30 @@
+// =============================================================================
+// Session Expired Component
+// =============================================================================
+// Shown when ApiService gives up on the session. Signing in again returns to
+// the page that was open.
+// =============================================================================
+
+import { Link, useLocation } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { Routes, buildReturnPath, getReturnTo } from '@core/navigation'
+import { AuthLayout } from '../auth-layout/AuthLayout'
+
+export function SessionExpiredComponent() {
+  const { t } = useI18n()
+  const { search } = useLocation()
+  const loginPath = buildReturnPath(Routes.LOGIN, getReturnTo(search))
+
+  return (
+    <AuthLayout title={t('auth.session.expired.title')}>
+      <div className="text-center">
+        <i className="bi bi-clock-history text-warning d-block mb-3" style={{ fontSize: '3rem' }}></i>
+        <p className="text-muted mb-4">{t('auth.session.expired.message')}</p>
+        <Link to={loginPath} className="btn btn-primary w-100">
+          <i className="bi bi-box-arrow-in-right me-2"></i>
+          {t('auth.session.expired.button')}
+        </Link>
+      </div>
+    </AuthLayout>
+  )
+}
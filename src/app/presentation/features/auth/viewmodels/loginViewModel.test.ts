@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const { mockNavigate, mockAuthService } = vi.hoisted(() => ({
+  mockNavigate: vi.fn(),
+  mockAuthService: {
+    login: vi.fn(),
+  },
+}))
+
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+vi.mock('@/app/core/di', () => ({
+  useAuthService: () => mockAuthService,
+}))
+
+import { useLoginViewModel } from './loginViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function fillIn(
+  result: { current: ReturnType<typeof useLoginViewModel> },
+  email: string,
+  password: string
+) {
+  await act(async () => {
+    await result.current.dispatch({ type: 'SET_FIELD', field: 'email', value: email })
+  })
+  await act(async () => {
+    await result.current.dispatch({ type: 'SET_FIELD', field: 'password', value: password })
+  })
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useLoginViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should start with an empty, invalid form', () => {
+    const { result } = renderHook(() => useLoginViewModel('/home'))
+
+    expect(result.current.output).toEqual({
+      email: '',
+      password: '',
+      errors: {},
+      submitError: null,
+      isSubmitting: false,
+      isValid: false,
+    })
+  })
+
+  it('should be valid once both fields are filled in', async () => {
+    const { result } = renderHook(() => useLoginViewModel('/home'))
+
+    await fillIn(result, 'admin@arcana.io', 'secret')
+
+    expect(result.current.output.isValid).toBe(true)
+  })
+
+  it('should show validation errors instead of submitting', async () => {
+    const { result } = renderHook(() => useLoginViewModel('/home'))
+
+    await fillIn(result, 'not-an-email', '')
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(result.current.output.errors).toEqual({
+      email: 'Please enter a valid email address',
+      password: 'Password is required',
+    })
+    expect(mockAuthService.login).not.toHaveBeenCalled()
+  })
+
+  it('should clear a field error when the field changes', async () => {
+    const { result } = renderHook(() => useLoginViewModel('/home'))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'password', value: 'x' })
+    })
+
+    expect(result.current.output.errors.password).toBeNull()
+    expect(result.current.output.errors.email).toBe('Email is required')
+  })
+
+  it('should sign in and return to the requested page', async () => {
+    mockAuthService.login.mockResolvedValue({ success: true })
+    const { result } = renderHook(() => useLoginViewModel('/users/1'))
+
+    await fillIn(result, ' admin@arcana.io ', 'secret')
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockAuthService.login).toHaveBeenCalledWith({ email: 'admin@arcana.io', password: 'secret' })
+    expect(mockNavigate).toHaveBeenCalledWith('/users/1', { replace: true })
+    expect(result.current.output.isSubmitting).toBe(false)
+  })
+
+  it('should show the service error when sign-in fails', async () => {
+    mockAuthService.login.mockResolvedValue({ success: false, error: 'Invalid email or password' })
+    const { result } = renderHook(() => useLoginViewModel('/home'))
+
+    await fillIn(result, 'admin@arcana.io', 'wrong')
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(result.current.output.submitError).toBe('Invalid email or password')
+    expect(result.current.output.isSubmitting).toBe(false)
+    expect(mockNavigate).not.toHaveBeenCalled()
+  })
+
+  it('should dismiss the submit error', async () => {
+    mockAuthService.login.mockResolvedValue({ success: false })
+    const { result } = renderHook(() => useLoginViewModel('/home'))
+
+    await fillIn(result, 'admin@arcana.io', 'wrong')
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+    expect(result.current.output.submitError).toBe('Login failed')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DISMISS_ERROR' })
+    })
+
+    expect(result.current.output.submitError).toBeNull()
+  })
+})
@@ -0,0 +1,203 @@
+// =============================================================================
+// Login ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Validates the credentials, signs in through AuthService and returns the
+// user to the page they were sent away from.
+// =============================================================================
+
+import { useCallback, useEffect, useReducer } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuthService } from '@/app/core/di'
+import { userValidator } from '@/app/domain/validators/userValidator'
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type LoginField = 'email' | 'password'
+
+export type LoginInput =
+  | { type: 'SET_FIELD'; field: LoginField; value: string }
+  | { type: 'SUBMIT' }
+  | { type: 'DISMISS_ERROR' }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export type LoginErrors = Partial<Record<LoginField, string | null>>
+
+export interface LoginOutput {
+  email: string
+  password: string
+  errors: LoginErrors
+  submitError: string | null
+  isSubmitting: boolean
+  isValid: boolean
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type LoginEffect = { type: 'REPLACE_ROUTE'; path: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface LoginState {
+  email: string
+  password: string
+  errors: LoginErrors
+  submitError: string | null
+  isSubmitting: boolean
+  pendingEffect: LoginEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type LoginAction =
+  | { type: 'SET_FIELD'; field: LoginField; value: string }
+  | { type: 'SET_ERRORS'; payload: LoginErrors }
+  | { type: 'SET_SUBMITTING'; payload: boolean }
+  | { type: 'SET_SUBMIT_ERROR'; payload: string | null }
+  | { type: 'SET_EFFECT'; payload: LoginEffect }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+const initialState: LoginState = {
+  email: '',
+  password: '',
+  errors: {},
+  submitError: null,
+  isSubmitting: false,
+  pendingEffect: null,
+}
+
+function loginReducer(state: LoginState, action: LoginAction): LoginState {
+  switch (action.type) {
+    case 'SET_FIELD':
+      return {
+        ...state,
+        [action.field]: action.value,
+        errors: { ...state.errors, [action.field]: null },
+      }
+    case 'SET_ERRORS':
+      return { ...state, errors: action.payload }
+    case 'SET_SUBMITTING':
+      return { ...state, isSubmitting: action.payload, submitError: null }
+    case 'SET_SUBMIT_ERROR':
+      return { ...state, submitError: action.payload, isSubmitting: false }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function validate(state: LoginState): LoginErrors {
+  return {
+    email: userValidator.validateEmail(state.email),
+    password: state.password ? null : 'Password is required',
+  }
+}
+
+function hasErrors(errors: LoginErrors): boolean {
+  return Object.values(errors).some(Boolean)
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseLoginViewModel {
+  output: LoginOutput
+  dispatch: (input: LoginInput) => Promise<void>
+}
+
+/**
+ * @param returnTo - Path to open after a successful sign-in
+ */
+export function useLoginViewModel(returnTo: string): UseLoginViewModel {
+  const navigate = useNavigate()
+  const authService = useAuthService()
+  const [state, internalDispatch] = useReducer(loginReducer, initialState)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    navigate(state.pendingEffect.path, { replace: true })
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  const handleSubmit = useCallback(async () => {
+    const errors = validate(state)
+    if (hasErrors(errors)) {
+      internalDispatch({ type: 'SET_ERRORS', payload: errors })
+      return
+    }
+
+    internalDispatch({ type: 'SET_SUBMITTING', payload: true })
+
+    const result = await authService.login({ email: state.email.trim(), password: state.password })
+
+    if (result.success) {
+      internalDispatch({ type: 'SET_SUBMITTING', payload: false })
+      internalDispatch({ type: 'SET_EFFECT', payload: { type: 'REPLACE_ROUTE', path: returnTo } })
+    } else {
+      internalDispatch({ type: 'SET_SUBMIT_ERROR', payload: result.error || 'Login failed' })
+    }
+  }, [state, authService, returnTo])
+
+  const dispatch = useCallback(
+    async (input: LoginInput) => {
+      switch (input.type) {
+        case 'SET_FIELD':
+          internalDispatch({ type: 'SET_FIELD', field: input.field, value: input.value })
+          break
+        case 'SUBMIT':
+          await handleSubmit()
+          break
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_SUBMIT_ERROR', payload: null })
+          break
+      }
+    },
+    [handleSubmit]
+  )
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: LoginOutput = {
+    email: state.email,
+    password: state.password,
+    errors: state.errors,
+    submitError: state.submitError,
+    isSubmitting: state.isSubmitting,
+    isValid: !hasErrors(validate(state)),
+  }
+
+  return { output, dispatch }
+}
@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act, fireEvent, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BrowserRouter } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import type { CalendarEvent } from '@/app/domain/entities/calendar-event.model'
+import type { Task } from '@/app/domain/entities/task.model'
+import { CalendarViewComponent } from './CalendarViewComponent'
+import type { CalendarItem, CalendarOutput } from '../viewmodels/calendarViewModel'
+import { visibleDays, visibleRange } from '../calendarDates'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+
+const CURSOR = new Date(2025, 5, 18)
+
+const mockEvent: CalendarEvent = {
+  id: '1',
+  title: 'Sprint review',
+  description: '',
+  location: 'Room 4',
+  start: new Date(2025, 5, 18, 14, 0),
+  end: new Date(2025, 5, 18, 15, 0),
+  allDay: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const mockTask: Task = {
+  id: '7',
+  title: 'Ship release',
+  description: '',
+  status: 'todo',
+  priority: 'high',
+  dueDate: new Date(2025, 5, 20),
+  assigneeId: '1',
+  projectId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const eventItem: CalendarItem = {
+  kind: 'event',
+  id: '1',
+  title: 'Sprint review',
+  start: mockEvent.start,
+  end: mockEvent.end,
+  allDay: false,
+  event: mockEvent,
+}
+
+const taskItem: CalendarItem = {
+  kind: 'task',
+  id: '7',
+  title: 'Ship release',
+  start: new Date(2025, 5, 20),
+  end: new Date(2025, 5, 20),
+  allDay: true,
+  task: mockTask,
+}
+
+function outputFor(view: CalendarOutput['view'], weekStart = 0): CalendarOutput {
+  return {
+    view,
+    cursor: CURSOR,
+    events: [mockEvent],
+    tasks: [mockTask],
+    editor: null,
+    isLoading: false,
+    isRefreshing: false,
+    isImporting: false,
+    isExporting: false,
+    error: null,
+    successMessage: null,
+    isOnline: true,
+    weekStart,
+    range: visibleRange(view, CURSOR, weekStart),
+    days: visibleDays(view, CURSOR, weekStart),
+    itemsByDay: { '2025-06-18': [eventItem], '2025-06-20': [taskItem] },
+  }
+}
+
+let currentOutput = outputFor('month')
+
+const mockUseCalendarViewModel = vi.fn()
+vi.mock('../viewmodels/calendarViewModel', () => ({
+  useCalendarViewModel: (...args: unknown[]) => {
+    mockUseCalendarViewModel(...args)
+    return { output: currentOutput, dispatch: mockDispatch }
+  },
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(ui: React.ReactElement, role: UserRole = 'Admin') {
+  const { service } = createMockAuthService({ ...TEST_USER, role })
+  return render(
+    <BrowserRouter>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(service)}>
+          <AuthProvider>{ui}</AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </BrowserRouter>
+  )
+}
+
+function dayCell(container: HTMLElement, key: string): HTMLElement {
+  return container.querySelector(`[data-day="${key}"]`) as HTMLElement
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('CalendarViewComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = outputFor('month')
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('renders the month with events and task due dates on their days', () => {
+    const { container } = renderWithProviders(<CalendarViewComponent />)
+
+    expect(screen.getByText('June 2025')).toBeInTheDocument()
+    expect(within(dayCell(container, '2025-06-18')).getByText('Sprint review')).toBeInTheDocument()
+    expect(within(dayCell(container, '2025-06-20')).getByText('Ship release')).toBeInTheDocument()
+    expect(container.querySelectorAll('.calendar-day')).toHaveLength(35)
+  })
+
+  it('starts the week and formats dates for the current language', () => {
+    localStorage.getItem = vi.fn().mockImplementation((key: string) => (key === 'arcana_language' ? 'de' : null))
+    currentOutput = outputFor('month', 1)
+
+    const { container } = renderWithProviders(<CalendarViewComponent />)
+
+    expect(mockUseCalendarViewModel).toHaveBeenCalledWith(1)
+    expect(container.querySelector('.calendar-weekday')).toHaveTextContent('Mo')
+    expect(screen.getByText('Juni 2025')).toBeInTheDocument()
+  })
+
+  it('renders the hours of the day view', () => {
+    currentOutput = outputFor('day')
+    const { container } = renderWithProviders(<CalendarViewComponent />)
+
+    expect(container.querySelectorAll('[data-hour]')).toHaveLength(24)
+    expect(within(container.querySelector('[data-hour="14"]') as HTMLElement).getByText('Sprint review')).toBeInTheDocument()
+  })
+
+  it('renders the error alert', () => {
+    currentOutput = { ...outputFor('month'), error: 'Failed to load calendar' }
+    renderWithProviders(<CalendarViewComponent />)
+    expect(screen.getByText('Failed to load calendar')).toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches RESCHEDULE when an item is dropped on another day', () => {
+    const { container } = renderWithProviders(<CalendarViewComponent />)
+    const dataTransfer = { setData: vi.fn(), effectAllowed: '', dropEffect: '' }
+
+    fireEvent.dragStart(screen.getByText('Sprint review'), { dataTransfer })
+    fireEvent.dragOver(dayCell(container, '2025-06-25'), { dataTransfer })
+    fireEvent.drop(dayCell(container, '2025-06-25'), { dataTransfer })
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'RESCHEDULE',
+      item: eventItem,
+      day: new Date(2025, 5, 25),
+      hour: undefined,
+    })
+  })
+
+  it('dispatches RESCHEDULE with the hour dropped on in the day view', () => {
+    currentOutput = outputFor('day')
+    const { container } = renderWithProviders(<CalendarViewComponent />)
+    const dataTransfer = { setData: vi.fn(), effectAllowed: '', dropEffect: '' }
+
+    fireEvent.dragStart(screen.getByText('Sprint review'), { dataTransfer })
+    fireEvent.drop(container.querySelector('[data-hour="9"]') as HTMLElement, { dataTransfer })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'RESCHEDULE', item: eventItem, day: CURSOR, hour: 9 })
+  })
+
+  it('opens events in the editor and tasks on their page', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<CalendarViewComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByText('Sprint review'))
+    })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'OPEN_EVENT', event: mockEvent })
+
+    await act(async () => {
+      await user.click(screen.getByText('Ship release'))
+    })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'NAVIGATE_TO_TASK', id: '7' })
+  })
+
+  it('switches views and moves between periods', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<CalendarViewComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: 'Week' }))
+      await user.click(screen.getByTitle('Next'))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_VIEW', view: 'week' })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'GO_TO_NEXT' })
+  })
+
+  it('edits and saves an event', async () => {
+    currentOutput = {
+      ...outputFor('month'),
+      editor: {
+        eventId: '1',
+        title: 'Sprint review',
+        description: '',
+        location: 'Room 4',
+        allDay: false,
+        start: '2025-06-18T14:00',
+        end: '2025-06-18T15:00',
+        errors: { end: 'End must not be before the start' },
+        isSubmitting: false,
+        submitError: null,
+      },
+    }
+    const user = userEvent.setup()
+    renderWithProviders(<CalendarViewComponent />)
+
+    expect(screen.getByText('Edit Event')).toBeInTheDocument()
+    expect(screen.getByText('End must not be before the start')).toBeInTheDocument()
+
+    await act(async () => {
+      await user.type(screen.getByLabelText('Location'), '7')
+      await user.click(screen.getByRole('button', { name: 'Save' }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_EDITOR_FIELD', field: 'location', value: 'Room 47' })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SAVE_EVENT' })
+  })
+
+  it('dispatches IMPORT_ICS with the chosen file and EXPORT_ICS', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<CalendarViewComponent />)
+    const file = new File(['BEGIN:VCALENDAR'], 'team.ics', { type: 'text/calendar' })
+
+    await act(async () => {
+      await user.upload(screen.getByTestId('calendar-import'), file)
+    })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'IMPORT_ICS', text: 'BEGIN:VCALENDAR' })
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Export .ics/ }))
+    })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'EXPORT_ICS' })
+  })
+
+  // --- Permissions ---
+
+  it('shows Guests a read-only calendar', () => {
+    renderWithProviders(<CalendarViewComponent />, 'Guest')
+
+    expect(screen.queryByRole('button', { name: /New Event/ })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Import .ics/ })).not.toBeInTheDocument()
+    expect(screen.getByText('Sprint review').closest('button')).toHaveAttribute('draggable', 'false')
+  })
+})
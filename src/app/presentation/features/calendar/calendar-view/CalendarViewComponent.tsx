@@ -0,0 +1,548 @@
+// =============================================================================
+// Calendar View Component
+// =============================================================================
+// Presentation layer component that uses CalendarViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// Week start and date formats follow the current language.
+// =============================================================================
+
+import { useRef } from 'react'
+import { useI18n } from '@core/providers/I18nProvider'
+import { usePermission } from '@core/providers/usePermission'
+import { Can } from '@shared/components/Can/Can'
+import {
+  useCalendarViewModel,
+  type CalendarEditorField,
+  type CalendarItem,
+} from '../viewmodels/calendarViewModel'
+import {
+  WEEK_START,
+  dayKey,
+  formatDayHeading,
+  formatHour,
+  formatRangeTitle,
+  formatTime,
+  isSameDay,
+  weekdayLabels,
+  type CalendarView,
+} from '../calendarDates'
+import './CalendarViewComponent.scss'
+
+const VIEWS: readonly CalendarView[] = ['month', 'week', 'day']
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+export function CalendarViewComponent() {
+  const { t, currentLanguage } = useI18n()
+  const canCreateEvents = usePermission('event:create')
+  const canUpdateEvents = usePermission('event:update')
+  const canUpdateTasks = usePermission('task:update')
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useCalendarViewModel(WEEK_START[currentLanguage])
+
+  // Item being dragged (kept here, drag data only carries strings)
+  const dragged = useRef<CalendarItem | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const today = new Date()
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleRefresh = () => {
+    void dispatch({ type: 'REFRESH_CALENDAR' })
+  }
+
+  const handleSetView = (view: CalendarView) => {
+    void dispatch({ type: 'SET_VIEW', view })
+  }
+
+  const handlePrevious = () => {
+    void dispatch({ type: 'GO_TO_PREVIOUS' })
+  }
+
+  const handleNext = () => {
+    void dispatch({ type: 'GO_TO_NEXT' })
+  }
+
+  const handleToday = () => {
+    void dispatch({ type: 'GO_TO_TODAY' })
+  }
+
+  const handleOpenDay = (day: Date) => {
+    void dispatch({ type: 'OPEN_DAY', day })
+  }
+
+  const handleNewEvent = (day: Date = output.cursor, hour?: number) => {
+    void dispatch({ type: 'OPEN_NEW_EVENT', day, hour })
+  }
+
+  const handleOpenItem = (item: CalendarItem) => {
+    if (item.kind === 'task') {
+      void dispatch({ type: 'NAVIGATE_TO_TASK', id: item.id })
+    } else if (canUpdateEvents) {
+      void dispatch({ type: 'OPEN_EVENT', event: item.event })
+    }
+  }
+
+  const handleEditorField = (field: CalendarEditorField, value: string) => {
+    void dispatch({ type: 'SET_EDITOR_FIELD', field, value })
+  }
+
+  const handleEditorAllDay = (e: React.ChangeEvent<HTMLInputElement>) => {
+    void dispatch({ type: 'SET_EDITOR_ALL_DAY', allDay: e.target.checked })
+  }
+
+  const handleSaveEvent = (e: React.FormEvent) => {
+    e.preventDefault()
+    void dispatch({ type: 'SAVE_EVENT' })
+  }
+
+  const handleDeleteEvent = () => {
+    if (output.editor && globalThis.confirm(t('calendar.delete.message', { title: output.editor.title }))) {
+      void dispatch({ type: 'DELETE_EVENT' })
+    }
+  }
+
+  const handleCloseEditor = () => {
+    void dispatch({ type: 'CLOSE_EDITOR' })
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) {
+      await dispatch({ type: 'IMPORT_ICS', text: await file.text() })
+    }
+  }
+
+  const handleExport = () => {
+    void dispatch({ type: 'EXPORT_ICS' })
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  const handleDismissSuccess = () => {
+    void dispatch({ type: 'DISMISS_SUCCESS' })
+  }
+
+  // ==========================================================================
+  // Drag to Reschedule
+  // ==========================================================================
+
+  const canMove = (item: CalendarItem) => (item.kind === 'event' ? canUpdateEvents : canUpdateTasks)
+
+  const handleDragStart = (e: React.DragEvent, item: CalendarItem) => {
+    dragged.current = item
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', `${item.kind}:${item.id}`)
+  }
+
+  const handleDragEnd = () => {
+    dragged.current = null
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (dragged.current) {
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, day: Date, hour?: number) => {
+    e.preventDefault()
+    const item = dragged.current
+    dragged.current = null
+    if (item) {
+      void dispatch({ type: 'RESCHEDULE', item, day, hour })
+    }
+  }
+
+  const dropTarget = (day: Date, hour?: number) => ({
+    onDragOver: handleDragOver,
+    onDrop: (e: React.DragEvent) => handleDrop(e, day, hour),
+  })
+
+  // ==========================================================================
+  // Helper Functions
+  // ==========================================================================
+
+  const itemsOn = (day: Date) => output.itemsByDay[dayKey(day)] ?? []
+
+  const renderItem = (item: CalendarItem, day: Date) => {
+    const draggable = canMove(item)
+    const startsToday = isSameDay(item.start, day)
+    return (
+      <button
+        key={`${item.kind}:${item.id}`}
+        type="button"
+        className={`calendar-item calendar-item-${item.kind} ${item.kind === 'task' && item.task.status === 'done' ? 'is-done' : ''}`}
+        draggable={draggable}
+        onDragStart={draggable ? (e) => handleDragStart(e, item) : undefined}
+        onDragEnd={handleDragEnd}
+        onClick={() => handleOpenItem(item)}
+        title={item.kind === 'task' ? `${t('calendar.task.due')}: ${item.title}` : item.title}
+      >
+        <i className={`bi ${item.kind === 'task' ? 'bi-check2-square' : 'bi-calendar-event'} me-1`}></i>
+        {!item.allDay && startsToday && <span className="calendar-item-time">{formatTime(item.start, currentLanguage)}</span>}
+        <span className="calendar-item-title">{item.title}</span>
+      </button>
+    )
+  }
+
+  const renderMonth = () => (
+    <div className="calendar-month">
+      <div className="calendar-weekdays">
+        {weekdayLabels(currentLanguage, output.weekStart).map((label) => (
+          <div key={label} className="calendar-weekday">
+            {label}
+          </div>
+        ))}
+      </div>
+      <div className="calendar-grid">
+        {output.days.map((day) => (
+          <div
+            key={dayKey(day)}
+            className={`calendar-day ${day.getMonth() === output.cursor.getMonth() ? '' : 'is-outside'} ${isSameDay(day, today) ? 'is-today' : ''}`}
+            data-day={dayKey(day)}
+            {...dropTarget(day)}
+          >
+            <button type="button" className="calendar-day-number" onClick={() => handleOpenDay(day)}>
+              {new Intl.DateTimeFormat(currentLanguage, { day: 'numeric' }).format(day)}
+            </button>
+            <div className="calendar-day-items">{itemsOn(day).map((item) => renderItem(item, day))}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+
+  const renderWeek = () => (
+    <div className="calendar-week">
+      {output.days.map((day) => (
+        <div
+          key={dayKey(day)}
+          className={`calendar-week-day ${isSameDay(day, today) ? 'is-today' : ''}`}
+          data-day={dayKey(day)}
+          {...dropTarget(day)}
+        >
+          <button type="button" className="calendar-week-heading" onClick={() => handleOpenDay(day)}>
+            {formatDayHeading(day, currentLanguage)}
+          </button>
+          <div className="calendar-day-items">{itemsOn(day).map((item) => renderItem(item, day))}</div>
+        </div>
+      ))}
+    </div>
+  )
+
+  const renderDay = () => {
+    const day = output.days[0]
+    const items = itemsOn(day)
+    // Timed items starting on another day stay with the all-day ones
+    const allDay = items.filter((item) => item.allDay || !isSameDay(item.start, day))
+    const timed = items.filter((item) => !allDay.includes(item))
+    return (
+      <div className="calendar-day-view">
+        <div className="calendar-hour calendar-all-day" data-day={dayKey(day)} {...dropTarget(day)}>
+          <div className="calendar-hour-label">{t('calendar.all.day')}</div>
+          <div className="calendar-day-items">{allDay.map((item) => renderItem(item, day))}</div>
+        </div>
+        {HOURS.map((hour) => (
+          <div key={hour} className="calendar-hour" data-hour={hour} {...dropTarget(day, hour)}>
+            <div className="calendar-hour-label">{formatHour(hour, currentLanguage)}</div>
+            <div className="calendar-day-items">
+              {timed.filter((item) => item.start.getHours() === hour).map((item) => renderItem(item, day))}
+              {canCreateEvents && (
+                <button
+                  type="button"
+                  className="calendar-hour-add"
+                  onClick={() => handleNewEvent(day, hour)}
+                  title={t('calendar.new.event')}
+                >
+                  <i className="bi bi-plus"></i>
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const renderEditor = () => {
+    const editor = output.editor
+    if (!editor) return null
+    const inputType = editor.allDay ? 'date' : 'datetime-local'
+    const fieldClass = (field: keyof typeof editor.errors) =>
+      `form-control ${editor.errors[field] ? 'is-invalid' : ''}`
+    return (
+      <div className="card calendar-editor mb-4">
+        <div className="card-header d-flex justify-content-between align-items-center">
+          <h5 className="mb-0">
+            {t(editor.eventId ? 'calendar.editor.edit.title' : 'calendar.editor.create.title')}
+          </h5>
+          <button type="button" className="btn-close" onClick={handleCloseEditor} aria-label={t('common.close')}></button>
+        </div>
+        <form className="card-body" onSubmit={handleSaveEvent} noValidate>
+          {editor.submitError && (
+            <div className="alert alert-danger" role="alert">
+              <i className="bi bi-exclamation-triangle me-2"></i>
+              {editor.submitError}
+            </div>
+          )}
+          <div className="row g-3">
+            <div className="col-md-6">
+              <label htmlFor="event-title" className="form-label">
+                {t('calendar.editor.field.title')}
+              </label>
+              <input
+                id="event-title"
+                type="text"
+                className={fieldClass('title')}
+                placeholder={t('calendar.editor.placeholder.title')}
+                value={editor.title}
+                onChange={(e) => handleEditorField('title', e.target.value)}
+              />
+              {editor.errors.title && <div className="invalid-feedback">{editor.errors.title}</div>}
+            </div>
+            <div className="col-md-6">
+              <label htmlFor="event-location" className="form-label">
+                {t('calendar.editor.field.location')}
+              </label>
+              <input
+                id="event-location"
+                type="text"
+                className={fieldClass('location')}
+                value={editor.location}
+                onChange={(e) => handleEditorField('location', e.target.value)}
+              />
+              {editor.errors.location && <div className="invalid-feedback">{editor.errors.location}</div>}
+            </div>
+            <div className="col-md-5">
+              <label htmlFor="event-start" className="form-label">
+                {t('calendar.editor.field.start')}
+              </label>
+              <input
+                id="event-start"
+                type={inputType}
+                className={fieldClass('start')}
+                value={editor.start}
+                onChange={(e) => handleEditorField('start', e.target.value)}
+              />
+              {editor.errors.start && <div className="invalid-feedback">{editor.errors.start}</div>}
+            </div>
+            <div className="col-md-5">
+              <label htmlFor="event-end" className="form-label">
+                {t('calendar.editor.field.end')}
+              </label>
+              <input
+                id="event-end"
+                type={inputType}
+                className={fieldClass('end')}
+                value={editor.end}
+                onChange={(e) => handleEditorField('end', e.target.value)}
+              />
+              {editor.errors.end && <div className="invalid-feedback">{editor.errors.end}</div>}
+            </div>
+            <div className="col-md-2 d-flex align-items-end">
+              <div className="form-check mb-2">
+                <input
+                  id="event-all-day"
+                  type="checkbox"
+                  className="form-check-input"
+                  checked={editor.allDay}
+                  onChange={handleEditorAllDay}
+                />
+                <label htmlFor="event-all-day" className="form-check-label">
+                  {t('calendar.editor.field.all.day')}
+                </label>
+              </div>
+            </div>
+            <div className="col-12">
+              <label htmlFor="event-description" className="form-label">
+                {t('calendar.editor.field.description')}
+              </label>
+              <textarea
+                id="event-description"
+                rows={2}
+                className={fieldClass('description')}
+                value={editor.description}
+                onChange={(e) => handleEditorField('description', e.target.value)}
+              />
+              {editor.errors.description && <div className="invalid-feedback">{editor.errors.description}</div>}
+            </div>
+          </div>
+          <div className="d-flex justify-content-between mt-3">
+            <div>
+              {editor.eventId && (
+                <Can permission="event:delete">
+                  <button type="button" className="btn btn-outline-danger" onClick={handleDeleteEvent}>
+                    <i className="bi bi-trash me-2"></i>
+                    {t('common.delete')}
+                  </button>
+                </Can>
+              )}
+            </div>
+            <div className="d-flex gap-2">
+              <button type="button" className="btn btn-outline-secondary" onClick={handleCloseEditor}>
+                {t('common.cancel')}
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={editor.isSubmitting}>
+                {editor.isSubmitting ? t('calendar.editor.button.saving') : t('common.save')}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    )
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  return (
+    <div className="calendar-page container-fluid py-4">
+      {/* Page Header */}
+      <div className="page-header d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h2 className="mb-1">{t('calendar.title')}</h2>
+          <p className="text-muted mb-0">{t('calendar.subtitle')}</p>
+        </div>
+        <div className="d-flex gap-2">
+          <Can permission="event:create">
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={() => fileInput.current?.click()}
+              disabled={output.isImporting}
+            >
+              <i className="bi bi-upload me-2"></i>
+              {output.isImporting ? t('calendar.importing') : t('calendar.import')}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".ics,text/calendar"
+              className="d-none"
+              data-testid="calendar-import"
+              onChange={(e) => void handleImportFile(e)}
+            />
+          </Can>
+          <button
+            type="button"
+            className="btn btn-outline-secondary"
+            onClick={handleExport}
+            disabled={output.isExporting}
+          >
+            <i className="bi bi-download me-2"></i>
+            {t('calendar.export')}
+          </button>
+          <Can permission="event:create">
+            <button type="button" className="btn btn-primary" onClick={() => handleNewEvent()}>
+              <i className="bi bi-plus-lg me-2"></i>
+              {t('calendar.new.event')}
+            </button>
+          </Can>
+        </div>
+      </div>
+
+      {/* Alerts */}
+      {output.successMessage && (
+        <div className="alert alert-success alert-dismissible fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+          <button type="button" className="btn-close" onClick={handleDismissSuccess}></button>
+        </div>
+      )}
+
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {renderEditor()}
+
+      {/* Toolbar */}
+      <div className="card mb-4">
+        <div className="card-body calendar-toolbar d-flex flex-wrap justify-content-between align-items-center gap-3">
+          <div className="d-flex align-items-center gap-2">
+            <div className="btn-group">
+              <button className="btn btn-outline-secondary" onClick={handlePrevious} title={t('calendar.previous')}>
+                <i className="bi bi-chevron-left"></i>
+              </button>
+              <button className="btn btn-outline-secondary" onClick={handleToday}>
+                {t('calendar.today')}
+              </button>
+              <button className="btn btn-outline-secondary" onClick={handleNext} title={t('calendar.next')}>
+                <i className="bi bi-chevron-right"></i>
+              </button>
+            </div>
+            <h4 className="calendar-range-title mb-0">
+              {formatRangeTitle(output.view, output.cursor, currentLanguage, output.weekStart)}
+            </h4>
+          </div>
+          <div className="d-flex align-items-center gap-2">
+            <div className="btn-group" role="group">
+              {VIEWS.map((view) => (
+                <button
+                  key={view}
+                  className={`btn ${output.view === view ? 'btn-primary' : 'btn-outline-primary'}`}
+                  onClick={() => handleSetView(view)}
+                  aria-pressed={output.view === view}
+                >
+                  {t(`calendar.view.${view}`)}
+                </button>
+              ))}
+            </div>
+            <button
+              className="btn btn-outline-secondary"
+              onClick={handleRefresh}
+              disabled={output.isRefreshing}
+              title={t('common.refresh')}
+            >
+              <i className={`bi bi-arrow-clockwise ${output.isRefreshing ? 'spin' : ''}`}></i>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {output.isLoading && (
+        <div className="text-center py-5">
+          <output className="d-block">
+            <div className="spinner-border text-primary">
+              <span className="visually-hidden">{t('common.loading')}</span>
+            </div>
+            <p className="mt-3 text-muted">{t('common.loading')}</p>
+          </output>
+        </div>
+      )}
+
+      {/* Calendar */}
+      {!output.isLoading && (
+        <div className="card">
+          <div className="card-body">
+            {output.view === 'month' && renderMonth()}
+            {output.view === 'week' && renderWeek()}
+            {output.view === 'day' && renderDay()}
+          </div>
+          {(canUpdateEvents || canUpdateTasks) && (
+            <div className="card-footer text-muted small">
+              <i className="bi bi-arrows-move me-2"></i>
+              {t('calendar.drag.hint')}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
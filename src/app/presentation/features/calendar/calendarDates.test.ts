@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import {
+  WEEK_START,
+  addMonths,
+  dayKey,
+  formatRangeTitle,
+  fromInputValue,
+  moveToDay,
+  overlapsRange,
+  shiftCursor,
+  startOfWeek,
+  toDateTimeInputValue,
+  visibleDays,
+  visibleRange,
+  weekdayLabels,
+} from './calendarDates'
+
+describe('calendarDates', () => {
+  describe('startOfWeek', () => {
+    it('goes back to the locale week start', () => {
+      // Wednesday 2025-06-18
+      const wednesday = new Date(2025, 5, 18, 15, 30)
+
+      expect(startOfWeek(wednesday, WEEK_START.en)).toEqual(new Date(2025, 5, 15))
+      expect(startOfWeek(wednesday, WEEK_START.de)).toEqual(new Date(2025, 5, 16))
+    })
+
+    it('keeps a day that already starts the week', () => {
+      expect(startOfWeek(new Date(2025, 5, 16), 1)).toEqual(new Date(2025, 5, 16))
+    })
+  })
+
+  describe('visibleRange', () => {
+    it('covers whole weeks around the month', () => {
+      // June 2025 starts on a Sunday and ends on a Monday
+      const range = visibleRange('month', new Date(2025, 5, 18), 1)
+
+      expect(range).toEqual({ start: new Date(2025, 4, 26), end: new Date(2025, 6, 7) })
+      expect(visibleDays('month', new Date(2025, 5, 18), 1)).toHaveLength(42)
+    })
+
+    it('ends the month grid at the next week start', () => {
+      // February 2026 runs Sunday 1st to Saturday 28th
+      expect(visibleDays('month', new Date(2026, 1, 10), 0)).toHaveLength(28)
+    })
+
+    it('covers seven days for a week and one for a day', () => {
+      expect(visibleDays('week', new Date(2025, 5, 18), 0).map(dayKey)).toEqual([
+        '2025-06-15',
+        '2025-06-16',
+        '2025-06-17',
+        '2025-06-18',
+        '2025-06-19',
+        '2025-06-20',
+        '2025-06-21',
+      ])
+      expect(visibleRange('day', new Date(2025, 5, 18, 9), 0)).toEqual({
+        start: new Date(2025, 5, 18),
+        end: new Date(2025, 5, 19),
+      })
+    })
+  })
+
+  describe('shiftCursor', () => {
+    it('moves by the span of the view', () => {
+      const cursor = new Date(2025, 0, 31)
+
+      expect(shiftCursor('month', cursor, 1)).toEqual(new Date(2025, 1, 28))
+      expect(shiftCursor('week', cursor, -1)).toEqual(new Date(2025, 0, 24))
+      expect(shiftCursor('day', cursor, 1)).toEqual(new Date(2025, 1, 1))
+    })
+  })
+
+  describe('addMonths', () => {
+    it('clamps to the last day of shorter months', () => {
+      expect(addMonths(new Date(2024, 2, 31), -1)).toEqual(new Date(2024, 1, 29))
+    })
+  })
+
+  describe('overlapsRange', () => {
+    const range = { start: new Date(2025, 5, 18), end: new Date(2025, 5, 19) }
+
+    it('matches spans crossing the range', () => {
+      expect(overlapsRange(new Date(2025, 5, 17, 22), new Date(2025, 5, 18, 1), range)).toBe(true)
+      expect(overlapsRange(new Date(2025, 5, 16), new Date(2025, 5, 18), range)).toBe(false)
+    })
+
+    it('matches instants on the day they happen', () => {
+      expect(overlapsRange(new Date(2025, 5, 18), new Date(2025, 5, 18), range)).toBe(true)
+      expect(overlapsRange(new Date(2025, 5, 19), new Date(2025, 5, 19), range)).toBe(false)
+    })
+  })
+
+  describe('moveToDay', () => {
+    it('keeps the time of day', () => {
+      expect(moveToDay(new Date(2025, 5, 18, 9, 30), new Date(2025, 5, 20))).toEqual(new Date(2025, 5, 20, 9, 30))
+    })
+
+    it('moves to an hour keeping the minutes', () => {
+      expect(moveToDay(new Date(2025, 5, 18, 9, 30), new Date(2025, 5, 18), 14)).toEqual(
+        new Date(2025, 5, 18, 14, 30)
+      )
+    })
+  })
+
+  describe('form values', () => {
+    it('round-trips datetime-local values', () => {
+      const date = new Date(2025, 5, 18, 9, 5)
+
+      expect(toDateTimeInputValue(date)).toBe('2025-06-18T09:05')
+      expect(fromInputValue('2025-06-18T09:05')).toEqual(date)
+    })
+
+    it('reads date values as local midnight', () => {
+      expect(fromInputValue('2025-06-18')).toEqual(new Date(2025, 5, 18))
+      expect(fromInputValue('')).toBeNull()
+      expect(fromInputValue('soon')).toBeNull()
+    })
+  })
+
+  describe('locale formatting', () => {
+    it('orders weekday names from the week start', () => {
+      expect(weekdayLabels('en', 0)[0]).toBe('Sun')
+      expect(weekdayLabels('de', 1)[0]).toBe('Mo')
+    })
+
+    it('formats the month title in the language', () => {
+      expect(formatRangeTitle('month', new Date(2025, 5, 18), 'en', 0)).toBe('June 2025')
+      expect(formatRangeTitle('month', new Date(2025, 5, 18), 'fr', 1)).toBe('juin 2025')
+    })
+  })
+})
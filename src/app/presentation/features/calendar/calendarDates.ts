@@ -0,0 +1,221 @@
+// =============================================================================
+// Calendar Dates - Local Date Math and Locale Formatting
+// =============================================================================
+// All calendar math runs on local dates: a day is local midnight to the next
+// local midnight, so daylight-saving days keep their place in the grid.
+// =============================================================================
+
+import type { Language } from '@core/providers/I18nProvider'
+
+/**
+ * Calendar layouts
+ */
+export type CalendarView = 'month' | 'week' | 'day'
+
+/**
+ * First day of the week per language (0 = Sunday, 1 = Monday)
+ */
+export const WEEK_START: Readonly<Record<Language, number>> = {
+  en: 0,
+  zh: 1,
+  'zh-TW': 0,
+  es: 1,
+  fr: 1,
+  de: 1,
+}
+
+/**
+ * Visible span of a view; `end` is exclusive
+ */
+export interface DateRange {
+  start: Date
+  end: Date
+}
+
+// =============================================================================
+// Date Math
+// =============================================================================
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+/**
+ * Same day of another month, clamped to that month's last day
+ */
+export function addMonths(date: Date, months: number): Date {
+  const first = new Date(date.getFullYear(), date.getMonth() + months, 1)
+  const lastDay = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate()
+  return new Date(first.getFullYear(), first.getMonth(), Math.min(date.getDate(), lastDay))
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+}
+
+export function startOfWeek(date: Date, weekStart: number): Date {
+  const day = startOfDay(date)
+  return addDays(day, -((day.getDay() - weekStart + 7) % 7))
+}
+
+/**
+ * Days on screen: whole weeks covering the month, one week, or one day
+ */
+export function visibleRange(view: CalendarView, cursor: Date, weekStart: number): DateRange {
+  switch (view) {
+    case 'month': {
+      const first = new Date(cursor.getFullYear(), cursor.getMonth(), 1)
+      const nextMonth = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)
+      const start = startOfWeek(first, weekStart)
+      const end = startOfWeek(addDays(nextMonth, 6), weekStart)
+      return { start, end }
+    }
+    case 'week': {
+      const start = startOfWeek(cursor, weekStart)
+      return { start, end: addDays(start, 7) }
+    }
+    case 'day': {
+      const start = startOfDay(cursor)
+      return { start, end: addDays(start, 1) }
+    }
+  }
+}
+
+export function visibleDays(view: CalendarView, cursor: Date, weekStart: number): Date[] {
+  const { start, end } = visibleRange(view, cursor, weekStart)
+  const days: Date[] = []
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+/**
+ * Cursor one month, week or day before or after
+ */
+export function shiftCursor(view: CalendarView, cursor: Date, direction: 1 | -1): Date {
+  switch (view) {
+    case 'month':
+      return addMonths(cursor, direction)
+    case 'week':
+      return addDays(cursor, 7 * direction)
+    case 'day':
+      return addDays(cursor, direction)
+  }
+}
+
+/**
+ * Whether something from `start` to `end` shows on a range; an instant
+ * (start equal to end) shows on the day it happens
+ */
+export function overlapsRange(start: Date, end: Date, range: DateRange): boolean {
+  if (start >= range.end) return false
+  return end > range.start || start >= range.start
+}
+
+/**
+ * Move a start to another day, keeping its time of day, or to an hour of
+ * that day keeping its minutes
+ */
+export function moveToDay(start: Date, day: Date, hour?: number): Date {
+  return new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    hour ?? start.getHours(),
+    start.getMinutes(),
+    start.getSeconds()
+  )
+}
+
+/**
+ * Local `YYYY-MM-DD` key of a day
+ */
+export function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// =============================================================================
+// Form Values
+// =============================================================================
+
+/**
+ * Value for a date input (`YYYY-MM-DD`)
+ */
+export function toDateInputValue(date: Date): string {
+  return dayKey(date)
+}
+
+/**
+ * Value for a datetime-local input (`YYYY-MM-DDTHH:mm`)
+ */
+export function toDateTimeInputValue(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0')
+  const minutes = String(date.getMinutes()).padStart(2, '0')
+  return `${dayKey(date)}T${hours}:${minutes}`
+}
+
+/**
+ * Date of a date or datetime-local input value, read as local time
+ */
+export function fromInputValue(value: string): Date | null {
+  if (!value) return null
+  const date = new Date(value.length === 10 ? `${value}T00:00:00` : value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// =============================================================================
+// Locale Formatting
+// =============================================================================
+
+/**
+ * Short weekday names in display order
+ */
+export function weekdayLabels(language: Language, weekStart: number): string[] {
+  const format = new Intl.DateTimeFormat(language, { weekday: 'short' })
+  // 2023-01-01 was a Sunday
+  return Array.from({ length: 7 }, (_, i) => format.format(new Date(2023, 0, 1 + ((weekStart + i) % 7))))
+}
+
+/**
+ * Heading of a view: the month, the week's first and last day, or the day
+ */
+export function formatRangeTitle(view: CalendarView, cursor: Date, language: Language, weekStart: number): string {
+  switch (view) {
+    case 'month':
+      return new Intl.DateTimeFormat(language, { month: 'long', year: 'numeric' }).format(cursor)
+    case 'week': {
+      const { start, end } = visibleRange('week', cursor, weekStart)
+      const format = new Intl.DateTimeFormat(language, { day: 'numeric', month: 'short', year: 'numeric' })
+      return format.formatRange(start, addDays(end, -1))
+    }
+    case 'day':
+      return new Intl.DateTimeFormat(language, { dateStyle: 'full' }).format(cursor)
+  }
+}
+
+/**
+ * Day heading in week and day views
+ */
+export function formatDayHeading(date: Date, language: Language): string {
+  return new Intl.DateTimeFormat(language, { weekday: 'short', day: 'numeric', month: 'short' }).format(date)
+}
+
+export function formatTime(date: Date, language: Language): string {
+  return new Intl.DateTimeFormat(language, { hour: 'numeric', minute: '2-digit' }).format(date)
+}
+
+/**
+ * Label of an hour row in the day view
+ */
+export function formatHour(hour: number, language: Language): string {
+  return new Intl.DateTimeFormat(language, { hour: 'numeric' }).format(new Date(2023, 0, 1, hour))
+}
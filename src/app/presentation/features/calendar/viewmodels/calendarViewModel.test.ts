@@ -0,0 +1,574 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { CalendarEvent } from '@/app/domain/entities/calendar-event.model'
+import type { Task } from '@/app/domain/entities/task.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type { CalendarEventChange, CalendarEventService } from '@/app/domain/services/calendarEventService'
+import type { TaskChange, TaskService } from '@/app/domain/services/taskService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockEventIdMappings = new Subject<IdMapping>()
+const mockEventUpdates = new Subject<CalendarEventChange>()
+const mockTaskIdMappings = new Subject<IdMapping>()
+const mockTaskUpdates = new Subject<TaskChange>()
+
+const mockCalendarEventService: CalendarEventService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  reschedule: vi.fn(),
+  delete: vi.fn(),
+  importICalendar: vi.fn(),
+  exportICalendar: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockEventIdMappings.asObservable(),
+  updates$: mockEventUpdates.asObservable(),
+}
+
+const mockTaskService: TaskService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  transition: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockTaskIdMappings.asObservable(),
+  updates$: mockTaskUpdates.asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useCalendarEventService: () => mockCalendarEventService,
+  useTaskService: () => mockTaskService,
+}))
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useCalendarViewModel, type CalendarItem } from './calendarViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Wednesday 18 June 2025
+const TODAY = new Date(2025, 5, 18)
+
+function createMockEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: '1',
+    title: 'Sprint review',
+    description: '',
+    location: 'Room 4',
+    start: new Date(2025, 5, 18, 14, 0),
+    end: new Date(2025, 5, 18, 15, 30),
+    allDay: false,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  }
+}
+
+function createMockTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: '7',
+    title: 'Ship release',
+    description: '',
+    status: 'todo',
+    priority: 'high',
+    dueDate: new Date(2025, 5, 20),
+    assigneeId: '1',
+    projectId: null,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  }
+}
+
+function pageOf<T>(items: T[]): ServiceResult<PaginatedResponse<T>> {
+  return { success: true, data: { data: items, page: 1, pageSize: 500, total: items.length, totalPages: 1 } }
+}
+
+/** Flush microtasks so fire-and-forget promises in useEffect resolve */
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+async function renderLoaded(weekStart = 0) {
+  const hook = renderHook(() => useCalendarViewModel(weekStart, TODAY))
+  await act(async () => {
+    await flushPromises()
+  })
+  await waitFor(() => {
+    expect(hook.result.current.output.isLoading).toBe(false)
+  })
+  return hook
+}
+
+function itemsOn(output: { itemsByDay: Record<string, CalendarItem[]> }, key: string) {
+  return (output.itemsByDay[key] ?? []).map((item) => `${item.kind}:${item.id}`)
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useCalendarViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf<CalendarEvent>([]))
+    vi.mocked(mockTaskService.getList).mockResolvedValue(pageOf<Task>([]))
+    vi.mocked(mockCalendarEventService.isOnline).mockReturnValue(true)
+  })
+
+  // ---------------------------------------------------------------------------
+  // Loading and views
+  // ---------------------------------------------------------------------------
+
+  it('loads events and tasks and places them on their days', async () => {
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([createMockEvent()]))
+    vi.mocked(mockTaskService.getList).mockResolvedValue(
+      pageOf([createMockTask(), createMockTask({ id: '8', dueDate: null })])
+    )
+
+    const { result } = await renderLoaded()
+
+    // The visible weeks of June: Sunday 1 June up to Sunday 6 July
+    const start = new Date(2025, 5, 1)
+    const end = new Date(2025, 6, 6)
+    expect(mockCalendarEventService.getList).toHaveBeenCalledWith(
+      { page: 1, pageSize: 500, sortBy: 'start', sortOrder: 'asc', range: { start: { to: end }, end: { from: start } } },
+      undefined,
+      { policy: 'stale-while-revalidate' }
+    )
+    expect(mockTaskService.getList).toHaveBeenCalledWith(
+      { page: 1, pageSize: 500, sortBy: 'updatedAt', sortOrder: 'desc', range: { dueDate: { from: start, to: end } } },
+      undefined,
+      { policy: 'stale-while-revalidate' }
+    )
+    expect(itemsOn(result.current.output, '2025-06-18')).toEqual(['event:1'])
+    expect(itemsOn(result.current.output, '2025-06-20')).toEqual(['task:7'])
+  })
+
+  it('reads every page of the visible range', async () => {
+    vi.mocked(mockCalendarEventService.getList)
+      .mockResolvedValueOnce({
+        success: true,
+        data: { data: [createMockEvent()], page: 1, pageSize: 500, total: 501, totalPages: 2 },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: { data: [createMockEvent({ id: '2' })], page: 2, pageSize: 500, total: 501, totalPages: 2 },
+      })
+
+    const { result } = await renderLoaded()
+
+    expect(mockCalendarEventService.getList).toHaveBeenCalledTimes(2)
+    expect(vi.mocked(mockCalendarEventService.getList).mock.calls[1][0].page).toBe(2)
+    expect(itemsOn(result.current.output, '2025-06-18')).toEqual(['event:1', 'event:2'])
+  })
+
+  it('loads the range it moves to', async () => {
+    const { result } = await renderLoaded()
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(
+      pageOf([createMockEvent({ id: '3', start: new Date(2025, 6, 15, 9), end: new Date(2025, 6, 15, 10) })])
+    )
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'GO_TO_NEXT' })
+    })
+
+    // The visible weeks of July: Sunday 29 June up to Sunday 3 August
+    expect(mockCalendarEventService.getList).toHaveBeenLastCalledWith(
+      expect.objectContaining({ range: { start: { to: new Date(2025, 7, 3) }, end: { from: new Date(2025, 5, 29) } } }),
+      undefined,
+      { policy: 'stale-while-revalidate' }
+    )
+    expect(itemsOn(result.current.output, '2025-07-15')).toEqual(['event:3'])
+    expect(result.current.output.isRefreshing).toBe(false)
+  })
+
+  it('does not reload when the visible range stays the same', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_VIEW', view: 'month' })
+    })
+
+    expect(mockCalendarEventService.getList).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops a range that arrives after the user moved on', async () => {
+    const { result } = await renderLoaded()
+    let resolveJuly: (value: ServiceResult<PaginatedResponse<CalendarEvent>>) => void = () => {}
+    vi.mocked(mockCalendarEventService.getList).mockReturnValueOnce(
+      new Promise((resolve) => {
+        resolveJuly = resolve
+      })
+    )
+
+    let july: Promise<void> = Promise.resolve()
+    act(() => {
+      july = result.current.dispatch({ type: 'GO_TO_NEXT' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'GO_TO_PREVIOUS' })
+    })
+    await act(async () => {
+      resolveJuly(pageOf([createMockEvent({ id: 'late' })]))
+      await july
+    })
+
+    expect(result.current.output.events).toEqual([])
+  })
+
+  it('reads the range again when one of its pages is refreshed in the background', async () => {
+    const { result } = await renderLoaded()
+    const params = vi.mocked(mockCalendarEventService.getList).mock.calls[0][0]
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([createMockEvent()]))
+
+    await act(async () => {
+      mockEventUpdates.next({ type: 'list', params, list: pageOf([createMockEvent()]).data! })
+      // Another list of events is not the calendar's
+      mockEventUpdates.next({ type: 'list', params: { page: 1, pageSize: 10 }, list: pageOf<CalendarEvent>([]).data! })
+      await flushPromises()
+    })
+
+    expect(mockCalendarEventService.getList).toHaveBeenCalledTimes(2)
+    expect(mockCalendarEventService.getList).toHaveBeenLastCalledWith(params, undefined, { policy: 'cache-first' })
+    expect(itemsOn(result.current.output, '2025-06-18')).toEqual(['event:1'])
+  })
+
+  it('shows the service error when loading fails', async () => {
+    vi.mocked(mockTaskService.getList).mockResolvedValue({ success: false, error: 'Network down' })
+
+    const { result } = await renderLoaded()
+
+    expect(result.current.output.error).toBe('Network down')
+  })
+
+  it('lays out the month from the locale week start', async () => {
+    const sunday = await renderLoaded(0)
+    const monday = await renderLoaded(1)
+
+    expect(sunday.result.current.output.days[0]).toEqual(new Date(2025, 5, 1))
+    expect(monday.result.current.output.days[0]).toEqual(new Date(2025, 4, 26))
+  })
+
+  it('switches views and moves by their span', async () => {
+    const { result } = await renderLoaded(1)
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_VIEW', view: 'week' })
+    })
+    expect(result.current.output.days).toHaveLength(7)
+    expect(result.current.output.days[0]).toEqual(new Date(2025, 5, 16))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'GO_TO_NEXT' })
+    })
+    expect(result.current.output.days[0]).toEqual(new Date(2025, 5, 23))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'OPEN_DAY', day: new Date(2025, 5, 25) })
+    })
+    expect(result.current.output.view).toBe('day')
+    expect(result.current.output.days).toEqual([new Date(2025, 5, 25)])
+  })
+
+  // ---------------------------------------------------------------------------
+  // Drag to reschedule
+  // ---------------------------------------------------------------------------
+
+  it('moves an event to another day at once, keeping its time', async () => {
+    const event = createMockEvent()
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([event]))
+    vi.mocked(mockCalendarEventService.reschedule).mockResolvedValue({ success: true, data: event })
+    const { result } = await renderLoaded()
+    const item = result.current.output.itemsByDay['2025-06-18'][0]
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESCHEDULE', item, day: new Date(2025, 5, 19) })
+    })
+
+    expect(mockCalendarEventService.reschedule).toHaveBeenCalledWith('1', new Date(2025, 5, 19, 14, 0))
+    expect(result.current.output.events[0].end).toEqual(new Date(2025, 5, 19, 15, 30))
+    expect(itemsOn(result.current.output, '2025-06-19')).toEqual(['event:1'])
+  })
+
+  it('moves an event to the hour it is dropped on in the day view', async () => {
+    const event = createMockEvent()
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([event]))
+    vi.mocked(mockCalendarEventService.reschedule).mockResolvedValue({ success: true, data: event })
+    const { result } = await renderLoaded()
+    const item = result.current.output.itemsByDay['2025-06-18'][0]
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESCHEDULE', item, day: TODAY, hour: 9 })
+    })
+
+    expect(mockCalendarEventService.reschedule).toHaveBeenCalledWith('1', new Date(2025, 5, 18, 9, 0))
+  })
+
+  it('moves a task due date', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(pageOf([task]))
+    vi.mocked(mockTaskService.update).mockResolvedValue({ success: true, data: task })
+    const { result } = await renderLoaded()
+    const item = result.current.output.itemsByDay['2025-06-20'][0]
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESCHEDULE', item, day: new Date(2025, 5, 23) })
+    })
+
+    expect(mockTaskService.update).toHaveBeenCalledWith('7', { dueDate: new Date(2025, 5, 23) })
+    expect(itemsOn(result.current.output, '2025-06-23')).toEqual(['task:7'])
+  })
+
+  it('puts an event back and shows a toast when a reschedule fails', async () => {
+    const event = createMockEvent()
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([event]))
+    vi.mocked(mockCalendarEventService.reschedule).mockResolvedValue({ success: false, error: 'Forbidden' })
+    const { result } = await renderLoaded()
+    const item = result.current.output.itemsByDay['2025-06-18'][0]
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESCHEDULE', item, day: new Date(2025, 5, 19) })
+    })
+
+    expect(result.current.output.events).toEqual([event])
+    expect(mockShowToast).toHaveBeenCalledWith('Forbidden', 'error')
+  })
+
+  it('ignores a drop on the same day', async () => {
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([createMockEvent()]))
+    const { result } = await renderLoaded()
+    const item = result.current.output.itemsByDay['2025-06-18'][0]
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESCHEDULE', item, day: TODAY })
+    })
+
+    expect(mockCalendarEventService.reschedule).not.toHaveBeenCalled()
+  })
+
+  // ---------------------------------------------------------------------------
+  // Event editor
+  // ---------------------------------------------------------------------------
+
+  it('creates an event from the editor', async () => {
+    const created = createMockEvent({ id: '2', title: 'Planning' })
+    vi.mocked(mockCalendarEventService.create).mockResolvedValue({ success: true, data: created })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'OPEN_NEW_EVENT', day: TODAY, hour: 11 })
+    })
+    expect(result.current.output.editor).toMatchObject({ start: '2025-06-18T11:00', end: '2025-06-18T12:00' })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_EDITOR_FIELD', field: 'title', value: 'Planning' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SAVE_EVENT' })
+    })
+
+    expect(mockCalendarEventService.create).toHaveBeenCalledWith({
+      title: 'Planning',
+      description: '',
+      location: '',
+      start: new Date(2025, 5, 18, 11),
+      end: new Date(2025, 5, 18, 12),
+      allDay: false,
+    })
+    expect(result.current.output.editor).toBeNull()
+    expect(result.current.output.events).toEqual([created])
+    expect(result.current.output.successMessage).toBe('Event created successfully')
+  })
+
+  it('saves all-day events up to midnight after their last day', async () => {
+    vi.mocked(mockCalendarEventService.create).mockResolvedValue({ success: true, data: createMockEvent() })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'OPEN_NEW_EVENT', day: TODAY })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_EDITOR_ALL_DAY', allDay: true })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_EDITOR_FIELD', field: 'title', value: 'Offsite' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SAVE_EVENT' })
+    })
+
+    expect(mockCalendarEventService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ start: TODAY, end: new Date(2025, 5, 19), allDay: true })
+    )
+  })
+
+  it('shows validation errors without saving', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'OPEN_NEW_EVENT', day: TODAY })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_EDITOR_FIELD', field: 'end', value: '2025-06-18T08:00' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SAVE_EVENT' })
+    })
+
+    expect(result.current.output.editor?.errors).toMatchObject({
+      title: 'Event title is required',
+      end: 'End must not be before the start',
+    })
+    expect(mockCalendarEventService.create).not.toHaveBeenCalled()
+  })
+
+  it('keeps the editor open with the error when saving fails', async () => {
+    const event = createMockEvent()
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([event]))
+    vi.mocked(mockCalendarEventService.update).mockResolvedValue({ success: false, error: 'Conflict' })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'OPEN_EVENT', event })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SAVE_EVENT' })
+    })
+
+    expect(mockCalendarEventService.update).toHaveBeenCalledWith('1', expect.objectContaining({ title: 'Sprint review' }))
+    expect(result.current.output.editor?.submitError).toBe('Conflict')
+  })
+
+  it('deletes the edited event', async () => {
+    const event = createMockEvent()
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([event]))
+    vi.mocked(mockCalendarEventService.delete).mockResolvedValue({ success: true })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'OPEN_EVENT', event })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'DELETE_EVENT' })
+    })
+
+    expect(mockCalendarEventService.delete).toHaveBeenCalledWith('1')
+    expect(result.current.output.events).toHaveLength(0)
+    expect(result.current.output.successMessage).toBe('Event Sprint review deleted successfully')
+  })
+
+  // ---------------------------------------------------------------------------
+  // iCalendar import and export
+  // ---------------------------------------------------------------------------
+
+  it('reports how many events an import created', async () => {
+    vi.mocked(mockCalendarEventService.importICalendar).mockResolvedValue({
+      success: true,
+      data: { imported: 3, skipped: 1 },
+    })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'IMPORT_ICS', text: 'BEGIN:VCALENDAR' })
+    })
+
+    expect(mockCalendarEventService.importICalendar).toHaveBeenCalledWith('BEGIN:VCALENDAR')
+    expect(result.current.output.successMessage).toBe('Imported 3 events, skipped 1')
+  })
+
+  it('shows the error of a failed import', async () => {
+    vi.mocked(mockCalendarEventService.importICalendar).mockResolvedValue({
+      success: false,
+      error: 'No events found in the file',
+    })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'IMPORT_ICS', text: '' })
+    })
+
+    expect(result.current.output.error).toBe('No events found in the file')
+  })
+
+  it('downloads the exported calendar', async () => {
+    vi.mocked(mockCalendarEventService.exportICalendar).mockResolvedValue({ success: true, data: 'BEGIN:VCALENDAR' })
+    const createObjectURL = vi.fn().mockReturnValue('blob:calendar')
+    const revokeObjectURL = vi.fn()
+    vi.stubGlobal('URL', { ...URL, createObjectURL, revokeObjectURL })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'EXPORT_ICS' })
+    })
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob))
+    expect(click).toHaveBeenCalled()
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:calendar')
+    click.mockRestore()
+    vi.unstubAllGlobals()
+  })
+
+  // ---------------------------------------------------------------------------
+  // Navigation, live updates and ID reconciliation
+  // ---------------------------------------------------------------------------
+
+  it('navigates to a task', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_TASK', id: '7' })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/tasks/7')
+  })
+
+  it('adds, moves and removes items changed elsewhere', async () => {
+    const event = createMockEvent()
+    const { result } = await renderLoaded()
+
+    act(() => {
+      mockEventUpdates.next({ type: 'create', event })
+      mockTaskUpdates.next({ type: 'update', task: createMockTask({ dueDate: TODAY }) })
+    })
+    expect(itemsOn(result.current.output, '2025-06-18')).toEqual(['task:7', 'event:1'])
+
+    act(() => {
+      mockEventUpdates.next({ type: 'delete', event })
+    })
+    expect(itemsOn(result.current.output, '2025-06-18')).toEqual(['task:7'])
+  })
+
+  it('remaps offline event IDs to server IDs', async () => {
+    vi.mocked(mockCalendarEventService.getList).mockResolvedValue(pageOf([createMockEvent({ id: 'offline_1' })]))
+    const { result } = await renderLoaded()
+
+    act(() => {
+      mockEventIdMappings.next({ entity: 'event', tempId: 'offline_1', serverId: '42', timestamp: Date.now() })
+    })
+
+    expect(result.current.output.events[0].id).toBe('42')
+  })
+})
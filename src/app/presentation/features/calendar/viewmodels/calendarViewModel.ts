@@ -0,0 +1,921 @@
+// =============================================================================
+// Calendar ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+//
+// Shows calendar events and task due dates in a month, week or day view.
+// Both are loaded for the visible date range, again whenever it moves.
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type {
+  CalendarEvent,
+  CalendarEventListParams,
+  CalendarEventValidationErrors,
+  CreateCalendarEventDto,
+} from '@/app/domain/entities/calendar-event.model'
+import type { Task, TaskListParams } from '@/app/domain/entities/task.model'
+import type { ListParams, PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ReadPolicy } from '@/app/domain/entities/read-policy.model'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import { useCalendarEventService, useTaskService } from '@/app/core/di'
+import { calendarEventValidator } from '@/app/domain/validators/calendarEventValidator'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+import {
+  addDays,
+  dayKey,
+  fromInputValue,
+  isSameDay,
+  moveToDay,
+  overlapsRange,
+  shiftCursor,
+  startOfDay,
+  toDateInputValue,
+  toDateTimeInputValue,
+  visibleDays,
+  visibleRange,
+  type CalendarView,
+  type DateRange,
+} from '../calendarDates'
+
+/**
+ * Page size of the event and task lists; every page of the visible range is loaded
+ */
+const CALENDAR_PAGE_SIZE = 500
+
+/**
+ * Hour a new event starts at when none is picked
+ */
+const DEFAULT_START_HOUR = 9
+
+/**
+ * Events overlapping the range (an event ending as the range starts is
+ * included too, and dropped when items are laid out)
+ */
+function eventListParams(range: DateRange, page = 1): CalendarEventListParams {
+  return {
+    page,
+    pageSize: CALENDAR_PAGE_SIZE,
+    sortBy: 'start',
+    sortOrder: 'asc',
+    range: { start: { to: range.end }, end: { from: range.start } },
+  }
+}
+
+/**
+ * Tasks due within the range
+ */
+function taskListParams(range: DateRange, page = 1): TaskListParams {
+  return {
+    page,
+    pageSize: CALENDAR_PAGE_SIZE,
+    sortBy: 'updatedAt',
+    sortOrder: 'desc',
+    range: { dueDate: { from: range.start, to: range.end } },
+  }
+}
+
+/**
+ * Whether two list params ask for pages of the same list
+ */
+function isSameList(a: ListParams, b: ListParams): boolean {
+  return JSON.stringify({ ...a, page: 0 }) === JSON.stringify({ ...b, page: 0 })
+}
+
+function isSameRange(a: DateRange, b: DateRange): boolean {
+  return a.start.getTime() === b.start.getTime() && a.end.getTime() === b.end.getTime()
+}
+
+/**
+ * Read every page of a list
+ */
+async function readAllPages<T>(
+  readPage: (page: number) => Promise<ServiceResult<PaginatedResponse<T>>>
+): Promise<ServiceResult<T[]>> {
+  const items: T[] = []
+  for (let page = 1; ; page++) {
+    const result = await readPage(page)
+    if (!result.success || !result.data) return { success: false, error: result.error }
+
+    items.push(...result.data.data)
+    if (page >= result.data.totalPages) return { success: true, data: items }
+  }
+}
+
+/**
+ * An event, or a task on its due date
+ */
+export type CalendarItem =
+  | { kind: 'event'; id: string; title: string; start: Date; end: Date; allDay: boolean; event: CalendarEvent }
+  | { kind: 'task'; id: string; title: string; start: Date; end: Date; allDay: true; task: Task }
+
+export type CalendarEditorField = 'title' | 'description' | 'location' | 'start' | 'end'
+
+/**
+ * Event being created or edited
+ * `start` and `end` are datetime-local values, or date values for all-day
+ * events where `end` is the last day
+ */
+export interface CalendarEditor {
+  eventId: string | null
+  title: string
+  description: string
+  location: string
+  allDay: boolean
+  start: string
+  end: string
+  errors: CalendarEventValidationErrors
+  isSubmitting: boolean
+  submitError: string | null
+}
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type CalendarInput =
+  | { type: 'LOAD_CALENDAR' }
+  | { type: 'REFRESH_CALENDAR' }
+  | { type: 'SET_VIEW'; view: CalendarView }
+  | { type: 'GO_TO_TODAY' }
+  | { type: 'GO_TO_PREVIOUS' }
+  | { type: 'GO_TO_NEXT' }
+  | { type: 'OPEN_DAY'; day: Date }
+  | { type: 'RESCHEDULE'; item: CalendarItem; day: Date; hour?: number }
+  | { type: 'OPEN_NEW_EVENT'; day: Date; hour?: number }
+  | { type: 'OPEN_EVENT'; event: CalendarEvent }
+  | { type: 'SET_EDITOR_FIELD'; field: CalendarEditorField; value: string }
+  | { type: 'SET_EDITOR_ALL_DAY'; allDay: boolean }
+  | { type: 'SAVE_EVENT' }
+  | { type: 'DELETE_EVENT' }
+  | { type: 'CLOSE_EDITOR' }
+  | { type: 'IMPORT_ICS'; text: string }
+  | { type: 'EXPORT_ICS' }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'DISMISS_SUCCESS' }
+  | { type: 'NAVIGATE_TO_TASK'; id: string }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface CalendarOutput {
+  // Core data
+  view: CalendarView
+  cursor: Date
+  events: CalendarEvent[]
+  tasks: Task[]
+  editor: CalendarEditor | null
+
+  // UI state
+  isLoading: boolean
+  isRefreshing: boolean
+  isImporting: boolean
+  isExporting: boolean
+  error: string | null
+  successMessage: string | null
+  isOnline: boolean
+
+  // Computed values
+  weekStart: number
+  range: DateRange
+  days: Date[]
+  /** Items on each visible day, by `YYYY-MM-DD` */
+  itemsByDay: Record<string, CalendarItem[]>
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type CalendarEffect =
+  | { type: 'NAVIGATE'; path: string }
+  | { type: 'AUTO_DISMISS_SUCCESS'; delay: number }
+  | { type: 'DOWNLOAD'; filename: string; content: string; mimeType: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface CalendarState {
+  view: CalendarView
+  cursor: Date
+  events: CalendarEvent[]
+  tasks: Task[]
+  editor: CalendarEditor | null
+  isLoading: boolean
+  isRefreshing: boolean
+  isImporting: boolean
+  isExporting: boolean
+  error: string | null
+  successMessage: string | null
+  isOnline: boolean
+  pendingEffect: CalendarEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type CalendarAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_REFRESHING'; payload: boolean }
+  | { type: 'SET_IMPORTING'; payload: boolean }
+  | { type: 'SET_EXPORTING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+  | { type: 'SET_VIEW'; payload: CalendarView }
+  | { type: 'SET_CURSOR'; payload: Date }
+  | { type: 'SET_DATA'; payload: { events: CalendarEvent[]; tasks: Task[] } }
+  | { type: 'SET_EVENTS'; payload: CalendarEvent[] }
+  | { type: 'SET_TASKS'; payload: Task[] }
+  | { type: 'UPSERT_EVENT'; payload: CalendarEvent }
+  | { type: 'REMOVE_EVENT'; payload: string }
+  | { type: 'REMAP_EVENT_ID'; payload: { tempId: string; serverId: string } }
+  | { type: 'UPSERT_TASK'; payload: Task }
+  | { type: 'REMOVE_TASK'; payload: string }
+  | { type: 'REMAP_TASK_ID'; payload: { tempId: string; serverId: string } }
+  | { type: 'OPEN_EDITOR'; payload: CalendarEditor }
+  | { type: 'SET_EDITOR_FIELD'; field: CalendarEditorField; value: string }
+  | { type: 'SET_EDITOR_ALL_DAY'; payload: boolean }
+  | { type: 'SET_EDITOR_ERRORS'; payload: CalendarEventValidationErrors }
+  | { type: 'SET_EDITOR_SUBMITTING'; payload: boolean }
+  | { type: 'SET_EDITOR_SUBMIT_ERROR'; payload: string | null }
+  | { type: 'CLOSE_EDITOR' }
+  | { type: 'SET_ONLINE'; payload: boolean }
+  | { type: 'SET_EFFECT'; payload: CalendarEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Editor Helpers
+// =============================================================================
+
+function newEditor(day: Date, hour = DEFAULT_START_HOUR): CalendarEditor {
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour)
+  return {
+    eventId: null,
+    title: '',
+    description: '',
+    location: '',
+    allDay: false,
+    start: toDateTimeInputValue(start),
+    end: toDateTimeInputValue(new Date(start.getTime() + 60 * 60 * 1000)),
+    errors: {},
+    isSubmitting: false,
+    submitError: null,
+  }
+}
+
+function editorOf(event: CalendarEvent): CalendarEditor {
+  // All-day events end at midnight after their last day
+  const lastDay = event.end > event.start ? addDays(event.end, -1) : event.start
+  return {
+    eventId: event.id,
+    title: event.title,
+    description: event.description,
+    location: event.location,
+    allDay: event.allDay,
+    start: event.allDay ? toDateInputValue(event.start) : toDateTimeInputValue(event.start),
+    end: event.allDay ? toDateInputValue(lastDay) : toDateTimeInputValue(event.end),
+    errors: {},
+    isSubmitting: false,
+    submitError: null,
+  }
+}
+
+function withAllDay(editor: CalendarEditor, allDay: boolean): CalendarEditor {
+  if (editor.allDay === allDay) return editor
+  const day = (value: string) => value.slice(0, 10)
+  return {
+    ...editor,
+    allDay,
+    start: allDay ? day(editor.start) : `${day(editor.start)}T${String(DEFAULT_START_HOUR).padStart(2, '0')}:00`,
+    end: allDay ? day(editor.end) : `${day(editor.end)}T${String(DEFAULT_START_HOUR + 1).padStart(2, '0')}:00`,
+  }
+}
+
+function validateEditor(editor: CalendarEditor): CalendarEventValidationErrors {
+  const start = fromInputValue(editor.start)
+  const end = fromInputValue(editor.end)
+  return {
+    title: calendarEventValidator.validateTitle(editor.title),
+    description: calendarEventValidator.validateDescription(editor.description),
+    location: calendarEventValidator.validateLocation(editor.location),
+    start: calendarEventValidator.validateStart(start ?? editor.start),
+    end: calendarEventValidator.validateEnd(end ?? editor.end, start),
+  }
+}
+
+/**
+ * Event fields of a valid editor
+ */
+function editorDto(editor: CalendarEditor): CreateCalendarEventDto {
+  const start = fromInputValue(editor.start)!
+  const end = fromInputValue(editor.end)!
+  return {
+    title: editor.title.trim(),
+    description: editor.description,
+    location: editor.location,
+    start,
+    end: editor.allDay ? addDays(startOfDay(end), 1) : end,
+    allDay: editor.allDay,
+  }
+}
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+function upsert<T extends { id: string }>(items: T[], item: T): T[] {
+  return items.some((existing) => existing.id === item.id)
+    ? items.map((existing) => (existing.id === item.id ? item : existing))
+    : [...items, item]
+}
+
+function remap<T extends { id: string }>(items: T[], { tempId, serverId }: { tempId: string; serverId: string }): T[] {
+  return items.map((item) => (item.id === tempId ? { ...item, id: serverId } : item))
+}
+
+function createInitialState(cursor: Date): CalendarState {
+  return {
+    view: 'month',
+    cursor: startOfDay(cursor),
+    events: [],
+    tasks: [],
+    editor: null,
+    isLoading: true,
+    isRefreshing: false,
+    isImporting: false,
+    isExporting: false,
+    error: null,
+    successMessage: null,
+    isOnline: true,
+    pendingEffect: null,
+  }
+}
+
+function calendarReducer(state: CalendarState, action: CalendarAction): CalendarState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload, error: null }
+    case 'SET_REFRESHING':
+      return { ...state, isRefreshing: action.payload }
+    case 'SET_IMPORTING':
+      return { ...state, isImporting: action.payload }
+    case 'SET_EXPORTING':
+      return { ...state, isExporting: action.payload }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false, isRefreshing: false }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload }
+    case 'SET_VIEW':
+      return { ...state, view: action.payload }
+    case 'SET_CURSOR':
+      return { ...state, cursor: startOfDay(action.payload) }
+    case 'SET_DATA':
+      return {
+        ...state,
+        events: action.payload.events,
+        tasks: action.payload.tasks,
+        isLoading: false,
+        isRefreshing: false,
+      }
+    case 'SET_EVENTS':
+      return { ...state, events: action.payload }
+    case 'SET_TASKS':
+      return { ...state, tasks: action.payload }
+    case 'UPSERT_EVENT':
+      return { ...state, events: upsert(state.events, action.payload) }
+    case 'REMOVE_EVENT':
+      return { ...state, events: state.events.filter((event) => event.id !== action.payload) }
+    case 'REMAP_EVENT_ID':
+      return {
+        ...state,
+        events: remap(state.events, action.payload),
+        editor:
+          state.editor?.eventId === action.payload.tempId
+            ? { ...state.editor, eventId: action.payload.serverId }
+            : state.editor,
+      }
+    case 'UPSERT_TASK':
+      return { ...state, tasks: upsert(state.tasks, action.payload) }
+    case 'REMOVE_TASK':
+      return { ...state, tasks: state.tasks.filter((task) => task.id !== action.payload) }
+    case 'REMAP_TASK_ID':
+      return { ...state, tasks: remap(state.tasks, action.payload) }
+    case 'OPEN_EDITOR':
+      return { ...state, editor: action.payload }
+    case 'SET_EDITOR_FIELD':
+      if (!state.editor) return state
+      return {
+        ...state,
+        editor: {
+          ...state.editor,
+          [action.field]: action.value,
+          errors: { ...state.editor.errors, [action.field]: null },
+        },
+      }
+    case 'SET_EDITOR_ALL_DAY':
+      if (!state.editor) return state
+      return { ...state, editor: withAllDay(state.editor, action.payload) }
+    case 'SET_EDITOR_ERRORS':
+      if (!state.editor) return state
+      return { ...state, editor: { ...state.editor, errors: action.payload } }
+    case 'SET_EDITOR_SUBMITTING':
+      if (!state.editor) return state
+      return { ...state, editor: { ...state.editor, isSubmitting: action.payload } }
+    case 'SET_EDITOR_SUBMIT_ERROR':
+      if (!state.editor) return state
+      return { ...state, editor: { ...state.editor, submitError: action.payload, isSubmitting: false } }
+    case 'CLOSE_EDITOR':
+      return { ...state, editor: null }
+    case 'SET_ONLINE':
+      return { ...state, isOnline: action.payload }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function toItems(events: CalendarEvent[], tasks: Task[]): CalendarItem[] {
+  const eventItems = events.map(
+    (event): CalendarItem => ({
+      kind: 'event',
+      id: event.id,
+      title: event.title,
+      start: event.start,
+      end: event.end,
+      allDay: event.allDay,
+      event,
+    })
+  )
+  const taskItems = tasks.flatMap((task): CalendarItem[] => {
+    if (!task.dueDate) return []
+    const due = startOfDay(new Date(task.dueDate))
+    return [{ kind: 'task', id: task.id, title: task.title, start: due, end: due, allDay: true, task }]
+  })
+  return [...eventItems, ...taskItems]
+}
+
+/**
+ * All-day items first, then by start time and title
+ */
+function compareItems(a: CalendarItem, b: CalendarItem): number {
+  if (a.allDay !== b.allDay) return a.allDay ? -1 : 1
+  return a.start.getTime() - b.start.getTime() || a.title.localeCompare(b.title)
+}
+
+function computeItemsByDay(items: CalendarItem[], days: Date[]): Record<string, CalendarItem[]> {
+  const byDay: Record<string, CalendarItem[]> = {}
+  for (const day of days) {
+    const range = { start: day, end: addDays(day, 1) }
+    byDay[dayKey(day)] = items.filter((item) => overlapsRange(item.start, item.end, range)).sort(compareItems)
+  }
+  return byDay
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseCalendarViewModel {
+  output: CalendarOutput
+  dispatch: (input: CalendarInput) => Promise<void>
+}
+
+/**
+ * @param weekStart First day of the week (0 = Sunday) for the user's language
+ * @param initialDate Day the calendar opens on
+ */
+export function useCalendarViewModel(weekStart = 0, initialDate?: Date): UseCalendarViewModel {
+  const navigate = useNavigate()
+  const calendarEventService = useCalendarEventService()
+  const taskService = useTaskService()
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(
+    calendarReducer,
+    createInitialState(initialDate ?? new Date())
+  )
+  const isInitialMount = useRef(true)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    const effect = state.pendingEffect
+
+    switch (effect.type) {
+      case 'NAVIGATE':
+        navigate(effect.path)
+        break
+      case 'AUTO_DISMISS_SUCCESS':
+        setTimeout(() => {
+          internalDispatch({ type: 'SET_SUCCESS', payload: null })
+        }, effect.delay)
+        break
+      case 'DOWNLOAD': {
+        const url = URL.createObjectURL(new Blob([effect.content], { type: effect.mimeType }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = effect.filename
+        link.click()
+        URL.revokeObjectURL(url)
+        break
+      }
+    }
+
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  // Helper: show a success message that dismisses itself
+  const showSuccess = useCallback(
+    (message: string) => {
+      internalDispatch({ type: 'SET_SUCCESS', payload: message })
+      internalDispatch({ type: 'SET_EFFECT', payload: { type: 'AUTO_DISMISS_SUCCESS', delay: 5000 } })
+    },
+    [internalDispatch]
+  )
+
+  // Range whose events and tasks are shown; responses for other ranges are dropped
+  const shownRange = useRef(visibleRange(state.view, state.cursor, weekStart))
+
+  // Helpers: read every page of the events and tasks in a range
+  const readEvents = useCallback(
+    (range: DateRange, policy: ReadPolicy) =>
+      readAllPages((page) => calendarEventService.getList(eventListParams(range, page), undefined, { policy })),
+    [calendarEventService]
+  )
+
+  const readTasks = useCallback(
+    (range: DateRange, policy: ReadPolicy) =>
+      readAllPages((page) => taskService.getList(taskListParams(range, page), undefined, { policy })),
+    [taskService]
+  )
+
+  // Helper: fetch events and tasks of a range and dispatch result
+  const fetchCalendar = useCallback(
+    async (range: DateRange, errorMessage: string, policy: ReadPolicy) => {
+      shownRange.current = range
+      const [events, tasks] = await Promise.all([readEvents(range, policy), readTasks(range, policy)])
+      if (shownRange.current !== range) return
+
+      if (events.success && events.data && tasks.success && tasks.data) {
+        internalDispatch({ type: 'SET_DATA', payload: { events: events.data, tasks: tasks.data } })
+      } else {
+        internalDispatch({ type: 'SET_ERROR', payload: events.error || tasks.error || errorMessage })
+      }
+    },
+    [readEvents, readTasks, internalDispatch]
+  )
+
+  // Helper: show another view or day, loading its range if it moved
+  const showCalendar = useCallback(
+    async (view: CalendarView, cursor: Date) => {
+      internalDispatch({ type: 'SET_VIEW', payload: view })
+      internalDispatch({ type: 'SET_CURSOR', payload: cursor })
+
+      const range = visibleRange(view, startOfDay(cursor), weekStart)
+      if (isSameRange(range, shownRange.current)) return
+
+      internalDispatch({ type: 'SET_REFRESHING', payload: true })
+      await fetchCalendar(range, 'Failed to load calendar', 'stale-while-revalidate')
+    },
+    [weekStart, fetchCalendar, internalDispatch]
+  )
+
+  // Helper: drop an item on another day or hour (moves at once, back on failure)
+  const handleReschedule = useCallback(
+    async (item: CalendarItem, day: Date, hour?: number) => {
+      if (item.kind === 'task') {
+        const dueDate = startOfDay(day)
+        if (isSameDay(dueDate, item.start)) return
+        await runOptimistic({
+          update: (current) => calendarReducer(current, { type: 'UPSERT_TASK', payload: { ...item.task, dueDate } }),
+          mutate: () => taskService.update(item.task.id, { dueDate }),
+          errorMessage: 'Failed to reschedule task',
+        })
+        return
+      }
+
+      const { event } = item
+      const start = event.allDay ? startOfDay(day) : moveToDay(event.start, day, hour)
+      if (start.getTime() === event.start.getTime()) return
+      const end = new Date(start.getTime() + (event.end.getTime() - event.start.getTime()))
+      await runOptimistic({
+        update: (current) => calendarReducer(current, { type: 'UPSERT_EVENT', payload: { ...event, start, end } }),
+        mutate: () => calendarEventService.reschedule(event.id, start),
+        errorMessage: 'Failed to reschedule event',
+      })
+    },
+    [calendarEventService, taskService, runOptimistic]
+  )
+
+  // Helper: validate and create or update the edited event
+  const handleSaveEvent = useCallback(async () => {
+    const editor = state.editor
+    if (!editor) return
+
+    const errors = validateEditor(editor)
+    if (calendarEventValidator.hasErrors(errors)) {
+      internalDispatch({ type: 'SET_EDITOR_ERRORS', payload: errors })
+      return
+    }
+
+    internalDispatch({ type: 'SET_EDITOR_SUBMITTING', payload: true })
+    const dto = editorDto(editor)
+    const result = editor.eventId
+      ? await calendarEventService.update(editor.eventId, dto)
+      : await calendarEventService.create(dto)
+
+    if (result.success && result.data) {
+      internalDispatch({ type: 'UPSERT_EVENT', payload: result.data })
+      internalDispatch({ type: 'CLOSE_EDITOR' })
+      showSuccess(editor.eventId ? 'Event updated successfully' : 'Event created successfully')
+    } else {
+      internalDispatch({
+        type: 'SET_EDITOR_SUBMIT_ERROR',
+        payload: result.error || (editor.eventId ? 'Failed to update event' : 'Failed to create event'),
+      })
+    }
+  }, [state.editor, calendarEventService, internalDispatch, showSuccess])
+
+  // Helper: delete the edited event (goes at once, comes back on failure)
+  const handleDeleteEvent = useCallback(async () => {
+    const eventId = state.editor?.eventId
+    const event = state.events.find((candidate) => candidate.id === eventId)
+    if (!event) return
+
+    internalDispatch({ type: 'CLOSE_EDITOR' })
+    const result = await runOptimistic({
+      update: (current) => calendarReducer(current, { type: 'REMOVE_EVENT', payload: event.id }),
+      mutate: () => calendarEventService.delete(event.id),
+      errorMessage: 'Failed to delete event',
+    })
+    if (result.success) {
+      showSuccess(`Event ${event.title} deleted successfully`)
+    }
+  }, [state.editor, state.events, calendarEventService, internalDispatch, runOptimistic, showSuccess])
+
+  // Helper: import an .ics file (created events arrive through updates$)
+  const handleImport = useCallback(
+    async (text: string) => {
+      internalDispatch({ type: 'SET_IMPORTING', payload: true })
+      const result = await calendarEventService.importICalendar(text)
+      internalDispatch({ type: 'SET_IMPORTING', payload: false })
+
+      if (result.success && result.data) {
+        const { imported, skipped } = result.data
+        showSuccess(
+          skipped > 0 ? `Imported ${imported} events, skipped ${skipped}` : `Imported ${imported} events`
+        )
+      } else {
+        internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to import calendar' })
+      }
+    },
+    [calendarEventService, internalDispatch, showSuccess]
+  )
+
+  // Helper: export every event as an .ics download
+  const handleExport = useCallback(async () => {
+    internalDispatch({ type: 'SET_EXPORTING', payload: true })
+    const result = await calendarEventService.exportICalendar()
+    internalDispatch({ type: 'SET_EXPORTING', payload: false })
+
+    if (result.success && result.data !== undefined) {
+      internalDispatch({
+        type: 'SET_EFFECT',
+        payload: {
+          type: 'DOWNLOAD',
+          filename: `calendar-${dayKey(new Date())}.ics`,
+          content: result.data,
+          mimeType: 'text/calendar',
+        },
+      })
+    } else {
+      internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to export calendar' })
+    }
+  }, [calendarEventService, internalDispatch])
+
+  const dispatch = useCallback(
+    async (input: CalendarInput) => {
+      switch (input.type) {
+        case 'LOAD_CALENDAR':
+          internalDispatch({ type: 'SET_LOADING', payload: true })
+          // Cached data at once; fresher lists arrive through updates$
+          await fetchCalendar(
+            visibleRange(state.view, state.cursor, weekStart),
+            'Failed to load calendar',
+            'stale-while-revalidate'
+          )
+          break
+        case 'REFRESH_CALENDAR':
+          internalDispatch({ type: 'SET_REFRESHING', payload: true })
+          await fetchCalendar(
+            visibleRange(state.view, state.cursor, weekStart),
+            'Failed to refresh calendar',
+            'network-first'
+          )
+          break
+        case 'SET_VIEW':
+          await showCalendar(input.view, state.cursor)
+          break
+        case 'GO_TO_TODAY':
+          await showCalendar(state.view, new Date())
+          break
+        case 'GO_TO_PREVIOUS':
+          await showCalendar(state.view, shiftCursor(state.view, state.cursor, -1))
+          break
+        case 'GO_TO_NEXT':
+          await showCalendar(state.view, shiftCursor(state.view, state.cursor, 1))
+          break
+        case 'OPEN_DAY':
+          await showCalendar('day', input.day)
+          break
+        case 'RESCHEDULE':
+          await handleReschedule(input.item, input.day, input.hour)
+          break
+        case 'OPEN_NEW_EVENT':
+          internalDispatch({ type: 'OPEN_EDITOR', payload: newEditor(input.day, input.hour) })
+          break
+        case 'OPEN_EVENT':
+          internalDispatch({ type: 'OPEN_EDITOR', payload: editorOf(input.event) })
+          break
+        case 'SET_EDITOR_FIELD':
+          internalDispatch({ type: 'SET_EDITOR_FIELD', field: input.field, value: input.value })
+          break
+        case 'SET_EDITOR_ALL_DAY':
+          internalDispatch({ type: 'SET_EDITOR_ALL_DAY', payload: input.allDay })
+          break
+        case 'SAVE_EVENT':
+          await handleSaveEvent()
+          break
+        case 'DELETE_EVENT':
+          await handleDeleteEvent()
+          break
+        case 'CLOSE_EDITOR':
+          internalDispatch({ type: 'CLOSE_EDITOR' })
+          break
+        case 'IMPORT_ICS':
+          await handleImport(input.text)
+          break
+        case 'EXPORT_ICS':
+          await handleExport()
+          break
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+        case 'DISMISS_SUCCESS':
+          internalDispatch({ type: 'SET_SUCCESS', payload: null })
+          break
+        case 'NAVIGATE_TO_TASK':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: `/tasks/${input.id}` } })
+          break
+      }
+    },
+    [
+      state.view,
+      state.cursor,
+      weekStart,
+      fetchCalendar,
+      showCalendar,
+      handleReschedule,
+      handleSaveEvent,
+      handleDeleteEvent,
+      handleImport,
+      handleExport,
+      internalDispatch,
+    ]
+  )
+
+  // ==========================================================================
+  // Initial Load & Online Status
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_CALENDAR' })
+      internalDispatch({ type: 'SET_ONLINE', payload: calendarEventService.isOnline() })
+    }
+  }, [dispatch, calendarEventService, internalDispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation
+  // ==========================================================================
+
+  useEffect(() => {
+    const events = calendarEventService.idMappings$.subscribe(({ tempId, serverId }) => {
+      internalDispatch({ type: 'REMAP_EVENT_ID', payload: { tempId, serverId } })
+    })
+    const tasks = taskService.idMappings$.subscribe(({ tempId, serverId }) => {
+      internalDispatch({ type: 'REMAP_TASK_ID', payload: { tempId, serverId } })
+    })
+    return () => {
+      events.unsubscribe()
+      tasks.unsubscribe()
+    }
+  }, [calendarEventService, taskService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const events = calendarEventService.updates$.subscribe((change) => {
+      switch (change.type) {
+        case 'create':
+        case 'update':
+          internalDispatch({ type: 'UPSERT_EVENT', payload: change.event })
+          break
+        case 'delete':
+          internalDispatch({ type: 'REMOVE_EVENT', payload: change.event.id })
+          break
+        case 'list':
+          // A page of the shown range was refreshed: read the range again from the cache
+          if (!change.search && isSameList(change.params, eventListParams(shownRange.current))) {
+            const range = shownRange.current
+            void readEvents(range, 'cache-first').then((result) => {
+              if (result.success && result.data && shownRange.current === range) {
+                internalDispatch({ type: 'SET_EVENTS', payload: result.data })
+              }
+            })
+          }
+          break
+      }
+    })
+    const tasks = taskService.updates$.subscribe((change) => {
+      switch (change.type) {
+        case 'create':
+        case 'update':
+          internalDispatch({ type: 'UPSERT_TASK', payload: change.task })
+          break
+        case 'delete':
+          internalDispatch({ type: 'REMOVE_TASK', payload: change.task.id })
+          break
+        case 'list':
+          if (!change.search && isSameList(change.params, taskListParams(shownRange.current))) {
+            const range = shownRange.current
+            void readTasks(range, 'cache-first').then((result) => {
+              if (result.success && result.data && shownRange.current === range) {
+                internalDispatch({ type: 'SET_TASKS', payload: result.data })
+              }
+            })
+          }
+          break
+      }
+    })
+    return () => {
+      events.unsubscribe()
+      tasks.unsubscribe()
+    }
+  }, [calendarEventService, taskService, readEvents, readTasks, internalDispatch])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const range = visibleRange(state.view, state.cursor, weekStart)
+  const days = visibleDays(state.view, state.cursor, weekStart)
+  const itemsByDay = computeItemsByDay(toItems(state.events, state.tasks), days)
+
+  const output: CalendarOutput = {
+    view: state.view,
+    cursor: state.cursor,
+    events: state.events,
+    tasks: state.tasks,
+    editor: state.editor,
+    isLoading: state.isLoading,
+    isRefreshing: state.isRefreshing,
+    isImporting: state.isImporting,
+    isExporting: state.isExporting,
+    error: state.error,
+    successMessage: state.successMessage,
+    isOnline: state.isOnline,
+    weekStart,
+    range,
+    days,
+    itemsByDay,
+  }
+
+  return { output, dispatch }
+}
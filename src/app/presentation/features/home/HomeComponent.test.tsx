@@ -3,6 +3,8 @@ import { render, screen } from '@testing-library/react'
 import { BrowserRouter } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createTestContainer } from '@/test/mocks/authService'
 import { HomeComponent } from './HomeComponent'
 
 // Test wrapper with all providers
@@ -10,7 +12,9 @@ function renderWithProviders(ui: React.ReactElement) {
   return render(
     <BrowserRouter>
       <I18nProvider>
-        <AuthProvider>{ui}</AuthProvider>
+        <DIProvider container={createTestContainer()}>
+          <AuthProvider>{ui}</AuthProvider>
+        </DIProvider>
       </I18nProvider>
     </BrowserRouter>
   )
@@ -32,7 +36,7 @@ describe('HomeComponent', () => {
   it('should display welcome message with user name', () => {
     renderWithProviders(<HomeComponent />)
 
-    // Default demo user is "Admin" (from AuthProvider default state)
+    // TEST_USER is an "Admin" (from createTestContainer)
     expect(screen.getByText(/Welcome back/)).toBeInTheDocument()
   })
 
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BrowserRouter } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import type { Conversation, Message } from '@/app/domain/entities/message.model'
+import { ConversationListComponent } from './ConversationListComponent'
+import type { ConversationListOutput } from '../viewmodels/conversationListViewModel'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: '1',
+    conversationId: '1~2',
+    senderId: '2',
+    senderName: 'Jane Smith',
+    recipientId: '1',
+    recipientName: 'John Doe',
+    body: 'Lunch at noon?',
+    readAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+const mockConversations: Conversation[] = [
+  {
+    id: '1~2',
+    participantId: '2',
+    participantName: 'Jane Smith',
+    lastMessage: createMessage(),
+    unreadCount: 2,
+  },
+  {
+    id: '1~3',
+    participantId: '3',
+    participantName: 'Bob Lee',
+    lastMessage: createMessage({
+      id: '2',
+      conversationId: '1~3',
+      senderId: '1',
+      recipientId: '3',
+      body: 'See you there',
+    }),
+    unreadCount: 0,
+  },
+]
+
+const defaultOutput: ConversationListOutput = {
+  conversations: mockConversations,
+  outbox: [],
+  recipients: [
+    { id: '2', name: 'Jane Smith' },
+    { id: '3', name: 'Bob Lee' },
+  ],
+  searchQuery: '',
+  isLoading: false,
+  isRefreshing: false,
+  error: null,
+  isOnline: true,
+  filteredConversations: mockConversations,
+  unreadCount: 2,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/conversationListViewModel', () => ({
+  useConversationListViewModel: () => ({
+    output: currentOutput,
+    dispatch: mockDispatch,
+  }),
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(ui: React.ReactElement, role: UserRole = 'Admin') {
+  const { service } = createMockAuthService({ ...TEST_USER, role })
+  return render(
+    <BrowserRouter>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(service)}>
+          <AuthProvider>{ui}</AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </BrowserRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ConversationListComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('renders conversations with their unread counts', () => {
+    renderWithProviders(<ConversationListComponent />)
+
+    expect(screen.getByRole('heading', { name: 'Messages' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Jane Smith/ })).toBeInTheDocument()
+    expect(screen.getByTitle('2 unread')).toHaveTextContent('2')
+    expect(screen.getByText('You: See you there')).toBeInTheDocument()
+  })
+
+  it('renders the empty state', () => {
+    currentOutput = { ...defaultOutput, conversations: [], filteredConversations: [] }
+    renderWithProviders(<ConversationListComponent />)
+
+    expect(screen.getByText('No conversations found')).toBeInTheDocument()
+  })
+
+  it('renders queued messages in the outbox as sending', () => {
+    currentOutput = {
+      ...defaultOutput,
+      isOnline: false,
+      outbox: [
+        {
+          message: createMessage({ id: 'offline_1', senderId: '1', recipientName: 'Bob Lee', body: 'On my way' }),
+          status: 'sending',
+          operationId: 7,
+          error: null,
+        },
+      ],
+    }
+    renderWithProviders(<ConversationListComponent />)
+
+    expect(screen.getByText('Outbox')).toBeInTheDocument()
+    expect(screen.getByText('To Bob Lee')).toBeInTheDocument()
+    expect(screen.getByText('Sending')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Retry/ })).not.toBeInTheDocument()
+    expect(screen.getByText(/You are offline/)).toBeInTheDocument()
+  })
+
+  it('renders failed messages in the outbox with a retry button', async () => {
+    const user = userEvent.setup()
+    currentOutput = {
+      ...defaultOutput,
+      outbox: [
+        {
+          message: createMessage({ id: 'offline_1', senderId: '1', recipientName: 'Bob Lee', body: 'On my way' }),
+          status: 'failed',
+          operationId: 7,
+          error: 'Recipient not found',
+        },
+      ],
+    }
+    renderWithProviders(<ConversationListComponent />)
+
+    expect(screen.getByText('Not sent')).toHaveAttribute('title', 'Recipient not found')
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Retry/ }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'RETRY_MESSAGE', operationId: 7 })
+  })
+
+  it('hides the outbox when it is empty', () => {
+    renderWithProviders(<ConversationListComponent />)
+
+    expect(screen.queryByText('Outbox')).not.toBeInTheDocument()
+  })
+
+  it('renders the error alert', () => {
+    currentOutput = { ...defaultOutput, error: 'Failed to load conversations' }
+    renderWithProviders(<ConversationListComponent />)
+
+    expect(screen.getByText('Failed to load conversations')).toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches NAVIGATE_TO_THREAD when a conversation is clicked', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<ConversationListComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Jane Smith/ }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'NAVIGATE_TO_THREAD', id: '1~2' })
+  })
+
+  it('dispatches START_CONVERSATION with the chosen recipient', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<ConversationListComponent />)
+
+    await act(async () => {
+      await user.selectOptions(screen.getByLabelText('Choose a recipient'), '3')
+      await user.click(screen.getByRole('button', { name: 'Start' }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'START_CONVERSATION', recipientId: '3' })
+  })
+
+  it('dispatches SET_SEARCH_QUERY on search input change', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<ConversationListComponent />)
+
+    await act(async () => {
+      await user.type(screen.getByPlaceholderText('Search conversations...'), 'a')
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_SEARCH_QUERY', query: 'a' })
+  })
+
+  // --- Permissions ---
+
+  it('hides new conversations from Guests', () => {
+    renderWithProviders(<ConversationListComponent />, 'Guest')
+
+    expect(screen.queryByText('New Conversation')).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Jane Smith/ })).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,274 @@
+// =============================================================================
+// Conversation List Component
+// =============================================================================
+// Presentation layer component that uses ConversationListViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// =============================================================================
+
+import { useState } from 'react'
+import { useI18n } from '@core/providers/I18nProvider'
+import { useAuth } from '@core/providers/AuthProvider'
+import { Can } from '@shared/components/Can/Can'
+import { useConversationListViewModel } from '../viewmodels/conversationListViewModel'
+import { formatRelativeTime } from '../messageTime'
+import { MessageStatus, type Conversation } from '@/app/domain/entities/message.model'
+import './ConversationListComponent.scss'
+
+export function ConversationListComponent() {
+  const { t, currentLanguage } = useI18n()
+  const { currentUser } = useAuth()
+  const [recipientId, setRecipientId] = useState('')
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useConversationListViewModel(currentUser?.id)
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleRefresh = () => {
+    void dispatch({ type: 'REFRESH_CONVERSATIONS' })
+  }
+
+  const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
+    void dispatch({ type: 'SET_SEARCH_QUERY', query: e.target.value })
+  }
+
+  const handleClearSearch = () => {
+    void dispatch({ type: 'CLEAR_SEARCH' })
+  }
+
+  const handleRetry = (operationId: number) => {
+    void dispatch({ type: 'RETRY_MESSAGE', operationId })
+  }
+
+  const handleOpenConversation = (conversation: Conversation) => {
+    void dispatch({ type: 'NAVIGATE_TO_THREAD', id: conversation.id })
+  }
+
+  const handleStartConversation = (e: React.FormEvent) => {
+    e.preventDefault()
+    void dispatch({ type: 'START_CONVERSATION', recipientId })
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  // ==========================================================================
+  // Helper Functions
+  // ==========================================================================
+
+  const getInitials = (name: string) =>
+    name
+      .split(' ')
+      .map((part) => part.charAt(0))
+      .join('')
+      .slice(0, 2)
+      .toUpperCase()
+
+  const renderPreview = (conversation: Conversation) => {
+    const { lastMessage } = conversation
+    const own = lastMessage.senderId === currentUser?.id
+    return own ? `${t('message.list.you')}: ${lastMessage.body}` : lastMessage.body
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  return (
+    <div className="conversation-list-page container-fluid py-4">
+      {/* Page Header */}
+      <div className="page-header d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h2 className="mb-1">{t('message.list.title')}</h2>
+          <p className="text-muted mb-0">{t('message.list.subtitle')}</p>
+        </div>
+        <button className="btn btn-outline-secondary" onClick={handleRefresh} disabled={output.isRefreshing}>
+          <i className={`bi bi-arrow-clockwise ${output.isRefreshing ? 'spin' : ''}`}></i>
+          <span className="ms-2">{t('common.refresh')}</span>
+        </button>
+      </div>
+
+      {/* Alerts */}
+      {!output.isOnline && (
+        <div className="alert alert-warning" role="status">
+          <i className="bi bi-wifi-off me-2"></i>
+          {t('message.offline')}
+        </div>
+      )}
+
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      <div className="row g-4">
+        <div className="col-lg-8">
+          {/* Search Bar */}
+          <div className="card mb-4">
+            <div className="card-body">
+              <div className="search-box position-relative">
+                <i className="bi bi-search search-icon"></i>
+                <input
+                  type="text"
+                  className="form-control search-input"
+                  placeholder={t('message.list.search.placeholder')}
+                  value={output.searchQuery}
+                  onChange={handleSearch}
+                />
+                {output.searchQuery && (
+                  <button type="button" className="btn btn-link clear-search" onClick={handleClearSearch}>
+                    <i className="bi bi-x-lg"></i>
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Loading State */}
+          {output.isLoading && (
+            <div className="text-center py-5">
+              <output className="d-block">
+                <div className="spinner-border text-primary">
+                  <span className="visually-hidden">{t('common.loading')}</span>
+                </div>
+                <p className="mt-3 text-muted">{t('common.loading')}</p>
+              </output>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!output.isLoading && output.filteredConversations.length === 0 && (
+            <div className="card">
+              <div className="card-body text-center py-5">
+                <i className="bi bi-chat-dots display-1 text-muted opacity-50"></i>
+                <h4 className="mt-3 text-muted">{t('message.list.no.results')}</h4>
+                <p className="text-muted">
+                  {output.searchQuery ? t('message.list.empty.search') : t('message.list.empty.message')}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Conversations */}
+          {!output.isLoading && output.filteredConversations.length > 0 && (
+            <div className="card">
+              <div className="list-group list-group-flush">
+                {output.filteredConversations.map((conversation) => (
+                  <button
+                    key={conversation.id}
+                    type="button"
+                    className={`list-group-item list-group-item-action conversation-item ${conversation.unreadCount > 0 ? 'unread' : ''}`}
+                    onClick={() => handleOpenConversation(conversation)}
+                  >
+                    <div className="conversation-avatar">{getInitials(conversation.participantName)}</div>
+                    <div className="conversation-content">
+                      <div className="d-flex justify-content-between align-items-center gap-2">
+                        <span className="conversation-name">{conversation.participantName}</span>
+                        <small className="text-muted text-nowrap">
+                          {formatRelativeTime(conversation.lastMessage.createdAt, currentLanguage)}
+                        </small>
+                      </div>
+                      <div className="d-flex justify-content-between align-items-center gap-2">
+                        <span className="conversation-preview text-truncate">{renderPreview(conversation)}</span>
+                        {conversation.unreadCount > 0 && (
+                          <span
+                            className="badge rounded-pill bg-danger"
+                            title={t('message.list.unread', { count: conversation.unreadCount })}
+                          >
+                            {conversation.unreadCount}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="col-lg-4">
+          {/* New Conversation */}
+          <Can permission="message:create">
+            <div className="card mb-4">
+              <div className="card-header">
+                <h5 className="mb-0">{t('message.new.title')}</h5>
+              </div>
+              <div className="card-body">
+                <form className="d-flex gap-2" onSubmit={handleStartConversation}>
+                  <select
+                    className="form-select"
+                    aria-label={t('message.new.placeholder')}
+                    value={recipientId}
+                    onChange={(e) => setRecipientId(e.target.value)}
+                  >
+                    <option value="">{t('message.new.placeholder')}</option>
+                    {output.recipients.map((recipient) => (
+                      <option key={recipient.id} value={recipient.id}>
+                        {recipient.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button type="submit" className="btn btn-primary" disabled={!recipientId}>
+                    {t('message.new.start')}
+                  </button>
+                </form>
+              </div>
+            </div>
+          </Can>
+
+          {/* Outbox */}
+          {output.outbox.length > 0 && (
+            <div className="card outbox">
+              <div className="card-header">
+                <h5 className="mb-0">
+                  <i className="bi bi-outbox me-2"></i>
+                  {t('message.outbox.title')}
+                </h5>
+                <small className="text-muted">{t('message.outbox.subtitle')}</small>
+              </div>
+              <ul className="list-group list-group-flush">
+                {output.outbox.map(({ message, status, operationId, error }) => (
+                  <li key={message.id} className="list-group-item">
+                    <div className="d-flex justify-content-between align-items-center gap-2">
+                      <strong className="small">{t('message.outbox.to', { name: message.recipientName })}</strong>
+                      {status === MessageStatus.FAILED ? (
+                        <span className="d-flex align-items-center gap-2">
+                          <span className="badge bg-danger" title={error ?? undefined}>
+                            <i className="bi bi-exclamation-circle me-1"></i>
+                            {t('message.status.failed')}
+                          </span>
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-primary"
+                            onClick={() => handleRetry(operationId)}
+                          >
+                            <i className="bi bi-arrow-clockwise me-1"></i>
+                            {t('message.outbox.retry')}
+                          </button>
+                        </span>
+                      ) : (
+                        <span className="badge bg-warning text-dark">
+                          <i className="bi bi-clock me-1"></i>
+                          {t('message.status.sending')}
+                        </span>
+                      )}
+                    </div>
+                    <div className="small text-muted text-truncate">{message.body}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
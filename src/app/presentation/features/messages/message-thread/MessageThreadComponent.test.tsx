@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import { MessageThreadComponent } from './MessageThreadComponent'
+import type { MessageThreadOutput, ThreadMessage } from '../viewmodels/messageThreadViewModel'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+const mockUseViewModel = vi.fn()
+
+function createThreadMessage(overrides: Partial<ThreadMessage> = {}): ThreadMessage {
+  return {
+    id: '1',
+    conversationId: '1~2',
+    senderId: '2',
+    senderName: 'Jane Smith',
+    recipientId: '1',
+    recipientName: 'John Doe',
+    body: 'Lunch at noon?',
+    readAt: null,
+    createdAt: new Date('2025-01-01T12:00:00Z'),
+    updatedAt: new Date('2025-01-01T12:00:00Z'),
+    status: 'sent',
+    isOwn: false,
+    ...overrides,
+  }
+}
+
+const defaultOutput: MessageThreadOutput = {
+  participant: { id: '2', name: 'Jane Smith' },
+  messages: [
+    createThreadMessage(),
+    createThreadMessage({ id: '2', senderId: '1', body: 'Sure', status: 'read', isOwn: true }),
+    createThreadMessage({ id: 'offline_1', senderId: '1', body: 'On my way', status: 'sending', isOwn: true }),
+  ],
+  draft: '',
+  isLoading: false,
+  isSending: false,
+  error: null,
+  isOnline: true,
+  canSend: false,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/messageThreadViewModel', () => ({
+  useMessageThreadViewModel: (...args: unknown[]) => {
+    mockUseViewModel(...args)
+    return { output: currentOutput, dispatch: mockDispatch }
+  },
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(role: UserRole = 'Admin') {
+  const { service } = createMockAuthService({ ...TEST_USER, role })
+  return render(
+    <MemoryRouter initialEntries={['/messages/1~2']}>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(service)}>
+          <AuthProvider>
+            <Routes>
+              <Route path="/messages/:id" element={<MessageThreadComponent />} />
+            </Routes>
+          </AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </MemoryRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('MessageThreadComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('opens the conversation from the route for the signed-in user', () => {
+    renderWithProviders()
+
+    expect(mockUseViewModel).toHaveBeenCalledWith('1~2', expect.objectContaining({ id: TEST_USER.id }))
+    expect(screen.getByRole('heading', { name: 'Jane Smith' })).toBeInTheDocument()
+  })
+
+  it('renders messages with the status of those sent', () => {
+    renderWithProviders()
+
+    expect(screen.getByText('Lunch at noon?')).toBeInTheDocument()
+    expect(screen.getByText('Read')).toBeInTheDocument()
+    expect(screen.getByText('Sending')).toBeInTheDocument()
+    expect(screen.queryByText('Sent')).not.toBeInTheDocument()
+  })
+
+  it('renders the empty state of a new conversation', () => {
+    currentOutput = { ...defaultOutput, messages: [] }
+    renderWithProviders()
+
+    expect(screen.getByText('No messages yet. Say hello!')).toBeInTheDocument()
+  })
+
+  it('renders the loading state', () => {
+    currentOutput = { ...defaultOutput, isLoading: true }
+    renderWithProviders()
+
+    expect(screen.getByText('Loading conversation...')).toBeInTheDocument()
+  })
+
+  it('renders the error alert', () => {
+    currentOutput = { ...defaultOutput, participant: null, messages: [], error: 'Conversation not found' }
+    renderWithProviders()
+
+    expect(screen.getByText('Conversation not found')).toBeInTheDocument()
+    expect(screen.queryByPlaceholderText('Write a message...')).not.toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches SET_DRAFT while typing', async () => {
+    const user = userEvent.setup()
+    renderWithProviders()
+
+    await act(async () => {
+      await user.type(screen.getByPlaceholderText('Write a message...'), 'H')
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_DRAFT', body: 'H' })
+  })
+
+  it('dispatches SEND_MESSAGE from the send button', async () => {
+    currentOutput = { ...defaultOutput, draft: 'Hello', canSend: true }
+    const user = userEvent.setup()
+    renderWithProviders()
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Send/ }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SEND_MESSAGE' })
+  })
+
+  it('disables sending until there is a draft', () => {
+    renderWithProviders()
+
+    expect(screen.getByRole('button', { name: /Send/ })).toBeDisabled()
+  })
+
+  it('dispatches NAVIGATE_TO_LIST from the back button', async () => {
+    const user = userEvent.setup()
+    renderWithProviders()
+
+    await act(async () => {
+      await user.click(screen.getByTitle('Back to Messages'))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'NAVIGATE_TO_LIST' })
+  })
+
+  // --- Permissions ---
+
+  it('hides the compose form from Guests', () => {
+    renderWithProviders('Guest')
+
+    expect(screen.queryByPlaceholderText('Write a message...')).not.toBeInTheDocument()
+    expect(screen.getByText('Lunch at noon?')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,191 @@
+// =============================================================================
+// Message Thread Component
+// =============================================================================
+// Presentation layer component that uses MessageThreadViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// =============================================================================
+
+import { useEffect, useRef } from 'react'
+import { useParams } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { useAuth } from '@core/providers/AuthProvider'
+import { Can } from '@shared/components/Can/Can'
+import { MessageStatus } from '@/app/domain/entities/message.model'
+import { useMessageThreadViewModel } from '../viewmodels/messageThreadViewModel'
+import { formatMessageTime } from '../messageTime'
+import './MessageThreadComponent.scss'
+
+/**
+ * Icon and label per delivery status
+ */
+const STATUS_DISPLAY: Readonly<Record<MessageStatus, { icon: string; key: string }>> = {
+  [MessageStatus.SENDING]: { icon: 'bi-clock', key: 'message.status.sending' },
+  [MessageStatus.FAILED]: { icon: 'bi-exclamation-circle', key: 'message.status.failed' },
+  [MessageStatus.SENT]: { icon: 'bi-check', key: 'message.status.sent' },
+  [MessageStatus.READ]: { icon: 'bi-check-all', key: 'message.status.read' },
+}
+
+export function MessageThreadComponent() {
+  const { id } = useParams<{ id: string }>()
+
+  // A new conversation starts from a fresh thread
+  return <MessageThread key={id} conversationId={id || ''} />
+}
+
+function MessageThread({ conversationId }: Readonly<{ conversationId: string }>) {
+  const { t, currentLanguage } = useI18n()
+  const { currentUser } = useAuth()
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useMessageThreadViewModel(conversationId, currentUser)
+
+  // Keep the newest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ block: 'end' })
+  }, [output.messages.length])
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleDraftChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    void dispatch({ type: 'SET_DRAFT', body: e.target.value })
+  }
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault()
+    void dispatch({ type: 'SEND_MESSAGE' })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter starts a new line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      void dispatch({ type: 'SEND_MESSAGE' })
+    }
+  }
+
+  const handleBack = () => {
+    void dispatch({ type: 'NAVIGATE_TO_LIST' })
+  }
+
+  const handleRefresh = () => {
+    void dispatch({ type: 'REFRESH_THREAD' })
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  if (output.isLoading) {
+    return (
+      <div className="container-fluid py-4">
+        <div className="text-center py-5">
+          <output className="d-block">
+            <div className="spinner-border text-primary">
+              <span className="visually-hidden">{t('common.loading')}</span>
+            </div>
+            <p className="mt-3 text-muted">{t('message.thread.loading')}</p>
+          </output>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="message-thread-page container-fluid py-4">
+      {/* Page Header */}
+      <div className="page-header d-flex justify-content-between align-items-center mb-4">
+        <div className="d-flex align-items-center gap-3">
+          <button className="btn btn-outline-secondary" onClick={handleBack} title={t('message.thread.back')}>
+            <i className="bi bi-arrow-left"></i>
+          </button>
+          <h2 className="mb-0">{output.participant?.name ?? t('message.list.title')}</h2>
+        </div>
+        <button className="btn btn-outline-secondary" onClick={handleRefresh} title={t('common.refresh')}>
+          <i className="bi bi-arrow-clockwise"></i>
+        </button>
+      </div>
+
+      {/* Alerts */}
+      {!output.isOnline && (
+        <div className="alert alert-warning" role="status">
+          <i className="bi bi-wifi-off me-2"></i>
+          {t('message.offline')}
+        </div>
+      )}
+
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {output.participant && (
+        <div className="card thread-card">
+          {/* Messages */}
+          <div className="card-body thread-messages">
+            {output.messages.length === 0 && (
+              <p className="text-center text-muted py-5 mb-0">{t('message.thread.empty')}</p>
+            )}
+            {output.messages.map((message) => (
+              <div key={message.id} className={`message-row ${message.isOwn ? 'own' : ''}`}>
+                <div className="message-bubble">
+                  <div className="message-body">{message.body}</div>
+                  <div className="message-meta">
+                    <span>{formatMessageTime(message.createdAt, currentLanguage)}</span>
+                    {message.isOwn && (
+                      <span className={`message-status status-${message.status}`}>
+                        <i className={`bi ${STATUS_DISPLAY[message.status].icon} me-1`}></i>
+                        {t(STATUS_DISPLAY[message.status].key)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+            <div ref={bottomRef}></div>
+          </div>
+
+          {/* Compose */}
+          <Can permission="message:create">
+            <div className="card-footer">
+              <form className="d-flex gap-2 align-items-end" onSubmit={handleSend}>
+                <textarea
+                  className="form-control"
+                  rows={2}
+                  placeholder={t('message.thread.placeholder')}
+                  aria-label={t('message.thread.placeholder')}
+                  value={output.draft}
+                  onChange={handleDraftChange}
+                  onKeyDown={handleKeyDown}
+                />
+                <button type="submit" className="btn btn-primary" disabled={!output.canSend}>
+                  {output.isSending ? (
+                    <>
+                      <span className="spinner-border spinner-border-sm me-2"></span>
+                      {t('message.thread.sending')}
+                    </>
+                  ) : (
+                    <>
+                      <i className="bi bi-send me-2"></i>
+                      {t('message.thread.send')}
+                    </>
+                  )}
+                </button>
+              </form>
+            </div>
+          </Can>
+        </div>
+      )}
+    </div>
+  )
+}
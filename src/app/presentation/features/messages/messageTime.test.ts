@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { formatRelativeTime } from './messageTime'
+
+describe('messageTime', () => {
+  describe('formatRelativeTime', () => {
+    const now = new Date(2025, 5, 18, 15, 30)
+
+    it('says now for the last minute', () => {
+      expect(formatRelativeTime(new Date(2025, 5, 18, 15, 29, 30), 'en', now)).toBe('now')
+    })
+
+    it('counts minutes, hours and days', () => {
+      expect(formatRelativeTime(new Date(2025, 5, 18, 15, 25), 'en', now)).toBe('5 minutes ago')
+      expect(formatRelativeTime(new Date(2025, 5, 18, 12, 30), 'en', now)).toBe('3 hours ago')
+      expect(formatRelativeTime(new Date(2025, 5, 17, 15, 30), 'en', now)).toBe('yesterday')
+    })
+
+    it('shows the date of messages older than a week', () => {
+      expect(formatRelativeTime(new Date(2025, 5, 1, 9, 0), 'en', now)).toBe('Jun 1, 2025')
+    })
+  })
+})
@@ -0,0 +1,34 @@
+// =============================================================================
+// Message Time - Locale Formatting of When a Message Was Sent
+// =============================================================================
+
+import type { Language } from '@core/providers/I18nProvider'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+/** Older messages show their date instead of a relative time */
+const RELATIVE_DAYS = 7
+
+/**
+ * How long ago a message was sent ("now", "5 minutes ago", "yesterday"),
+ * or its date once it is a week old
+ */
+export function formatRelativeTime(date: Date, language: Language, now: Date = new Date()): string {
+  const elapsed = now.getTime() - date.getTime()
+  const format = new Intl.RelativeTimeFormat(language, { numeric: 'auto' })
+
+  if (elapsed < MINUTE) return format.format(0, 'second')
+  if (elapsed < HOUR) return format.format(-Math.floor(elapsed / MINUTE), 'minute')
+  if (elapsed < DAY) return format.format(-Math.floor(elapsed / HOUR), 'hour')
+  if (elapsed < RELATIVE_DAYS * DAY) return format.format(-Math.floor(elapsed / DAY), 'day')
+  return new Intl.DateTimeFormat(language, { day: 'numeric', month: 'short', year: 'numeric' }).format(date)
+}
+
+/**
+ * Time of day under a message bubble
+ */
+export function formatMessageTime(date: Date, language: Language): string {
+  return new Intl.DateTimeFormat(language, { hour: 'numeric', minute: '2-digit' }).format(date)
+}
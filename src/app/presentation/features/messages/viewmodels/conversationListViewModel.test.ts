@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { Conversation, Message, OutboxMessage } from '@/app/domain/entities/message.model'
+import type { User } from '@/app/domain/entities/user.model'
+import type { MessageChange, MessageService } from '@/app/domain/services/messageService'
+import type { UserChange, UserService } from '@/app/domain/services/userService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import type { SyncService } from '@/app/domain/services/syncService'
+import type { DeadLetter } from '@/app/domain/entities/dead-letter.model'
+import { BehaviorSubject, Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockIdMappings = new Subject<IdMapping>()
+
+const mockMessageService: MessageService = {
+  getConversations: vi.fn(),
+  getThread: vi.fn(),
+  getOutbox: vi.fn(),
+  send: vi.fn(),
+  markRead: vi.fn(),
+  markAllRead: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: new Subject<MessageChange>().asObservable(),
+}
+
+const mockUserService: UserService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  syncPendingOperations: vi.fn(),
+  clearCache: vi.fn(),
+  idMappings$: new Subject<IdMapping>().asObservable(),
+  updates$: new Subject<UserChange>().asObservable(),
+}
+
+const mockDeadLetters = new BehaviorSubject<DeadLetter[]>([])
+
+const mockSyncService: SyncService = {
+  conflicts$: new BehaviorSubject([]).asObservable(),
+  resolveConflict: vi.fn(),
+  deadLetters$: mockDeadLetters.asObservable(),
+  retryDeadLetter: vi.fn(),
+  discardDeadLetter: vi.fn(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useMessageService: () => mockMessageService,
+  useSyncService: () => mockSyncService,
+  useUserService: () => mockUserService,
+}))
+
+import { useConversationListViewModel } from './conversationListViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createMockUser(id: string, firstName: string): User {
+  return {
+    id,
+    email: `${firstName.toLowerCase()}@example.com`,
+    firstName,
+    lastName: 'Doe',
+    avatar: '',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+  }
+}
+
+function createMockMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: '1',
+    conversationId: '1~2',
+    senderId: '2',
+    senderName: 'Jane Smith',
+    recipientId: '1',
+    recipientName: 'John Doe',
+    body: 'Lunch at noon?',
+    readAt: null,
+    createdAt: new Date('2025-01-01T12:00:00Z'),
+    updatedAt: new Date('2025-01-01T12:00:00Z'),
+    ...overrides,
+  }
+}
+
+function createOutboxMessage(overrides: Partial<OutboxMessage> = {}): OutboxMessage {
+  return {
+    message: createMockMessage({ id: 'offline_1', senderId: '1', recipientId: '2' }),
+    status: 'sending',
+    operationId: 7,
+    error: null,
+    ...overrides,
+  }
+}
+
+function createMockConversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: '1~2',
+    participantId: '2',
+    participantName: 'Jane Smith',
+    lastMessage: createMockMessage(),
+    unreadCount: 1,
+    ...overrides,
+  }
+}
+
+/** Flush microtasks so fire-and-forget promises in useEffect resolve */
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+async function renderLoaded(userId = '1') {
+  const hook = renderHook(() => useConversationListViewModel(userId))
+  await act(async () => {
+    await flushPromises()
+  })
+  await waitFor(() => {
+    expect(hook.result.current.output.isLoading).toBe(false)
+  })
+  return hook
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useConversationListViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockMessageService.getConversations).mockResolvedValue({
+      success: true,
+      data: [
+        createMockConversation(),
+        createMockConversation({
+          id: '1~3',
+          participantId: '3',
+          participantName: 'Bob Lee',
+          lastMessage: createMockMessage({ id: '2', conversationId: '1~3', body: 'Standup moved' }),
+          unreadCount: 2,
+        }),
+      ],
+    })
+    vi.mocked(mockMessageService.getOutbox).mockResolvedValue({ success: true, data: [] })
+    vi.mocked(mockMessageService.isOnline).mockReturnValue(true)
+    vi.mocked(mockUserService.getList).mockResolvedValue({
+      success: true,
+      data: {
+        data: [createMockUser('1', 'John'), createMockUser('2', 'Jane'), createMockUser('3', 'Bob')],
+        page: 1,
+        pageSize: 100,
+        total: 3,
+        totalPages: 1,
+      },
+    })
+  })
+
+  it('loads conversations, the outbox and recipients on mount', async () => {
+    const queued = createOutboxMessage()
+    vi.mocked(mockMessageService.getOutbox).mockResolvedValue({ success: true, data: [queued] })
+
+    const { result } = await renderLoaded()
+
+    expect(mockMessageService.getConversations).toHaveBeenCalledWith('1', { policy: undefined })
+    expect(result.current.output.conversations).toHaveLength(2)
+    expect(result.current.output.unreadCount).toBe(3)
+    expect(result.current.output.outbox).toEqual([queued])
+    expect(mockUserService.getList).toHaveBeenCalledWith({ page: 1, pageSize: 100 })
+    expect(result.current.output.recipients).toEqual([
+      { id: '2', name: 'Jane Doe' },
+      { id: '3', name: 'Bob Doe' },
+    ])
+  })
+
+  it('shows the service error when loading fails', async () => {
+    vi.mocked(mockMessageService.getConversations).mockResolvedValue({ success: false, error: 'Network down' })
+
+    const { result } = await renderLoaded()
+
+    expect(result.current.output.error).toBe('Network down')
+
+    act(() => {
+      void result.current.dispatch({ type: 'DISMISS_ERROR' })
+    })
+
+    expect(result.current.output.error).toBeNull()
+  })
+
+  it('refreshes from the network', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'REFRESH_CONVERSATIONS' })
+    })
+
+    expect(mockMessageService.getConversations).toHaveBeenLastCalledWith('1', { policy: 'network-first' })
+    expect(result.current.output.isRefreshing).toBe(false)
+  })
+
+  it('filters conversations by participant or last message', async () => {
+    const { result } = await renderLoaded()
+
+    act(() => {
+      void result.current.dispatch({ type: 'SET_SEARCH_QUERY', query: 'standup' })
+    })
+
+    expect(result.current.output.filteredConversations.map((c) => c.id)).toEqual(['1~3'])
+
+    act(() => {
+      void result.current.dispatch({ type: 'SET_SEARCH_QUERY', query: 'jane' })
+    })
+
+    expect(result.current.output.filteredConversations.map((c) => c.id)).toEqual(['1~2'])
+
+    act(() => {
+      void result.current.dispatch({ type: 'CLEAR_SEARCH' })
+    })
+
+    expect(result.current.output.filteredConversations).toHaveLength(2)
+  })
+
+  it('reloads when a queued message is delivered', async () => {
+    await renderLoaded()
+
+    await act(async () => {
+      mockIdMappings.next({ entity: 'message', tempId: 'offline_1', serverId: '9', timestamp: Date.now() })
+      await flushPromises()
+    })
+
+    expect(mockMessageService.getOutbox).toHaveBeenCalledTimes(2)
+  })
+
+  it('reloads when a queued message fails to send', async () => {
+    await renderLoaded()
+
+    await act(async () => {
+      mockDeadLetters.next([])
+      await flushPromises()
+    })
+
+    expect(mockMessageService.getOutbox).toHaveBeenCalledTimes(2)
+  })
+
+  it('retries a failed message', async () => {
+    vi.mocked(mockMessageService.getOutbox).mockResolvedValue({
+      success: true,
+      data: [createOutboxMessage({ status: 'failed', error: 'Recipient not found' })],
+    })
+    vi.mocked(mockSyncService.retryDeadLetter).mockResolvedValue({ success: true })
+    const { result } = await renderLoaded()
+    vi.mocked(mockMessageService.getOutbox).mockResolvedValue({ success: true, data: [createOutboxMessage()] })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RETRY_MESSAGE', operationId: 7 })
+    })
+
+    expect(mockSyncService.retryDeadLetter).toHaveBeenCalledWith(7)
+    expect(result.current.output.outbox[0].status).toBe('sending')
+  })
+
+  it('shows the error when a retry fails', async () => {
+    vi.mocked(mockSyncService.retryDeadLetter).mockResolvedValue({ success: false, error: 'No failed operation: 7' })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RETRY_MESSAGE', operationId: 7 })
+    })
+
+    expect(result.current.output.error).toBe('No failed operation: 7')
+  })
+
+  it('starts a conversation with a recipient', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'START_CONVERSATION', recipientId: '3' })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/messages/1~3')
+  })
+
+  it('navigates to a thread', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_THREAD', id: '1~2' })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/messages/1~2')
+  })
+})
@@ -0,0 +1,357 @@
+// =============================================================================
+// Conversation List ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+//
+// The signed-in user's conversations, the outbox of messages still waiting
+// to be delivered (failed ones can be retried), and the users a new
+// conversation can be started with.
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { debounceTime, filter, skip } from 'rxjs/operators'
+import { conversationIdOf, type Conversation, type OutboxMessage } from '@/app/domain/entities/message.model'
+import type { ReadPolicy } from '@/app/domain/entities/read-policy.model'
+import { useMessageService, useSyncService, useUserService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+
+/**
+ * Users offered when starting a conversation
+ */
+const RECIPIENTS_PAGE_SIZE = 100
+
+/** Quiet period before reloading after message changes */
+const RELOAD_DELAY = 250
+
+export interface MessageRecipient {
+  id: string
+  name: string
+}
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type ConversationListInput =
+  | { type: 'LOAD_CONVERSATIONS' }
+  | { type: 'REFRESH_CONVERSATIONS' }
+  | { type: 'SET_SEARCH_QUERY'; query: string }
+  | { type: 'CLEAR_SEARCH' }
+  | { type: 'START_CONVERSATION'; recipientId: string }
+  | { type: 'RETRY_MESSAGE'; operationId: number }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'NAVIGATE_TO_THREAD'; id: string }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface ConversationListOutput {
+  // Core data
+  conversations: Conversation[]
+  /** Messages composed offline, oldest first */
+  outbox: OutboxMessage[]
+  recipients: MessageRecipient[]
+  searchQuery: string
+
+  // UI state
+  isLoading: boolean
+  isRefreshing: boolean
+  error: string | null
+  isOnline: boolean
+
+  // Computed values
+  filteredConversations: Conversation[]
+  unreadCount: number
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type ConversationListEffect = { type: 'NAVIGATE'; path: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface ConversationListState {
+  conversations: Conversation[]
+  outbox: OutboxMessage[]
+  recipients: MessageRecipient[]
+  searchQuery: string
+  isLoading: boolean
+  isRefreshing: boolean
+  error: string | null
+  isOnline: boolean
+  pendingEffect: ConversationListEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type ConversationListAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_REFRESHING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SEARCH'; payload: string }
+  | { type: 'SET_CONVERSATIONS'; payload: { conversations: Conversation[]; outbox: OutboxMessage[] } }
+  | { type: 'SET_RECIPIENTS'; payload: MessageRecipient[] }
+  | { type: 'SET_ONLINE'; payload: boolean }
+  | { type: 'SET_EFFECT'; payload: ConversationListEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+function createInitialState(): ConversationListState {
+  return {
+    conversations: [],
+    outbox: [],
+    recipients: [],
+    searchQuery: '',
+    isLoading: true,
+    isRefreshing: false,
+    error: null,
+    isOnline: true,
+    pendingEffect: null,
+  }
+}
+
+function conversationListReducer(
+  state: ConversationListState,
+  action: ConversationListAction
+): ConversationListState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload, error: null }
+    case 'SET_REFRESHING':
+      return { ...state, isRefreshing: action.payload }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false, isRefreshing: false }
+    case 'SET_SEARCH':
+      return { ...state, searchQuery: action.payload }
+    case 'SET_CONVERSATIONS':
+      return {
+        ...state,
+        conversations: action.payload.conversations,
+        outbox: action.payload.outbox,
+        isLoading: false,
+        isRefreshing: false,
+      }
+    case 'SET_RECIPIENTS':
+      return { ...state, recipients: action.payload }
+    case 'SET_ONLINE':
+      return { ...state, isOnline: action.payload }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function computeFilteredConversations(conversations: Conversation[], searchQuery: string): Conversation[] {
+  if (!searchQuery) return conversations
+  const query = searchQuery.toLowerCase()
+  return conversations.filter(
+    (conversation) =>
+      conversation.participantName.toLowerCase().includes(query) ||
+      conversation.lastMessage.body.toLowerCase().includes(query)
+  )
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseConversationListViewModel {
+  output: ConversationListOutput
+  dispatch: (input: ConversationListInput) => Promise<void>
+}
+
+export function useConversationListViewModel(currentUserId?: string): UseConversationListViewModel {
+  const navigate = useNavigate()
+  const messageService = useMessageService()
+  const syncService = useSyncService()
+  const userService = useUserService()
+  const [state, internalDispatch] = useOptimisticReducer(conversationListReducer, createInitialState())
+  const isInitialMount = useRef(true)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    navigate(state.pendingEffect.path)
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  // Helper: fetch conversations and the outbox together
+  const fetchConversations = useCallback(
+    async (errorMessage: string, policy?: ReadPolicy) => {
+      if (!currentUserId) {
+        internalDispatch({ type: 'SET_CONVERSATIONS', payload: { conversations: [], outbox: [] } })
+        return
+      }
+
+      const [conversations, outbox] = await Promise.all([
+        messageService.getConversations(currentUserId, { policy }),
+        messageService.getOutbox(),
+      ])
+      if (conversations.success && conversations.data) {
+        internalDispatch({
+          type: 'SET_CONVERSATIONS',
+          payload: { conversations: conversations.data, outbox: outbox.data ?? [] },
+        })
+      } else {
+        internalDispatch({ type: 'SET_ERROR', payload: conversations.error || errorMessage })
+      }
+    },
+    [currentUserId, messageService, internalDispatch]
+  )
+
+  const dispatch = useCallback(
+    async (input: ConversationListInput) => {
+      switch (input.type) {
+        case 'LOAD_CONVERSATIONS':
+          internalDispatch({ type: 'SET_LOADING', payload: true })
+          await fetchConversations('Failed to load conversations')
+          break
+        case 'REFRESH_CONVERSATIONS':
+          internalDispatch({ type: 'SET_REFRESHING', payload: true })
+          await fetchConversations('Failed to refresh conversations', 'network-first')
+          break
+        case 'SET_SEARCH_QUERY':
+          internalDispatch({ type: 'SET_SEARCH', payload: input.query })
+          break
+        case 'CLEAR_SEARCH':
+          internalDispatch({ type: 'SET_SEARCH', payload: '' })
+          break
+        case 'START_CONVERSATION':
+          if (!currentUserId || !input.recipientId) break
+          internalDispatch({
+            type: 'SET_EFFECT',
+            payload: { type: 'NAVIGATE', path: `/messages/${conversationIdOf(currentUserId, input.recipientId)}` },
+          })
+          break
+        case 'RETRY_MESSAGE': {
+          const result = await syncService.retryDeadLetter(input.operationId)
+          if (result.success) {
+            await fetchConversations('Failed to refresh conversations')
+          } else {
+            internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to retry message' })
+          }
+          break
+        }
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+        case 'NAVIGATE_TO_THREAD':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: `/messages/${input.id}` } })
+          break
+      }
+    },
+    [currentUserId, fetchConversations, syncService, internalDispatch]
+  )
+
+  // ==========================================================================
+  // Initial Load & Online Status
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_CONVERSATIONS' })
+      internalDispatch({ type: 'SET_ONLINE', payload: messageService.isOnline() })
+    }
+  }, [dispatch, messageService, internalDispatch])
+
+  // ==========================================================================
+  // Recipients (everyone but the signed-in user)
+  // ==========================================================================
+
+  useEffect(() => {
+    let cancelled = false
+    void userService.getList({ page: 1, pageSize: RECIPIENTS_PAGE_SIZE }).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        internalDispatch({
+          type: 'SET_RECIPIENTS',
+          payload: result.data.data
+            .filter((user) => user.id !== currentUserId)
+            .map((user) => ({ id: user.id, name: `${user.firstName} ${user.lastName}` })),
+        })
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [currentUserId, userService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab, other tabs, and queued messages delivered or failed)
+  // ==========================================================================
+
+  useEffect(() => {
+    const changes = messageService.updates$
+      .pipe(
+        filter((change) => change.type !== 'list'),
+        debounceTime(RELOAD_DELAY)
+      )
+      .subscribe(() => {
+        void fetchConversations('Failed to refresh conversations')
+      })
+    // A delivered message leaves the outbox under its server ID
+    const mappings = messageService.idMappings$.subscribe(() => {
+      void fetchConversations('Failed to refresh conversations')
+    })
+    // A message the sync queue gave up on shows as failed
+    const deadLetters = syncService.deadLetters$.pipe(skip(1)).subscribe(() => {
+      void fetchConversations('Failed to refresh conversations')
+    })
+    return () => {
+      changes.unsubscribe()
+      mappings.unsubscribe()
+      deadLetters.unsubscribe()
+    }
+  }, [fetchConversations, messageService, syncService])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: ConversationListOutput = {
+    conversations: state.conversations,
+    outbox: state.outbox,
+    recipients: state.recipients,
+    searchQuery: state.searchQuery,
+    isLoading: state.isLoading,
+    isRefreshing: state.isRefreshing,
+    error: state.error,
+    isOnline: state.isOnline,
+    filteredConversations: computeFilteredConversations(state.conversations, state.searchQuery),
+    unreadCount: state.conversations.reduce((total, conversation) => total + conversation.unreadCount, 0),
+  }
+
+  return { output, dispatch }
+}
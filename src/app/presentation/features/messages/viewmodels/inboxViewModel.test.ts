@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { Conversation, Message } from '@/app/domain/entities/message.model'
+import type { MessageChange, MessageService } from '@/app/domain/services/messageService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockUpdates = new Subject<MessageChange>()
+
+const mockMessageService: MessageService = {
+  getConversations: vi.fn(),
+  getThread: vi.fn(),
+  getOutbox: vi.fn(),
+  send: vi.fn(),
+  markRead: vi.fn(),
+  markAllRead: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: new Subject<IdMapping>().asObservable(),
+  updates$: mockUpdates.asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useMessageService: () => mockMessageService,
+}))
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useInboxViewModel } from './inboxViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createMockMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: '1',
+    conversationId: '1~2',
+    senderId: '2',
+    senderName: 'Jane Smith',
+    recipientId: '1',
+    recipientName: 'John Doe',
+    body: 'Lunch at noon?',
+    readAt: null,
+    createdAt: new Date('2025-01-01T12:00:00Z'),
+    updatedAt: new Date('2025-01-01T12:00:00Z'),
+    ...overrides,
+  }
+}
+
+function createMockConversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: '1~2',
+    participantId: '2',
+    participantName: 'Jane Smith',
+    lastMessage: createMockMessage(),
+    unreadCount: 2,
+    ...overrides,
+  }
+}
+
+/** Flush microtasks so fire-and-forget promises in useEffect resolve */
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+async function renderLoaded(userId?: string) {
+  const hook = renderHook(({ id }) => useInboxViewModel(id), { initialProps: { id: userId } })
+  await act(async () => {
+    await flushPromises()
+  })
+  await waitFor(() => {
+    expect(hook.result.current.output.isLoading).toBe(false)
+  })
+  return hook
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useInboxViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockMessageService.getConversations).mockResolvedValue({
+      success: true,
+      data: [
+        createMockConversation(),
+        createMockConversation({ id: '1~3', participantId: '3', participantName: 'Bob Lee', unreadCount: 0 }),
+      ],
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('loads the unread conversations of the signed-in user', async () => {
+    const { result } = await renderLoaded('1')
+
+    expect(mockMessageService.getConversations).toHaveBeenCalledWith('1')
+    expect(result.current.output.unreadConversations.map((c) => c.id)).toEqual(['1~2'])
+    expect(result.current.output.unreadCount).toBe(2)
+  })
+
+  it('is empty without a signed-in user', async () => {
+    const { result } = await renderLoaded()
+
+    expect(mockMessageService.getConversations).not.toHaveBeenCalled()
+    expect(result.current.output.unreadCount).toBe(0)
+  })
+
+  it('reloads when another user signs in', async () => {
+    const hook = await renderLoaded('1')
+
+    hook.rerender({ id: '2' })
+    await act(async () => {
+      await flushPromises()
+    })
+
+    expect(mockMessageService.getConversations).toHaveBeenLastCalledWith('2')
+  })
+
+  it('shows the service error when loading fails', async () => {
+    vi.mocked(mockMessageService.getConversations).mockResolvedValue({ success: false, error: 'Network down' })
+
+    const { result } = await renderLoaded('1')
+
+    expect(result.current.output.error).toBe('Network down')
+  })
+
+  it('marks everything read at once', async () => {
+    vi.mocked(mockMessageService.markAllRead).mockResolvedValue({ success: true, data: 2 })
+    const { result } = await renderLoaded('1')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'MARK_ALL_READ' })
+    })
+
+    expect(mockMessageService.markAllRead).toHaveBeenCalledWith('1')
+    expect(result.current.output.unreadCount).toBe(0)
+  })
+
+  it('restores the unread count when marking fails', async () => {
+    vi.mocked(mockMessageService.markAllRead).mockResolvedValue({ success: false, error: 'Server error' })
+    const { result } = await renderLoaded('1')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'MARK_ALL_READ' })
+    })
+
+    expect(result.current.output.unreadCount).toBe(2)
+    expect(mockShowToast).toHaveBeenCalledWith('Server error', 'error')
+  })
+
+  it('reloads after messages change', async () => {
+    const { result } = await renderLoaded('1')
+    vi.useFakeTimers()
+    vi.mocked(mockMessageService.getConversations).mockResolvedValue({ success: true, data: [] })
+
+    act(() => {
+      mockUpdates.next({ type: 'create', message: createMockMessage({ id: '2' }) })
+      mockUpdates.next({ type: 'update', message: createMockMessage({ id: '2' }) })
+    })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(250)
+    })
+
+    expect(mockMessageService.getConversations).toHaveBeenCalledTimes(2)
+    expect(result.current.output.unreadCount).toBe(0)
+  })
+
+  it('navigates to a conversation', async () => {
+    const { result } = await renderLoaded('1')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'OPEN_CONVERSATION', id: '1~2' })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/messages/1~2')
+  })
+
+  it('navigates to the messages list', async () => {
+    const { result } = await renderLoaded('1')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'OPEN_MESSAGES' })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/messages')
+  })
+})
@@ -0,0 +1,226 @@
+// =============================================================================
+// Inbox ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+//
+// Unread messages of the signed-in user, for the app shell: the Messages
+// badge, the header bell and the notifications panel.
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { debounceTime, filter } from 'rxjs/operators'
+import type { Conversation } from '@/app/domain/entities/message.model'
+import { useMessageService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+
+/** Quiet period before reloading after message changes (marking a thread read changes each message) */
+const RELOAD_DELAY = 250
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type InboxInput =
+  | { type: 'LOAD_INBOX' }
+  | { type: 'MARK_ALL_READ' }
+  | { type: 'OPEN_CONVERSATION'; id: string }
+  | { type: 'OPEN_MESSAGES' }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface InboxOutput {
+  /** Conversations with unread messages, most recent first */
+  unreadConversations: Conversation[]
+  unreadCount: number
+  isLoading: boolean
+  error: string | null
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type InboxEffect = { type: 'NAVIGATE'; path: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface InboxState {
+  conversations: Conversation[]
+  isLoading: boolean
+  error: string | null
+  pendingEffect: InboxEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type InboxAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_CONVERSATIONS'; payload: Conversation[] }
+  | { type: 'MARK_ALL_READ' }
+  | { type: 'SET_EFFECT'; payload: InboxEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+function createInitialState(): InboxState {
+  return {
+    conversations: [],
+    isLoading: false,
+    error: null,
+    pendingEffect: null,
+  }
+}
+
+function inboxReducer(state: InboxState, action: InboxAction): InboxState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload, error: null }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false }
+    case 'SET_CONVERSATIONS':
+      return { ...state, conversations: action.payload, isLoading: false }
+    case 'MARK_ALL_READ':
+      return {
+        ...state,
+        conversations: state.conversations.map((conversation) => ({ ...conversation, unreadCount: 0 })),
+      }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseInboxViewModel {
+  output: InboxOutput
+  dispatch: (input: InboxInput) => Promise<void>
+}
+
+export function useInboxViewModel(currentUserId?: string): UseInboxViewModel {
+  const navigate = useNavigate()
+  const messageService = useMessageService()
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(inboxReducer, createInitialState())
+  const loadedFor = useRef<string | undefined>(undefined)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    navigate(state.pendingEffect.path)
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  const fetchInbox = useCallback(async () => {
+    if (!currentUserId) {
+      internalDispatch({ type: 'SET_CONVERSATIONS', payload: [] })
+      return
+    }
+
+    const result = await messageService.getConversations(currentUserId)
+    if (result.success && result.data) {
+      internalDispatch({ type: 'SET_CONVERSATIONS', payload: result.data })
+    } else {
+      internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to load messages' })
+    }
+  }, [currentUserId, messageService, internalDispatch])
+
+  const dispatch = useCallback(
+    async (input: InboxInput) => {
+      switch (input.type) {
+        case 'LOAD_INBOX':
+          internalDispatch({ type: 'SET_LOADING', payload: true })
+          await fetchInbox()
+          break
+        case 'MARK_ALL_READ':
+          if (!currentUserId) break
+          // Badges clear at once and come back on failure
+          await runOptimistic({
+            update: (current) => inboxReducer(current, { type: 'MARK_ALL_READ' }),
+            mutate: () => messageService.markAllRead(currentUserId),
+            errorMessage: 'Failed to mark messages as read',
+          })
+          break
+        case 'OPEN_CONVERSATION':
+          internalDispatch({
+            type: 'SET_EFFECT',
+            payload: { type: 'NAVIGATE', path: `/messages/${input.id}` },
+          })
+          break
+        case 'OPEN_MESSAGES':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: '/messages' } })
+          break
+      }
+    },
+    [currentUserId, fetchInbox, messageService, internalDispatch, runOptimistic]
+  )
+
+  // ==========================================================================
+  // Initial Load (and again when another user signs in)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (loadedFor.current === currentUserId) return
+    loadedFor.current = currentUserId
+    void dispatch({ type: 'LOAD_INBOX' })
+  }, [currentUserId, dispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = messageService.updates$
+      .pipe(
+        filter((change) => change.type !== 'list'),
+        debounceTime(RELOAD_DELAY)
+      )
+      .subscribe(() => {
+        void fetchInbox()
+      })
+    return () => subscription.unsubscribe()
+  }, [fetchInbox, messageService])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const unreadConversations = state.conversations.filter((conversation) => conversation.unreadCount > 0)
+
+  const output: InboxOutput = {
+    unreadConversations,
+    unreadCount: unreadConversations.reduce((total, conversation) => total + conversation.unreadCount, 0),
+    isLoading: state.isLoading,
+    error: state.error,
+  }
+
+  return { output, dispatch }
+}
@@ -0,0 +1,309 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { AuthUser } from '@/app/domain/entities/auth.model'
+import type { Message } from '@/app/domain/entities/message.model'
+import type { MessageChange, MessageService } from '@/app/domain/services/messageService'
+import type { UserChange, UserService } from '@/app/domain/services/userService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockIdMappings = new Subject<IdMapping>()
+const mockUpdates = new Subject<MessageChange>()
+
+const mockMessageService: MessageService = {
+  getConversations: vi.fn(),
+  getThread: vi.fn(),
+  getOutbox: vi.fn(),
+  send: vi.fn(),
+  markRead: vi.fn(),
+  markAllRead: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: mockUpdates.asObservable(),
+}
+
+const mockUserService: UserService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  syncPendingOperations: vi.fn(),
+  clearCache: vi.fn(),
+  idMappings$: new Subject<IdMapping>().asObservable(),
+  updates$: new Subject<UserChange>().asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useMessageService: () => mockMessageService,
+  useUserService: () => mockUserService,
+}))
+
+import { useMessageThreadViewModel } from './messageThreadViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const currentUser: AuthUser = {
+  id: '1',
+  email: 'john@example.com',
+  firstName: 'John',
+  lastName: 'Doe',
+  role: 'User',
+  status: 'online',
+}
+
+function createMockMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: '1',
+    conversationId: '1~2',
+    senderId: '2',
+    senderName: 'Jane Smith',
+    recipientId: '1',
+    recipientName: 'John Doe',
+    body: 'Lunch at noon?',
+    readAt: null,
+    createdAt: new Date('2025-01-01T12:00:00Z'),
+    updatedAt: new Date('2025-01-01T12:00:00Z'),
+    ...overrides,
+  }
+}
+
+function createOwnMessage(id: string, overrides: Partial<Message> = {}): Message {
+  return createMockMessage({
+    id,
+    senderId: '1',
+    senderName: 'John Doe',
+    recipientId: '2',
+    recipientName: 'Jane Smith',
+    body: 'Sure',
+    createdAt: new Date('2025-01-01T12:05:00Z'),
+    ...overrides,
+  })
+}
+
+/** Flush microtasks so fire-and-forget promises in useEffect resolve */
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+async function renderLoaded(conversationId = '1~2') {
+  const hook = renderHook(() => useMessageThreadViewModel(conversationId, currentUser))
+  await act(async () => {
+    await flushPromises()
+  })
+  await waitFor(() => {
+    expect(hook.result.current.output.isLoading).toBe(false)
+  })
+  return hook
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useMessageThreadViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockMessageService.getThread).mockResolvedValue({ success: true, data: [createMockMessage()] })
+    vi.mocked(mockMessageService.markRead).mockResolvedValue({ success: true, data: 1 })
+    vi.mocked(mockMessageService.isOnline).mockReturnValue(true)
+  })
+
+  // ---------------------------------------------------------------------------
+  // Loading
+  // ---------------------------------------------------------------------------
+
+  it('loads the thread and marks it read', async () => {
+    const { result } = await renderLoaded()
+
+    expect(mockMessageService.getThread).toHaveBeenCalledWith('1~2', { policy: undefined })
+    expect(result.current.output.participant).toEqual({ id: '2', name: 'Jane Smith' })
+    expect(result.current.output.messages[0]).toMatchObject({ id: '1', status: 'sent', isOwn: false })
+    expect(mockMessageService.markRead).toHaveBeenCalledWith('1~2', '1')
+  })
+
+  it('does not mark a thread without unread messages', async () => {
+    vi.mocked(mockMessageService.getThread).mockResolvedValue({ success: true, data: [createOwnMessage('2')] })
+
+    const { result } = await renderLoaded()
+
+    expect(result.current.output.messages[0].isOwn).toBe(true)
+    expect(mockMessageService.markRead).not.toHaveBeenCalled()
+  })
+
+  it('names the participant of a new conversation from the user', async () => {
+    vi.mocked(mockMessageService.getThread).mockResolvedValue({ success: true, data: [] })
+    vi.mocked(mockUserService.getById).mockResolvedValue({
+      success: true,
+      data: {
+        id: '3',
+        email: 'bob@example.com',
+        firstName: 'Bob',
+        lastName: 'Lee',
+        avatar: '',
+        createdAt: new Date('2025-01-01'),
+        updatedAt: new Date('2025-01-01'),
+      },
+    })
+
+    const { result } = await renderLoaded('1~3')
+
+    expect(mockUserService.getById).toHaveBeenCalledWith('3')
+    expect(result.current.output.participant).toEqual({ id: '3', name: 'Bob Lee' })
+    expect(result.current.output.messages).toEqual([])
+  })
+
+  it('rejects a conversation the user is not part of', async () => {
+    const { result } = await renderLoaded('2~3')
+
+    expect(result.current.output.error).toBe('Conversation not found')
+    expect(mockMessageService.getThread).not.toHaveBeenCalled()
+  })
+
+  it('shows the service error when loading fails', async () => {
+    vi.mocked(mockMessageService.getThread).mockResolvedValue({ success: false, error: 'Network down' })
+
+    const { result } = await renderLoaded()
+
+    expect(result.current.output.error).toBe('Network down')
+  })
+
+  // ---------------------------------------------------------------------------
+  // Sending
+  // ---------------------------------------------------------------------------
+
+  it('sends the draft and appends the message', async () => {
+    const sent = createOwnMessage('5')
+    vi.mocked(mockMessageService.send).mockResolvedValue({ success: true, data: sent })
+    const { result } = await renderLoaded()
+
+    act(() => {
+      void result.current.dispatch({ type: 'SET_DRAFT', body: 'Sure' })
+    })
+    expect(result.current.output.canSend).toBe(true)
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SEND_MESSAGE' })
+    })
+
+    expect(mockMessageService.send).toHaveBeenCalledWith({
+      senderId: '1',
+      senderName: 'John Doe',
+      recipientId: '2',
+      recipientName: 'Jane Smith',
+      body: 'Sure',
+    })
+    expect(result.current.output.messages.map((m) => m.id)).toEqual(['1', '5'])
+    expect(result.current.output.draft).toBe('')
+  })
+
+  it('does not send an empty draft', async () => {
+    const { result } = await renderLoaded()
+
+    act(() => {
+      void result.current.dispatch({ type: 'SET_DRAFT', body: '   ' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SEND_MESSAGE' })
+    })
+
+    expect(result.current.output.canSend).toBe(false)
+    expect(mockMessageService.send).not.toHaveBeenCalled()
+  })
+
+  it('keeps the draft when sending fails', async () => {
+    vi.mocked(mockMessageService.send).mockResolvedValue({ success: false, error: 'Server error' })
+    const { result } = await renderLoaded()
+
+    act(() => {
+      void result.current.dispatch({ type: 'SET_DRAFT', body: 'Sure' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SEND_MESSAGE' })
+    })
+
+    expect(result.current.output.error).toBe('Server error')
+    expect(result.current.output.draft).toBe('Sure')
+    expect(result.current.output.isSending).toBe(false)
+  })
+
+  it('shows a message sent offline as sending until it is delivered', async () => {
+    vi.mocked(mockMessageService.send).mockResolvedValue({ success: true, data: createOwnMessage('offline_1') })
+    const { result } = await renderLoaded()
+
+    act(() => {
+      void result.current.dispatch({ type: 'SET_DRAFT', body: 'Sure' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SEND_MESSAGE' })
+    })
+
+    expect(result.current.output.messages[1]).toMatchObject({ id: 'offline_1', status: 'sending' })
+
+    act(() => {
+      mockIdMappings.next({ entity: 'message', tempId: 'offline_1', serverId: '9', timestamp: Date.now() })
+    })
+
+    expect(result.current.output.messages[1]).toMatchObject({ id: '9', status: 'sent' })
+  })
+
+  // ---------------------------------------------------------------------------
+  // Live updates
+  // ---------------------------------------------------------------------------
+
+  it('adds replies to this conversation and marks them read', async () => {
+    const { result } = await renderLoaded()
+    vi.mocked(mockMessageService.markRead).mockClear()
+
+    act(() => {
+      mockUpdates.next({
+        type: 'create',
+        message: createMockMessage({ id: '7', createdAt: new Date('2025-01-01T12:10:00Z') }),
+      })
+      mockUpdates.next({ type: 'create', message: createMockMessage({ id: '8', conversationId: '1~3' }) })
+    })
+
+    expect(result.current.output.messages.map((m) => m.id)).toEqual(['1', '7'])
+    expect(mockMessageService.markRead).toHaveBeenCalledTimes(1)
+  })
+
+  it('applies read receipts and deletes', async () => {
+    vi.mocked(mockMessageService.getThread).mockResolvedValue({
+      success: true,
+      data: [createOwnMessage('2'), createOwnMessage('3')],
+    })
+    const { result } = await renderLoaded()
+
+    act(() => {
+      mockUpdates.next({ type: 'update', message: createOwnMessage('2', { readAt: new Date() }) })
+      mockUpdates.next({ type: 'delete', message: createOwnMessage('3') })
+    })
+
+    expect(result.current.output.messages).toHaveLength(1)
+    expect(result.current.output.messages[0].status).toBe('read')
+  })
+
+  it('navigates back to the conversations', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_LIST' })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/messages')
+  })
+})
@@ -0,0 +1,398 @@
+// =============================================================================
+// Message Thread ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+//
+// One conversation between the signed-in user and another user. Messages
+// sent offline show as "sending" until the sync queue delivers them.
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { AuthUser } from '@/app/domain/entities/auth.model'
+import {
+  conversationParticipant,
+  messageStatus,
+  type Message,
+  type MessageStatus,
+} from '@/app/domain/entities/message.model'
+import type { ReadPolicy } from '@/app/domain/entities/read-policy.model'
+import { useMessageService, useUserService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+
+/**
+ * A message as the thread shows it
+ */
+export interface ThreadMessage extends Message {
+  status: MessageStatus
+  /** Sent by the signed-in user */
+  isOwn: boolean
+}
+
+export interface ThreadParticipant {
+  id: string
+  name: string
+}
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type MessageThreadInput =
+  | { type: 'LOAD_THREAD' }
+  | { type: 'REFRESH_THREAD' }
+  | { type: 'SET_DRAFT'; body: string }
+  | { type: 'SEND_MESSAGE' }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'NAVIGATE_TO_LIST' }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface MessageThreadOutput {
+  // Core data
+  participant: ThreadParticipant | null
+  messages: ThreadMessage[]
+  draft: string
+
+  // UI state
+  isLoading: boolean
+  isSending: boolean
+  error: string | null
+  isOnline: boolean
+
+  // Computed values
+  canSend: boolean
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type MessageThreadEffect = { type: 'NAVIGATE'; path: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface MessageThreadState {
+  participant: ThreadParticipant | null
+  messages: Message[]
+  draft: string
+  isLoading: boolean
+  isSending: boolean
+  error: string | null
+  isOnline: boolean
+  pendingEffect: MessageThreadEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type MessageThreadAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_SENDING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_THREAD'; payload: { participant: ThreadParticipant; messages: Message[] } }
+  | { type: 'SET_DRAFT'; payload: string }
+  | { type: 'MESSAGE_SENT'; payload: Message }
+  | { type: 'MESSAGE_UPSERTED'; payload: Message }
+  | { type: 'MESSAGE_REMOVED'; payload: string }
+  | { type: 'MESSAGE_REMAPPED'; payload: { tempId: string; serverId: string } }
+  | { type: 'SET_ONLINE'; payload: boolean }
+  | { type: 'SET_EFFECT'; payload: MessageThreadEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+const initialState: MessageThreadState = {
+  participant: null,
+  messages: [],
+  draft: '',
+  isLoading: true,
+  isSending: false,
+  error: null,
+  isOnline: true,
+  pendingEffect: null,
+}
+
+/**
+ * Insert or replace a message, keeping the thread oldest first
+ */
+function upsertMessage(messages: Message[], message: Message): Message[] {
+  return [...messages.filter((existing) => existing.id !== message.id), message].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+  )
+}
+
+function messageThreadReducer(state: MessageThreadState, action: MessageThreadAction): MessageThreadState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload, error: null }
+    case 'SET_SENDING':
+      return { ...state, isSending: action.payload, error: null }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false, isSending: false }
+    case 'SET_THREAD':
+      return {
+        ...state,
+        participant: action.payload.participant,
+        messages: action.payload.messages,
+        isLoading: false,
+      }
+    case 'SET_DRAFT':
+      return { ...state, draft: action.payload }
+    case 'MESSAGE_SENT':
+      return { ...state, messages: upsertMessage(state.messages, action.payload), draft: '', isSending: false }
+    case 'MESSAGE_UPSERTED':
+      return { ...state, messages: upsertMessage(state.messages, action.payload) }
+    case 'MESSAGE_REMOVED':
+      return { ...state, messages: state.messages.filter((message) => message.id !== action.payload) }
+    case 'MESSAGE_REMAPPED': {
+      const { tempId, serverId } = action.payload
+      const queued = state.messages.find((message) => message.id === tempId)
+      if (!queued) return state
+      const others = state.messages.filter((message) => message.id !== tempId)
+      return { ...state, messages: upsertMessage(others, { ...queued, id: serverId }) }
+    }
+    case 'SET_ONLINE':
+      return { ...state, isOnline: action.payload }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function computeMessages(messages: Message[], userId: string | undefined): ThreadMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    status: messageStatus(message),
+    isOwn: message.senderId === userId,
+  }))
+}
+
+function computeCanSend(state: MessageThreadState): boolean {
+  return !!state.participant && state.draft.trim().length > 0 && !state.isSending
+}
+
+/**
+ * The participant's name as the messages recorded it
+ */
+function nameFromMessages(messages: Message[], participantId: string): string | null {
+  for (const message of messages) {
+    if (message.senderId === participantId) return message.senderName
+    if (message.recipientId === participantId) return message.recipientName
+  }
+  return null
+}
+
+function hasUnread(messages: Message[], userId: string): boolean {
+  return messages.some((message) => message.recipientId === userId && !message.readAt)
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseMessageThreadViewModel {
+  output: MessageThreadOutput
+  dispatch: (input: MessageThreadInput) => Promise<void>
+}
+
+export function useMessageThreadViewModel(
+  conversationId: string,
+  currentUser: AuthUser | null
+): UseMessageThreadViewModel {
+  const navigate = useNavigate()
+  const messageService = useMessageService()
+  const userService = useUserService()
+  const [state, internalDispatch] = useOptimisticReducer(messageThreadReducer, initialState)
+  const isInitialMount = useRef(true)
+
+  const userId = currentUser?.id
+  const userName = currentUser ? `${currentUser.firstName} ${currentUser.lastName}` : ''
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    navigate(state.pendingEffect.path)
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  // Helper: read the thread marks it read (the inbox badge follows through updates$)
+  const markRead = useCallback(
+    (messages: Message[]) => {
+      if (userId && hasUnread(messages, userId)) {
+        void messageService.markRead(conversationId, userId)
+      }
+    },
+    [conversationId, userId, messageService]
+  )
+
+  // Helper: fetch the thread and who it is with
+  const fetchThread = useCallback(
+    async (policy?: ReadPolicy) => {
+      const participantId = userId ? conversationParticipant(conversationId, userId) : null
+      if (!userId || !participantId) {
+        internalDispatch({ type: 'SET_ERROR', payload: 'Conversation not found' })
+        return
+      }
+
+      const result = await messageService.getThread(conversationId, { policy })
+      if (!result.success || !result.data) {
+        internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to load messages' })
+        return
+      }
+
+      const messages = result.data
+      let name = nameFromMessages(messages, participantId)
+      if (!name) {
+        // A new conversation - the name comes from the user
+        const user = await userService.getById(participantId)
+        if (!user.success || !user.data) {
+          internalDispatch({ type: 'SET_ERROR', payload: user.error || 'User not found' })
+          return
+        }
+        name = `${user.data.firstName} ${user.data.lastName}`
+      }
+
+      internalDispatch({ type: 'SET_THREAD', payload: { participant: { id: participantId, name }, messages } })
+      markRead(messages)
+    },
+    [conversationId, userId, messageService, userService, markRead, internalDispatch]
+  )
+
+  const dispatch = useCallback(
+    async (input: MessageThreadInput) => {
+      switch (input.type) {
+        case 'LOAD_THREAD':
+          internalDispatch({ type: 'SET_LOADING', payload: true })
+          await fetchThread()
+          break
+
+        case 'REFRESH_THREAD':
+          await fetchThread('network-first')
+          break
+
+        case 'SET_DRAFT':
+          internalDispatch({ type: 'SET_DRAFT', payload: input.body })
+          break
+
+        case 'SEND_MESSAGE': {
+          if (!userId || !state.participant || !computeCanSend(state)) return
+
+          internalDispatch({ type: 'SET_SENDING', payload: true })
+          // Offline, the message is queued and comes back with an offline ID
+          const result = await messageService.send({
+            senderId: userId,
+            senderName: userName,
+            recipientId: state.participant.id,
+            recipientName: state.participant.name,
+            body: state.draft,
+          })
+
+          if (result.success && result.data) {
+            internalDispatch({ type: 'MESSAGE_SENT', payload: result.data })
+          } else {
+            // The draft stays for another try
+            internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to send message' })
+          }
+          break
+        }
+
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+
+        case 'NAVIGATE_TO_LIST':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: '/messages' } })
+          break
+      }
+    },
+    [state, userId, userName, fetchThread, messageService, internalDispatch]
+  )
+
+  // ==========================================================================
+  // Initial Load & Online Status
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current && conversationId) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_THREAD' })
+      internalDispatch({ type: 'SET_ONLINE', payload: messageService.isOnline() })
+    }
+  }, [conversationId, dispatch, messageService, internalDispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation (a queued message was delivered)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = messageService.idMappings$.subscribe(({ tempId, serverId }) => {
+      internalDispatch({ type: 'MESSAGE_REMAPPED', payload: { tempId, serverId } })
+    })
+    return () => subscription.unsubscribe()
+  }, [messageService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = messageService.updates$.subscribe((change) => {
+      if (change.type === 'list' || change.message.conversationId !== conversationId) return
+
+      if (change.type === 'delete') {
+        internalDispatch({ type: 'MESSAGE_REMOVED', payload: change.message.id })
+        return
+      }
+      internalDispatch({ type: 'MESSAGE_UPSERTED', payload: change.message })
+      // A reply arriving while the thread is open is read at once
+      if (change.type === 'create') markRead([change.message])
+    })
+    return () => subscription.unsubscribe()
+  }, [conversationId, messageService, markRead, internalDispatch])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: MessageThreadOutput = {
+    participant: state.participant,
+    messages: computeMessages(state.messages, userId),
+    draft: state.draft,
+    isLoading: state.isLoading,
+    isSending: state.isSending,
+    error: state.error,
+    isOnline: state.isOnline,
+    canSend: computeCanSend(state),
+  }
+
+  return { output, dispatch }
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import { ProjectDetailComponent } from './ProjectDetailComponent'
+import type { ProjectDetailOutput } from '../viewmodels/projectDetailViewModel'
+import type { Project } from '@/app/domain/entities/project.model'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+
+const mockProject: Project = {
+  id: '7',
+  name: 'Apollo',
+  description: 'Moon landing',
+  ownerId: '1',
+  memberIds: ['2', '3'],
+  status: 'on-hold',
+  archived: false,
+  createdAt: new Date('2025-01-15T10:30:00'),
+  updatedAt: new Date('2025-06-20T14:00:00'),
+}
+
+const defaultOutput: ProjectDetailOutput = {
+  project: mockProject,
+  isLoading: false,
+  isDeleting: false,
+  error: null,
+  successMessage: null,
+  memberCount: 3,
+  listPath: '/projects',
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/projectDetailViewModel', () => ({
+  useProjectDetailViewModel: () => ({
+    output: currentOutput,
+    dispatch: mockDispatch,
+  }),
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(ui: React.ReactElement, role: UserRole = 'Admin') {
+  const { service } = createMockAuthService({ ...TEST_USER, role })
+  return render(
+    <MemoryRouter initialEntries={['/projects/7']}>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(service)}>
+          <AuthProvider>
+            <Routes>
+              <Route path="/projects/:id" element={ui} />
+            </Routes>
+          </AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </MemoryRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ProjectDetailComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('renders the project name, description and status', () => {
+    renderWithProviders(<ProjectDetailComponent />)
+    expect(screen.getByText('Project Details')).toBeInTheDocument()
+    expect(screen.getByText('Apollo')).toBeInTheDocument()
+    expect(screen.getByText('Moon landing')).toBeInTheDocument()
+    expect(screen.getByText('On Hold')).toBeInTheDocument()
+  })
+
+  it('links the owner and members to their user pages', () => {
+    renderWithProviders(<ProjectDetailComponent />)
+    expect(screen.getByRole('link', { name: '#1' })).toHaveAttribute('href', '/users/1')
+    expect(screen.getByRole('link', { name: '#3' })).toHaveAttribute('href', '/users/3')
+    expect(screen.getByText('Members (3)')).toBeInTheDocument()
+  })
+
+  it('renders the archived badge and restore button for archived projects', () => {
+    currentOutput = {
+      ...defaultOutput,
+      project: { ...mockProject, archived: true },
+      listPath: '/projects/archived',
+    }
+    renderWithProviders(<ProjectDetailComponent />)
+
+    expect(screen.getByText('Archived')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Restore/i })).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: /Back to List/i })).toHaveAttribute('href', '/projects/archived')
+  })
+
+  it('renders a loading state', () => {
+    currentOutput = { ...defaultOutput, isLoading: true, project: null }
+    renderWithProviders(<ProjectDetailComponent />)
+    expect(screen.getByText('Loading project details...')).toBeInTheDocument()
+  })
+
+  it('renders the error alert', () => {
+    currentOutput = { ...defaultOutput, project: null, error: 'Project not found' }
+    renderWithProviders(<ProjectDetailComponent />)
+    expect(screen.getByText('Project not found')).toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches ARCHIVE_PROJECT after confirm', async () => {
+    const confirmSpy = vi.spyOn(globalThis, 'confirm').mockReturnValue(true)
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectDetailComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Archive/i }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'ARCHIVE_PROJECT' })
+    confirmSpy.mockRestore()
+  })
+
+  it('dispatches DELETE_PROJECT after confirm', async () => {
+    const confirmSpy = vi.spyOn(globalThis, 'confirm').mockReturnValue(true)
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectDetailComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Delete/i }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'DELETE_PROJECT' })
+    confirmSpy.mockRestore()
+  })
+
+  it('dispatches NAVIGATE_TO_EDIT when edit is clicked', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectDetailComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Edit Project/i }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'NAVIGATE_TO_EDIT', id: '7' })
+  })
+
+  // --- Permissions ---
+
+  it('shows Guests no edit, archive or delete actions', () => {
+    renderWithProviders(<ProjectDetailComponent />, 'Guest')
+
+    expect(screen.queryByRole('button', { name: /Edit Project/i })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Archive/i })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Delete/i })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,281 @@
+// =============================================================================
+// Project Detail Component
+// =============================================================================
+// Presentation layer component that uses ProjectDetailViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// =============================================================================
+
+import { useParams, Link } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { Can } from '@shared/components/Can/Can'
+import { useProjectDetailViewModel } from '../viewmodels/projectDetailViewModel'
+import { PROJECT_STATUS_BADGES, projectStatusKey } from '../projectStatus'
+
+export function ProjectDetailComponent() {
+  const { id } = useParams<{ id: string }>()
+  const { t } = useI18n()
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useProjectDetailViewModel(id || '')
+
+  // ==========================================================================
+  // Helper Functions
+  // ==========================================================================
+
+  const formatDate = (date?: Date) => {
+    if (!date) return 'N/A'
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleDelete = () => {
+    if (output.project && globalThis.confirm(t('project.delete.message', { name: output.project.name }))) {
+      void dispatch({ type: 'DELETE_PROJECT' })
+    }
+  }
+
+  const handleArchive = () => {
+    if (output.project && globalThis.confirm(t('project.archive.message', { name: output.project.name }))) {
+      void dispatch({ type: 'ARCHIVE_PROJECT' })
+    }
+  }
+
+  const handleRestore = () => {
+    void dispatch({ type: 'RESTORE_PROJECT' })
+  }
+
+  const handleNavigateToList = () => {
+    void dispatch({ type: 'NAVIGATE_TO_LIST' })
+  }
+
+  const handleNavigateToEdit = () => {
+    if (output.project) {
+      void dispatch({ type: 'NAVIGATE_TO_EDIT', id: output.project.id })
+    }
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  return (
+    <div className="project-detail-page container-fluid py-4">
+      {/* Back Button */}
+      <button
+        className="btn btn-outline-secondary mb-3"
+        onClick={handleNavigateToList}
+      >
+        <i className="bi bi-arrow-left me-2"></i>
+        {t('common.back')}
+      </button>
+
+      {/* Page Header */}
+      <div className="page-header d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h2 className="mb-1">{t('project.detail.title')}</h2>
+          <p className="text-muted mb-0">{t('project.detail.subtitle')}</p>
+        </div>
+      </div>
+
+      {/* Success Alert */}
+      {output.successMessage && (
+        <div className="alert alert-success fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+        </div>
+      )}
+
+      {/* Error Alert */}
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {output.isLoading && (
+        <div className="text-center py-5">
+          <output className="d-block">
+            <div className="spinner-border text-primary">
+              <span className="visually-hidden">{t('common.loading')}</span>
+            </div>
+            <p className="mt-3 text-muted">{t('project.detail.loading')}</p>
+          </output>
+        </div>
+      )}
+
+      {/* Project Detail Card */}
+      {!output.isLoading && output.project && (
+        <div className="row">
+          <div className="col-lg-8">
+            <div className="card">
+              <div className="card-body py-4">
+                <div className="d-flex flex-wrap align-items-center gap-2 mb-2">
+                  <h4 className="mb-0 me-2">{output.project.name}</h4>
+                  <span className={`badge ${PROJECT_STATUS_BADGES[output.project.status]}`}>
+                    {t(projectStatusKey(output.project.status))}
+                  </span>
+                  {output.project.archived && (
+                    <span className="badge bg-dark">
+                      <i className="bi bi-archive me-1"></i>
+                      {t('project.archived.badge')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-muted mb-0">
+                  {output.project.description || t('project.detail.no.description')}
+                </p>
+
+                <hr className="my-4" />
+
+                {/* Info Grid */}
+                <div className="row">
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-hash text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('project.detail.project.id')}</small>
+                        <div className="fw-semibold">#{output.project.id}</div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-person-badge text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('project.detail.owner')}</small>
+                        <div className="fw-semibold">
+                          <Link to={`/users/${output.project.ownerId}`}>#{output.project.ownerId}</Link>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-calendar-plus text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('project.detail.created.at')}</small>
+                        <div className="fw-semibold">{formatDate(output.project.createdAt)}</div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-calendar-check text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('project.detail.updated.at')}</small>
+                        <div className="fw-semibold">{formatDate(output.project.updatedAt)}</div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-12 mb-3">
+                    <div className="d-flex align-items-start">
+                      <i className="bi bi-people text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">
+                          {t('project.detail.members')} ({output.memberCount})
+                        </small>
+                        <div className="d-flex flex-wrap gap-2 mt-1">
+                          {output.project.memberIds.length === 0 && (
+                            <span className="text-muted">{t('project.detail.no.members')}</span>
+                          )}
+                          {output.project.memberIds.map((memberId) => (
+                            <Link
+                              key={memberId}
+                              to={`/users/${memberId}`}
+                              className="badge rounded-pill text-bg-light text-decoration-none"
+                            >
+                              #{memberId}
+                            </Link>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+              <div className="card-footer bg-white d-flex justify-content-between">
+                <Link to={output.listPath} className="btn btn-outline-secondary">
+                  <i className="bi bi-arrow-left me-2"></i>
+                  {t('project.detail.back.to.list')}
+                </Link>
+                <div className="btn-group">
+                  <Can permission="project:delete">
+                    <button
+                      className="btn btn-outline-danger"
+                      onClick={handleDelete}
+                      disabled={output.isDeleting}
+                    >
+                      {output.isDeleting ? (
+                        <>
+                          <output className="spinner-border spinner-border-sm me-2"></output>
+                          {t('project.detail.deleting')}
+                        </>
+                      ) : (
+                        <>
+                          <i className="bi bi-trash me-2"></i>
+                          {t('common.delete')}
+                        </>
+                      )}
+                    </button>
+                  </Can>
+                  <Can permission="project:update">
+                    {output.project.archived ? (
+                      <button className="btn btn-outline-secondary" onClick={handleRestore}>
+                        <i className="bi bi-box-arrow-up me-2"></i>
+                        {t('project.action.restore')}
+                      </button>
+                    ) : (
+                      <button className="btn btn-outline-secondary" onClick={handleArchive}>
+                        <i className="bi bi-archive me-2"></i>
+                        {t('project.action.archive')}
+                      </button>
+                    )}
+                    <button
+                      className="btn btn-primary"
+                      onClick={handleNavigateToEdit}
+                    >
+                      <i className="bi bi-pencil me-2"></i>
+                      {t('project.detail.edit.project')}
+                    </button>
+                  </Can>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Info Card */}
+          <div className="col-lg-4 mt-4 mt-lg-0">
+            <div className="card bg-light">
+              <div className="card-body">
+                <h6 className="card-title">
+                  <i className="bi bi-info-circle me-2 text-primary"></i>
+                  {t('project.detail.information')}
+                </h6>
+                <p className="card-text text-muted small">
+                  {t('project.detail.information.description')}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
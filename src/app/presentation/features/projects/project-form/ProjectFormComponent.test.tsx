@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createTestContainer } from '@/test/mocks/authService'
+import { ProjectFormComponent } from './ProjectFormComponent'
+import type { ProjectFormOutput } from '../viewmodels/projectFormViewModel'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+const mockUseViewModel = vi.fn()
+
+const defaultOutput: ProjectFormOutput = {
+  name: '',
+  description: '',
+  ownerId: '1',
+  status: 'planning',
+  memberIds: ['3'],
+  userOptions: [
+    { id: '1', name: 'John Doe' },
+    { id: '2', name: 'Jane Doe' },
+    { id: '3', name: 'Jim Doe' },
+  ],
+  isEditMode: false,
+  isLoading: false,
+  isSubmitting: false,
+  isDirty: false,
+  errors: {},
+  submitError: null,
+  successMessage: null,
+  isValid: false,
+  hasErrors: false,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/projectFormViewModel', () => ({
+  useProjectFormViewModel: (...args: unknown[]) => {
+    mockUseViewModel(...args)
+    return { output: currentOutput, dispatch: mockDispatch }
+  },
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(ui: React.ReactElement, { route = '/projects/new' } = {}) {
+  return render(
+    <MemoryRouter initialEntries={[route]}>
+      <I18nProvider>
+        <DIProvider container={createTestContainer()}>
+          <AuthProvider>
+            <Routes>
+              <Route path="/projects/new" element={ui} />
+              <Route path="/projects/:id/edit" element={ui} />
+            </Routes>
+          </AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </MemoryRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ProjectFormComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('renders create mode with the signed-in user as default owner', () => {
+    renderWithProviders(<ProjectFormComponent />)
+    expect(screen.getByRole('heading', { name: 'Create Project' })).toBeInTheDocument()
+    expect(mockUseViewModel).toHaveBeenCalledWith(undefined, TEST_USER.id)
+  })
+
+  it('renders edit mode for the project in the route', () => {
+    currentOutput = { ...defaultOutput, isEditMode: true }
+    renderWithProviders(<ProjectFormComponent />, { route: '/projects/7/edit' })
+    expect(screen.getByRole('heading', { name: 'Edit Project' })).toBeInTheDocument()
+    expect(mockUseViewModel).toHaveBeenCalledWith('7', TEST_USER.id)
+  })
+
+  it('renders all form fields', () => {
+    renderWithProviders(<ProjectFormComponent />)
+    expect(screen.getByLabelText(/Name/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Description/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Owner/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Status/)).toBeInTheDocument()
+  })
+
+  it('lists every user except the owner as a member option', () => {
+    renderWithProviders(<ProjectFormComponent />)
+    expect(screen.queryByRole('checkbox', { name: 'John Doe' })).not.toBeInTheDocument()
+    expect(screen.getByRole('checkbox', { name: 'Jane Doe' })).not.toBeChecked()
+    expect(screen.getByRole('checkbox', { name: 'Jim Doe' })).toBeChecked()
+  })
+
+  it('renders field errors', () => {
+    currentOutput = { ...defaultOutput, errors: { name: 'Project name is required' } }
+    renderWithProviders(<ProjectFormComponent />)
+    expect(screen.getByText('Project name is required')).toBeInTheDocument()
+  })
+
+  it('renders the submit error alert', () => {
+    currentOutput = { ...defaultOutput, submitError: 'Project not found' }
+    renderWithProviders(<ProjectFormComponent />)
+    expect(screen.getByText('Project not found')).toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches SET_FIELD when the status changes', () => {
+    renderWithProviders(<ProjectFormComponent />)
+    fireEvent.change(screen.getByLabelText(/Status/), { target: { value: 'active' } })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_FIELD', field: 'status', value: 'active' })
+  })
+
+  it('dispatches VALIDATE_FIELD on blur', () => {
+    renderWithProviders(<ProjectFormComponent />)
+    fireEvent.blur(screen.getByLabelText(/Name/))
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'VALIDATE_FIELD', field: 'name' })
+  })
+
+  it('dispatches TOGGLE_MEMBER when a member is checked', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectFormComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('checkbox', { name: 'Jane Doe' }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'TOGGLE_MEMBER', userId: '2' })
+  })
+
+  it('dispatches SUBMIT when the form is valid', async () => {
+    currentOutput = { ...defaultOutput, name: 'Apollo', isValid: true, isDirty: true }
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectFormComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Create Project/i }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SUBMIT' })
+  })
+
+  it('disables submit while the form is invalid', () => {
+    renderWithProviders(<ProjectFormComponent />)
+    expect(screen.getByRole('button', { name: /Create Project/i })).toBeDisabled()
+  })
+})
@@ -0,0 +1,322 @@
+// =============================================================================
+// Project Form Component
+// =============================================================================
+// Presentation layer component that uses ProjectFormViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// =============================================================================
+
+import { useParams, Link } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { useAuth } from '@core/providers/AuthProvider'
+import { useProjectFormViewModel, type ProjectFormField } from '../viewmodels/projectFormViewModel'
+import { PROJECT_STATUSES, projectStatusKey } from '../projectStatus'
+import type { ProjectValidationErrors } from '@/app/domain/entities/project.model'
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+
+export function ProjectFormComponent() {
+  const { id } = useParams<{ id: string }>()
+  const { t } = useI18n()
+  const { currentUser } = useAuth()
+
+  // Use ViewModel - UDF Input/Output pattern (new projects are owned by the signed-in user)
+  const { output, dispatch } = useProjectFormViewModel(id, currentUser?.id)
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleChange = (e: React.ChangeEvent<FieldElement>) => {
+    const { name, value } = e.target
+    void dispatch({ type: 'SET_FIELD', field: name as ProjectFormField, value })
+  }
+
+  const handleBlur = (e: React.FocusEvent<FieldElement>) => {
+    const { name } = e.target
+    void dispatch({ type: 'VALIDATE_FIELD', field: name as keyof ProjectValidationErrors })
+  }
+
+  const handleToggleMember = (userId: string) => {
+    void dispatch({ type: 'TOGGLE_MEMBER', userId })
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    void dispatch({ type: 'SUBMIT' })
+  }
+
+  const handleReset = () => {
+    void dispatch({ type: 'RESET' })
+  }
+
+  const handleNavigateToList = () => {
+    void dispatch({ type: 'NAVIGATE_TO_LIST' })
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  const ownerMissing = !!output.ownerId && !output.userOptions.some((user) => user.id === output.ownerId)
+
+  return (
+    <div className="project-form-page container-fluid py-4">
+      {/* Back Button */}
+      <button
+        className="btn btn-outline-secondary mb-3"
+        onClick={handleNavigateToList}
+      >
+        <i className="bi bi-arrow-left me-2"></i>
+        {t('common.back')}
+      </button>
+
+      {/* Page Header */}
+      <div className="page-header mb-4">
+        <h2 className="mb-1">
+          {output.isEditMode ? t('project.form.edit.title') : t('project.form.create.title')}
+        </h2>
+        <p className="text-muted mb-0">
+          {output.isEditMode ? t('project.form.edit.subtitle') : t('project.form.create.subtitle')}
+        </p>
+      </div>
+
+      {/* Success Alert */}
+      {output.successMessage && (
+        <div className="alert alert-success fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+        </div>
+      )}
+
+      {/* API Error Alert */}
+      {output.submitError && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.submitError}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {output.isLoading && (
+        <div className="text-center py-5">
+          <output className="d-block">
+            <div className="spinner-border text-primary">
+              <span className="visually-hidden">{t('common.loading')}</span>
+            </div>
+            <p className="mt-3 text-muted">{t('project.form.loading')}</p>
+          </output>
+        </div>
+      )}
+
+      {/* Form */}
+      {!output.isLoading && (
+        <div className="row">
+          <div className="col-lg-8">
+            <div className="card">
+              <div className="card-body">
+                <form onSubmit={handleSubmit} noValidate>
+                  {/* Name */}
+                  <div className="mb-3">
+                    <label htmlFor="name" className="form-label">
+                      {t('project.form.field.name')} <span className="text-danger">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      id="name"
+                      name="name"
+                      className={`form-control ${output.errors.name ? 'is-invalid' : ''}`}
+                      placeholder={t('project.form.placeholder.name')}
+                      value={output.name}
+                      onChange={handleChange}
+                      onBlur={handleBlur}
+                      disabled={output.isSubmitting}
+                    />
+                    {output.errors.name && (
+                      <div className="invalid-feedback">{output.errors.name}</div>
+                    )}
+                  </div>
+
+                  {/* Description */}
+                  <div className="mb-3">
+                    <label htmlFor="description" className="form-label">
+                      {t('project.form.field.description')}
+                      <span className="text-muted ms-1">({t('project.form.optional')})</span>
+                    </label>
+                    <textarea
+                      id="description"
+                      name="description"
+                      rows={4}
+                      className={`form-control ${output.errors.description ? 'is-invalid' : ''}`}
+                      placeholder={t('project.form.placeholder.description')}
+                      value={output.description}
+                      onChange={handleChange}
+                      onBlur={handleBlur}
+                      disabled={output.isSubmitting}
+                    />
+                    {output.errors.description && (
+                      <div className="invalid-feedback">{output.errors.description}</div>
+                    )}
+                  </div>
+
+                  <div className="row">
+                    {/* Owner */}
+                    <div className="col-md-6 mb-3">
+                      <label htmlFor="ownerId" className="form-label">
+                        {t('project.form.field.owner')} <span className="text-danger">*</span>
+                      </label>
+                      <select
+                        id="ownerId"
+                        name="ownerId"
+                        className={`form-select ${output.errors.ownerId ? 'is-invalid' : ''}`}
+                        value={output.ownerId}
+                        onChange={handleChange}
+                        onBlur={handleBlur}
+                        disabled={output.isSubmitting}
+                      >
+                        <option value="">{t('project.form.placeholder.owner')}</option>
+                        {ownerMissing && <option value={output.ownerId}>#{output.ownerId}</option>}
+                        {output.userOptions.map((user) => (
+                          <option key={user.id} value={user.id}>
+                            {user.name}
+                          </option>
+                        ))}
+                      </select>
+                      {output.errors.ownerId && (
+                        <div className="invalid-feedback">{output.errors.ownerId}</div>
+                      )}
+                    </div>
+
+                    {/* Status */}
+                    <div className="col-md-6 mb-3">
+                      <label htmlFor="status" className="form-label">
+                        {t('project.form.field.status')}
+                      </label>
+                      <select
+                        id="status"
+                        name="status"
+                        className={`form-select ${output.errors.status ? 'is-invalid' : ''}`}
+                        value={output.status}
+                        onChange={handleChange}
+                        onBlur={handleBlur}
+                        disabled={output.isSubmitting}
+                      >
+                        {PROJECT_STATUSES.map((status) => (
+                          <option key={status} value={status}>
+                            {t(projectStatusKey(status))}
+                          </option>
+                        ))}
+                      </select>
+                      {output.errors.status && (
+                        <div className="invalid-feedback">{output.errors.status}</div>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Members */}
+                  <fieldset className="mb-4">
+                    <legend className="form-label fs-6">
+                      {t('project.form.field.members')}
+                      <span className="text-muted ms-1">({t('project.form.optional')})</span>
+                    </legend>
+                    {output.userOptions.length === 0 ? (
+                      <p className="text-muted small mb-0">{t('project.form.no.users')}</p>
+                    ) : (
+                      <div className="row">
+                        {output.userOptions
+                          .filter((user) => user.id !== output.ownerId)
+                          .map((user) => (
+                            <div key={user.id} className="col-md-6">
+                              <div className="form-check">
+                                <input
+                                  type="checkbox"
+                                  id={`member-${user.id}`}
+                                  className="form-check-input"
+                                  checked={output.memberIds.includes(user.id)}
+                                  onChange={() => handleToggleMember(user.id)}
+                                  disabled={output.isSubmitting}
+                                />
+                                <label htmlFor={`member-${user.id}`} className="form-check-label">
+                                  {user.name}
+                                </label>
+                              </div>
+                            </div>
+                          ))}
+                      </div>
+                    )}
+                  </fieldset>
+
+                  {/* Form Actions */}
+                  <div className="d-flex justify-content-between">
+                    <button
+                      type="button"
+                      className="btn btn-outline-secondary"
+                      onClick={handleReset}
+                      disabled={output.isSubmitting || !output.isDirty}
+                    >
+                      <i className="bi bi-arrow-counterclockwise me-2"></i>
+                      {t('common.reset')}
+                    </button>
+                    <div className="d-flex gap-2">
+                      <Link to="/projects" className="btn btn-outline-secondary">
+                        {t('common.cancel')}
+                      </Link>
+                      <button
+                        type="submit"
+                        className="btn btn-primary"
+                        disabled={output.isSubmitting || !output.isValid}
+                      >
+                        {output.isSubmitting ? (
+                          <>
+                            <span className="spinner-border spinner-border-sm me-2"></span>
+                            {t('project.form.button.saving')}
+                          </>
+                        ) : (
+                          <>
+                            <i className="bi bi-check-lg me-2"></i>
+                            {output.isEditMode ? t('project.form.button.update') : t('project.form.button.create')}
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+
+          {/* Help Card */}
+          <div className="col-lg-4 mt-4 mt-lg-0">
+            <div className="card bg-light">
+              <div className="card-body">
+                <h6 className="card-title">
+                  <i className="bi bi-question-circle me-2 text-primary"></i>
+                  {t('project.form.help.title')}
+                </h6>
+                <ul className="list-unstyled small text-muted mb-0">
+                  <li className="mb-2">
+                    <i className="bi bi-check text-success me-2"></i>
+                    {t('project.form.help.name.length')}
+                  </li>
+                  <li className="mb-2">
+                    <i className="bi bi-check text-success me-2"></i>
+                    {t('project.form.help.owner.required')}
+                  </li>
+                  <li>
+                    <i className="bi bi-check text-success me-2"></i>
+                    {t('project.form.help.members')}
+                  </li>
+                </ul>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
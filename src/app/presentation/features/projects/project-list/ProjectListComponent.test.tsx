@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BrowserRouter } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import { ProjectListComponent } from './ProjectListComponent'
+import type { ProjectListOutput } from '../viewmodels/projectListViewModel'
+import type { Project } from '@/app/domain/entities/project.model'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+
+const mockProjects: Project[] = [
+  {
+    id: '1',
+    name: 'Apollo',
+    description: 'Moon landing',
+    ownerId: '1',
+    memberIds: ['2', '3'],
+    status: 'active',
+    archived: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+  {
+    id: '2',
+    name: 'Gemini',
+    description: '',
+    ownerId: '2',
+    memberIds: [],
+    status: 'planning',
+    archived: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+]
+
+const defaultOutput: ProjectListOutput = {
+  projects: mockProjects,
+  archived: false,
+  totalPages: 1,
+  totalItems: 2,
+  currentPage: 1,
+  pageSize: 6,
+  searchQuery: '',
+  isLoading: false,
+  isRefreshing: false,
+  error: null,
+  successMessage: null,
+  isOnline: true,
+  filteredProjects: mockProjects,
+  startItem: 1,
+  endItem: 2,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/projectListViewModel', () => ({
+  useProjectListViewModel: () => ({
+    output: currentOutput,
+    dispatch: mockDispatch,
+  }),
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(ui: React.ReactElement, role: UserRole = 'Admin') {
+  const { service } = createMockAuthService({ ...TEST_USER, role })
+  return render(
+    <BrowserRouter>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(service)}>
+          <AuthProvider>{ui}</AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </BrowserRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ProjectListComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('renders the page title and create link', () => {
+    renderWithProviders(<ProjectListComponent />)
+    expect(screen.getByText('All Projects')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: /Create Project/i })).toHaveAttribute('href', '/projects/new')
+  })
+
+  it('renders project names, status badges and member counts', () => {
+    renderWithProviders(<ProjectListComponent />)
+    expect(screen.getAllByText('Apollo').length).toBeGreaterThan(0)
+    expect(screen.getAllByText('Active').length).toBeGreaterThan(0)
+    expect(screen.getAllByText('Planning').length).toBeGreaterThan(0)
+    // Owner plus two members
+    expect(screen.getAllByText('3 members').length).toBeGreaterThan(0)
+  })
+
+  it('renders the empty state', () => {
+    currentOutput = { ...defaultOutput, projects: [], filteredProjects: [], totalItems: 0 }
+    renderWithProviders(<ProjectListComponent />)
+    expect(screen.getByText('No projects found')).toBeInTheDocument()
+    expect(screen.getByText('Get started by creating your first project')).toBeInTheDocument()
+  })
+
+  it('renders the archive with restore actions only', () => {
+    const archivedProjects = mockProjects.map((project) => ({ ...project, archived: true }))
+    currentOutput = { ...defaultOutput, archived: true, projects: archivedProjects, filteredProjects: archivedProjects }
+    renderWithProviders(<ProjectListComponent archived />)
+
+    expect(screen.getByText('Archived Projects')).toBeInTheDocument()
+    expect(screen.getAllByTitle('Restore').length).toBeGreaterThan(0)
+    expect(screen.queryAllByTitle('Archive')).toHaveLength(0)
+    expect(screen.queryAllByTitle('Edit')).toHaveLength(0)
+  })
+
+  it('renders the error alert', () => {
+    currentOutput = { ...defaultOutput, error: 'Failed to load projects' }
+    renderWithProviders(<ProjectListComponent />)
+    expect(screen.getByText('Failed to load projects')).toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches ARCHIVE_PROJECT after confirm', async () => {
+    const confirmSpy = vi.spyOn(globalThis, 'confirm').mockReturnValue(true)
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectListComponent />)
+
+    await act(async () => {
+      await user.click(screen.getAllByTitle('Archive')[0])
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'ARCHIVE_PROJECT', project: mockProjects[0] })
+    confirmSpy.mockRestore()
+  })
+
+  it('does not dispatch DELETE_PROJECT when confirm is cancelled', async () => {
+    const confirmSpy = vi.spyOn(globalThis, 'confirm').mockReturnValue(false)
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectListComponent />)
+
+    await act(async () => {
+      await user.click(screen.getAllByTitle('Delete')[0])
+    })
+
+    expect(confirmSpy).toHaveBeenCalled()
+    expect(mockDispatch).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'DELETE_PROJECT' }))
+    confirmSpy.mockRestore()
+  })
+
+  it('dispatches RESTORE_PROJECT without asking', async () => {
+    const archivedProjects = mockProjects.map((project) => ({ ...project, archived: true }))
+    currentOutput = { ...defaultOutput, archived: true, projects: archivedProjects, filteredProjects: archivedProjects }
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectListComponent archived />)
+
+    await act(async () => {
+      await user.click(screen.getAllByTitle('Restore')[0])
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'RESTORE_PROJECT', project: archivedProjects[0] })
+  })
+
+  it('dispatches SET_SEARCH_QUERY on search input change', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectListComponent />)
+
+    await act(async () => {
+      await user.type(screen.getByPlaceholderText('Search by name or description...'), 'a')
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_SEARCH_QUERY', query: 'a' })
+  })
+
+  it('dispatches NAVIGATE_TO_DETAIL when view button is clicked', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<ProjectListComponent />)
+
+    await act(async () => {
+      await user.click(screen.getAllByTitle('View')[0])
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'NAVIGATE_TO_DETAIL', id: '1' })
+  })
+
+  // --- Permissions ---
+
+  it('hides Delete from roles without project:delete', () => {
+    renderWithProviders(<ProjectListComponent />, 'User')
+
+    expect(screen.queryAllByTitle('Delete')).toHaveLength(0)
+    expect(screen.getAllByTitle('Archive').length).toBeGreaterThan(0)
+  })
+
+  it('shows Guests a read-only list', () => {
+    renderWithProviders(<ProjectListComponent />, 'Guest')
+
+    expect(screen.queryByRole('link', { name: /Create Project/i })).not.toBeInTheDocument()
+    expect(screen.queryAllByTitle('Edit')).toHaveLength(0)
+    expect(screen.queryAllByTitle('Archive')).toHaveLength(0)
+    expect(screen.getAllByTitle('View').length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,393 @@
+// =============================================================================
+// Project List Component
+// =============================================================================
+// Presentation layer component that uses ProjectListViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// Renders the active list, or the archive when `archived` is set.
+// =============================================================================
+
+import { Link } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { Can } from '@shared/components/Can/Can'
+import { useProjectListViewModel } from '../viewmodels/projectListViewModel'
+import { PROJECT_STATUS_BADGES, projectStatusKey } from '../projectStatus'
+import type { Project } from '@/app/domain/entities/project.model'
+import './ProjectListComponent.scss'
+
+interface ProjectListComponentProps {
+  archived?: boolean
+}
+
+export function ProjectListComponent({ archived = false }: Readonly<ProjectListComponentProps>) {
+  const { t } = useI18n()
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useProjectListViewModel(archived)
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleRefresh = () => {
+    void dispatch({ type: 'REFRESH_PROJECTS' })
+  }
+
+  const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
+    void dispatch({ type: 'SET_SEARCH_QUERY', query: e.target.value })
+  }
+
+  const handleClearSearch = () => {
+    void dispatch({ type: 'CLEAR_SEARCH' })
+  }
+
+  const handlePageChange = (page: number) => {
+    void dispatch({ type: 'CHANGE_PAGE', page })
+  }
+
+  const handleViewProject = (project: Project) => {
+    void dispatch({ type: 'NAVIGATE_TO_DETAIL', id: project.id })
+  }
+
+  const handleEditProject = (project: Project) => {
+    void dispatch({ type: 'NAVIGATE_TO_EDIT', id: project.id })
+  }
+
+  const handleArchiveProject = (project: Project) => {
+    if (globalThis.confirm(t('project.archive.message', { name: project.name }))) {
+      void dispatch({ type: 'ARCHIVE_PROJECT', project })
+    }
+  }
+
+  const handleRestoreProject = (project: Project) => {
+    void dispatch({ type: 'RESTORE_PROJECT', project })
+  }
+
+  const handleDeleteProject = (project: Project) => {
+    if (globalThis.confirm(t('project.delete.message', { name: project.name }))) {
+      void dispatch({ type: 'DELETE_PROJECT', project })
+    }
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  const handleDismissSuccess = () => {
+    void dispatch({ type: 'DISMISS_SUCCESS' })
+  }
+
+  // ==========================================================================
+  // Helper Functions
+  // ==========================================================================
+
+  const formatDate = (date: Date) => new Date(date).toLocaleDateString()
+
+  const renderStatus = (project: Project) => (
+    <span className={`badge ${PROJECT_STATUS_BADGES[project.status]}`}>
+      {t(projectStatusKey(project.status))}
+    </span>
+  )
+
+  const renderActions = (project: Project, className: string) => (
+    <>
+      {output.archived ? (
+        <Can permission="project:update">
+          <button
+            className={`btn btn-outline-secondary ${className}`}
+            onClick={() => handleRestoreProject(project)}
+            title={t('project.action.restore')}
+          >
+            <i className="bi bi-box-arrow-up"></i>
+          </button>
+        </Can>
+      ) : (
+        <>
+          <Can permission="project:update">
+            <button
+              className={`btn btn-outline-secondary ${className}`}
+              onClick={() => handleEditProject(project)}
+              title={t('common.edit')}
+            >
+              <i className="bi bi-pencil"></i>
+            </button>
+          </Can>
+          <Can permission="project:update">
+            <button
+              className={`btn btn-outline-secondary ${className}`}
+              onClick={() => handleArchiveProject(project)}
+              title={t('project.action.archive')}
+            >
+              <i className="bi bi-archive"></i>
+            </button>
+          </Can>
+        </>
+      )}
+      <Can permission="project:delete">
+        <button
+          className={`btn btn-outline-danger ${className}`}
+          onClick={() => handleDeleteProject(project)}
+          title={t('common.delete')}
+        >
+          <i className="bi bi-trash"></i>
+        </button>
+      </Can>
+    </>
+  )
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  return (
+    <div className="project-list-page container-fluid py-4">
+      {/* Page Header */}
+      <div className="page-header d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h2 className="mb-1">{output.archived ? t('project.archived.title') : t('project.list.title')}</h2>
+          <p className="text-muted mb-0">
+            {output.archived ? t('project.archived.subtitle') : t('project.list.subtitle')}
+          </p>
+        </div>
+        {output.archived ? (
+          <Link to="/projects" className="btn btn-outline-secondary">
+            <i className="bi bi-folder2 me-2"></i>
+            {t('nav.projects.all')}
+          </Link>
+        ) : (
+          <Can permission="project:create">
+            <Link to="/projects/new" className="btn btn-primary">
+              <i className="bi bi-plus-lg me-2"></i>
+              {t('project.list.create')}
+            </Link>
+          </Can>
+        )}
+      </div>
+
+      {/* Alerts */}
+      {output.successMessage && (
+        <div className="alert alert-success alert-dismissible fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+          <button type="button" className="btn-close" onClick={handleDismissSuccess}></button>
+        </div>
+      )}
+
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {/* Search Bar */}
+      <div className="card mb-4">
+        <div className="card-body">
+          <div className="row align-items-center">
+            <div className="col-md-8">
+              <div className="search-box position-relative">
+                <i className="bi bi-search search-icon"></i>
+                <input
+                  type="text"
+                  className="form-control search-input"
+                  placeholder={t('project.list.search.placeholder')}
+                  value={output.searchQuery}
+                  onChange={handleSearch}
+                />
+                {output.searchQuery && (
+                  <button
+                    type="button"
+                    className="btn btn-link clear-search"
+                    onClick={handleClearSearch}
+                  >
+                    <i className="bi bi-x-lg"></i>
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="col-md-4 text-md-end mt-3 mt-md-0">
+              <button
+                className="btn btn-outline-secondary"
+                onClick={handleRefresh}
+                disabled={output.isRefreshing}
+              >
+                <i className={`bi bi-arrow-clockwise ${output.isRefreshing ? 'spin' : ''}`}></i>
+                <span className="ms-2">{t('common.refresh')}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {output.isLoading && (
+        <div className="text-center py-5">
+          <output className="d-block">
+            <div className="spinner-border text-primary">
+              <span className="visually-hidden">{t('common.loading')}</span>
+            </div>
+            <p className="mt-3 text-muted">{t('common.loading')}</p>
+          </output>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!output.isLoading && output.filteredProjects.length === 0 && (
+        <div className="card">
+          <div className="card-body text-center py-5">
+            <i className={`bi ${output.archived ? 'bi-archive' : 'bi-folder'} display-1 text-muted opacity-50`}></i>
+            <h4 className="mt-3 text-muted">{t('project.list.no.results')}</h4>
+            <p className="text-muted">
+              {output.searchQuery
+                ? t('project.list.empty.search')
+                : output.archived
+                  ? t('project.archived.empty.message')
+                  : t('project.list.empty.message')}
+            </p>
+            {!output.searchQuery && !output.archived && (
+              <Can permission="project:create">
+                <Link to="/projects/new" className="btn btn-primary mt-3">
+                  <i className="bi bi-plus-lg me-2"></i>
+                  {t('project.list.create')}
+                </Link>
+              </Can>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Project Table - Desktop */}
+      {!output.isLoading && output.filteredProjects.length > 0 && (
+        <>
+          <div className="card d-none d-md-block">
+            <div className="table-responsive">
+              <table className="table table-hover mb-0">
+                <thead>
+                  <tr>
+                    <th>{t('table.name')}</th>
+                    <th>{t('table.status')}</th>
+                    <th>{t('table.members')}</th>
+                    <th>{t('table.updated')}</th>
+                    <th className="text-end">{t('table.actions')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {output.filteredProjects.map(project => (
+                    <tr
+                      key={project.id}
+                      className="project-row"
+                      tabIndex={0}
+                      onClick={() => handleViewProject(project)}
+                      onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); handleViewProject(project) } }}
+                      style={{ cursor: 'pointer' }}
+                    >
+                      <td>
+                        <strong>{project.name}</strong>
+                        {project.description && (
+                          <div className="project-description small text-muted text-truncate">
+                            {project.description}
+                          </div>
+                        )}
+                      </td>
+                      <td>{renderStatus(project)}</td>
+                      <td>{t('project.list.members', { count: project.memberIds.length + 1 })}</td>
+                      <td>{formatDate(project.updatedAt)}</td>
+                      <td className="text-end" onClick={(e) => e.stopPropagation()}>
+                        <div className="btn-group btn-group-sm">
+                          <button
+                            className="btn btn-outline-primary"
+                            onClick={() => handleViewProject(project)}
+                            title={t('common.view')}
+                          >
+                            <i className="bi bi-eye"></i>
+                          </button>
+                          {renderActions(project, '')}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Project Cards - Mobile */}
+          <div className="d-md-none">
+            {output.filteredProjects.map(project => (
+              <div
+                key={project.id}
+                className="card mb-3 project-card"
+              >
+                <div className="card-body">
+                  <button
+                    type="button"
+                    className="d-block w-100 border-0 bg-transparent p-0 text-start"
+                    style={{ cursor: 'pointer' }}
+                    onClick={() => handleViewProject(project)}
+                  >
+                    <div className="d-flex justify-content-between align-items-start gap-2">
+                      <h6 className="mb-1">{project.name}</h6>
+                      {renderStatus(project)}
+                    </div>
+                    <small className="text-muted">
+                      {t('project.list.members', { count: project.memberIds.length + 1 })}
+                    </small>
+                  </button>
+                  <div className="mt-3 d-flex gap-2" role="toolbar" aria-label={t('table.actions')}>
+                    <button
+                      className="btn btn-outline-primary btn-sm flex-fill"
+                      onClick={() => handleViewProject(project)}
+                    >
+                      <i className="bi bi-eye me-1"></i>{t('common.view')}
+                    </button>
+                    {renderActions(project, 'btn-sm')}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <div className="d-flex justify-content-between align-items-center mt-4">
+            <span className="text-muted">
+              {t('project.list.showing', { start: output.startItem, end: output.endItem, total: output.totalItems })}
+            </span>
+            <nav>
+              <ul className="pagination mb-0">
+                <li className={`page-item ${output.currentPage === 1 ? 'disabled' : ''}`}>
+                  <button
+                    className="page-link"
+                    onClick={() => handlePageChange(output.currentPage - 1)}
+                    disabled={output.currentPage === 1}
+                  >
+                    <i className="bi bi-chevron-left"></i>
+                  </button>
+                </li>
+                {Array.from({ length: output.totalPages }, (_, i) => i + 1).map(page => (
+                  <li key={page} className={`page-item ${page === output.currentPage ? 'active' : ''}`}>
+                    <button
+                      className="page-link"
+                      onClick={() => handlePageChange(page)}
+                    >
+                      {page}
+                    </button>
+                  </li>
+                ))}
+                <li className={`page-item ${output.currentPage === output.totalPages ? 'disabled' : ''}`}>
+                  <button
+                    className="page-link"
+                    onClick={() => handlePageChange(output.currentPage + 1)}
+                    disabled={output.currentPage === output.totalPages}
+                  >
+                    <i className="bi bi-chevron-right"></i>
+                  </button>
+                </li>
+              </ul>
+            </nav>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
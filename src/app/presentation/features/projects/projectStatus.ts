@@ -0,0 +1,27 @@
+// =============================================================================
+// Project Status Presentation
+// =============================================================================
+
+import { ProjectStatus } from '@/app/domain/entities/project.model'
+
+/**
+ * Bootstrap badge class per status
+ */
+export const PROJECT_STATUS_BADGES: Readonly<Record<ProjectStatus, string>> = {
+  [ProjectStatus.PLANNING]: 'bg-secondary',
+  [ProjectStatus.ACTIVE]: 'bg-primary',
+  [ProjectStatus.ON_HOLD]: 'bg-warning text-dark',
+  [ProjectStatus.COMPLETED]: 'bg-success',
+}
+
+/**
+ * Statuses in the order a project usually moves through them
+ */
+export const PROJECT_STATUSES: readonly ProjectStatus[] = Object.values(ProjectStatus)
+
+/**
+ * i18n key for a status label
+ */
+export function projectStatusKey(status: ProjectStatus): string {
+  return `project.status.${status}`
+}
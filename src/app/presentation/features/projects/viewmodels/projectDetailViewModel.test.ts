@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { Project } from '@/app/domain/entities/project.model'
+import type { ProjectChange, ProjectService } from '@/app/domain/services/projectService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockIdMappings = new Subject<IdMapping>()
+const mockUpdates = new Subject<ProjectChange>()
+
+const mockProjectService: ProjectService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  archive: vi.fn(),
+  restore: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: mockUpdates.asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useProjectService: () => mockProjectService,
+}))
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useProjectDetailViewModel } from './projectDetailViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createMockProject(overrides: Partial<Project> = {}): Project {
+  return {
+    id: '1',
+    name: 'Apollo',
+    description: 'Moon landing',
+    ownerId: '1',
+    memberIds: ['2', '3'],
+    status: 'active',
+    archived: false,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  }
+}
+
+async function renderLoaded(project: Project = createMockProject()) {
+  vi.mocked(mockProjectService.getById).mockResolvedValue({ success: true, data: project })
+  const hook = renderHook(() => useProjectDetailViewModel(project.id))
+  await waitFor(() => {
+    expect(hook.result.current.output.isLoading).toBe(false)
+  })
+  return hook
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useProjectDetailViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('loads the project with its member count', async () => {
+    const { result } = await renderLoaded()
+
+    expect(mockProjectService.getById).toHaveBeenCalledWith('1', { policy: 'stale-while-revalidate' })
+    expect(result.current.output.project?.name).toBe('Apollo')
+    expect(result.current.output.memberCount).toBe(3)
+    expect(result.current.output.listPath).toBe('/projects')
+  })
+
+  it('shows an error when the project is missing', async () => {
+    vi.mocked(mockProjectService.getById).mockResolvedValue({ success: false })
+    const { result } = renderHook(() => useProjectDetailViewModel('404'))
+
+    await waitFor(() => {
+      expect(result.current.output.error).toBe('Project not found')
+    })
+    expect(result.current.output.project).toBeNull()
+  })
+
+  it('archives the project and points back to the archive', async () => {
+    const project = createMockProject()
+    vi.mocked(mockProjectService.archive).mockResolvedValue({ success: true, data: { ...project, archived: true } })
+    const { result } = await renderLoaded(project)
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'ARCHIVE_PROJECT' })
+    })
+
+    expect(mockProjectService.archive).toHaveBeenCalledWith('1')
+    expect(result.current.output.project?.archived).toBe(true)
+    expect(result.current.output.listPath).toBe('/projects/archived')
+  })
+
+  it('flips the archived flag back when a restore fails', async () => {
+    vi.mocked(mockProjectService.restore).mockResolvedValue({ success: false, error: 'Offline' })
+    const { result } = await renderLoaded(createMockProject({ archived: true }))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESTORE_PROJECT' })
+    })
+
+    expect(result.current.output.project?.archived).toBe(true)
+    expect(mockShowToast).toHaveBeenCalledWith('Offline', 'error')
+  })
+
+  it('deletes the project and returns to the list', async () => {
+    vi.mocked(mockProjectService.delete).mockResolvedValue({ success: true })
+    const { result } = await renderLoaded()
+    vi.useFakeTimers()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DELETE_PROJECT' })
+    })
+
+    expect(result.current.output.successMessage).toBe('Project Apollo deleted successfully')
+
+    act(() => {
+      vi.advanceTimersByTime(1500)
+    })
+    expect(mockNavigate).toHaveBeenCalledWith('/projects')
+  })
+
+  it('navigates to the edit page', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_EDIT', id: '1' })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/projects/1/edit')
+  })
+
+  it('picks up changes made elsewhere', async () => {
+    const project = createMockProject()
+    const { result } = await renderLoaded(project)
+
+    act(() => {
+      mockUpdates.next({ type: 'update', project: { ...project, status: 'completed' } })
+    })
+
+    expect(result.current.output.project?.status).toBe('completed')
+  })
+
+  it('replaces the route once an offline project gets its server ID', async () => {
+    await renderLoaded(createMockProject({ id: 'offline_9' }))
+
+    act(() => {
+      mockIdMappings.next({ entity: 'project', tempId: 'offline_9', serverId: '9', timestamp: Date.now() })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/projects/9', { replace: true })
+  })
+})
@@ -0,0 +1,336 @@
+// =============================================================================
+// Project Detail ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { Project } from '@/app/domain/entities/project.model'
+import { useProjectService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type ProjectDetailInput =
+  | { type: 'LOAD_PROJECT'; id: string }
+  | { type: 'ARCHIVE_PROJECT' }
+  | { type: 'RESTORE_PROJECT' }
+  | { type: 'DELETE_PROJECT' }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'NAVIGATE_TO_LIST' }
+  | { type: 'NAVIGATE_TO_EDIT'; id: string }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface ProjectDetailOutput {
+  // Core data
+  project: Project | null
+
+  // UI state
+  isLoading: boolean
+  isDeleting: boolean
+  error: string | null
+  successMessage: string | null
+
+  // Computed values
+  memberCount: number
+  listPath: string
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type ProjectDetailEffect =
+  | { type: 'NAVIGATE'; path: string }
+  | { type: 'NAVIGATE_AFTER_DELAY'; path: string; delay: number }
+  | { type: 'REPLACE_ROUTE'; path: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface ProjectDetailState {
+  project: Project | null
+  isLoading: boolean
+  isDeleting: boolean
+  error: string | null
+  successMessage: string | null
+  pendingEffect: ProjectDetailEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type ProjectDetailAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_DELETING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+  | { type: 'SET_PROJECT'; payload: Project | null }
+  | { type: 'SET_ARCHIVED'; payload: boolean }
+  | { type: 'PROJECT_UPDATED'; payload: Project }
+  | { type: 'PROJECT_REMOVED'; payload: string }
+  | { type: 'SET_EFFECT'; payload: ProjectDetailEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+const initialState: ProjectDetailState = {
+  project: null,
+  isLoading: true,
+  isDeleting: false,
+  error: null,
+  successMessage: null,
+  pendingEffect: null,
+}
+
+function projectDetailReducer(state: ProjectDetailState, action: ProjectDetailAction): ProjectDetailState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload, error: null }
+    case 'SET_DELETING':
+      return { ...state, isDeleting: action.payload }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false, isDeleting: false }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload }
+    case 'SET_PROJECT':
+      return { ...state, project: action.payload, isLoading: false }
+    case 'SET_ARCHIVED':
+      return state.project ? { ...state, project: { ...state.project, archived: action.payload } } : state
+    case 'PROJECT_UPDATED':
+      if (state.project?.id !== action.payload.id) return state
+      return { ...state, project: action.payload }
+    case 'PROJECT_REMOVED':
+      // A delete started here reports its own outcome
+      if (state.project?.id !== action.payload || state.isDeleting) return state
+      return { ...state, project: null, error: 'This project was deleted' }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function computeMemberCount(project: Project | null): number {
+  return project ? project.memberIds.length + 1 : 0
+}
+
+function computeListPath(project: Project | null): string {
+  return project?.archived ? '/projects/archived' : '/projects'
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseProjectDetailViewModel {
+  output: ProjectDetailOutput
+  dispatch: (input: ProjectDetailInput) => Promise<void>
+}
+
+export function useProjectDetailViewModel(projectId: string): UseProjectDetailViewModel {
+  const navigate = useNavigate()
+  const projectService = useProjectService()
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(projectDetailReducer, initialState)
+  const isInitialMount = useRef(true)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    const effect = state.pendingEffect
+
+    switch (effect.type) {
+      case 'NAVIGATE':
+        navigate(effect.path)
+        break
+      case 'NAVIGATE_AFTER_DELAY':
+        setTimeout(() => {
+          navigate(effect.path)
+        }, effect.delay)
+        break
+      case 'REPLACE_ROUTE':
+        navigate(effect.path, { replace: true })
+        break
+    }
+
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  // Helper: archive or restore (the badge flips at once and back on failure)
+  const handleSetArchived = useCallback(
+    async (archived: boolean) => {
+      if (!state.project) return
+      const { id } = state.project
+
+      await runOptimistic({
+        update: (current) => projectDetailReducer(current, { type: 'SET_ARCHIVED', payload: archived }),
+        mutate: () => (archived ? projectService.archive(id) : projectService.restore(id)),
+        errorMessage: archived ? 'Failed to archive project' : 'Failed to restore project',
+      })
+    },
+    [state.project, projectService, runOptimistic]
+  )
+
+  const dispatch = useCallback(
+    async (input: ProjectDetailInput) => {
+      switch (input.type) {
+        case 'LOAD_PROJECT': {
+          internalDispatch({ type: 'SET_LOADING', payload: true })
+
+          // Cached copy at once; a fresher one arrives through updates$
+          const result = await projectService.getById(input.id, { policy: 'stale-while-revalidate' })
+
+          if (result.success && result.data) {
+            internalDispatch({ type: 'SET_PROJECT', payload: result.data })
+          } else {
+            internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Project not found' })
+          }
+          break
+        }
+
+        case 'ARCHIVE_PROJECT':
+          await handleSetArchived(true)
+          break
+
+        case 'RESTORE_PROJECT':
+          await handleSetArchived(false)
+          break
+
+        case 'DELETE_PROJECT': {
+          if (!state.project) return
+          const { id, name } = state.project
+          const listPath = computeListPath(state.project)
+
+          // Confirmed at once; withdrawn if the delete fails
+          internalDispatch({ type: 'SET_DELETING', payload: true })
+          const result = await runOptimistic({
+            update: (current) =>
+              projectDetailReducer(current, {
+                type: 'SET_SUCCESS',
+                payload: `Project ${name} deleted successfully`,
+              }),
+            mutate: () => projectService.delete(id),
+            errorMessage: 'Failed to delete project',
+          })
+
+          if (result.success) {
+            internalDispatch({
+              type: 'SET_EFFECT',
+              payload: { type: 'NAVIGATE_AFTER_DELAY', path: listPath, delay: 1500 },
+            })
+          } else {
+            internalDispatch({ type: 'SET_DELETING', payload: false })
+          }
+          break
+        }
+
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+
+        case 'NAVIGATE_TO_LIST':
+          internalDispatch({
+            type: 'SET_EFFECT',
+            payload: { type: 'NAVIGATE', path: computeListPath(state.project) },
+          })
+          break
+
+        case 'NAVIGATE_TO_EDIT':
+          internalDispatch({
+            type: 'SET_EFFECT',
+            payload: { type: 'NAVIGATE', path: `/projects/${input.id}/edit` },
+          })
+          break
+      }
+    },
+    [state.project, projectService, handleSetArchived, internalDispatch, runOptimistic]
+  )
+
+  // ==========================================================================
+  // Initial Load
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current && projectId) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_PROJECT', id: projectId })
+    }
+  }, [projectId, dispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = projectService.idMappings$.subscribe((mapping) => {
+      if (mapping.tempId !== projectId) return
+      internalDispatch({
+        type: 'SET_EFFECT',
+        payload: { type: 'REPLACE_ROUTE', path: `/projects/${mapping.serverId}` },
+      })
+      void dispatch({ type: 'LOAD_PROJECT', id: mapping.serverId })
+    })
+    return () => subscription.unsubscribe()
+  }, [projectId, dispatch, projectService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = projectService.updates$.subscribe((change) => {
+      if (change.type === 'update') {
+        internalDispatch({ type: 'PROJECT_UPDATED', payload: change.project })
+      } else if (change.type === 'delete') {
+        internalDispatch({ type: 'PROJECT_REMOVED', payload: change.project.id })
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [projectService, internalDispatch])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: ProjectDetailOutput = {
+    project: state.project,
+    isLoading: state.isLoading,
+    isDeleting: state.isDeleting,
+    error: state.error,
+    successMessage: state.successMessage,
+    memberCount: computeMemberCount(state.project),
+    listPath: computeListPath(state.project),
+  }
+
+  return { output, dispatch }
+}
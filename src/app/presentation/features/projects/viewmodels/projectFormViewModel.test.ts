@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { Project } from '@/app/domain/entities/project.model'
+import type { User } from '@/app/domain/entities/user.model'
+import type { UserChange, UserService } from '@/app/domain/services/userService'
+import type { ProjectChange, ProjectService } from '@/app/domain/services/projectService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockIdMappings = new Subject<IdMapping>()
+
+const mockProjectService: ProjectService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  archive: vi.fn(),
+  restore: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: new Subject<ProjectChange>().asObservable(),
+}
+
+const mockUserService: UserService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  syncPendingOperations: vi.fn(),
+  clearCache: vi.fn(),
+  idMappings$: new Subject<IdMapping>().asObservable(),
+  updates$: new Subject<UserChange>().asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useProjectService: () => mockProjectService,
+  useUserService: () => mockUserService,
+}))
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useProjectFormViewModel } from './projectFormViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createMockUser(id: string, firstName: string): User {
+  return {
+    id,
+    email: `${firstName.toLowerCase()}@example.com`,
+    firstName,
+    lastName: 'Doe',
+    avatar: '',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+  }
+}
+
+function createMockProject(overrides: Partial<Project> = {}): Project {
+  return {
+    id: '1',
+    name: 'Apollo',
+    description: 'Moon landing',
+    ownerId: '1',
+    memberIds: ['2'],
+    status: 'active',
+    archived: false,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useProjectFormViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockUserService.getList).mockResolvedValue({
+      success: true,
+      data: {
+        data: [createMockUser('1', 'John'), createMockUser('2', 'Jane'), createMockUser('3', 'Jim')],
+        page: 1,
+        pageSize: 100,
+        total: 3,
+        totalPages: 1,
+      },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // ---------------------------------------------------------------------------
+  // Create mode
+  // ---------------------------------------------------------------------------
+
+  it('starts empty with the signed-in user as owner', async () => {
+    const { result } = renderHook(() => useProjectFormViewModel(undefined, '1'))
+
+    await waitFor(() => {
+      expect(result.current.output.userOptions).toHaveLength(3)
+    })
+    expect(result.current.output.isEditMode).toBe(false)
+    expect(result.current.output.ownerId).toBe('1')
+    expect(result.current.output.status).toBe('planning')
+    expect(result.current.output.userOptions[1]).toEqual({ id: '2', name: 'Jane Doe' })
+  })
+
+  it('validates a field on blur', async () => {
+    const { result } = renderHook(() => useProjectFormViewModel(undefined, '1'))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'name', value: 'ab' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'VALIDATE_FIELD', field: 'name' })
+    })
+
+    expect(result.current.output.errors.name).toBe('Project name must be at least 3 characters')
+    expect(result.current.output.hasErrors).toBe(true)
+  })
+
+  it('does not submit an invalid form', async () => {
+    const { result } = renderHook(() => useProjectFormViewModel())
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockProjectService.create).not.toHaveBeenCalled()
+    expect(result.current.output.errors.name).toBe('Project name is required')
+    expect(result.current.output.errors.ownerId).toBe('Project owner is required')
+  })
+
+  it('keeps the owner out of the members', async () => {
+    const { result } = renderHook(() => useProjectFormViewModel(undefined, '1'))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'TOGGLE_MEMBER', userId: '1' })
+      await result.current.dispatch({ type: 'TOGGLE_MEMBER', userId: '2' })
+    })
+    expect(result.current.output.memberIds).toEqual(['2'])
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'ownerId', value: '2' })
+    })
+    expect(result.current.output.memberIds).toEqual([])
+  })
+
+  it('creates the project and opens it', async () => {
+    vi.mocked(mockProjectService.create).mockResolvedValue({ success: true, data: createMockProject({ id: '5' }) })
+    const { result } = renderHook(() => useProjectFormViewModel(undefined, '1'))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'name', value: '  Apollo  ' })
+      await result.current.dispatch({ type: 'TOGGLE_MEMBER', userId: '3' })
+    })
+    vi.useFakeTimers()
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockProjectService.create).toHaveBeenCalledWith({
+      name: 'Apollo',
+      description: '',
+      ownerId: '1',
+      memberIds: ['3'],
+      status: 'planning',
+    })
+    expect(result.current.output.successMessage).toBe('Project created successfully')
+
+    act(() => {
+      vi.advanceTimersByTime(1500)
+    })
+    expect(mockNavigate).toHaveBeenCalledWith('/projects/5')
+  })
+
+  it('keeps the edits and shows a toast when the create fails', async () => {
+    vi.mocked(mockProjectService.create).mockResolvedValue({ success: false, error: 'Name taken' })
+    const { result } = renderHook(() => useProjectFormViewModel(undefined, '1'))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'name', value: 'Apollo' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(result.current.output.name).toBe('Apollo')
+    expect(result.current.output.isDirty).toBe(true)
+    expect(result.current.output.successMessage).toBeNull()
+    expect(result.current.output.isSubmitting).toBe(false)
+    expect(mockShowToast).toHaveBeenCalledWith('Name taken', 'error')
+  })
+
+  // ---------------------------------------------------------------------------
+  // Edit mode
+  // ---------------------------------------------------------------------------
+
+  it('loads the project in edit mode', async () => {
+    vi.mocked(mockProjectService.getById).mockResolvedValue({ success: true, data: createMockProject() })
+    const { result } = renderHook(() => useProjectFormViewModel('1'))
+
+    await waitFor(() => {
+      expect(result.current.output.isEditMode).toBe(true)
+    })
+    expect(result.current.output.name).toBe('Apollo')
+    expect(result.current.output.memberIds).toEqual(['2'])
+    expect(result.current.output.isDirty).toBe(false)
+  })
+
+  it('resets to the loaded project', async () => {
+    vi.mocked(mockProjectService.getById).mockResolvedValue({ success: true, data: createMockProject() })
+    const { result } = renderHook(() => useProjectFormViewModel('1'))
+    await waitFor(() => {
+      expect(result.current.output.isEditMode).toBe(true)
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'status', value: 'on-hold' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESET' })
+    })
+
+    expect(result.current.output.status).toBe('active')
+    expect(result.current.output.isDirty).toBe(false)
+  })
+
+  it('updates the project', async () => {
+    const project = createMockProject()
+    vi.mocked(mockProjectService.getById).mockResolvedValue({ success: true, data: project })
+    vi.mocked(mockProjectService.update).mockResolvedValue({ success: true, data: { ...project, status: 'completed' } })
+    const { result } = renderHook(() => useProjectFormViewModel('1'))
+    await waitFor(() => {
+      expect(result.current.output.isEditMode).toBe(true)
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'status', value: 'completed' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockProjectService.update).toHaveBeenCalledWith('1', expect.objectContaining({ status: 'completed' }))
+    expect(result.current.output.successMessage).toBe('Project updated successfully')
+  })
+
+  it('moves to the server ID route while editing an offline project', async () => {
+    vi.mocked(mockProjectService.getById).mockResolvedValue({
+      success: true,
+      data: createMockProject({ id: 'offline_4' }),
+    })
+    const { result } = renderHook(() => useProjectFormViewModel('offline_4'))
+    await waitFor(() => {
+      expect(result.current.output.isEditMode).toBe(true)
+    })
+
+    act(() => {
+      mockIdMappings.next({ entity: 'project', tempId: 'offline_4', serverId: '4', timestamp: Date.now() })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/projects/4/edit', { replace: true })
+  })
+})
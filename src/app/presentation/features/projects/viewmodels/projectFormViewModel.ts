@@ -0,0 +1,509 @@
+// =============================================================================
+// Project Form ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  ProjectStatus,
+  type Project,
+  type CreateProjectDto,
+  type UpdateProjectDto,
+  type ProjectValidationErrors,
+} from '@/app/domain/entities/project.model'
+import type { User } from '@/app/domain/entities/user.model'
+import { useProjectService, useUserService } from '@/app/core/di'
+import { projectValidator } from '@/app/domain/validators/projectValidator'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+
+/**
+ * Users offered as owner and members
+ */
+const USER_OPTIONS_PAGE_SIZE = 100
+
+export type ProjectFormField = 'name' | 'description' | 'ownerId' | 'status'
+
+export interface ProjectUserOption {
+  id: string
+  name: string
+}
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type ProjectFormInput =
+  | { type: 'SET_FIELD'; field: ProjectFormField; value: string }
+  | { type: 'TOGGLE_MEMBER'; userId: string }
+  | { type: 'VALIDATE_FIELD'; field: keyof ProjectValidationErrors }
+  | { type: 'SUBMIT' }
+  | { type: 'RESET' }
+  | { type: 'LOAD_PROJECT'; id: string }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'NAVIGATE_TO_LIST' }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface ProjectFormOutput {
+  // Form data
+  name: string
+  description: string
+  ownerId: string
+  status: ProjectStatus
+  memberIds: string[]
+
+  // Options
+  userOptions: ProjectUserOption[]
+
+  // Form state
+  isEditMode: boolean
+  isLoading: boolean
+  isSubmitting: boolean
+  isDirty: boolean
+  errors: ProjectValidationErrors
+  submitError: string | null
+  successMessage: string | null
+
+  // Computed values
+  isValid: boolean
+  hasErrors: boolean
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type ProjectFormEffect =
+  | { type: 'NAVIGATE'; path: string }
+  | { type: 'NAVIGATE_AFTER_DELAY'; path: string; delay: number }
+  | { type: 'REPLACE_ROUTE'; path: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface ProjectFormState {
+  name: string
+  description: string
+  ownerId: string
+  status: ProjectStatus
+  memberIds: string[]
+  userOptions: ProjectUserOption[]
+  originalProject: Project | null
+  isEditMode: boolean
+  isLoading: boolean
+  isSubmitting: boolean
+  isDirty: boolean
+  errors: ProjectValidationErrors
+  submitError: string | null
+  successMessage: string | null
+  pendingEffect: ProjectFormEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type ProjectFormAction =
+  | { type: 'SET_FIELD'; field: ProjectFormField; value: string }
+  | { type: 'TOGGLE_MEMBER'; payload: string }
+  | { type: 'SET_USER_OPTIONS'; payload: ProjectUserOption[] }
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_SUBMITTING'; payload: boolean }
+  | { type: 'SET_ERRORS'; payload: ProjectValidationErrors }
+  | { type: 'SET_FIELD_ERROR'; field: keyof ProjectValidationErrors; error: string | null }
+  | { type: 'SET_SUBMIT_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+  | { type: 'SUBMIT_ACCEPTED'; payload: string }
+  | { type: 'LOAD_PROJECT'; payload: Project }
+  | { type: 'REMAP_PROJECT_ID'; payload: string }
+  | { type: 'RESET_FORM' }
+  | { type: 'SET_EFFECT'; payload: ProjectFormEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+function createInitialState(ownerId: string): ProjectFormState {
+  return {
+    name: '',
+    description: '',
+    ownerId,
+    status: ProjectStatus.PLANNING,
+    memberIds: [],
+    userOptions: [],
+    originalProject: null,
+    isEditMode: false,
+    isLoading: false,
+    isSubmitting: false,
+    isDirty: false,
+    errors: {},
+    submitError: null,
+    successMessage: null,
+    pendingEffect: null,
+  }
+}
+
+function projectFields(project: Project) {
+  return {
+    name: project.name,
+    description: project.description,
+    ownerId: project.ownerId,
+    status: project.status,
+    memberIds: project.memberIds,
+  }
+}
+
+function projectFormReducer(state: ProjectFormState, action: ProjectFormAction): ProjectFormState {
+  switch (action.type) {
+    case 'SET_FIELD':
+      return {
+        ...state,
+        [action.field]: action.value,
+        // The owner is not listed among the members
+        memberIds:
+          action.field === 'ownerId' ? state.memberIds.filter((id) => id !== action.value) : state.memberIds,
+        isDirty: true,
+        errors: { ...state.errors, [action.field]: null },
+      }
+    case 'TOGGLE_MEMBER':
+      if (action.payload === state.ownerId) return state
+      return {
+        ...state,
+        memberIds: state.memberIds.includes(action.payload)
+          ? state.memberIds.filter((id) => id !== action.payload)
+          : [...state.memberIds, action.payload],
+        isDirty: true,
+      }
+    case 'SET_USER_OPTIONS':
+      return { ...state, userOptions: action.payload }
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload }
+    case 'SET_SUBMITTING':
+      return { ...state, isSubmitting: action.payload, submitError: null }
+    case 'SET_ERRORS':
+      return { ...state, errors: action.payload, isSubmitting: false }
+    case 'SET_FIELD_ERROR':
+      return { ...state, errors: { ...state.errors, [action.field]: action.error } }
+    case 'SET_SUBMIT_ERROR':
+      return { ...state, submitError: action.payload, isSubmitting: false }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload, isSubmitting: false }
+    case 'SUBMIT_ACCEPTED':
+      // The submitted values become the saved ones
+      return {
+        ...state,
+        successMessage: action.payload,
+        isDirty: false,
+        originalProject: state.originalProject && {
+          ...state.originalProject,
+          name: state.name,
+          description: state.description,
+          ownerId: state.ownerId,
+          status: state.status,
+          memberIds: state.memberIds,
+        },
+      }
+    case 'LOAD_PROJECT':
+      return {
+        ...state,
+        ...projectFields(action.payload),
+        originalProject: action.payload,
+        isEditMode: true,
+        isLoading: false,
+        isDirty: false,
+      }
+    case 'REMAP_PROJECT_ID':
+      return state.originalProject
+        ? { ...state, originalProject: { ...state.originalProject, id: action.payload } }
+        : state
+    case 'RESET_FORM':
+      if (state.originalProject) {
+        return {
+          ...state,
+          ...projectFields(state.originalProject),
+          isDirty: false,
+          errors: {},
+          submitError: null,
+        }
+      }
+      return { ...createInitialState(state.ownerId), userOptions: state.userOptions }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function computeIsValid(state: ProjectFormState): boolean {
+  const hasErrors = projectValidator.hasErrors(state.errors)
+  return state.isDirty && !hasErrors && !!state.name.trim() && !!state.ownerId
+}
+
+function computeHasErrors(errors: ProjectValidationErrors): boolean {
+  return projectValidator.hasErrors(errors)
+}
+
+function toUserOption(user: User): ProjectUserOption {
+  return { id: user.id, name: `${user.firstName} ${user.lastName}` }
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseProjectFormViewModel {
+  output: ProjectFormOutput
+  dispatch: (input: ProjectFormInput) => Promise<void>
+}
+
+/**
+ * @param projectId - Project to edit; a new project when omitted
+ * @param defaultOwnerId - Owner preselected for a new project
+ */
+export function useProjectFormViewModel(projectId?: string, defaultOwnerId = ''): UseProjectFormViewModel {
+  const navigate = useNavigate()
+  const projectService = useProjectService()
+  const userService = useUserService()
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(
+    projectFormReducer,
+    createInitialState(defaultOwnerId)
+  )
+  const isInitialMount = useRef(true)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    const effect = state.pendingEffect
+
+    switch (effect.type) {
+      case 'NAVIGATE':
+        navigate(effect.path)
+        break
+      case 'NAVIGATE_AFTER_DELAY':
+        setTimeout(() => {
+          navigate(effect.path)
+        }, effect.delay)
+        break
+      case 'REPLACE_ROUTE':
+        navigate(effect.path, { replace: true })
+        break
+    }
+
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  // Helper: get field value by name
+  const getFieldValue = useCallback(
+    (field: keyof ProjectValidationErrors): string => {
+      const fieldMap: Record<keyof ProjectValidationErrors, string> = {
+        name: state.name,
+        description: state.description,
+        ownerId: state.ownerId,
+        status: state.status,
+      }
+      return fieldMap[field]
+    },
+    [state.name, state.description, state.ownerId, state.status]
+  )
+
+  // Helper: handle form submission
+  const handleSubmit = useCallback(
+    async () => {
+      const dto = {
+        name: state.name.trim(),
+        description: state.description,
+        ownerId: state.ownerId,
+        memberIds: state.memberIds,
+        status: state.status,
+      }
+
+      const errors = state.isEditMode ? projectValidator.validateUpdate(dto) : projectValidator.validateCreate(dto)
+
+      if (projectValidator.hasErrors(errors)) {
+        internalDispatch({ type: 'SET_ERRORS', payload: errors })
+        return
+      }
+
+      internalDispatch({ type: 'SET_SUBMITTING', payload: true })
+
+      const originalProject = state.isEditMode ? state.originalProject : null
+      const message = originalProject ? 'Project updated successfully' : 'Project created successfully'
+
+      // Shown as saved at once; the edits come back if the server refuses them
+      const result = await runOptimistic({
+        update: (current) => projectFormReducer(current, { type: 'SUBMIT_ACCEPTED', payload: message }),
+        mutate: () =>
+          originalProject
+            ? projectService.update(originalProject.id, dto as UpdateProjectDto)
+            : projectService.create(dto as CreateProjectDto),
+        errorMessage: originalProject ? 'Failed to update project' : 'Failed to create project',
+      })
+
+      if (result.success && result.data) {
+        internalDispatch({ type: 'SET_SUCCESS', payload: message })
+        internalDispatch({
+          type: 'SET_EFFECT',
+          payload: { type: 'NAVIGATE_AFTER_DELAY', path: `/projects/${result.data.id}`, delay: 1500 },
+        })
+      } else {
+        internalDispatch({ type: 'SET_SUBMITTING', payload: false })
+      }
+    },
+    [
+      state.name,
+      state.description,
+      state.ownerId,
+      state.memberIds,
+      state.status,
+      state.isEditMode,
+      state.originalProject,
+      projectService,
+      internalDispatch,
+      runOptimistic,
+    ]
+  )
+
+  // Helper: load project for edit mode
+  const handleLoadProject = useCallback(
+    async (id: string) => {
+      internalDispatch({ type: 'SET_LOADING', payload: true })
+      const result = await projectService.getById(id)
+      if (result.success && result.data) {
+        internalDispatch({ type: 'LOAD_PROJECT', payload: result.data })
+      } else {
+        internalDispatch({ type: 'SET_SUBMIT_ERROR', payload: result.error || 'Project not found' })
+        internalDispatch({ type: 'SET_LOADING', payload: false })
+      }
+    },
+    [projectService, internalDispatch]
+  )
+
+  const dispatch = useCallback(
+    async (input: ProjectFormInput) => {
+      switch (input.type) {
+        case 'SET_FIELD':
+          internalDispatch({ type: 'SET_FIELD', field: input.field, value: input.value })
+          break
+        case 'TOGGLE_MEMBER':
+          internalDispatch({ type: 'TOGGLE_MEMBER', payload: input.userId })
+          break
+        case 'VALIDATE_FIELD': {
+          const value = getFieldValue(input.field)
+          const error = projectValidator.validateField(input.field, value)
+          internalDispatch({ type: 'SET_FIELD_ERROR', field: input.field, error })
+          break
+        }
+        case 'SUBMIT':
+          await handleSubmit()
+          break
+        case 'RESET':
+          internalDispatch({ type: 'RESET_FORM' })
+          break
+        case 'LOAD_PROJECT':
+          await handleLoadProject(input.id)
+          break
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_SUBMIT_ERROR', payload: null })
+          break
+        case 'NAVIGATE_TO_LIST':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: '/projects' } })
+          break
+      }
+    },
+    [getFieldValue, handleSubmit, handleLoadProject, internalDispatch]
+  )
+
+  // ==========================================================================
+  // Initial Load (Edit Mode)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current && projectId) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_PROJECT', id: projectId })
+    }
+  }, [projectId, dispatch])
+
+  // ==========================================================================
+  // Owner and Member Options
+  // ==========================================================================
+
+  useEffect(() => {
+    let cancelled = false
+    void userService.getList({ page: 1, pageSize: USER_OPTIONS_PAGE_SIZE }).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        internalDispatch({ type: 'SET_USER_OPTIONS', payload: result.data.data.map(toUserOption) })
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userService, internalDispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation (keeps in-progress edits)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!projectId) return
+    const subscription = projectService.idMappings$.subscribe((mapping) => {
+      if (mapping.tempId !== projectId) return
+      internalDispatch({ type: 'REMAP_PROJECT_ID', payload: mapping.serverId })
+      internalDispatch({
+        type: 'SET_EFFECT',
+        payload: { type: 'REPLACE_ROUTE', path: `/projects/${mapping.serverId}/edit` },
+      })
+    })
+    return () => subscription.unsubscribe()
+  }, [projectId, projectService, internalDispatch])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: ProjectFormOutput = {
+    name: state.name,
+    description: state.description,
+    ownerId: state.ownerId,
+    status: state.status,
+    memberIds: state.memberIds,
+    userOptions: state.userOptions,
+    isEditMode: state.isEditMode,
+    isLoading: state.isLoading,
+    isSubmitting: state.isSubmitting,
+    isDirty: state.isDirty,
+    errors: state.errors,
+    submitError: state.submitError,
+    successMessage: state.successMessage,
+    isValid: computeIsValid(state),
+    hasErrors: computeHasErrors(state.errors),
+  }
+
+  return { output, dispatch }
+}
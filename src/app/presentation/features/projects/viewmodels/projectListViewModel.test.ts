@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { Project } from '@/app/domain/entities/project.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type { ProjectChange, ProjectService } from '@/app/domain/services/projectService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockIdMappings = new Subject<IdMapping>()
+const mockUpdates = new Subject<ProjectChange>()
+
+const mockProjectService: ProjectService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  archive: vi.fn(),
+  restore: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: mockUpdates.asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useProjectService: () => mockProjectService,
+}))
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useProjectListViewModel } from './projectListViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createMockProject(overrides: Partial<Project> = {}): Project {
+  return {
+    id: '1',
+    name: 'Apollo',
+    description: 'Moon landing',
+    ownerId: '1',
+    memberIds: ['2'],
+    status: 'active',
+    archived: false,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  }
+}
+
+function createPaginatedResponse(projects: Project[], page = 1, total?: number): ServiceResult<PaginatedResponse<Project>> {
+  const t = total ?? projects.length
+  return {
+    success: true,
+    data: { data: projects, page, pageSize: 6, total: t, totalPages: Math.max(1, Math.ceil(t / 6)) },
+  }
+}
+
+/** Flush microtasks so fire-and-forget promises in useEffect resolve */
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+async function renderLoaded(archived = false) {
+  const hook = renderHook(() => useProjectListViewModel(archived))
+  await act(async () => {
+    await flushPromises()
+  })
+  await waitFor(() => {
+    expect(hook.result.current.output.isLoading).toBe(false)
+  })
+  return hook
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useProjectListViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockProjectService.getList).mockResolvedValue(createPaginatedResponse([]))
+    vi.mocked(mockProjectService.isOnline).mockReturnValue(true)
+  })
+
+  // ---------------------------------------------------------------------------
+  // Loading
+  // ---------------------------------------------------------------------------
+
+  it('loads active projects on mount', async () => {
+    vi.mocked(mockProjectService.getList).mockResolvedValue(
+      createPaginatedResponse([createMockProject(), createMockProject({ id: '2', name: 'Gemini' })])
+    )
+
+    const { result } = await renderLoaded()
+
+    expect(result.current.output.projects).toHaveLength(2)
+    expect(result.current.output.archived).toBe(false)
+    expect(mockProjectService.getList).toHaveBeenCalledWith(
+      { page: 1, pageSize: 6, filter: { archived: false } },
+      undefined,
+      { policy: 'stale-while-revalidate' }
+    )
+  })
+
+  it('loads archived projects when archived is set', async () => {
+    const { result } = await renderLoaded(true)
+
+    expect(result.current.output.archived).toBe(true)
+    expect(mockProjectService.getList).toHaveBeenCalledWith(
+      { page: 1, pageSize: 6, filter: { archived: true } },
+      undefined,
+      { policy: 'stale-while-revalidate' }
+    )
+  })
+
+  it('shows the service error when loading fails', async () => {
+    vi.mocked(mockProjectService.getList).mockResolvedValue({ success: false, error: 'Network down' })
+
+    const { result } = await renderLoaded()
+
+    expect(result.current.output.error).toBe('Network down')
+  })
+
+  it('refreshes from the network', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'REFRESH_PROJECTS' })
+    })
+
+    expect(mockProjectService.getList).toHaveBeenLastCalledWith(
+      { page: 1, pageSize: 6, filter: { archived: false } },
+      undefined,
+      { policy: 'network-first' }
+    )
+  })
+
+  it('filters the page on screen by search query', async () => {
+    vi.mocked(mockProjectService.getList).mockResolvedValue(
+      createPaginatedResponse([createMockProject(), createMockProject({ id: '2', name: 'Gemini', description: '' })])
+    )
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_SEARCH_QUERY', query: 'moon' })
+    })
+
+    expect(result.current.output.filteredProjects.map((p) => p.id)).toEqual(['1'])
+  })
+
+  // ---------------------------------------------------------------------------
+  // Archive, restore and delete
+  // ---------------------------------------------------------------------------
+
+  it('archives a project and removes it from the list', async () => {
+    const project = createMockProject()
+    vi.mocked(mockProjectService.getList).mockResolvedValue(createPaginatedResponse([project]))
+    vi.mocked(mockProjectService.archive).mockResolvedValue({ success: true, data: { ...project, archived: true } })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'ARCHIVE_PROJECT', project })
+    })
+
+    expect(mockProjectService.archive).toHaveBeenCalledWith('1')
+    expect(result.current.output.projects).toHaveLength(0)
+    expect(result.current.output.totalItems).toBe(0)
+    expect(result.current.output.successMessage).toBe('Project Apollo archived successfully')
+  })
+
+  it('restores an archived project', async () => {
+    const project = createMockProject({ archived: true })
+    vi.mocked(mockProjectService.getList).mockResolvedValue(createPaginatedResponse([project]))
+    vi.mocked(mockProjectService.restore).mockResolvedValue({ success: true, data: { ...project, archived: false } })
+    const { result } = await renderLoaded(true)
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESTORE_PROJECT', project })
+    })
+
+    expect(mockProjectService.restore).toHaveBeenCalledWith('1')
+    expect(result.current.output.projects).toHaveLength(0)
+  })
+
+  it('brings the row back and shows a toast when a delete fails', async () => {
+    const project = createMockProject()
+    vi.mocked(mockProjectService.getList).mockResolvedValue(createPaginatedResponse([project]))
+    vi.mocked(mockProjectService.delete).mockResolvedValue({ success: false, error: 'Forbidden' })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DELETE_PROJECT', project })
+    })
+
+    expect(result.current.output.projects).toEqual([project])
+    expect(result.current.output.successMessage).toBeNull()
+    expect(mockShowToast).toHaveBeenCalledWith('Forbidden', 'error')
+  })
+
+  // ---------------------------------------------------------------------------
+  // Navigation
+  // ---------------------------------------------------------------------------
+
+  it('navigates to the create, detail and edit pages', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_CREATE' })
+    })
+    expect(mockNavigate).toHaveBeenLastCalledWith('/projects/new')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_DETAIL', id: '7' })
+    })
+    expect(mockNavigate).toHaveBeenLastCalledWith('/projects/7')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_EDIT', id: '7' })
+    })
+    expect(mockNavigate).toHaveBeenLastCalledWith('/projects/7/edit')
+  })
+
+  // ---------------------------------------------------------------------------
+  // Live updates and ID reconciliation
+  // ---------------------------------------------------------------------------
+
+  it('drops a project archived elsewhere from the active list', async () => {
+    const project = createMockProject()
+    vi.mocked(mockProjectService.getList).mockResolvedValue(createPaginatedResponse([project]))
+    const { result } = await renderLoaded()
+
+    act(() => {
+      mockUpdates.next({ type: 'update', project: { ...project, archived: true } })
+    })
+
+    expect(result.current.output.projects).toHaveLength(0)
+  })
+
+  it('replaces a project updated elsewhere', async () => {
+    const project = createMockProject()
+    vi.mocked(mockProjectService.getList).mockResolvedValue(createPaginatedResponse([project]))
+    const { result } = await renderLoaded()
+
+    act(() => {
+      mockUpdates.next({ type: 'update', project: { ...project, name: 'Artemis' } })
+    })
+
+    expect(result.current.output.projects[0].name).toBe('Artemis')
+  })
+
+  it('ignores a revalidated page of the other list', async () => {
+    vi.mocked(mockProjectService.getList).mockResolvedValue(createPaginatedResponse([createMockProject()]))
+    const { result } = await renderLoaded()
+
+    act(() => {
+      mockUpdates.next({
+        type: 'list',
+        params: { page: 1, pageSize: 6, filter: { archived: true } },
+        list: createPaginatedResponse([]).data!,
+      })
+    })
+
+    expect(result.current.output.projects).toHaveLength(1)
+  })
+
+  it('remaps offline project IDs to server IDs', async () => {
+    vi.mocked(mockProjectService.getList).mockResolvedValue(
+      createPaginatedResponse([createMockProject({ id: 'offline_1' })])
+    )
+    const { result } = await renderLoaded()
+
+    act(() => {
+      mockIdMappings.next({ entity: 'project', tempId: 'offline_1', serverId: '42', timestamp: Date.now() })
+    })
+
+    expect(result.current.output.projects[0].id).toBe('42')
+  })
+})
@@ -0,0 +1,465 @@
+// =============================================================================
+// Project List ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+//
+// Serves both the active list and the archive; `archived` picks which.
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { Project, ProjectListParams } from '@/app/domain/entities/project.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ReadPolicy } from '@/app/domain/entities/read-policy.model'
+import { useProjectService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type ProjectListInput =
+  | { type: 'LOAD_PROJECTS'; page?: number }
+  | { type: 'REFRESH_PROJECTS' }
+  | { type: 'SET_SEARCH_QUERY'; query: string }
+  | { type: 'CLEAR_SEARCH' }
+  | { type: 'CHANGE_PAGE'; page: number }
+  | { type: 'ARCHIVE_PROJECT'; project: Project }
+  | { type: 'RESTORE_PROJECT'; project: Project }
+  | { type: 'DELETE_PROJECT'; project: Project }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'DISMISS_SUCCESS' }
+  | { type: 'NAVIGATE_TO_CREATE' }
+  | { type: 'NAVIGATE_TO_DETAIL'; id: string }
+  | { type: 'NAVIGATE_TO_EDIT'; id: string }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface ProjectListOutput {
+  // Core data
+  projects: Project[]
+  archived: boolean
+  totalPages: number
+  totalItems: number
+  currentPage: number
+  pageSize: number
+  searchQuery: string
+
+  // UI state
+  isLoading: boolean
+  isRefreshing: boolean
+  error: string | null
+  successMessage: string | null
+  isOnline: boolean
+
+  // Computed values
+  filteredProjects: Project[]
+  startItem: number
+  endItem: number
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type ProjectListEffect =
+  | { type: 'NAVIGATE'; path: string }
+  | { type: 'AUTO_DISMISS_SUCCESS'; delay: number }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface ProjectListState {
+  projects: Project[]
+  archived: boolean
+  totalPages: number
+  totalItems: number
+  currentPage: number
+  pageSize: number
+  searchQuery: string
+  isLoading: boolean
+  isRefreshing: boolean
+  error: string | null
+  successMessage: string | null
+  isOnline: boolean
+  pendingEffect: ProjectListEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type ProjectListAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_REFRESHING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+  | { type: 'SET_SEARCH'; payload: string }
+  | { type: 'SET_PAGE'; payload: number }
+  | { type: 'SET_PROJECTS'; payload: PaginatedResponse<Project> }
+  | {
+      type: 'PROJECTS_REVALIDATED'
+      payload: { params: ProjectListParams; search?: string; list: PaginatedResponse<Project> }
+    }
+  | { type: 'REMOVE_PROJECT'; payload: string }
+  | { type: 'REPLACE_PROJECT'; payload: Project }
+  | { type: 'REMAP_PROJECT_ID'; payload: { tempId: string; serverId: string } }
+  | { type: 'SET_ONLINE'; payload: boolean }
+  | { type: 'SET_EFFECT'; payload: ProjectListEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+function createInitialState(archived: boolean): ProjectListState {
+  return {
+    projects: [],
+    archived,
+    totalPages: 1,
+    totalItems: 0,
+    currentPage: 1,
+    pageSize: 6,
+    searchQuery: '',
+    isLoading: true,
+    isRefreshing: false,
+    error: null,
+    successMessage: null,
+    isOnline: true,
+    pendingEffect: null,
+  }
+}
+
+function projectListReducer(state: ProjectListState, action: ProjectListAction): ProjectListState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload, error: null }
+    case 'SET_REFRESHING':
+      return { ...state, isRefreshing: action.payload }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false, isRefreshing: false }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload }
+    case 'SET_SEARCH':
+      return { ...state, searchQuery: action.payload }
+    case 'SET_PAGE':
+      return { ...state, currentPage: action.payload }
+    case 'SET_PROJECTS':
+      return {
+        ...state,
+        projects: action.payload.data,
+        totalPages: action.payload.totalPages,
+        totalItems: action.payload.total,
+        currentPage: action.payload.page,
+        isLoading: false,
+        isRefreshing: false,
+      }
+    case 'PROJECTS_REVALIDATED': {
+      // Only the page on screen; a refresh of a page left since is dropped
+      const { params, search, list } = action.payload
+      const onScreen =
+        params.page === state.currentPage &&
+        params.pageSize === state.pageSize &&
+        params.filter?.archived === state.archived &&
+        (search ?? '') === state.searchQuery
+      if (!onScreen) return state
+      return {
+        ...state,
+        projects: list.data,
+        totalPages: list.totalPages,
+        totalItems: list.total,
+      }
+    }
+    case 'REMOVE_PROJECT':
+      if (!state.projects.some((p) => p.id === action.payload)) return state
+      return {
+        ...state,
+        projects: state.projects.filter((p) => p.id !== action.payload),
+        totalItems: state.totalItems - 1,
+      }
+    case 'REPLACE_PROJECT':
+      // A project moved in or out of the archive leaves this list
+      if (action.payload.archived !== state.archived) {
+        return projectListReducer(state, { type: 'REMOVE_PROJECT', payload: action.payload.id })
+      }
+      return {
+        ...state,
+        projects: state.projects.map((p) => (p.id === action.payload.id ? action.payload : p)),
+      }
+    case 'REMAP_PROJECT_ID':
+      return {
+        ...state,
+        projects: state.projects.map((p) =>
+          p.id === action.payload.tempId ? { ...p, id: action.payload.serverId } : p
+        ),
+      }
+    case 'SET_ONLINE':
+      return { ...state, isOnline: action.payload }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function computeFilteredProjects(projects: Project[], searchQuery: string): Project[] {
+  if (!searchQuery) return projects
+  const query = searchQuery.toLowerCase()
+  return projects.filter(
+    (project) =>
+      project.name.toLowerCase().includes(query) || project.description.toLowerCase().includes(query)
+  )
+}
+
+function computePaginationInfo(currentPage: number, pageSize: number, totalItems: number) {
+  const startItem = totalItems > 0 ? (currentPage - 1) * pageSize + 1 : 0
+  const endItem = Math.min(currentPage * pageSize, totalItems)
+  return { startItem, endItem }
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseProjectListViewModel {
+  output: ProjectListOutput
+  dispatch: (input: ProjectListInput) => Promise<void>
+}
+
+export function useProjectListViewModel(archived = false): UseProjectListViewModel {
+  const navigate = useNavigate()
+  const projectService = useProjectService()
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(
+    projectListReducer,
+    createInitialState(archived)
+  )
+  const isInitialMount = useRef(true)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    const effect = state.pendingEffect
+
+    switch (effect.type) {
+      case 'NAVIGATE':
+        navigate(effect.path)
+        break
+      case 'AUTO_DISMISS_SUCCESS':
+        setTimeout(() => {
+          internalDispatch({ type: 'SET_SUCCESS', payload: null })
+        }, effect.delay)
+        break
+    }
+
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  // Helper: fetch projects and dispatch result
+  const fetchProjects = useCallback(
+    async (page: number, errorMessage: string, policy: ReadPolicy) => {
+      const result = await projectService.getList(
+        { page, pageSize: state.pageSize, filter: { archived: state.archived } },
+        state.searchQuery || undefined,
+        { policy }
+      )
+      if (result.success && result.data) {
+        internalDispatch({ type: 'SET_PROJECTS', payload: result.data })
+      } else {
+        internalDispatch({ type: 'SET_ERROR', payload: result.error || errorMessage })
+      }
+    },
+    [state.pageSize, state.archived, state.searchQuery, projectService, internalDispatch]
+  )
+
+  // Helper: archive, restore or delete (the row goes at once and comes back on failure)
+  const handleRemoveProject = useCallback(
+    async (project: Project, action: 'archive' | 'restore' | 'delete') => {
+      const mutations = {
+        archive: { run: () => projectService.archive(project.id), verb: 'archived', failure: 'archive' },
+        restore: { run: () => projectService.restore(project.id), verb: 'restored', failure: 'restore' },
+        delete: { run: () => projectService.delete(project.id), verb: 'deleted', failure: 'delete' },
+      }
+      const mutation = mutations[action]
+
+      const result = await runOptimistic<unknown>({
+        update: (current) => projectListReducer(current, { type: 'REMOVE_PROJECT', payload: project.id }),
+        mutate: mutation.run,
+        errorMessage: `Failed to ${mutation.failure} project`,
+      })
+      if (result.success) {
+        internalDispatch({
+          type: 'SET_SUCCESS',
+          payload: `Project ${project.name} ${mutation.verb} successfully`,
+        })
+        internalDispatch({
+          type: 'SET_EFFECT',
+          payload: { type: 'AUTO_DISMISS_SUCCESS', delay: 5000 },
+        })
+      }
+    },
+    [projectService, internalDispatch, runOptimistic]
+  )
+
+  const dispatch = useCallback(
+    async (input: ProjectListInput) => {
+      switch (input.type) {
+        case 'LOAD_PROJECTS':
+          internalDispatch({ type: 'SET_LOADING', payload: true })
+          // Cached page at once; a fresher one arrives through updates$
+          await fetchProjects(
+            input.page ?? state.currentPage,
+            'Failed to load projects',
+            'stale-while-revalidate'
+          )
+          break
+        case 'REFRESH_PROJECTS':
+          internalDispatch({ type: 'SET_REFRESHING', payload: true })
+          await fetchProjects(state.currentPage, 'Failed to refresh projects', 'network-first')
+          break
+        case 'SET_SEARCH_QUERY':
+          internalDispatch({ type: 'SET_SEARCH', payload: input.query })
+          break
+        case 'CLEAR_SEARCH':
+          internalDispatch({ type: 'SET_SEARCH', payload: '' })
+          break
+        case 'CHANGE_PAGE':
+          if (input.page >= 1 && input.page <= state.totalPages) {
+            internalDispatch({ type: 'SET_PAGE', payload: input.page })
+            internalDispatch({ type: 'SET_LOADING', payload: true })
+            await fetchProjects(input.page, 'Failed to load projects', 'stale-while-revalidate')
+          }
+          break
+        case 'ARCHIVE_PROJECT':
+          await handleRemoveProject(input.project, 'archive')
+          break
+        case 'RESTORE_PROJECT':
+          await handleRemoveProject(input.project, 'restore')
+          break
+        case 'DELETE_PROJECT':
+          await handleRemoveProject(input.project, 'delete')
+          break
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+        case 'DISMISS_SUCCESS':
+          internalDispatch({ type: 'SET_SUCCESS', payload: null })
+          break
+        case 'NAVIGATE_TO_CREATE':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: '/projects/new' } })
+          break
+        case 'NAVIGATE_TO_DETAIL':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: `/projects/${input.id}` } })
+          break
+        case 'NAVIGATE_TO_EDIT':
+          internalDispatch({
+            type: 'SET_EFFECT',
+            payload: { type: 'NAVIGATE', path: `/projects/${input.id}/edit` },
+          })
+          break
+      }
+    },
+    [state.currentPage, state.totalPages, fetchProjects, handleRemoveProject, internalDispatch]
+  )
+
+  // ==========================================================================
+  // Initial Load & Online Status
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_PROJECTS', page: 1 })
+      internalDispatch({ type: 'SET_ONLINE', payload: projectService.isOnline() })
+    }
+  }, [dispatch, projectService, internalDispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = projectService.idMappings$.subscribe(({ tempId, serverId }) => {
+      internalDispatch({ type: 'REMAP_PROJECT_ID', payload: { tempId, serverId } })
+    })
+    return () => subscription.unsubscribe()
+  }, [projectService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = projectService.updates$.subscribe((change) => {
+      switch (change.type) {
+        case 'update':
+          internalDispatch({ type: 'REPLACE_PROJECT', payload: change.project })
+          break
+        case 'delete':
+          internalDispatch({ type: 'REMOVE_PROJECT', payload: change.project.id })
+          break
+        case 'create':
+          // Where the new project lands depends on the server's ordering
+          void dispatch({ type: 'REFRESH_PROJECTS' })
+          break
+        case 'list':
+          internalDispatch({ type: 'PROJECTS_REVALIDATED', payload: change })
+          break
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [dispatch, projectService, internalDispatch])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const filteredProjects = computeFilteredProjects(state.projects, state.searchQuery)
+  const { startItem, endItem } = computePaginationInfo(
+    state.currentPage,
+    state.pageSize,
+    state.totalItems
+  )
+
+  const output: ProjectListOutput = {
+    projects: state.projects,
+    archived: state.archived,
+    totalPages: state.totalPages,
+    totalItems: state.totalItems,
+    currentPage: state.currentPage,
+    pageSize: state.pageSize,
+    searchQuery: state.searchQuery,
+    isLoading: state.isLoading,
+    isRefreshing: state.isRefreshing,
+    error: state.error,
+    successMessage: state.successMessage,
+    isOnline: state.isOnline,
+    filteredProjects,
+    startItem,
+    endItem,
+  }
+
+  return { output, dispatch }
+}
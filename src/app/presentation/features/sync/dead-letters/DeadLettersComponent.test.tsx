@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { DeadLettersComponent } from './DeadLettersComponent'
+import type { DeadLettersOutput } from '../viewmodels/deadLettersViewModel'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+
+const defaultOutput: DeadLettersOutput = {
+  deadLetters: [
+    {
+      deadLetter: {
+        operationId: 9,
+        type: 'create',
+        entity: 'user',
+        entityId: 'offline_1',
+        payload: { email: 'bad' },
+        error: 'Invalid email',
+        attempts: 3,
+        queuedAt: new Date('2025-01-01T00:00:00Z'),
+      },
+      draft: '{\n  "email": "bad"\n}',
+      draftError: null,
+      isEdited: false,
+    },
+  ],
+  busyId: null,
+  error: null,
+  successMessage: null,
+  hasDeadLetters: true,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/deadLettersViewModel', () => ({
+  useDeadLettersViewModel: () => ({
+    output: currentOutput,
+    dispatch: mockDispatch,
+  }),
+}))
+
+function renderComponent() {
+  return render(
+    <I18nProvider>
+      <DeadLettersComponent />
+    </I18nProvider>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('DeadLettersComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  it('renders the page title', () => {
+    renderComponent()
+    expect(screen.getByText('Failed Sync Operations')).toBeInTheDocument()
+  })
+
+  it('renders the empty state when nothing failed', () => {
+    currentOutput = { ...defaultOutput, deadLetters: [], hasDeadLetters: false }
+    renderComponent()
+    expect(screen.getByText('No failed operations')).toBeInTheDocument()
+  })
+
+  it('shows the failure reason and editable payload', () => {
+    renderComponent()
+
+    expect(screen.getByText('Invalid email')).toBeInTheDocument()
+    expect(screen.getByText('3 attempts', { exact: false })).toBeInTheDocument()
+    expect(screen.getByLabelText('Payload (JSON)')).toHaveValue('{\n  "email": "bad"\n}')
+  })
+
+  it('dispatches EDIT_PAYLOAD when the payload changes', () => {
+    renderComponent()
+
+    fireEvent.change(screen.getByLabelText('Payload (JSON)'), { target: { value: '{}' } })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'EDIT_PAYLOAD', operationId: 9, value: '{}' })
+  })
+
+  it('dispatches RETRY', async () => {
+    const user = userEvent.setup()
+    renderComponent()
+
+    await user.click(screen.getByText('Retry'))
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'RETRY', operationId: 9 })
+  })
+
+  it('disables retry while the payload is invalid', () => {
+    currentOutput = {
+      ...defaultOutput,
+      deadLetters: [{ ...defaultOutput.deadLetters[0], draft: '{', draftError: 'Unexpected end of JSON input', isEdited: true }],
+    }
+    renderComponent()
+
+    expect(screen.getByText('Retry').closest('button')).toBeDisabled()
+    expect(screen.getByText('Unexpected end of JSON input')).toBeInTheDocument()
+  })
+
+  it('asks for confirmation before discarding', async () => {
+    const user = userEvent.setup()
+    const confirmSpy = vi.spyOn(globalThis, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true)
+    renderComponent()
+
+    await user.click(screen.getByText('Discard'))
+    expect(mockDispatch).not.toHaveBeenCalled()
+
+    await user.click(screen.getByText('Discard'))
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'DISCARD', operationId: 9 })
+
+    confirmSpy.mockRestore()
+  })
+
+  it('renders and dismisses the success alert', async () => {
+    const user = userEvent.setup()
+    currentOutput = { ...defaultOutput, successMessage: 'Operation re-queued' }
+    renderComponent()
+
+    expect(screen.getByText('Operation re-queued')).toBeInTheDocument()
+    await user.click(screen.getByRole('alert').querySelector('.btn-close')!)
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'DISMISS_SUCCESS' })
+  })
+})
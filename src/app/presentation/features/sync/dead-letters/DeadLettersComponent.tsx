@@ -0,0 +1,167 @@
+// =============================================================================
+// Dead Letters Component
+// =============================================================================
+// Presentation layer component that uses DeadLettersViewModel for all logic.
+// Lists offline changes that failed permanently so they can be inspected,
+// edited and retried, or discarded.
+// =============================================================================
+
+import { useI18n } from '@core/providers/I18nProvider'
+import { useDeadLettersViewModel, type DeadLetterView } from '../viewmodels/deadLettersViewModel'
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+const typeBadgeClass: Record<DeadLetterView['deadLetter']['type'], string> = {
+  create: 'bg-success',
+  update: 'bg-primary',
+  delete: 'bg-danger',
+}
+
+export function DeadLettersComponent() {
+  const { t } = useI18n()
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useDeadLettersViewModel()
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleEdit = (operationId: number, value: string) => {
+    void dispatch({ type: 'EDIT_PAYLOAD', operationId, value })
+  }
+
+  const handleRetry = (operationId: number) => {
+    void dispatch({ type: 'RETRY', operationId })
+  }
+
+  const handleDiscard = (operationId: number) => {
+    if (globalThis.confirm(t('sync.failed.discard.confirm'))) {
+      void dispatch({ type: 'DISCARD', operationId })
+    }
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  const handleDismissSuccess = () => {
+    void dispatch({ type: 'DISMISS_SUCCESS' })
+  }
+
+  // ==========================================================================
+  // Render Helpers
+  // ==========================================================================
+
+  const renderDeadLetter = ({ deadLetter, draft, draftError }: DeadLetterView) => {
+    const { operationId } = deadLetter
+    const isBusy = output.busyId === operationId
+    const payloadId = `dead-letter-${operationId}-payload`
+
+    return (
+      <div key={operationId} className="card mb-4" data-testid={`dead-letter-${operationId}`}>
+        <div className="card-header d-flex justify-content-between align-items-center">
+          <div>
+            <span className={`badge ${typeBadgeClass[deadLetter.type]} text-uppercase me-2`}>{deadLetter.type}</span>
+            <span className="fw-semibold text-capitalize">{deadLetter.entity}</span>
+            <span className="text-muted ms-2">#{deadLetter.entityId}</span>
+          </div>
+          <small className="text-muted">
+            {t('sync.failed.queued', { date: deadLetter.queuedAt.toLocaleString() })}
+            {' · '}
+            {t('sync.failed.attempts', { count: deadLetter.attempts })}
+          </small>
+        </div>
+        <div className="card-body">
+          {deadLetter.error && (
+            <div className="alert alert-warning py-2">
+              <i className="bi bi-exclamation-triangle me-2"></i>
+              {deadLetter.error}
+            </div>
+          )}
+          <label className="form-label" htmlFor={payloadId}>
+            {t('sync.failed.payload')}
+          </label>
+          <textarea
+            id={payloadId}
+            className={`form-control font-monospace ${draftError ? 'is-invalid' : ''}`}
+            rows={Math.min(12, draft.split('\n').length + 1)}
+            value={draft}
+            onChange={(e) => handleEdit(operationId, e.target.value)}
+            disabled={isBusy}
+          />
+          {draftError && <div className="invalid-feedback">{draftError}</div>}
+        </div>
+        <div className="card-footer bg-white d-flex justify-content-end gap-2">
+          <button
+            className="btn btn-outline-danger"
+            onClick={() => handleDiscard(operationId)}
+            disabled={isBusy}
+          >
+            <i className="bi bi-trash me-2"></i>
+            {t('sync.failed.discard')}
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={() => handleRetry(operationId)}
+            disabled={isBusy || draftError !== null}
+          >
+            {isBusy ? (
+              <output className="spinner-border spinner-border-sm me-2"></output>
+            ) : (
+              <i className="bi bi-arrow-clockwise me-2"></i>
+            )}
+            {t('sync.failed.retry')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  return (
+    <div className="dead-letters-page container-fluid py-4">
+      {/* Page Header */}
+      <div className="page-header mb-4">
+        <h2 className="mb-1">{t('sync.failed.title')}</h2>
+        <p className="text-muted mb-0">{t('sync.failed.subtitle')}</p>
+      </div>
+
+      {/* Success Alert */}
+      {output.successMessage && (
+        <div className="alert alert-success alert-dismissible fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+          <button type="button" className="btn-close" onClick={handleDismissSuccess}></button>
+        </div>
+      )}
+
+      {/* Error Alert */}
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!output.hasDeadLetters && (
+        <div className="card">
+          <div className="card-body text-center py-5">
+            <i className="bi bi-check2-circle text-success" style={{ fontSize: '3rem' }}></i>
+            <p className="mt-3 text-muted mb-0">{t('sync.failed.empty')}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Failed Operations */}
+      {output.deadLetters.map(renderDeadLetter)}
+    </div>
+  )
+}
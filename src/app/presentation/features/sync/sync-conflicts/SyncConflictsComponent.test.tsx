@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { SyncConflictsComponent } from './SyncConflictsComponent'
+import type { SyncConflictsOutput } from '../viewmodels/syncConflictsViewModel'
+import { diffConflict, type SyncConflict } from '@/app/domain/entities/sync-conflict.model'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+
+const conflict: SyncConflict = {
+  operationId: 7,
+  entity: 'user',
+  entityId: '42',
+  baseVersion: '2025-01-01T00:00:00.000Z',
+  serverVersion: '2025-01-02T00:00:00.000Z',
+  base: { firstName: 'John', lastName: 'Doe' },
+  local: { firstName: 'Johnny', lastName: 'Dough' },
+  server: { firstName: 'John', lastName: 'Smith' },
+  detectedAt: new Date('2025-01-02T00:00:00Z'),
+}
+
+const defaultOutput: SyncConflictsOutput = {
+  conflicts: [
+    {
+      conflict,
+      fields: diffConflict(conflict),
+      selection: { firstName: 'local', lastName: 'server' },
+    },
+  ],
+  resolvingId: null,
+  error: null,
+  successMessage: null,
+  hasConflicts: true,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/syncConflictsViewModel', () => ({
+  useSyncConflictsViewModel: () => ({
+    output: currentOutput,
+    dispatch: mockDispatch,
+  }),
+}))
+
+function renderComponent() {
+  return render(
+    <I18nProvider>
+      <SyncConflictsComponent />
+    </I18nProvider>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('SyncConflictsComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  it('renders the page title', () => {
+    renderComponent()
+    expect(screen.getByText('Sync Conflicts')).toBeInTheDocument()
+  })
+
+  it('renders the empty state when there are no conflicts', () => {
+    currentOutput = { ...defaultOutput, conflicts: [], hasConflicts: false }
+    renderComponent()
+    expect(screen.getByText('No conflicts - all offline changes are in sync')).toBeInTheDocument()
+  })
+
+  it('renders a field-by-field diff', () => {
+    renderComponent()
+
+    expect(screen.getByText('firstName')).toBeInTheDocument()
+    expect(screen.getByLabelText('Johnny')).toBeChecked()
+    expect(screen.getByLabelText('Smith')).toBeChecked()
+    expect(screen.getByLabelText('Dough')).not.toBeChecked()
+  })
+
+  it('highlights fields changed on both sides', () => {
+    renderComponent()
+
+    expect(screen.getByText('lastName').closest('tr')).toHaveClass('table-warning')
+    expect(screen.getByText('firstName').closest('tr')).not.toHaveClass('table-warning')
+  })
+
+  it('dispatches SELECT_SIDE when a value is picked', async () => {
+    const user = userEvent.setup()
+    renderComponent()
+
+    await user.click(screen.getByLabelText('Dough'))
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'SELECT_SIDE',
+      operationId: 7,
+      field: 'lastName',
+      side: 'local',
+    })
+  })
+
+  it('dispatches the resolution buttons', async () => {
+    const user = userEvent.setup()
+    renderComponent()
+
+    await user.click(screen.getByText('Keep server version'))
+    await user.click(screen.getByText('Keep my changes'))
+    await user.click(screen.getByText('Apply selection'))
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'KEEP_SERVER', operationId: 7 })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'KEEP_LOCAL', operationId: 7 })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'APPLY_SELECTION', operationId: 7 })
+  })
+
+  it('disables actions while resolving', () => {
+    currentOutput = { ...defaultOutput, resolvingId: 7 }
+    renderComponent()
+
+    expect(screen.getByText('Keep server version').closest('button')).toBeDisabled()
+  })
+
+  it('renders and dismisses the error alert', async () => {
+    const user = userEvent.setup()
+    currentOutput = { ...defaultOutput, error: 'Failed to resolve conflict' }
+    renderComponent()
+
+    expect(screen.getByText('Failed to resolve conflict')).toBeInTheDocument()
+    await user.click(screen.getByRole('alert').querySelector('.btn-close')!)
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'DISMISS_ERROR' })
+  })
+})
@@ -0,0 +1,197 @@
+// =============================================================================
+// Sync Conflicts Component
+// =============================================================================
+// Presentation layer component that uses SyncConflictsViewModel for all logic.
+// Shows a field-by-field diff for every offline change that clashed with the
+// server and lets the user keep either side or pick values per field.
+// =============================================================================
+
+import { useI18n } from '@core/providers/I18nProvider'
+import { useSyncConflictsViewModel, type ConflictSide, type ConflictView } from '../viewmodels/syncConflictsViewModel'
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  return String(value)
+}
+
+export function SyncConflictsComponent() {
+  const { t } = useI18n()
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useSyncConflictsViewModel()
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleSelect = (operationId: number, field: string, side: ConflictSide) => {
+    void dispatch({ type: 'SELECT_SIDE', operationId, field, side })
+  }
+
+  const handleKeepServer = (operationId: number) => {
+    void dispatch({ type: 'KEEP_SERVER', operationId })
+  }
+
+  const handleKeepLocal = (operationId: number) => {
+    void dispatch({ type: 'KEEP_LOCAL', operationId })
+  }
+
+  const handleApplySelection = (operationId: number) => {
+    void dispatch({ type: 'APPLY_SELECTION', operationId })
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  const handleDismissSuccess = () => {
+    void dispatch({ type: 'DISMISS_SUCCESS' })
+  }
+
+  // ==========================================================================
+  // Render Helpers
+  // ==========================================================================
+
+  const renderConflict = ({ conflict, fields, selection }: ConflictView) => {
+    const { operationId } = conflict
+    const isResolving = output.resolvingId === operationId
+
+    return (
+      <div key={operationId} className="card mb-4" data-testid={`conflict-${operationId}`}>
+        <div className="card-header d-flex justify-content-between align-items-center">
+          <div>
+            <i className="bi bi-exclamation-diamond text-warning me-2"></i>
+            <span className="fw-semibold text-capitalize">{conflict.entity}</span>
+            <span className="text-muted ms-2">#{conflict.entityId}</span>
+          </div>
+          <small className="text-muted">
+            {t('sync.conflicts.detected', { date: new Date(conflict.detectedAt).toLocaleString() })}
+          </small>
+        </div>
+        <div className="table-responsive">
+          <table className="table mb-0 align-middle">
+            <thead>
+              <tr>
+                <th scope="col">{t('sync.conflicts.field')}</th>
+                <th scope="col">{t('sync.conflicts.local')}</th>
+                <th scope="col">{t('sync.conflicts.server')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((diff) => (
+                <tr key={diff.field} className={diff.conflicting ? 'table-warning' : undefined}>
+                  <th scope="row" className="fw-normal">
+                    {diff.field}
+                    {diff.conflicting && <i className="bi bi-exclamation-triangle text-warning ms-2"></i>}
+                  </th>
+                  {(['local', 'server'] as const).map((side) => (
+                    <td key={side}>
+                      <div className="form-check">
+                        <input
+                          className="form-check-input"
+                          type="radio"
+                          id={`conflict-${operationId}-${diff.field}-${side}`}
+                          name={`conflict-${operationId}-${diff.field}`}
+                          checked={selection[diff.field] === side}
+                          onChange={() => handleSelect(operationId, diff.field, side)}
+                          disabled={isResolving}
+                        />
+                        <label
+                          className={`form-check-label ${
+                            (side === 'local' ? diff.changedLocally : diff.changedOnServer) ? 'fw-semibold' : 'text-muted'
+                          }`}
+                          htmlFor={`conflict-${operationId}-${diff.field}-${side}`}
+                        >
+                          {formatValue(diff[side])}
+                        </label>
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="card-footer bg-white d-flex justify-content-end gap-2">
+          <button
+            className="btn btn-outline-secondary"
+            onClick={() => handleKeepServer(operationId)}
+            disabled={isResolving}
+          >
+            <i className="bi bi-cloud-check me-2"></i>
+            {t('sync.conflicts.keep.server')}
+          </button>
+          <button
+            className="btn btn-outline-primary"
+            onClick={() => handleKeepLocal(operationId)}
+            disabled={isResolving}
+          >
+            <i className="bi bi-laptop me-2"></i>
+            {t('sync.conflicts.keep.local')}
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={() => handleApplySelection(operationId)}
+            disabled={isResolving}
+          >
+            {isResolving ? (
+              <output className="spinner-border spinner-border-sm me-2"></output>
+            ) : (
+              <i className="bi bi-check2-square me-2"></i>
+            )}
+            {t('sync.conflicts.apply')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  return (
+    <div className="sync-conflicts-page container-fluid py-4">
+      {/* Page Header */}
+      <div className="page-header mb-4">
+        <h2 className="mb-1">{t('sync.conflicts.title')}</h2>
+        <p className="text-muted mb-0">{t('sync.conflicts.subtitle')}</p>
+      </div>
+
+      {/* Success Alert */}
+      {output.successMessage && (
+        <div className="alert alert-success alert-dismissible fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+          <button type="button" className="btn-close" onClick={handleDismissSuccess}></button>
+        </div>
+      )}
+
+      {/* Error Alert */}
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!output.hasConflicts && (
+        <div className="card">
+          <div className="card-body text-center py-5">
+            <i className="bi bi-check2-circle text-success" style={{ fontSize: '3rem' }}></i>
+            <p className="mt-3 text-muted mb-0">{t('sync.conflicts.empty')}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Conflicts */}
+      {output.conflicts.map(renderConflict)}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { BehaviorSubject } from 'rxjs'
+import type { SyncService } from '@/app/domain/services/syncService'
+import type { DeadLetter } from '@/app/domain/entities/dead-letter.model'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockDeadLetters = new BehaviorSubject<DeadLetter[]>([])
+
+const mockSyncService: SyncService = {
+  conflicts$: new BehaviorSubject([]).asObservable(),
+  resolveConflict: vi.fn(),
+  deadLetters$: mockDeadLetters.asObservable(),
+  retryDeadLetter: vi.fn(),
+  discardDeadLetter: vi.fn(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useSyncService: () => mockSyncService,
+}))
+
+import { useDeadLettersViewModel } from './deadLettersViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createDeadLetter(overrides: Partial<DeadLetter> = {}): DeadLetter {
+  return {
+    operationId: 9,
+    type: 'update',
+    entity: 'user',
+    entityId: '42',
+    payload: { email: 'bad' },
+    error: 'Invalid email',
+    attempts: 3,
+    queuedAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+function renderWithDeadLetter() {
+  const hook = renderHook(() => useDeadLettersViewModel())
+  act(() => {
+    mockDeadLetters.next([createDeadLetter()])
+  })
+  return hook
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useDeadLettersViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockSyncService.retryDeadLetter).mockResolvedValue({ success: true })
+    vi.mocked(mockSyncService.discardDeadLetter).mockResolvedValue({ success: true })
+    mockDeadLetters.next([])
+  })
+
+  // ---------------------------------------------------------------------------
+  // Dead letter list
+  // ---------------------------------------------------------------------------
+
+  it('starts with no dead letters', () => {
+    const { result } = renderHook(() => useDeadLettersViewModel())
+
+    expect(result.current.output.hasDeadLetters).toBe(false)
+    expect(result.current.output.deadLetters).toEqual([])
+  })
+
+  it('renders pushed dead letters with the payload as JSON', () => {
+    const { result } = renderWithDeadLetter()
+
+    const [view] = result.current.output.deadLetters
+    expect(result.current.output.hasDeadLetters).toBe(true)
+    expect(view.draft).toBe(JSON.stringify({ email: 'bad' }, null, 2))
+    expect(view.isEdited).toBe(false)
+    expect(view.draftError).toBeNull()
+  })
+
+  // ---------------------------------------------------------------------------
+  // Editing
+  // ---------------------------------------------------------------------------
+
+  it('reports invalid JSON in an edited payload', async () => {
+    const { result } = renderWithDeadLetter()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'EDIT_PAYLOAD', operationId: 9, value: '{ "email": ' })
+    })
+
+    const [view] = result.current.output.deadLetters
+    expect(view.isEdited).toBe(true)
+    expect(view.draftError).not.toBeNull()
+  })
+
+  // ---------------------------------------------------------------------------
+  // Retry / discard
+  // ---------------------------------------------------------------------------
+
+  it('retries without a payload when nothing was edited', async () => {
+    const { result } = renderWithDeadLetter()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'RETRY', operationId: 9 })
+    })
+
+    expect(mockSyncService.retryDeadLetter).toHaveBeenCalledWith(9, undefined)
+    expect(result.current.output.successMessage).toBe('Operation re-queued')
+    expect(result.current.output.busyId).toBeNull()
+  })
+
+  it('retries with the edited payload', async () => {
+    const { result } = renderWithDeadLetter()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'EDIT_PAYLOAD', operationId: 9, value: '{"email":"good@example.com"}' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'RETRY', operationId: 9 })
+    })
+
+    expect(mockSyncService.retryDeadLetter).toHaveBeenCalledWith(9, { email: 'good@example.com' })
+  })
+
+  it('does not retry an invalid payload', async () => {
+    const { result } = renderWithDeadLetter()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'EDIT_PAYLOAD', operationId: 9, value: 'not json' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'RETRY', operationId: 9 })
+    })
+
+    expect(mockSyncService.retryDeadLetter).not.toHaveBeenCalled()
+    expect(result.current.output.error).toMatch(/^Invalid JSON/)
+  })
+
+  it('discards a dead letter', async () => {
+    const { result } = renderWithDeadLetter()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DISCARD', operationId: 9 })
+    })
+
+    expect(mockSyncService.discardDeadLetter).toHaveBeenCalledWith(9)
+    expect(result.current.output.successMessage).toBe('Operation discarded')
+  })
+
+  it('surfaces service errors', async () => {
+    vi.mocked(mockSyncService.discardDeadLetter).mockResolvedValue({ success: false, error: 'Network down' })
+    const { result } = renderWithDeadLetter()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DISCARD', operationId: 9 })
+    })
+
+    expect(result.current.output.error).toBe('Network down')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DISMISS_ERROR' })
+    })
+
+    expect(result.current.output.error).toBeNull()
+  })
+
+  it('drops drafts for operations that left the dead-letter queue', async () => {
+    const { result } = renderWithDeadLetter()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'EDIT_PAYLOAD', operationId: 9, value: '{}' })
+    })
+    act(() => {
+      mockDeadLetters.next([])
+    })
+    act(() => {
+      mockDeadLetters.next([createDeadLetter()])
+    })
+
+    expect(result.current.output.deadLetters[0].isEdited).toBe(false)
+  })
+})
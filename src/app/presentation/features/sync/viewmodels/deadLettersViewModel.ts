@@ -0,0 +1,244 @@
+// =============================================================================
+// Dead Letters ViewModel - UDF Input/Output Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+// Failed operations are pushed by the SyncService; the user can edit the
+// queued payload as JSON, retry it or discard it.
+// =============================================================================
+
+import { useCallback, useEffect, useReducer } from 'react'
+import type { DeadLetter } from '@/app/domain/entities/dead-letter.model'
+import { useSyncService } from '@/app/core/di'
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type DeadLettersInput =
+  | { type: 'EDIT_PAYLOAD'; operationId: number; value: string }
+  | { type: 'RETRY'; operationId: number }
+  | { type: 'DISCARD'; operationId: number }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'DISMISS_SUCCESS' }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface DeadLetterView {
+  deadLetter: DeadLetter
+  /** Payload as editable JSON */
+  draft: string
+  /** JSON parse error for the draft, if any */
+  draftError: string | null
+  isEdited: boolean
+}
+
+export interface DeadLettersOutput {
+  // Core data
+  deadLetters: DeadLetterView[]
+
+  // UI state
+  busyId: number | null
+  error: string | null
+  successMessage: string | null
+
+  // Computed values
+  hasDeadLetters: boolean
+}
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface DeadLettersState {
+  deadLetters: DeadLetter[]
+  drafts: Record<number, string>
+  busyId: number | null
+  error: string | null
+  successMessage: string | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type DeadLettersAction =
+  | { type: 'SET_DEAD_LETTERS'; payload: DeadLetter[] }
+  | { type: 'SET_DRAFT'; payload: { operationId: number; value: string } }
+  | { type: 'SET_BUSY'; payload: number | null }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+const initialState: DeadLettersState = {
+  deadLetters: [],
+  drafts: {},
+  busyId: null,
+  error: null,
+  successMessage: null,
+}
+
+function deadLettersReducer(state: DeadLettersState, action: DeadLettersAction): DeadLettersState {
+  switch (action.type) {
+    case 'SET_DEAD_LETTERS': {
+      // Keep drafts only for operations that are still failed
+      const ids = new Set(action.payload.map((deadLetter) => deadLetter.operationId))
+      return {
+        ...state,
+        deadLetters: action.payload,
+        drafts: Object.fromEntries(Object.entries(state.drafts).filter(([id]) => ids.has(Number(id)))),
+      }
+    }
+    case 'SET_DRAFT':
+      return {
+        ...state,
+        drafts: { ...state.drafts, [action.payload.operationId]: action.payload.value },
+      }
+    case 'SET_BUSY':
+      return { ...state, busyId: action.payload }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, busyId: null }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function formatPayload(payload: unknown): string {
+  return JSON.stringify(payload ?? null, null, 2)
+}
+
+/**
+ * Parse a JSON draft, returning the error message when it is invalid
+ */
+function parseDraft(draft: string): { value: unknown; error: string | null } {
+  try {
+    return { value: JSON.parse(draft), error: null }
+  } catch (error) {
+    return { value: undefined, error: (error as Error).message }
+  }
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseDeadLettersViewModel {
+  output: DeadLettersOutput
+  dispatch: (input: DeadLettersInput) => Promise<void>
+}
+
+export function useDeadLettersViewModel(): UseDeadLettersViewModel {
+  const syncService = useSyncService()
+  const [state, internalDispatch] = useReducer(deadLettersReducer, initialState)
+
+  // ==========================================================================
+  // Dead Letter Subscription
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = syncService.deadLetters$.subscribe((deadLetters) => {
+      internalDispatch({ type: 'SET_DEAD_LETTERS', payload: deadLetters })
+    })
+    return () => subscription.unsubscribe()
+  }, [syncService])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  const dispatch = useCallback(
+    async (input: DeadLettersInput) => {
+      switch (input.type) {
+        case 'EDIT_PAYLOAD':
+          internalDispatch({
+            type: 'SET_DRAFT',
+            payload: { operationId: input.operationId, value: input.value },
+          })
+          break
+
+        case 'RETRY': {
+          const draft = state.drafts[input.operationId]
+          let payload: unknown
+
+          if (draft !== undefined) {
+            const parsed = parseDraft(draft)
+            if (parsed.error) {
+              internalDispatch({ type: 'SET_ERROR', payload: `Invalid JSON: ${parsed.error}` })
+              return
+            }
+            payload = parsed.value
+          }
+
+          internalDispatch({ type: 'SET_BUSY', payload: input.operationId })
+          const result = await syncService.retryDeadLetter(input.operationId, payload)
+
+          if (result.success) {
+            internalDispatch({ type: 'SET_BUSY', payload: null })
+            internalDispatch({ type: 'SET_SUCCESS', payload: 'Operation re-queued' })
+          } else {
+            internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to retry operation' })
+          }
+          break
+        }
+
+        case 'DISCARD': {
+          internalDispatch({ type: 'SET_BUSY', payload: input.operationId })
+          const result = await syncService.discardDeadLetter(input.operationId)
+
+          if (result.success) {
+            internalDispatch({ type: 'SET_BUSY', payload: null })
+            internalDispatch({ type: 'SET_SUCCESS', payload: 'Operation discarded' })
+          } else {
+            internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to discard operation' })
+          }
+          break
+        }
+
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+
+        case 'DISMISS_SUCCESS':
+          internalDispatch({ type: 'SET_SUCCESS', payload: null })
+          break
+      }
+    },
+    [state.drafts, syncService]
+  )
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: DeadLettersOutput = {
+    deadLetters: state.deadLetters.map((deadLetter) => {
+      const draft = state.drafts[deadLetter.operationId]
+      return {
+        deadLetter,
+        draft: draft ?? formatPayload(deadLetter.payload),
+        draftError: draft === undefined ? null : parseDraft(draft).error,
+        isEdited: draft !== undefined,
+      }
+    }),
+    busyId: state.busyId,
+    error: state.error,
+    successMessage: state.successMessage,
+    hasDeadLetters: state.deadLetters.length > 0,
+  }
+
+  return { output, dispatch }
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { BehaviorSubject } from 'rxjs'
+import type { SyncService } from '@/app/domain/services/syncService'
+import type { SyncConflict } from '@/app/domain/entities/sync-conflict.model'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockConflicts = new BehaviorSubject<SyncConflict[]>([])
+
+const mockSyncService: SyncService = {
+  conflicts$: mockConflicts.asObservable(),
+  resolveConflict: vi.fn(),
+  deadLetters$: new BehaviorSubject([]).asObservable(),
+  retryDeadLetter: vi.fn(),
+  discardDeadLetter: vi.fn(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useSyncService: () => mockSyncService,
+}))
+
+import { useSyncConflictsViewModel } from './syncConflictsViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createConflict(overrides: Partial<SyncConflict> = {}): SyncConflict {
+  return {
+    operationId: 7,
+    entity: 'user',
+    entityId: '42',
+    baseVersion: '2025-01-01T00:00:00.000Z',
+    serverVersion: '2025-01-02T00:00:00.000Z',
+    base: { firstName: 'John', lastName: 'Doe', email: 'john@example.com' },
+    local: { firstName: 'Johnny', lastName: 'Dough' },
+    server: { firstName: 'John', lastName: 'Smith', email: 'john@example.com' },
+    detectedAt: new Date('2025-01-02T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useSyncConflictsViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockSyncService.resolveConflict).mockResolvedValue({ success: true })
+    mockConflicts.next([])
+  })
+
+  // ---------------------------------------------------------------------------
+  // Conflict list
+  // ---------------------------------------------------------------------------
+
+  it('starts with no conflicts', () => {
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+
+    expect(result.current.output.hasConflicts).toBe(false)
+    expect(result.current.output.conflicts).toEqual([])
+  })
+
+  it('renders pushed conflicts with a field diff and default selection', () => {
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+
+    act(() => {
+      mockConflicts.next([createConflict()])
+    })
+
+    const [view] = result.current.output.conflicts
+    expect(result.current.output.hasConflicts).toBe(true)
+    expect(view.fields.map((f) => f.field)).toEqual(['firstName', 'lastName', 'email'])
+    // Only changed locally -> local; changed on both sides -> server
+    expect(view.selection).toEqual({ firstName: 'local', lastName: 'server', email: 'server' })
+  })
+
+  it('keeps the user selection when the conflict list is re-emitted', async () => {
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+    act(() => {
+      mockConflicts.next([createConflict()])
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SELECT_SIDE', operationId: 7, field: 'lastName', side: 'local' })
+    })
+    act(() => {
+      mockConflicts.next([createConflict()])
+    })
+
+    expect(result.current.output.conflicts[0].selection.lastName).toBe('local')
+  })
+
+  // ---------------------------------------------------------------------------
+  // Resolution
+  // ---------------------------------------------------------------------------
+
+  it('keeps the server version', async () => {
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+    act(() => {
+      mockConflicts.next([createConflict()])
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'KEEP_SERVER', operationId: 7 })
+    })
+
+    expect(mockSyncService.resolveConflict).toHaveBeenCalledWith(7, { type: 'server' })
+    expect(result.current.output.successMessage).toBe('Conflict resolved')
+  })
+
+  it('keeps the local changes', async () => {
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+    act(() => {
+      mockConflicts.next([createConflict()])
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'KEEP_LOCAL', operationId: 7 })
+    })
+
+    expect(mockSyncService.resolveConflict).toHaveBeenCalledWith(7, {
+      type: 'client',
+      payload: { firstName: 'Johnny', lastName: 'Dough' },
+    })
+  })
+
+  it('applies the per-field selection', async () => {
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+    act(() => {
+      mockConflicts.next([createConflict()])
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'APPLY_SELECTION', operationId: 7 })
+    })
+
+    expect(mockSyncService.resolveConflict).toHaveBeenCalledWith(7, {
+      type: 'client',
+      payload: { firstName: 'Johnny' },
+    })
+  })
+
+  it('keeps the server version when every field is picked from the server', async () => {
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+    act(() => {
+      mockConflicts.next([createConflict()])
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SELECT_SIDE', operationId: 7, field: 'firstName', side: 'server' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'APPLY_SELECTION', operationId: 7 })
+    })
+
+    expect(mockSyncService.resolveConflict).toHaveBeenCalledWith(7, { type: 'server' })
+  })
+
+  it('ignores resolution for unknown conflicts', async () => {
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'KEEP_LOCAL', operationId: 99 })
+    })
+
+    expect(mockSyncService.resolveConflict).not.toHaveBeenCalled()
+  })
+
+  it('surfaces and dismisses resolution errors', async () => {
+    vi.mocked(mockSyncService.resolveConflict).mockResolvedValue({ success: false, error: 'Failed' })
+    const { result } = renderHook(() => useSyncConflictsViewModel())
+    act(() => {
+      mockConflicts.next([createConflict()])
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'KEEP_SERVER', operationId: 7 })
+    })
+    expect(result.current.output.error).toBe('Failed')
+    expect(result.current.output.resolvingId).toBeNull()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DISMISS_ERROR' })
+    })
+    expect(result.current.output.error).toBeNull()
+  })
+})
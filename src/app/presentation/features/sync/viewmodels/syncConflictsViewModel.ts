@@ -0,0 +1,262 @@
+// =============================================================================
+// Sync Conflicts ViewModel - UDF Input/Output Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+// Conflicts are pushed by the SyncService; the user picks a value per field
+// or keeps one side entirely.
+// =============================================================================
+
+import { useCallback, useEffect, useReducer } from 'react'
+import {
+  diffConflict,
+  type ConflictResolution,
+  type FieldDiff,
+  type SyncConflict,
+} from '@/app/domain/entities/sync-conflict.model'
+import { useSyncService } from '@/app/core/di'
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type ConflictSide = 'local' | 'server'
+
+export type SyncConflictsInput =
+  | { type: 'SELECT_SIDE'; operationId: number; field: string; side: ConflictSide }
+  | { type: 'KEEP_SERVER'; operationId: number }
+  | { type: 'KEEP_LOCAL'; operationId: number }
+  | { type: 'APPLY_SELECTION'; operationId: number }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'DISMISS_SUCCESS' }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface ConflictView {
+  conflict: SyncConflict
+  fields: FieldDiff[]
+  selection: Record<string, ConflictSide>
+}
+
+export interface SyncConflictsOutput {
+  // Core data
+  conflicts: ConflictView[]
+
+  // UI state
+  resolvingId: number | null
+  error: string | null
+  successMessage: string | null
+
+  // Computed values
+  hasConflicts: boolean
+}
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface SyncConflictsState {
+  conflicts: SyncConflict[]
+  selections: Record<number, Record<string, ConflictSide>>
+  resolvingId: number | null
+  error: string | null
+  successMessage: string | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type SyncConflictsAction =
+  | { type: 'SET_CONFLICTS'; payload: SyncConflict[] }
+  | { type: 'SET_SIDE'; payload: { operationId: number; field: string; side: ConflictSide } }
+  | { type: 'SET_RESOLVING'; payload: number | null }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+const initialState: SyncConflictsState = {
+  conflicts: [],
+  selections: {},
+  resolvingId: null,
+  error: null,
+  successMessage: null,
+}
+
+/**
+ * Default pick per field: keep whichever side changed it, server when both did
+ */
+function defaultSelection(conflict: SyncConflict): Record<string, ConflictSide> {
+  return Object.fromEntries(
+    diffConflict(conflict).map((diff) => [
+      diff.field,
+      diff.changedLocally && !diff.conflicting ? 'local' : 'server',
+    ])
+  )
+}
+
+function syncConflictsReducer(state: SyncConflictsState, action: SyncConflictsAction): SyncConflictsState {
+  switch (action.type) {
+    case 'SET_CONFLICTS':
+      return {
+        ...state,
+        conflicts: action.payload,
+        selections: Object.fromEntries(
+          action.payload.map((conflict) => [
+            conflict.operationId,
+            state.selections[conflict.operationId] ?? defaultSelection(conflict),
+          ])
+        ),
+      }
+    case 'SET_SIDE': {
+      const { operationId, field, side } = action.payload
+      return {
+        ...state,
+        selections: {
+          ...state.selections,
+          [operationId]: { ...state.selections[operationId], [field]: side },
+        },
+      }
+    }
+    case 'SET_RESOLVING':
+      return { ...state, resolvingId: action.payload }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, resolvingId: null }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+/**
+ * Build the changes to re-send from the per-field selection
+ * Fields kept on the server side need no request
+ */
+function buildSelectionResolution(conflict: SyncConflict, selection: Record<string, ConflictSide>): ConflictResolution {
+  const payload = Object.fromEntries(
+    diffConflict(conflict)
+      .filter((diff) => selection[diff.field] === 'local')
+      .map((diff) => [diff.field, diff.local])
+  )
+
+  return Object.keys(payload).length > 0 ? { type: 'client', payload } : { type: 'server' }
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseSyncConflictsViewModel {
+  output: SyncConflictsOutput
+  dispatch: (input: SyncConflictsInput) => Promise<void>
+}
+
+export function useSyncConflictsViewModel(): UseSyncConflictsViewModel {
+  const syncService = useSyncService()
+  const [state, internalDispatch] = useReducer(syncConflictsReducer, initialState)
+
+  // ==========================================================================
+  // Conflict Subscription
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = syncService.conflicts$.subscribe((conflicts) => {
+      internalDispatch({ type: 'SET_CONFLICTS', payload: conflicts })
+    })
+    return () => subscription.unsubscribe()
+  }, [syncService])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  const resolve = useCallback(
+    async (operationId: number, resolution: ConflictResolution) => {
+      internalDispatch({ type: 'SET_RESOLVING', payload: operationId })
+
+      const result = await syncService.resolveConflict(operationId, resolution)
+
+      if (result.success) {
+        internalDispatch({ type: 'SET_RESOLVING', payload: null })
+        internalDispatch({ type: 'SET_SUCCESS', payload: 'Conflict resolved' })
+      } else {
+        internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to resolve conflict' })
+      }
+    },
+    [syncService]
+  )
+
+  const dispatch = useCallback(
+    async (input: SyncConflictsInput) => {
+      switch (input.type) {
+        case 'SELECT_SIDE':
+          internalDispatch({
+            type: 'SET_SIDE',
+            payload: { operationId: input.operationId, field: input.field, side: input.side },
+          })
+          break
+
+        case 'KEEP_SERVER':
+          await resolve(input.operationId, { type: 'server' })
+          break
+
+        case 'KEEP_LOCAL': {
+          const conflict = state.conflicts.find((c) => c.operationId === input.operationId)
+          if (!conflict) return
+          await resolve(input.operationId, { type: 'client', payload: conflict.local })
+          break
+        }
+
+        case 'APPLY_SELECTION': {
+          const conflict = state.conflicts.find((c) => c.operationId === input.operationId)
+          if (!conflict) return
+          await resolve(
+            input.operationId,
+            buildSelectionResolution(conflict, state.selections[input.operationId] ?? {})
+          )
+          break
+        }
+
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+
+        case 'DISMISS_SUCCESS':
+          internalDispatch({ type: 'SET_SUCCESS', payload: null })
+          break
+      }
+    },
+    [state.conflicts, state.selections, resolve]
+  )
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: SyncConflictsOutput = {
+    conflicts: state.conflicts.map((conflict) => ({
+      conflict,
+      fields: diffConflict(conflict),
+      selection: state.selections[conflict.operationId] ?? {},
+    })),
+    resolvingId: state.resolvingId,
+    error: state.error,
+    successMessage: state.successMessage,
+    hasConflicts: state.conflicts.length > 0,
+  }
+
+  return { output, dispatch }
+}
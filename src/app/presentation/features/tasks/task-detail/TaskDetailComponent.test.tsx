@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import { TaskDetailComponent } from './TaskDetailComponent'
+import type { TaskDetailOutput } from '../viewmodels/taskDetailViewModel'
+import type { Task } from '@/app/domain/entities/task.model'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+
+const mockTask: Task = {
+  id: '7',
+  title: 'Write report',
+  description: 'Quarterly numbers',
+  status: 'in-progress',
+  priority: 'high',
+  dueDate: new Date('2025-06-30T00:00:00'),
+  assigneeId: '3',
+  projectId: '8',
+  createdAt: new Date('2025-01-15T10:30:00'),
+  updatedAt: new Date('2025-06-20T14:00:00'),
+}
+
+const defaultOutput: TaskDetailOutput = {
+  task: mockTask,
+  assigneeName: 'Jane Doe',
+  projectName: 'Apollo',
+  isLoading: false,
+  isDeleting: false,
+  error: null,
+  successMessage: null,
+  nextStatus: 'review',
+  previousStatus: 'todo',
+  isOverdue: false,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/taskDetailViewModel', () => ({
+  useTaskDetailViewModel: () => ({
+    output: currentOutput,
+    dispatch: mockDispatch,
+  }),
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(ui: React.ReactElement, role: UserRole = 'Admin') {
+  const { service } = createMockAuthService({ ...TEST_USER, role })
+  return render(
+    <MemoryRouter initialEntries={['/tasks/7']}>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(service)}>
+          <AuthProvider>
+            <Routes>
+              <Route path="/tasks/:id" element={ui} />
+            </Routes>
+          </AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </MemoryRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('TaskDetailComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('renders the task title, description, status and priority', () => {
+    renderWithProviders(<TaskDetailComponent />)
+    expect(screen.getByText('Task Details')).toBeInTheDocument()
+    expect(screen.getByText('Write report')).toBeInTheDocument()
+    expect(screen.getByText('Quarterly numbers')).toBeInTheDocument()
+    expect(screen.getByText('In Progress')).toBeInTheDocument()
+    expect(screen.getByText('High')).toBeInTheDocument()
+  })
+
+  it('links the assignee and the project by name', () => {
+    renderWithProviders(<TaskDetailComponent />)
+    expect(screen.getByRole('link', { name: 'Jane Doe' })).toHaveAttribute('href', '/users/3')
+    expect(screen.getByRole('link', { name: 'Apollo' })).toHaveAttribute('href', '/projects/8')
+  })
+
+  it('falls back to IDs until the names arrive', () => {
+    currentOutput = { ...defaultOutput, assigneeName: null, projectName: null }
+    renderWithProviders(<TaskDetailComponent />)
+    expect(screen.getByRole('link', { name: '#3' })).toHaveAttribute('href', '/users/3')
+    expect(screen.getByRole('link', { name: '#8' })).toHaveAttribute('href', '/projects/8')
+  })
+
+  it('shows an unassigned task without a project', () => {
+    currentOutput = { ...defaultOutput, task: { ...mockTask, assigneeId: null, projectId: null } }
+    renderWithProviders(<TaskDetailComponent />)
+    expect(screen.getByText('Unassigned')).toBeInTheDocument()
+    expect(screen.getByText('No project')).toBeInTheDocument()
+  })
+
+  it('renders the overdue badge', () => {
+    currentOutput = { ...defaultOutput, isOverdue: true }
+    renderWithProviders(<TaskDetailComponent />)
+    expect(screen.getByText('Overdue')).toBeInTheDocument()
+  })
+
+  it('renders a loading state', () => {
+    currentOutput = { ...defaultOutput, isLoading: true, task: null }
+    renderWithProviders(<TaskDetailComponent />)
+    expect(screen.getByText('Loading task details...')).toBeInTheDocument()
+  })
+
+  it('renders the error alert', () => {
+    currentOutput = { ...defaultOutput, task: null, error: 'Task not found' }
+    renderWithProviders(<TaskDetailComponent />)
+    expect(screen.getByText('Task not found')).toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches MOVE_TASK for the next and previous workflow steps', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<TaskDetailComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Send to Review/i }))
+    })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'MOVE_TASK', status: 'review' })
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Back to To Do/i }))
+    })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'MOVE_TASK', status: 'todo' })
+  })
+
+  it('dispatches DELETE_TASK after confirm', async () => {
+    const confirmSpy = vi.spyOn(globalThis, 'confirm').mockReturnValue(true)
+    const user = userEvent.setup()
+    renderWithProviders(<TaskDetailComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Delete/i }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'DELETE_TASK' })
+    confirmSpy.mockRestore()
+  })
+
+  it('dispatches NAVIGATE_TO_EDIT when edit is clicked', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<TaskDetailComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Edit Task/i }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'NAVIGATE_TO_EDIT', id: '7' })
+  })
+
+  // --- Permissions ---
+
+  it('shows Guests no workflow, edit or delete actions', () => {
+    renderWithProviders(<TaskDetailComponent />, 'Guest')
+
+    expect(screen.queryByRole('button', { name: /Send to Review/i })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Edit Task/i })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Delete/i })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,315 @@
+// =============================================================================
+// Task Detail Component
+// =============================================================================
+// Presentation layer component that uses TaskDetailViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// =============================================================================
+
+import { useParams, Link } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { Can } from '@shared/components/Can/Can'
+import { useTaskDetailViewModel } from '../viewmodels/taskDetailViewModel'
+import { TASK_PRIORITY_BADGES, TASK_STATUS_BADGES, taskMoveKey, taskPriorityKey, taskStatusKey } from '../taskStatus'
+import type { TaskStatus } from '@/app/domain/entities/task.model'
+
+export function TaskDetailComponent() {
+  const { id } = useParams<{ id: string }>()
+  const { t } = useI18n()
+
+  // Use ViewModel - UDF Input/Output pattern
+  const { output, dispatch } = useTaskDetailViewModel(id || '')
+
+  // ==========================================================================
+  // Helper Functions
+  // ==========================================================================
+
+  const formatDate = (date?: Date) => {
+    if (!date) return 'N/A'
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const formatDueDate = (date: Date | null) => {
+    if (!date) return t('task.detail.no.due.date')
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    })
+  }
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleMove = (status: TaskStatus) => {
+    void dispatch({ type: 'MOVE_TASK', status })
+  }
+
+  const handleDelete = () => {
+    if (output.task && globalThis.confirm(t('task.delete.message', { title: output.task.title }))) {
+      void dispatch({ type: 'DELETE_TASK' })
+    }
+  }
+
+  const handleNavigateToList = () => {
+    void dispatch({ type: 'NAVIGATE_TO_LIST' })
+  }
+
+  const handleNavigateToEdit = () => {
+    if (output.task) {
+      void dispatch({ type: 'NAVIGATE_TO_EDIT', id: output.task.id })
+    }
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  const { previousStatus, nextStatus } = output
+
+  return (
+    <div className="task-detail-page container-fluid py-4">
+      {/* Back Button */}
+      <button
+        className="btn btn-outline-secondary mb-3"
+        onClick={handleNavigateToList}
+      >
+        <i className="bi bi-arrow-left me-2"></i>
+        {t('common.back')}
+      </button>
+
+      {/* Page Header */}
+      <div className="page-header d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h2 className="mb-1">{t('task.detail.title')}</h2>
+          <p className="text-muted mb-0">{t('task.detail.subtitle')}</p>
+        </div>
+      </div>
+
+      {/* Success Alert */}
+      {output.successMessage && (
+        <div className="alert alert-success fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+        </div>
+      )}
+
+      {/* Error Alert */}
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {output.isLoading && (
+        <div className="text-center py-5">
+          <output className="d-block">
+            <div className="spinner-border text-primary">
+              <span className="visually-hidden">{t('common.loading')}</span>
+            </div>
+            <p className="mt-3 text-muted">{t('task.detail.loading')}</p>
+          </output>
+        </div>
+      )}
+
+      {/* Task Detail Card */}
+      {!output.isLoading && output.task && (
+        <div className="row">
+          <div className="col-lg-8">
+            <div className="card">
+              <div className="card-body py-4">
+                <div className="d-flex flex-wrap align-items-center gap-2 mb-2">
+                  <h4 className="mb-0 me-2">{output.task.title}</h4>
+                  <span className={`badge ${TASK_STATUS_BADGES[output.task.status]}`}>
+                    {t(taskStatusKey(output.task.status))}
+                  </span>
+                  <span className={`badge ${TASK_PRIORITY_BADGES[output.task.priority]}`}>
+                    {t(taskPriorityKey(output.task.priority))}
+                  </span>
+                  {output.isOverdue && (
+                    <span className="badge bg-danger">
+                      <i className="bi bi-exclamation-circle me-1"></i>
+                      {t('task.overdue')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-muted mb-0">
+                  {output.task.description || t('task.detail.no.description')}
+                </p>
+
+                {/* Workflow */}
+                <Can permission="task:update">
+                  {(previousStatus || nextStatus) && (
+                    <div className="d-flex flex-wrap gap-2 mt-3">
+                      {previousStatus && (
+                        <button
+                          className="btn btn-sm btn-outline-secondary"
+                          onClick={() => handleMove(previousStatus)}
+                        >
+                          <i className="bi bi-arrow-left-circle me-2"></i>
+                          {t(taskMoveKey(previousStatus))}
+                        </button>
+                      )}
+                      {nextStatus && (
+                        <button
+                          className="btn btn-sm btn-success"
+                          onClick={() => handleMove(nextStatus)}
+                        >
+                          <i className="bi bi-arrow-right-circle me-2"></i>
+                          {t(taskMoveKey(nextStatus))}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </Can>
+
+                <hr className="my-4" />
+
+                {/* Info Grid */}
+                <div className="row">
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-person-check text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('task.detail.assignee')}</small>
+                        <div className="fw-semibold">
+                          {output.task.assigneeId ? (
+                            <Link to={`/users/${output.task.assigneeId}`}>
+                              {output.assigneeName ?? `#${output.task.assigneeId}`}
+                            </Link>
+                          ) : (
+                            <span className="text-muted">{t('task.detail.unassigned')}</span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-folder text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('task.detail.project')}</small>
+                        <div className="fw-semibold">
+                          {output.task.projectId ? (
+                            <Link to={`/projects/${output.task.projectId}`}>
+                              {output.projectName ?? `#${output.task.projectId}`}
+                            </Link>
+                          ) : (
+                            <span className="text-muted">{t('task.detail.no.project')}</span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-calendar-event text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('task.detail.due.date')}</small>
+                        <div className={`fw-semibold ${output.isOverdue ? 'text-danger' : ''}`}>
+                          {formatDueDate(output.task.dueDate)}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-hash text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('task.detail.task.id')}</small>
+                        <div className="fw-semibold">#{output.task.id}</div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-calendar-plus text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('task.detail.created.at')}</small>
+                        <div className="fw-semibold">{formatDate(output.task.createdAt)}</div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="col-md-6 mb-3">
+                    <div className="d-flex align-items-center">
+                      <i className="bi bi-calendar-check text-primary me-3" style={{ fontSize: '1.25rem' }}></i>
+                      <div>
+                        <small className="text-muted">{t('task.detail.updated.at')}</small>
+                        <div className="fw-semibold">{formatDate(output.task.updatedAt)}</div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+              <div className="card-footer bg-white d-flex justify-content-between">
+                <Link to="/tasks" className="btn btn-outline-secondary">
+                  <i className="bi bi-arrow-left me-2"></i>
+                  {t('task.detail.back.to.list')}
+                </Link>
+                <div className="btn-group">
+                  <Can permission="task:delete">
+                    <button
+                      className="btn btn-outline-danger"
+                      onClick={handleDelete}
+                      disabled={output.isDeleting}
+                    >
+                      {output.isDeleting ? (
+                        <>
+                          <output className="spinner-border spinner-border-sm me-2"></output>
+                          {t('task.detail.deleting')}
+                        </>
+                      ) : (
+                        <>
+                          <i className="bi bi-trash me-2"></i>
+                          {t('common.delete')}
+                        </>
+                      )}
+                    </button>
+                  </Can>
+                  <Can permission="task:update">
+                    <button
+                      className="btn btn-primary"
+                      onClick={handleNavigateToEdit}
+                    >
+                      <i className="bi bi-pencil me-2"></i>
+                      {t('task.detail.edit.task')}
+                    </button>
+                  </Can>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Info Card */}
+          <div className="col-lg-4 mt-4 mt-lg-0">
+            <div className="card bg-light">
+              <div className="card-body">
+                <h6 className="card-title">
+                  <i className="bi bi-info-circle me-2 text-primary"></i>
+                  {t('task.detail.information')}
+                </h6>
+                <p className="card-text text-muted small">
+                  {t('task.detail.information.description')}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createTestContainer } from '@/test/mocks/authService'
+import { TaskFormComponent } from './TaskFormComponent'
+import type { TaskFormOutput } from '../viewmodels/taskFormViewModel'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+const mockUseViewModel = vi.fn()
+
+const defaultOutput: TaskFormOutput = {
+  title: '',
+  description: '',
+  status: 'todo',
+  priority: 'normal',
+  dueDate: '',
+  assigneeId: '1',
+  projectId: '',
+  userOptions: [
+    { id: '1', name: 'John Doe' },
+    { id: '2', name: 'Jane Doe' },
+  ],
+  projectOptions: [{ id: '8', name: 'Apollo' }],
+  statusOptions: ['todo', 'in-progress', 'review', 'done'],
+  isEditMode: false,
+  isLoading: false,
+  isSubmitting: false,
+  isDirty: false,
+  errors: {},
+  submitError: null,
+  successMessage: null,
+  isValid: false,
+  hasErrors: false,
+}
+
+let currentOutput = { ...defaultOutput }
+
+vi.mock('../viewmodels/taskFormViewModel', () => ({
+  useTaskFormViewModel: (...args: unknown[]) => {
+    mockUseViewModel(...args)
+    return { output: currentOutput, dispatch: mockDispatch }
+  },
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(ui: React.ReactElement, { route = '/tasks/new' } = {}) {
+  return render(
+    <MemoryRouter initialEntries={[route]}>
+      <I18nProvider>
+        <DIProvider container={createTestContainer()}>
+          <AuthProvider>
+            <Routes>
+              <Route path="/tasks/new" element={ui} />
+              <Route path="/tasks/:id/edit" element={ui} />
+            </Routes>
+          </AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </MemoryRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('TaskFormComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('renders create mode with the signed-in user as default assignee', () => {
+    renderWithProviders(<TaskFormComponent />)
+    expect(screen.getByRole('heading', { name: 'Create Task' })).toBeInTheDocument()
+    expect(mockUseViewModel).toHaveBeenCalledWith(undefined, TEST_USER.id)
+  })
+
+  it('renders edit mode for the task in the route', () => {
+    currentOutput = { ...defaultOutput, isEditMode: true }
+    renderWithProviders(<TaskFormComponent />, { route: '/tasks/7/edit' })
+    expect(screen.getByRole('heading', { name: 'Edit Task' })).toBeInTheDocument()
+    expect(mockUseViewModel).toHaveBeenCalledWith('7', TEST_USER.id)
+  })
+
+  it('renders all form fields', () => {
+    renderWithProviders(<TaskFormComponent />)
+    expect(screen.getByLabelText(/Title/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Description/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Status/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Priority/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Due Date/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Assignee/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Project/)).toBeInTheDocument()
+  })
+
+  it('offers only the statuses the workflow allows', () => {
+    currentOutput = { ...defaultOutput, isEditMode: true, statusOptions: ['todo', 'in-progress'] }
+    renderWithProviders(<TaskFormComponent />, { route: '/tasks/7/edit' })
+    expect(screen.getByRole('option', { name: 'In Progress' })).toBeInTheDocument()
+    expect(screen.queryByRole('option', { name: 'Done' })).not.toBeInTheDocument()
+  })
+
+  it('lists users and projects with an empty choice for each', () => {
+    renderWithProviders(<TaskFormComponent />)
+    expect(screen.getByRole('option', { name: 'Jane Doe' })).toBeInTheDocument()
+    expect(screen.getByRole('option', { name: 'Apollo' })).toBeInTheDocument()
+    expect(screen.getByRole('option', { name: 'Unassigned' })).toBeInTheDocument()
+    expect(screen.getByRole('option', { name: 'No project' })).toBeInTheDocument()
+  })
+
+  it('renders field errors', () => {
+    currentOutput = { ...defaultOutput, errors: { status: 'A task cannot move from todo to done' } }
+    renderWithProviders(<TaskFormComponent />)
+    expect(screen.getByText('A task cannot move from todo to done')).toBeInTheDocument()
+  })
+
+  it('renders the submit error alert', () => {
+    currentOutput = { ...defaultOutput, submitError: 'Task not found' }
+    renderWithProviders(<TaskFormComponent />)
+    expect(screen.getByText('Task not found')).toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches SET_FIELD when the project changes', () => {
+    renderWithProviders(<TaskFormComponent />)
+    fireEvent.change(screen.getByLabelText(/Project/), { target: { value: '8' } })
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_FIELD', field: 'projectId', value: '8' })
+  })
+
+  it('dispatches VALIDATE_FIELD on blur', () => {
+    renderWithProviders(<TaskFormComponent />)
+    fireEvent.blur(screen.getByLabelText(/Title/))
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'VALIDATE_FIELD', field: 'title' })
+  })
+
+  it('dispatches SUBMIT when the form is valid', async () => {
+    currentOutput = { ...defaultOutput, title: 'Write report', isValid: true, isDirty: true }
+    const user = userEvent.setup()
+    renderWithProviders(<TaskFormComponent />)
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /Create Task/i }))
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SUBMIT' })
+  })
+
+  it('disables submit while the form is invalid', () => {
+    renderWithProviders(<TaskFormComponent />)
+    expect(screen.getByRole('button', { name: /Create Task/i })).toBeDisabled()
+  })
+})
@@ -0,0 +1,357 @@
+// =============================================================================
+// Task Form Component
+// =============================================================================
+// Presentation layer component that uses TaskFormViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// =============================================================================
+
+import { useParams, Link } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { useAuth } from '@core/providers/AuthProvider'
+import { useTaskFormViewModel, type TaskFormField } from '../viewmodels/taskFormViewModel'
+import { TASK_PRIORITIES, taskPriorityKey, taskStatusKey } from '../taskStatus'
+import type { TaskValidationErrors } from '@/app/domain/entities/task.model'
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+
+const VALIDATED_FIELDS: readonly string[] = ['title', 'description', 'status', 'priority', 'dueDate']
+
+export function TaskFormComponent() {
+  const { id } = useParams<{ id: string }>()
+  const { t } = useI18n()
+  const { currentUser } = useAuth()
+
+  // Use ViewModel - UDF Input/Output pattern (new tasks go to the signed-in user)
+  const { output, dispatch } = useTaskFormViewModel(id, currentUser?.id)
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleChange = (e: React.ChangeEvent<FieldElement>) => {
+    const { name, value } = e.target
+    void dispatch({ type: 'SET_FIELD', field: name as TaskFormField, value })
+  }
+
+  const handleBlur = (e: React.FocusEvent<FieldElement>) => {
+    const { name } = e.target
+    if (VALIDATED_FIELDS.includes(name)) {
+      void dispatch({ type: 'VALIDATE_FIELD', field: name as keyof TaskValidationErrors })
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    void dispatch({ type: 'SUBMIT' })
+  }
+
+  const handleReset = () => {
+    void dispatch({ type: 'RESET' })
+  }
+
+  const handleNavigateToList = () => {
+    void dispatch({ type: 'NAVIGATE_TO_LIST' })
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  const assigneeMissing = !!output.assigneeId && !output.userOptions.some((user) => user.id === output.assigneeId)
+  const projectMissing = !!output.projectId && !output.projectOptions.some((project) => project.id === output.projectId)
+
+  return (
+    <div className="task-form-page container-fluid py-4">
+      {/* Back Button */}
+      <button
+        className="btn btn-outline-secondary mb-3"
+        onClick={handleNavigateToList}
+      >
+        <i className="bi bi-arrow-left me-2"></i>
+        {t('common.back')}
+      </button>
+
+      {/* Page Header */}
+      <div className="page-header mb-4">
+        <h2 className="mb-1">
+          {output.isEditMode ? t('task.form.edit.title') : t('task.form.create.title')}
+        </h2>
+        <p className="text-muted mb-0">
+          {output.isEditMode ? t('task.form.edit.subtitle') : t('task.form.create.subtitle')}
+        </p>
+      </div>
+
+      {/* Success Alert */}
+      {output.successMessage && (
+        <div className="alert alert-success fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+        </div>
+      )}
+
+      {/* API Error Alert */}
+      {output.submitError && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.submitError}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {output.isLoading && (
+        <div className="text-center py-5">
+          <output className="d-block">
+            <div className="spinner-border text-primary">
+              <span className="visually-hidden">{t('common.loading')}</span>
+            </div>
+            <p className="mt-3 text-muted">{t('task.form.loading')}</p>
+          </output>
+        </div>
+      )}
+
+      {/* Form */}
+      {!output.isLoading && (
+        <div className="row">
+          <div className="col-lg-8">
+            <div className="card">
+              <div className="card-body">
+                <form onSubmit={handleSubmit} noValidate>
+                  {/* Title */}
+                  <div className="mb-3">
+                    <label htmlFor="title" className="form-label">
+                      {t('task.form.field.title')} <span className="text-danger">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      id="title"
+                      name="title"
+                      className={`form-control ${output.errors.title ? 'is-invalid' : ''}`}
+                      placeholder={t('task.form.placeholder.title')}
+                      value={output.title}
+                      onChange={handleChange}
+                      onBlur={handleBlur}
+                      disabled={output.isSubmitting}
+                    />
+                    {output.errors.title && (
+                      <div className="invalid-feedback">{output.errors.title}</div>
+                    )}
+                  </div>
+
+                  {/* Description */}
+                  <div className="mb-3">
+                    <label htmlFor="description" className="form-label">
+                      {t('task.form.field.description')}
+                      <span className="text-muted ms-1">({t('task.form.optional')})</span>
+                    </label>
+                    <textarea
+                      id="description"
+                      name="description"
+                      rows={4}
+                      className={`form-control ${output.errors.description ? 'is-invalid' : ''}`}
+                      placeholder={t('task.form.placeholder.description')}
+                      value={output.description}
+                      onChange={handleChange}
+                      onBlur={handleBlur}
+                      disabled={output.isSubmitting}
+                    />
+                    {output.errors.description && (
+                      <div className="invalid-feedback">{output.errors.description}</div>
+                    )}
+                  </div>
+
+                  <div className="row">
+                    {/* Status */}
+                    <div className="col-md-4 mb-3">
+                      <label htmlFor="status" className="form-label">
+                        {t('task.form.field.status')}
+                      </label>
+                      <select
+                        id="status"
+                        name="status"
+                        className={`form-select ${output.errors.status ? 'is-invalid' : ''}`}
+                        value={output.status}
+                        onChange={handleChange}
+                        onBlur={handleBlur}
+                        disabled={output.isSubmitting}
+                      >
+                        {output.statusOptions.map((status) => (
+                          <option key={status} value={status}>
+                            {t(taskStatusKey(status))}
+                          </option>
+                        ))}
+                      </select>
+                      {output.errors.status && (
+                        <div className="invalid-feedback">{output.errors.status}</div>
+                      )}
+                    </div>
+
+                    {/* Priority */}
+                    <div className="col-md-4 mb-3">
+                      <label htmlFor="priority" className="form-label">
+                        {t('task.form.field.priority')}
+                      </label>
+                      <select
+                        id="priority"
+                        name="priority"
+                        className={`form-select ${output.errors.priority ? 'is-invalid' : ''}`}
+                        value={output.priority}
+                        onChange={handleChange}
+                        onBlur={handleBlur}
+                        disabled={output.isSubmitting}
+                      >
+                        {TASK_PRIORITIES.map((priority) => (
+                          <option key={priority} value={priority}>
+                            {t(taskPriorityKey(priority))}
+                          </option>
+                        ))}
+                      </select>
+                      {output.errors.priority && (
+                        <div className="invalid-feedback">{output.errors.priority}</div>
+                      )}
+                    </div>
+
+                    {/* Due Date */}
+                    <div className="col-md-4 mb-3">
+                      <label htmlFor="dueDate" className="form-label">
+                        {t('task.form.field.due.date')}
+                        <span className="text-muted ms-1">({t('task.form.optional')})</span>
+                      </label>
+                      <input
+                        type="date"
+                        id="dueDate"
+                        name="dueDate"
+                        className={`form-control ${output.errors.dueDate ? 'is-invalid' : ''}`}
+                        value={output.dueDate}
+                        onChange={handleChange}
+                        onBlur={handleBlur}
+                        disabled={output.isSubmitting}
+                      />
+                      {output.errors.dueDate && (
+                        <div className="invalid-feedback">{output.errors.dueDate}</div>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="row mb-2">
+                    {/* Assignee */}
+                    <div className="col-md-6 mb-3">
+                      <label htmlFor="assigneeId" className="form-label">
+                        {t('task.form.field.assignee')}
+                      </label>
+                      <select
+                        id="assigneeId"
+                        name="assigneeId"
+                        className="form-select"
+                        value={output.assigneeId}
+                        onChange={handleChange}
+                        disabled={output.isSubmitting}
+                      >
+                        <option value="">{t('task.form.placeholder.assignee')}</option>
+                        {assigneeMissing && <option value={output.assigneeId}>#{output.assigneeId}</option>}
+                        {output.userOptions.map((user) => (
+                          <option key={user.id} value={user.id}>
+                            {user.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {/* Project */}
+                    <div className="col-md-6 mb-3">
+                      <label htmlFor="projectId" className="form-label">
+                        {t('task.form.field.project')}
+                      </label>
+                      <select
+                        id="projectId"
+                        name="projectId"
+                        className="form-select"
+                        value={output.projectId}
+                        onChange={handleChange}
+                        disabled={output.isSubmitting}
+                      >
+                        <option value="">{t('task.form.placeholder.project')}</option>
+                        {projectMissing && <option value={output.projectId}>#{output.projectId}</option>}
+                        {output.projectOptions.map((project) => (
+                          <option key={project.id} value={project.id}>
+                            {project.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {/* Form Actions */}
+                  <div className="d-flex justify-content-between">
+                    <button
+                      type="button"
+                      className="btn btn-outline-secondary"
+                      onClick={handleReset}
+                      disabled={output.isSubmitting || !output.isDirty}
+                    >
+                      <i className="bi bi-arrow-counterclockwise me-2"></i>
+                      {t('common.reset')}
+                    </button>
+                    <div className="d-flex gap-2">
+                      <Link to="/tasks" className="btn btn-outline-secondary">
+                        {t('common.cancel')}
+                      </Link>
+                      <button
+                        type="submit"
+                        className="btn btn-primary"
+                        disabled={output.isSubmitting || !output.isValid}
+                      >
+                        {output.isSubmitting ? (
+                          <>
+                            <span className="spinner-border spinner-border-sm me-2"></span>
+                            {t('task.form.button.saving')}
+                          </>
+                        ) : (
+                          <>
+                            <i className="bi bi-check-lg me-2"></i>
+                            {output.isEditMode ? t('task.form.button.update') : t('task.form.button.create')}
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+
+          {/* Help Card */}
+          <div className="col-lg-4 mt-4 mt-lg-0">
+            <div className="card bg-light">
+              <div className="card-body">
+                <h6 className="card-title">
+                  <i className="bi bi-question-circle me-2 text-primary"></i>
+                  {t('task.form.help.title')}
+                </h6>
+                <ul className="list-unstyled small text-muted mb-0">
+                  <li className="mb-2">
+                    <i className="bi bi-check text-success me-2"></i>
+                    {t('task.form.help.title.length')}
+                  </li>
+                  <li className="mb-2">
+                    <i className="bi bi-check text-success me-2"></i>
+                    {t('task.form.help.workflow')}
+                  </li>
+                  <li>
+                    <i className="bi bi-check text-success me-2"></i>
+                    {t('task.form.help.links')}
+                  </li>
+                </ul>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
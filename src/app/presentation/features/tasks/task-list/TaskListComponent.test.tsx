@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BrowserRouter } from 'react-router-dom'
+import { I18nProvider } from '@core/providers/I18nProvider'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import { TaskListComponent } from './TaskListComponent'
+import type { TaskListOutput } from '../viewmodels/taskListViewModel'
+import type { Task } from '@/app/domain/entities/task.model'
+
+// ---------------------------------------------------------------------------
+// Mock the ViewModel
+// ---------------------------------------------------------------------------
+
+const mockDispatch = vi.fn().mockResolvedValue(undefined)
+
+const mockTasks: Task[] = [
+  {
+    id: '1',
+    title: 'Write report',
+    description: 'Quarterly numbers',
+    status: 'todo',
+    priority: 'high',
+    dueDate: new Date('2020-01-01'),
+    assigneeId: '1',
+    projectId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+  {
+    id: '2',
+    title: 'Ship release',
+    description: '',
+    status: 'done',
+    priority: 'low',
+    dueDate: null,
+    assigneeId: '1',
+    projectId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+]
+
+const defaultOutput: TaskListOutput = {
+  tasks: mockTasks,
+  view: 'my',
+  totalPages: 1,
+  totalItems: 2,
+  currentPage: 1,
+  pageSize: 10,
+  searchQuery: '',
+  isLoading: false,
+  isRefreshing: false,
+  error: null,
+  successMessage: null,
+  isOnline: true,
+  filteredTasks: mockTasks,
+  startItem: 1,
+  endItem: 2,
+}
+
+let currentOutput = { ...defaultOutput }
+
+const mockUseTaskListViewModel = vi.fn()
+vi.mock('../viewmodels/taskListViewModel', () => ({
+  useTaskListViewModel: (...args: unknown[]) => {
+    mockUseTaskListViewModel(...args)
+    return { output: currentOutput, dispatch: mockDispatch }
+  },
+}))
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function renderWithProviders(ui: React.ReactElement, role: UserRole = 'Admin') {
+  const { service } = createMockAuthService({ ...TEST_USER, role })
+  return render(
+    <BrowserRouter>
+      <I18nProvider>
+        <DIProvider container={createTestContainer(service)}>
+          <AuthProvider>{ui}</AuthProvider>
+        </DIProvider>
+      </I18nProvider>
+    </BrowserRouter>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('TaskListComponent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    currentOutput = { ...defaultOutput }
+    localStorage.getItem = vi.fn().mockReturnValue(null)
+    localStorage.setItem = vi.fn()
+  })
+
+  // --- Rendering ---
+
+  it('renders the My Tasks title and create link', () => {
+    renderWithProviders(<TaskListComponent view="my" />)
+    expect(screen.getByText('My Tasks')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: /Create Task/i })).toHaveAttribute('href', '/tasks/new')
+  })
+
+  it('renders the title of the view it was given', () => {
+    currentOutput = { ...defaultOutput, view: 'important' }
+    renderWithProviders(<TaskListComponent view="important" />)
+    expect(screen.getByText('Important Tasks')).toBeInTheDocument()
+    expect(mockUseTaskListViewModel).toHaveBeenCalledWith('important', expect.anything())
+  })
+
+  it('renders titles, status and priority badges', () => {
+    renderWithProviders(<TaskListComponent />)
+    expect(screen.getAllByText('Write report').length).toBeGreaterThan(0)
+    expect(screen.getAllByText('To Do').length).toBeGreaterThan(0)
+    expect(screen.getAllByText('Done').length).toBeGreaterThan(0)
+    expect(screen.getAllByText('High').length).toBeGreaterThan(0)
+    expect(screen.getAllByText('No due date').length).toBeGreaterThan(0)
+  })
+
+  it('marks overdue tasks', () => {
+    renderWithProviders(<TaskListComponent />)
+    expect(screen.getAllByTitle('Overdue').length).toBeGreaterThan(0)
+  })
+
+  it('renders the empty state of the view', () => {
+    currentOutput = { ...defaultOutput, tasks: [], filteredTasks: [], totalItems: 0 }
+    renderWithProviders(<TaskListComponent />)
+    expect(screen.getByText('No tasks found')).toBeInTheDocument()
+    expect(screen.getByText('Nothing is assigned to you right now')).toBeInTheDocument()
+  })
+
+  it('renders the error alert', () => {
+    currentOutput = { ...defaultOutput, error: 'Failed to load tasks' }
+    renderWithProviders(<TaskListComponent />)
+    expect(screen.getByText('Failed to load tasks')).toBeInTheDocument()
+  })
+
+  // --- Interactions ---
+
+  it('dispatches MOVE_TASK with the next workflow status', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<TaskListComponent />)
+
+    await act(async () => {
+      await user.click(screen.getAllByTitle('Start Work')[0])
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'MOVE_TASK', task: mockTasks[0], status: 'in-progress' })
+  })
+
+  it('offers no move for a finished task', () => {
+    currentOutput = { ...defaultOutput, filteredTasks: [mockTasks[1]] }
+    renderWithProviders(<TaskListComponent />)
+    expect(screen.queryAllByTitle(/Start Work|Send to Review|Mark Done/)).toHaveLength(0)
+  })
+
+  it('dispatches DELETE_TASK after confirm', async () => {
+    const confirmSpy = vi.spyOn(globalThis, 'confirm').mockReturnValue(true)
+    const user = userEvent.setup()
+    renderWithProviders(<TaskListComponent />)
+
+    await act(async () => {
+      await user.click(screen.getAllByTitle('Delete')[0])
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'DELETE_TASK', task: mockTasks[0] })
+    confirmSpy.mockRestore()
+  })
+
+  it('does not dispatch DELETE_TASK when confirm is cancelled', async () => {
+    const confirmSpy = vi.spyOn(globalThis, 'confirm').mockReturnValue(false)
+    const user = userEvent.setup()
+    renderWithProviders(<TaskListComponent />)
+
+    await act(async () => {
+      await user.click(screen.getAllByTitle('Delete')[0])
+    })
+
+    expect(confirmSpy).toHaveBeenCalled()
+    expect(mockDispatch).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'DELETE_TASK' }))
+    confirmSpy.mockRestore()
+  })
+
+  it('dispatches SET_SEARCH_QUERY on search input change', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<TaskListComponent />)
+
+    await act(async () => {
+      await user.type(screen.getByPlaceholderText('Search by title or description...'), 'a')
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_SEARCH_QUERY', query: 'a' })
+  })
+
+  it('dispatches NAVIGATE_TO_DETAIL when view button is clicked', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<TaskListComponent />)
+
+    await act(async () => {
+      await user.click(screen.getAllByTitle('View')[0])
+    })
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'NAVIGATE_TO_DETAIL', id: '1' })
+  })
+
+  // --- Permissions ---
+
+  it('hides Delete from roles without task:delete', () => {
+    renderWithProviders(<TaskListComponent />, 'User')
+
+    expect(screen.queryAllByTitle('Delete')).toHaveLength(0)
+    expect(screen.getAllByTitle('Start Work').length).toBeGreaterThan(0)
+  })
+
+  it('shows Guests a read-only list', () => {
+    renderWithProviders(<TaskListComponent />, 'Guest')
+
+    expect(screen.queryByRole('link', { name: /Create Task/i })).not.toBeInTheDocument()
+    expect(screen.queryAllByTitle('Edit')).toHaveLength(0)
+    expect(screen.queryAllByTitle('Start Work')).toHaveLength(0)
+    expect(screen.getAllByTitle('View').length).toBeGreaterThan(0)
+  })
+})
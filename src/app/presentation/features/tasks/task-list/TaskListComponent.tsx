@@ -0,0 +1,399 @@
+// =============================================================================
+// Task List Component
+// =============================================================================
+// Presentation layer component that uses TaskListViewModel for all business logic.
+// This component only handles UI rendering - no direct API calls.
+// Follows UDF pattern: dispatch Input actions, render from Output state.
+// Renders the My, Recent or Important view picked by `view`.
+// =============================================================================
+
+import { Link } from 'react-router-dom'
+import { useI18n } from '@core/providers/I18nProvider'
+import { useAuth } from '@core/providers/AuthProvider'
+import { Can } from '@shared/components/Can/Can'
+import { useTaskListViewModel, type TaskListView } from '../viewmodels/taskListViewModel'
+import {
+  TASK_PRIORITY_BADGES,
+  TASK_STATUS_BADGES,
+  isTaskOverdue,
+  nextTaskStatus,
+  taskMoveKey,
+  taskPriorityKey,
+  taskStatusKey,
+} from '../taskStatus'
+import type { Task } from '@/app/domain/entities/task.model'
+import './TaskListComponent.scss'
+
+interface TaskListComponentProps {
+  view?: TaskListView
+}
+
+const VIEW_ICONS: Readonly<Record<TaskListView, string>> = {
+  my: 'bi-person-check',
+  recent: 'bi-clock-history',
+  important: 'bi-star',
+}
+
+export function TaskListComponent({ view = 'my' }: Readonly<TaskListComponentProps>) {
+  const { t } = useI18n()
+  const { currentUser } = useAuth()
+
+  // Use ViewModel - UDF Input/Output pattern (My Tasks are the signed-in user's)
+  const { output, dispatch } = useTaskListViewModel(view, currentUser?.id)
+
+  // ==========================================================================
+  // Event Handlers - dispatch Input actions
+  // ==========================================================================
+
+  const handleRefresh = () => {
+    void dispatch({ type: 'REFRESH_TASKS' })
+  }
+
+  const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
+    void dispatch({ type: 'SET_SEARCH_QUERY', query: e.target.value })
+  }
+
+  const handleClearSearch = () => {
+    void dispatch({ type: 'CLEAR_SEARCH' })
+  }
+
+  const handlePageChange = (page: number) => {
+    void dispatch({ type: 'CHANGE_PAGE', page })
+  }
+
+  const handleViewTask = (task: Task) => {
+    void dispatch({ type: 'NAVIGATE_TO_DETAIL', id: task.id })
+  }
+
+  const handleEditTask = (task: Task) => {
+    void dispatch({ type: 'NAVIGATE_TO_EDIT', id: task.id })
+  }
+
+  const handleMoveTask = (task: Task) => {
+    const status = nextTaskStatus(task.status)
+    if (status) {
+      void dispatch({ type: 'MOVE_TASK', task, status })
+    }
+  }
+
+  const handleDeleteTask = (task: Task) => {
+    if (globalThis.confirm(t('task.delete.message', { title: task.title }))) {
+      void dispatch({ type: 'DELETE_TASK', task })
+    }
+  }
+
+  const handleDismissError = () => {
+    void dispatch({ type: 'DISMISS_ERROR' })
+  }
+
+  const handleDismissSuccess = () => {
+    void dispatch({ type: 'DISMISS_SUCCESS' })
+  }
+
+  // ==========================================================================
+  // Helper Functions
+  // ==========================================================================
+
+  const formatDate = (date: Date) => new Date(date).toLocaleDateString()
+
+  const renderStatus = (task: Task) => (
+    <span className={`badge ${TASK_STATUS_BADGES[task.status]}`}>{t(taskStatusKey(task.status))}</span>
+  )
+
+  const renderPriority = (task: Task) => (
+    <span className={`badge ${TASK_PRIORITY_BADGES[task.priority]}`}>{t(taskPriorityKey(task.priority))}</span>
+  )
+
+  const renderDueDate = (task: Task) => {
+    if (!task.dueDate) return <span className="text-muted">{t('task.list.no.due.date')}</span>
+    return isTaskOverdue(task) ? (
+      <span className="text-danger" title={t('task.overdue')}>
+        <i className="bi bi-exclamation-circle me-1"></i>
+        {formatDate(task.dueDate)}
+      </span>
+    ) : (
+      <span>{formatDate(task.dueDate)}</span>
+    )
+  }
+
+  const renderActions = (task: Task, className: string) => {
+    const next = nextTaskStatus(task.status)
+    return (
+      <>
+        {next && (
+          <Can permission="task:update">
+            <button
+              className={`btn btn-outline-success ${className}`}
+              onClick={() => handleMoveTask(task)}
+              title={t(taskMoveKey(next))}
+            >
+              <i className="bi bi-arrow-right-circle"></i>
+            </button>
+          </Can>
+        )}
+        <Can permission="task:update">
+          <button
+            className={`btn btn-outline-secondary ${className}`}
+            onClick={() => handleEditTask(task)}
+            title={t('common.edit')}
+          >
+            <i className="bi bi-pencil"></i>
+          </button>
+        </Can>
+        <Can permission="task:delete">
+          <button
+            className={`btn btn-outline-danger ${className}`}
+            onClick={() => handleDeleteTask(task)}
+            title={t('common.delete')}
+          >
+            <i className="bi bi-trash"></i>
+          </button>
+        </Can>
+      </>
+    )
+  }
+
+  // ==========================================================================
+  // Render - driven by Output state
+  // ==========================================================================
+
+  return (
+    <div className="task-list-page container-fluid py-4">
+      {/* Page Header */}
+      <div className="page-header d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h2 className="mb-1">{t(`task.list.${output.view}.title`)}</h2>
+          <p className="text-muted mb-0">{t(`task.list.${output.view}.subtitle`)}</p>
+        </div>
+        <Can permission="task:create">
+          <Link to="/tasks/new" className="btn btn-primary">
+            <i className="bi bi-plus-lg me-2"></i>
+            {t('task.list.create')}
+          </Link>
+        </Can>
+      </div>
+
+      {/* Alerts */}
+      {output.successMessage && (
+        <div className="alert alert-success alert-dismissible fade show" role="alert">
+          <i className="bi bi-check-circle me-2"></i>
+          {output.successMessage}
+          <button type="button" className="btn-close" onClick={handleDismissSuccess}></button>
+        </div>
+      )}
+
+      {output.error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          <i className="bi bi-exclamation-triangle me-2"></i>
+          {output.error}
+          <button type="button" className="btn-close" onClick={handleDismissError}></button>
+        </div>
+      )}
+
+      {/* Search Bar */}
+      <div className="card mb-4">
+        <div className="card-body">
+          <div className="row align-items-center">
+            <div className="col-md-8">
+              <div className="search-box position-relative">
+                <i className="bi bi-search search-icon"></i>
+                <input
+                  type="text"
+                  className="form-control search-input"
+                  placeholder={t('task.list.search.placeholder')}
+                  value={output.searchQuery}
+                  onChange={handleSearch}
+                />
+                {output.searchQuery && (
+                  <button
+                    type="button"
+                    className="btn btn-link clear-search"
+                    onClick={handleClearSearch}
+                  >
+                    <i className="bi bi-x-lg"></i>
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="col-md-4 text-md-end mt-3 mt-md-0">
+              <button
+                className="btn btn-outline-secondary"
+                onClick={handleRefresh}
+                disabled={output.isRefreshing}
+              >
+                <i className={`bi bi-arrow-clockwise ${output.isRefreshing ? 'spin' : ''}`}></i>
+                <span className="ms-2">{t('common.refresh')}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {output.isLoading && (
+        <div className="text-center py-5">
+          <output className="d-block">
+            <div className="spinner-border text-primary">
+              <span className="visually-hidden">{t('common.loading')}</span>
+            </div>
+            <p className="mt-3 text-muted">{t('common.loading')}</p>
+          </output>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!output.isLoading && output.filteredTasks.length === 0 && (
+        <div className="card">
+          <div className="card-body text-center py-5">
+            <i className={`bi ${VIEW_ICONS[output.view]} display-1 text-muted opacity-50`}></i>
+            <h4 className="mt-3 text-muted">{t('task.list.no.results')}</h4>
+            <p className="text-muted">
+              {output.searchQuery ? t('task.list.empty.search') : t(`task.list.${output.view}.empty`)}
+            </p>
+            {!output.searchQuery && (
+              <Can permission="task:create">
+                <Link to="/tasks/new" className="btn btn-primary mt-3">
+                  <i className="bi bi-plus-lg me-2"></i>
+                  {t('task.list.create')}
+                </Link>
+              </Can>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Task Table - Desktop */}
+      {!output.isLoading && output.filteredTasks.length > 0 && (
+        <>
+          <div className="card d-none d-md-block">
+            <div className="table-responsive">
+              <table className="table table-hover mb-0">
+                <thead>
+                  <tr>
+                    <th>{t('table.title')}</th>
+                    <th>{t('table.status')}</th>
+                    <th>{t('table.priority')}</th>
+                    <th>{t('table.due')}</th>
+                    <th className="text-end">{t('table.actions')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {output.filteredTasks.map(task => (
+                    <tr
+                      key={task.id}
+                      className="task-row"
+                      tabIndex={0}
+                      onClick={() => handleViewTask(task)}
+                      onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); handleViewTask(task) } }}
+                      style={{ cursor: 'pointer' }}
+                    >
+                      <td>
+                        <strong>{task.title}</strong>
+                        {task.description && (
+                          <div className="task-description small text-muted text-truncate">
+                            {task.description}
+                          </div>
+                        )}
+                      </td>
+                      <td>{renderStatus(task)}</td>
+                      <td>{renderPriority(task)}</td>
+                      <td>{renderDueDate(task)}</td>
+                      <td className="text-end" onClick={(e) => e.stopPropagation()}>
+                        <div className="btn-group btn-group-sm">
+                          <button
+                            className="btn btn-outline-primary"
+                            onClick={() => handleViewTask(task)}
+                            title={t('common.view')}
+                          >
+                            <i className="bi bi-eye"></i>
+                          </button>
+                          {renderActions(task, '')}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Task Cards - Mobile */}
+          <div className="d-md-none">
+            {output.filteredTasks.map(task => (
+              <div
+                key={task.id}
+                className="card mb-3 task-card"
+              >
+                <div className="card-body">
+                  <button
+                    type="button"
+                    className="d-block w-100 border-0 bg-transparent p-0 text-start"
+                    style={{ cursor: 'pointer' }}
+                    onClick={() => handleViewTask(task)}
+                  >
+                    <div className="d-flex justify-content-between align-items-start gap-2">
+                      <h6 className="mb-1">{task.title}</h6>
+                      {renderStatus(task)}
+                    </div>
+                    <small className="d-flex gap-2 align-items-center">
+                      {renderPriority(task)}
+                      {renderDueDate(task)}
+                    </small>
+                  </button>
+                  <div className="mt-3 d-flex gap-2" role="toolbar" aria-label={t('table.actions')}>
+                    <button
+                      className="btn btn-outline-primary btn-sm flex-fill"
+                      onClick={() => handleViewTask(task)}
+                    >
+                      <i className="bi bi-eye me-1"></i>{t('common.view')}
+                    </button>
+                    {renderActions(task, 'btn-sm')}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <div className="d-flex justify-content-between align-items-center mt-4">
+            <span className="text-muted">
+              {t('task.list.showing', { start: output.startItem, end: output.endItem, total: output.totalItems })}
+            </span>
+            <nav>
+              <ul className="pagination mb-0">
+                <li className={`page-item ${output.currentPage === 1 ? 'disabled' : ''}`}>
+                  <button
+                    className="page-link"
+                    onClick={() => handlePageChange(output.currentPage - 1)}
+                    disabled={output.currentPage === 1}
+                  >
+                    <i className="bi bi-chevron-left"></i>
+                  </button>
+                </li>
+                {Array.from({ length: output.totalPages }, (_, i) => i + 1).map(page => (
+                  <li key={page} className={`page-item ${page === output.currentPage ? 'active' : ''}`}>
+                    <button
+                      className="page-link"
+                      onClick={() => handlePageChange(page)}
+                    >
+                      {page}
+                    </button>
+                  </li>
+                ))}
+                <li className={`page-item ${output.currentPage === output.totalPages ? 'disabled' : ''}`}>
+                  <button
+                    className="page-link"
+                    onClick={() => handlePageChange(output.currentPage + 1)}
+                    disabled={output.currentPage === output.totalPages}
+                  >
+                    <i className="bi bi-chevron-right"></i>
+                  </button>
+                </li>
+              </ul>
+            </nav>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
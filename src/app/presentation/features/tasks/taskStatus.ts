@@ -0,0 +1,84 @@
+// =============================================================================
+// Task Status Presentation
+// =============================================================================
+
+import {
+  TaskStatus,
+  TaskPriority,
+  TASK_TRANSITIONS,
+  TASK_WORKFLOW,
+  type Task,
+} from '@/app/domain/entities/task.model'
+
+/**
+ * Bootstrap badge class per status
+ */
+export const TASK_STATUS_BADGES: Readonly<Record<TaskStatus, string>> = {
+  [TaskStatus.TODO]: 'bg-secondary',
+  [TaskStatus.IN_PROGRESS]: 'bg-primary',
+  [TaskStatus.REVIEW]: 'bg-info text-dark',
+  [TaskStatus.DONE]: 'bg-success',
+}
+
+/**
+ * Bootstrap badge class per priority
+ */
+export const TASK_PRIORITY_BADGES: Readonly<Record<TaskPriority, string>> = {
+  [TaskPriority.LOW]: 'text-bg-light',
+  [TaskPriority.NORMAL]: 'bg-secondary',
+  [TaskPriority.HIGH]: 'bg-danger',
+}
+
+/**
+ * Statuses in workflow order
+ */
+export const TASK_STATUSES = TASK_WORKFLOW
+
+/**
+ * Priorities from lowest to highest
+ */
+export const TASK_PRIORITIES: readonly TaskPriority[] = Object.values(TaskPriority)
+
+/**
+ * i18n key for a status label
+ */
+export function taskStatusKey(status: TaskStatus): string {
+  return `task.status.${status}`
+}
+
+/**
+ * i18n key for a priority label
+ */
+export function taskPriorityKey(priority: TaskPriority): string {
+  return `task.priority.${priority}`
+}
+
+/**
+ * The next status forward in the workflow, or null once done
+ */
+export function nextTaskStatus(status: TaskStatus): TaskStatus | null {
+  const next = TASK_WORKFLOW[TASK_WORKFLOW.indexOf(status) + 1]
+  return next && TASK_TRANSITIONS[status].includes(next) ? next : null
+}
+
+/**
+ * The previous status in the workflow, or null at the start
+ */
+export function previousTaskStatus(status: TaskStatus): TaskStatus | null {
+  const previous = TASK_WORKFLOW[TASK_WORKFLOW.indexOf(status) - 1]
+  return previous && TASK_TRANSITIONS[status].includes(previous) ? previous : null
+}
+
+/**
+ * i18n key for the button that moves a task to a status
+ */
+export function taskMoveKey(status: TaskStatus): string {
+  return `task.move.${status}`
+}
+
+/**
+ * A task past its due date that is not done yet
+ */
+export function isTaskOverdue(task: Task, now: Date = new Date()): boolean {
+  return !!task.dueDate && task.status !== TaskStatus.DONE && new Date(task.dueDate).getTime() < now.getTime()
+}
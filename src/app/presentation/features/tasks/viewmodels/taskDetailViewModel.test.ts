@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { Task } from '@/app/domain/entities/task.model'
+import type { TaskChange, TaskService } from '@/app/domain/services/taskService'
+import type { UserChange, UserService } from '@/app/domain/services/userService'
+import type { ProjectChange, ProjectService } from '@/app/domain/services/projectService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockIdMappings = new Subject<IdMapping>()
+const mockUpdates = new Subject<TaskChange>()
+
+const mockTaskService: TaskService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  transition: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: mockUpdates.asObservable(),
+}
+
+const mockUserService: UserService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  syncPendingOperations: vi.fn(),
+  clearCache: vi.fn(),
+  idMappings$: new Subject<IdMapping>().asObservable(),
+  updates$: new Subject<UserChange>().asObservable(),
+}
+
+const mockProjectService: ProjectService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  archive: vi.fn(),
+  restore: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: new Subject<IdMapping>().asObservable(),
+  updates$: new Subject<ProjectChange>().asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useTaskService: () => mockTaskService,
+  useUserService: () => mockUserService,
+  useProjectService: () => mockProjectService,
+}))
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useTaskDetailViewModel } from './taskDetailViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createMockTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: '1',
+    title: 'Write report',
+    description: 'Quarterly numbers',
+    status: 'in-progress',
+    priority: 'normal',
+    dueDate: null,
+    assigneeId: null,
+    projectId: null,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  }
+}
+
+async function renderLoaded(task: Task = createMockTask()) {
+  vi.mocked(mockTaskService.getById).mockResolvedValue({ success: true, data: task })
+  const hook = renderHook(() => useTaskDetailViewModel(task.id))
+  await waitFor(() => {
+    expect(hook.result.current.output.isLoading).toBe(false)
+  })
+  return hook
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useTaskDetailViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('loads the task with its workflow neighbours', async () => {
+    const { result } = await renderLoaded()
+
+    expect(mockTaskService.getById).toHaveBeenCalledWith('1', { policy: 'stale-while-revalidate' })
+    expect(result.current.output.task?.title).toBe('Write report')
+    expect(result.current.output.previousStatus).toBe('todo')
+    expect(result.current.output.nextStatus).toBe('review')
+  })
+
+  it('shows an error when the task is missing', async () => {
+    vi.mocked(mockTaskService.getById).mockResolvedValue({ success: false })
+    const { result } = renderHook(() => useTaskDetailViewModel('404'))
+
+    await waitFor(() => {
+      expect(result.current.output.error).toBe('Task not found')
+    })
+    expect(result.current.output.task).toBeNull()
+  })
+
+  it('names the assignee and the linked project', async () => {
+    vi.mocked(mockUserService.getById).mockResolvedValue({
+      success: true,
+      data: {
+        id: '3',
+        email: 'jane@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        avatar: '',
+        createdAt: new Date('2025-01-01'),
+        updatedAt: new Date('2025-01-01'),
+      },
+    })
+    vi.mocked(mockProjectService.getById).mockResolvedValue({
+      success: true,
+      data: {
+        id: '8',
+        name: 'Apollo',
+        description: '',
+        ownerId: '3',
+        memberIds: [],
+        status: 'active',
+        archived: false,
+        createdAt: new Date('2025-01-01'),
+        updatedAt: new Date('2025-01-01'),
+      },
+    })
+    const { result } = await renderLoaded(createMockTask({ assigneeId: '3', projectId: '8' }))
+
+    await waitFor(() => {
+      expect(result.current.output.assigneeName).toBe('Jane Doe')
+    })
+    expect(result.current.output.projectName).toBe('Apollo')
+    expect(mockUserService.getById).toHaveBeenCalledWith('3')
+    expect(mockProjectService.getById).toHaveBeenCalledWith('8')
+  })
+
+  it('flags a task past its due date as overdue until it is done', async () => {
+    const { result } = await renderLoaded(createMockTask({ dueDate: new Date('2020-01-01') }))
+    expect(result.current.output.isOverdue).toBe(true)
+
+    act(() => {
+      mockUpdates.next({ type: 'update', task: createMockTask({ dueDate: new Date('2020-01-01'), status: 'done' }) })
+    })
+    expect(result.current.output.isOverdue).toBe(false)
+  })
+
+  it('moves the task along the workflow', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.transition).mockResolvedValue({ success: true, data: { ...task, status: 'review' } })
+    const { result } = await renderLoaded(task)
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'MOVE_TASK', status: 'review' })
+    })
+
+    expect(mockTaskService.transition).toHaveBeenCalledWith('1', 'review')
+    expect(result.current.output.task?.status).toBe('review')
+    expect(result.current.output.nextStatus).toBe('done')
+  })
+
+  it('puts the status back when a move fails', async () => {
+    vi.mocked(mockTaskService.transition).mockResolvedValue({ success: false, error: 'Offline' })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'MOVE_TASK', status: 'review' })
+    })
+
+    expect(result.current.output.task?.status).toBe('in-progress')
+    expect(mockShowToast).toHaveBeenCalledWith('Offline', 'error')
+  })
+
+  it('deletes the task and returns to the list', async () => {
+    vi.mocked(mockTaskService.delete).mockResolvedValue({ success: true })
+    const { result } = await renderLoaded()
+    vi.useFakeTimers()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DELETE_TASK' })
+    })
+
+    expect(result.current.output.successMessage).toBe('Task Write report deleted successfully')
+
+    act(() => {
+      vi.advanceTimersByTime(1500)
+    })
+    expect(mockNavigate).toHaveBeenCalledWith('/tasks')
+  })
+
+  it('navigates to the edit page', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_EDIT', id: '1' })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/tasks/1/edit')
+  })
+
+  it('reports a task deleted elsewhere', async () => {
+    const task = createMockTask()
+    const { result } = await renderLoaded(task)
+
+    act(() => {
+      mockUpdates.next({ type: 'delete', task })
+    })
+
+    expect(result.current.output.task).toBeNull()
+    expect(result.current.output.error).toBe('This task was deleted')
+  })
+
+  it('replaces the route once an offline task gets its server ID', async () => {
+    await renderLoaded(createMockTask({ id: 'offline_9' }))
+
+    act(() => {
+      mockIdMappings.next({ entity: 'task', tempId: 'offline_9', serverId: '9', timestamp: Date.now() })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/tasks/9', { replace: true })
+  })
+})
@@ -0,0 +1,368 @@
+// =============================================================================
+// Task Detail ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { Task, TaskStatus } from '@/app/domain/entities/task.model'
+import { useProjectService, useTaskService, useUserService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+import { isTaskOverdue, nextTaskStatus, previousTaskStatus } from '../taskStatus'
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type TaskDetailInput =
+  | { type: 'LOAD_TASK'; id: string }
+  | { type: 'MOVE_TASK'; status: TaskStatus }
+  | { type: 'DELETE_TASK' }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'NAVIGATE_TO_LIST' }
+  | { type: 'NAVIGATE_TO_EDIT'; id: string }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface TaskDetailOutput {
+  // Core data
+  task: Task | null
+  assigneeName: string | null
+  projectName: string | null
+
+  // UI state
+  isLoading: boolean
+  isDeleting: boolean
+  error: string | null
+  successMessage: string | null
+
+  // Computed values
+  nextStatus: TaskStatus | null
+  previousStatus: TaskStatus | null
+  isOverdue: boolean
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type TaskDetailEffect =
+  | { type: 'NAVIGATE'; path: string }
+  | { type: 'NAVIGATE_AFTER_DELAY'; path: string; delay: number }
+  | { type: 'REPLACE_ROUTE'; path: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface TaskDetailState {
+  task: Task | null
+  assigneeName: string | null
+  projectName: string | null
+  isLoading: boolean
+  isDeleting: boolean
+  error: string | null
+  successMessage: string | null
+  pendingEffect: TaskDetailEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type TaskDetailAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_DELETING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+  | { type: 'SET_TASK'; payload: Task | null }
+  | { type: 'SET_STATUS'; payload: TaskStatus }
+  | { type: 'SET_ASSIGNEE_NAME'; payload: string | null }
+  | { type: 'SET_PROJECT_NAME'; payload: string | null }
+  | { type: 'TASK_UPDATED'; payload: Task }
+  | { type: 'TASK_REMOVED'; payload: string }
+  | { type: 'SET_EFFECT'; payload: TaskDetailEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+const initialState: TaskDetailState = {
+  task: null,
+  assigneeName: null,
+  projectName: null,
+  isLoading: true,
+  isDeleting: false,
+  error: null,
+  successMessage: null,
+  pendingEffect: null,
+}
+
+function taskDetailReducer(state: TaskDetailState, action: TaskDetailAction): TaskDetailState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload, error: null }
+    case 'SET_DELETING':
+      return { ...state, isDeleting: action.payload }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false, isDeleting: false }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload }
+    case 'SET_TASK':
+      return { ...state, task: action.payload, isLoading: false }
+    case 'SET_STATUS':
+      return state.task ? { ...state, task: { ...state.task, status: action.payload } } : state
+    case 'SET_ASSIGNEE_NAME':
+      return { ...state, assigneeName: action.payload }
+    case 'SET_PROJECT_NAME':
+      return { ...state, projectName: action.payload }
+    case 'TASK_UPDATED':
+      if (state.task?.id !== action.payload.id) return state
+      return { ...state, task: action.payload }
+    case 'TASK_REMOVED':
+      // A delete started here reports its own outcome
+      if (state.task?.id !== action.payload || state.isDeleting) return state
+      return { ...state, task: null, error: 'This task was deleted' }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseTaskDetailViewModel {
+  output: TaskDetailOutput
+  dispatch: (input: TaskDetailInput) => Promise<void>
+}
+
+export function useTaskDetailViewModel(taskId: string): UseTaskDetailViewModel {
+  const navigate = useNavigate()
+  const taskService = useTaskService()
+  const userService = useUserService()
+  const projectService = useProjectService()
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(taskDetailReducer, initialState)
+  const isInitialMount = useRef(true)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    const effect = state.pendingEffect
+
+    switch (effect.type) {
+      case 'NAVIGATE':
+        navigate(effect.path)
+        break
+      case 'NAVIGATE_AFTER_DELAY':
+        setTimeout(() => {
+          navigate(effect.path)
+        }, effect.delay)
+        break
+      case 'REPLACE_ROUTE':
+        navigate(effect.path, { replace: true })
+        break
+    }
+
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  const dispatch = useCallback(
+    async (input: TaskDetailInput) => {
+      switch (input.type) {
+        case 'LOAD_TASK': {
+          internalDispatch({ type: 'SET_LOADING', payload: true })
+
+          // Cached copy at once; a fresher one arrives through updates$
+          const result = await taskService.getById(input.id, { policy: 'stale-while-revalidate' })
+
+          if (result.success && result.data) {
+            internalDispatch({ type: 'SET_TASK', payload: result.data })
+          } else {
+            internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Task not found' })
+          }
+          break
+        }
+
+        case 'MOVE_TASK': {
+          if (!state.task) return
+          const { id } = state.task
+
+          // The badge moves at once and back on failure
+          await runOptimistic({
+            update: (current) => taskDetailReducer(current, { type: 'SET_STATUS', payload: input.status }),
+            mutate: () => taskService.transition(id, input.status),
+            errorMessage: 'Failed to update task status',
+          })
+          break
+        }
+
+        case 'DELETE_TASK': {
+          if (!state.task) return
+          const { id, title } = state.task
+
+          // Confirmed at once; withdrawn if the delete fails
+          internalDispatch({ type: 'SET_DELETING', payload: true })
+          const result = await runOptimistic({
+            update: (current) =>
+              taskDetailReducer(current, {
+                type: 'SET_SUCCESS',
+                payload: `Task ${title} deleted successfully`,
+              }),
+            mutate: () => taskService.delete(id),
+            errorMessage: 'Failed to delete task',
+          })
+
+          if (result.success) {
+            internalDispatch({
+              type: 'SET_EFFECT',
+              payload: { type: 'NAVIGATE_AFTER_DELAY', path: '/tasks', delay: 1500 },
+            })
+          } else {
+            internalDispatch({ type: 'SET_DELETING', payload: false })
+          }
+          break
+        }
+
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+
+        case 'NAVIGATE_TO_LIST':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: '/tasks' } })
+          break
+
+        case 'NAVIGATE_TO_EDIT':
+          internalDispatch({
+            type: 'SET_EFFECT',
+            payload: { type: 'NAVIGATE', path: `/tasks/${input.id}/edit` },
+          })
+          break
+      }
+    },
+    [state.task, taskService, internalDispatch, runOptimistic]
+  )
+
+  // ==========================================================================
+  // Initial Load
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current && taskId) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_TASK', id: taskId })
+    }
+  }, [taskId, dispatch])
+
+  // ==========================================================================
+  // Linked Assignee and Project (names only; the IDs show until they arrive)
+  // ==========================================================================
+
+  const assigneeId = state.task?.assigneeId ?? null
+  const linkedProjectId = state.task?.projectId ?? null
+
+  useEffect(() => {
+    let cancelled = false
+    internalDispatch({ type: 'SET_ASSIGNEE_NAME', payload: null })
+    if (assigneeId) {
+      void userService.getById(assigneeId).then((result) => {
+        if (!cancelled && result.success && result.data) {
+          internalDispatch({
+            type: 'SET_ASSIGNEE_NAME',
+            payload: `${result.data.firstName} ${result.data.lastName}`,
+          })
+        }
+      })
+    }
+    return () => {
+      cancelled = true
+    }
+  }, [assigneeId, userService, internalDispatch])
+
+  useEffect(() => {
+    let cancelled = false
+    internalDispatch({ type: 'SET_PROJECT_NAME', payload: null })
+    if (linkedProjectId) {
+      void projectService.getById(linkedProjectId).then((result) => {
+        if (!cancelled && result.success && result.data) {
+          internalDispatch({ type: 'SET_PROJECT_NAME', payload: result.data.name })
+        }
+      })
+    }
+    return () => {
+      cancelled = true
+    }
+  }, [linkedProjectId, projectService, internalDispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = taskService.idMappings$.subscribe((mapping) => {
+      if (mapping.tempId !== taskId) return
+      internalDispatch({
+        type: 'SET_EFFECT',
+        payload: { type: 'REPLACE_ROUTE', path: `/tasks/${mapping.serverId}` },
+      })
+      void dispatch({ type: 'LOAD_TASK', id: mapping.serverId })
+    })
+    return () => subscription.unsubscribe()
+  }, [taskId, dispatch, taskService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = taskService.updates$.subscribe((change) => {
+      if (change.type === 'update') {
+        internalDispatch({ type: 'TASK_UPDATED', payload: change.task })
+      } else if (change.type === 'delete') {
+        internalDispatch({ type: 'TASK_REMOVED', payload: change.task.id })
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [taskService, internalDispatch])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: TaskDetailOutput = {
+    task: state.task,
+    assigneeName: state.assigneeName,
+    projectName: state.projectName,
+    isLoading: state.isLoading,
+    isDeleting: state.isDeleting,
+    error: state.error,
+    successMessage: state.successMessage,
+    nextStatus: state.task ? nextTaskStatus(state.task.status) : null,
+    previousStatus: state.task ? previousTaskStatus(state.task.status) : null,
+    isOverdue: state.task ? isTaskOverdue(state.task) : false,
+  }
+
+  return { output, dispatch }
+}
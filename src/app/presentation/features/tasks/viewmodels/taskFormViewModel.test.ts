@@ -0,0 +1,348 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { Task } from '@/app/domain/entities/task.model'
+import type { User } from '@/app/domain/entities/user.model'
+import type { TaskChange, TaskService } from '@/app/domain/services/taskService'
+import type { UserChange, UserService } from '@/app/domain/services/userService'
+import type { ProjectChange, ProjectService } from '@/app/domain/services/projectService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockIdMappings = new Subject<IdMapping>()
+
+const mockTaskService: TaskService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  transition: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: new Subject<TaskChange>().asObservable(),
+}
+
+const mockUserService: UserService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  syncPendingOperations: vi.fn(),
+  clearCache: vi.fn(),
+  idMappings$: new Subject<IdMapping>().asObservable(),
+  updates$: new Subject<UserChange>().asObservable(),
+}
+
+const mockProjectService: ProjectService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  archive: vi.fn(),
+  restore: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: new Subject<IdMapping>().asObservable(),
+  updates$: new Subject<ProjectChange>().asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useTaskService: () => mockTaskService,
+  useUserService: () => mockUserService,
+  useProjectService: () => mockProjectService,
+}))
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useTaskFormViewModel } from './taskFormViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createMockUser(id: string, firstName: string): User {
+  return {
+    id,
+    email: `${firstName.toLowerCase()}@example.com`,
+    firstName,
+    lastName: 'Doe',
+    avatar: '',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+  }
+}
+
+function createMockTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: '1',
+    title: 'Write report',
+    description: 'Quarterly numbers',
+    status: 'in-progress',
+    priority: 'normal',
+    dueDate: new Date(2025, 5, 30),
+    assigneeId: '2',
+    projectId: '8',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  }
+}
+
+async function renderEditing(task: Task = createMockTask()) {
+  vi.mocked(mockTaskService.getById).mockResolvedValue({ success: true, data: task })
+  const hook = renderHook(() => useTaskFormViewModel(task.id))
+  await waitFor(() => {
+    expect(hook.result.current.output.isEditMode).toBe(true)
+  })
+  return hook
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useTaskFormViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockUserService.getList).mockResolvedValue({
+      success: true,
+      data: {
+        data: [createMockUser('1', 'John'), createMockUser('2', 'Jane')],
+        page: 1,
+        pageSize: 100,
+        total: 2,
+        totalPages: 1,
+      },
+    })
+    vi.mocked(mockProjectService.getList).mockResolvedValue({
+      success: true,
+      data: {
+        data: [
+          {
+            id: '8',
+            name: 'Apollo',
+            description: '',
+            ownerId: '1',
+            memberIds: [],
+            status: 'active',
+            archived: false,
+            createdAt: new Date('2025-01-01'),
+            updatedAt: new Date('2025-01-01'),
+          },
+        ],
+        page: 1,
+        pageSize: 100,
+        total: 1,
+        totalPages: 1,
+      },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // ---------------------------------------------------------------------------
+  // Create mode
+  // ---------------------------------------------------------------------------
+
+  it('starts empty and assigned to the signed-in user', async () => {
+    const { result } = renderHook(() => useTaskFormViewModel(undefined, '1'))
+
+    await waitFor(() => {
+      expect(result.current.output.projectOptions).toHaveLength(1)
+    })
+    expect(result.current.output.isEditMode).toBe(false)
+    expect(result.current.output.assigneeId).toBe('1')
+    expect(result.current.output.status).toBe('todo')
+    expect(result.current.output.priority).toBe('normal')
+    expect(result.current.output.statusOptions).toEqual(['todo', 'in-progress', 'review', 'done'])
+    expect(result.current.output.userOptions[1]).toEqual({ id: '2', name: 'Jane Doe' })
+    expect(mockProjectService.getList).toHaveBeenCalledWith({ page: 1, pageSize: 100, filter: { archived: false } })
+  })
+
+  it('validates a field on blur', async () => {
+    const { result } = renderHook(() => useTaskFormViewModel())
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'title', value: 'ab' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'VALIDATE_FIELD', field: 'title' })
+    })
+
+    expect(result.current.output.errors.title).toBe('Task title must be at least 3 characters')
+    expect(result.current.output.isValid).toBe(false)
+  })
+
+  it('does not submit an invalid form', async () => {
+    const { result } = renderHook(() => useTaskFormViewModel())
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockTaskService.create).not.toHaveBeenCalled()
+    expect(result.current.output.errors.title).toBe('Task title is required')
+  })
+
+  it('creates the task and opens it', async () => {
+    vi.mocked(mockTaskService.create).mockResolvedValue({ success: true, data: createMockTask({ id: '5' }) })
+    const { result } = renderHook(() => useTaskFormViewModel(undefined, '1'))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'title', value: '  Write report  ' })
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'priority', value: 'high' })
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'dueDate', value: '2025-06-30' })
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'projectId', value: '8' })
+    })
+    vi.useFakeTimers()
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockTaskService.create).toHaveBeenCalledWith({
+      title: 'Write report',
+      description: '',
+      status: 'todo',
+      priority: 'high',
+      dueDate: new Date(2025, 5, 30),
+      assigneeId: '1',
+      projectId: '8',
+    })
+    expect(result.current.output.successMessage).toBe('Task created successfully')
+
+    act(() => {
+      vi.advanceTimersByTime(1500)
+    })
+    expect(mockNavigate).toHaveBeenCalledWith('/tasks/5')
+  })
+
+  it('sends no assignee, project or due date when they are left empty', async () => {
+    vi.mocked(mockTaskService.create).mockResolvedValue({ success: true, data: createMockTask() })
+    const { result } = renderHook(() => useTaskFormViewModel())
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'title', value: 'Write report' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockTaskService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ dueDate: null, assigneeId: null, projectId: null })
+    )
+  })
+
+  it('keeps the edits and shows a toast when the create fails', async () => {
+    vi.mocked(mockTaskService.create).mockResolvedValue({ success: false, error: 'Offline queue full' })
+    const { result } = renderHook(() => useTaskFormViewModel())
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'title', value: 'Write report' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(result.current.output.title).toBe('Write report')
+    expect(result.current.output.isDirty).toBe(true)
+    expect(result.current.output.successMessage).toBeNull()
+    expect(result.current.output.isSubmitting).toBe(false)
+    expect(mockShowToast).toHaveBeenCalledWith('Offline queue full', 'error')
+  })
+
+  // ---------------------------------------------------------------------------
+  // Edit mode
+  // ---------------------------------------------------------------------------
+
+  it('loads the task in edit mode', async () => {
+    const { result } = await renderEditing()
+
+    expect(result.current.output.title).toBe('Write report')
+    expect(result.current.output.dueDate).toBe('2025-06-30')
+    expect(result.current.output.assigneeId).toBe('2')
+    expect(result.current.output.projectId).toBe('8')
+    expect(result.current.output.isDirty).toBe(false)
+  })
+
+  it('offers only the statuses the workflow allows from the saved one', async () => {
+    const { result } = await renderEditing(createMockTask({ status: 'todo' }))
+
+    expect(result.current.output.statusOptions).toEqual(['todo', 'in-progress'])
+  })
+
+  it('refuses a status the workflow does not allow', async () => {
+    const { result } = await renderEditing(createMockTask({ status: 'todo' }))
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'status', value: 'done' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockTaskService.update).not.toHaveBeenCalled()
+    expect(result.current.output.errors.status).toBe('A task cannot move from todo to done')
+  })
+
+  it('resets to the loaded task', async () => {
+    const { result } = await renderEditing()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'priority', value: 'high' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESET' })
+    })
+
+    expect(result.current.output.priority).toBe('normal')
+    expect(result.current.output.isDirty).toBe(false)
+  })
+
+  it('updates the task', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.update).mockResolvedValue({ success: true, data: { ...task, status: 'review' } })
+    const { result } = await renderEditing(task)
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'status', value: 'review' })
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'assigneeId', value: '' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockTaskService.update).toHaveBeenCalledWith(
+      '1',
+      expect.objectContaining({ status: 'review', assigneeId: null })
+    )
+    expect(result.current.output.successMessage).toBe('Task updated successfully')
+  })
+
+  it('moves to the server ID route while editing an offline task', async () => {
+    await renderEditing(createMockTask({ id: 'offline_4' }))
+
+    act(() => {
+      mockIdMappings.next({ entity: 'task', tempId: 'offline_4', serverId: '4', timestamp: Date.now() })
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/tasks/4/edit', { replace: true })
+  })
+})
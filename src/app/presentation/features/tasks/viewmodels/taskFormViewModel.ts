@@ -0,0 +1,562 @@
+// =============================================================================
+// Task Form ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  TaskStatus,
+  TaskPriority,
+  TASK_TRANSITIONS,
+  TASK_WORKFLOW,
+  type Task,
+  type CreateTaskDto,
+  type UpdateTaskDto,
+  type TaskValidationErrors,
+} from '@/app/domain/entities/task.model'
+import type { User } from '@/app/domain/entities/user.model'
+import { useProjectService, useTaskService, useUserService } from '@/app/core/di'
+import { taskValidator } from '@/app/domain/validators/taskValidator'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+
+/**
+ * Users and projects offered as assignee and project
+ */
+const OPTIONS_PAGE_SIZE = 100
+
+export type TaskFormField = 'title' | 'description' | 'status' | 'priority' | 'dueDate' | 'assigneeId' | 'projectId'
+
+export interface TaskFormOption {
+  id: string
+  name: string
+}
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type TaskFormInput =
+  | { type: 'SET_FIELD'; field: TaskFormField; value: string }
+  | { type: 'VALIDATE_FIELD'; field: keyof TaskValidationErrors }
+  | { type: 'SUBMIT' }
+  | { type: 'RESET' }
+  | { type: 'LOAD_TASK'; id: string }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'NAVIGATE_TO_LIST' }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface TaskFormOutput {
+  // Form data (`dueDate` as YYYY-MM-DD; empty IDs mean none)
+  title: string
+  description: string
+  status: TaskStatus
+  priority: TaskPriority
+  dueDate: string
+  assigneeId: string
+  projectId: string
+
+  // Options
+  userOptions: TaskFormOption[]
+  projectOptions: TaskFormOption[]
+  statusOptions: readonly TaskStatus[]
+
+  // Form state
+  isEditMode: boolean
+  isLoading: boolean
+  isSubmitting: boolean
+  isDirty: boolean
+  errors: TaskValidationErrors
+  submitError: string | null
+  successMessage: string | null
+
+  // Computed values
+  isValid: boolean
+  hasErrors: boolean
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type TaskFormEffect =
+  | { type: 'NAVIGATE'; path: string }
+  | { type: 'NAVIGATE_AFTER_DELAY'; path: string; delay: number }
+  | { type: 'REPLACE_ROUTE'; path: string }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface TaskFormState {
+  title: string
+  description: string
+  status: TaskStatus
+  priority: TaskPriority
+  dueDate: string
+  assigneeId: string
+  projectId: string
+  userOptions: TaskFormOption[]
+  projectOptions: TaskFormOption[]
+  originalTask: Task | null
+  isEditMode: boolean
+  isLoading: boolean
+  isSubmitting: boolean
+  isDirty: boolean
+  errors: TaskValidationErrors
+  submitError: string | null
+  successMessage: string | null
+  pendingEffect: TaskFormEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type TaskFormAction =
+  | { type: 'SET_FIELD'; field: TaskFormField; value: string }
+  | { type: 'SET_USER_OPTIONS'; payload: TaskFormOption[] }
+  | { type: 'SET_PROJECT_OPTIONS'; payload: TaskFormOption[] }
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_SUBMITTING'; payload: boolean }
+  | { type: 'SET_ERRORS'; payload: TaskValidationErrors }
+  | { type: 'SET_FIELD_ERROR'; field: keyof TaskValidationErrors; error: string | null }
+  | { type: 'SET_SUBMIT_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+  | { type: 'SUBMIT_ACCEPTED'; payload: string }
+  | { type: 'LOAD_TASK'; payload: Task }
+  | { type: 'REMAP_TASK_ID'; payload: string }
+  | { type: 'RESET_FORM' }
+  | { type: 'SET_EFFECT'; payload: TaskFormEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// Date Conversion (the date input works in local YYYY-MM-DD)
+// =============================================================================
+
+function toDateInputValue(date: Date | null): string {
+  if (!date) return ''
+  const value = new Date(date)
+  const month = String(value.getMonth() + 1).padStart(2, '0')
+  const day = String(value.getDate()).padStart(2, '0')
+  return `${value.getFullYear()}-${month}-${day}`
+}
+
+function fromDateInputValue(value: string): Date | null {
+  return value ? new Date(`${value}T00:00:00`) : null
+}
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+function createInitialState(assigneeId: string): TaskFormState {
+  return {
+    title: '',
+    description: '',
+    status: TaskStatus.TODO,
+    priority: TaskPriority.NORMAL,
+    dueDate: '',
+    assigneeId,
+    projectId: '',
+    userOptions: [],
+    projectOptions: [],
+    originalTask: null,
+    isEditMode: false,
+    isLoading: false,
+    isSubmitting: false,
+    isDirty: false,
+    errors: {},
+    submitError: null,
+    successMessage: null,
+    pendingEffect: null,
+  }
+}
+
+function taskFields(task: Task) {
+  return {
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    dueDate: toDateInputValue(task.dueDate),
+    assigneeId: task.assigneeId ?? '',
+    projectId: task.projectId ?? '',
+  }
+}
+
+function taskFormReducer(state: TaskFormState, action: TaskFormAction): TaskFormState {
+  switch (action.type) {
+    case 'SET_FIELD':
+      return {
+        ...state,
+        [action.field]: action.value,
+        isDirty: true,
+        errors: { ...state.errors, [action.field]: null },
+      }
+    case 'SET_USER_OPTIONS':
+      return { ...state, userOptions: action.payload }
+    case 'SET_PROJECT_OPTIONS':
+      return { ...state, projectOptions: action.payload }
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload }
+    case 'SET_SUBMITTING':
+      return { ...state, isSubmitting: action.payload, submitError: null }
+    case 'SET_ERRORS':
+      return { ...state, errors: action.payload, isSubmitting: false }
+    case 'SET_FIELD_ERROR':
+      return { ...state, errors: { ...state.errors, [action.field]: action.error } }
+    case 'SET_SUBMIT_ERROR':
+      return { ...state, submitError: action.payload, isSubmitting: false }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload, isSubmitting: false }
+    case 'SUBMIT_ACCEPTED':
+      // The submitted values become the saved ones
+      return {
+        ...state,
+        successMessage: action.payload,
+        isDirty: false,
+        originalTask: state.originalTask && {
+          ...state.originalTask,
+          title: state.title,
+          description: state.description,
+          status: state.status,
+          priority: state.priority,
+          dueDate: fromDateInputValue(state.dueDate),
+          assigneeId: state.assigneeId || null,
+          projectId: state.projectId || null,
+        },
+      }
+    case 'LOAD_TASK':
+      return {
+        ...state,
+        ...taskFields(action.payload),
+        originalTask: action.payload,
+        isEditMode: true,
+        isLoading: false,
+        isDirty: false,
+      }
+    case 'REMAP_TASK_ID':
+      return state.originalTask ? { ...state, originalTask: { ...state.originalTask, id: action.payload } } : state
+    case 'RESET_FORM':
+      if (state.originalTask) {
+        return {
+          ...state,
+          ...taskFields(state.originalTask),
+          isDirty: false,
+          errors: {},
+          submitError: null,
+        }
+      }
+      return {
+        ...createInitialState(state.assigneeId),
+        userOptions: state.userOptions,
+        projectOptions: state.projectOptions,
+      }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function computeIsValid(state: TaskFormState): boolean {
+  const hasErrors = taskValidator.hasErrors(state.errors)
+  return state.isDirty && !hasErrors && !!state.title.trim()
+}
+
+function computeHasErrors(errors: TaskValidationErrors): boolean {
+  return taskValidator.hasErrors(errors)
+}
+
+/**
+ * A new task may start anywhere; an existing one stays put or takes one workflow step
+ */
+function computeStatusOptions(originalTask: Task | null): readonly TaskStatus[] {
+  if (!originalTask) return TASK_WORKFLOW
+  const allowed = [originalTask.status, ...TASK_TRANSITIONS[originalTask.status]]
+  return TASK_WORKFLOW.filter((status) => allowed.includes(status))
+}
+
+function toUserOption(user: User): TaskFormOption {
+  return { id: user.id, name: `${user.firstName} ${user.lastName}` }
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseTaskFormViewModel {
+  output: TaskFormOutput
+  dispatch: (input: TaskFormInput) => Promise<void>
+}
+
+/**
+ * @param taskId - Task to edit; a new task when omitted
+ * @param defaultAssigneeId - Assignee preselected for a new task
+ */
+export function useTaskFormViewModel(taskId?: string, defaultAssigneeId = ''): UseTaskFormViewModel {
+  const navigate = useNavigate()
+  const taskService = useTaskService()
+  const userService = useUserService()
+  const projectService = useProjectService()
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(
+    taskFormReducer,
+    createInitialState(defaultAssigneeId)
+  )
+  const isInitialMount = useRef(true)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    const effect = state.pendingEffect
+
+    switch (effect.type) {
+      case 'NAVIGATE':
+        navigate(effect.path)
+        break
+      case 'NAVIGATE_AFTER_DELAY':
+        setTimeout(() => {
+          navigate(effect.path)
+        }, effect.delay)
+        break
+      case 'REPLACE_ROUTE':
+        navigate(effect.path, { replace: true })
+        break
+    }
+
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  // Helper: get field value by name
+  const getFieldValue = useCallback(
+    (field: keyof TaskValidationErrors): string => {
+      const fieldMap: Record<keyof TaskValidationErrors, string> = {
+        title: state.title,
+        description: state.description,
+        status: state.status,
+        priority: state.priority,
+        dueDate: state.dueDate,
+      }
+      return fieldMap[field]
+    },
+    [state.title, state.description, state.status, state.priority, state.dueDate]
+  )
+
+  // Helper: handle form submission
+  const handleSubmit = useCallback(
+    async () => {
+      const dto = {
+        title: state.title.trim(),
+        description: state.description,
+        status: state.status,
+        priority: state.priority,
+        dueDate: fromDateInputValue(state.dueDate),
+        assigneeId: state.assigneeId || null,
+        projectId: state.projectId || null,
+      }
+
+      const originalTask = state.isEditMode ? state.originalTask : null
+      const errors = originalTask ? taskValidator.validateUpdate(dto) : taskValidator.validateCreate(dto)
+      if (originalTask && !errors.status) {
+        errors.status = taskValidator.validateTransition(originalTask.status, dto.status)
+      }
+
+      if (taskValidator.hasErrors(errors)) {
+        internalDispatch({ type: 'SET_ERRORS', payload: errors })
+        return
+      }
+
+      internalDispatch({ type: 'SET_SUBMITTING', payload: true })
+
+      const message = originalTask ? 'Task updated successfully' : 'Task created successfully'
+
+      // Shown as saved at once; the edits come back if the server refuses them
+      const result = await runOptimistic({
+        update: (current) => taskFormReducer(current, { type: 'SUBMIT_ACCEPTED', payload: message }),
+        mutate: () =>
+          originalTask
+            ? taskService.update(originalTask.id, dto as UpdateTaskDto)
+            : taskService.create(dto as CreateTaskDto),
+        errorMessage: originalTask ? 'Failed to update task' : 'Failed to create task',
+      })
+
+      if (result.success && result.data) {
+        internalDispatch({ type: 'SET_SUCCESS', payload: message })
+        internalDispatch({
+          type: 'SET_EFFECT',
+          payload: { type: 'NAVIGATE_AFTER_DELAY', path: `/tasks/${result.data.id}`, delay: 1500 },
+        })
+      } else {
+        internalDispatch({ type: 'SET_SUBMITTING', payload: false })
+      }
+    },
+    [
+      state.title,
+      state.description,
+      state.status,
+      state.priority,
+      state.dueDate,
+      state.assigneeId,
+      state.projectId,
+      state.isEditMode,
+      state.originalTask,
+      taskService,
+      internalDispatch,
+      runOptimistic,
+    ]
+  )
+
+  // Helper: load task for edit mode
+  const handleLoadTask = useCallback(
+    async (id: string) => {
+      internalDispatch({ type: 'SET_LOADING', payload: true })
+      const result = await taskService.getById(id)
+      if (result.success && result.data) {
+        internalDispatch({ type: 'LOAD_TASK', payload: result.data })
+      } else {
+        internalDispatch({ type: 'SET_SUBMIT_ERROR', payload: result.error || 'Task not found' })
+        internalDispatch({ type: 'SET_LOADING', payload: false })
+      }
+    },
+    [taskService, internalDispatch]
+  )
+
+  const dispatch = useCallback(
+    async (input: TaskFormInput) => {
+      switch (input.type) {
+        case 'SET_FIELD':
+          internalDispatch({ type: 'SET_FIELD', field: input.field, value: input.value })
+          break
+        case 'VALIDATE_FIELD': {
+          const value = getFieldValue(input.field)
+          const error = taskValidator.validateField(input.field, value)
+          internalDispatch({ type: 'SET_FIELD_ERROR', field: input.field, error })
+          break
+        }
+        case 'SUBMIT':
+          await handleSubmit()
+          break
+        case 'RESET':
+          internalDispatch({ type: 'RESET_FORM' })
+          break
+        case 'LOAD_TASK':
+          await handleLoadTask(input.id)
+          break
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_SUBMIT_ERROR', payload: null })
+          break
+        case 'NAVIGATE_TO_LIST':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: '/tasks' } })
+          break
+      }
+    },
+    [getFieldValue, handleSubmit, handleLoadTask, internalDispatch]
+  )
+
+  // ==========================================================================
+  // Initial Load (Edit Mode)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current && taskId) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_TASK', id: taskId })
+    }
+  }, [taskId, dispatch])
+
+  // ==========================================================================
+  // Assignee and Project Options
+  // ==========================================================================
+
+  useEffect(() => {
+    let cancelled = false
+    void userService.getList({ page: 1, pageSize: OPTIONS_PAGE_SIZE }).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        internalDispatch({ type: 'SET_USER_OPTIONS', payload: result.data.data.map(toUserOption) })
+      }
+    })
+    void projectService
+      .getList({ page: 1, pageSize: OPTIONS_PAGE_SIZE, filter: { archived: false } })
+      .then((result) => {
+        if (!cancelled && result.success && result.data) {
+          internalDispatch({
+            type: 'SET_PROJECT_OPTIONS',
+            payload: result.data.data.map((project) => ({ id: project.id, name: project.name })),
+          })
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userService, projectService, internalDispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation (keeps in-progress edits)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!taskId) return
+    const subscription = taskService.idMappings$.subscribe((mapping) => {
+      if (mapping.tempId !== taskId) return
+      internalDispatch({ type: 'REMAP_TASK_ID', payload: mapping.serverId })
+      internalDispatch({
+        type: 'SET_EFFECT',
+        payload: { type: 'REPLACE_ROUTE', path: `/tasks/${mapping.serverId}/edit` },
+      })
+    })
+    return () => subscription.unsubscribe()
+  }, [taskId, taskService, internalDispatch])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const output: TaskFormOutput = {
+    title: state.title,
+    description: state.description,
+    status: state.status,
+    priority: state.priority,
+    dueDate: state.dueDate,
+    assigneeId: state.assigneeId,
+    projectId: state.projectId,
+    userOptions: state.userOptions,
+    projectOptions: state.projectOptions,
+    statusOptions: computeStatusOptions(state.originalTask),
+    isEditMode: state.isEditMode,
+    isLoading: state.isLoading,
+    isSubmitting: state.isSubmitting,
+    isDirty: state.isDirty,
+    errors: state.errors,
+    submitError: state.submitError,
+    successMessage: state.successMessage,
+    isValid: computeIsValid(state),
+    hasErrors: computeHasErrors(state.errors),
+  }
+
+  return { output, dispatch }
+}
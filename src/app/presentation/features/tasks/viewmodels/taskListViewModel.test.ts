@@ -0,0 +1,327 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import type { Task } from '@/app/domain/entities/task.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import type { TaskChange, TaskService } from '@/app/domain/services/taskService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockNavigate = vi.fn()
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}))
+
+const mockIdMappings = new Subject<IdMapping>()
+const mockUpdates = new Subject<TaskChange>()
+
+const mockTaskService: TaskService = {
+  getById: vi.fn(),
+  getList: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  transition: vi.fn(),
+  delete: vi.fn(),
+  isOnline: vi.fn().mockReturnValue(true),
+  clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: mockUpdates.asObservable(),
+}
+
+vi.mock('@/app/core/di', () => ({
+  useTaskService: () => mockTaskService,
+}))
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useTaskListViewModel, type TaskListView } from './taskListViewModel'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createMockTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: '1',
+    title: 'Write report',
+    description: 'Quarterly numbers',
+    status: 'todo',
+    priority: 'high',
+    dueDate: null,
+    assigneeId: '1',
+    projectId: null,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  }
+}
+
+function createPaginatedResponse(tasks: Task[], page = 1, total?: number): ServiceResult<PaginatedResponse<Task>> {
+  const t = total ?? tasks.length
+  return {
+    success: true,
+    data: { data: tasks, page, pageSize: 10, total: t, totalPages: Math.max(1, Math.ceil(t / 10)) },
+  }
+}
+
+/** Flush microtasks so fire-and-forget promises in useEffect resolve */
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+async function renderLoaded(view: TaskListView = 'my', currentUserId = '1') {
+  const hook = renderHook(() => useTaskListViewModel(view, currentUserId))
+  await act(async () => {
+    await flushPromises()
+  })
+  await waitFor(() => {
+    expect(hook.result.current.output.isLoading).toBe(false)
+  })
+  return hook
+}
+
+const listParams = (filter: object) => ({
+  page: 1,
+  pageSize: 10,
+  sortBy: 'updatedAt',
+  sortOrder: 'desc',
+  filter,
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useTaskListViewModel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([]))
+    vi.mocked(mockTaskService.isOnline).mockReturnValue(true)
+  })
+
+  // ---------------------------------------------------------------------------
+  // Views
+  // ---------------------------------------------------------------------------
+
+  it('loads the tasks assigned to the current user for My Tasks', async () => {
+    vi.mocked(mockTaskService.getList).mockResolvedValue(
+      createPaginatedResponse([createMockTask(), createMockTask({ id: '2', title: 'Review budget' })])
+    )
+
+    const { result } = await renderLoaded('my', '7')
+
+    expect(result.current.output.tasks).toHaveLength(2)
+    expect(result.current.output.view).toBe('my')
+    expect(mockTaskService.getList).toHaveBeenCalledWith(listParams({ assigneeId: '7' }), undefined, {
+      policy: 'stale-while-revalidate',
+    })
+  })
+
+  it('loads high priority tasks for the Important view', async () => {
+    await renderLoaded('important')
+
+    expect(mockTaskService.getList).toHaveBeenCalledWith(listParams({ priority: 'high' }), undefined, {
+      policy: 'stale-while-revalidate',
+    })
+  })
+
+  it('loads every task, most recently updated first, for the Recent view', async () => {
+    await renderLoaded('recent')
+
+    expect(mockTaskService.getList).toHaveBeenCalledWith(listParams({}), undefined, {
+      policy: 'stale-while-revalidate',
+    })
+  })
+
+  it('shows the service error when loading fails', async () => {
+    vi.mocked(mockTaskService.getList).mockResolvedValue({ success: false, error: 'Network down' })
+
+    const { result } = await renderLoaded()
+
+    expect(result.current.output.error).toBe('Network down')
+  })
+
+  it('refreshes from the network', async () => {
+    const { result } = await renderLoaded('recent')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'REFRESH_TASKS' })
+    })
+
+    expect(mockTaskService.getList).toHaveBeenLastCalledWith(listParams({}), undefined, { policy: 'network-first' })
+  })
+
+  it('filters the page on screen by search query', async () => {
+    vi.mocked(mockTaskService.getList).mockResolvedValue(
+      createPaginatedResponse([createMockTask(), createMockTask({ id: '2', title: 'Call vendor', description: '' })])
+    )
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_SEARCH_QUERY', query: 'quarterly' })
+    })
+
+    expect(result.current.output.filteredTasks.map((t) => t.id)).toEqual(['1'])
+  })
+
+  // ---------------------------------------------------------------------------
+  // Workflow and delete
+  // ---------------------------------------------------------------------------
+
+  it('moves a task forward at once', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([task]))
+    vi.mocked(mockTaskService.transition).mockResolvedValue({ success: true, data: { ...task, status: 'in-progress' } })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'MOVE_TASK', task, status: 'in-progress' })
+    })
+
+    expect(mockTaskService.transition).toHaveBeenCalledWith('1', 'in-progress')
+    expect(result.current.output.tasks[0].status).toBe('in-progress')
+  })
+
+  it('puts the status back and shows a toast when a move is refused', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([task]))
+    vi.mocked(mockTaskService.transition).mockResolvedValue({
+      success: false,
+      error: 'A task cannot move from todo to done',
+    })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'MOVE_TASK', task, status: 'done' })
+    })
+
+    expect(result.current.output.tasks[0].status).toBe('todo')
+    expect(mockShowToast).toHaveBeenCalledWith('A task cannot move from todo to done', 'error')
+  })
+
+  it('deletes a task and removes it from the list', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([task]))
+    vi.mocked(mockTaskService.delete).mockResolvedValue({ success: true })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DELETE_TASK', task })
+    })
+
+    expect(result.current.output.tasks).toHaveLength(0)
+    expect(result.current.output.totalItems).toBe(0)
+    expect(result.current.output.successMessage).toBe('Task Write report deleted successfully')
+  })
+
+  it('brings the row back and shows a toast when a delete fails', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([task]))
+    vi.mocked(mockTaskService.delete).mockResolvedValue({ success: false, error: 'Forbidden' })
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'DELETE_TASK', task })
+    })
+
+    expect(result.current.output.tasks).toEqual([task])
+    expect(result.current.output.successMessage).toBeNull()
+    expect(mockShowToast).toHaveBeenCalledWith('Forbidden', 'error')
+  })
+
+  // ---------------------------------------------------------------------------
+  // Navigation
+  // ---------------------------------------------------------------------------
+
+  it('navigates to the create, detail and edit pages', async () => {
+    const { result } = await renderLoaded()
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_CREATE' })
+    })
+    expect(mockNavigate).toHaveBeenLastCalledWith('/tasks/new')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_DETAIL', id: '7' })
+    })
+    expect(mockNavigate).toHaveBeenLastCalledWith('/tasks/7')
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'NAVIGATE_TO_EDIT', id: '7' })
+    })
+    expect(mockNavigate).toHaveBeenLastCalledWith('/tasks/7/edit')
+  })
+
+  // ---------------------------------------------------------------------------
+  // Live updates and ID reconciliation
+  // ---------------------------------------------------------------------------
+
+  it('drops a task reassigned elsewhere from My Tasks', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([task]))
+    const { result } = await renderLoaded('my', '1')
+
+    act(() => {
+      mockUpdates.next({ type: 'update', task: { ...task, assigneeId: '2' } })
+    })
+
+    expect(result.current.output.tasks).toHaveLength(0)
+  })
+
+  it('drops a task lowered from high priority from the Important view', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([task]))
+    const { result } = await renderLoaded('important')
+
+    act(() => {
+      mockUpdates.next({ type: 'update', task: { ...task, priority: 'normal' } })
+    })
+
+    expect(result.current.output.tasks).toHaveLength(0)
+  })
+
+  it('replaces a task updated elsewhere', async () => {
+    const task = createMockTask()
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([task]))
+    const { result } = await renderLoaded('recent')
+
+    act(() => {
+      mockUpdates.next({ type: 'update', task: { ...task, status: 'review' } })
+    })
+
+    expect(result.current.output.tasks[0].status).toBe('review')
+  })
+
+  it('ignores a revalidated page of another view', async () => {
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([createMockTask()]))
+    const { result } = await renderLoaded('important')
+
+    act(() => {
+      mockUpdates.next({
+        type: 'list',
+        params: { page: 1, pageSize: 10, sortBy: 'updatedAt', sortOrder: 'desc', filter: {} },
+        list: createPaginatedResponse([]).data!,
+      })
+    })
+
+    expect(result.current.output.tasks).toHaveLength(1)
+  })
+
+  it('remaps offline task IDs to server IDs', async () => {
+    vi.mocked(mockTaskService.getList).mockResolvedValue(createPaginatedResponse([createMockTask({ id: 'offline_1' })]))
+    const { result } = await renderLoaded()
+
+    act(() => {
+      mockIdMappings.next({ entity: 'task', tempId: 'offline_1', serverId: '42', timestamp: Date.now() })
+    })
+
+    expect(result.current.output.tasks[0].id).toBe('42')
+  })
+})
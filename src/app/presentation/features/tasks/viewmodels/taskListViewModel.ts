@@ -0,0 +1,502 @@
+// =============================================================================
+// Task List ViewModel - UDF Input/Output/Effect Pattern
+// =============================================================================
+// Implements strict Unidirectional Data Flow:
+// - Input: Discriminated union of all possible user actions
+// - Output: Immutable state derived from reducer
+// - Effect: Side effects triggered by state changes (navigation, toasts, etc.)
+//
+// Data Flow: UI -> Input -> Reducer -> Output -> UI
+//            Effect handles side effects outside the main flow
+//
+// Serves the My, Recent and Important views; `view` picks the filter.
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  TaskPriority,
+  type Task,
+  type TaskFilter,
+  type TaskListParams,
+  type TaskStatus,
+} from '@/app/domain/entities/task.model'
+import type { PaginatedResponse } from '@/app/domain/entities/pagination.model'
+import type { ReadPolicy } from '@/app/domain/entities/read-policy.model'
+import { useTaskService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+
+/**
+ * Task list views advertised in the navigation
+ * - my: assigned to the signed-in user
+ * - recent: every task, most recently updated first
+ * - important: high priority tasks
+ */
+export type TaskListView = 'my' | 'recent' | 'important'
+
+// =============================================================================
+// Input Types (User Actions)
+// =============================================================================
+
+export type TaskListInput =
+  | { type: 'LOAD_TASKS'; page?: number }
+  | { type: 'REFRESH_TASKS' }
+  | { type: 'SET_SEARCH_QUERY'; query: string }
+  | { type: 'CLEAR_SEARCH' }
+  | { type: 'CHANGE_PAGE'; page: number }
+  | { type: 'MOVE_TASK'; task: Task; status: TaskStatus }
+  | { type: 'DELETE_TASK'; task: Task }
+  | { type: 'DISMISS_ERROR' }
+  | { type: 'DISMISS_SUCCESS' }
+  | { type: 'NAVIGATE_TO_CREATE' }
+  | { type: 'NAVIGATE_TO_DETAIL'; id: string }
+  | { type: 'NAVIGATE_TO_EDIT'; id: string }
+
+// =============================================================================
+// Output Types (State)
+// =============================================================================
+
+export interface TaskListOutput {
+  // Core data
+  tasks: Task[]
+  view: TaskListView
+  totalPages: number
+  totalItems: number
+  currentPage: number
+  pageSize: number
+  searchQuery: string
+
+  // UI state
+  isLoading: boolean
+  isRefreshing: boolean
+  error: string | null
+  successMessage: string | null
+  isOnline: boolean
+
+  // Computed values
+  filteredTasks: Task[]
+  startItem: number
+  endItem: number
+}
+
+// =============================================================================
+// Effect Types (Side Effects)
+// =============================================================================
+
+export type TaskListEffect =
+  | { type: 'NAVIGATE'; path: string }
+  | { type: 'AUTO_DISMISS_SUCCESS'; delay: number }
+
+// =============================================================================
+// Internal State (Reducer State)
+// =============================================================================
+
+interface TaskListState {
+  tasks: Task[]
+  view: TaskListView
+  filter: TaskFilter
+  totalPages: number
+  totalItems: number
+  currentPage: number
+  pageSize: number
+  searchQuery: string
+  isLoading: boolean
+  isRefreshing: boolean
+  error: string | null
+  successMessage: string | null
+  isOnline: boolean
+  pendingEffect: TaskListEffect | null
+}
+
+// =============================================================================
+// Internal Actions (Reducer Actions)
+// =============================================================================
+
+type TaskListAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_REFRESHING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SUCCESS'; payload: string | null }
+  | { type: 'SET_SEARCH'; payload: string }
+  | { type: 'SET_PAGE'; payload: number }
+  | { type: 'SET_TASKS'; payload: PaginatedResponse<Task> }
+  | {
+      type: 'TASKS_REVALIDATED'
+      payload: { params: TaskListParams; search?: string; list: PaginatedResponse<Task> }
+    }
+  | { type: 'REMOVE_TASK'; payload: string }
+  | { type: 'REPLACE_TASK'; payload: Task }
+  | { type: 'REMAP_TASK_ID'; payload: { tempId: string; serverId: string } }
+  | { type: 'SET_ONLINE'; payload: boolean }
+  | { type: 'SET_EFFECT'; payload: TaskListEffect | null }
+  | { type: 'CLEAR_EFFECT' }
+
+// =============================================================================
+// View Filters
+// =============================================================================
+
+function viewFilter(view: TaskListView, currentUserId: string | undefined): TaskFilter {
+  switch (view) {
+    case 'my':
+      return { assigneeId: currentUserId }
+    case 'important':
+      return { priority: TaskPriority.HIGH }
+    case 'recent':
+      return {}
+  }
+}
+
+function matchesFilter(task: Task, filter: TaskFilter): boolean {
+  return (Object.entries(filter) as [keyof TaskFilter, TaskFilter[keyof TaskFilter]][]).every(
+    ([field, value]) => value === undefined || task[field] === value
+  )
+}
+
+function sameFilter(a: TaskFilter | undefined, b: TaskFilter): boolean {
+  const keys = new Set([...Object.keys(a ?? {}), ...Object.keys(b)]) as Set<keyof TaskFilter>
+  return [...keys].every((key) => a?.[key] === b[key])
+}
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+function createInitialState(view: TaskListView, currentUserId: string | undefined): TaskListState {
+  return {
+    tasks: [],
+    view,
+    filter: viewFilter(view, currentUserId),
+    totalPages: 1,
+    totalItems: 0,
+    currentPage: 1,
+    pageSize: 10,
+    searchQuery: '',
+    isLoading: true,
+    isRefreshing: false,
+    error: null,
+    successMessage: null,
+    isOnline: true,
+    pendingEffect: null,
+  }
+}
+
+function taskListReducer(state: TaskListState, action: TaskListAction): TaskListState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload, error: null }
+    case 'SET_REFRESHING':
+      return { ...state, isRefreshing: action.payload }
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false, isRefreshing: false }
+    case 'SET_SUCCESS':
+      return { ...state, successMessage: action.payload }
+    case 'SET_SEARCH':
+      return { ...state, searchQuery: action.payload }
+    case 'SET_PAGE':
+      return { ...state, currentPage: action.payload }
+    case 'SET_TASKS':
+      return {
+        ...state,
+        tasks: action.payload.data,
+        totalPages: action.payload.totalPages,
+        totalItems: action.payload.total,
+        currentPage: action.payload.page,
+        isLoading: false,
+        isRefreshing: false,
+      }
+    case 'TASKS_REVALIDATED': {
+      // Only the page on screen; a refresh of a page left since is dropped
+      const { params, search, list } = action.payload
+      const onScreen =
+        params.page === state.currentPage &&
+        params.pageSize === state.pageSize &&
+        sameFilter(params.filter, state.filter) &&
+        (search ?? '') === state.searchQuery
+      if (!onScreen) return state
+      return {
+        ...state,
+        tasks: list.data,
+        totalPages: list.totalPages,
+        totalItems: list.total,
+      }
+    }
+    case 'REMOVE_TASK':
+      if (!state.tasks.some((t) => t.id === action.payload)) return state
+      return {
+        ...state,
+        tasks: state.tasks.filter((t) => t.id !== action.payload),
+        totalItems: state.totalItems - 1,
+      }
+    case 'REPLACE_TASK':
+      // A task reassigned or reprioritised out of this view leaves it
+      if (!matchesFilter(action.payload, state.filter)) {
+        return taskListReducer(state, { type: 'REMOVE_TASK', payload: action.payload.id })
+      }
+      return {
+        ...state,
+        tasks: state.tasks.map((t) => (t.id === action.payload.id ? action.payload : t)),
+      }
+    case 'REMAP_TASK_ID':
+      return {
+        ...state,
+        tasks: state.tasks.map((t) =>
+          t.id === action.payload.tempId ? { ...t, id: action.payload.serverId } : t
+        ),
+      }
+    case 'SET_ONLINE':
+      return { ...state, isOnline: action.payload }
+    case 'SET_EFFECT':
+      return { ...state, pendingEffect: action.payload }
+    case 'CLEAR_EFFECT':
+      return { ...state, pendingEffect: null }
+    default:
+      return state
+  }
+}
+
+// =============================================================================
+// Computed Values (Derived from State)
+// =============================================================================
+
+function computeFilteredTasks(tasks: Task[], searchQuery: string): Task[] {
+  if (!searchQuery) return tasks
+  const query = searchQuery.toLowerCase()
+  return tasks.filter(
+    (task) => task.title.toLowerCase().includes(query) || task.description.toLowerCase().includes(query)
+  )
+}
+
+function computePaginationInfo(currentPage: number, pageSize: number, totalItems: number) {
+  const startItem = totalItems > 0 ? (currentPage - 1) * pageSize + 1 : 0
+  const endItem = Math.min(currentPage * pageSize, totalItems)
+  return { startItem, endItem }
+}
+
+// =============================================================================
+// ViewModel Hook
+// =============================================================================
+
+export interface UseTaskListViewModel {
+  output: TaskListOutput
+  dispatch: (input: TaskListInput) => Promise<void>
+}
+
+export function useTaskListViewModel(view: TaskListView = 'my', currentUserId?: string): UseTaskListViewModel {
+  const navigate = useNavigate()
+  const taskService = useTaskService()
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(
+    taskListReducer,
+    createInitialState(view, currentUserId)
+  )
+  const isInitialMount = useRef(true)
+
+  // ==========================================================================
+  // Effect Handler (Processes Side Effects)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!state.pendingEffect) return
+
+    const effect = state.pendingEffect
+
+    switch (effect.type) {
+      case 'NAVIGATE':
+        navigate(effect.path)
+        break
+      case 'AUTO_DISMISS_SUCCESS':
+        setTimeout(() => {
+          internalDispatch({ type: 'SET_SUCCESS', payload: null })
+        }, effect.delay)
+        break
+    }
+
+    internalDispatch({ type: 'CLEAR_EFFECT' })
+  }, [state.pendingEffect, navigate, internalDispatch])
+
+  // ==========================================================================
+  // Input Handler (Processes User Actions)
+  // ==========================================================================
+
+  // Helper: fetch tasks and dispatch result
+  const fetchTasks = useCallback(
+    async (page: number, errorMessage: string, policy: ReadPolicy) => {
+      const result = await taskService.getList(
+        {
+          page,
+          pageSize: state.pageSize,
+          sortBy: 'updatedAt',
+          sortOrder: 'desc',
+          filter: state.filter,
+        },
+        state.searchQuery || undefined,
+        { policy }
+      )
+      if (result.success && result.data) {
+        internalDispatch({ type: 'SET_TASKS', payload: result.data })
+      } else {
+        internalDispatch({ type: 'SET_ERROR', payload: result.error || errorMessage })
+      }
+    },
+    [state.pageSize, state.filter, state.searchQuery, taskService, internalDispatch]
+  )
+
+  // Helper: move along the workflow (the badge changes at once and back on failure)
+  const handleMoveTask = useCallback(
+    async (task: Task, status: TaskStatus) => {
+      await runOptimistic({
+        update: (current) => taskListReducer(current, { type: 'REPLACE_TASK', payload: { ...task, status } }),
+        mutate: () => taskService.transition(task.id, status),
+        errorMessage: 'Failed to update task status',
+      })
+    },
+    [taskService, runOptimistic]
+  )
+
+  // Helper: delete (the row goes at once and comes back on failure)
+  const handleDeleteTask = useCallback(
+    async (task: Task) => {
+      const result = await runOptimistic({
+        update: (current) => taskListReducer(current, { type: 'REMOVE_TASK', payload: task.id }),
+        mutate: () => taskService.delete(task.id),
+        errorMessage: 'Failed to delete task',
+      })
+      if (result.success) {
+        internalDispatch({ type: 'SET_SUCCESS', payload: `Task ${task.title} deleted successfully` })
+        internalDispatch({
+          type: 'SET_EFFECT',
+          payload: { type: 'AUTO_DISMISS_SUCCESS', delay: 5000 },
+        })
+      }
+    },
+    [taskService, internalDispatch, runOptimistic]
+  )
+
+  const dispatch = useCallback(
+    async (input: TaskListInput) => {
+      switch (input.type) {
+        case 'LOAD_TASKS':
+          internalDispatch({ type: 'SET_LOADING', payload: true })
+          // Cached page at once; a fresher one arrives through updates$
+          await fetchTasks(input.page ?? state.currentPage, 'Failed to load tasks', 'stale-while-revalidate')
+          break
+        case 'REFRESH_TASKS':
+          internalDispatch({ type: 'SET_REFRESHING', payload: true })
+          await fetchTasks(state.currentPage, 'Failed to refresh tasks', 'network-first')
+          break
+        case 'SET_SEARCH_QUERY':
+          internalDispatch({ type: 'SET_SEARCH', payload: input.query })
+          break
+        case 'CLEAR_SEARCH':
+          internalDispatch({ type: 'SET_SEARCH', payload: '' })
+          break
+        case 'CHANGE_PAGE':
+          if (input.page >= 1 && input.page <= state.totalPages) {
+            internalDispatch({ type: 'SET_PAGE', payload: input.page })
+            internalDispatch({ type: 'SET_LOADING', payload: true })
+            await fetchTasks(input.page, 'Failed to load tasks', 'stale-while-revalidate')
+          }
+          break
+        case 'MOVE_TASK':
+          await handleMoveTask(input.task, input.status)
+          break
+        case 'DELETE_TASK':
+          await handleDeleteTask(input.task)
+          break
+        case 'DISMISS_ERROR':
+          internalDispatch({ type: 'SET_ERROR', payload: null })
+          break
+        case 'DISMISS_SUCCESS':
+          internalDispatch({ type: 'SET_SUCCESS', payload: null })
+          break
+        case 'NAVIGATE_TO_CREATE':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: '/tasks/new' } })
+          break
+        case 'NAVIGATE_TO_DETAIL':
+          internalDispatch({ type: 'SET_EFFECT', payload: { type: 'NAVIGATE', path: `/tasks/${input.id}` } })
+          break
+        case 'NAVIGATE_TO_EDIT':
+          internalDispatch({
+            type: 'SET_EFFECT',
+            payload: { type: 'NAVIGATE', path: `/tasks/${input.id}/edit` },
+          })
+          break
+      }
+    },
+    [state.currentPage, state.totalPages, fetchTasks, handleMoveTask, handleDeleteTask, internalDispatch]
+  )
+
+  // ==========================================================================
+  // Initial Load & Online Status
+  // ==========================================================================
+
+  useEffect(() => {
+    if (isInitialMount.current) {
+      isInitialMount.current = false
+      void dispatch({ type: 'LOAD_TASKS', page: 1 })
+      internalDispatch({ type: 'SET_ONLINE', payload: taskService.isOnline() })
+    }
+  }, [dispatch, taskService, internalDispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = taskService.idMappings$.subscribe(({ tempId, serverId }) => {
+      internalDispatch({ type: 'REMAP_TASK_ID', payload: { tempId, serverId } })
+    })
+    return () => subscription.unsubscribe()
+  }, [taskService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = taskService.updates$.subscribe((change) => {
+      switch (change.type) {
+        case 'update':
+          internalDispatch({ type: 'REPLACE_TASK', payload: change.task })
+          break
+        case 'delete':
+          internalDispatch({ type: 'REMOVE_TASK', payload: change.task.id })
+          break
+        case 'create':
+          // Where the new task lands depends on the server's ordering
+          void dispatch({ type: 'REFRESH_TASKS' })
+          break
+        case 'list':
+          internalDispatch({ type: 'TASKS_REVALIDATED', payload: change })
+          break
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [dispatch, taskService, internalDispatch])
+
+  // ==========================================================================
+  // Computed Output
+  // ==========================================================================
+
+  const filteredTasks = computeFilteredTasks(state.tasks, state.searchQuery)
+  const { startItem, endItem } = computePaginationInfo(state.currentPage, state.pageSize, state.totalItems)
+
+  const output: TaskListOutput = {
+    tasks: state.tasks,
+    view: state.view,
+    totalPages: state.totalPages,
+    totalItems: state.totalItems,
+    currentPage: state.currentPage,
+    pageSize: state.pageSize,
+    searchQuery: state.searchQuery,
+    isLoading: state.isLoading,
+    isRefreshing: state.isRefreshing,
+    error: state.error,
+    successMessage: state.successMessage,
+    isOnline: state.isOnline,
+    filteredTasks,
+    startItem,
+    endItem,
+  }
+
+  return { output, dispatch }
+}
@@ -4,6 +4,8 @@ import userEvent from '@testing-library/user-event'
 import { MemoryRouter, Route, Routes } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createTestContainer } from '@/test/mocks/authService'
 import { UserDetailComponent } from './UserDetailComponent'
 import type { UserDetailOutput } from '../viewmodels/userDetailViewModel'
 import type { User } from '@/app/domain/entities/user.model'
@@ -51,11 +53,13 @@ function renderWithProviders(ui: React.ReactElement, { route = '/users/42' } = {
   return render(
     <MemoryRouter initialEntries={[route]}>
       <I18nProvider>
-        <AuthProvider>
-          <Routes>
-            <Route path="/users/:id" element={ui} />
-          </Routes>
-        </AuthProvider>
+        <DIProvider container={createTestContainer()}>
+          <AuthProvider>
+            <Routes>
+              <Route path="/users/:id" element={ui} />
+            </Routes>
+          </AuthProvider>
+        </DIProvider>
       </I18nProvider>
     </MemoryRouter>
   )
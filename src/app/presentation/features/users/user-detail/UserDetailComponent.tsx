@@ -8,6 +8,7 @@
 
 import { useParams, Link } from 'react-router-dom'
 import { useI18n } from '@core/providers/I18nProvider'
+import { Can } from '@shared/components/Can/Can'
 import { useUserDetailViewModel } from '../viewmodels/userDetailViewModel'
 
 export function UserDetailComponent() {
@@ -212,30 +213,34 @@ export function UserDetailComponent() {
                   {t('user.detail.back.to.list')}
                 </Link>
                 <div className="btn-group">
-                  <button
-                    className="btn btn-outline-danger"
-                    onClick={handleDelete}
-                    disabled={output.isDeleting}
-                  >
-                    {output.isDeleting ? (
-                      <>
-                        <output className="spinner-border spinner-border-sm me-2"></output>
-                        {t('common.deleting')}
-                      </>
-                    ) : (
-                      <>
-                        <i className="bi bi-trash me-2"></i>
-                        {t('common.delete')}
-                      </>
-                    )}
-                  </button>
-                  <button
-                    className="btn btn-primary"
-                    onClick={handleNavigateToEdit}
-                  >
-                    <i className="bi bi-pencil me-2"></i>
-                    {t('user.detail.edit.user')}
-                  </button>
+                  <Can permission="user:delete">
+                    <button
+                      className="btn btn-outline-danger"
+                      onClick={handleDelete}
+                      disabled={output.isDeleting}
+                    >
+                      {output.isDeleting ? (
+                        <>
+                          <output className="spinner-border spinner-border-sm me-2"></output>
+                          {t('common.deleting')}
+                        </>
+                      ) : (
+                        <>
+                          <i className="bi bi-trash me-2"></i>
+                          {t('common.delete')}
+                        </>
+                      )}
+                    </button>
+                  </Can>
+                  <Can permission="user:update">
+                    <button
+                      className="btn btn-primary"
+                      onClick={handleNavigateToEdit}
+                    >
+                      <i className="bi bi-pencil me-2"></i>
+                      {t('user.detail.edit.user')}
+                    </button>
+                  </Can>
                 </div>
               </div>
             </div>
@@ -4,6 +4,8 @@ import userEvent from '@testing-library/user-event'
 import { MemoryRouter, Route, Routes } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createTestContainer } from '@/test/mocks/authService'
 import { UserFormComponent } from './UserFormComponent'
 import type { UserFormOutput } from '../viewmodels/userFormViewModel'
 
@@ -46,12 +48,14 @@ function renderWithProviders(ui: React.ReactElement, { route = '/users/new' } =
   return render(
     <MemoryRouter initialEntries={[route]}>
       <I18nProvider>
-        <AuthProvider>
-          <Routes>
-            <Route path="/users/new" element={ui} />
-            <Route path="/users/:id/edit" element={ui} />
-          </Routes>
-        </AuthProvider>
+        <DIProvider container={createTestContainer()}>
+          <AuthProvider>
+            <Routes>
+              <Route path="/users/new" element={ui} />
+              <Route path="/users/:id/edit" element={ui} />
+            </Routes>
+          </AuthProvider>
+        </DIProvider>
       </I18nProvider>
     </MemoryRouter>
   )
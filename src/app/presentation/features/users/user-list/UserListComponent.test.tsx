@@ -4,6 +4,9 @@ import userEvent from '@testing-library/user-event'
 import { BrowserRouter } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
 import { UserListComponent } from './UserListComponent'
 import type { UserListOutput } from '../viewmodels/userListViewModel'
 import type { User } from '@/app/domain/entities/user.model'
@@ -65,11 +68,14 @@ vi.mock('../viewmodels/userListViewModel', () => ({
 // Test helpers
 // ---------------------------------------------------------------------------
 
-function renderWithProviders(ui: React.ReactElement) {
+function renderWithProviders(ui: React.ReactElement, role: UserRole = 'Admin') {
+  const { service } = createMockAuthService({ ...TEST_USER, role })
   return render(
     <BrowserRouter>
       <I18nProvider>
-        <AuthProvider>{ui}</AuthProvider>
+        <DIProvider container={createTestContainer(service)}>
+          <AuthProvider>{ui}</AuthProvider>
+        </DIProvider>
       </I18nProvider>
     </BrowserRouter>
   )
@@ -286,6 +292,21 @@ describe('UserListComponent', () => {
     confirmSpy.mockRestore()
   })
 
+  it('hides Delete from roles without user:delete', () => {
+    renderWithProviders(<UserListComponent />, 'User')
+
+    expect(screen.queryAllByTitle('Delete')).toHaveLength(0)
+    expect(screen.getAllByTitle('Edit').length).toBeGreaterThan(0)
+  })
+
+  it('shows Guests a read-only list', () => {
+    renderWithProviders(<UserListComponent />, 'Guest')
+
+    expect(screen.queryByRole('link', { name: /Create New User/i })).not.toBeInTheDocument()
+    expect(screen.queryAllByTitle('Edit')).toHaveLength(0)
+    expect(screen.getAllByTitle('View').length).toBeGreaterThan(0)
+  })
+
   it('dispatches NAVIGATE_TO_DETAIL when view button is clicked', async () => {
     const user = userEvent.setup()
     renderWithProviders(<UserListComponent />)
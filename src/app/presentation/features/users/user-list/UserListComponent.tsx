@@ -8,6 +8,7 @@
 
 import { Link } from 'react-router-dom'
 import { useI18n } from '@core/providers/I18nProvider'
+import { Can } from '@shared/components/Can/Can'
 import { useUserListViewModel } from '../viewmodels/userListViewModel'
 import type { User } from '@/app/domain/entities/user.model'
 import './UserListComponent.scss'
@@ -80,10 +81,12 @@ export function UserListComponent() {
           <h2 className="mb-1">{t('user.list.title')}</h2>
           <p className="text-muted mb-0">{t('user.list.subtitle')}</p>
         </div>
-        <Link to="/users/new" className="btn btn-primary">
-          <i className="bi bi-plus-lg me-2"></i>
-          {t('user.list.create')}
-        </Link>
+        <Can permission="user:create">
+          <Link to="/users/new" className="btn btn-primary">
+            <i className="bi bi-plus-lg me-2"></i>
+            {t('user.list.create')}
+          </Link>
+        </Can>
       </div>
 
       {/* Alerts */}
@@ -164,10 +167,12 @@ export function UserListComponent() {
               {output.searchQuery ? t('user.list.empty.search') : t('user.list.empty.message')}
             </p>
             {!output.searchQuery && (
-              <Link to="/users/new" className="btn btn-primary mt-3">
-                <i className="bi bi-plus-lg me-2"></i>
-                {t('user.list.create')}
-              </Link>
+              <Can permission="user:create">
+                <Link to="/users/new" className="btn btn-primary mt-3">
+                  <i className="bi bi-plus-lg me-2"></i>
+                  {t('user.list.create')}
+                </Link>
+              </Can>
             )}
           </div>
         </div>
@@ -225,20 +230,24 @@ export function UserListComponent() {
                           >
                             <i className="bi bi-eye"></i>
                           </button>
-                          <button
-                            className="btn btn-outline-secondary"
-                            onClick={() => handleEditUser(user)}
-                            title={t('common.edit')}
-                          >
-                            <i className="bi bi-pencil"></i>
-                          </button>
-                          <button
-                            className="btn btn-outline-danger"
-                            onClick={() => handleDeleteUser(user)}
-                            title={t('common.delete')}
-                          >
-                            <i className="bi bi-trash"></i>
-                          </button>
+                          <Can permission="user:update">
+                            <button
+                              className="btn btn-outline-secondary"
+                              onClick={() => handleEditUser(user)}
+                              title={t('common.edit')}
+                            >
+                              <i className="bi bi-pencil"></i>
+                            </button>
+                          </Can>
+                          <Can permission="user:delete">
+                            <button
+                              className="btn btn-outline-danger"
+                              onClick={() => handleDeleteUser(user)}
+                              title={t('common.delete')}
+                            >
+                              <i className="bi bi-trash"></i>
+                            </button>
+                          </Can>
                         </div>
                       </td>
                     </tr>
@@ -285,18 +294,22 @@ export function UserListComponent() {
                     >
                       <i className="bi bi-eye me-1"></i>{t('common.view')}
                     </button>
-                    <button
-                      className="btn btn-outline-secondary btn-sm flex-fill"
-                      onClick={() => handleEditUser(user)}
-                    >
-                      <i className="bi bi-pencil me-1"></i>{t('common.edit')}
-                    </button>
-                    <button
-                      className="btn btn-outline-danger btn-sm"
-                      onClick={() => handleDeleteUser(user)}
-                    >
-                      <i className="bi bi-trash"></i>
-                    </button>
+                    <Can permission="user:update">
+                      <button
+                        className="btn btn-outline-secondary btn-sm flex-fill"
+                        onClick={() => handleEditUser(user)}
+                      >
+                        <i className="bi bi-pencil me-1"></i>{t('common.edit')}
+                      </button>
+                    </Can>
+                    <Can permission="user:delete">
+                      <button
+                        className="btn btn-outline-danger btn-sm"
+                        onClick={() => handleDeleteUser(user)}
+                      >
+                        <i className="bi bi-trash"></i>
+                      </button>
+                    </Can>
                   </div>
                 </div>
               </div>
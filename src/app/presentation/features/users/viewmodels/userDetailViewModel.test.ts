@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { renderHook, act, waitFor } from '@testing-library/react'
 import type { User } from '@/app/domain/entities/user.model'
-import type { UserService } from '@/app/domain/services/userService'
+import type { ServiceResult, UserChange, UserService } from '@/app/domain/services/userService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
 
 // =============================================================================
 // Mocks
@@ -12,6 +14,9 @@ vi.mock('react-router-dom', () => ({
   useNavigate: () => mockNavigate,
 }))
 
+const mockIdMappings = new Subject<IdMapping>()
+const mockUpdates = new Subject<UserChange>()
+
 const mockUserService: UserService = {
   getById: vi.fn(),
   getList: vi.fn(),
@@ -21,12 +26,19 @@ const mockUserService: UserService = {
   isOnline: vi.fn().mockReturnValue(true),
   syncPendingOperations: vi.fn(),
   clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: mockUpdates.asObservable(),
 }
 
 vi.mock('@/app/core/di', () => ({
   useUserService: () => mockUserService,
 }))
 
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
 import { useUserDetailViewModel } from './userDetailViewModel'
 
 // =============================================================================
@@ -84,7 +96,7 @@ describe('useUserDetailViewModel', () => {
     expect(result.current.output.user).toEqual(user)
     expect(result.current.output.fullName).toBe('John Doe')
     expect(result.current.output.initials).toBe('JD')
-    expect(mockUserService.getById).toHaveBeenCalledWith('1')
+    expect(mockUserService.getById).toHaveBeenCalledWith('1', { policy: 'stale-while-revalidate' })
   })
 
   it('should have correct initial output shape', async () => {
@@ -230,6 +242,40 @@ describe('useUserDetailViewModel', () => {
     expect(mockUserService.delete).toHaveBeenCalledWith('1')
   })
 
+  it('should confirm the delete before the service resolves', async () => {
+    const user = createMockUser({ firstName: 'John', lastName: 'Doe' })
+    vi.mocked(mockUserService.getById).mockResolvedValue({ success: true, data: user })
+
+    const { result } = renderHook(() => useUserDetailViewModel('1'))
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    let resolveDelete!: (result: ServiceResult<void>) => void
+    vi.mocked(mockUserService.delete).mockReturnValue(
+      new Promise((resolve) => {
+        resolveDelete = resolve
+      })
+    )
+
+    let pending!: Promise<void>
+    act(() => {
+      pending = result.current.dispatch({ type: 'DELETE_USER' })
+    })
+
+    expect(result.current.output.successMessage).toBe('User John Doe deleted successfully')
+    expect(result.current.output.isDeleting).toBe(true)
+
+    await act(async () => {
+      resolveDelete({ success: false, error: 'Cannot delete admin user' })
+      await pending
+    })
+
+    expect(result.current.output.successMessage).toBeNull()
+    expect(result.current.output.user).toEqual(user)
+  })
+
   it('should handle delete user error', async () => {
     const user = createMockUser()
     vi.mocked(mockUserService.getById).mockResolvedValue({
@@ -256,8 +302,10 @@ describe('useUserDetailViewModel', () => {
       await result.current.dispatch({ type: 'DELETE_USER' })
     })
 
-    expect(result.current.output.error).toBe('Cannot delete admin user')
+    expect(mockShowToast).toHaveBeenCalledWith('Cannot delete admin user', 'error')
+    expect(result.current.output.successMessage).toBeNull()
     expect(result.current.output.isDeleting).toBe(false)
+    expect(mockNavigate).not.toHaveBeenCalled()
   })
 
   it('should use fallback error when delete returns no error text', async () => {
@@ -285,7 +333,7 @@ describe('useUserDetailViewModel', () => {
       await result.current.dispatch({ type: 'DELETE_USER' })
     })
 
-    expect(result.current.output.error).toBe('Failed to delete user')
+    expect(mockShowToast).toHaveBeenCalledWith('Failed to delete user', 'error')
   })
 
   it('should not attempt delete if no user is loaded', async () => {
@@ -488,4 +536,90 @@ describe('useUserDetailViewModel', () => {
 
     expect(result.current.output.successMessage).toContain('deleted successfully')
   })
+
+  // ---------------------------------------------------------------------------
+  // Offline ID Reconciliation
+  // ---------------------------------------------------------------------------
+
+  it('should replace the route and reload when the offline user gets a server ID', async () => {
+    const offlineUser = createMockUser({ id: 'offline_abc' })
+    const syncedUser = createMockUser({ id: '42' })
+    vi.mocked(mockUserService.getById)
+      .mockResolvedValueOnce({ success: true, data: offlineUser })
+      .mockResolvedValueOnce({ success: true, data: syncedUser })
+
+    const { result } = renderHook(() => useUserDetailViewModel('offline_abc'))
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    await act(async () => {
+      mockIdMappings.next({ entity: 'user', tempId: 'offline_abc', serverId: '42', timestamp: Date.now() })
+      await flushPromises()
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/users/42', { replace: true })
+    expect(mockUserService.getById).toHaveBeenLastCalledWith('42', { policy: 'stale-while-revalidate' })
+    expect(result.current.output.user?.id).toBe('42')
+  })
+
+  it('should ignore ID mappings for other users', async () => {
+    vi.mocked(mockUserService.getById).mockResolvedValue({
+      success: true,
+      data: createMockUser(),
+    })
+
+    renderHook(() => useUserDetailViewModel('1'))
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    await act(async () => {
+      mockIdMappings.next({ entity: 'user', tempId: 'offline_other', serverId: '99', timestamp: Date.now() })
+      await flushPromises()
+    })
+
+    expect(mockNavigate).not.toHaveBeenCalled()
+    expect(mockUserService.getById).toHaveBeenCalledTimes(1)
+  })
+
+  // ---------------------------------------------------------------------------
+  // Live Updates
+  // ---------------------------------------------------------------------------
+
+  it('should show changes to the user made in another tab', async () => {
+    vi.mocked(mockUserService.getById).mockResolvedValue({ success: true, data: createMockUser() })
+
+    const { result } = renderHook(() => useUserDetailViewModel('1'))
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    await act(async () => {
+      mockUpdates.next({ type: 'update', user: createMockUser({ firstName: 'Jane' }) })
+      mockUpdates.next({ type: 'update', user: createMockUser({ id: '2', firstName: 'Other' }) })
+    })
+
+    expect(result.current.output.fullName).toBe('Jane Doe')
+  })
+
+  it('should report a user deleted in another tab', async () => {
+    vi.mocked(mockUserService.getById).mockResolvedValue({ success: true, data: createMockUser() })
+
+    const { result } = renderHook(() => useUserDetailViewModel('1'))
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    await act(async () => {
+      mockUpdates.next({ type: 'delete', user: createMockUser() })
+    })
+
+    expect(result.current.output.user).toBeNull()
+    expect(result.current.output.error).toBe('This user was deleted')
+  })
 })
@@ -10,10 +10,11 @@
 //            Effect handles side effects outside the main flow
 // =============================================================================
 
-import { useCallback, useEffect, useReducer, useRef } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import type { User } from '@/app/domain/entities/user.model'
 import { useUserService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
 
 // =============================================================================
 // Input Types (User Actions)
@@ -52,6 +53,7 @@ export interface UserDetailOutput {
 export type UserDetailEffect =
   | { type: 'NAVIGATE'; path: string }
   | { type: 'NAVIGATE_AFTER_DELAY'; path: string; delay: number }
+  | { type: 'REPLACE_ROUTE'; path: string }
 
 // =============================================================================
 // Internal State (Reducer State)
@@ -76,6 +78,8 @@ type UserDetailAction =
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_SUCCESS'; payload: string | null }
   | { type: 'SET_USER'; payload: User | null }
+  | { type: 'USER_UPDATED'; payload: User }
+  | { type: 'USER_REMOVED'; payload: string }
   | { type: 'SET_EFFECT'; payload: UserDetailEffect | null }
   | { type: 'CLEAR_EFFECT' }
 
@@ -104,6 +108,13 @@ function userDetailReducer(state: UserDetailState, action: UserDetailAction): Us
       return { ...state, successMessage: action.payload }
     case 'SET_USER':
       return { ...state, user: action.payload, isLoading: false }
+    case 'USER_UPDATED':
+      if (state.user?.id !== action.payload.id) return state
+      return { ...state, user: action.payload }
+    case 'USER_REMOVED':
+      // A delete started here reports its own outcome
+      if (state.user?.id !== action.payload || state.isDeleting) return state
+      return { ...state, user: null, error: 'This user was deleted' }
     case 'SET_EFFECT':
       return { ...state, pendingEffect: action.payload }
     case 'CLEAR_EFFECT':
@@ -139,7 +150,7 @@ export interface UseUserDetailViewModel {
 export function useUserDetailViewModel(userId: string): UseUserDetailViewModel {
   const navigate = useNavigate()
   const userService = useUserService()
-  const [state, internalDispatch] = useReducer(userDetailReducer, initialState)
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(userDetailReducer, initialState)
   const isInitialMount = useRef(true)
 
   // ==========================================================================
@@ -160,10 +171,13 @@ export function useUserDetailViewModel(userId: string): UseUserDetailViewModel {
           navigate(effect.path)
         }, effect.delay)
         break
+      case 'REPLACE_ROUTE':
+        navigate(effect.path, { replace: true })
+        break
     }
 
     internalDispatch({ type: 'CLEAR_EFFECT' })
-  }, [state.pendingEffect, navigate])
+  }, [state.pendingEffect, navigate, internalDispatch])
 
   // ==========================================================================
   // Input Handler (Processes User Actions)
@@ -175,7 +189,8 @@ export function useUserDetailViewModel(userId: string): UseUserDetailViewModel {
         case 'LOAD_USER': {
           internalDispatch({ type: 'SET_LOADING', payload: true })
 
-          const result = await userService.getById(input.id)
+          // Cached copy at once; a fresher one arrives through updates$
+          const result = await userService.getById(input.id, { policy: 'stale-while-revalidate' })
 
           if (result.success && result.data) {
             internalDispatch({ type: 'SET_USER', payload: result.data })
@@ -187,22 +202,26 @@ export function useUserDetailViewModel(userId: string): UseUserDetailViewModel {
 
         case 'DELETE_USER': {
           if (!state.user) return
+          const { id, firstName, lastName } = state.user
 
+          // Confirmed at once; withdrawn if the delete fails
           internalDispatch({ type: 'SET_DELETING', payload: true })
-
-          const result = await userService.delete(state.user.id)
+          const result = await runOptimistic({
+            update: (current) =>
+              userDetailReducer(current, {
+                type: 'SET_SUCCESS',
+                payload: `User ${firstName} ${lastName} deleted successfully`,
+              }),
+            mutate: () => userService.delete(id),
+            errorMessage: 'Failed to delete user',
+          })
 
           if (result.success) {
-            internalDispatch({
-              type: 'SET_SUCCESS',
-              payload: `User ${state.user.firstName} ${state.user.lastName} deleted successfully`,
-            })
             internalDispatch({
               type: 'SET_EFFECT',
               payload: { type: 'NAVIGATE_AFTER_DELAY', path: '/users', delay: 1500 },
             })
           } else {
-            internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to delete user' })
             internalDispatch({ type: 'SET_DELETING', payload: false })
           }
           break
@@ -221,7 +240,7 @@ export function useUserDetailViewModel(userId: string): UseUserDetailViewModel {
           break
       }
     },
-    [state.user, userService]
+    [state.user, userService, internalDispatch, runOptimistic]
   )
 
   // ==========================================================================
@@ -235,6 +254,37 @@ export function useUserDetailViewModel(userId: string): UseUserDetailViewModel {
     }
   }, [userId, dispatch, userService])
 
+  // ==========================================================================
+  // Offline ID Reconciliation
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = userService.idMappings$.subscribe((mapping) => {
+      if (mapping.tempId !== userId) return
+      internalDispatch({
+        type: 'SET_EFFECT',
+        payload: { type: 'REPLACE_ROUTE', path: `/users/${mapping.serverId}` },
+      })
+      void dispatch({ type: 'LOAD_USER', id: mapping.serverId })
+    })
+    return () => subscription.unsubscribe()
+  }, [userId, dispatch, userService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = userService.updates$.subscribe((change) => {
+      if (change.type === 'update') {
+        internalDispatch({ type: 'USER_UPDATED', payload: change.user })
+      } else if (change.type === 'delete') {
+        internalDispatch({ type: 'USER_REMOVED', payload: change.user.id })
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [userService, internalDispatch])
+
   // ==========================================================================
   // Computed Output
   // ==========================================================================
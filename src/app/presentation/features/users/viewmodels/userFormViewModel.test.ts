@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { renderHook, act, waitFor } from '@testing-library/react'
 import type { User } from '@/app/domain/entities/user.model'
-import type { UserService } from '@/app/domain/services/userService'
+import type { ServiceResult, UserService } from '@/app/domain/services/userService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { EMPTY, Subject } from 'rxjs'
 
 // =============================================================================
 // Mocks
@@ -12,6 +14,8 @@ vi.mock('react-router-dom', () => ({
   useNavigate: () => mockNavigate,
 }))
 
+const mockIdMappings = new Subject<IdMapping>()
+
 const mockUserService: UserService = {
   getById: vi.fn(),
   getList: vi.fn(),
@@ -21,12 +25,19 @@ const mockUserService: UserService = {
   isOnline: vi.fn().mockReturnValue(true),
   syncPendingOperations: vi.fn(),
   clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: EMPTY,
 }
 
 vi.mock('@/app/core/di', () => ({
   useUserService: () => mockUserService,
 }))
 
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
 import { useUserFormViewModel } from './userFormViewModel'
 
 // =============================================================================
@@ -355,7 +366,48 @@ describe('useUserFormViewModel', () => {
       await result.current.dispatch({ type: 'SUBMIT' })
     })
 
-    expect(result.current.output.submitError).toBe('Email already exists')
+    expect(mockShowToast).toHaveBeenCalledWith('Email already exists', 'error')
+    expect(result.current.output.successMessage).toBeNull()
+    expect(result.current.output.isSubmitting).toBe(false)
+    // The entered values stay for another try
+    expect(result.current.output.firstName).toBe('Jane')
+    expect(result.current.output.isDirty).toBe(true)
+  })
+
+  it('should show the form as saved before create resolves', async () => {
+    let resolveCreate!: (result: ServiceResult<User>) => void
+    vi.mocked(mockUserService.create).mockReturnValue(
+      new Promise((resolve) => {
+        resolveCreate = resolve
+      })
+    )
+
+    const { result } = renderHook(() => useUserFormViewModel())
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'firstName', value: 'Jane' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'lastName', value: 'Smith' })
+    })
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'email', value: 'jane@test.com' })
+    })
+
+    let pending!: Promise<void>
+    act(() => {
+      pending = result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(result.current.output.successMessage).toBe('User created successfully')
+    expect(result.current.output.isDirty).toBe(false)
+
+    await act(async () => {
+      resolveCreate({ success: true, data: createMockUser({ id: '9' }) })
+      await pending
+    })
+
+    expect(result.current.output.successMessage).toBe('User created successfully')
     expect(result.current.output.isSubmitting).toBe(false)
   })
 
@@ -380,7 +432,7 @@ describe('useUserFormViewModel', () => {
       await result.current.dispatch({ type: 'SUBMIT' })
     })
 
-    expect(result.current.output.submitError).toBe('Failed to create user')
+    expect(mockShowToast).toHaveBeenCalledWith('Failed to create user', 'error')
   })
 
   // ---------------------------------------------------------------------------
@@ -458,7 +510,17 @@ describe('useUserFormViewModel', () => {
       await result.current.dispatch({ type: 'SUBMIT' })
     })
 
-    expect(result.current.output.submitError).toBe('Server error')
+    expect(mockShowToast).toHaveBeenCalledWith('Server error', 'error')
+    expect(result.current.output.successMessage).toBeNull()
+    expect(result.current.output.firstName).toBe('Updated')
+    expect(result.current.output.isDirty).toBe(true)
+
+    // The loaded values are still the ones RESET goes back to
+    await act(async () => {
+      await result.current.dispatch({ type: 'RESET' })
+    })
+
+    expect(result.current.output.firstName).toBe('John')
   })
 
   it('should use fallback error message on update failure', async () => {
@@ -490,7 +552,7 @@ describe('useUserFormViewModel', () => {
       await result.current.dispatch({ type: 'SUBMIT' })
     })
 
-    expect(result.current.output.submitError).toBe('Failed to update user')
+    expect(mockShowToast).toHaveBeenCalledWith('Failed to update user', 'error')
   })
 
   // ---------------------------------------------------------------------------
@@ -558,25 +620,15 @@ describe('useUserFormViewModel', () => {
   // ---------------------------------------------------------------------------
 
   it('should dismiss submit error', async () => {
-    vi.mocked(mockUserService.create).mockResolvedValue({
+    vi.mocked(mockUserService.getById).mockResolvedValue({
       success: false,
       error: 'Some error',
     })
 
-    const { result } = renderHook(() => useUserFormViewModel())
-
-    await act(async () => {
-      await result.current.dispatch({ type: 'SET_FIELD', field: 'firstName', value: 'Jane' })
-    })
-    await act(async () => {
-      await result.current.dispatch({ type: 'SET_FIELD', field: 'lastName', value: 'Doe' })
-    })
-    await act(async () => {
-      await result.current.dispatch({ type: 'SET_FIELD', field: 'email', value: 'jane@test.com' })
-    })
+    const { result } = renderHook(() => useUserFormViewModel('1'))
 
     await act(async () => {
-      await result.current.dispatch({ type: 'SUBMIT' })
+      await flushPromises()
     })
 
     expect(result.current.output.submitError).toBe('Some error')
@@ -676,4 +728,49 @@ describe('useUserFormViewModel', () => {
 
     expect(result.current.output.avatar).toBe('')
   })
+
+  // ---------------------------------------------------------------------------
+  // Offline ID Reconciliation
+  // ---------------------------------------------------------------------------
+
+  it('should keep edits and submit against the server ID after reconciliation', async () => {
+    const offlineUser = createMockUser({ id: 'offline_abc' })
+    vi.mocked(mockUserService.getById).mockResolvedValue({
+      success: true,
+      data: offlineUser,
+    })
+
+    const { result } = renderHook(() => useUserFormViewModel('offline_abc'))
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    await waitFor(() => {
+      expect(result.current.output.isEditMode).toBe(true)
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SET_FIELD', field: 'firstName', value: 'Edited' })
+    })
+
+    await act(async () => {
+      mockIdMappings.next({ entity: 'user', tempId: 'offline_abc', serverId: '42', timestamp: Date.now() })
+      await flushPromises()
+    })
+
+    expect(mockNavigate).toHaveBeenCalledWith('/users/42/edit', { replace: true })
+    expect(result.current.output.firstName).toBe('Edited')
+
+    vi.mocked(mockUserService.update).mockResolvedValue({
+      success: true,
+      data: createMockUser({ id: '42', firstName: 'Edited' }),
+    })
+
+    await act(async () => {
+      await result.current.dispatch({ type: 'SUBMIT' })
+    })
+
+    expect(mockUserService.update).toHaveBeenCalledWith('42', expect.objectContaining({ firstName: 'Edited' }))
+  })
 })
@@ -10,11 +10,12 @@
 //            Effect handles side effects outside the main flow
 // =============================================================================
 
-import { useCallback, useEffect, useReducer, useRef } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import type { User, CreateUserDto, UpdateUserDto, UserValidationErrors } from '@/app/domain/entities/user.model'
 import { useUserService } from '@/app/core/di'
 import { userValidator } from '@/app/domain/validators/userValidator'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
 
 // =============================================================================
 // Input Types (User Actions)
@@ -61,6 +62,7 @@ export interface UserFormOutput {
 export type UserFormEffect =
   | { type: 'NAVIGATE'; path: string }
   | { type: 'NAVIGATE_AFTER_DELAY'; path: string; delay: number }
+  | { type: 'REPLACE_ROUTE'; path: string }
 
 // =============================================================================
 // Internal State (Reducer State)
@@ -94,7 +96,9 @@ type UserFormAction =
   | { type: 'SET_FIELD_ERROR'; field: keyof UserValidationErrors; error: string | null }
   | { type: 'SET_SUBMIT_ERROR'; payload: string | null }
   | { type: 'SET_SUCCESS'; payload: string | null }
+  | { type: 'SUBMIT_ACCEPTED'; payload: string }
   | { type: 'LOAD_USER'; payload: User }
+  | { type: 'REMAP_USER_ID'; payload: string }
   | { type: 'RESET_FORM' }
   | { type: 'SET_EFFECT'; payload: UserFormEffect | null }
   | { type: 'CLEAR_EFFECT' }
@@ -140,6 +144,20 @@ function userFormReducer(state: UserFormState, action: UserFormAction): UserForm
       return { ...state, submitError: action.payload, isSubmitting: false }
     case 'SET_SUCCESS':
       return { ...state, successMessage: action.payload, isSubmitting: false }
+    case 'SUBMIT_ACCEPTED':
+      // The submitted values become the saved ones
+      return {
+        ...state,
+        successMessage: action.payload,
+        isDirty: false,
+        originalUser: state.originalUser && {
+          ...state.originalUser,
+          firstName: state.firstName,
+          lastName: state.lastName,
+          email: state.email,
+          avatar: state.avatar || undefined,
+        },
+      }
     case 'LOAD_USER':
       return {
         ...state,
@@ -152,6 +170,10 @@ function userFormReducer(state: UserFormState, action: UserFormAction): UserForm
         isLoading: false,
         isDirty: false,
       }
+    case 'REMAP_USER_ID':
+      return state.originalUser
+        ? { ...state, originalUser: { ...state.originalUser, id: action.payload } }
+        : state
     case 'RESET_FORM':
       if (state.originalUser) {
         return {
@@ -200,7 +222,7 @@ export interface UseUserFormViewModel {
 export function useUserFormViewModel(userId?: string): UseUserFormViewModel {
   const navigate = useNavigate()
   const userService = useUserService()
-  const [state, internalDispatch] = useReducer(userFormReducer, initialState)
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(userFormReducer, initialState)
   const isInitialMount = useRef(true)
 
   // ==========================================================================
@@ -221,10 +243,13 @@ export function useUserFormViewModel(userId?: string): UseUserFormViewModel {
           navigate(effect.path)
         }, effect.delay)
         break
+      case 'REPLACE_ROUTE':
+        navigate(effect.path, { replace: true })
+        break
     }
 
     internalDispatch({ type: 'CLEAR_EFFECT' })
-  }, [state.pendingEffect, navigate])
+  }, [state.pendingEffect, navigate, internalDispatch])
 
   // ==========================================================================
   // Input Handler (Processes User Actions)
@@ -274,23 +299,40 @@ export function useUserFormViewModel(userId?: string): UseUserFormViewModel {
         avatar: state.avatar || undefined,
       }
 
-      const result = state.isEditMode && state.originalUser
-        ? await userService.update(state.originalUser.id, dto as UpdateUserDto)
-        : await userService.create(dto as CreateUserDto)
+      const originalUser = state.isEditMode ? state.originalUser : null
+      const message = originalUser ? 'User updated successfully' : 'User created successfully'
+
+      // Shown as saved at once; the edits come back if the server refuses them
+      const result = await runOptimistic({
+        update: (current) => userFormReducer(current, { type: 'SUBMIT_ACCEPTED', payload: message }),
+        mutate: () =>
+          originalUser
+            ? userService.update(originalUser.id, dto as UpdateUserDto)
+            : userService.create(dto as CreateUserDto),
+        errorMessage: originalUser ? 'Failed to update user' : 'Failed to create user',
+      })
 
       if (result.success && result.data) {
-        const message = state.isEditMode ? 'User updated successfully' : 'User created successfully'
         internalDispatch({ type: 'SET_SUCCESS', payload: message })
         internalDispatch({
           type: 'SET_EFFECT',
           payload: { type: 'NAVIGATE_AFTER_DELAY', path: `/users/${result.data.id}`, delay: 1500 },
         })
       } else {
-        const fallback = state.isEditMode ? 'Failed to update user' : 'Failed to create user'
-        internalDispatch({ type: 'SET_SUBMIT_ERROR', payload: result.error || fallback })
+        internalDispatch({ type: 'SET_SUBMITTING', payload: false })
       }
     },
-    [state.firstName, state.lastName, state.email, state.avatar, state.isEditMode, state.originalUser, userService]
+    [
+      state.firstName,
+      state.lastName,
+      state.email,
+      state.avatar,
+      state.isEditMode,
+      state.originalUser,
+      userService,
+      internalDispatch,
+      runOptimistic,
+    ]
   )
 
   // Helper: load user for edit mode
@@ -305,7 +347,7 @@ export function useUserFormViewModel(userId?: string): UseUserFormViewModel {
         internalDispatch({ type: 'SET_LOADING', payload: false })
       }
     },
-    [userService]
+    [userService, internalDispatch]
   )
 
   const dispatch = useCallback(
@@ -337,7 +379,7 @@ export function useUserFormViewModel(userId?: string): UseUserFormViewModel {
           break
       }
     },
-    [getFieldValue, handleSubmit, handleLoadUser]
+    [getFieldValue, handleSubmit, handleLoadUser, internalDispatch]
   )
 
   // ==========================================================================
@@ -351,6 +393,23 @@ export function useUserFormViewModel(userId?: string): UseUserFormViewModel {
     }
   }, [userId, dispatch, userService])
 
+  // ==========================================================================
+  // Offline ID Reconciliation (keeps in-progress edits)
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!userId) return
+    const subscription = userService.idMappings$.subscribe((mapping) => {
+      if (mapping.tempId !== userId) return
+      internalDispatch({ type: 'REMAP_USER_ID', payload: mapping.serverId })
+      internalDispatch({
+        type: 'SET_EFFECT',
+        payload: { type: 'REPLACE_ROUTE', path: `/users/${mapping.serverId}/edit` },
+      })
+    })
+    return () => subscription.unsubscribe()
+  }, [userId, userService, internalDispatch])
+
   // ==========================================================================
   // Computed Output
   // ==========================================================================
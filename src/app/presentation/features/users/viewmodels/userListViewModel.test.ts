@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { renderHook, act, waitFor } from '@testing-library/react'
 import type { User, PaginatedResponse } from '@/app/domain/entities/user.model'
-import type { ServiceResult, UserService } from '@/app/domain/services/userService'
+import type { ServiceResult, UserChange, UserService } from '@/app/domain/services/userService'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+import { Subject } from 'rxjs'
 
 // =============================================================================
 // Mocks
@@ -12,6 +14,9 @@ vi.mock('react-router-dom', () => ({
   useNavigate: () => mockNavigate,
 }))
 
+const mockIdMappings = new Subject<IdMapping>()
+const mockUpdates = new Subject<UserChange>()
+
 const mockUserService: UserService = {
   getById: vi.fn(),
   getList: vi.fn(),
@@ -21,12 +26,19 @@ const mockUserService: UserService = {
   isOnline: vi.fn().mockReturnValue(true),
   syncPendingOperations: vi.fn(),
   clearCache: vi.fn(),
+  idMappings$: mockIdMappings.asObservable(),
+  updates$: mockUpdates.asObservable(),
 }
 
 vi.mock('@/app/core/di', () => ({
   useUserService: () => mockUserService,
 }))
 
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('@shared/services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
 import { useUserListViewModel } from './userListViewModel'
 
 // =============================================================================
@@ -109,7 +121,8 @@ describe('useUserListViewModel', () => {
     expect(result.current.output.isOnline).toBe(true)
     expect(mockUserService.getList).toHaveBeenCalledWith(
       { page: 1, pageSize: 6 },
-      undefined
+      undefined,
+      { policy: 'stale-while-revalidate' }
     )
   })
 
@@ -239,6 +252,9 @@ describe('useUserListViewModel', () => {
 
     expect(result.current.output.users).toHaveLength(2)
     expect(result.current.output.isRefreshing).toBe(false)
+    expect(mockUserService.getList).toHaveBeenLastCalledWith({ page: 1, pageSize: 6 }, undefined, {
+      policy: 'network-first',
+    })
   })
 
   // ---------------------------------------------------------------------------
@@ -495,9 +511,81 @@ describe('useUserListViewModel', () => {
       await result.current.dispatch({ type: 'DELETE_USER', user })
     })
 
-    expect(result.current.output.error).toBe('Cannot delete user')
-    // User should still be in the list
+    expect(mockShowToast).toHaveBeenCalledWith('Cannot delete user', 'error')
+    expect(result.current.output.error).toBeNull()
+    // User should be back in the list
     expect(result.current.output.users).toHaveLength(1)
+    expect(result.current.output.totalItems).toBe(1)
+  })
+
+  it('should remove the user before the delete resolves', async () => {
+    const user = createMockUser()
+    vi.mocked(mockUserService.getList).mockResolvedValue(
+      createPaginatedResponse([user, createMockUser({ id: '2' })])
+    )
+
+    const { result } = renderHook(() => useUserListViewModel())
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    let resolveDelete!: (result: ServiceResult<void>) => void
+    vi.mocked(mockUserService.delete).mockReturnValue(
+      new Promise((resolve) => {
+        resolveDelete = resolve
+      })
+    )
+
+    let pending!: Promise<void>
+    act(() => {
+      pending = result.current.dispatch({ type: 'DELETE_USER', user })
+    })
+
+    expect(result.current.output.users.map((u) => u.id)).toEqual(['2'])
+    expect(result.current.output.totalItems).toBe(1)
+
+    await act(async () => {
+      resolveDelete({ success: false, error: 'Cannot delete user' })
+      await pending
+    })
+
+    expect(result.current.output.users.map((u) => u.id)).toEqual(['1', '2'])
+  })
+
+  it('should only roll back the failed delete when deletes overlap', async () => {
+    const first = createMockUser()
+    const second = createMockUser({ id: '2' })
+    vi.mocked(mockUserService.getList).mockResolvedValue(createPaginatedResponse([first, second]))
+
+    const { result } = renderHook(() => useUserListViewModel())
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    const resolvers: ((result: ServiceResult<void>) => void)[] = []
+    vi.mocked(mockUserService.delete).mockImplementation(
+      () => new Promise((resolve) => resolvers.push(resolve))
+    )
+
+    let pending!: Promise<void[]>
+    act(() => {
+      pending = Promise.all([
+        result.current.dispatch({ type: 'DELETE_USER', user: first }),
+        result.current.dispatch({ type: 'DELETE_USER', user: second }),
+      ])
+    })
+
+    expect(result.current.output.users).toHaveLength(0)
+
+    await act(async () => {
+      resolvers[1]({ success: true })
+      resolvers[0]({ success: false })
+      await pending
+    })
+
+    expect(result.current.output.users.map((u) => u.id)).toEqual(['1'])
   })
 
   it('should use fallback error when delete has no error message', async () => {
@@ -524,7 +612,7 @@ describe('useUserListViewModel', () => {
       await result.current.dispatch({ type: 'DELETE_USER', user })
     })
 
-    expect(result.current.output.error).toBe('Failed to delete user')
+    expect(mockShowToast).toHaveBeenCalledWith('Failed to delete user', 'error')
   })
 
   // ---------------------------------------------------------------------------
@@ -722,4 +810,104 @@ describe('useUserListViewModel', () => {
 
     expect(result.current.output.isOnline).toBe(false)
   })
+
+  // ---------------------------------------------------------------------------
+  // Offline ID Reconciliation
+  // ---------------------------------------------------------------------------
+
+  it('should replace offline IDs in the list when a server ID is assigned', async () => {
+    const users = [createMockUser({ id: 'offline_abc' }), createMockUser({ id: '2' })]
+    vi.mocked(mockUserService.getList).mockResolvedValue(
+      createPaginatedResponse(users, 1, 2)
+    )
+
+    const { result } = renderHook(() => useUserListViewModel())
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    await act(async () => {
+      mockIdMappings.next({ entity: 'user', tempId: 'offline_abc', serverId: '42', timestamp: Date.now() })
+    })
+
+    expect(result.current.output.users.map((u) => u.id)).toEqual(['42', '2'])
+  })
+
+  // ---------------------------------------------------------------------------
+  // Live Updates
+  // ---------------------------------------------------------------------------
+
+  it('should apply user updates and deletes from other tabs', async () => {
+    const users = [createMockUser({ id: '1' }), createMockUser({ id: '2' })]
+    vi.mocked(mockUserService.getList).mockResolvedValue(createPaginatedResponse(users, 1, 2))
+
+    const { result } = renderHook(() => useUserListViewModel())
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    await act(async () => {
+      mockUpdates.next({ type: 'update', user: createMockUser({ id: '1', firstName: 'Jane' }) })
+      mockUpdates.next({ type: 'delete', user: createMockUser({ id: '2' }) })
+      mockUpdates.next({ type: 'delete', user: createMockUser({ id: '3' }) })
+    })
+
+    expect(result.current.output.users.map((u) => u.firstName)).toEqual(['Jane'])
+    expect(result.current.output.totalItems).toBe(1)
+  })
+
+  it('should reload the page when a user is created in another tab', async () => {
+    vi.mocked(mockUserService.getList).mockResolvedValue(createPaginatedResponse([createMockUser()], 1, 1))
+
+    renderHook(() => useUserListViewModel())
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    await act(async () => {
+      mockUpdates.next({ type: 'create', user: createMockUser({ id: '2' }) })
+      await flushPromises()
+    })
+
+    expect(mockUserService.getList).toHaveBeenCalledTimes(2)
+  })
+
+  it('should show a revalidated page once the background refresh lands', async () => {
+    vi.mocked(mockUserService.getList).mockResolvedValue(createPaginatedResponse([createMockUser()], 1, 1))
+
+    const { result } = renderHook(() => useUserListViewModel())
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    const fresh = createPaginatedResponse([createMockUser({ firstName: 'Jane' }), createMockUser({ id: '2' })], 1, 2)
+    await act(async () => {
+      mockUpdates.next({ type: 'list', params: { page: 1, pageSize: 6 }, list: fresh.data! })
+    })
+
+    expect(result.current.output.users.map((u) => u.firstName)).toEqual(['Jane', 'John'])
+    expect(result.current.output.totalItems).toBe(2)
+  })
+
+  it('should ignore revalidated pages that are not on screen', async () => {
+    vi.mocked(mockUserService.getList).mockResolvedValue(createPaginatedResponse([createMockUser()], 1, 1))
+
+    const { result } = renderHook(() => useUserListViewModel())
+
+    await act(async () => {
+      await flushPromises()
+    })
+
+    const other = createPaginatedResponse([createMockUser({ id: '7' })], 2, 7)
+    await act(async () => {
+      mockUpdates.next({ type: 'list', params: { page: 2, pageSize: 6 }, list: other.data! })
+      mockUpdates.next({ type: 'list', params: { page: 1, pageSize: 6 }, search: 'x', list: other.data! })
+    })
+
+    expect(result.current.output.users.map((u) => u.id)).toEqual(['1'])
+  })
 })
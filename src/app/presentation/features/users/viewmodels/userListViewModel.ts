@@ -10,10 +10,13 @@
 //            Effect handles side effects outside the main flow
 // =============================================================================
 
-import { useCallback, useEffect, useReducer, useRef } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
-import type { User, PaginatedResponse } from '@/app/domain/entities/user.model'
+import type { User, PaginatedResponse, UserListParams } from '@/app/domain/entities/user.model'
+import type { ReadPolicy } from '@/app/domain/entities/read-policy.model'
 import { useUserService } from '@/app/core/di'
+import { useOptimisticReducer } from '@shared/viewmodels/useOptimisticReducer'
+import { toastService } from '@shared/services/toastService'
 
 // =============================================================================
 // Input Types (User Actions)
@@ -98,7 +101,13 @@ type UserListAction =
   | { type: 'SET_SEARCH'; payload: string }
   | { type: 'SET_PAGE'; payload: number }
   | { type: 'SET_USERS'; payload: PaginatedResponse<User> }
+  | {
+      type: 'USERS_REVALIDATED'
+      payload: { params: UserListParams; search?: string; list: PaginatedResponse<User> }
+    }
   | { type: 'REMOVE_USER'; payload: string }
+  | { type: 'REPLACE_USER'; payload: User }
+  | { type: 'REMAP_USER_ID'; payload: { tempId: string; serverId: string } }
   | { type: 'SET_ONLINE'; payload: boolean }
   | { type: 'SET_EFFECT'; payload: UserListEffect | null }
   | { type: 'CLEAR_EFFECT' }
@@ -146,12 +155,40 @@ function userListReducer(state: UserListState, action: UserListAction): UserList
         isLoading: false,
         isRefreshing: false,
       }
+    case 'USERS_REVALIDATED': {
+      // Only the page on screen; a refresh of a page left since is dropped
+      const { params, search, list } = action.payload
+      const onScreen =
+        params.page === state.currentPage &&
+        params.pageSize === state.pageSize &&
+        (search ?? '') === state.searchQuery
+      if (!onScreen) return state
+      return {
+        ...state,
+        users: list.data,
+        totalPages: list.totalPages,
+        totalItems: list.total,
+      }
+    }
     case 'REMOVE_USER':
+      if (!state.users.some((u) => u.id === action.payload)) return state
       return {
         ...state,
         users: state.users.filter((u) => u.id !== action.payload),
         totalItems: state.totalItems - 1,
       }
+    case 'REPLACE_USER':
+      return {
+        ...state,
+        users: state.users.map((u) => (u.id === action.payload.id ? action.payload : u)),
+      }
+    case 'REMAP_USER_ID':
+      return {
+        ...state,
+        users: state.users.map((u) =>
+          u.id === action.payload.tempId ? { ...u, id: action.payload.serverId } : u
+        ),
+      }
     case 'SET_ONLINE':
       return { ...state, isOnline: action.payload }
     case 'SET_EFFECT':
@@ -196,7 +233,7 @@ export interface UseUserListViewModel {
 export function useUserListViewModel(): UseUserListViewModel {
   const navigate = useNavigate()
   const userService = useUserService()
-  const [state, internalDispatch] = useReducer(userListReducer, initialState)
+  const [state, internalDispatch, runOptimistic] = useOptimisticReducer(userListReducer, initialState)
   const isInitialMount = useRef(true)
 
   // ==========================================================================
@@ -217,11 +254,13 @@ export function useUserListViewModel(): UseUserListViewModel {
           internalDispatch({ type: 'SET_SUCCESS', payload: null })
         }, effect.delay)
         break
-      // SHOW_TOAST would integrate with a toast library
+      case 'SHOW_TOAST':
+        toastService.show(effect.message, effect.variant)
+        break
     }
 
     internalDispatch({ type: 'CLEAR_EFFECT' })
-  }, [state.pendingEffect, navigate])
+  }, [state.pendingEffect, navigate, internalDispatch])
 
   // ==========================================================================
   // Input Handler (Processes User Actions)
@@ -229,10 +268,11 @@ export function useUserListViewModel(): UseUserListViewModel {
 
   // Helper: fetch users and dispatch result
   const fetchUsers = useCallback(
-    async (page: number, errorMessage: string) => {
+    async (page: number, errorMessage: string, policy: ReadPolicy) => {
       const result = await userService.getList(
         { page, pageSize: state.pageSize },
-        state.searchQuery || undefined
+        state.searchQuery || undefined,
+        { policy }
       )
       if (result.success && result.data) {
         internalDispatch({ type: 'SET_USERS', payload: result.data })
@@ -240,15 +280,18 @@ export function useUserListViewModel(): UseUserListViewModel {
         internalDispatch({ type: 'SET_ERROR', payload: result.error || errorMessage })
       }
     },
-    [state.pageSize, state.searchQuery, userService]
+    [state.pageSize, state.searchQuery, userService, internalDispatch]
   )
 
-  // Helper: delete user
+  // Helper: delete user (the row goes at once and comes back if the delete fails)
   const handleDeleteUser = useCallback(
     async (user: User) => {
-      const result = await userService.delete(user.id)
+      const result = await runOptimistic({
+        update: (current) => userListReducer(current, { type: 'REMOVE_USER', payload: user.id }),
+        mutate: () => userService.delete(user.id),
+        errorMessage: 'Failed to delete user',
+      })
       if (result.success) {
-        internalDispatch({ type: 'REMOVE_USER', payload: user.id })
         internalDispatch({
           type: 'SET_SUCCESS',
           payload: `User ${user.firstName} ${user.lastName} deleted successfully`,
@@ -257,11 +300,9 @@ export function useUserListViewModel(): UseUserListViewModel {
           type: 'SET_EFFECT',
           payload: { type: 'AUTO_DISMISS_SUCCESS', delay: 5000 },
         })
-      } else {
-        internalDispatch({ type: 'SET_ERROR', payload: result.error || 'Failed to delete user' })
       }
     },
-    [userService]
+    [userService, internalDispatch, runOptimistic]
   )
 
   const dispatch = useCallback(
@@ -269,11 +310,12 @@ export function useUserListViewModel(): UseUserListViewModel {
       switch (input.type) {
         case 'LOAD_USERS':
           internalDispatch({ type: 'SET_LOADING', payload: true })
-          await fetchUsers(input.page ?? state.currentPage, 'Failed to load users')
+          // Cached page at once; a fresher one arrives through updates$
+          await fetchUsers(input.page ?? state.currentPage, 'Failed to load users', 'stale-while-revalidate')
           break
         case 'REFRESH_USERS':
           internalDispatch({ type: 'SET_REFRESHING', payload: true })
-          await fetchUsers(state.currentPage, 'Failed to refresh users')
+          await fetchUsers(state.currentPage, 'Failed to refresh users', 'network-first')
           break
         case 'SET_SEARCH_QUERY':
           internalDispatch({ type: 'SET_SEARCH', payload: input.query })
@@ -285,7 +327,7 @@ export function useUserListViewModel(): UseUserListViewModel {
           if (input.page >= 1 && input.page <= state.totalPages) {
             internalDispatch({ type: 'SET_PAGE', payload: input.page })
             internalDispatch({ type: 'SET_LOADING', payload: true })
-            await fetchUsers(input.page, 'Failed to load users')
+            await fetchUsers(input.page, 'Failed to load users', 'stale-while-revalidate')
           }
           break
         case 'DELETE_USER':
@@ -308,7 +350,7 @@ export function useUserListViewModel(): UseUserListViewModel {
           break
       }
     },
-    [state.currentPage, state.totalPages, fetchUsers, handleDeleteUser]
+    [state.currentPage, state.totalPages, fetchUsers, handleDeleteUser, internalDispatch]
   )
 
   // ==========================================================================
@@ -321,7 +363,43 @@ export function useUserListViewModel(): UseUserListViewModel {
       void dispatch({ type: 'LOAD_USERS', page: 1 })
       internalDispatch({ type: 'SET_ONLINE', payload: userService.isOnline() })
     }
-  }, [dispatch, userService])
+  }, [dispatch, userService, internalDispatch])
+
+  // ==========================================================================
+  // Offline ID Reconciliation
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = userService.idMappings$.subscribe(({ tempId, serverId }) => {
+      internalDispatch({ type: 'REMAP_USER_ID', payload: { tempId, serverId } })
+    })
+    return () => subscription.unsubscribe()
+  }, [userService, internalDispatch])
+
+  // ==========================================================================
+  // Live Updates (this tab and other tabs)
+  // ==========================================================================
+
+  useEffect(() => {
+    const subscription = userService.updates$.subscribe((change) => {
+      switch (change.type) {
+        case 'update':
+          internalDispatch({ type: 'REPLACE_USER', payload: change.user })
+          break
+        case 'delete':
+          internalDispatch({ type: 'REMOVE_USER', payload: change.user.id })
+          break
+        case 'create':
+          // Where the new user lands depends on the server's ordering
+          void dispatch({ type: 'REFRESH_USERS' })
+          break
+        case 'list':
+          internalDispatch({ type: 'USERS_REVALIDATED', payload: change })
+          break
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [dispatch, userService, internalDispatch])
 
   // ==========================================================================
   // Computed Output
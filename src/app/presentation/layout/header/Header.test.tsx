@@ -1,31 +1,37 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, act } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { BrowserRouter } from 'react-router-dom'
+import { BrowserRouter, MemoryRouter, Routes, Route } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createTestContainer } from '@/test/mocks/authService'
 import { Header } from './Header'
 
 // Test wrapper with all providers
 function renderWithProviders(
   _ui: React.ReactElement,
-  options: { onToggleSidebar?: () => void; onToggleRightPanel?: () => void } = {}
+  options: { onToggleSidebar?: () => void; onToggleRightPanel?: () => void; unreadMessages?: number } = {}
 ) {
   const {
     onToggleSidebar = vi.fn(),
     onToggleRightPanel = vi.fn(),
+    unreadMessages,
   } = options
 
   return {
     ...render(
       <BrowserRouter>
         <I18nProvider>
-          <AuthProvider>
-            <Header
-              onToggleSidebar={onToggleSidebar}
-              onToggleRightPanel={onToggleRightPanel}
-            />
-          </AuthProvider>
+          <DIProvider container={createTestContainer()}>
+            <AuthProvider>
+              <Header
+                onToggleSidebar={onToggleSidebar}
+                onToggleRightPanel={onToggleRightPanel}
+                unreadMessages={unreadMessages}
+              />
+            </AuthProvider>
+          </DIProvider>
         </I18nProvider>
       </BrowserRouter>
     ),
@@ -124,7 +130,7 @@ describe('Header', () => {
   it('should display user name from auth context', () => {
     const { container } = renderWithProviders(<Header onToggleSidebar={vi.fn()} onToggleRightPanel={vi.fn()} />)
 
-    // Default demo user is "John Doe" - check for user avatar or name element
+    // TEST_USER is "John Doe" - check for user avatar or name element
     const userMenuToggle = container.querySelector('.user-menu-toggle')
     expect(userMenuToggle).toBeInTheDocument()
   })
@@ -145,16 +151,21 @@ describe('Header', () => {
     }
   })
 
-  it('should call logout when logout menu item is clicked', async () => {
+  it('should open the logout page when logout menu item is clicked', async () => {
     const user = userEvent.setup()
     const { container } = render(
-      <BrowserRouter>
+      <MemoryRouter initialEntries={['/home']}>
         <I18nProvider>
-          <AuthProvider>
-            <Header onToggleSidebar={vi.fn()} onToggleRightPanel={vi.fn()} />
-          </AuthProvider>
+          <DIProvider container={createTestContainer()}>
+            <AuthProvider>
+              <Routes>
+                <Route path="/logout" element={<div>Logout page</div>} />
+                <Route path="*" element={<Header onToggleSidebar={vi.fn()} onToggleRightPanel={vi.fn()} />} />
+              </Routes>
+            </AuthProvider>
+          </DIProvider>
         </I18nProvider>
-      </BrowserRouter>
+      </MemoryRouter>
     )
 
     // Open user dropdown
@@ -169,15 +180,48 @@ describe('Header', () => {
         await act(async () => {
           await user.click(logoutButtons[0])
         })
-        expect(localStorage.removeItem).toHaveBeenCalled()
+        expect(screen.getByText('Logout page')).toBeInTheDocument()
       }
     }
   })
 
-  it('should display notification badge', () => {
-    renderWithProviders(<Header onToggleSidebar={vi.fn()} onToggleRightPanel={vi.fn()} />)
+  it('should display the unread message count on the notification badge', () => {
+    renderWithProviders(
+      <Header onToggleSidebar={vi.fn()} onToggleRightPanel={vi.fn()} unreadMessages={3} />,
+      { unreadMessages: 3 }
+    )
+
+    expect(screen.getByLabelText('Notifications')).toHaveTextContent('3')
+  })
+
+  it('should hide the notification badge without unread messages', () => {
+    const { container } = renderWithProviders(<Header onToggleSidebar={vi.fn()} onToggleRightPanel={vi.fn()} />)
+
+    expect(container.querySelector('.badge-notification')).not.toBeInTheDocument()
+  })
+
+  it('should open messages when the notification bell is clicked', async () => {
+    const user = userEvent.setup()
+    render(
+      <MemoryRouter initialEntries={['/home']}>
+        <I18nProvider>
+          <DIProvider container={createTestContainer()}>
+            <AuthProvider>
+              <Routes>
+                <Route path="/messages" element={<div>Messages page</div>} />
+                <Route path="*" element={<Header onToggleSidebar={vi.fn()} onToggleRightPanel={vi.fn()} />} />
+              </Routes>
+            </AuthProvider>
+          </DIProvider>
+        </I18nProvider>
+      </MemoryRouter>
+    )
+
+    await act(async () => {
+      await user.click(screen.getByLabelText('Notifications'))
+    })
 
-    expect(screen.getByText('3')).toBeInTheDocument()
+    expect(screen.getByText('Messages page')).toBeInTheDocument()
   })
 
   it('should have brand link to home', () => {
@@ -1,12 +1,15 @@
 import { useState, useRef, useEffect } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { useAuth } from '@core/providers/AuthProvider'
 import { useI18n, type LanguageConfig } from '@core/providers/I18nProvider'
+import { Routes, formatBadgeCount } from '@core/navigation'
 import './Header.scss'
 
 interface HeaderProps {
   onToggleSidebar: () => void
   onToggleRightPanel: () => void
+  /** Unread messages of the signed-in user, shown on the bell */
+  unreadMessages?: number
 }
 
 interface UserMenuItem {
@@ -16,8 +19,9 @@ interface UserMenuItem {
   divider?: boolean
 }
 
-export function Header({ onToggleSidebar, onToggleRightPanel }: Readonly<HeaderProps>) {
-  const { currentUser, logout } = useAuth()
+export function Header({ onToggleSidebar, onToggleRightPanel, unreadMessages = 0 }: Readonly<HeaderProps>) {
+  const { currentUser } = useAuth()
+  const navigate = useNavigate()
   const { currentLanguage, currentLanguageConfig, languages, setLanguage, t } = useI18n()
 
   const [languageDropdownOpen, setLanguageDropdownOpen] = useState(false)
@@ -57,11 +61,12 @@ export function Header({ onToggleSidebar, onToggleRightPanel }: Readonly<HeaderP
   const handleUserMenuAction = (action: string) => {
     setUserDropdownOpen(false)
     if (action === 'logout') {
-      logout()
+      navigate(Routes.LOGOUT)
     }
   }
 
   const userName = currentUser ? `${currentUser.firstName} ${currentUser.lastName}` : 'User'
+  const unreadBadge = formatBadgeCount(unreadMessages)
 
   return (
     <header className="app-header">
@@ -133,10 +138,11 @@ export function Header({ onToggleSidebar, onToggleRightPanel }: Readonly<HeaderP
           <button
             type="button"
             className="btn btn-link header-action position-relative"
+            onClick={() => navigate(Routes.MESSAGES)}
             aria-label="Notifications"
           >
             <i className="bi bi-bell"></i>
-            <span className="badge badge-notification">3</span>
+            {unreadBadge && <span className="badge badge-notification">{unreadBadge}</span>}
           </button>
 
           {/* Right Panel Toggle */}
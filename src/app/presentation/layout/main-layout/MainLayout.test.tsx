@@ -4,7 +4,10 @@ import userEvent from '@testing-library/user-event'
 import { MemoryRouter } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createTestContainer } from '@/test/mocks/authService'
 import { ThemeProvider } from '@core/providers/ThemeProvider'
+import type { Conversation } from '@/app/domain/entities/message.model'
 import { MainLayout } from './MainLayout'
 
 // ---------------------------------------------------------------------------
@@ -12,11 +15,12 @@ import { MainLayout } from './MainLayout'
 // ---------------------------------------------------------------------------
 
 vi.mock('../header/Header', () => ({
-  Header: ({ onToggleSidebar, onToggleRightPanel }: {
+  Header: ({ onToggleSidebar, onToggleRightPanel, unreadMessages }: {
     onToggleSidebar: () => void
     onToggleRightPanel: () => void
+    unreadMessages: number
   }) => (
-    <header data-testid="header">
+    <header data-testid="header" data-unread={unreadMessages}>
       <button data-testid="toggle-sidebar" onClick={onToggleSidebar}>Toggle Sidebar</button>
       <button data-testid="toggle-right-panel" onClick={onToggleRightPanel}>Toggle Right Panel</button>
     </header>
@@ -24,15 +28,17 @@ vi.mock('../header/Header', () => ({
 }))
 
 vi.mock('../sidebar/Sidebar', () => ({
-  Sidebar: ({ collapsed, mobileOpen, onCloseMobile }: {
+  Sidebar: ({ collapsed, mobileOpen, onCloseMobile, unreadMessages }: {
     collapsed: boolean
     mobileOpen: boolean
     onCloseMobile: () => void
+    unreadMessages: number
   }) => (
     <aside
       data-testid="sidebar"
       data-collapsed={collapsed}
       data-mobile-open={mobileOpen}
+      data-unread={unreadMessages}
     >
       <button data-testid="close-mobile" onClick={onCloseMobile}>Close Mobile</button>
     </aside>
@@ -40,13 +46,57 @@ vi.mock('../sidebar/Sidebar', () => ({
 }))
 
 vi.mock('../right-panel/RightPanel', () => ({
-  RightPanel: ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => (
+  RightPanel: ({ isOpen, onClose, notifications, onMarkAllRead, onOpenConversation }: {
+    isOpen: boolean
+    onClose: () => void
+    notifications: Conversation[]
+    onMarkAllRead: () => void
+    onOpenConversation: (id: string) => void
+  }) => (
     <aside data-testid="right-panel" data-open={isOpen}>
       <button data-testid="close-right-panel" onClick={onClose}>Close</button>
+      <button data-testid="mark-all-read" onClick={onMarkAllRead}>Mark All Read</button>
+      {notifications.map((notification) => (
+        <button key={notification.id} onClick={() => onOpenConversation(notification.id)}>
+          {notification.participantName}
+        </button>
+      ))}
     </aside>
   ),
 }))
 
+// ---------------------------------------------------------------------------
+// Mock the inbox ViewModel
+// ---------------------------------------------------------------------------
+
+const mockInboxDispatch = vi.fn().mockResolvedValue(undefined)
+
+const unreadConversation: Conversation = {
+  id: '1~2',
+  participantId: '2',
+  participantName: 'Jane Smith',
+  lastMessage: {
+    id: '1',
+    conversationId: '1~2',
+    senderId: '2',
+    senderName: 'Jane Smith',
+    recipientId: '1',
+    recipientName: 'John Doe',
+    body: 'Lunch at noon?',
+    readAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+  unreadCount: 4,
+}
+
+vi.mock('@presentation/features/messages/viewmodels/inboxViewModel', () => ({
+  useInboxViewModel: () => ({
+    output: { unreadConversations: [unreadConversation], unreadCount: 4, isLoading: false, error: null },
+    dispatch: mockInboxDispatch,
+  }),
+}))
+
 // ---------------------------------------------------------------------------
 // Test helpers
 // ---------------------------------------------------------------------------
@@ -55,11 +105,13 @@ function renderWithProviders() {
   return render(
     <MemoryRouter>
       <I18nProvider>
-        <AuthProvider>
-          <ThemeProvider>
-            <MainLayout />
-          </ThemeProvider>
-        </AuthProvider>
+        <DIProvider container={createTestContainer()}>
+          <AuthProvider>
+            <ThemeProvider>
+              <MainLayout />
+            </ThemeProvider>
+          </AuthProvider>
+        </DIProvider>
       </I18nProvider>
     </MemoryRouter>
   )
@@ -103,6 +155,36 @@ describe('MainLayout', () => {
     expect(container.querySelector('.main-layout')).toBeInTheDocument()
   })
 
+  // --- Unread messages ---
+
+  it('passes the unread message count to the header and sidebar', () => {
+    renderWithProviders()
+    expect(screen.getByTestId('header')).toHaveAttribute('data-unread', '4')
+    expect(screen.getByTestId('sidebar')).toHaveAttribute('data-unread', '4')
+  })
+
+  it('opens a conversation from the right panel', async () => {
+    const user = userEvent.setup()
+    renderWithProviders()
+
+    await act(async () => {
+      await user.click(screen.getByText('Jane Smith'))
+    })
+
+    expect(mockInboxDispatch).toHaveBeenCalledWith({ type: 'OPEN_CONVERSATION', id: '1~2' })
+  })
+
+  it('marks all messages read from the right panel', async () => {
+    const user = userEvent.setup()
+    renderWithProviders()
+
+    await act(async () => {
+      await user.click(screen.getByTestId('mark-all-read'))
+    })
+
+    expect(mockInboxDispatch).toHaveBeenCalledWith({ type: 'MARK_ALL_READ' })
+  })
+
   // --- Initial state ---
 
   it('sidebar starts not collapsed by default', () => {
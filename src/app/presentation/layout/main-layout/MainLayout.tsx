@@ -3,10 +3,18 @@ import { Outlet } from 'react-router-dom'
 import { Header } from '../header/Header'
 import { Sidebar } from '../sidebar/Sidebar'
 import { RightPanel } from '../right-panel/RightPanel'
+import { ToastContainer } from '@shared/components/Toast/ToastContainer'
+import { useInboxViewModel } from '@presentation/features/messages/viewmodels/inboxViewModel'
+import { useAuth } from '@core/providers/AuthProvider'
 import { APP_CONSTANTS } from '@core/constants/app.constants'
 import './MainLayout.scss'
 
 export function MainLayout() {
+  const { currentUser } = useAuth()
+
+  // Unread messages drive the header bell, the Messages badge and the panel
+  const { output: inbox, dispatch: dispatchInbox } = useInboxViewModel(currentUser?.id)
+
   const [sidebarCollapsed, setSidebarCollapsed] = useState(() => {
     return localStorage.getItem(APP_CONSTANTS.STORAGE_KEYS.SIDEBAR_COLLAPSED) === 'true'
   })
@@ -54,6 +62,18 @@ export function MainLayout() {
     setMobileSidebarOpen(false)
   }, [])
 
+  const markAllMessagesRead = useCallback(() => {
+    void dispatchInbox({ type: 'MARK_ALL_READ' })
+  }, [dispatchInbox])
+
+  const openConversation = useCallback((id: string) => {
+    void dispatchInbox({ type: 'OPEN_CONVERSATION', id })
+  }, [dispatchInbox])
+
+  const openMessages = useCallback(() => {
+    void dispatchInbox({ type: 'OPEN_MESSAGES' })
+  }, [dispatchInbox])
+
   return (
     <div className="main-layout">
       {/* Mobile Overlay */}
@@ -70,6 +90,7 @@ export function MainLayout() {
       <Header
         onToggleSidebar={toggleSidebar}
         onToggleRightPanel={toggleRightPanel}
+        unreadMessages={inbox.unreadCount}
       />
 
       {/* Sidebar */}
@@ -77,6 +98,7 @@ export function MainLayout() {
         collapsed={sidebarCollapsed}
         mobileOpen={mobileSidebarOpen}
         onCloseMobile={closeMobileSidebar}
+        unreadMessages={inbox.unreadCount}
       />
 
       {/* Main Content */}
@@ -90,7 +112,14 @@ export function MainLayout() {
       <RightPanel
         isOpen={rightPanelOpen}
         onClose={() => setRightPanelOpen(false)}
+        notifications={inbox.unreadConversations}
+        onMarkAllRead={markAllMessagesRead}
+        onOpenConversation={openConversation}
+        onViewAllMessages={openMessages}
       />
+
+      {/* Toasts */}
+      <ToastContainer />
     </div>
   )
 }
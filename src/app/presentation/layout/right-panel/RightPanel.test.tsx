@@ -4,29 +4,92 @@ import userEvent from '@testing-library/user-event'
 import { BrowserRouter } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createTestContainer } from '@/test/mocks/authService'
 import { ThemeProvider } from '@core/providers/ThemeProvider'
+import type { Conversation, Message } from '@/app/domain/entities/message.model'
 import { RightPanel } from './RightPanel'
 
 // ---------------------------------------------------------------------------
 // Test helpers
 // ---------------------------------------------------------------------------
 
-function renderWithProviders(props: { isOpen?: boolean; onClose?: () => void } = {}) {
-  const { isOpen = true, onClose = vi.fn() } = props
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: '1',
+    conversationId: '1~2',
+    senderId: '2',
+    senderName: 'Sarah Connor',
+    recipientId: '1',
+    recipientName: 'John Doe',
+    body: 'Approved your pull request',
+    readAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+const unreadConversations: Conversation[] = [
+  {
+    id: '1~2',
+    participantId: '2',
+    participantName: 'Sarah Connor',
+    lastMessage: createMessage(),
+    unreadCount: 1,
+  },
+  {
+    id: '1~3',
+    participantId: '3',
+    participantName: 'Mike Johnson',
+    lastMessage: createMessage({
+      id: '2',
+      conversationId: '1~3',
+      senderId: '3',
+      senderName: 'Mike Johnson',
+      body: 'Mentioned you in a comment',
+    }),
+    unreadCount: 3,
+  },
+]
+
+interface PanelTestProps {
+  isOpen?: boolean
+  onClose?: () => void
+  notifications?: Conversation[]
+}
+
+function renderWithProviders(props: PanelTestProps = {}) {
+  const { isOpen = true, onClose = vi.fn(), notifications = unreadConversations } = props
+  const onMarkAllRead = vi.fn()
+  const onOpenConversation = vi.fn()
+  const onViewAllMessages = vi.fn()
 
   return {
     ...render(
       <BrowserRouter>
         <I18nProvider>
-          <AuthProvider>
-            <ThemeProvider>
-              <RightPanel isOpen={isOpen} onClose={onClose} />
-            </ThemeProvider>
-          </AuthProvider>
+          <DIProvider container={createTestContainer()}>
+            <AuthProvider>
+              <ThemeProvider>
+                <RightPanel
+                  isOpen={isOpen}
+                  onClose={onClose}
+                  notifications={notifications}
+                  onMarkAllRead={onMarkAllRead}
+                  onOpenConversation={onOpenConversation}
+                  onViewAllMessages={onViewAllMessages}
+                />
+              </ThemeProvider>
+            </AuthProvider>
+          </DIProvider>
         </I18nProvider>
       </BrowserRouter>
     ),
     onClose,
+    onMarkAllRead,
+    onOpenConversation,
+    onViewAllMessages,
   }
 }
 
@@ -117,73 +180,81 @@ describe('RightPanel', () => {
 
     expect(screen.getByText('Mark All Read')).toBeInTheDocument()
     expect(screen.getByText('Sarah Connor')).toBeInTheDocument()
-    expect(screen.getByText('System Update')).toBeInTheDocument()
+    expect(screen.getByText('Mike Johnson')).toBeInTheDocument()
   })
 
-  it('shows unread badge count on notifications tab', () => {
+  it('shows the unread message count on notifications tab', () => {
     renderWithProviders()
-    // 2 unread notifications in initial data
-    expect(screen.getByText('2')).toBeInTheDocument()
+    // One unread from Sarah, three from Mike
+    expect(screen.getByText('4')).toBeInTheDocument()
+  })
+
+  it('hides the badge without unread messages', () => {
+    const { container } = renderWithProviders({ notifications: [] })
+    expect(container.querySelector('.nav-tabs .badge')).not.toBeInTheDocument()
   })
 
-  it('marks notification as read when clicked', async () => {
+  it('shows the last message of each conversation', async () => {
     const user = userEvent.setup()
     renderWithProviders()
 
-    // Switch to notifications tab
     const notifTab = screen.getByText('Notifications').closest('button')!
     await act(async () => {
       await user.click(notifTab)
     })
 
-    // Find an unread notification and click it
-    const unreadItems = screen.getAllByRole('button').filter(
-      btn => btn.classList.contains('notification-item') && btn.classList.contains('unread')
-    )
-
-    if (unreadItems.length > 0) {
-      await act(async () => {
-        await user.click(unreadItems[0])
-      })
-      // After clicking, the notification should no longer have unread class
-      expect(unreadItems[0]).not.toHaveClass('unread')
-    }
+    expect(screen.getByText('Approved your pull request')).toBeInTheDocument()
+    expect(screen.getByText('Mentioned you in a comment')).toBeInTheDocument()
+  })
+
+  it('opens the conversation when a notification is clicked', async () => {
+    const user = userEvent.setup()
+    const { onOpenConversation } = renderWithProviders()
+
+    const notifTab = screen.getByText('Notifications').closest('button')!
+    await act(async () => {
+      await user.click(notifTab)
+    })
+    await act(async () => {
+      await user.click(screen.getByText('Mike Johnson'))
+    })
+
+    expect(onOpenConversation).toHaveBeenCalledWith('1~3')
   })
 
   it('marks all as read when "Mark All Read" is clicked', async () => {
     const user = userEvent.setup()
-    renderWithProviders()
+    const { onMarkAllRead } = renderWithProviders()
 
-    // Switch to notifications tab
     const notifTab = screen.getByText('Notifications').closest('button')!
     await act(async () => {
       await user.click(notifTab)
     })
 
-    const markAllBtn = screen.getByText('Mark All Read')
     await act(async () => {
-      await user.click(markAllBtn)
+      await user.click(screen.getByText('Mark All Read'))
     })
 
-    // After marking all as read, no unread indicators should exist
-    const unreadIndicators = screen.queryAllByRole('button').filter(
-      btn => btn.classList.contains('notification-item') && btn.classList.contains('unread')
-    )
-    expect(unreadIndicators.length).toBe(0)
+    expect(onMarkAllRead).toHaveBeenCalledTimes(1)
   })
 
-  it('shows notification messages', async () => {
+  it('shows the empty state and links to all messages', async () => {
     const user = userEvent.setup()
-    renderWithProviders()
+    const { onViewAllMessages } = renderWithProviders({ notifications: [] })
 
     const notifTab = screen.getByText('Notifications').closest('button')!
     await act(async () => {
       await user.click(notifTab)
     })
 
-    expect(screen.getByText('Approved your pull request')).toBeInTheDocument()
-    expect(screen.getByText('New version available for download')).toBeInTheDocument()
-    expect(screen.getByText('Mentioned you in a comment')).toBeInTheDocument()
+    expect(screen.getByText('No notifications')).toBeInTheDocument()
+    expect(screen.getByText('Mark All Read')).toBeDisabled()
+
+    await act(async () => {
+      await user.click(screen.getByText('View All Messages'))
+    })
+
+    expect(onViewAllMessages).toHaveBeenCalledTimes(1)
   })
 
   // --- Settings tab ---
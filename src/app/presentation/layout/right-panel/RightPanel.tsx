@@ -2,11 +2,18 @@ import { useState } from 'react'
 import { useTheme } from '@core/providers/ThemeProvider'
 import { useI18n } from '@core/providers/I18nProvider'
 import { APP_CONSTANTS } from '@core/constants/app.constants'
+import type { Conversation } from '@/app/domain/entities/message.model'
+import { formatRelativeTime } from '@presentation/features/messages/messageTime'
 import './RightPanel.scss'
 
 interface RightPanelProps {
   isOpen: boolean
   onClose: () => void
+  /** Conversations with unread messages */
+  notifications?: Conversation[]
+  onMarkAllRead?: () => void
+  onOpenConversation?: (id: string) => void
+  onViewAllMessages?: () => void
 }
 
 interface Activity {
@@ -18,16 +25,6 @@ interface Activity {
   time: string
 }
 
-interface Notification {
-  id: string
-  title: string
-  message: string
-  time: string
-  avatar?: string
-  icon?: string
-  read: boolean
-}
-
 const initialActivities: Activity[] = [
   {
     id: '1',
@@ -55,40 +52,19 @@ const initialActivities: Activity[] = [
   },
 ]
 
-const initialNotifications: Notification[] = [
-  {
-    id: '1',
-    title: 'Sarah Connor',
-    message: 'Approved your pull request',
-    time: '5 min ago',
-    avatar: 'https://i.pravatar.cc/150?img=1',
-    read: false,
-  },
-  {
-    id: '2',
-    title: 'System Update',
-    message: 'New version available for download',
-    time: '1 hour ago',
-    icon: 'bi bi-gear',
-    read: false,
-  },
-  {
-    id: '3',
-    title: 'Mike Johnson',
-    message: 'Mentioned you in a comment',
-    time: '2 hours ago',
-    avatar: 'https://i.pravatar.cc/150?img=3',
-    read: true,
-  },
-]
-
-export function RightPanel({ isOpen, onClose }: Readonly<RightPanelProps>) {
-  const { t } = useI18n()
+export function RightPanel({
+  isOpen,
+  onClose,
+  notifications = [],
+  onMarkAllRead,
+  onOpenConversation,
+  onViewAllMessages,
+}: Readonly<RightPanelProps>) {
+  const { t, currentLanguage } = useI18n()
   const { isDarkMode, toggleTheme } = useTheme()
 
   const [activeTab, setActiveTab] = useState(1)
   const [activities, setActivities] = useState<Activity[]>(initialActivities)
-  const [notifications, setNotifications] = useState<Notification[]>(initialNotifications)
 
   const [settings, setSettings] = useState({
     pushNotifications: true,
@@ -97,20 +73,10 @@ export function RightPanel({ isOpen, onClose }: Readonly<RightPanelProps>) {
     privacyMode: false,
   })
 
-  const getUnreadCount = () => notifications.filter(n => !n.read).length
+  const getUnreadCount = () => notifications.reduce((total, n) => total + n.unreadCount, 0)
 
   const clearActivities = () => setActivities([])
 
-  const markAllAsRead = () => {
-    setNotifications(prev => prev.map(n => ({ ...n, read: true })))
-  }
-
-  const markAsRead = (notification: Notification) => {
-    setNotifications(prev =>
-      prev.map(n => n.id === notification.id ? { ...n, read: true } : n)
-    )
-  }
-
   const getActivityTypeClass = (type: Activity['type']) => {
     switch (type) {
       case 'success': return 'activity-success'
@@ -221,7 +187,8 @@ export function RightPanel({ isOpen, onClose }: Readonly<RightPanelProps>) {
               <button
                 type="button"
                 className="btn btn-sm btn-outline-secondary"
-                onClick={markAllAsRead}
+                onClick={onMarkAllRead}
+                disabled={notifications.length === 0}
               >
                 {t('panel.mark.all.read')}
               </button>
@@ -238,26 +205,37 @@ export function RightPanel({ isOpen, onClose }: Readonly<RightPanelProps>) {
                   <button
                     type="button"
                     key={notification.id}
-                    className={`notification-item ${notification.read ? '' : 'unread'}`}
-                    onClick={() => markAsRead(notification)}
+                    className="notification-item unread"
+                    onClick={() => onOpenConversation?.(notification.id)}
                   >
                     <div className="notification-avatar">
-                      {notification.avatar ? (
-                        <img src={notification.avatar} alt={notification.title} />
-                      ) : (
-                        <i className={notification.icon}></i>
-                      )}
+                      <i className="bi bi-chat-dots"></i>
                     </div>
                     <div className="notification-content">
-                      <div className="notification-title">{notification.title}</div>
-                      <div className="notification-message">{notification.message}</div>
-                      <div className="notification-time">{notification.time}</div>
+                      <div className="notification-title">
+                        {notification.participantName}
+                        {notification.unreadCount > 1 && (
+                          <span className="badge bg-danger ms-2">{notification.unreadCount}</span>
+                        )}
+                      </div>
+                      <div className="notification-message">{notification.lastMessage.body}</div>
+                      <div className="notification-time">
+                        {formatRelativeTime(notification.lastMessage.createdAt, currentLanguage)}
+                      </div>
                     </div>
-                    {!notification.read && <div className="unread-indicator"></div>}
+                    <div className="unread-indicator"></div>
                   </button>
                 ))
               )}
             </div>
+
+            <button
+              type="button"
+              className="btn btn-sm btn-link w-100 mt-2"
+              onClick={onViewAllMessages}
+            >
+              {t('panel.view.all.messages')}
+            </button>
           </div>
         )}
 
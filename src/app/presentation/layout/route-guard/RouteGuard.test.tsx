@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import { MemoryRouter, Routes, Route, useLocation } from 'react-router-dom'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import { RouteGuard } from './RouteGuard'
+
+function LocationDisplay() {
+  const location = useLocation()
+  return <div data-testid="location">{`${location.pathname}${location.search}`}</div>
+}
+
+function renderGuarded(route: string, mock = createMockAuthService()) {
+  render(
+    <MemoryRouter initialEntries={[route]}>
+      <DIProvider container={createTestContainer(mock.service)}>
+        <AuthProvider>
+          <Routes>
+            <Route path="/login" element={<LocationDisplay />} />
+            <Route path="/session-expired" element={<LocationDisplay />} />
+            <Route path="/forbidden" element={<LocationDisplay />} />
+            <Route
+              path="*"
+              element={
+                <RouteGuard>
+                  <div>Protected content</div>
+                </RouteGuard>
+              }
+            />
+          </Routes>
+        </AuthProvider>
+      </DIProvider>
+    </MemoryRouter>
+  )
+  return mock
+}
+
+describe('RouteGuard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should render protected routes for signed-in users', () => {
+    renderGuarded('/users/1')
+
+    expect(screen.getByText('Protected content')).toBeInTheDocument()
+  })
+
+  it('should redirect signed-out users to login with returnTo', () => {
+    renderGuarded('/users/1?tab=activity', createMockAuthService(null))
+
+    expect(screen.queryByText('Protected content')).not.toBeInTheDocument()
+    expect(screen.getByTestId('location')).toHaveTextContent(
+      '/login?returnTo=%2Fusers%2F1%3Ftab%3Dactivity'
+    )
+  })
+
+  it('should redirect when the session ends', () => {
+    const { session } = renderGuarded('/home')
+
+    act(() => {
+      session.next(null)
+    })
+
+    expect(screen.getByTestId('location')).toHaveTextContent('/login?returnTo=%2Fhome')
+  })
+
+  it('should show the 403 page for routes the role cannot open', () => {
+    renderGuarded('/users/1/edit', createMockAuthService({ ...TEST_USER, role: 'Guest' }))
+
+    expect(screen.queryByText('Protected content')).not.toBeInTheDocument()
+    expect(screen.getByTestId('location')).toHaveTextContent('/forbidden')
+  })
+
+  it('should allow routes the role can open', () => {
+    renderGuarded('/users/1', createMockAuthService({ ...TEST_USER, role: 'Guest' }))
+
+    expect(screen.getByText('Protected content')).toBeInTheDocument()
+  })
+
+  it('should open the session-expired page on auth:unauthorized', () => {
+    renderGuarded('/users')
+
+    act(() => {
+      globalThis.dispatchEvent(new CustomEvent('auth:unauthorized'))
+    })
+
+    expect(screen.getByTestId('location')).toHaveTextContent('/session-expired?returnTo=%2Fusers')
+  })
+})
@@ -0,0 +1,41 @@
+import { useEffect, type ReactNode } from 'react'
+import { Navigate, useLocation, useNavigate } from 'react-router-dom'
+import { useAuth } from '@core/providers/AuthProvider'
+import { Routes, buildReturnPath, isRouteAllowed, requiresAuth } from '@core/navigation'
+
+interface RouteGuardProps {
+  children: ReactNode
+}
+
+/**
+ * Protects routes declared with `requiresAuth`, `roles` and `permission` in the nav graph
+ * Signed-out users are sent to the login page, and a session ApiService gives
+ * up on (`auth:unauthorized`) leads to the session-expired page. Both keep
+ * the current location as `returnTo`. Routes the role cannot open show the
+ * 403 page.
+ */
+export function RouteGuard({ children }: Readonly<RouteGuardProps>) {
+  const { currentUser, isAuthenticated } = useAuth()
+  const location = useLocation()
+  const navigate = useNavigate()
+  const currentPath = `${location.pathname}${location.search}`
+
+  useEffect(() => {
+    const handleUnauthorized = () => {
+      navigate(buildReturnPath(Routes.SESSION_EXPIRED, currentPath), { replace: true })
+    }
+
+    globalThis.addEventListener('auth:unauthorized', handleUnauthorized)
+    return () => globalThis.removeEventListener('auth:unauthorized', handleUnauthorized)
+  }, [navigate, currentPath])
+
+  if (!isAuthenticated && requiresAuth(location.pathname)) {
+    return <Navigate to={buildReturnPath(Routes.LOGIN, currentPath)} replace />
+  }
+
+  if (!isRouteAllowed(location.pathname, currentUser?.role)) {
+    return <Navigate to={Routes.FORBIDDEN} replace />
+  }
+
+  return <>{children}</>
+}
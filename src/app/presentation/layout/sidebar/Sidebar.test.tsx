@@ -4,6 +4,8 @@ import userEvent from '@testing-library/user-event'
 import { MemoryRouter } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createTestContainer } from '@/test/mocks/authService'
 import { Sidebar } from './Sidebar'
 
 // ---------------------------------------------------------------------------
@@ -11,25 +13,29 @@ import { Sidebar } from './Sidebar'
 // ---------------------------------------------------------------------------
 
 function renderWithProviders(
-  props: { collapsed?: boolean; mobileOpen?: boolean; onCloseMobile?: () => void } = {}
+  props: { collapsed?: boolean; mobileOpen?: boolean; onCloseMobile?: () => void; unreadMessages?: number } = {}
 ) {
   const {
     collapsed = false,
     mobileOpen = false,
     onCloseMobile = vi.fn(),
+    unreadMessages,
   } = props
 
   return {
     ...render(
       <MemoryRouter initialEntries={['/']}>
         <I18nProvider>
-          <AuthProvider>
-            <Sidebar
-              collapsed={collapsed}
-              mobileOpen={mobileOpen}
-              onCloseMobile={onCloseMobile}
-            />
-          </AuthProvider>
+          <DIProvider container={createTestContainer()}>
+            <AuthProvider>
+              <Sidebar
+                collapsed={collapsed}
+                mobileOpen={mobileOpen}
+                onCloseMobile={onCloseMobile}
+                unreadMessages={unreadMessages}
+              />
+            </AuthProvider>
+          </DIProvider>
         </I18nProvider>
       </MemoryRouter>
     ),
@@ -62,7 +68,7 @@ describe('Sidebar', () => {
 
   it('displays user name from auth context', () => {
     renderWithProviders()
-    // Default demo user is "John Doe"
+    // TEST_USER is "John Doe"
     const userNames = screen.getAllByText('John Doe')
     expect(userNames.length).toBeGreaterThan(0)
   })
@@ -92,6 +98,18 @@ describe('Sidebar', () => {
     expect(screen.getByText('Dashboard')).toBeInTheDocument()
   })
 
+  it('shows the unread message count on the Messages link', () => {
+    renderWithProviders({ unreadMessages: 7 })
+    const messagesLink = screen.getByText('Messages').closest('a')!
+    expect(messagesLink.querySelector('.badge')).toHaveTextContent('7')
+  })
+
+  it('hides the Messages badge without unread messages', () => {
+    renderWithProviders()
+    const messagesLink = screen.getByText('Messages').closest('a')!
+    expect(messagesLink.querySelector('.badge')).not.toBeInTheDocument()
+  })
+
   it('renders sidebar footer with storage info', () => {
     renderWithProviders()
     expect(screen.getByText('Storage')).toBeInTheDocument()
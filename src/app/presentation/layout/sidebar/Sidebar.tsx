@@ -21,15 +21,18 @@ interface SidebarProps {
   collapsed: boolean
   mobileOpen: boolean
   onCloseMobile: () => void
+  /** Unread messages of the signed-in user, the Messages badge */
+  unreadMessages?: number
 }
 
-export function Sidebar({ collapsed, mobileOpen, onCloseMobile }: Readonly<SidebarProps>) {
+export function Sidebar({ collapsed, mobileOpen, onCloseMobile, unreadMessages = 0 }: Readonly<SidebarProps>) {
   const { currentUser } = useAuth()
   const { t } = useI18n()
   const location = useLocation()
 
-  // Build navigation from NavGraph
-  const menuItems = useMemo(() => buildNavigation(), [])
+  // Build navigation from NavGraph, limited to what the role can open
+  const role = currentUser?.role
+  const menuItems = useMemo(() => buildNavigation(role, { unreadMessages }), [role, unreadMessages])
 
   const [expandedMenus, setExpandedMenus] = useState<Set<string>>(() => {
     // Auto-expand menu that contains the current route
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { TEST_USER, createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import type { UserRole } from '@/app/domain/entities/auth.model'
+import { Can } from './Can'
+
+function renderAs(role: UserRole | null, ui: React.ReactElement) {
+  const mock = createMockAuthService(role ? { ...TEST_USER, role } : null)
+  render(
+    <DIProvider container={createTestContainer(mock.service)}>
+      <AuthProvider>{ui}</AuthProvider>
+    </DIProvider>
+  )
+}
+
+describe('Can', () => {
+  it('should render children when the permission is granted', () => {
+    renderAs('Admin', <Can permission="user:delete">Delete</Can>)
+
+    expect(screen.getByText('Delete')).toBeInTheDocument()
+  })
+
+  it('should render nothing when the permission is missing', () => {
+    renderAs('User', <Can permission="user:delete">Delete</Can>)
+
+    expect(screen.queryByText('Delete')).not.toBeInTheDocument()
+  })
+
+  it('should render the fallback when the permission is missing', () => {
+    renderAs('Guest', <Can permission="user:create" fallback="Read only">Create</Can>)
+
+    expect(screen.queryByText('Create')).not.toBeInTheDocument()
+    expect(screen.getByText('Read only')).toBeInTheDocument()
+  })
+
+  it('should render nothing when signed out', () => {
+    renderAs(null, <Can permission="user:read">Users</Can>)
+
+    expect(screen.queryByText('Users')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,18 @@
+import type { ReactNode } from 'react'
+import { usePermission } from '@core/providers/usePermission'
+import type { Permission } from '@/app/domain/entities/permission.model'
+
+interface CanProps {
+  permission: Permission
+  /** Rendered instead when the permission is missing */
+  fallback?: ReactNode
+  children: ReactNode
+}
+
+/**
+ * Render children only if the signed-in user has a permission
+ * @example <Can permission="user:delete"><button>Delete</button></Can>
+ */
+export function Can({ permission, fallback = null, children }: Readonly<CanProps>) {
+  return <>{usePermission(permission) ? children : fallback}</>
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ToastContainer } from './ToastContainer'
+import { toastService } from '../../services/toastService'
+
+describe('ToastContainer', () => {
+  const shown: number[] = []
+
+  function show(...args: Parameters<typeof toastService.show>) {
+    act(() => {
+      shown.push(toastService.show(...args))
+    })
+  }
+
+  afterEach(() => {
+    shown.splice(0).forEach((id) => toastService.dismiss(id))
+  })
+
+  it('renders success and error toasts', () => {
+    render(<ToastContainer />)
+
+    show('User created successfully')
+    show('Failed to delete user', 'error')
+
+    expect(screen.getByRole('status')).toHaveTextContent('User created successfully')
+    expect(screen.getByRole('alert')).toHaveTextContent('Failed to delete user')
+    expect(screen.getByRole('alert')).toHaveClass('text-bg-danger')
+  })
+
+  it('dismisses a toast from its close button', async () => {
+    const user = userEvent.setup()
+    render(<ToastContainer />)
+    show('Failed to delete user', 'error')
+
+    await user.click(screen.getByRole('button', { name: 'Close' }))
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+  })
+})
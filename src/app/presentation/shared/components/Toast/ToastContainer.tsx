@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react'
+import { toastService, type Toast } from '../../services/toastService'
+import './ToastContainer.scss'
+
+const VARIANT_CLASSES: Record<Toast['variant'], { className: string; icon: string }> = {
+  success: { className: 'text-bg-success', icon: 'bi bi-check-circle' },
+  error: { className: 'text-bg-danger', icon: 'bi bi-exclamation-triangle' },
+}
+
+/**
+ * Renders the toasts raised through toastService
+ */
+export function ToastContainer() {
+  const [toasts, setToasts] = useState<Toast[]>([])
+
+  useEffect(() => {
+    const subscription = toastService.toasts$.subscribe(setToasts)
+    return () => subscription.unsubscribe()
+  }, [])
+
+  return (
+    <div className="toast-container app-toasts position-fixed bottom-0 end-0 p-3">
+      {toasts.map((toast) => {
+        const { className, icon } = VARIANT_CLASSES[toast.variant]
+        return (
+          <div
+            key={toast.id}
+            className={`toast show align-items-center border-0 ${className}`}
+            role={toast.variant === 'error' ? 'alert' : 'status'}
+          >
+            <div className="d-flex">
+              <div className="toast-body">
+                <i className={`${icon} me-2`} />
+                {toast.message}
+              </div>
+              <button
+                type="button"
+                className="btn-close btn-close-white me-2 m-auto"
+                aria-label="Close"
+                onClick={() => toastService.dismiss(toast.id)}
+              />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Toast } from './toastService'
+
+describe('toastService', () => {
+  let toastService: typeof import('./toastService').toastService
+  let toasts: Toast[]
+
+  // A fresh queue per test
+  beforeEach(async () => {
+    vi.useFakeTimers()
+    vi.resetModules()
+    ;({ toastService } = await import('./toastService'))
+    toastService.toasts$.subscribe((current) => {
+      toasts = current
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts empty', () => {
+    expect(toasts).toEqual([])
+  })
+
+  it('queues toasts with increasing ids', () => {
+    const first = toastService.show('Saved')
+    const second = toastService.show('Failed to delete user', 'error')
+
+    expect(second).toBeGreaterThan(first)
+    expect(toasts).toEqual([
+      { id: first, message: 'Saved', variant: 'success' },
+      { id: second, message: 'Failed to delete user', variant: 'error' },
+    ])
+  })
+
+  it('dismisses a toast', () => {
+    const id = toastService.show('Saved')
+    toastService.show('Other')
+
+    toastService.dismiss(id)
+
+    expect(toasts.map((toast) => toast.message)).toEqual(['Other'])
+  })
+
+  it('dismisses toasts after their duration', () => {
+    toastService.show('Short', 'success', 1000)
+    toastService.show('Default')
+
+    vi.advanceTimersByTime(1000)
+    expect(toasts.map((toast) => toast.message)).toEqual(['Default'])
+
+    vi.advanceTimersByTime(4000)
+    expect(toasts).toEqual([])
+  })
+
+  it('ignores unknown ids', () => {
+    toastService.show('Saved')
+
+    toastService.dismiss(999)
+
+    expect(toasts).toHaveLength(1)
+  })
+})
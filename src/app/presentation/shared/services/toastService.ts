@@ -0,0 +1,62 @@
+// =============================================================================
+// Toast Service
+// =============================================================================
+// App-wide toast queue. ViewModels push messages here; ToastContainer in the
+// main layout renders them, so a toast outlives the screen that raised it.
+// =============================================================================
+
+import { BehaviorSubject } from 'rxjs'
+
+export type ToastVariant = 'success' | 'error'
+
+/**
+ * Toast on screen
+ */
+export interface Toast {
+  id: number
+  message: string
+  variant: ToastVariant
+}
+
+/**
+ * How long a toast stays up unless dismissed (ms)
+ */
+const TOAST_DURATION = 5000
+
+/**
+ * Toast Service
+ */
+class ToastService {
+  private readonly toastsSubject = new BehaviorSubject<Toast[]>([])
+  private nextId = 0
+
+  /**
+   * Show a toast; it dismisses itself after `duration` ms
+   */
+  show(message: string, variant: ToastVariant = 'success', duration: number = TOAST_DURATION): number {
+    const id = ++this.nextId
+    this.toastsSubject.next([...this.toastsSubject.value, { id, message, variant }])
+    setTimeout(() => this.dismiss(id), duration)
+    return id
+  }
+
+  /**
+   * Remove a toast
+   */
+  dismiss(id: number): void {
+    const toasts = this.toastsSubject.value
+    if (toasts.some((toast) => toast.id === id)) {
+      this.toastsSubject.next(toasts.filter((toast) => toast.id !== id))
+    }
+  }
+
+  /**
+   * Observable for the toasts on screen (replays the current list)
+   */
+  get toasts$() {
+    return this.toastsSubject.asObservable()
+  }
+}
+
+// Export singleton instance
+export const toastService = new ToastService()
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import type { ServiceResult } from '@/app/domain/services/userService'
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }))
+vi.mock('../services/toastService', () => ({
+  toastService: { show: (...args: unknown[]) => mockShowToast(...args) },
+}))
+
+import { useOptimisticReducer } from './useOptimisticReducer'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface ItemsState {
+  items: string[]
+  loading: boolean
+}
+
+type ItemsAction =
+  | { type: 'ADD'; item: string }
+  | { type: 'REMOVE'; item: string }
+  | { type: 'LOADING'; value: boolean }
+
+function itemsReducer(state: ItemsState, action: ItemsAction): ItemsState {
+  switch (action.type) {
+    case 'ADD':
+      return { ...state, items: [...state.items, action.item] }
+    case 'REMOVE':
+      return { ...state, items: state.items.filter((item) => item !== action.item) }
+    case 'LOADING':
+      return { ...state, loading: action.value }
+  }
+}
+
+function remove(item: string) {
+  return (state: ItemsState) => itemsReducer(state, { type: 'REMOVE', item })
+}
+
+/** Service call settled from the test */
+function deferred<T>() {
+  let settle!: (result: ServiceResult<T>) => void
+  const promise = new Promise<ServiceResult<T>>((resolve) => {
+    settle = resolve
+  })
+  return { promise, settle }
+}
+
+function renderItems() {
+  return renderHook(() => useOptimisticReducer(itemsReducer, { items: ['a', 'b', 'c'], loading: false }))
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('useOptimisticReducer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should dispatch plain actions to the reducer', () => {
+    const { result } = renderItems()
+
+    act(() => {
+      result.current[1]({ type: 'ADD', item: 'd' })
+    })
+
+    expect(result.current[0].items).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('should apply an update before the mutation resolves and keep it on success', async () => {
+    const { result } = renderItems()
+    const call = deferred<void>()
+
+    let pending!: Promise<ServiceResult<void>>
+    act(() => {
+      pending = result.current[2]({ update: remove('b'), mutate: () => call.promise, errorMessage: 'Failed' })
+    })
+
+    expect(result.current[0].items).toEqual(['a', 'c'])
+
+    await act(async () => {
+      call.settle({ success: true })
+      await pending
+    })
+
+    expect(result.current[0].items).toEqual(['a', 'c'])
+    expect(mockShowToast).not.toHaveBeenCalled()
+  })
+
+  it('should roll back and show an error toast when the mutation fails', async () => {
+    const { result } = renderItems()
+
+    let outcome!: ServiceResult<void>
+    await act(async () => {
+      outcome = await result.current[2]({
+        update: remove('b'),
+        mutate: () => Promise.resolve({ success: false, error: 'Forbidden' }),
+        errorMessage: 'Failed',
+      })
+    })
+
+    expect(outcome).toEqual({ success: false, error: 'Forbidden' })
+    expect(result.current[0].items).toEqual(['a', 'b', 'c'])
+    expect(mockShowToast).toHaveBeenCalledWith('Forbidden', 'error')
+  })
+
+  it('should fall back to the error message and treat a rejection as a failure', async () => {
+    const { result } = renderItems()
+
+    await act(async () => {
+      await result.current[2]({
+        update: remove('b'),
+        mutate: () => Promise.resolve({ success: false }),
+        errorMessage: 'Failed',
+      })
+    })
+    await act(async () => {
+      await result.current[2]({
+        update: remove('c'),
+        mutate: () => Promise.reject(new Error('Offline')),
+        errorMessage: 'Failed',
+      })
+    })
+
+    expect(mockShowToast).toHaveBeenNthCalledWith(1, 'Failed', 'error')
+    expect(mockShowToast).toHaveBeenNthCalledWith(2, 'Offline', 'error')
+    expect(result.current[0].items).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should roll back only the failed update when mutations overlap', async () => {
+    const { result } = renderItems()
+    const first = deferred<void>()
+    const second = deferred<void>()
+
+    let pending!: Promise<unknown>
+    act(() => {
+      pending = Promise.all([
+        result.current[2]({ update: remove('a'), mutate: () => first.promise, errorMessage: 'Failed' }),
+        result.current[2]({ update: remove('b'), mutate: () => second.promise, errorMessage: 'Failed' }),
+      ])
+    })
+
+    expect(result.current[0].items).toEqual(['c'])
+
+    await act(async () => {
+      second.settle({ success: true })
+      first.settle({ success: false })
+      await pending
+    })
+
+    expect(result.current[0].items).toEqual(['a', 'c'])
+  })
+
+  it('should keep actions dispatched while a mutation is pending', async () => {
+    const { result } = renderItems()
+    const call = deferred<void>()
+
+    let pending!: Promise<ServiceResult<void>>
+    act(() => {
+      pending = result.current[2]({ update: remove('a'), mutate: () => call.promise, errorMessage: 'Failed' })
+    })
+    act(() => {
+      result.current[1]({ type: 'ADD', item: 'd' })
+      result.current[1]({ type: 'LOADING', value: true })
+    })
+
+    expect(result.current[0]).toEqual({ items: ['b', 'c', 'd'], loading: true })
+
+    await act(async () => {
+      call.settle({ success: false })
+      await pending
+    })
+
+    expect(result.current[0]).toEqual({ items: ['a', 'b', 'c', 'd'], loading: true })
+  })
+})
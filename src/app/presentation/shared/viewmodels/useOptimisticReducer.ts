@@ -0,0 +1,138 @@
+// =============================================================================
+// Optimistic Reducer - Shared Optimistic Updates for MVVM ViewModels
+// =============================================================================
+// Wraps a viewmodel reducer so a mutation shows on screen before the service
+// answers. Pending updates sit on top of the confirmed state: a successful
+// mutation folds its update into it, a failed one is dropped and the screen
+// is rebuilt from the confirmed state and the updates still pending.
+// =============================================================================
+
+import { useCallback, useReducer, useRef } from 'react'
+import type { ServiceResult } from '@/app/domain/services/userService'
+import { toastService } from '../services/toastService'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * State change applied before the service confirms it
+ */
+export type OptimisticUpdate<S> = (state: S) => S
+
+interface PendingUpdate<S> {
+  id: number
+  update: OptimisticUpdate<S>
+}
+
+interface OptimisticState<S> {
+  // State as confirmed by the service
+  confirmed: S
+  pending: PendingUpdate<S>[]
+  // Confirmed state with every pending update applied (what is on screen)
+  current: S
+}
+
+type OptimisticAction<S, A> =
+  | { type: 'ACTION'; action: A }
+  | { type: 'APPLY'; id: number; update: OptimisticUpdate<S> }
+  | { type: 'COMMIT'; id: number }
+  | { type: 'ROLLBACK'; id: number }
+
+/**
+ * One optimistic mutation
+ */
+export interface OptimisticMutation<S, T> {
+  /** Applied at once, kept if the service succeeds */
+  update: OptimisticUpdate<S>
+  /** Service call confirming the update */
+  mutate: () => Promise<ServiceResult<T>>
+  /** Toast shown on rollback when the service gives no error */
+  errorMessage: string
+}
+
+/**
+ * Run an optimistic mutation; resolves with the service result after the
+ * update has been committed or rolled back
+ */
+export type RunOptimistic<S> = <T>(mutation: OptimisticMutation<S, T>) => Promise<ServiceResult<T>>
+
+// =============================================================================
+// Reducer (Pure Function)
+// =============================================================================
+
+function replay<S>(confirmed: S, pending: PendingUpdate<S>[]): S {
+  return pending.reduce((state, { update }) => update(state), confirmed)
+}
+
+function optimisticReducer<S, A>(reducer: (state: S, action: A) => S) {
+  return (state: OptimisticState<S>, action: OptimisticAction<S, A>): OptimisticState<S> => {
+    switch (action.type) {
+      case 'ACTION': {
+        const confirmed = reducer(state.confirmed, action.action)
+        return { ...state, confirmed, current: replay(confirmed, state.pending) }
+      }
+      case 'APPLY':
+        return {
+          ...state,
+          pending: [...state.pending, { id: action.id, update: action.update }],
+          current: action.update(state.current),
+        }
+      case 'COMMIT':
+      case 'ROLLBACK': {
+        const settled = state.pending.find((entry) => entry.id === action.id)
+        if (!settled) return state
+        const pending = state.pending.filter((entry) => entry !== settled)
+        const confirmed = action.type === 'COMMIT' ? settled.update(state.confirmed) : state.confirmed
+        return { confirmed, pending, current: replay(confirmed, pending) }
+      }
+      default:
+        return state
+    }
+  }
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * useReducer with optimistic mutations
+ * Returns the state on screen, the reducer's dispatch and a runner for
+ * optimistic mutations. A failed mutation is rolled back and reported with
+ * an error toast.
+ */
+export function useOptimisticReducer<S, A>(
+  reducer: (state: S, action: A) => S,
+  initialState: S
+): [S, (action: A) => void, RunOptimistic<S>] {
+  const [state, dispatchOptimistic] = useReducer(optimisticReducer(reducer), {
+    confirmed: initialState,
+    pending: [],
+    current: initialState,
+  })
+  const nextId = useRef(0)
+
+  const dispatch = useCallback((action: A) => {
+    dispatchOptimistic({ type: 'ACTION', action })
+  }, [])
+
+  const run = useCallback(async <T>({ update, mutate, errorMessage }: OptimisticMutation<S, T>) => {
+    const id = ++nextId.current
+    dispatchOptimistic({ type: 'APPLY', id, update })
+
+    const result = await mutate().catch(
+      (error: unknown): ServiceResult<T> => ({ success: false, error: (error as Error).message })
+    )
+
+    if (result.success) {
+      dispatchOptimistic({ type: 'COMMIT', id })
+    } else {
+      dispatchOptimistic({ type: 'ROLLBACK', id })
+      toastService.show(result.error || errorMessage, 'error')
+    }
+    return result
+  }, [])
+
+  return [state.current, dispatch, run]
+}
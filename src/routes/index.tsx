@@ -8,6 +8,7 @@
 import { Routes, Route, Navigate } from 'react-router-dom'
 import { lazy, Suspense } from 'react'
 import { MainLayout } from '@presentation/layout/main-layout/MainLayout'
+import { RouteGuard } from '@presentation/layout/route-guard/RouteGuard'
 import { LoadingSpinner } from '@shared/components/LoadingSpinner/LoadingSpinner'
 import { ErrorBoundary } from '@shared/components/ErrorBoundary/ErrorBoundary'
 import { Routes as AppRoutes } from '@core/navigation'
@@ -16,6 +17,22 @@ import { Routes as AppRoutes } from '@core/navigation'
 // Lazy Load Feature Components
 // =============================================================================
 
+const LoginComponent = lazy(() =>
+  import('@presentation/features/auth/login/LoginComponent').then((m) => ({ default: m.LoginComponent }))
+)
+const LogoutComponent = lazy(() =>
+  import('@presentation/features/auth/logout/LogoutComponent').then((m) => ({ default: m.LogoutComponent }))
+)
+const SessionExpiredComponent = lazy(() =>
+  import('@presentation/features/auth/session-expired/SessionExpiredComponent').then((m) => ({
+    default: m.SessionExpiredComponent,
+  }))
+)
+const ForbiddenComponent = lazy(() =>
+  import('@presentation/features/auth/forbidden/ForbiddenComponent').then((m) => ({
+    default: m.ForbiddenComponent,
+  }))
+)
 const HomeComponent = lazy(() =>
   import('@presentation/features/home/HomeComponent').then((m) => ({ default: m.HomeComponent }))
 )
@@ -34,6 +51,61 @@ const UserFormComponent = lazy(() =>
     default: m.UserFormComponent,
   }))
 )
+const ProjectListComponent = lazy(() =>
+  import('@presentation/features/projects/project-list/ProjectListComponent').then((m) => ({
+    default: m.ProjectListComponent,
+  }))
+)
+const ProjectDetailComponent = lazy(() =>
+  import('@presentation/features/projects/project-detail/ProjectDetailComponent').then((m) => ({
+    default: m.ProjectDetailComponent,
+  }))
+)
+const ProjectFormComponent = lazy(() =>
+  import('@presentation/features/projects/project-form/ProjectFormComponent').then((m) => ({
+    default: m.ProjectFormComponent,
+  }))
+)
+const TaskListComponent = lazy(() =>
+  import('@presentation/features/tasks/task-list/TaskListComponent').then((m) => ({
+    default: m.TaskListComponent,
+  }))
+)
+const TaskDetailComponent = lazy(() =>
+  import('@presentation/features/tasks/task-detail/TaskDetailComponent').then((m) => ({
+    default: m.TaskDetailComponent,
+  }))
+)
+const TaskFormComponent = lazy(() =>
+  import('@presentation/features/tasks/task-form/TaskFormComponent').then((m) => ({
+    default: m.TaskFormComponent,
+  }))
+)
+const CalendarViewComponent = lazy(() =>
+  import('@presentation/features/calendar/calendar-view/CalendarViewComponent').then((m) => ({
+    default: m.CalendarViewComponent,
+  }))
+)
+const ConversationListComponent = lazy(() =>
+  import('@presentation/features/messages/conversation-list/ConversationListComponent').then((m) => ({
+    default: m.ConversationListComponent,
+  }))
+)
+const MessageThreadComponent = lazy(() =>
+  import('@presentation/features/messages/message-thread/MessageThreadComponent').then((m) => ({
+    default: m.MessageThreadComponent,
+  }))
+)
+const SyncConflictsComponent = lazy(() =>
+  import('@presentation/features/sync/sync-conflicts/SyncConflictsComponent').then((m) => ({
+    default: m.SyncConflictsComponent,
+  }))
+)
+const DeadLettersComponent = lazy(() =>
+  import('@presentation/features/sync/dead-letters/DeadLettersComponent').then((m) => ({
+    default: m.DeadLettersComponent,
+  }))
+)
 
 // =============================================================================
 // Loading Wrapper with Error Boundary
@@ -78,7 +150,41 @@ function PlaceholderPage({ title }: Readonly<{ title: string }>) {
 export function ApplicationRoutes() {
   return (
     <Routes>
-      <Route path={AppRoutes.ROOT} element={<MainLayout />}>
+      {/* Auth (outside the main layout) */}
+      <Route
+        path={AppRoutes.LOGIN}
+        element={
+          <LazyWrapper>
+            <LoginComponent />
+          </LazyWrapper>
+        }
+      />
+      <Route
+        path={AppRoutes.LOGOUT}
+        element={
+          <LazyWrapper>
+            <LogoutComponent />
+          </LazyWrapper>
+        }
+      />
+      <Route
+        path={AppRoutes.SESSION_EXPIRED}
+        element={
+          <LazyWrapper>
+            <SessionExpiredComponent />
+          </LazyWrapper>
+        }
+      />
+
+      {/* Main layout - requiresAuth, roles and permissions are enforced by RouteGuard */}
+      <Route
+        path={AppRoutes.ROOT}
+        element={
+          <RouteGuard>
+            <MainLayout />
+          </RouteGuard>
+        }
+      >
         {/* Index Route - Redirect to Home */}
         <Route index element={<Navigate to={AppRoutes.HOME} replace />} />
 
@@ -128,30 +234,130 @@ export function ApplicationRoutes() {
           />
         </Route>
 
-        {/* Projects Feature (Placeholder) */}
+        {/* Projects Feature */}
         <Route path="projects">
-          <Route index element={<PlaceholderPage title="All Projects" />} />
-          <Route path="new" element={<PlaceholderPage title="Create Project" />} />
-          <Route path="archived" element={<PlaceholderPage title="Archived Projects" />} />
-          <Route path=":id" element={<PlaceholderPage title="Project Details" />} />
-          <Route path=":id/edit" element={<PlaceholderPage title="Edit Project" />} />
+          <Route
+            index
+            element={
+              <LazyWrapper>
+                <ProjectListComponent key="active" />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path="new"
+            element={
+              <LazyWrapper>
+                <ProjectFormComponent />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path="archived"
+            element={
+              <LazyWrapper>
+                <ProjectListComponent key="archived" archived />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path=":id"
+            element={
+              <LazyWrapper>
+                <ProjectDetailComponent />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path=":id/edit"
+            element={
+              <LazyWrapper>
+                <ProjectFormComponent />
+              </LazyWrapper>
+            }
+          />
         </Route>
 
-        {/* Tasks Feature (Placeholder) */}
+        {/* Tasks Feature (views are keyed so switching between them starts a fresh list) */}
         <Route path="tasks">
-          <Route index element={<PlaceholderPage title="My Tasks" />} />
-          <Route path="recent" element={<PlaceholderPage title="Recent Tasks" />} />
-          <Route path="important" element={<PlaceholderPage title="Important Tasks" />} />
-          <Route path=":id" element={<PlaceholderPage title="Task Details" />} />
+          <Route
+            index
+            element={
+              <LazyWrapper>
+                <TaskListComponent key="my" view="my" />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path="recent"
+            element={
+              <LazyWrapper>
+                <TaskListComponent key="recent" view="recent" />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path="important"
+            element={
+              <LazyWrapper>
+                <TaskListComponent key="important" view="important" />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path="new"
+            element={
+              <LazyWrapper>
+                <TaskFormComponent />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path=":id"
+            element={
+              <LazyWrapper>
+                <TaskDetailComponent />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path=":id/edit"
+            element={
+              <LazyWrapper>
+                <TaskFormComponent />
+              </LazyWrapper>
+            }
+          />
         </Route>
 
         {/* Calendar */}
-        <Route path="calendar" element={<PlaceholderPage title="Calendar" />} />
+        <Route
+          path="calendar"
+          element={
+            <LazyWrapper>
+              <CalendarViewComponent />
+            </LazyWrapper>
+          }
+        />
 
         {/* Messages */}
         <Route path="messages">
-          <Route index element={<PlaceholderPage title="Messages" />} />
-          <Route path=":id" element={<PlaceholderPage title="Message" />} />
+          <Route
+            index
+            element={
+              <LazyWrapper>
+                <ConversationListComponent />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path=":id"
+            element={
+              <LazyWrapper>
+                <MessageThreadComponent />
+              </LazyWrapper>
+            }
+          />
         </Route>
 
         {/* Documents */}
@@ -170,9 +376,39 @@ export function ApplicationRoutes() {
         {/* Settings */}
         <Route path="settings" element={<PlaceholderPage title="Settings" />} />
 
+        {/* Sync */}
+        <Route path="sync">
+          <Route
+            path="conflicts"
+            element={
+              <LazyWrapper>
+                <SyncConflictsComponent />
+              </LazyWrapper>
+            }
+          />
+          <Route
+            path="failed"
+            element={
+              <LazyWrapper>
+                <DeadLettersComponent />
+              </LazyWrapper>
+            }
+          />
+        </Route>
+
         {/* Profile */}
         <Route path="profile" element={<PlaceholderPage title="Profile" />} />
 
+        {/* Forbidden (403) */}
+        <Route
+          path="forbidden"
+          element={
+            <LazyWrapper>
+              <ForbiddenComponent />
+            </LazyWrapper>
+          }
+        />
+
         {/* Catch-all - Redirect to Home */}
         <Route path="*" element={<Navigate to={AppRoutes.HOME} replace />} />
       </Route>
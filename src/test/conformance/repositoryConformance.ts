@@ -0,0 +1,293 @@
+// =============================================================================
+// Repository Conformance Suite
+// =============================================================================
+// Behaviour every Repository must keep, run against the real memory, LRU and
+// IndexedDB layers (fake-indexeddb). The calling test file mocks the API, the
+// offline sync service and the network status, and hands the mocks in:
+//
+//   describeRepositoryConformance('UserRepository', () => ({ ... }))
+// =============================================================================
+
+import 'fake-indexeddb/auto'
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { ErrorCategory } from '@/app/domain/entities/app-error.model'
+import { isOfflineId } from '@/app/domain/entities/id-mapping.model'
+import type { EntityChange } from '@/app/domain/entities/entity-change.model'
+import type { SyncHandler } from '@/app/data/sync/offlineSyncService'
+import { memoryCacheService } from '@/app/data/storage/memoryCacheService'
+import { lruCacheService } from '@/app/data/storage/lruCacheService'
+import { indexedDbService, type EntityTableName, type PendingOperation } from '@/app/data/storage/indexedDbService'
+import type { EntityApiDto, EntityConfig, EntityOf, Repository, SortFieldOf } from '@/app/data/repositories/repository'
+
+/**
+ * Mocks and fixtures for one repository
+ */
+export interface RepositoryConformanceHarness<
+  K extends EntityTableName,
+  TApi extends EntityApiDto,
+  TCreate,
+  TUpdate,
+  TSort extends SortFieldOf<K>,
+> {
+  repository: Repository<K, TApi, TCreate, TUpdate, TSort>
+  config: EntityConfig<K, TApi, TCreate, TUpdate, TSort>
+  api: { get: Mock; post: Mock; put: Mock; delete: Mock }
+  /** Sync handlers registered with the mocked offline sync service, by entity */
+  syncHandlers: Map<string, SyncHandler>
+  setOnline(online: boolean): void
+  /** API DTO of a stored entity */
+  apiDto(id: number, overrides?: Partial<TApi>): TApi
+  createDto: TCreate
+  updateDto: TUpdate
+  /** Create DTO the validator rejects (skips the validation case when omitted) */
+  invalidCreateDto?: TCreate
+}
+
+function pageOf<TApi>(items: TApi[]) {
+  return { data: { data: items, page: 1, per_page: 10, total: items.length, total_pages: 1 } }
+}
+
+/**
+ * Register the conformance cases for a repository
+ */
+export function describeRepositoryConformance<
+  K extends EntityTableName,
+  TApi extends EntityApiDto,
+  TCreate,
+  TUpdate,
+  TSort extends SortFieldOf<K>,
+>(name: string, setup: () => RepositoryConformanceHarness<K, TApi, TCreate, TUpdate, TSort>): void {
+  describe(`${name} conformance`, () => {
+    let harness: RepositoryConformanceHarness<K, TApi, TCreate, TUpdate, TSort>
+    let changes: EntityChange<EntityOf<K>, unknown>[]
+    const PAGE = { page: 1, pageSize: 10 }
+
+    async function pendingOperations(): Promise<PendingOperation[]> {
+      return indexedDbService.getPendingOperationsByEntity(harness.config.entity)
+    }
+
+    beforeEach(async () => {
+      harness = setup()
+      harness.setOnline(true)
+      Object.values(harness.api).forEach((mock) => mock.mockReset())
+
+      // Keep the cache encryption key ID between reads
+      const storage = new Map<string, string>()
+      vi.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null)
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) => void storage.set(key, value))
+
+      memoryCacheService.clear()
+      lruCacheService.clear()
+      await indexedDbService.clearAll()
+
+      changes = []
+      const subscription = harness.repository.changes$.subscribe((change) => changes.push(change))
+      return () => subscription.unsubscribe()
+    })
+
+    describe('reads', () => {
+      it('fetches an entity once and answers later reads from the cache', async () => {
+        harness.api.get.mockResolvedValue({ data: harness.apiDto(1) })
+
+        const first = await harness.repository.getById('1')
+        const second = await harness.repository.getById('1')
+
+        expect(first?.id).toBe('1')
+        expect(second).toEqual(first)
+        expect(harness.api.get).toHaveBeenCalledTimes(1)
+        expect(harness.api.get).toHaveBeenCalledWith(`${harness.config.endpoint}/1`, undefined)
+      })
+
+      it('answers cache-only reads of an uncached entity with null', async () => {
+        expect(await harness.repository.getById('1', { policy: 'cache-only' })).toBeNull()
+        expect(harness.api.get).not.toHaveBeenCalled()
+      })
+
+      it('caches list pages', async () => {
+        harness.api.get.mockResolvedValue(pageOf([harness.apiDto(1), harness.apiDto(2)]))
+
+        const first = await harness.repository.getList(PAGE)
+        const second = await harness.repository.getList(PAGE)
+
+        expect(first.data.map((entity) => entity.id)).toEqual(['1', '2'])
+        expect(second).toEqual(first)
+        expect(harness.api.get).toHaveBeenCalledTimes(1)
+      })
+
+      it('answers lists from the entity table offline', async () => {
+        harness.api.get.mockResolvedValue({ data: harness.apiDto(1) })
+        await harness.repository.getById('1')
+        harness.setOnline(false)
+
+        const list = await harness.repository.getList(PAGE)
+
+        expect(list.data.map((entity) => entity.id)).toEqual(['1'])
+        expect(list.total).toBe(1)
+      })
+    })
+
+    describe('online mutations', () => {
+      beforeEach(async () => {
+        harness.api.get.mockImplementation((url: string) =>
+          Promise.resolve(url.includes('?') ? pageOf([harness.apiDto(1)]) : { data: harness.apiDto(1) })
+        )
+        await harness.repository.getList(PAGE)
+      })
+
+      it('creates through the API and drops cached list pages', async () => {
+        harness.api.post.mockResolvedValue({ data: harness.apiDto(2) })
+
+        const created = await harness.repository.create(harness.createDto)
+
+        expect(created.id).toBe('2')
+        expect(harness.api.post).toHaveBeenCalledWith(harness.config.endpoint, expect.any(Object))
+        expect(changes).toEqual([{ type: 'create', entity: created }])
+        await harness.repository.getList(PAGE)
+        expect(harness.api.get).toHaveBeenCalledTimes(2)
+      })
+
+      it('updates through the API and caches the result', async () => {
+        harness.api.put.mockResolvedValue({ data: harness.apiDto(1) })
+
+        const updated = await harness.repository.update('1', harness.updateDto)
+
+        expect(harness.api.put).toHaveBeenCalledWith(`${harness.config.endpoint}/1`, expect.any(Object))
+        expect(changes).toEqual([{ type: 'update', entity: updated }])
+        expect(await harness.repository.getById('1', { policy: 'cache-only' })).toEqual(updated)
+      })
+
+      it('deletes through the API and removes the entity from the cache', async () => {
+        harness.api.delete.mockResolvedValue({ data: null })
+
+        await harness.repository.delete('1')
+
+        expect(harness.api.delete).toHaveBeenCalledWith(`${harness.config.endpoint}/1`)
+        expect(changes).toEqual([{ type: 'delete', entity: expect.objectContaining({ id: '1' }) }])
+        expect(await harness.repository.getById('1', { policy: 'cache-only' })).toBeNull()
+      })
+
+      it('rejects updates of an unknown entity', async () => {
+        harness.api.get.mockRejectedValue(new Error('Not found'))
+
+        await expect(harness.repository.update('99', harness.updateDto)).rejects.toThrow(
+          `${harness.config.label} not found`
+        )
+      })
+
+      it('rejects an invalid create before calling the API', async (context) => {
+        if (harness.invalidCreateDto === undefined) return context.skip()
+
+        await expect(harness.repository.create(harness.invalidCreateDto)).rejects.toMatchObject({
+          category: ErrorCategory.VALIDATION,
+        })
+        expect(harness.api.post).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('offline mutations', () => {
+      beforeEach(async () => {
+        harness.api.get.mockResolvedValue({ data: harness.apiDto(1) })
+        await harness.repository.getById('1')
+        harness.setOnline(false)
+      })
+
+      it('queues a create under an offline ID', async () => {
+        const created = await harness.repository.create(harness.createDto)
+
+        expect(isOfflineId(created.id)).toBe(true)
+        expect(harness.api.post).not.toHaveBeenCalled()
+        expect(await pendingOperations()).toEqual([
+          expect.objectContaining({ type: 'create', entityId: created.id, payload: harness.createDto }),
+        ])
+        expect((await harness.repository.getList(PAGE)).data.map((entity) => entity.id)).toContain(created.id)
+      })
+
+      it('queues an update with the version it is based on', async () => {
+        const updated = await harness.repository.update('1', harness.updateDto)
+
+        expect(harness.api.put).not.toHaveBeenCalled()
+        expect(await pendingOperations()).toEqual([
+          expect.objectContaining({
+            type: 'update',
+            entityId: '1',
+            payload: harness.updateDto,
+            baseVersion: harness.apiDto(1).updated_at,
+          }),
+        ])
+        expect(await harness.repository.getById('1', { policy: 'cache-only' })).toEqual(updated)
+      })
+
+      it('queues a delete and removes the entity locally', async () => {
+        await harness.repository.delete('1')
+
+        expect(harness.api.delete).not.toHaveBeenCalled()
+        expect(await pendingOperations()).toEqual([expect.objectContaining({ type: 'delete', entityId: '1' })])
+        expect(await harness.repository.getById('1', { policy: 'cache-only' })).toBeNull()
+      })
+    })
+
+    describe('sync handlers', () => {
+      function handler() {
+        const registered = harness.syncHandlers.get(harness.config.entity)
+        expect(registered).toBeDefined()
+        return registered!
+      }
+
+      it('replays a create and replaces the offline entity with the server one', async () => {
+        harness.setOnline(false)
+        const created = await harness.repository.create(harness.createDto)
+        const [op] = await pendingOperations()
+        harness.setOnline(true)
+        harness.api.post.mockResolvedValue({ data: harness.apiDto(7) })
+
+        await handler().create(op)
+
+        expect(harness.api.post).toHaveBeenCalledWith(
+          harness.config.endpoint,
+          expect.any(Object),
+          expect.objectContaining({ idempotencyKey: op.idempotencyKey })
+        )
+        expect(await harness.repository.getById(created.id, { policy: 'cache-only' })).toMatchObject({ id: '7' })
+      })
+
+      it('reports a conflict when the server moved past the queued base version', async () => {
+        harness.api.get.mockResolvedValue({ data: harness.apiDto(1) })
+        await harness.repository.getById('1')
+        harness.setOnline(false)
+        await harness.repository.update('1', harness.updateDto)
+        const [op] = await pendingOperations()
+        harness.setOnline(true)
+        harness.api.get.mockResolvedValue({
+          data: harness.apiDto(1, { updated_at: '2030-01-01T00:00:00.000Z' } as Partial<TApi>),
+        })
+
+        await expect(handler().update(op)).rejects.toMatchObject({ category: ErrorCategory.CONFLICT })
+        expect(harness.api.put).not.toHaveBeenCalled()
+      })
+
+      it('replays a delete', async () => {
+        harness.api.delete.mockResolvedValue({ data: null })
+        const op = { id: 1, type: 'delete', entity: harness.config.entity, entityId: '1' } as PendingOperation
+
+        await handler().delete(op)
+
+        expect(harness.api.delete).toHaveBeenCalledWith(`${harness.config.endpoint}/1`, expect.any(Object))
+      })
+    })
+
+    describe('clearCache', () => {
+      it('drops cached entities and lists', async () => {
+        harness.api.get.mockResolvedValue(pageOf([harness.apiDto(1)]))
+        await harness.repository.getList(PAGE)
+
+        await harness.repository.clearCache()
+
+        expect(await harness.repository.getById('1', { policy: 'cache-only' })).toBeNull()
+        expect(await harness.repository.getList(PAGE, undefined, { policy: 'cache-only' })).toMatchObject({
+          data: [],
+          total: 0,
+        })
+      })
+    })
+  })
+}
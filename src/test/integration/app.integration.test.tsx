@@ -1,21 +1,37 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, act } from '@testing-library/react'
+import 'fake-indexeddb/auto'
+import { render, screen, act, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { MemoryRouter } from 'react-router-dom'
+import { MemoryRouter, Routes, Route } from 'react-router-dom'
 import { I18nProvider } from '@core/providers/I18nProvider'
 import { AuthProvider } from '@core/providers/AuthProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createMockAuthService, createTestContainer } from '@/test/mocks/authService'
+import { createMockMessageService } from '@/test/mocks/messageService'
+import type { Conversation, Message } from '@/app/domain/entities/message.model'
 import { ThemeProvider } from '@core/providers/ThemeProvider'
 import { MainLayout } from '@presentation/layout/main-layout/MainLayout'
+import { LogoutComponent } from '@presentation/features/auth/logout/LogoutComponent'
 
 // Test wrapper with all providers
-function renderApp(initialRoute = '/') {
+function renderApp(
+  initialRoute = '/',
+  authService = createMockAuthService().service,
+  messageService = createMockMessageService().service
+) {
   return render(
     <MemoryRouter initialEntries={[initialRoute]}>
       <ThemeProvider>
         <I18nProvider>
-          <AuthProvider>
-            <MainLayout />
-          </AuthProvider>
+          <DIProvider container={createTestContainer(authService, messageService)}>
+            <AuthProvider>
+              <Routes>
+                <Route path="/logout" element={<LogoutComponent />} />
+                <Route path="/login" element={<div>Login page</div>} />
+                <Route path="*" element={<MainLayout />} />
+              </Routes>
+            </AuthProvider>
+          </DIProvider>
         </I18nProvider>
       </ThemeProvider>
     </MemoryRouter>
@@ -78,7 +94,8 @@ describe('App Integration Tests', () => {
 
     it('should handle logout', async () => {
       const user = userEvent.setup()
-      const { container } = renderApp()
+      const { service: authService } = createMockAuthService()
+      const { container } = renderApp('/', authService)
 
       // Open user dropdown
       const userMenuButton = container.querySelector('.user-menu-toggle')
@@ -94,7 +111,8 @@ describe('App Integration Tests', () => {
             await user.click(logoutButtons[0])
           })
 
-          expect(localStorage.removeItem).toHaveBeenCalled()
+          expect(authService.logout).toHaveBeenCalled()
+          expect(await screen.findByText('Login page')).toBeInTheDocument()
         }
       }
     })
@@ -177,11 +195,29 @@ describe('App Integration Tests', () => {
   })
 
   describe('Notifications', () => {
-    it('should display notification badge', () => {
-      renderApp()
+    it('should display the unread message count on the notification badge', async () => {
+      const message: Message = {
+        id: '1',
+        conversationId: '1~2',
+        senderId: '2',
+        senderName: 'Sarah Connor',
+        recipientId: '1',
+        recipientName: 'John Doe',
+        body: 'Approved your pull request',
+        readAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+      const conversations: Conversation[] = [
+        { id: '1~2', participantId: '2', participantName: 'Sarah Connor', lastMessage: message, unreadCount: 1 },
+        { id: '1~3', participantId: '3', participantName: 'Mike Johnson', lastMessage: message, unreadCount: 2 },
+      ]
+      const { container } = renderApp('/', undefined, createMockMessageService(conversations).service)
 
       // Check for notification badge
-      expect(screen.getByText('3')).toBeInTheDocument()
+      await waitFor(() => {
+        expect(container.querySelector('.badge-notification')).toHaveTextContent('3')
+      })
     })
   })
 })
@@ -0,0 +1,73 @@
+// =============================================================================
+// Auth Test Doubles
+// =============================================================================
+// In-memory AuthService and DI container for components under AuthProvider.
+// =============================================================================
+
+import { BehaviorSubject } from 'rxjs'
+import { vi } from 'vitest'
+import { DIContainer, ServiceTokens } from '@core/di/container'
+import type { AuthService } from '@/app/domain/services/authService'
+import type { MessageService } from '@/app/domain/services/messageService'
+import type { AuthSession, AuthUser } from '@/app/domain/entities/auth.model'
+import { createMockMessageService } from './messageService'
+
+export const TEST_USER: AuthUser = {
+  id: '1',
+  email: 'admin@arcana.io',
+  firstName: 'John',
+  lastName: 'Doe',
+  avatar: 'https://i.pravatar.cc/150?img=8',
+  role: 'Admin',
+  status: 'online',
+}
+
+function createSession(user: AuthUser): AuthSession {
+  return {
+    user,
+    tokens: { accessToken: 'test-access-token', refreshToken: 'test-refresh-token', expiresAt: null },
+  }
+}
+
+/**
+ * In-memory AuthService signed in as `user` (signed out when null)
+ */
+export function createMockAuthService(user: AuthUser | null = TEST_USER) {
+  const session = new BehaviorSubject<AuthSession | null>(user ? createSession(user) : null)
+
+  const service = {
+    session$: session.asObservable(),
+    get currentSession() {
+      return session.value
+    },
+    login: vi.fn(async () => {
+      session.next(createSession(TEST_USER))
+      return { success: true, data: session.value! }
+    }),
+    logout: vi.fn(async () => {
+      session.next(null)
+      return { success: true }
+    }),
+    refresh: vi.fn(async () => ({ success: true, data: session.value! })),
+    updateUser: vi.fn((updates: Partial<AuthUser>) => {
+      if (session.value) {
+        session.next({ ...session.value, user: { ...session.value.user, ...updates } })
+      }
+    }),
+  } satisfies AuthService
+
+  return { service, session }
+}
+
+/**
+ * DI container with the services needed by the app shell
+ */
+export function createTestContainer(
+  authService: AuthService = createMockAuthService().service,
+  messageService: MessageService = createMockMessageService().service
+): DIContainer {
+  const container = new DIContainer()
+  container.register(ServiceTokens.AuthService, authService)
+  container.register(ServiceTokens.MessageService, messageService)
+  return container
+}
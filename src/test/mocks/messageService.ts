@@ -0,0 +1,35 @@
+// =============================================================================
+// Message Test Doubles
+// =============================================================================
+// In-memory MessageService for the app shell, which shows the unread messages.
+// =============================================================================
+
+import { Subject } from 'rxjs'
+import { vi } from 'vitest'
+import type { MessageChange, MessageService } from '@/app/domain/services/messageService'
+import type { Conversation } from '@/app/domain/entities/message.model'
+import type { IdMapping } from '@/app/domain/entities/id-mapping.model'
+
+/**
+ * In-memory MessageService holding `conversations` (none by default)
+ */
+export function createMockMessageService(conversations: Conversation[] = []) {
+  const updates = new Subject<MessageChange>()
+  const idMappings = new Subject<IdMapping>()
+
+  const service = {
+    getConversations: vi.fn(async () => ({ success: true, data: conversations })),
+    getThread: vi.fn(async () => ({ success: true, data: [] })),
+    getOutbox: vi.fn(async () => ({ success: true, data: [] })),
+    send: vi.fn(async () => ({ success: false, error: 'Not supported' })),
+    markRead: vi.fn(async () => ({ success: true, data: 0 })),
+    markAllRead: vi.fn(async () => ({ success: true, data: 0 })),
+    delete: vi.fn(async () => ({ success: true })),
+    isOnline: vi.fn(() => true),
+    clearCache: vi.fn(async () => {}),
+    idMappings$: idMappings.asObservable(),
+    updates$: updates.asObservable(),
+  } satisfies MessageService
+
+  return { service, updates, idMappings }
+}
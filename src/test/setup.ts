@@ -47,10 +47,17 @@ vi.stubGlobal('IntersectionObserver', vi.fn().mockImplementation(() => ({
   disconnect: vi.fn(),
 })))
 
-// Mock crypto.randomUUID
+// Test files run in worker threads of one process; keep them off a shared
+// BroadcastChannel so their cross-tab messages cannot leak into each other
+vi.stubGlobal('BroadcastChannel', undefined)
+
+// Mock crypto.randomUUID (WebCrypto itself stays real for cache encryption)
+const webCrypto = globalThis.crypto
 Object.defineProperty(globalThis, 'crypto', {
   value: {
     randomUUID: () => 'test-uuid-1234-5678-9012',
+    subtle: webCrypto.subtle,
+    getRandomValues: webCrypto.getRandomValues.bind(webCrypto),
   },
 })
 
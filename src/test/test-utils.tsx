@@ -1,21 +1,31 @@
-import type { ReactNode } from 'react'
+import { useState, type ReactNode } from 'react'
 import { render, type RenderOptions } from '@testing-library/react'
 import { BrowserRouter } from 'react-router-dom'
 import { AuthProvider } from '@core/providers/AuthProvider'
 import { I18nProvider } from '@core/providers/I18nProvider'
+import { DIProvider } from '@core/di/DIProvider'
+import { createTestContainer } from './mocks/authService'
+
+// =============================================================================
+// Render
+// =============================================================================
 
 interface AllTheProvidersProps {
   children: ReactNode
 }
 
 function AllTheProviders({ children }: Readonly<AllTheProvidersProps>) {
+  const [container] = useState(() => createTestContainer())
+
   return (
     <BrowserRouter>
-      <I18nProvider>
-        <AuthProvider>
-          {children}
-        </AuthProvider>
-      </I18nProvider>
+      <DIProvider container={container}>
+        <I18nProvider>
+          <AuthProvider>
+            {children}
+          </AuthProvider>
+        </I18nProvider>
+      </DIProvider>
     </BrowserRouter>
   )
 }